@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { BankAutoMatchSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { autoMatchStatementLines } from '@/lib/banking/bankReconciliation.server';
+
+/**
+ * POST /api/bank-reconciliation/auto-match
+ * Match unmatched statement lines of a bank account to posted voucher lines by amount, reference and date window
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = BankAutoMatchSchema.parse(body);
+
+    const result = await autoMatchStatementLines(auth.companyId, validatedData, auth.userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to auto-match statement lines',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: { matched: result.matched },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
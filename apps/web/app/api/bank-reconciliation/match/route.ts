@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { BankStatementMatchSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { matchStatementLine } from '@/lib/banking/bankReconciliation.server';
+
+/**
+ * POST /api/bank-reconciliation/match
+ * Manually match a statement line to a posted voucher line of the same amount
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = BankStatementMatchSchema.parse(body);
+
+    const result = await matchStatementLine(auth.companyId, validatedData, auth.userId, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to match statement line',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.line,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
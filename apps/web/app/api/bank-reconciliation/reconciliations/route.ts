@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { BankReconciliationSaveSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { listReconciliations, saveReconciliation } from '@/lib/banking/bankReconciliation.server';
+
+/**
+ * GET /api/bank-reconciliation/reconciliations
+ * Saved reconciliation statements, optionally for one bank account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const reconciliations = await listReconciliations(auth.companyId, searchParams.get('bankAccountId') || undefined);
+
+    return NextResponse.json({
+      ok: true,
+      data: reconciliations,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/bank-reconciliation/reconciliations
+ * Save the reconciliation statement of a bank account for a month, replacing one saved earlier
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = BankReconciliationSaveSchema.parse(body);
+
+    const result = await saveReconciliation(auth.companyId, validatedData, auth.userId, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to save bank reconciliation',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.reconciliation,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+import {
+  detectStatementFormat,
+  parseCamtStatement,
+  parseCsvStatement,
+  parseOfxStatement,
+} from '@/lib/banking/statementParsers';
+import { importBankStatement, listBankStatements } from '@/lib/banking/bankReconciliation.server';
+
+/**
+ * GET /api/bank-reconciliation/statements
+ * Imported bank statements, optionally for one bank account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const statements = await listBankStatements(auth.companyId, searchParams.get('bankAccountId') || undefined);
+
+    return NextResponse.json({
+      ok: true,
+      data: statements,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/bank-reconciliation/statements
+ * Import a bank statement file (.csv/.xlsx, .ofx/.qfx or CAMT.053 .xml) for a bank account and auto-match its lines
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const bankAccountId = formData.get('bankAccountId') as string;
+
+    if (!file) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'No file provided',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!bankAccountId) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Bank account is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const format = detectStatementFormat(file.name);
+    if (!format) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid file type. Please upload a CSV, Excel, OFX or CAMT.053 XML statement',
+        },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let parsed;
+    if (format === 'CSV') {
+      // Keep CSV text as-is so dates are not re-read in the server's locale
+      const workbook = XLSX.read(buffer, { type: 'buffer', raw: /\.csv$/i.test(file.name) });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+      if (!worksheet) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'File is empty or invalid',
+          },
+          { status: 400 }
+        );
+      }
+
+      const rawRows = XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, {
+        defval: '',
+        raw: false,
+        dateNF: 'yyyy-mm-dd',
+      });
+      parsed = parseCsvStatement(rawRows);
+    } else if (format === 'OFX') {
+      parsed = parseOfxStatement(buffer.toString('utf8'));
+    } else {
+      parsed = parseCamtStatement(buffer.toString('utf8'));
+    }
+
+    const result = await importBankStatement(
+      auth.companyId,
+      bankAccountId,
+      parsed,
+      file.name,
+      format,
+      auth.userId,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to import bank statement',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          statement: result.statement,
+          imported: result.imported,
+          duplicates: result.duplicates,
+          matched: result.matched,
+          errors: parsed.errors,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { BankReconciliationWorkspaceSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getReconciliationWorkspace, parseMonth } from '@/lib/banking/bankReconciliation.server';
+
+/**
+ * GET /api/bank-reconciliation/workspace?bankAccountId=...&month=YYYY-MM
+ * Outstanding cheques, deposits in transit, unrecorded statement lines and the reconciliation summary at month-end
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = BankReconciliationWorkspaceSchema.parse({
+      bankAccountId: searchParams.get('bankAccountId') || undefined,
+      month: searchParams.get('month') || undefined,
+    });
+    const statementBalance = searchParams.get('statementBalance');
+
+    const { year, month } = parseMonth(filters.month);
+    const workspace = await getReconciliationWorkspace(
+      auth.companyId,
+      filters.bankAccountId,
+      year,
+      month,
+      statementBalance ? parseFloat(statementBalance) : null
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: workspace,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { ChequeBookCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createChequeBook, listChequeBooks } from '@/lib/banking/cheque.server';
+
+/**
+ * GET /api/cheque-books
+ * List cheque books with leaves used and the next unused leaf, optionally for one bank account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const chequeBooks = await listChequeBooks(auth.companyId, searchParams.get('bankAccountId') || undefined);
+
+    return NextResponse.json({
+      ok: true,
+      data: chequeBooks,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/cheque-books
+ * Register a cheque book (leaf number range) for a bank account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ChequeBookCreateSchema.parse(body);
+
+    const result = await createChequeBook(auth.companyId, validatedData, auth.userId, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to create cheque book',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.chequeBook,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
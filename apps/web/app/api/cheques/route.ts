@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { ChequeCreateSchema, ChequeListFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createCheque, listCheques } from '@/lib/banking/cheque.server';
+
+/**
+ * GET /api/cheques
+ * Cheque register, filtered by direction, status or bank account; postDated=true lists cheques held until their date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = ChequeListFiltersSchema.parse({
+      direction: searchParams.get('direction') || undefined,
+      status: searchParams.get('status') || undefined,
+      bankAccountId: searchParams.get('bankAccountId') || undefined,
+      postDated: searchParams.get('postDated') === 'true' || undefined,
+    });
+
+    const cheques = await listCheques(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: cheques,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/cheques
+ * Record a cheque issued from a cheque book or received from a client, optionally linked to its voucher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ChequeCreateSchema.parse(body);
+
+    const result = await createCheque(auth.companyId, validatedData, auth.userId, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to record cheque',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.cheque,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
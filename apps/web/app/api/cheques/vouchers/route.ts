@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getChequeableVouchers } from '@/lib/banking/cheque.server';
+
+/**
+ * GET /api/cheques/vouchers?direction=ISSUED|RECEIVED
+ * Payment (issued) or receipt (received) vouchers not yet linked to a cheque
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const direction = searchParams.get('direction') === 'RECEIVED' ? 'RECEIVED' : 'ISSUED';
+
+    const vouchers = await getChequeableVouchers(auth.companyId, direction);
+
+    return NextResponse.json({
+      ok: true,
+      data: vouchers,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
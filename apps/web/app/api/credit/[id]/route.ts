@@ -9,11 +9,12 @@ import { prisma } from '@accounting/db';
 import { CreditUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
-import { Prisma } from '@prisma/client';
+import { deleteCredit, updateCredit } from '@/lib/credits/creditAccounting.server';
 
 /**
  * PUT /api/credit/[id]
- * Update a credit entry
+ * Update a credit entry. Changing the date, amount, project, payment method or
+ * accounts reverses the receipt voucher and posts a new one.
  */
 export async function PUT(
   request: NextRequest,
@@ -48,90 +49,26 @@ export async function PUT(
       );
     }
 
-    // If projectId is being updated, verify it exists and belongs to company
-    let projectSnapshotName = validatedData.projectSnapshotName || existingCredit.projectSnapshotName;
-    if (validatedData.projectId !== undefined) {
-      if (validatedData.projectId) {
-        const project = await prisma.project.findFirst({
-          where: {
-            id: validatedData.projectId,
-            companyId: auth.companyId,
-          },
-          select: {
-            id: true,
-            name: true,
-          },
-        });
-
-        if (!project) {
-          return NextResponse.json(
-            {
-              ok: false,
-              error: 'Project not found or does not belong to your company',
-            },
-            { status: 400 }
-          );
-        }
-
-        // Use project name as snapshot name if not explicitly provided
-        if (!validatedData.projectSnapshotName) {
-          projectSnapshotName = project.name;
-        }
-      } else {
-        // Company-level credit
-        projectSnapshotName = validatedData.projectSnapshotName || 'Company (All Projects)';
-      }
-    }
+    const result = await updateCredit(
+      params.id,
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      validatedData,
+      request
+    );
 
-    // Verify payment account if provided
-    if (validatedData.paymentAccountId) {
-      const account = await prisma.account.findFirst({
-        where: {
-          id: validatedData.paymentAccountId,
-          companyId: auth.companyId,
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
         },
-      });
-
-      if (!account) {
-        return NextResponse.json(
-          {
-            ok: false,
-            error: 'Payment account not found or does not belong to your company',
-          },
-          { status: 400 }
-        );
-      }
+        { status: 400 }
+      );
     }
 
-    // Build update data
-    const updateData: any = {};
-    if (validatedData.date !== undefined) updateData.date = validatedData.date;
-    if (validatedData.projectId !== undefined) updateData.projectId = validatedData.projectId || null;
-    if (projectSnapshotName) updateData.projectSnapshotName = projectSnapshotName;
-    if (validatedData.purpose !== undefined) updateData.purpose = validatedData.purpose;
-    if (validatedData.paidBy !== undefined) updateData.paidBy = validatedData.paidBy;
-    if (validatedData.receivedBy !== undefined) updateData.receivedBy = validatedData.receivedBy;
-    if (validatedData.paymentMethod !== undefined) updateData.paymentMethod = validatedData.paymentMethod;
-    if (validatedData.paymentRef !== undefined) updateData.paymentRef = validatedData.paymentRef || null;
-    if (validatedData.paymentAccountId !== undefined) updateData.paymentAccountId = validatedData.paymentAccountId || null;
-    if (validatedData.amount !== undefined) updateData.amount = new Prisma.Decimal(validatedData.amount);
-    if (validatedData.note !== undefined) updateData.note = validatedData.note || 'Done';
-
-    // Update credit
-    const updatedCredit = await prisma.credit.update({
-      where: {
-        id: params.id,
-      },
-      data: updateData,
-      include: {
-        project: {
-          select: { id: true, name: true },
-        },
-        paymentAccount: {
-          select: { id: true, code: true, name: true },
-        },
-      },
-    });
+    const updatedCredit = result.credit;
 
     // Create audit log
     await createAuditLog({
@@ -174,7 +111,7 @@ export async function PUT(
 
 /**
  * DELETE /api/credit/[id]
- * Delete a credit entry
+ * Delete a credit entry. Its receipt voucher is reversed, not deleted.
  */
 export async function DELETE(
   request: NextRequest,
@@ -201,12 +138,18 @@ export async function DELETE(
       );
     }
 
-    // Delete credit
-    await prisma.credit.delete({
-      where: {
-        id: params.id,
-      },
-    });
+    // Reverse the receipt voucher, then delete the credit
+    const result = await deleteCredit(params.id, auth.companyId, auth.userId, auth.role, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
 
     // Create audit log
     await createAuditLog({
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { ZodError } from 'zod';
+import { CreditBackfillSchema } from '@accounting/shared';
+import { backfillCreditVouchers } from '@/lib/credits/creditAccounting.server';
+import { createAuditLog } from '@/lib/audit';
+
+/**
+ * POST /api/credit/backfill-vouchers
+ * Post receipt vouchers for existing credits that were recorded without one.
+ * Optional incomeAccountId is used for credits with no income account (default: Customer Advances).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = CreditBackfillSchema.parse(body);
+
+    const result = await backfillCreditVouchers(
+      auth.companyId,
+      auth.userId,
+      validatedData.incomeAccountId,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (result.posted > 0) {
+      await createAuditLog({
+        companyId: auth.companyId,
+        actorUserId: auth.userId,
+        entityType: 'Credit',
+        entityId: auth.companyId,
+        action: 'POST',
+        after: { posted: result.posted, failed: result.failed.length },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: {
+        posted: result.posted,
+        failed: result.failed,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import * as XLSX from 'xlsx';
 import { Prisma } from '@prisma/client';
 import { createAuditLog } from '@/lib/audit';
+import { postVoucherForCredit } from '@/lib/credits/creditAccounting.server';
 
 interface ExcelRow {
   date?: string | number | Date;
@@ -450,14 +451,15 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Insert credits in transaction
+    // Insert credits and post their receipt vouchers in one transaction
     if (creditsToInsert.length > 0) {
       try {
         await prisma.$transaction(async (tx) => {
           for (const creditData of creditsToInsert) {
-            const credit = await tx.credit.create({
+            const created = await tx.credit.create({
               data: creditData,
             });
+            const credit = await postVoucherForCredit(tx, created, auth.userId, null, request);
 
             // Create audit log
             await createAuditLog({
@@ -9,8 +9,8 @@ import { prisma } from '@accounting/db';
 import { ZodError } from 'zod';
 import { CreditCreateSchema, CreditListFiltersSchema } from '@accounting/shared';
 import { getCompanyTotalCredit, getProjectTotalCredit } from '@/lib/credits/creditTotals.server';
+import { createCredit } from '@/lib/credits/creditAccounting.server';
 import { createAuditLog } from '@/lib/audit';
-import { Prisma } from '@prisma/client';
 
 /**
  * GET /api/credit
@@ -76,6 +76,8 @@ export async function GET(request: NextRequest) {
           receivedBy: true,
           paymentMethod: true,
           paymentRef: true,
+          paymentAccountId: true,
+          incomeAccountId: true,
           amount: true,
           note: true,
           projectId: true,
@@ -85,6 +87,12 @@ export async function GET(request: NextRequest) {
           paymentAccount: {
             select: { id: true, code: true, name: true },
           },
+          incomeAccount: {
+            select: { id: true, code: true, name: true },
+          },
+          voucher: {
+            select: { id: true, voucherNo: true, status: true },
+          },
         },
       }),
       prisma.credit.count({ where: listWhere }),
@@ -130,7 +138,8 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/credit
- * Create a new credit entry
+ * Create a new credit entry and post its receipt voucher
+ * (Dr payment account / Cr income or advance account)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -139,80 +148,19 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = CreditCreateSchema.parse(body);
 
-    // If projectId is provided, verify it exists and belongs to company
-    let projectSnapshotName = validatedData.projectSnapshotName;
-    if (validatedData.projectId) {
-      const project = await prisma.project.findFirst({
-        where: {
-          id: validatedData.projectId,
-          companyId: auth.companyId,
-        },
-        select: {
-          id: true,
-          name: true,
-        },
-      });
-
-      if (!project) {
-        return NextResponse.json(
-          {
-            ok: false,
-            error: 'Project not found or does not belong to your company',
-          },
-          { status: 400 }
-        );
-      }
-
-      // Use project name as snapshot name if not explicitly provided
-      if (!projectSnapshotName) {
-        projectSnapshotName = project.name;
-      }
-    }
+    const result = await createCredit(auth.companyId, auth.userId, validatedData, request);
 
-    // Verify payment account if provided
-    if (validatedData.paymentAccountId) {
-      const account = await prisma.account.findFirst({
-        where: {
-          id: validatedData.paymentAccountId,
-          companyId: auth.companyId,
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
         },
-      });
-
-      if (!account) {
-        return NextResponse.json(
-          {
-            ok: false,
-            error: 'Payment account not found or does not belong to your company',
-          },
-          { status: 400 }
-        );
-      }
+        { status: 400 }
+      );
     }
 
-    const credit = await prisma.credit.create({
-      data: {
-        companyId: auth.companyId,
-        projectId: validatedData.projectId || null,
-        projectSnapshotName,
-        date: validatedData.date,
-        purpose: validatedData.purpose,
-        paidBy: validatedData.paidBy,
-        receivedBy: validatedData.receivedBy,
-        paymentMethod: validatedData.paymentMethod,
-        paymentRef: validatedData.paymentRef || null,
-        paymentAccountId: validatedData.paymentAccountId || null,
-        amount: new Prisma.Decimal(validatedData.amount),
-        note: validatedData.note || 'Done',
-      },
-      include: {
-        project: {
-          select: { id: true, name: true },
-        },
-        paymentAccount: {
-          select: { id: true, code: true, name: true },
-        },
-      },
-    });
+    const credit = result.credit;
 
     await createAuditLog({
       companyId: auth.companyId,
@@ -10,6 +10,7 @@ import { ExpenseCreateSchema, ExpenseListFiltersSchema } from '@accounting/share
 import { ZodError } from 'zod';
 import { Prisma } from '@prisma/client';
 import { generateVoucherNumber } from '@/lib/voucher';
+import { checkPeriodOpen } from '@/lib/periods/fiscalPeriod.server';
 
 /**
  * GET /api/expenses
@@ -356,6 +357,17 @@ export async function POST(request: NextRequest) {
     // Date is already transformed by Zod schema
     const expenseDate = validatedData.date;
 
+    const periodCheck = await checkPeriodOpen(auth.companyId, expenseDate, { role: auth.role });
+    if (!periodCheck.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: periodCheck.error,
+        },
+        { status: 400 }
+      );
+    }
+
     // Generate voucher number
     const voucherNo = await generateVoucherNumber(auth.companyId, expenseDate);
 
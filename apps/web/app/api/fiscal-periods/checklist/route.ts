@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { FiscalMonthSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getCloseChecklist } from '@/lib/periods/fiscalPeriod.server';
+
+/**
+ * GET /api/fiscal-periods/checklist?month=YYYY-MM
+ * Month-end close checklist: unposted vouchers, unbalanced vouchers and unallocated overhead
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const month = FiscalMonthSchema.parse(searchParams.get('month') ?? '');
+    const [year, monthNumber] = month.split('-').map(Number);
+
+    const checklist = await getCloseChecklist(auth.companyId, year, monthNumber);
+
+    return NextResponse.json({
+      ok: true,
+      data: checklist,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
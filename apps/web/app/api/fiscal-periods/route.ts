@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { FiscalPeriodUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { listFiscalPeriods, setFiscalPeriodStatus } from '@/lib/periods/fiscalPeriod.server';
+
+/**
+ * GET /api/fiscal-periods?year=YYYY
+ * The twelve months of a year with their close status (default: current year)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const year = Number(searchParams.get('year')) || new Date().getFullYear();
+
+    const periods = await listFiscalPeriods(auth.companyId, year);
+
+    return NextResponse.json({
+      ok: true,
+      data: periods,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/fiscal-periods
+ * Soft-close, close or reopen a month. Reopening is ADMIN-only and needs a note.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const body = await request.json();
+    const validatedData = FiscalPeriodUpdateSchema.parse(body);
+
+    const result = await setFiscalPeriodStatus(
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.period,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { FiscalYearCloseSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { closeFiscalYear, getYearEndPreview } from '@/lib/periods/yearEnd.server';
+
+/**
+ * GET /api/fiscal-periods/year-end?year=YYYY
+ * Preview of the year-end close: P&L balances, the closing entry and anything blocking it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const year = Number(searchParams.get('year')) || new Date().getFullYear() - 1;
+
+    const preview = await getYearEndPreview(auth.companyId, year);
+
+    return NextResponse.json({
+      ok: true,
+      data: preview,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/fiscal-periods/year-end
+ * Post the closing JOURNAL into retained earnings and lock the year (ADMIN only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'companies', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = FiscalYearCloseSchema.parse(body);
+
+    const result = await closeFiscalYear(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.yearClose,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
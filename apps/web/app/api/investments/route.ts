@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { ProjectInvestmentListFiltersSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { getCompanyTotals } from '@/lib/projects/projectTotals.server';
+import { investmentInclude } from '@/lib/investments/investmentAccounting.server';
 
 /**
  * GET /api/investments
@@ -57,14 +58,7 @@ export async function GET(request: NextRequest) {
         skip,
         take,
         orderBy: { date: 'desc' },
-        include: {
-          project: {
-            select: { id: true, name: true },
-          },
-          createdBy: {
-            select: { id: true, name: true, email: true },
-          },
-        },
+        include: investmentInclude,
       }),
       prisma.projectInvestment.count({ where }),
       getCompanyTotals(auth.companyId, filters.projectId),
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { OpeningBalanceCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getOpeningBalance, postOpeningBalances } from '@/lib/openingBalances/openingBalance.server';
+
+/**
+ * GET /api/opening-balances
+ * The posted opening balance voucher, or null when none is in effect
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const openingBalance = await getOpeningBalance(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: openingBalance,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/opening-balances
+ * Post account, vendor and project opening balances as one voucher against Opening Balance Equity
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const body = await request.json();
+    const validatedData = OpeningBalanceCreateSchema.parse(body);
+
+    const result = await postOpeningBalances(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.openingBalance,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+
+/**
+ * GET /api/opening-balances/template
+ * Download the opening balance upload template
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'vouchers', 'READ');
+
+    const workbook = XLSX.utils.book_new();
+
+    const headers = ['Section', 'Account Code', 'Vendor', 'Project', 'Debit', 'Credit', 'Amount', 'Reference'];
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      headers,
+      ['Account', '1020', '', '', '250000', '', '', ''],
+      ['Account', '3020', '', '', '', '400000', '', ''],
+      ['Vendor', '', 'Example Vendor', '', '', '', '35000', 'Bill #1021'],
+      ['Project', '5010', '', 'Example Project', '', '', '185000', 'Materials to date'],
+    ]);
+
+    worksheet['!cols'] = [
+      { wch: 10 }, // Section
+      { wch: 14 }, // Account Code
+      { wch: 22 }, // Vendor
+      { wch: 22 }, // Project
+      { wch: 12 }, // Debit
+      { wch: 12 }, // Credit
+      { wch: 12 }, // Amount
+      { wch: 24 }, // Reference
+    ];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Opening Balances');
+
+    const buffer = XLSX.write(workbook, {
+      type: 'buffer',
+      bookType: 'xlsx',
+    });
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type':
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': 'attachment; filename="opening_balances_template.xlsx"',
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+import {
+  resolveOpeningBalanceSheet,
+  OpeningBalanceSheetRow,
+} from '@/lib/openingBalances/openingBalance.server';
+
+/**
+ * Map template headers to row fields
+ */
+function normalizeHeader(header: string): string {
+  const normalized = header.trim().toLowerCase();
+
+  const headerMap: Record<string, string> = {
+    'section': 'section',
+    'type': 'section',
+    'account code': 'accountCode',
+    'account': 'accountCode',
+    'code': 'accountCode',
+    'vendor': 'vendor',
+    'vendor name': 'vendor',
+    'project': 'project',
+    'project name': 'project',
+    'debit': 'debit',
+    'credit': 'credit',
+    'amount': 'amount',
+    'reference': 'reference',
+    'description': 'reference',
+  };
+
+  return headerMap[normalized] || normalized;
+}
+
+/**
+ * POST /api/opening-balances/upload
+ * Read an opening balance sheet (.xlsx, .xls or .csv) into form rows; nothing is posted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'No file provided',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!/\.(xlsx|xls|csv)$/i.test(file.name)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid file type. Please upload an Excel or CSV file',
+        },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+    if (!worksheet) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'File is empty or invalid',
+        },
+        { status: 400 }
+      );
+    }
+
+    const rawRows = XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, {
+      defval: '',
+      raw: false,
+    });
+
+    const rows: OpeningBalanceSheetRow[] = rawRows.map((row) => {
+      const normalizedRow: Record<string, any> = {};
+      for (const [key, value] of Object.entries(row)) {
+        normalizedRow[normalizeHeader(key)] = value;
+      }
+      return normalizedRow;
+    });
+
+    const result = await resolveOpeningBalanceSheet(auth.companyId, rows);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
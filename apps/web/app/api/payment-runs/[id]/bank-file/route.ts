@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getPaymentRun } from '@/lib/vendors/paymentRun.server';
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET /api/payment-runs/[id]/bank-file
+ * Bank transfer CSV with one row per vendor payment; cancelled vouchers are left out
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const paymentRun = await getPaymentRun(auth.companyId, params.id);
+    if (!paymentRun) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Payment run not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const headers = ['Beneficiary Name', 'Account No', 'Bank', 'Routing No', 'Amount', 'Reference', 'Narration'];
+    const rows = paymentRun.payments
+      .filter((payment) => payment.status !== 'REVERSED')
+      .map((payment) => [
+        payment.vendor?.bankAccountName || payment.vendor?.name || '',
+        payment.vendor?.bankAccountNo || '',
+        payment.vendor?.bankName || '',
+        payment.vendor?.bankRoutingNo || '',
+        payment.amount.toFixed(2),
+        payment.voucherNo,
+        payment.bills.map((bill) => bill.voucherNo).join(' '),
+      ]);
+
+    const csvContent = [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+    return new NextResponse(csvContent, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${paymentRun.runNo}_bank_transfer.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
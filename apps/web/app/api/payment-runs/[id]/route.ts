@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getPaymentRun } from '@/lib/vendors/paymentRun.server';
+
+/**
+ * GET /api/payment-runs/[id]
+ * Payment run with one payment per vendor and the bills each pays
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const paymentRun = await getPaymentRun(auth.companyId, params.id);
+    if (!paymentRun) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Payment run not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: paymentRun,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
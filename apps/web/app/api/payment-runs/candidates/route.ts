@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { PaymentRunCandidateFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getPaymentRunCandidates } from '@/lib/vendors/paymentRun.server';
+
+/**
+ * GET /api/payment-runs/candidates
+ * Open vendor items to pay, filtered by due date, project, vendor and minimum amount,
+ * with amounts proposed oldest due date first within the budget
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = PaymentRunCandidateFiltersSchema.parse({
+      dueBy: searchParams.get('dueBy') || undefined,
+      projectId: searchParams.get('projectId') || undefined,
+      vendorId: searchParams.get('vendorId') || undefined,
+      minAmount: searchParams.get('minAmount') || undefined,
+      budget: searchParams.get('budget') || undefined,
+    });
+    if (filters.dueBy) {
+      filters.dueBy.setHours(23, 59, 59, 999);
+    }
+
+    const candidates = await getPaymentRunCandidates(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: candidates,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { cancelClientBill } from '@/lib/billing/clientBilling.server';
+
+/**
+ * POST /api/projects/[id]/bills/[billId]/cancel
+ * Cancel a POSTED running bill (reverses its voucher)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const bill = await prisma.clientBill.findFirst({
+      where: {
+        id: params.billId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+      select: { id: true },
+    });
+
+    if (!bill) {
+      return NextResponse.json(
+        { ok: false, error: 'Bill not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await cancelClientBill(params.billId, auth.companyId, auth.userId, auth.role, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, data: result.bill });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
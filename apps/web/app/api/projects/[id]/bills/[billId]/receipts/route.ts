@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { ClientBillReceiptCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { recordClientBillReceipt } from '@/lib/billing/clientBilling.server';
+
+/**
+ * POST /api/projects/[id]/bills/[billId]/receipts
+ * Record money received against a POSTED bill (creates a POSTED RECEIPT voucher).
+ * kind=RETENTION releases retention money held by the client.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'POST');
+
+    const body = await request.json();
+    const validatedData = ClientBillReceiptCreateSchema.parse(body);
+
+    const bill = await prisma.clientBill.findFirst({
+      where: {
+        id: params.billId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+      select: { id: true },
+    });
+
+    if (!bill) {
+      return NextResponse.json(
+        { ok: false, error: 'Bill not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await recordClientBillReceipt(
+      params.billId,
+      auth.companyId,
+      auth.userId,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, data: result.bill }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { ok: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { ClientBillUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { updateClientBill } from '@/lib/billing/clientBilling.server';
+
+/**
+ * PATCH /api/projects/[id]/bills/[billId]
+ * Update a DRAFT running bill. Amounts are recomputed on save.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ClientBillUpdateSchema.parse(body);
+
+    const existing = await prisma.clientBill.findFirst({
+      where: {
+        id: params.billId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Bill not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await updateClientBill(params.billId, auth.companyId, validatedData);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ClientBill',
+      entityId: params.billId,
+      action: 'UPDATE',
+      before: existing,
+      after: result.bill,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: result.bill });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { ok: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/bills/[billId]
+ * Delete a DRAFT running bill. Posted bills must be cancelled instead.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const existing = await prisma.clientBill.findFirst({
+      where: {
+        id: params.billId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Bill not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== 'DRAFT') {
+      return NextResponse.json(
+        { ok: false, error: 'Only DRAFT bills can be deleted. Cancel a posted bill instead.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.clientBill.delete({
+      where: { id: params.billId },
+    });
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ClientBill',
+      entityId: params.billId,
+      action: 'DELETE',
+      before: existing,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: { id: params.billId } });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { ClientBillCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import {
+  createClientBill,
+  getProjectBillingSummary,
+  getProjectClientBills,
+} from '@/lib/billing/clientBilling.server';
+
+/**
+ * GET /api/projects/[id]/bills
+ * List running bills for a project with the billing summary against contract value
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const [bills, summary] = await Promise.all([
+      getProjectClientBills(params.id, auth.companyId),
+      getProjectBillingSummary(params.id, auth.companyId),
+    ]);
+
+    return NextResponse.json({
+      ok: true,
+      data: bills,
+      summary,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/bills
+ * Create a DRAFT running bill. The bill amount is work done to date less previously billed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ClientBillCreateSchema.parse({
+      ...body,
+      projectId: params.id,
+    });
+
+    const result = await createClientBill(auth.companyId, auth.userId, validatedData);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ClientBill',
+      entityId: result.bill.id,
+      action: 'CREATE',
+      after: result.bill,
+      request,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.bill,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
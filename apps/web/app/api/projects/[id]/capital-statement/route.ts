@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { getDateRange } from '@/lib/print/range';
+import { getProjectCapitalStatement } from '@/lib/investments/capitalStatement.server';
+
+/**
+ * GET /api/projects/[id]/capital-statement?from=&to=
+ * Investor-wise contributions, withdrawals and share of project profit.
+ * Without a range the statement covers the project to date.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = getDateRange(searchParams, () => {
+      const to = new Date();
+      to.setHours(23, 59, 59, 999);
+      return { from: new Date(0), to };
+    });
+
+    const statement = await getProjectCapitalStatement(params.id, auth.companyId, range);
+
+    return NextResponse.json({
+      ok: true,
+      data: statement,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
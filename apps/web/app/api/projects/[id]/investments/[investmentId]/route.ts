@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { ProjectInvestmentUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { deleteInvestment, updateInvestment } from '@/lib/investments/investmentAccounting.server';
+
+/**
+ * PATCH /api/projects/[id]/investments/[investmentId]
+ * Update an investment or withdrawal. Changing the date, amount, investor or accounts
+ * reverses its voucher and posts a new one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; investmentId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ProjectInvestmentUpdateSchema.parse(body);
+
+    const existing = await prisma.projectInvestment.findFirst({
+      where: {
+        id: params.investmentId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Investment not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await updateInvestment(
+      params.investmentId,
+      params.id,
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const investment = result.investment;
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ProjectInvestment',
+      entityId: investment.id,
+      action: 'UPDATE',
+      before: existing,
+      after: investment,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: investment });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { ok: false, error: error.errors[0]?.message || 'Validation error' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/investments/[investmentId]
+ * Delete an investment or withdrawal. Its voucher is reversed, not deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; investmentId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const existing = await prisma.projectInvestment.findFirst({
+      where: {
+        id: params.investmentId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Investment not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await deleteInvestment(
+      params.investmentId,
+      params.id,
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ProjectInvestment',
+      entityId: params.investmentId,
+      action: 'DELETE',
+      before: existing,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: { id: params.investmentId } });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
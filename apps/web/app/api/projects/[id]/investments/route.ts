@@ -9,7 +9,7 @@ import { prisma } from '@accounting/db';
 import { ProjectInvestmentCreateSchema, ProjectInvestmentListFiltersSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
-import { Prisma } from '@prisma/client';
+import { createInvestment, investmentInclude } from '@/lib/investments/investmentAccounting.server';
 
 /**
  * GET /api/projects/[id]/investments
@@ -76,24 +76,20 @@ export async function GET(
         skip,
         take,
         orderBy: { date: 'desc' },
-        include: {
-          project: {
-            select: { id: true, name: true },
-          },
-          createdBy: {
-            select: { id: true, name: true, email: true },
-          },
-        },
+        include: investmentInclude,
       }),
       prisma.projectInvestment.count({ where }),
     ]);
 
-    const totals = await prisma.projectInvestment.aggregate({
+    const totals = await prisma.projectInvestment.groupBy({
+      by: ['type'],
       where,
       _sum: {
         amount: true,
       },
     });
+    const sumByType = (type: 'INVESTMENT' | 'WITHDRAWAL') =>
+      totals.find((t) => t.type === type)?._sum.amount?.toNumber() || 0;
 
     return NextResponse.json({
       ok: true,
@@ -105,7 +101,9 @@ export async function GET(
         totalPages: Math.ceil(total / pageSize),
       },
       totals: {
-        total: totals._sum.amount?.toNumber() || 0,
+        total: sumByType('INVESTMENT') - sumByType('WITHDRAWAL'),
+        invested: sumByType('INVESTMENT'),
+        withdrawn: sumByType('WITHDRAWAL'),
       },
     });
   } catch (error) {
@@ -130,7 +128,8 @@ export async function GET(
 
 /**
  * POST /api/projects/[id]/investments
- * Create a new investment for a project
+ * Record an investment (Dr cash/bank / Cr Capital) or withdrawal (Dr Capital / Cr cash/bank)
+ * for a project and post its voucher
  */
 export async function POST(
   request: NextRequest,
@@ -163,24 +162,19 @@ export async function POST(
       );
     }
 
-    const investment = await prisma.projectInvestment.create({
-      data: {
-        companyId: auth.companyId,
-        projectId: params.id,
-        date: validatedData.date,
-        amount: new Prisma.Decimal(validatedData.amount),
-        note: validatedData.note || null,
-        createdByUserId: auth.userId,
-      },
-      include: {
-        project: {
-          select: { id: true, name: true },
-        },
-        createdBy: {
-          select: { id: true, name: true, email: true },
+    const result = await createInvestment(params.id, auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
         },
-      },
-    });
+        { status: 400 }
+      );
+    }
+
+    const investment = result.investment;
 
     await createAuditLog({
       companyId: auth.companyId,
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { getTeamLeaderDues } from '@/lib/labor/laborDues.server';
+
+/**
+ * GET /api/projects/[id]/labor-dues
+ * Day labor outstanding per team leader
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const dues = await getTeamLeaderDues(params.id, auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: dues,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { createAuditLog } from '@/lib/audit';
+import { deleteLaborPayment } from '@/lib/labor/laborAccounting.server';
+
+/**
+ * DELETE /api/projects/[id]/labor-payments/[paymentId]
+ * Delete a labor payment installment. Its voucher is reversed and the amount
+ * goes back to the dues of the entries it was allocated to.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; paymentId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const existing = await prisma.laborPayment.findFirst({
+      where: {
+        id: params.paymentId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await deleteLaborPayment(params.paymentId, auth.companyId, auth.userId, auth.role, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'LaborPayment',
+      entityId: params.paymentId,
+      action: 'DELETE',
+      before: result.payment,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: { id: params.paymentId } });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
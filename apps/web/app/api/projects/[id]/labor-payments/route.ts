@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { LaborPaymentCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { Prisma } from '@prisma/client';
+import { createLaborPayment, laborPaymentInclude } from '@/lib/labor/laborAccounting.server';
+
+/**
+ * GET /api/projects/[id]/labor-payments
+ * List labor payment installments for a project (optionally for one team leader)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const where: Prisma.LaborPaymentWhereInput = {
+      companyId: auth.companyId,
+      projectId: params.id,
+    };
+    if (searchParams.has('teamLeader')) {
+      where.teamLeader = searchParams.get('teamLeader') || null;
+    }
+
+    const payments = await prisma.laborPayment.findMany({
+      where,
+      include: laborPaymentInclude,
+      orderBy: { date: 'desc' },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: payments,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/labor-payments
+ * Pay labor dues in an installment. With teamLeader the amount settles that team
+ * leader's dues oldest entry first; with laborId it settles a single entry.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = LaborPaymentCreateSchema.parse(body);
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Project not found or does not belong to your company',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await createLaborPayment(params.id, auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'LaborPayment',
+      entityId: result.payment.id,
+      action: 'CREATE',
+      after: result.payment,
+      request,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.payment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -9,12 +9,13 @@ import { prisma } from '@accounting/db';
 import { ProjectLaborUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
-import { Prisma } from '@prisma/client';
+import { deleteLaborEntry, updateLaborEntry } from '@/lib/labor/laborAccounting.server';
 
 /**
  * PATCH /api/projects/[id]/labors/[laborId]
  * Update a labor entry (e.g. teamLeader, paid, rating, amount, date, note).
- * Recomputes due = max(0, amount - paid) on save.
+ * Recomputes due = max(0, amount - paid) on save. Raising paid records a payment voucher
+ * against the due; changing amount/date reverses and re-posts the entry voucher.
  */
 export async function PATCH(
   request: NextRequest,
@@ -41,32 +42,23 @@ export async function PATCH(
       );
     }
 
-    const amount = validatedData.amount ?? existing.amount.toNumber();
-    const paidNum = validatedData.paid !== undefined ? validatedData.paid : (existing.paid?.toNumber() ?? 0);
-    const due = Math.max(0, amount - paidNum);
-
-    const updateData: Prisma.ProjectLaborUpdateInput = {
-      ...(validatedData.date !== undefined && { date: validatedData.date }),
-      ...(validatedData.amount !== undefined && { amount: new Prisma.Decimal(validatedData.amount) }),
-      ...(validatedData.note !== undefined && { note: validatedData.note ?? null }),
-      ...(validatedData.workerName !== undefined && { workerName: validatedData.workerName ?? null }),
-      ...(validatedData.employeeName !== undefined && { employeeName: validatedData.employeeName ?? null }),
-      ...(validatedData.month !== undefined && { month: validatedData.month ?? null }),
-      ...(validatedData.year !== undefined && { year: validatedData.year ?? null }),
-      ...(validatedData.teamLeader !== undefined && { teamLeader: validatedData.teamLeader ?? null }),
-      ...(validatedData.paid !== undefined && { paid: new Prisma.Decimal(validatedData.paid) }),
-      due: new Prisma.Decimal(due),
-      ...(validatedData.rating !== undefined && { rating: validatedData.rating ?? null }),
-    };
-
-    const labor = await prisma.projectLabor.update({
-      where: { id: params.laborId },
-      data: updateData,
-      include: {
-        project: { select: { id: true, name: true } },
-        createdBy: { select: { id: true, name: true, email: true } },
-      },
-    });
+    const result = await updateLaborEntry(
+      params.laborId,
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const labor = result.labor;
 
     await createAuditLog({
       companyId: auth.companyId,
@@ -74,6 +66,7 @@ export async function PATCH(
       entityType: 'ProjectLabor',
       entityId: labor.id,
       action: 'UPDATE',
+      before: existing,
       after: labor,
       request,
     });
@@ -95,3 +88,60 @@ export async function PATCH(
     return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
   }
 }
+
+/**
+ * DELETE /api/projects/[id]/labors/[laborId]
+ * Delete a labor entry. Its vouchers are reversed, not deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; laborId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const existing = await prisma.projectLabor.findFirst({
+      where: {
+        id: params.laborId,
+        projectId: params.id,
+        companyId: auth.companyId,
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Labor entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await deleteLaborEntry(params.laborId, auth.companyId, auth.userId, auth.role, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { ok: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'ProjectLabor',
+      entityId: params.laborId,
+      action: 'DELETE',
+      before: existing,
+      request,
+    });
+
+    return NextResponse.json({ ok: true, data: { id: params.laborId } });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -10,6 +10,7 @@ import { ProjectLaborCreateSchema, ProjectLaborListFiltersSchema } from '@accoun
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
+import { createLaborEntry, laborInclude } from '@/lib/labor/laborAccounting.server';
 
 /**
  * GET /api/projects/[id]/labors
@@ -80,14 +81,7 @@ export async function GET(
         skip,
         take,
         orderBy: { date: 'desc' },
-        include: {
-          project: {
-            select: { id: true, name: true },
-          },
-          createdBy: {
-            select: { id: true, name: true, email: true },
-          },
-        },
+        include: laborInclude,
       }),
       prisma.projectLabor.count({ where }),
     ]);
@@ -134,7 +128,8 @@ export async function GET(
 
 /**
  * POST /api/projects/[id]/labors
- * Create a new labor entry for a project
+ * Create a new labor entry for a project and post it to the ledger
+ * (Dr Direct Labor / Cr payment account for paid / Cr Labor Payable for due)
  */
 export async function POST(
   request: NextRequest,
@@ -167,37 +162,19 @@ export async function POST(
       );
     }
 
-    const amount = validatedData.amount;
-    const paid = validatedData.paid ?? 0;
-    const due = Math.max(0, amount - paid);
+    const result = await createLaborEntry(auth.companyId, auth.userId, validatedData, request);
 
-    const labor = await prisma.projectLabor.create({
-      data: {
-        companyId: auth.companyId,
-        projectId: params.id,
-        type: validatedData.type ?? 'DAY',
-        date: validatedData.date,
-        amount: new Prisma.Decimal(amount),
-        note: validatedData.note ?? null,
-        workerName: validatedData.workerName ?? null,
-        employeeName: validatedData.employeeName ?? null,
-        month: validatedData.month ?? null,
-        year: validatedData.year ?? null,
-        teamLeader: validatedData.teamLeader ?? null,
-        paid: new Prisma.Decimal(paid),
-        due: new Prisma.Decimal(due),
-        rating: validatedData.rating ?? null,
-        createdByUserId: auth.userId,
-      },
-      include: {
-        project: {
-          select: { id: true, name: true },
-        },
-        createdBy: {
-          select: { id: true, name: true, email: true },
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
         },
-      },
-    });
+        { status: 400 }
+      );
+    }
+
+    const labor = result.labor;
 
     await createAuditLog({
       companyId: auth.companyId,
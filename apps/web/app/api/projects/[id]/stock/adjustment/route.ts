@@ -87,6 +87,9 @@ export async function POST(
       notes: reason,
       userId: auth.userId,
       movementDate: movementDate ? new Date(movementDate) : new Date(),
+      movementKind: StockMovementKind.ADJUSTMENT,
+      postJournal: true,
+      request,
     });
 
     if (!result.success) {
@@ -99,11 +102,10 @@ export async function POST(
       );
     }
 
-    // Update the movement to set movementKind, reason, and auto-approve
+    // Update the movement to set reason and auto-approve
     await prisma.stockMovement.update({
       where: { id: result.movementId! },
       data: {
-        movementKind: StockMovementKind.ADJUSTMENT,
         reason,
         approvedById: auth.userId, // Auto-approve for now
         approvedAt: new Date(),
@@ -115,6 +117,7 @@ export async function POST(
         ok: true,
         data: {
           movementId: result.movementId,
+          voucherId: result.voucherId,
           balance: result.balance,
         },
       },
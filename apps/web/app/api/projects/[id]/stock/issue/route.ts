@@ -129,6 +129,9 @@ export async function POST(
       notes: notes || null,
       userId: auth.userId,
       movementDate: movementDate ? new Date(movementDate) : new Date(),
+      movementKind: StockMovementKind.ISSUE,
+      postJournal: true,
+      request,
     });
 
     if (!result.success) {
@@ -141,11 +144,10 @@ export async function POST(
       );
     }
 
-    // Update the movement to set movementKind and meta
+    // Update the movement to set meta
     await prisma.stockMovement.update({
       where: { id: result.movementId! },
       data: {
-        movementKind: StockMovementKind.ISSUE,
         meta: meta || null,
       },
     });
@@ -155,6 +157,7 @@ export async function POST(
         ok: true,
         data: {
           movementId: result.movementId,
+          voucherId: result.voucherId,
           balance: result.balance,
         },
       },
@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
 import { StockMovementKind, StockMovementType } from '@prisma/client';
 import { adjustStock } from '@/lib/stock/stockService.server';
+import { getDefaultWarehouseId } from '@/lib/stock/warehouse.server';
 import { ZodError } from 'zod';
 
 const normalizeName = (s: string) => s.trim().replace(/\s+/g, ' ');
@@ -151,6 +152,7 @@ async function resolveLineToStockItemId(
       data: {
         companyId,
         stockItemId: created.id,
+        warehouseId: await getDefaultWarehouseId(prisma, companyId),
         onHandQty: new Prisma.Decimal(0),
         avgCost: new Prisma.Decimal(0),
       },
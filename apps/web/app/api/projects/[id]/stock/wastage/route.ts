@@ -83,6 +83,9 @@ export async function POST(
       notes: reason,
       userId: auth.userId,
       movementDate: movementDate ? new Date(movementDate) : new Date(),
+      movementKind: StockMovementKind.WASTAGE,
+      postJournal: true,
+      request,
     });
 
     if (!result.success) {
@@ -95,11 +98,10 @@ export async function POST(
       );
     }
 
-    // Update the movement to set movementKind, reason, and auto-approve
+    // Update the movement to set reason and auto-approve
     await prisma.stockMovement.update({
       where: { id: result.movementId! },
       data: {
-        movementKind: StockMovementKind.WASTAGE,
         reason,
         approvedById: auth.userId, // Auto-approve for now
         approvedAt: new Date(),
@@ -111,6 +113,7 @@ export async function POST(
         ok: true,
         data: {
           movementId: result.movementId,
+          voucherId: result.voucherId,
           balance: result.balance,
         },
       },
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { PurchaseOrderBillCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createBillFromPurchaseOrder } from '@/lib/purchases/purchaseOrder.server';
+
+/**
+ * POST /api/purchase-orders/[id]/bill
+ * Draft the vendor bill for goods received on the order and not yet billed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = PurchaseOrderBillCreateSchema.parse(body);
+
+    const result = await createBillFromPurchaseOrder(auth.companyId, params.id, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to create bill',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.purchase,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getOpenPurchaseOrderQuantities } from '@/lib/purchases/purchaseOrder.server';
+
+/**
+ * GET /api/purchase-orders/open-quantities
+ * Quantities still to be delivered on open purchase orders, optionally by project or vendor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const lines = await getOpenPurchaseOrderQuantities(auth.companyId, {
+      projectId: searchParams.get('projectId') || undefined,
+      vendorId: searchParams.get('vendorId') || undefined,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: lines,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { PurchaseOrderCreateSchema, PurchaseOrderListFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createPurchaseOrder, listPurchaseOrders } from '@/lib/purchases/purchaseOrder.server';
+
+/**
+ * GET /api/purchase-orders
+ * List purchase orders with received and billed quantities, optionally by project, vendor or status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = PurchaseOrderListFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      vendorId: searchParams.get('vendorId') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const purchaseOrders = await listPurchaseOrders(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: purchaseOrders,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/purchase-orders
+ * Raise a purchase order to a vendor for a project
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = PurchaseOrderCreateSchema.parse(body);
+
+    const result = await createPurchaseOrder(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to create purchase order',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.purchaseOrder,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
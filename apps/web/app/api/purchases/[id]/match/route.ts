@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getThreeWayMatch } from '@/lib/purchases/purchaseOrder.server';
+
+/**
+ * GET /api/purchases/[id]/match
+ * Three-way match of a bill against its purchase order and goods receipts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'READ');
+
+    const match = await getThreeWayMatch(auth.companyId, params.id);
+    if (!match) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Purchase not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: match,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -257,6 +257,26 @@ export async function PUT(
         }
       }
 
+      // Order lines can only be referenced on a bill raised against that purchase order
+      const purchaseOrderLineIds = validatedData.lines
+        .map((line) => line.purchaseOrderLineId)
+        .filter((id): id is string => Boolean(id));
+      if (purchaseOrderLineIds.length > 0) {
+        const orderLineCount = existingPurchase.purchaseOrderId
+          ? await prisma.purchaseOrderLine.count({
+              where: {
+                id: { in: Array.from(new Set(purchaseOrderLineIds)) },
+                purchaseOrderId: existingPurchase.purchaseOrderId,
+              },
+            })
+          : 0;
+        if (orderLineCount !== new Set(purchaseOrderLineIds).size) {
+          return NextResponse.json(
+            { ok: false, error: 'Purchase order line does not belong to the order this bill was raised against' },
+            { status: 400 }
+          );
+        }
+      }
     }
 
     // Compute totals server-side if lines are provided
@@ -335,6 +355,9 @@ export async function PUT(
                 if (line.stockItemId) {
                   lineData.stockItem = { connect: { id: line.stockItemId } };
                 }
+                if (line.purchaseOrderLineId) {
+                  lineData.purchaseOrderLine = { connect: { id: line.purchaseOrderLineId } };
+                }
                 return lineData;
               }),
             },
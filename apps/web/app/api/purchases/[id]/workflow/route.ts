@@ -91,9 +91,9 @@ export async function POST(
       }
     }
 
-    // Check permissions based on action
-    if (action === 'APPROVE' || action === 'POST' || action === 'REVERSE') {
-      if (!can(auth.role, 'vouchers', action === 'REVERSE' ? 'POST' : action)) {
+    // Check permissions based on action (approvers are decided by the approval policy)
+    if (action === 'POST' || action === 'REVERSE') {
+      if (!can(auth.role, 'vouchers', 'POST')) {
         throw new ForbiddenError(`You do not have permission to ${action} purchases`);
       }
     }
@@ -119,6 +119,7 @@ export async function POST(
           auth.userId,
           auth.companyId,
           auth.role,
+          { comment: typeof body.comment === 'string' ? body.comment : null },
           request
         );
         break;
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+import { getPayablesAging, PayablesAgingGroupBy } from '@/lib/payables';
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET /api/reports/payables-aging
+ * Payables aging per vendor or project; format=csv|xlsx downloads the open items behind it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const asOfParam = searchParams.get('asOf');
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid as-of date',
+        },
+        { status: 400 }
+      );
+    }
+    if (asOfParam) {
+      asOf.setHours(23, 59, 59, 999);
+    }
+    const groupBy: PayablesAgingGroupBy = searchParams.get('groupBy') === 'project' ? 'project' : 'vendor';
+    const format = searchParams.get('format');
+
+    const aging = await getPayablesAging(auth.companyId, asOf, groupBy);
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({
+        ok: true,
+        data: aging,
+      });
+    }
+
+    const headers = [
+      groupBy === 'vendor' ? 'Vendor' : 'Project',
+      groupBy === 'vendor' ? 'Project' : 'Vendor',
+      'Voucher No',
+      'Bill Date',
+      'Due Date',
+      'Days Overdue',
+      'Description',
+      'Original',
+      'Paid',
+      'Outstanding',
+      '0-30',
+      '31-60',
+      '61-90',
+      '90+',
+    ];
+    const itemRows = aging.rows.flatMap((row) =>
+      row.items.map((item) => [
+        row.name,
+        (groupBy === 'vendor' ? item.projectName : item.vendorName) ?? '',
+        item.voucherNo,
+        isoDate(item.date),
+        isoDate(item.dueDate),
+        item.daysOverdue,
+        item.narration,
+        item.originalAmount,
+        item.allocatedAmount,
+        item.outstanding,
+        item.days0to30,
+        item.days31to60,
+        item.days61to90,
+        item.days90plus,
+      ])
+    );
+    const filename = `payables_aging_${groupBy}_${isoDate(asOf)}`;
+
+    if (format === 'csv') {
+      const csvContent = [headers, ...itemRows].map((row) => row.map(csvCell).join(',')).join('\n');
+      return new NextResponse(csvContent, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    const workbook = XLSX.utils.book_new();
+
+    const summarySheet = XLSX.utils.aoa_to_sheet([
+      [groupBy === 'vendor' ? 'Vendor' : 'Project', '0-30', '31-60', '61-90', '90+', 'Outstanding', 'Overdue'],
+      ...aging.rows.map((row) => [
+        row.name,
+        row.days0to30,
+        row.days31to60,
+        row.days61to90,
+        row.days90plus,
+        row.outstanding,
+        row.overdue,
+      ]),
+      [
+        'Total',
+        aging.totals.days0to30,
+        aging.totals.days31to60,
+        aging.totals.days61to90,
+        aging.totals.days90plus,
+        aging.totals.outstanding,
+        aging.totals.overdue,
+      ],
+    ]);
+    summarySheet['!cols'] = [{ wch: 30 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }];
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+    const itemsSheet = XLSX.utils.aoa_to_sheet([headers, ...itemRows]);
+    itemsSheet['!cols'] = headers.map((header) => ({ wch: header === 'Description' ? 40 : 14 }));
+    XLSX.utils.book_append_sheet(workbook, itemsSheet, 'Open Items');
+
+    const buffer = XLSX.write(workbook, {
+      type: 'buffer',
+      bookType: 'xlsx',
+    });
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type':
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
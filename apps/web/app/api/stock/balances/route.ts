@@ -11,7 +11,7 @@ import { ZodError } from 'zod';
 
 /**
  * GET /api/stock/balances
- * List stock balances (on-hand quantities) for user's company
+ * List stock balances (on-hand quantities) per location for user's company
  */
 export async function GET(request: NextRequest) {
   try {
@@ -24,6 +24,7 @@ export async function GET(request: NextRequest) {
       pageSize: searchParams.get('pageSize') || '25',
       lowStock: searchParams.get('lowStock') || undefined,
       category: searchParams.get('category') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
     });
 
     const page = Number(filters.page) || 1;
@@ -36,6 +37,10 @@ export async function GET(request: NextRequest) {
       },
     };
 
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
+    }
+
     if (filters.category) {
       where.stockItem = {
         ...where.stockItem,
@@ -82,12 +87,14 @@ export async function GET(request: NextRequest) {
               reorderLevel: true,
             },
           },
-        },
-        orderBy: {
-          stockItem: {
-            name: 'asc',
+          warehouse: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
+        orderBy: [{ stockItem: { name: 'asc' } }, { warehouse: { name: 'asc' } }],
       }),
       prisma.stockBalance.count({ where }),
     ]);
@@ -104,6 +111,7 @@ export async function GET(request: NextRequest) {
         id: balance.id,
         stockItemId: balance.stockItemId,
         stockItem: balance.stockItem,
+        warehouse: balance.warehouse,
         onHandQty: onHand,
         avgCost: Number(balance.avgCost),
         isLowStock,
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { StockCostingComparisonFiltersSchema, StockCostingSettingsSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getStockCostingComparison, setCompanyCostingMethod } from '@/lib/stock/stockValuation.server';
+
+/**
+ * GET /api/stock/costing
+ * Stock on hand at a date valued under weighted average and FIFO, side by side
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = StockCostingComparisonFiltersSchema.parse({
+      asOf: searchParams.get('asOf') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
+    });
+
+    const comparison = await getStockCostingComparison(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: comparison,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * PATCH /api/stock/costing
+ * Change the company's default stock costing method
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = StockCostingSettingsSchema.parse(body);
+
+    const company = await setCompanyCostingMethod(
+      auth.companyId,
+      auth.userId,
+      validatedData.stockCostingMethod,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: company,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -10,6 +10,7 @@ import { StockItemUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
+import { sumLocationBalances } from '@/lib/stock/warehouse.server';
 
 /**
  * GET /api/stock/items/[id]
@@ -47,11 +48,11 @@ export async function GET(
       );
     }
 
-    const balance = item.balances[0];
+    const balance = sumLocationBalances(item.balances);
     const itemWithBalance = {
       ...item,
-      onHandQty: balance ? Number(balance.onHandQty) : 0,
-      avgCost: balance ? Number(balance.avgCost) : 0,
+      onHandQty: balance.onHandQty,
+      avgCost: balance.avgCost,
       balances: undefined,
     };
 
@@ -233,6 +234,7 @@ export async function PUT(
         ? new Prisma.Decimal(validatedData.reorderLevel)
         : null;
     }
+    if (validatedData.costingMethod !== undefined) updateData.costingMethod = validatedData.costingMethod || null;
     if (validatedData.isActive !== undefined) updateData.isActive = validatedData.isActive;
 
     const before = { ...existing };
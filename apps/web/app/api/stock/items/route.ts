@@ -13,6 +13,7 @@ import {
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
+import { getDefaultWarehouseId, sumLocationBalances } from '@/lib/stock/warehouse.server';
 
 /**
  * GET /api/stock/items
@@ -34,6 +35,7 @@ export async function GET(request: NextRequest) {
       pageSize: searchParams.get('pageSize') || '25',
       category: searchParams.get('category') || undefined,
       isActive: searchParams.get('isActive') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
     });
 
     const page = Number(filters.page) || 1;
@@ -69,6 +71,7 @@ export async function GET(request: NextRequest) {
         orderBy: { name: 'asc' },
         include: {
           balances: {
+            where: filters.warehouseId ? { warehouseId: filters.warehouseId } : undefined,
             select: {
               onHandQty: true,
               avgCost: true,
@@ -79,13 +82,13 @@ export async function GET(request: NextRequest) {
       prisma.stockItem.count({ where }),
     ]);
 
-    // Transform items to include balance
+    // Transform items to include balance (summed over locations unless one is selected)
     const itemsWithBalance = items.map((item) => {
-      const balance = item.balances[0];
+      const balance = sumLocationBalances(item.balances);
       return {
         ...item,
-        onHandQty: balance ? Number(balance.onHandQty) : 0,
-        avgCost: balance ? Number(balance.avgCost) : 0,
+        onHandQty: balance.onHandQty,
+        avgCost: balance.avgCost,
         balances: undefined,
       };
     });
@@ -187,15 +190,17 @@ export async function POST(request: NextRequest) {
         reorderLevel: validatedData.reorderLevel
           ? new Prisma.Decimal(validatedData.reorderLevel)
           : null,
+        costingMethod: validatedData.costingMethod || null,
         isActive: validatedData.isActive,
       },
     });
 
-    // Create initial balance
+    // Create initial balance at the central store
     await prisma.stockBalance.create({
       data: {
         companyId: auth.companyId,
         stockItemId: item.id,
+        warehouseId: await getDefaultWarehouseId(prisma, auth.companyId),
         onHandQty: new Prisma.Decimal(0),
         avgCost: new Prisma.Decimal(0),
       },
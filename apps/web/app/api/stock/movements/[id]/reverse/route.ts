@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { reverseStockMovement } from '@/lib/stock/stockAccounting.server';
+
+/**
+ * POST /api/stock/movements/[id]/reverse
+ * Reverse an issue, wastage or adjustment: books the opposite movement and reverses its journal
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json().catch(() => ({}));
+    const { date, description } = body;
+
+    const result = await reverseStockMovement(
+      params.id,
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      {
+        date: date ? new Date(date) : undefined,
+        description,
+      },
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: {
+        movementId: result.movementId,
+        reversalVoucherId: result.reversalVoucherId,
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -6,14 +6,17 @@ import {
   UnauthorizedError,
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
+import { StockMovementKind } from '@prisma/client';
 import { StockMovementAdjustSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { adjustStock } from '@/lib/stock/stockService.server';
+import { resolveWarehouseId } from '@/lib/stock/warehouse.server';
 import { createAuditLog } from '@/lib/audit';
 
 /**
  * POST /api/stock/movements/adjust
- * Create a stock ADJUST movement (manual adjustment)
+ * Adjust a location's on-hand quantity to a counted target
+ * The difference is booked as an adjustment increase or decrease with its Inventory Variance journal.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -40,48 +43,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current balance to calculate delta
-    const currentBalance = await prisma.stockBalance.findUnique({
-      where: {
-        companyId_stockItemId: {
-          companyId: auth.companyId,
-          stockItemId: validatedData.stockItemId,
-        },
-      },
+    // Adjustments count one location (the central store unless another is chosen)
+    const warehouseId = await resolveWarehouseId(prisma, auth.companyId, {
+      warehouseId: validatedData.warehouseId,
     });
-
-    const currentQty = currentBalance ? Number(currentBalance.onHandQty) : 0;
-    const targetQty = validatedData.qty;
-    const deltaQty = targetQty - currentQty;
-
-    if (deltaQty === 0) {
+    if (!warehouseId) {
       return NextResponse.json(
         {
           ok: false,
-          error: 'No adjustment needed. Current quantity matches target.',
+          error: 'Stock location not found or inactive',
         },
         { status: 400 }
       );
     }
 
-    // Create stock movement with absolute qty (ADJUST type uses qty as target)
-    const result = await adjustStock({
-      companyId: auth.companyId,
-      stockItemId: validatedData.stockItemId,
-      type: 'ADJUST',
-      qty: targetQty, // ADJUST uses qty as target onHandQty
-      unitCost: validatedData.unitCost,
-      notes: validatedData.notes || `Adjustment: ${deltaQty > 0 ? '+' : ''}${deltaQty}`,
-      userId: auth.userId,
-      movementDate: validatedData.movementDate ? new Date(validatedData.movementDate) : new Date(),
-      referenceType: 'ADJUSTMENT',
-    });
+    // Count against the balance inside the transaction, so a movement booked meanwhile is not overwritten
+    const movementDate = validatedData.movementDate ? new Date(validatedData.movementDate) : new Date();
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        const currentBalance = await tx.stockBalance.findUnique({
+          where: {
+            companyId_stockItemId_warehouseId: {
+              companyId: auth.companyId,
+              stockItemId: validatedData.stockItemId,
+              warehouseId,
+            },
+          },
+        });
 
-    if (!result.success) {
+        const currentQty = currentBalance ? Number(currentBalance.onHandQty) : 0;
+        const deltaQty = Math.round((validatedData.qty - currentQty) * 1000) / 1000;
+        if (deltaQty === 0) {
+          throw new Error('No adjustment needed. Current quantity matches target.');
+        }
+
+        // Booked as an increase or decrease so the variance journal values only the difference
+        const adjusted = await adjustStock({
+          companyId: auth.companyId,
+          stockItemId: validatedData.stockItemId,
+          type: deltaQty > 0 ? 'IN' : 'OUT',
+          qty: Math.abs(deltaQty),
+          unitCost: deltaQty > 0 ? validatedData.unitCost : undefined,
+          warehouseId,
+          notes: validatedData.notes || `Adjustment: ${deltaQty > 0 ? '+' : ''}${deltaQty}`,
+          userId: auth.userId,
+          movementDate,
+          movementKind: StockMovementKind.ADJUSTMENT,
+          referenceType: 'ADJUSTMENT',
+          postJournal: true,
+          request,
+          tx,
+        });
+        if (!adjusted.success) {
+          throw new Error(adjusted.error || 'Failed to create stock adjustment');
+        }
+        return { ...adjusted, delta: deltaQty };
+      });
+    } catch (error) {
       return NextResponse.json(
         {
           ok: false,
-          error: result.error || 'Failed to create stock adjustment',
+          error: error instanceof Error ? error.message : 'Failed to create stock adjustment',
         },
         { status: 400 }
       );
@@ -118,7 +141,8 @@ export async function POST(request: NextRequest) {
         data: {
           movement,
           balance: result.balance,
-          delta: deltaQty,
+          delta: result.delta,
+          voucherId: result.voucherId,
         },
       },
       { status: 201 }
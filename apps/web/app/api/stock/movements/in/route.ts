@@ -91,6 +91,8 @@ export async function POST(request: NextRequest) {
       referenceId: validatedData.referenceId || null,
       projectId: validatedData.projectId || null,
       vendorId: validatedData.vendorId || null,
+      warehouseId: validatedData.warehouseId || null,
+      lotNo: validatedData.lotNo || null,
       notes: validatedData.notes || null,
       userId: auth.userId,
       movementDate: validatedData.movementDate ? new Date(validatedData.movementDate) : new Date(),
@@ -129,6 +131,12 @@ export async function POST(request: NextRequest) {
             name: true,
           },
         },
+        warehouse: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
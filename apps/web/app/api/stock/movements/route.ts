@@ -22,6 +22,7 @@ export async function GET(request: NextRequest) {
       stockItemId: searchParams.get('stockItemId') || undefined,
       type: searchParams.get('type') as 'IN' | 'OUT' | 'ADJUST' | undefined,
       projectId: searchParams.get('projectId') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
       dateFrom: searchParams.get('dateFrom') || undefined,
       dateTo: searchParams.get('dateTo') || undefined,
       page: searchParams.get('page') || '1',
@@ -47,6 +48,10 @@ export async function GET(request: NextRequest) {
       where.projectId = filters.projectId;
     }
 
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
+    }
+
     if (filters.dateFrom || filters.dateTo) {
       where.movementDate = {};
       if (filters.dateFrom) {
@@ -86,6 +91,12 @@ export async function GET(request: NextRequest) {
               name: true,
             },
           },
+          warehouse: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           createdBy: {
             select: {
               id: true,
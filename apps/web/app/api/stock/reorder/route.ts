@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { ReorderSuggestionFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getReorderSuggestions } from '@/lib/stock/reorder.server';
+
+/**
+ * GET /api/stock/reorder
+ * Items at or below their reorder level or project minimum, with suggested order quantities
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = ReorderSuggestionFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      lookbackDays: searchParams.get('lookbackDays') || undefined,
+      coverDays: searchParams.get('coverDays') || undefined,
+    });
+
+    const suggestions = await getReorderSuggestions(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: suggestions,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { cancelMaterialRequisition } from '@/lib/stock/materialRequisition.server';
+
+/**
+ * POST /api/stock/requisitions/[id]/cancel
+ * Withdraw a pending requisition (the requester's own, or any for approvers)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'WRITE');
+
+    const result = await cancelMaterialRequisition(
+      auth.companyId,
+      params.id,
+      auth.userId,
+      { canCancelAny: can(auth.role, 'requisitions', 'APPROVE') },
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to cancel requisition',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.requisition,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
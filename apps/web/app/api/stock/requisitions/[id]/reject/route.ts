@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { MaterialRequisitionRejectSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { rejectMaterialRequisition } from '@/lib/stock/materialRequisition.server';
+
+/**
+ * POST /api/stock/requisitions/[id]/reject
+ * Reject a pending requisition with a reason
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'APPROVE');
+
+    const body = await request.json();
+    const validatedData = MaterialRequisitionRejectSchema.parse(body);
+
+    const result = await rejectMaterialRequisition(
+      auth.companyId,
+      params.id,
+      auth.userId,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to reject requisition',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.requisition,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
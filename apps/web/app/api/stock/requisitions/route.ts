@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { MaterialRequisitionCreateSchema, MaterialRequisitionListFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createMaterialRequisition, listMaterialRequisitions } from '@/lib/stock/materialRequisition.server';
+
+/**
+ * GET /api/stock/requisitions
+ * List material requisitions, optionally for one project or status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = MaterialRequisitionListFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const requisitions = await listMaterialRequisitions(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: requisitions,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/requisitions
+ * Raise a material requisition for a project; it waits for approval
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = MaterialRequisitionCreateSchema.parse(body);
+
+    const result = await createMaterialRequisition(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to create requisition',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.requisition,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+import { getStocktake } from '@/lib/stock/stocktake.server';
+
+/**
+ * GET /api/stock/stocktakes/[id]/template
+ * Download the count sheet for a stocktake; expected quantities are left off so the count is blind
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const stocktake = await getStocktake(auth.companyId, params.id);
+    if (!stocktake) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Stocktake not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const workbook = XLSX.utils.book_new();
+
+    const headers = ['Item ID', 'SKU', 'Item', 'Unit', 'Counted', 'Notes'];
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      headers,
+      ...stocktake.lines.map((line) => [
+        line.stockItem.id,
+        line.stockItem.sku ?? '',
+        line.stockItem.name,
+        line.stockItem.unit,
+        line.countedQty ?? '',
+        line.notes ?? '',
+      ]),
+    ]);
+
+    worksheet['!cols'] = [
+      { wch: 26 }, // Item ID
+      { wch: 12 }, // SKU
+      { wch: 30 }, // Item
+      { wch: 8 }, // Unit
+      { wch: 12 }, // Counted
+      { wch: 30 }, // Notes
+    ];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Count Sheet');
+
+    const buffer = XLSX.write(workbook, {
+      type: 'buffer',
+      bookType: 'xlsx',
+    });
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type':
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="count_sheet_${stocktake.sessionNo}.xlsx"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
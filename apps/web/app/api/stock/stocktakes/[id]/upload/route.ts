@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import * as XLSX from 'xlsx';
+import {
+  recordStocktakeCounts,
+  resolveStocktakeSheet,
+  StocktakeSheetRow,
+} from '@/lib/stock/stocktake.server';
+
+/**
+ * Map count sheet headers to row fields
+ */
+function normalizeHeader(header: string): string {
+  const normalized = header.trim().toLowerCase();
+
+  const headerMap: Record<string, string> = {
+    'item id': 'itemId',
+    'sku': 'sku',
+    'code': 'sku',
+    'item': 'item',
+    'item name': 'item',
+    'name': 'item',
+    'counted': 'counted',
+    'counted qty': 'counted',
+    'count': 'counted',
+    'qty': 'counted',
+    'notes': 'notes',
+    'remarks': 'notes',
+  };
+
+  return headerMap[normalized] || normalized;
+}
+
+/**
+ * POST /api/stock/stocktakes/[id]/upload
+ * Record counts from a filled-in count sheet (.xlsx, .xls or .csv)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'No file provided',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!/\.(xlsx|xls|csv)$/i.test(file.name)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid file type. Please upload an Excel or CSV file',
+        },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+    if (!worksheet) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'File is empty or invalid',
+        },
+        { status: 400 }
+      );
+    }
+
+    const rawRows = XLSX.utils.sheet_to_json<Record<string, any>>(worksheet, {
+      defval: '',
+      raw: false,
+    });
+
+    const rows: StocktakeSheetRow[] = rawRows.map((row) => {
+      const normalizedRow: Record<string, any> = {};
+      for (const [key, value] of Object.entries(row)) {
+        normalizedRow[normalizeHeader(key)] = value;
+      }
+      return normalizedRow;
+    });
+
+    const { counts, errors } = await resolveStocktakeSheet(auth.companyId, rows);
+    if (counts.length === 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: errors[0] || 'No counted quantities found in the file',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordStocktakeCounts(auth.companyId, params.id, auth.userId, { lines: counts }, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to save counts',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: {
+        stocktake: result.stocktake,
+        counted: counts.length,
+        errors,
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { StocktakeCreateSchema, StocktakeListFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createStocktake, listStocktakes } from '@/lib/stock/stocktake.server';
+
+/**
+ * GET /api/stock/stocktakes
+ * List stocktake sessions, optionally for one project, location or status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = StocktakeListFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const stocktakes = await listStocktakes(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: stocktakes,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/stocktakes
+ * Open a stocktake session; expected quantities are frozen now
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = StocktakeCreateSchema.parse(body);
+
+    const result = await createStocktake(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to create stocktake',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.stocktake,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
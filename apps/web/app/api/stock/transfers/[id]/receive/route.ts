@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { StockTransferReceiveSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { receiveStockTransfer } from '@/lib/stock/stockTransfer.server';
+
+/**
+ * POST /api/stock/transfers/[id]/receive
+ * Confirm an in-transit transfer has arrived at the destination project
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = StockTransferReceiveSchema.parse(body);
+
+    const result = await receiveStockTransfer(
+      auth.companyId,
+      params.id,
+      auth.userId,
+      validatedData.receivedDate,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || 'Failed to receive stock transfer',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.transfer,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { StockValuationFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getStockValuation } from '@/lib/stock/stockValuation.server';
+
+/**
+ * GET /api/stock/valuation
+ * Stock on hand at a date per item, project and location, reconciled to the Inventory ledger
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = StockValuationFiltersSchema.parse({
+      asOf: searchParams.get('asOf') || undefined,
+      projectId: searchParams.get('projectId') || undefined,
+      warehouseId: searchParams.get('warehouseId') || undefined,
+    });
+
+    const valuation = await getStockValuation(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: valuation,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -9,7 +9,7 @@ import { getVendorOpenItems } from '@/lib/payables';
 
 /**
  * GET /api/vendors/[id]/open-items
- * Get open items (outstanding payables) for a vendor
+ * Get open items (outstanding payables) for a vendor, net of payments waiting for approval
  */
 export async function GET(
   request: NextRequest,
@@ -18,7 +18,7 @@ export async function GET(
   try {
     const auth = await requirePermission(request, 'vouchers', 'READ');
 
-    const openItems = await getVendorOpenItems(params.id, auth.companyId);
+    const openItems = await getVendorOpenItems(params.id, auth.companyId, { reservePending: true });
 
     return NextResponse.json({
       ok: true,
@@ -31,6 +31,11 @@ export async function GET(
         phone: true,
         address: true,
         notes: true,
+        paymentTermDays: true,
+        bankName: true,
+        bankAccountName: true,
+        bankAccountNo: true,
+        bankRoutingNo: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -102,6 +107,11 @@ export async function PATCH(
     if (validatedData.phone !== undefined) updateData.phone = validatedData.phone;
     if (validatedData.address !== undefined) updateData.address = validatedData.address;
     if (validatedData.notes !== undefined) updateData.notes = validatedData.notes;
+    if (validatedData.paymentTermDays !== undefined) updateData.paymentTermDays = validatedData.paymentTermDays;
+    if (validatedData.bankName !== undefined) updateData.bankName = validatedData.bankName;
+    if (validatedData.bankAccountName !== undefined) updateData.bankAccountName = validatedData.bankAccountName;
+    if (validatedData.bankAccountNo !== undefined) updateData.bankAccountNo = validatedData.bankAccountNo;
+    if (validatedData.bankRoutingNo !== undefined) updateData.bankRoutingNo = validatedData.bankRoutingNo;
     if (validatedData.isActive !== undefined) updateData.isActive = validatedData.isActive;
 
     const updatedVendor = await prisma.vendor.update({
@@ -113,6 +123,11 @@ export async function PATCH(
         phone: true,
         address: true,
         notes: true,
+        paymentTermDays: true,
+        bankName: true,
+        bankAccountName: true,
+        bankAccountNo: true,
+        bankRoutingNo: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
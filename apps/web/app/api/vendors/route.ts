@@ -50,6 +50,11 @@ export async function GET(request: NextRequest) {
         phone: true,
         address: true,
         notes: true,
+        paymentTermDays: true,
+        bankName: true,
+        bankAccountName: true,
+        bankAccountNo: true,
+        bankRoutingNo: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -92,6 +97,11 @@ export async function POST(request: NextRequest) {
         phone: validatedData.phone,
         address: validatedData.address,
         notes: validatedData.notes,
+        paymentTermDays: validatedData.paymentTermDays,
+        bankName: validatedData.bankName,
+        bankAccountName: validatedData.bankAccountName,
+        bankAccountNo: validatedData.bankAccountNo,
+        bankRoutingNo: validatedData.bankRoutingNo,
         isActive: validatedData.isActive ?? true,
       },
       select: {
@@ -100,6 +110,11 @@ export async function POST(request: NextRequest) {
         phone: true,
         address: true,
         notes: true,
+        paymentTermDays: true,
+        bankName: true,
+        bankAccountName: true,
+        bankAccountNo: true,
+        bankRoutingNo: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -1,28 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  requirePermission,
+  requireAuth,
   createErrorResponse,
   ForbiddenError,
   UnauthorizedError,
 } from '@/lib/rbac';
+import { VoucherApproveSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
 import { approveVoucher } from '@/lib/vouchers/workflow';
 
 /**
  * POST /api/vouchers/[id]/approve
- * Approve a submitted voucher (SUBMITTED → APPROVED)
+ * Approve the next step of a submitted voucher (SUBMITTED → APPROVED after the last step)
+ * Who may approve each step is set by the company's approval policy.
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const auth = await requirePermission(request, 'vouchers', 'APPROVE');
+    const auth = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { comment } = VoucherApproveSchema.parse(body);
 
     const result = await approveVoucher(
       params.id,
       auth.userId,
       auth.companyId,
       auth.role,
+      { comment },
       request
     );
 
@@ -41,6 +48,15 @@ export async function POST(
       data: result.voucher,
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
     if (error instanceof UnauthorizedError) {
       return createErrorResponse(error, 401);
     }
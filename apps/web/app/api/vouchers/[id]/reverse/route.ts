@@ -5,11 +5,34 @@ import {
   ForbiddenError,
   UnauthorizedError,
 } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
 import { reverseVoucher } from '@/lib/vouchers/workflow';
+import { reverseStockMovement } from '@/lib/stock/stockAccounting.server';
+import { reverseClientBillReceipt } from '@/lib/billing/clientBilling.server';
+import { getVoucherOwner } from '@/lib/vouchers/ownership.server';
+
+/**
+ * Vouchers paid by a cheque or owned by a sub-ledger document must be undone through the cheque or
+ * the document. Returns the error to show, or null.
+ */
+async function getOwningDocumentError(voucherId: string, companyId: string): Promise<string | null> {
+  const cheque = await prisma.cheque.findFirst({
+    where: { voucherId, companyId },
+    select: { chequeNo: true, voucher: { select: { voucherNo: true } } },
+  });
+  if (cheque) {
+    return `${cheque.voucher!.voucherNo} is paid by cheque ${cheque.chequeNo}. Bounce or cancel the cheque instead.`;
+  }
+
+  const owner = await getVoucherOwner(voucherId, companyId);
+  return owner ? `${owner.voucherNo} posts ${owner.document}. ${owner.undo}` : null;
+}
 
 /**
  * POST /api/vouchers/[id]/reverse
  * Reverse a posted voucher (POSTED → REVERSED, creates reversal voucher)
+ * Inventory journals reverse their stock movement too, and client receipts come off their bill,
+ * so the sub-ledger and the GL stay in step. Other document vouchers are refused.
  */
 export async function POST(
   request: NextRequest,
@@ -21,6 +44,83 @@ export async function POST(
     const body = await request.json().catch(() => ({}));
     const { date, description } = body;
 
+    const ownerError = await getOwningDocumentError(params.id, auth.companyId);
+    if (ownerError) {
+      return NextResponse.json({ ok: false, error: ownerError }, { status: 400 });
+    }
+
+    const receipt = await prisma.clientBillReceipt.findFirst({
+      where: { voucherId: params.id, companyId: auth.companyId },
+      select: { id: true },
+    });
+    if (receipt) {
+      const reversal = await reverseClientBillReceipt(
+        receipt.id,
+        auth.companyId,
+        auth.userId,
+        auth.role,
+        {
+          date: date ? new Date(date) : undefined,
+          description,
+        },
+        request
+      );
+
+      if (!reversal.success) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: reversal.error,
+          },
+          { status: 400 }
+        );
+      }
+
+      const reversalVoucher = await prisma.voucher.findUnique({ where: { id: reversal.reversalVoucherId } });
+
+      return NextResponse.json({
+        ok: true,
+        data: reversalVoucher,
+      });
+    }
+
+    const stockMovement = await prisma.stockMovement.findFirst({
+      where: { voucherId: params.id, companyId: auth.companyId },
+      select: { id: true },
+    });
+    if (stockMovement) {
+      const reversal = await reverseStockMovement(
+        stockMovement.id,
+        auth.companyId,
+        auth.userId,
+        auth.role,
+        {
+          date: date ? new Date(date) : undefined,
+          description,
+        },
+        request
+      );
+
+      if (!reversal.success) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: reversal.error,
+          },
+          { status: 400 }
+        );
+      }
+
+      const reversalVoucher = reversal.reversalVoucherId
+        ? await prisma.voucher.findUnique({ where: { id: reversal.reversalVoucherId } })
+        : null;
+
+      return NextResponse.json({
+        ok: true,
+        data: reversalVoucher,
+      });
+    }
+
     const result = await reverseVoucher(
       params.id,
       auth.userId,
@@ -34,6 +34,10 @@ export async function GET(
         postedBy: {
           select: { id: true, name: true, email: true },
         },
+        approvals: {
+          include: { approver: { select: { id: true, name: true, email: true } } },
+          orderBy: { sequence: 'asc' },
+        },
         lines: {
           include: {
             account: {
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { ApprovalPolicyUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import {
+  updateApprovalPolicy,
+  deleteApprovalPolicy,
+} from '@/lib/vouchers/approvalPolicy.server';
+
+/**
+ * PATCH /api/vouchers/approval-policies/[id]
+ * Update an approval policy; steps are replaced when given (ADMIN only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'companies', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ApprovalPolicyUpdateSchema.parse(body);
+
+    const result = await updateApprovalPolicy(
+      params.id,
+      auth.companyId,
+      auth.userId,
+      validatedData,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: result.error === 'Approval policy not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.policy,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/vouchers/approval-policies/[id]
+ * Delete an approval policy (ADMIN only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'companies', 'WRITE');
+
+    const result = await deleteApprovalPolicy(params.id, auth.companyId, auth.userId, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
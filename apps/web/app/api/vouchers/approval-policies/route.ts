@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { ApprovalPolicyCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import {
+  approvalPolicyInclude,
+  createApprovalPolicy,
+} from '@/lib/vouchers/approvalPolicy.server';
+
+/**
+ * GET /api/vouchers/approval-policies
+ * List the company's voucher approval policies with their steps
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const policies = await prisma.approvalPolicy.findMany({
+      where: { companyId: auth.companyId },
+      include: approvalPolicyInclude,
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: policies,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/vouchers/approval-policies
+ * Create an approval policy (ADMIN only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'companies', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = ApprovalPolicyCreateSchema.parse(body);
+
+    const result = await createApprovalPolicy(auth.companyId, auth.userId, validatedData, request);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result.policy,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -9,6 +9,8 @@ import { prisma } from '@accounting/db';
 import { createAuditLog } from '@/lib/audit';
 import { generateVoucherNumber, validateVoucherBalance } from '@/lib/voucher';
 import { getVendorOpenItems, decimalToNumber } from '@/lib/payables';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
 import { z, ZodError } from 'zod';
 
 const PaymentVoucherCreateSchema = z.object({
@@ -16,17 +18,21 @@ const PaymentVoucherCreateSchema = z.object({
   date: z.string().transform((str) => new Date(str)),
   narration: z.string().optional().nullable(),
   paymentAccountId: z.string(), // Cash/Bank account
-  allocations: z.array(
-    z.object({
-      sourceLineId: z.string(),
-      amount: z.number().positive(),
-    })
-  ),
+  allocations: z
+    .array(
+      z.object({
+        sourceLineId: z.string(),
+        amount: z.number().positive(),
+      })
+    )
+    .default([]),
+  // Paid ahead of any bill; held on the Vendor Advances account until applied
+  advanceAmount: z.number().nonnegative().optional().default(0),
 });
 
 /**
  * POST /api/vouchers/payment
- * Create a payment voucher with allocations to vendor payable lines
+ * Create a payment voucher with allocations to vendor payable lines and/or an advance
  */
 export async function POST(request: NextRequest) {
   try {
@@ -66,7 +72,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get open items to validate allocations
-    const openItems = await getVendorOpenItems(validatedData.vendorId, auth.companyId);
+    const openItems = await getVendorOpenItems(validatedData.vendorId, auth.companyId, { reservePending: true });
     const openItemsMap = new Map(openItems.map((item) => [item.lineId, item]));
 
     // Validate allocations
@@ -96,16 +102,27 @@ export async function POST(request: NextRequest) {
       totalPayment += alloc.amount;
     }
 
-    if (validatedData.allocations.length === 0) {
+    if (validatedData.allocations.length === 0 && validatedData.advanceAmount === 0) {
       return NextResponse.json(
         {
           ok: false,
-          error: 'At least one allocation is required',
+          error: 'At least one allocation or an advance amount is required',
         },
         { status: 400 }
       );
     }
 
+    let advanceAccountId: string | null = null;
+    if (validatedData.advanceAmount > 0) {
+      const accounts = await getSystemAccountIds(auth.companyId, [SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES]);
+      if (!accounts.success) {
+        return NextResponse.json({ ok: false, error: accounts.error }, { status: 400 });
+      }
+      advanceAccountId = accounts.accountIds![SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES];
+    }
+    const allocatedPayment = totalPayment;
+    totalPayment += validatedData.advanceAmount;
+
     // Find Accounts Payable account (LIABILITY type)
     // For v1, we'll search for an account with type LIABILITY
     // In a real system, you'd have a specific AP account or account code
@@ -154,14 +171,31 @@ export async function POST(request: NextRequest) {
                 vendorId: null,
               },
               // Accounts Payable (debit - reducing liability)
-              {
-                companyId: auth.companyId,
-                accountId: apAccount.id,
-                description: `Payment to ${vendor.name}`,
-                debit: totalPayment,
-                credit: 0,
-                vendorId: validatedData.vendorId,
-              },
+              ...(allocatedPayment > 0
+                ? [
+                    {
+                      companyId: auth.companyId,
+                      accountId: apAccount.id,
+                      description: `Payment to ${vendor.name}`,
+                      debit: allocatedPayment,
+                      credit: 0,
+                      vendorId: validatedData.vendorId,
+                    },
+                  ]
+                : []),
+              // Vendor Advances (debit - unapplied credit until set against bills)
+              ...(advanceAccountId
+                ? [
+                    {
+                      companyId: auth.companyId,
+                      accountId: advanceAccountId,
+                      description: `Advance to ${vendor.name}`,
+                      debit: validatedData.advanceAmount,
+                      credit: 0,
+                      vendorId: validatedData.vendorId,
+                    },
+                  ]
+                : []),
             ],
           },
         },
@@ -26,6 +26,7 @@ export async function GET(request: NextRequest) {
       dateTo: searchParams.get('dateTo') || undefined,
       projectId: searchParams.get('projectId') || undefined,
       q: searchParams.get('q') || undefined,
+      returnedToMe: searchParams.get('returnedToMe') || undefined,
       page: searchParams.get('page') || '1',
       limit: searchParams.get('limit') || '20',
     });
@@ -63,6 +64,15 @@ export async function GET(request: NextRequest) {
       ];
     }
 
+    // Vouchers rejected back to DRAFT that the current user created or submitted
+    if (filters.returnedToMe) {
+      where.status = 'DRAFT';
+      where.rejectedAt = { not: null };
+      where.AND = [
+        { OR: [{ createdByUserId: auth.userId }, { submittedById: auth.userId }] },
+      ];
+    }
+
     const skip = (page - 1) * limit;
     const take = limit;
 
@@ -82,6 +92,9 @@ export async function GET(request: NextRequest) {
           postedBy: {
             select: { id: true, name: true, email: true },
           },
+          rejectedBy: {
+            select: { id: true, name: true, email: true },
+          },
           lines: {
             include: {
               account: {
@@ -0,0 +1,768 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toMoney } from '@/lib/payables';
+
+type ChequeDirection = 'ISSUED' | 'RECEIVED';
+type ChequeStatus = 'ISSUED' | 'PRESENTED' | 'CLEARED' | 'BOUNCED' | 'CANCELLED';
+
+interface Cheque {
+  id: string;
+  direction: ChequeDirection;
+  chequeNo: string;
+  issueDate: string;
+  chequeDate: string;
+  amount: string;
+  partyName: string;
+  drawerBank: string | null;
+  status: ChequeStatus;
+  statusNote: string | null;
+  chequeBook: { id: string; name: string } | null;
+  bankAccount: { id: string; code: string; name: string };
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  reversalVoucher: { id: string; voucherNo: string } | null;
+}
+
+interface ChequeBook {
+  id: string;
+  name: string;
+  startNo: number;
+  endNo: number;
+  isActive: boolean;
+  bankAccount: { id: string; code: string; name: string };
+  leafCount: number;
+  usedCount: number;
+  nextNo: number | null;
+}
+
+interface ChequeableVoucher {
+  id: string;
+  voucherNo: string;
+  date: string;
+  status: string;
+  narration: string | null;
+  amount: number;
+  bankAccountIds: string[];
+  vendor: { id: string; name: string } | null;
+}
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+interface ChequeRegisterClientProps {
+  canWrite: boolean;
+}
+
+const STATUS_COLORS: Record<ChequeStatus, string> = {
+  ISSUED: 'bg-yellow-100 text-yellow-800',
+  PRESENTED: 'bg-blue-100 text-blue-800',
+  CLEARED: 'bg-green-100 text-green-800',
+  BOUNCED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+// Next steps offered per status; bounce and cancel reverse the posted voucher
+const NEXT_STATUSES: Record<ChequeStatus, ChequeStatus[]> = {
+  ISSUED: ['PRESENTED', 'CLEARED', 'CANCELLED'],
+  PRESENTED: ['CLEARED', 'BOUNCED'],
+  CLEARED: [],
+  BOUNCED: [],
+  CANCELLED: [],
+};
+
+const ACTION_LABELS: Record<ChequeStatus, string> = {
+  ISSUED: 'Issue',
+  PRESENTED: 'Present',
+  CLEARED: 'Clear',
+  BOUNCED: 'Bounce',
+  CANCELLED: 'Cancel',
+};
+
+function statusLabel(cheque: Cheque): string {
+  if (cheque.status === 'ISSUED') {
+    const held = new Date(cheque.chequeDate) > new Date();
+    return `${cheque.direction === 'ISSUED' ? 'Issued' : 'In hand'}${held ? ' (post-dated)' : ''}`;
+  }
+  return cheque.status.charAt(0) + cheque.status.slice(1).toLowerCase();
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyCheque = {
+  direction: 'ISSUED' as ChequeDirection,
+  chequeBookId: '',
+  bankAccountId: '',
+  chequeNo: '',
+  issueDate: today(),
+  chequeDate: today(),
+  amount: '',
+  partyName: '',
+  drawerBank: '',
+  voucherId: '',
+  notes: '',
+};
+
+export default function ChequeRegisterClient({ canWrite }: ChequeRegisterClientProps) {
+  const [view, setView] = useState<'register' | 'postDated' | 'books'>('register');
+  const [cheques, setCheques] = useState<Cheque[]>([]);
+  const [books, setBooks] = useState<ChequeBook[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [vouchers, setVouchers] = useState<ChequeableVoucher[]>([]);
+  const [direction, setDirection] = useState<ChequeDirection | ''>('');
+  const [status, setStatus] = useState<ChequeStatus | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showChequeForm, setShowChequeForm] = useState(false);
+  const [showBookForm, setShowBookForm] = useState(false);
+  const [chequeForm, setChequeForm] = useState({ ...emptyCheque });
+  const [bookForm, setBookForm] = useState({ bankAccountId: '', name: '', startNo: '', endNo: '' });
+
+  const fetchBooks = async () => {
+    const response = await fetch('/api/cheque-books');
+    const data = await response.json();
+    if (data.ok) {
+      setBooks(data.data);
+    }
+  };
+
+  const fetchCheques = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (view === 'postDated') {
+        params.append('postDated', 'true');
+      } else if (status) {
+        params.append('status', status);
+      }
+      if (direction) params.append('direction', direction);
+      const response = await fetch(`/api/cheques?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setCheques(data.data);
+      } else {
+        alert(data.error || 'Failed to load cheques');
+      }
+    } catch (error) {
+      console.error('Failed to fetch cheques:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBooks();
+
+    // Cheques are drawn on / deposited to cash-bank (ASSET) accounts
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setAccounts(data.data.filter((acc: Account) => acc.type === 'ASSET'));
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    if (view !== 'books') {
+      fetchCheques();
+    }
+  }, [view, direction, status]);
+
+  useEffect(() => {
+    if (!showChequeForm) return;
+    fetch(`/api/cheques/vouchers?direction=${chequeForm.direction}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setVouchers(data.data);
+        }
+      });
+  }, [showChequeForm, chequeForm.direction]);
+
+  const chequeBankAccountId =
+    chequeForm.direction === 'ISSUED'
+      ? books.find((book) => book.id === chequeForm.chequeBookId)?.bankAccount.id
+      : chequeForm.bankAccountId;
+  const matchingVouchers = vouchers.filter(
+    (voucher) => !chequeBankAccountId || voucher.bankAccountIds.includes(chequeBankAccountId)
+  );
+
+  const selectVoucher = (voucherId: string) => {
+    const voucher = vouchers.find((item) => item.id === voucherId);
+    setChequeForm((prev) => ({
+      ...prev,
+      voucherId,
+      amount: voucher ? voucher.amount.toFixed(2) : prev.amount,
+      partyName: voucher?.vendor?.name ?? prev.partyName,
+    }));
+  };
+
+  const handleCreateCheque = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const isIssued = chequeForm.direction === 'ISSUED';
+      const response = await fetch('/api/cheques', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          direction: chequeForm.direction,
+          chequeBookId: isIssued ? chequeForm.chequeBookId || null : null,
+          bankAccountId: isIssued ? null : chequeForm.bankAccountId || null,
+          chequeNo: chequeForm.chequeNo || null,
+          issueDate: chequeForm.issueDate,
+          chequeDate: chequeForm.chequeDate,
+          amount: parseFloat(chequeForm.amount),
+          partyName: chequeForm.partyName || null,
+          drawerBank: isIssued ? null : chequeForm.drawerBank || null,
+          voucherId: chequeForm.voucherId || null,
+          notes: chequeForm.notes || null,
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowChequeForm(false);
+        setChequeForm({ ...emptyCheque });
+        fetchCheques();
+        fetchBooks();
+      } else {
+        alert(data.error || 'Failed to record cheque');
+      }
+    } catch (error) {
+      alert('An error occurred while recording the cheque');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/cheque-books', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bankAccountId: bookForm.bankAccountId,
+          name: bookForm.name,
+          startNo: parseInt(bookForm.startNo, 10),
+          endNo: parseInt(bookForm.endNo, 10),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowBookForm(false);
+        setBookForm({ bankAccountId: '', name: '', startNo: '', endNo: '' });
+        fetchBooks();
+      } else {
+        alert(data.error || 'Failed to create cheque book');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the cheque book');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatus = async (cheque: Cheque, next: ChequeStatus) => {
+    let note: string | null = null;
+    if (next === 'BOUNCED' || next === 'CANCELLED') {
+      note = prompt(
+        `${ACTION_LABELS[next]} cheque ${cheque.chequeNo}? ` +
+          (cheque.voucher?.status === 'POSTED' ? `Voucher ${cheque.voucher.voucherNo} will be reversed. ` : '') +
+          'Reason:'
+      );
+      if (note === null) return;
+    } else if (!confirm(`Mark cheque ${cheque.chequeNo} as ${next.toLowerCase()}?`)) {
+      return;
+    }
+
+    const date = prompt('Date (YYYY-MM-DD):', today());
+    if (!date) return;
+
+    try {
+      // A cheque recorded without its voucher (e.g. a post-dated client cheque) is linked once it is banked
+      let voucherId: string | null = null;
+      if (!cheque.voucher && (next === 'PRESENTED' || next === 'CLEARED')) {
+        const voucherNo = prompt('Voucher no to link (leave blank to skip):');
+        if (voucherNo) {
+          const res = await fetch(`/api/cheques/vouchers?direction=${cheque.direction}`);
+          const list = await res.json();
+          const match = (list.data || []).find((voucher: ChequeableVoucher) => voucher.voucherNo === voucherNo.trim());
+          if (!match) {
+            alert(`Voucher ${voucherNo} not found or already linked to a cheque`);
+            return;
+          }
+          voucherId = match.id;
+        }
+      }
+
+      const response = await fetch(`/api/cheques/${cheque.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: next, date, note, voucherId }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        fetchCheques();
+      } else {
+        alert(data.error || 'Failed to update cheque');
+      }
+    } catch (error) {
+      alert('An error occurred while updating the cheque');
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 text-sm font-medium rounded-md ${active ? 'bg-blue-600 text-white' : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-2">
+          <button onClick={() => setView('register')} className={tabClass(view === 'register')}>
+            Register
+          </button>
+          <button onClick={() => setView('postDated')} className={tabClass(view === 'postDated')}>
+            Post-dated
+          </button>
+          <button onClick={() => setView('books')} className={tabClass(view === 'books')}>
+            Cheque Books
+          </button>
+        </div>
+        {canWrite && (
+          <div className="flex gap-2">
+            {view === 'books' ? (
+              <button
+                onClick={() => setShowBookForm(!showBookForm)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                {showBookForm ? 'Close' : 'New Cheque Book'}
+              </button>
+            ) : (
+              <button
+                onClick={() => setShowChequeForm(!showChequeForm)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                {showChequeForm ? 'Close' : 'Record Cheque'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* New Cheque Book */}
+      {view === 'books' && showBookForm && (
+        <form onSubmit={handleCreateBook} className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bank account</label>
+              <select
+                required
+                value={bookForm.bankAccountId}
+                onChange={(e) => setBookForm({ ...bookForm, bankAccountId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Select account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.code} - {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                required
+                type="text"
+                value={bookForm.name}
+                onChange={(e) => setBookForm({ ...bookForm, name: e.target.value })}
+                placeholder="e.g. Book 12"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First leaf no</label>
+              <input
+                required
+                type="number"
+                min="1"
+                value={bookForm.startNo}
+                onChange={(e) => setBookForm({ ...bookForm, startNo: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Last leaf no</label>
+              <input
+                required
+                type="number"
+                min="1"
+                value={bookForm.endNo}
+                onChange={(e) => setBookForm({ ...bookForm, endNo: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Cheque Book'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Record Cheque */}
+      {view !== 'books' && showChequeForm && (
+        <form onSubmit={handleCreateCheque} className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex gap-4">
+            {(['ISSUED', 'RECEIVED'] as ChequeDirection[]).map((value) => (
+              <label key={value} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={chequeForm.direction === value}
+                  onChange={() => setChequeForm({ ...emptyCheque, direction: value })}
+                />
+                {value === 'ISSUED' ? 'Issued to vendor' : 'Received from client'}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {chequeForm.direction === 'ISSUED' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cheque book</label>
+                <select
+                  required
+                  value={chequeForm.chequeBookId}
+                  onChange={(e) => setChequeForm({ ...chequeForm, chequeBookId: e.target.value, voucherId: '' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select book</option>
+                  {books
+                    .filter((book) => book.isActive && book.nextNo !== null)
+                    .map((book) => (
+                      <option key={book.id} value={book.id}>
+                        {book.name} ({book.bankAccount.name}) - next {book.nextNo}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit to</label>
+                <select
+                  required
+                  value={chequeForm.bankAccountId}
+                  onChange={(e) => setChequeForm({ ...chequeForm, bankAccountId: e.target.value, voucherId: '' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Select account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cheque no</label>
+              <input
+                required={chequeForm.direction === 'RECEIVED'}
+                type="text"
+                value={chequeForm.chequeNo}
+                onChange={(e) => setChequeForm({ ...chequeForm, chequeNo: e.target.value })}
+                placeholder={chequeForm.direction === 'ISSUED' ? 'Next leaf' : ''}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {chequeForm.direction === 'ISSUED' ? 'Issue date' : 'Received on'}
+              </label>
+              <input
+                required
+                type="date"
+                value={chequeForm.issueDate}
+                onChange={(e) => setChequeForm({ ...chequeForm, issueDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cheque date</label>
+              <input
+                required
+                type="date"
+                value={chequeForm.chequeDate}
+                onChange={(e) => setChequeForm({ ...chequeForm, chequeDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {chequeForm.direction === 'ISSUED' ? 'Payment voucher' : 'Receipt voucher'}
+              </label>
+              <select
+                value={chequeForm.voucherId}
+                onChange={(e) => selectVoucher(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">None yet (link when presenting)</option>
+                {matchingVouchers.map((voucher) => (
+                  <option key={voucher.id} value={voucher.id}>
+                    {voucher.voucherNo} · {new Date(voucher.date).toLocaleDateString()} · {toMoney(voucher.amount)} ·{' '}
+                    {voucher.status}
+                    {voucher.narration ? ` · ${voucher.narration}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <input
+                required
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={chequeForm.amount}
+                onChange={(e) => setChequeForm({ ...chequeForm, amount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-right"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {chequeForm.direction === 'ISSUED' ? 'Payee' : 'Drawer'}
+              </label>
+              <input
+                type="text"
+                value={chequeForm.partyName}
+                onChange={(e) => setChequeForm({ ...chequeForm, partyName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            {chequeForm.direction === 'RECEIVED' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Drawer&apos;s bank</label>
+                <input
+                  type="text"
+                  value={chequeForm.drawerBank}
+                  onChange={(e) => setChequeForm({ ...chequeForm, drawerBank: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            )}
+            <div className={chequeForm.direction === 'RECEIVED' ? 'md:col-span-3' : 'md:col-span-4'}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={chequeForm.notes}
+                onChange={(e) => setChequeForm({ ...chequeForm, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              A cheque dated after its issue date is held as post-dated: it cannot be presented and its voucher cannot
+              be posted before the cheque date.
+            </p>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Cheque'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {view === 'books' ? (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Book</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bank Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Leaves</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Used</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Next Leaf</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {books.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No cheque books registered
+                  </td>
+                </tr>
+              ) : (
+                books.map((book) => (
+                  <tr key={book.id} className={book.isActive ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{book.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {book.bankAccount.code} - {book.bankAccount.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {book.startNo} - {book.endNo}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {book.usedCount} / {book.leafCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {book.nextNo ?? 'Used up'}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center gap-4">
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as ChequeDirection | '')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Issued and received</option>
+              <option value="ISSUED">Issued</option>
+              <option value="RECEIVED">Received</option>
+            </select>
+            {view === 'register' ? (
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ChequeStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(STATUS_COLORS) as ChequeStatus[]).map((value) => (
+                  <option key={value} value={value}>
+                    {value.charAt(0) + value.slice(1).toLowerCase()}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-gray-500">Cheques held until their date, soonest first</p>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cheque No</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cheque Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Party</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bank Account</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  {canWrite && <th className="px-4 py-3"></th>}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                      Loading...
+                    </td>
+                  </tr>
+                ) : cheques.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No cheques found
+                    </td>
+                  </tr>
+                ) : (
+                  cheques.map((cheque) => (
+                    <tr key={cheque.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        <span className="font-medium">{cheque.chequeNo}</span>
+                        <div className="text-xs text-gray-500">
+                          {cheque.direction === 'ISSUED' ? `Issued · ${cheque.chequeBook?.name ?? ''}` : 'Received'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(cheque.chequeDate).toLocaleDateString()}
+                        <div className="text-xs text-gray-500">
+                          {cheque.direction === 'ISSUED' ? 'issued' : 'received'}{' '}
+                          {new Date(cheque.issueDate).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {cheque.partyName}
+                        {cheque.drawerBank && <div className="text-xs text-gray-500">{cheque.drawerBank}</div>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {cheque.bankAccount.code} - {cheque.bankAccount.name}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        {cheque.voucher ? (
+                          <a
+                            href={`/dashboard/vouchers/${cheque.voucher.id}`}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            {cheque.voucher.voucherNo}
+                          </a>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                        {cheque.reversalVoucher && (
+                          <div className="text-xs">
+                            reversed by{' '}
+                            <a
+                              href={`/dashboard/vouchers/${cheque.reversalVoucher.id}`}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              {cheque.reversalVoucher.voucherNo}
+                            </a>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                        {toMoney(cheque.amount)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_COLORS[cheque.status]}`}>
+                          {statusLabel(cheque)}
+                        </span>
+                        {cheque.statusNote && <div className="text-xs text-gray-500 mt-1">{cheque.statusNote}</div>}
+                      </td>
+                      {canWrite && (
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right space-x-2">
+                          {NEXT_STATUSES[cheque.status].map((next) => (
+                            <button
+                              key={next}
+                              onClick={() => handleStatus(cheque, next)}
+                              className={
+                                next === 'BOUNCED' || next === 'CANCELLED'
+                                  ? 'text-red-600 hover:text-red-900'
+                                  : 'text-blue-600 hover:text-blue-900'
+                              }
+                            >
+                              {ACTION_LABELS[next]}
+                            </button>
+                          ))}
+                        </td>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../components/DashboardLayout';
+import ChequeRegisterClient from './components/ChequeRegisterClient';
+
+export default async function ChequesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+
+  return (
+    <DashboardLayout title="Cheque Register">
+      <ChequeRegisterClient canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
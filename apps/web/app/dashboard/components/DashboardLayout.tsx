@@ -27,11 +27,13 @@ export default async function DashboardLayout({
   const canReadPurchases = can(role, 'purchases', 'READ');
   const canReadExpenses = can(role, 'expenses', 'READ');
   const canReadStock = can(role, 'stock', 'READ');
+  const canReadRequisitions = can(role, 'requisitions', 'READ');
   const canWriteProjects = can(role, 'projects', 'WRITE');
   const canWriteVendors = can(role, 'vendors', 'WRITE');
   const canWritePaymentMethods = can(role, 'paymentMethods', 'WRITE');
   const canWriteExpenses = can(role, 'expenses', 'WRITE');
   const canWriteStock = can(role, 'stock', 'WRITE');
+  const canWriteRequisitions = can(role, 'requisitions', 'WRITE');
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -80,20 +82,66 @@ export default async function DashboardLayout({
                 </Link>
               )}
               {canReadVouchers && (
-                <Link
-                  href="/dashboard/vouchers"
-                  className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md"
-                >
-                  Vouchers
-                </Link>
+                <>
+                  <Link
+                    href="/dashboard/vouchers"
+                    className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md"
+                  >
+                    Vouchers
+                  </Link>
+                  <Link
+                    href="/dashboard/vouchers?returned=1"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Returned to Me
+                  </Link>
+                  <Link
+                    href="/dashboard/payment-runs"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Payment Runs
+                  </Link>
+                  <Link
+                    href="/dashboard/cheques"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Cheque Register
+                  </Link>
+                  <Link
+                    href="/dashboard/vouchers/approval-policies"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Approval Policies {canReadCompanies && '✏️'}
+                  </Link>
+                  <Link
+                    href="/dashboard/periods"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Fiscal Periods
+                  </Link>
+                  <Link
+                    href="/dashboard/opening-balances"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Opening Balances
+                  </Link>
+                </>
               )}
               {canReadPurchases && (
-                <Link
-                  href="/dashboard/purchases"
-                  className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md"
-                >
-                  Purchases
-                </Link>
+                <>
+                  <Link
+                    href="/dashboard/purchases"
+                    className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-md"
+                  >
+                    Purchases
+                  </Link>
+                  <Link
+                    href="/dashboard/purchase-orders"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Purchase Orders
+                  </Link>
+                </>
               )}
               {canReadExpenses && (
                 <>
@@ -137,12 +185,50 @@ export default async function DashboardLayout({
                   >
                     Issue Stock {canWriteStock && '✏️'}
                   </Link>
+                  {canReadRequisitions && (
+                    <Link
+                      href="/dashboard/stock/requisitions"
+                      className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                    >
+                      Requisitions {canWriteRequisitions && '✏️'}
+                    </Link>
+                  )}
+                  <Link
+                    href="/dashboard/stock/reorder"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Reorder
+                  </Link>
+                  <Link
+                    href="/dashboard/stock/stocktakes"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Stocktakes {canWriteStock && '✏️'}
+                  </Link>
                   <Link
                     href="/dashboard/stock/ledger"
                     className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
                   >
                     Stock Ledger
                   </Link>
+                  <Link
+                    href="/dashboard/stock/warehouses"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Locations
+                  </Link>
+                  <Link
+                    href="/dashboard/stock/costing"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Costing
+                  </Link>
+                  <Link
+                    href="/dashboard/stock/valuation"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Valuation
+                  </Link>
                 </>
               )}
               {canReadVouchers && (
@@ -197,6 +283,18 @@ export default async function DashboardLayout({
                   >
                     Payables
                   </Link>
+                  <Link
+                    href="/dashboard/reports/payables/aging"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Payables Aging
+                  </Link>
+                  <Link
+                    href="/dashboard/reports/receivables"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
+                  >
+                    Receivables
+                  </Link>
                   <Link
                     href="/dashboard/reports/overhead"
                     className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-4"
@@ -221,6 +319,12 @@ export default async function DashboardLayout({
                   >
                     Bank Book
                   </Link>
+                  <Link
+                    href="/dashboard/reports/financial/bank-reconciliation"
+                    className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-8"
+                  >
+                    Bank Reconciliation
+                  </Link>
                   <Link
                     href="/dashboard/reports/financial/trial-balance"
                     className="block px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-md ml-8"
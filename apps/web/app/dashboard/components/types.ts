@@ -32,6 +32,11 @@ export interface Vendor {
   phone?: string | null;
   address?: string | null;
   notes?: string | null;
+  paymentTermDays?: number;
+  bankName?: string | null;
+  bankAccountName?: string | null;
+  bankAccountNo?: string | null;
+  bankRoutingNo?: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
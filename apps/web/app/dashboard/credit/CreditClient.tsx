@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import CreateCreditForm from './components/CreateCreditForm';
 import EditCreditForm from './components/EditCreditForm';
 
@@ -20,11 +21,23 @@ interface Credit {
     id: string;
     name: string;
   } | null;
+  paymentAccountId: string | null;
+  incomeAccountId: string | null;
   paymentAccount: {
     id: string;
     code: string;
     name: string;
   } | null;
+  incomeAccount: {
+    id: string;
+    code: string;
+    name: string;
+  } | null;
+  voucher: {
+    id: string;
+    voucherNo: string;
+    status: string;
+  } | null;
 }
 
 interface CreditResponse {
@@ -65,6 +78,11 @@ export default function CreditClient() {
     errors: Array<{ row: number; message: string }>;
   } | null>(null);
   const [stopOnError, setStopOnError] = useState(false);
+  const [backfillLoading, setBackfillLoading] = useState(false);
+  const [backfillResult, setBackfillResult] = useState<{
+    posted: number;
+    failed: Array<{ creditId: string; date: string; amount: number; error: string }>;
+  } | null>(null);
   const [pagination, setPagination] = useState({
     page: 1,
     pageSize: 25,
@@ -194,6 +212,34 @@ export default function CreditClient() {
     }
   };
 
+  const handleBackfill = async () => {
+    if (!confirm('Post receipt vouchers for all credits that have no voucher yet?')) return;
+
+    setBackfillLoading(true);
+    setBackfillResult(null);
+    try {
+      const response = await fetch('/api/credit/backfill-vouchers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        setBackfillResult(result.data);
+        if (result.data.posted > 0) {
+          loadCredits();
+        }
+      } else {
+        alert(result.error || 'Failed to post vouchers');
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to post vouchers');
+    } finally {
+      setBackfillLoading(false);
+    }
+  };
+
   const handleDownloadTemplate = () => {
     window.open('/api/credit/template', '_blank');
   };
@@ -256,6 +302,13 @@ export default function CreditClient() {
             <p className="text-3xl font-bold text-indigo-600">{formatCurrency(total)}</p>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={handleBackfill}
+              disabled={backfillLoading}
+              className="px-4 py-2 border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+            >
+              {backfillLoading ? 'Posting...' : 'Post Missing Vouchers'}
+            </button>
             <button
               onClick={() => setShowImportModal(true)}
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
@@ -273,6 +326,35 @@ export default function CreditClient() {
         </div>
       </div>
 
+      {backfillResult && (
+        <div
+          className={`mb-6 px-4 py-3 rounded border ${
+            backfillResult.failed.length > 0
+              ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+              : 'bg-green-50 border-green-200 text-green-800'
+          }`}
+        >
+          <div className="flex justify-between">
+            <span>
+              Posted {backfillResult.posted} receipt voucher(s).
+              {backfillResult.failed.length > 0 && ` ${backfillResult.failed.length} credit(s) could not be posted:`}
+            </span>
+            <button onClick={() => setBackfillResult(null)} className="text-sm underline">
+              Dismiss
+            </button>
+          </div>
+          {backfillResult.failed.length > 0 && (
+            <ul className="mt-2 text-sm list-disc list-inside">
+              {backfillResult.failed.map((item) => (
+                <li key={item.creditId}>
+                  {formatDate(item.date)} - {formatCurrency(item.amount)}: {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-md p-4 mb-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -359,6 +441,9 @@ export default function CreditClient() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Note
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Voucher
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -388,6 +473,11 @@ export default function CreditClient() {
                         {credit.paymentRef && (
                           <div className="text-xs text-gray-400">{credit.paymentRef}</div>
                         )}
+                        {credit.paymentAccount && (
+                          <div className="text-xs text-gray-400">
+                            {credit.paymentAccount.code} - {credit.paymentAccount.name}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-indigo-600">
@@ -396,6 +486,18 @@ export default function CreditClient() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {credit.note || 'Done'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {credit.voucher ? (
+                        <Link
+                          href={`/dashboard/vouchers/${credit.voucher.id}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {credit.voucher.voucherNo}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">Not posted</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex items-center gap-2">
                         <button
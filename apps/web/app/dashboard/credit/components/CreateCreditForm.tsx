@@ -7,6 +7,13 @@ interface Project {
   name: string;
 }
 
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
 interface CreateCreditFormProps {
   projectId?: string; // If provided, project is auto-selected and disabled
   onSuccess?: () => void;
@@ -19,6 +26,7 @@ export default function CreateCreditForm({
   onCancel,
 }: CreateCreditFormProps) {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     projectId: initialProjectId || '',
@@ -28,6 +36,8 @@ export default function CreateCreditForm({
     receivedBy: '',
     paymentMethod: 'Cash' as 'Cash' | 'Check' | 'Bank Transfer' | 'Bkash' | 'Other',
     paymentRef: '',
+    paymentAccountId: '',
+    incomeAccountId: '',
     amount: '',
     note: 'Done',
   });
@@ -35,6 +45,7 @@ export default function CreateCreditForm({
 
   useEffect(() => {
     loadProjects();
+    loadAccounts();
   }, []);
 
   useEffect(() => {
@@ -55,6 +66,21 @@ export default function CreateCreditForm({
     }
   };
 
+  const loadAccounts = async () => {
+    try {
+      const response = await fetch('/api/chart-of-accounts?active=true');
+      const data = await response.json();
+      if (data.ok) {
+        setAccounts(data.data || []);
+      }
+    } catch (err) {
+      console.error('Failed to load accounts', err);
+    }
+  };
+
+  const assetAccounts = accounts.filter((a) => a.type === 'ASSET');
+  const incomeAccounts = accounts.filter((a) => a.type === 'INCOME' || a.type === 'LIABILITY');
+
   const getProjectName = () => {
     if (formData.projectId) {
       const project = projects.find((p) => p.id === formData.projectId);
@@ -81,6 +107,8 @@ export default function CreateCreditForm({
         receivedBy: formData.receivedBy,
         paymentMethod: formData.paymentMethod,
         paymentRef: formData.paymentRef || null,
+        paymentAccountId: formData.paymentAccountId || null,
+        incomeAccountId: formData.incomeAccountId || null,
         amount: parseFloat(formData.amount),
         note: formData.note || 'Done',
       };
@@ -102,6 +130,8 @@ export default function CreateCreditForm({
           receivedBy: '',
           paymentMethod: 'Cash',
           paymentRef: '',
+          paymentAccountId: '',
+          incomeAccountId: '',
           amount: '',
           note: 'Done',
         });
@@ -250,6 +280,45 @@ export default function CreateCreditForm({
         </div>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Received Into */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Received Into</label>
+          <select
+            value={formData.paymentAccountId}
+            onChange={(e) => setFormData({ ...formData, paymentAccountId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">{formData.paymentMethod === 'Cash' ? 'Cash' : 'Bank - Main Account'} (default)</option>
+            {assetAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.code} - {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Credit Account */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Credit Account</label>
+          <select
+            value={formData.incomeAccountId}
+            onChange={(e) => setFormData({ ...formData, incomeAccountId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">Customer Advances (default)</option>
+            {incomeAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.code} - {account.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Posted as a receipt voucher: Dr the received-into account / Cr this account.
+          </p>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Amount */}
         <div>
@@ -17,10 +17,19 @@ interface Credit {
   receivedBy: string;
   paymentMethod: string;
   paymentRef: string | null;
+  paymentAccountId?: string | null;
+  incomeAccountId?: string | null;
   amount: number;
   note: string | null;
 }
 
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
 interface EditCreditFormProps {
   credit: Credit;
   onSuccess?: () => void;
@@ -33,6 +42,7 @@ export default function EditCreditForm({
   onCancel,
 }: EditCreditFormProps) {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     projectId: credit.projectId || '',
@@ -42,6 +52,8 @@ export default function EditCreditForm({
     receivedBy: credit.receivedBy || '',
     paymentMethod: (credit.paymentMethod || 'Cash') as 'Cash' | 'Check' | 'Bank Transfer' | 'Bkash' | 'Other',
     paymentRef: credit.paymentRef || '',
+    paymentAccountId: credit.paymentAccountId || '',
+    incomeAccountId: credit.incomeAccountId || '',
     amount: credit.amount?.toString() || '',
     note: credit.note || 'Done',
   });
@@ -49,6 +61,7 @@ export default function EditCreditForm({
 
   useEffect(() => {
     loadProjects();
+    loadAccounts();
   }, []);
 
   const loadProjects = async () => {
@@ -63,6 +76,21 @@ export default function EditCreditForm({
     }
   };
 
+  const loadAccounts = async () => {
+    try {
+      const response = await fetch('/api/chart-of-accounts?active=true');
+      const data = await response.json();
+      if (data.ok) {
+        setAccounts(data.data || []);
+      }
+    } catch (err) {
+      console.error('Failed to load accounts', err);
+    }
+  };
+
+  const assetAccounts = accounts.filter((a) => a.type === 'ASSET');
+  const incomeAccounts = accounts.filter((a) => a.type === 'INCOME' || a.type === 'LIABILITY');
+
   const getProjectName = () => {
     if (formData.projectId) {
       const project = projects.find((p) => p.id === formData.projectId);
@@ -89,6 +117,8 @@ export default function EditCreditForm({
         receivedBy: formData.receivedBy,
         paymentMethod: formData.paymentMethod,
         paymentRef: formData.paymentRef || null,
+        paymentAccountId: formData.paymentAccountId || null,
+        incomeAccountId: formData.incomeAccountId || null,
         amount: parseFloat(formData.amount),
         note: formData.note || 'Done',
       };
@@ -245,6 +275,45 @@ export default function EditCreditForm({
         </div>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Received Into */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Received Into</label>
+          <select
+            value={formData.paymentAccountId}
+            onChange={(e) => setFormData({ ...formData, paymentAccountId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">{formData.paymentMethod === 'Cash' ? 'Cash' : 'Bank - Main Account'} (default)</option>
+            {assetAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.code} - {account.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Credit Account */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Credit Account</label>
+          <select
+            value={formData.incomeAccountId}
+            onChange={(e) => setFormData({ ...formData, incomeAccountId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">Customer Advances (default)</option>
+            {incomeAccounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.code} - {account.name}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Changing the amount, date, project or accounts reverses the receipt voucher and posts a new one.
+          </p>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Amount */}
         <div>
@@ -2,12 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 
 interface Investment {
   id: string;
+  type: 'INVESTMENT' | 'WITHDRAWAL';
+  investorName: string | null;
   date: string;
   amount: number;
   note: string | null;
+  voucher: {
+    id: string;
+    voucherNo: string;
+    status: string;
+  } | null;
   project: {
     id: string;
     name: string;
@@ -120,13 +128,31 @@ export default function InvestmentsClient() {
     return new Date(dateString).toLocaleDateString('en-BD');
   };
 
+  const handleDelete = async (investment: Investment) => {
+    if (!confirm('Delete this entry? Its voucher will be reversed.')) return;
+
+    try {
+      const response = await fetch(`/api/projects/${investment.project.id}/investments/${investment.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.ok) {
+        loadInvestments();
+      } else {
+        alert(result.error || 'Failed to delete investment');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete investment');
+    }
+  };
+
   return (
     <div>
       {/* Summary Card */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-6 border-2 border-purple-200">
         <div className="flex items-center justify-between">
           <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Total Investment</h3>
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Total Investment (net of withdrawals)</h3>
             <p className="text-3xl font-bold text-purple-600">{formatCurrency(total)}</p>
           </div>
           <div className="text-purple-500 text-4xl">💰</div>
@@ -200,15 +226,24 @@ export default function InvestmentsClient() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Project
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Investor
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Amount
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Voucher
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Note
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Created By
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
@@ -220,8 +255,32 @@ export default function InvestmentsClient() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {investment.project.name}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-purple-600">
-                      {formatCurrency(investment.amount)}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {investment.investorName || '-'}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                        investment.type === 'WITHDRAWAL' ? 'text-red-600' : 'text-purple-600'
+                      }`}
+                    >
+                      {investment.type === 'WITHDRAWAL'
+                        ? `(${formatCurrency(investment.amount)})`
+                        : formatCurrency(investment.amount)}
+                      {investment.type === 'WITHDRAWAL' && (
+                        <span className="ml-2 text-xs text-gray-500">Withdrawal</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {investment.voucher ? (
+                        <Link
+                          href={`/dashboard/vouchers/${investment.voucher.id}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {investment.voucher.voucherNo}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">Not posted</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500">
                       {investment.note || '-'}
@@ -229,6 +288,14 @@ export default function InvestmentsClient() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {investment.createdBy.name}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => handleDelete(investment)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,488 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface OpeningBalance {
+  cutoverDate: Date | string;
+  createdAt: Date | string;
+  createdBy: { id: string; name: string };
+  voucher: {
+    id: string;
+    voucherNo: string;
+    lines: Array<{
+      id: string;
+      debit: number;
+      credit: number;
+      description: string | null;
+      account: { id: string; code: string; name: string };
+      vendor: { id: string; name: string } | null;
+      project: { id: string; name: string } | null;
+    }>;
+  };
+}
+
+interface OpeningBalancesClientProps {
+  openingBalance: OpeningBalance | null;
+  balanceAccounts: Account[];
+  expenseAccounts: Account[];
+  vendors: Option[];
+  projects: Option[];
+  canPost: boolean;
+}
+
+interface AccountRow {
+  accountId: string;
+  debit: string;
+  credit: string;
+}
+
+interface VendorRow {
+  vendorId: string;
+  amount: string;
+  reference: string;
+}
+
+interface ProjectRow {
+  projectId: string;
+  accountId: string;
+  amount: string;
+  description: string;
+}
+
+const toNumber = (value: string | number) => Number(value) || 0;
+
+export default function OpeningBalancesClient({
+  openingBalance,
+  balanceAccounts,
+  expenseAccounts,
+  vendors,
+  projects,
+  canPost,
+}: OpeningBalancesClientProps) {
+  const router = useRouter();
+  const [cutoverDate, setCutoverDate] = useState(new Date().toISOString().split('T')[0]);
+  const [accountRows, setAccountRows] = useState<AccountRow[]>([]);
+  const [vendorRows, setVendorRows] = useState<VendorRow[]>([]);
+  const [projectRows, setProjectRows] = useState<ProjectRow[]>([]);
+  const [uploadErrors, setUploadErrors] = useState<Array<{ row: number; message: string }>>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const totalDebit =
+    accountRows.reduce((sum, row) => sum + toNumber(row.debit), 0) +
+    projectRows.reduce((sum, row) => sum + toNumber(row.amount), 0);
+  const totalCredit =
+    accountRows.reduce((sum, row) => sum + toNumber(row.credit), 0) +
+    vendorRows.reduce((sum, row) => sum + toNumber(row.amount), 0);
+  // Positive: credit to Opening Balance Equity; negative: debit
+  const equityBalance = totalDebit - totalCredit;
+
+  const updateRow = <T,>(rows: T[], index: number, patch: Partial<T>) =>
+    rows.map((row, i) => (i === index ? { ...row, ...patch } : row));
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    setUploadErrors([]);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/opening-balances/upload', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setAccountRows([
+          ...accountRows,
+          ...data.data.accounts.map((row: any) => ({
+            accountId: row.accountId,
+            debit: row.debit ? String(row.debit) : '',
+            credit: row.credit ? String(row.credit) : '',
+          })),
+        ]);
+        setVendorRows([
+          ...vendorRows,
+          ...data.data.vendors.map((row: any) => ({
+            vendorId: row.vendorId,
+            amount: String(row.amount),
+            reference: row.reference || '',
+          })),
+        ]);
+        setProjectRows([
+          ...projectRows,
+          ...data.data.projects.map((row: any) => ({
+            projectId: row.projectId,
+            accountId: row.accountId,
+            amount: String(row.amount),
+            description: row.description || '',
+          })),
+        ]);
+        setUploadErrors(data.data.errors);
+      } else {
+        setError(data.error || 'Failed to read file');
+      }
+    } catch (err) {
+      setError('An error occurred');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (
+      !confirm(
+        `Post opening balances as of ${new Date(cutoverDate).toLocaleDateString('en-BD')}? ` +
+          `Opening Balance Equity: ${formatCurrency(Math.abs(equityBalance))} ${equityBalance >= 0 ? 'Cr' : 'Dr'}.`
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/opening-balances', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cutoverDate,
+          accounts: accountRows
+            .filter((row) => row.accountId && (toNumber(row.debit) > 0 || toNumber(row.credit) > 0))
+            .map((row) => ({ accountId: row.accountId, debit: toNumber(row.debit), credit: toNumber(row.credit) })),
+          vendors: vendorRows
+            .filter((row) => row.vendorId && toNumber(row.amount) > 0)
+            .map((row) => ({ vendorId: row.vendorId, amount: toNumber(row.amount), reference: row.reference || null })),
+          projects: projectRows
+            .filter((row) => row.projectId && row.accountId && toNumber(row.amount) > 0)
+            .map((row) => ({
+              projectId: row.projectId,
+              accountId: row.accountId,
+              amount: toNumber(row.amount),
+              description: row.description || null,
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to post opening balances');
+      }
+    } catch (err) {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (openingBalance) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+          Opening balances as of {new Date(openingBalance.cutoverDate).toLocaleDateString('en-BD')} were posted by{' '}
+          {openingBalance.createdBy.name} as{' '}
+          <Link
+            href={`/dashboard/vouchers/${openingBalance.voucher.id}`}
+            className="font-medium text-blue-600 hover:text-blue-800"
+          >
+            {openingBalance.voucher.voucherNo}
+          </Link>
+          . To correct them, reverse that voucher and enter the balances again.
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vendor / Project</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {openingBalance.voucher.lines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {line.account.code} - {line.account.name}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {line.vendor?.name || line.project?.name || '—'}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">{line.description || '—'}</td>
+                  <td className="px-6 py-3 text-sm text-right">{line.debit > 0 ? formatCurrency(line.debit) : '-'}</td>
+                  <td className="px-6 py-3 text-sm text-right">{line.credit > 0 ? formatCurrency(line.credit) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>}
+
+      {/* Cut-over and upload */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cut-over Date</label>
+            <input
+              type="date"
+              value={cutoverDate}
+              onChange={(e) => setCutoverDate(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Upload Sheet (.xlsx / .csv)</label>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              disabled={!canPost || isUploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(file);
+                e.target.value = '';
+              }}
+              className="w-full text-sm"
+            />
+          </div>
+          <div>
+            <a href="/api/opening-balances/template" className="text-sm text-blue-600 hover:text-blue-800">
+              Download template
+            </a>
+          </div>
+        </div>
+        {uploadErrors.length > 0 && (
+          <ul className="mt-4 text-sm text-red-700 space-y-1">
+            {uploadErrors.map((uploadError) => (
+              <li key={uploadError.row}>
+                Row {uploadError.row}: {uploadError.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Account balances */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Account Balances</h3>
+          <button
+            onClick={() => setAccountRows([...accountRows, { accountId: '', debit: '', credit: '' }])}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add account
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Accounts Payable is entered per vendor below; Opening Balance Equity is calculated.
+        </p>
+        {accountRows.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2">
+            <select
+              value={row.accountId}
+              onChange={(e) => setAccountRows(updateRow(accountRows, index, { accountId: e.target.value }))}
+              className="col-span-6 rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Select account</option>
+              {balanceAccounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.code} - {account.name} ({account.type})
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Debit"
+              value={row.debit}
+              onChange={(e) => setAccountRows(updateRow(accountRows, index, { debit: e.target.value, credit: '' }))}
+              className="col-span-2 rounded-md border-gray-300 text-sm text-right"
+            />
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Credit"
+              value={row.credit}
+              onChange={(e) => setAccountRows(updateRow(accountRows, index, { credit: e.target.value, debit: '' }))}
+              className="col-span-2 rounded-md border-gray-300 text-sm text-right"
+            />
+            <button
+              onClick={() => setAccountRows(accountRows.filter((_, i) => i !== index))}
+              className="col-span-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Vendor payables */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Vendor Payables</h3>
+          <button
+            onClick={() => setVendorRows([...vendorRows, { vendorId: '', amount: '', reference: '' }])}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add payable
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Each row becomes an open item that payments can be allocated against. Enter unpaid bills separately to keep
+          them apart.
+        </p>
+        {vendorRows.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2">
+            <select
+              value={row.vendorId}
+              onChange={(e) => setVendorRows(updateRow(vendorRows, index, { vendorId: e.target.value }))}
+              className="col-span-4 rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Select vendor</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Reference (bill no.)"
+              value={row.reference}
+              onChange={(e) => setVendorRows(updateRow(vendorRows, index, { reference: e.target.value }))}
+              className="col-span-4 rounded-md border-gray-300 text-sm"
+            />
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Amount"
+              value={row.amount}
+              onChange={(e) => setVendorRows(updateRow(vendorRows, index, { amount: e.target.value }))}
+              className="col-span-2 rounded-md border-gray-300 text-sm text-right"
+            />
+            <button
+              onClick={() => setVendorRows(vendorRows.filter((_, i) => i !== index))}
+              className="col-span-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Project costs */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Project Opening Costs</h3>
+          <button
+            onClick={() =>
+              setProjectRows([
+                ...projectRows,
+                { projectId: '', accountId: expenseAccounts[0]?.id || '', amount: '', description: '' },
+              ])
+            }
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add project cost
+          </button>
+        </div>
+        {projectRows.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2">
+            <select
+              value={row.projectId}
+              onChange={(e) => setProjectRows(updateRow(projectRows, index, { projectId: e.target.value }))}
+              className="col-span-3 rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Select project</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={row.accountId}
+              onChange={(e) => setProjectRows(updateRow(projectRows, index, { accountId: e.target.value }))}
+              className="col-span-3 rounded-md border-gray-300 text-sm"
+            >
+              {expenseAccounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.code} - {account.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Description"
+              value={row.description}
+              onChange={(e) => setProjectRows(updateRow(projectRows, index, { description: e.target.value }))}
+              className="col-span-2 rounded-md border-gray-300 text-sm"
+            />
+            <input
+              type="number"
+              step="0.01"
+              placeholder="Amount"
+              value={row.amount}
+              onChange={(e) => setProjectRows(updateRow(projectRows, index, { amount: e.target.value }))}
+              className="col-span-2 rounded-md border-gray-300 text-sm text-right"
+            />
+            <button
+              onClick={() => setProjectRows(projectRows.filter((_, i) => i !== index))}
+              className="col-span-2 text-sm text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Totals */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 flex items-center justify-between">
+        <div className="text-sm text-gray-700 space-x-6">
+          <span>Debits: {formatCurrency(totalDebit)}</span>
+          <span>Credits: {formatCurrency(totalCredit)}</span>
+          <span className="font-medium text-gray-900">
+            Opening Balance Equity: {formatCurrency(Math.abs(equityBalance))} {equityBalance >= 0 ? 'Cr' : 'Dr'}
+          </span>
+        </div>
+        <button
+          onClick={handleSubmit}
+          disabled={!canPost || isSaving || (totalDebit === 0 && totalCredit === 0)}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Posting...' : 'Post Opening Balances'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getOpeningBalance } from '@/lib/openingBalances/openingBalance.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import DashboardLayout from '../components/DashboardLayout';
+import OpeningBalancesClient from './OpeningBalancesClient';
+
+export default async function OpeningBalancesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const [openingBalance, accounts, vendors, projects] = await Promise.all([
+    getOpeningBalance(auth.companyId),
+    prisma.account.findMany({
+      // Balances post to leaf accounts only
+      where: { companyId: auth.companyId, isActive: true, children: { none: {} } },
+      select: { id: true, code: true, name: true, type: true },
+      orderBy: { code: 'asc' },
+    }),
+    prisma.vendor.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  // Payables are entered per vendor and the equity balancing line is calculated
+  const excludedCodes: string[] = [SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE, SYSTEM_ACCOUNT_CODES.OPENING_BALANCE_EQUITY];
+  const balanceAccounts = accounts.filter((account) => !excludedCodes.includes(account.code));
+
+  return (
+    <DashboardLayout title="Opening Balances">
+      <OpeningBalancesClient
+        openingBalance={openingBalance}
+        balanceAccounts={balanceAccounts}
+        expenseAccounts={accounts.filter((account) => account.type === 'EXPENSE')}
+        vendors={vendors}
+        projects={projects}
+        canPost={can(auth.role, 'vouchers', 'POST')}
+      />
+    </DashboardLayout>
+  );
+}
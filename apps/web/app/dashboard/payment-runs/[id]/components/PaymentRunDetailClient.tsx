@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+type VoucherStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'POSTED' | 'REVERSED';
+
+interface Payment {
+  voucherId: string;
+  voucherNo: string;
+  status: VoucherStatus;
+  vendor: {
+    id: string;
+    name: string;
+    bankName: string | null;
+    bankAccountName: string | null;
+    bankAccountNo: string | null;
+    bankRoutingNo: string | null;
+  } | null;
+  amount: number;
+  bills: Array<{ voucherId: string; voucherNo: string; date: string; amount: number }>;
+}
+
+interface PaymentRun {
+  id: string;
+  runNo: string;
+  date: string;
+  budget: string | null;
+  totalAmount: string;
+  notes: string | null;
+  paymentAccount: { id: string; code: string; name: string };
+  createdBy: { id: string; name: string };
+  payments: Payment[];
+}
+
+const STATUS_COLORS: Record<VoucherStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  SUBMITTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  POSTED: 'bg-green-100 text-green-800',
+  REVERSED: 'bg-red-100 text-red-800',
+};
+
+interface PaymentRunDetailClientProps {
+  paymentRunId: string;
+}
+
+export default function PaymentRunDetailClient({ paymentRunId }: PaymentRunDetailClientProps) {
+  const [paymentRun, setPaymentRun] = useState<PaymentRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/payment-runs/${paymentRunId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setPaymentRun(data.data);
+        } else {
+          alert(data.error || 'Failed to load payment run');
+        }
+      })
+      .catch((error) => console.error('Failed to fetch payment run:', error))
+      .finally(() => setIsLoading(false));
+  }, [paymentRunId]);
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-gray-500">Loading...</div>;
+  }
+  if (!paymentRun) {
+    return <div className="text-center py-12 text-gray-500">Payment run not found</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{paymentRun.runNo}</h2>
+            <p className="text-sm text-gray-500">
+              {new Date(paymentRun.date).toLocaleDateString()} · Paid from {paymentRun.paymentAccount.code} -{' '}
+              {paymentRun.paymentAccount.name} · Created by {paymentRun.createdBy.name}
+            </p>
+            {paymentRun.notes && <p className="mt-2 text-sm text-gray-700">{paymentRun.notes}</p>}
+          </div>
+          <div className="flex gap-2">
+            <a
+              href={`/api/payment-runs/${paymentRun.id}/bank-file`}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Bank File (CSV)
+            </a>
+            <button
+              onClick={() => window.open(`/print/payables/payment-runs/${paymentRun.id}`, '_blank')}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center gap-2"
+            >
+              <span>🖨️</span> Summary Sheet
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-3 gap-4">
+          <div>
+            <div className="text-xs text-gray-500 uppercase">Vendors</div>
+            <div className="text-lg font-medium text-gray-900">{paymentRun.payments.length}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 uppercase">Budget</div>
+            <div className="text-lg font-medium text-gray-900">
+              {paymentRun.budget ? toMoney(paymentRun.budget) : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500 uppercase">Total</div>
+            <div className="text-lg font-medium text-gray-900">{toMoney(paymentRun.totalAmount)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Payments</h3>
+          <p className="text-sm text-gray-500">
+            Submit and post each voucher through the usual approval; bills count as paid once it is posted.
+          </p>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vendor</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bank Account</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bills</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {paymentRun.payments.map((payment) => (
+              <tr key={payment.voucherId} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <Link
+                    href={`/dashboard/vouchers/${payment.voucherId}`}
+                    className="text-blue-600 hover:text-blue-900 font-medium"
+                  >
+                    {payment.voucherNo}
+                  </Link>
+                  <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${STATUS_COLORS[payment.status]}`}>
+                    {payment.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {payment.vendor ? (
+                    <Link
+                      href={`/dashboard/vendors/${payment.vendor.id}/ledger`}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      {payment.vendor.name}
+                    </Link>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {payment.vendor?.bankAccountNo ? (
+                    <>
+                      {payment.vendor.bankAccountNo}
+                      {payment.vendor.bankName && <div className="text-xs">{payment.vendor.bankName}</div>}
+                    </>
+                  ) : (
+                    <span className="text-orange-600">Not on file</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {payment.bills.map((bill) => (
+                    <div key={bill.voucherId}>
+                      {bill.voucherNo}: {toMoney(bill.amount)}
+                    </div>
+                  ))}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                  {toMoney(payment.amount)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import DashboardLayout from '../../components/DashboardLayout';
+import PaymentRunDetailClient from './components/PaymentRunDetailClient';
+
+export default async function PaymentRunDetailPage({ params }: { params: { id: string } }) {
+  try {
+    await requirePermissionServer('vouchers', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  return (
+    <DashboardLayout title="Payment Run">
+      <PaymentRunDetailClient paymentRunId={params.id} />
+    </DashboardLayout>
+  );
+}
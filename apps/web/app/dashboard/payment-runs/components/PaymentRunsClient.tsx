@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface PaymentRun {
+  id: string;
+  runNo: string;
+  date: string;
+  budget: string | null;
+  totalAmount: string;
+  notes: string | null;
+  paymentAccount: { id: string; code: string; name: string };
+  createdBy: { id: string; name: string };
+  voucherCount: number;
+  postedCount: number;
+}
+
+interface PaymentRunsClientProps {
+  canWrite: boolean;
+}
+
+export default function PaymentRunsClient({ canWrite }: PaymentRunsClientProps) {
+  const [paymentRuns, setPaymentRuns] = useState<PaymentRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/payment-runs')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setPaymentRuns(data.data);
+        } else {
+          alert(data.error || 'Failed to load payment runs');
+        }
+      })
+      .catch((error) => console.error('Failed to fetch payment runs:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Pay open vendor bills in bulk. Each run drafts one payment voucher per vendor for the usual approval.
+        </p>
+        {canWrite && (
+          <Link
+            href="/dashboard/payment-runs/new"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            New Payment Run
+          </Link>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Run No</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Paid From</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vouchers</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Budget</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created By</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  Loading...
+                </td>
+              </tr>
+            ) : paymentRuns.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No payment runs yet
+                </td>
+              </tr>
+            ) : (
+              paymentRuns.map((run) => (
+                <tr key={run.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <Link
+                      href={`/dashboard/payment-runs/${run.id}`}
+                      className="text-blue-600 hover:text-blue-900 font-medium"
+                    >
+                      {run.runNo}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(run.date).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {run.paymentAccount.code} - {run.paymentAccount.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {run.postedCount} of {run.voucherCount} posted
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                    {run.budget ? toMoney(run.budget) : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
+                    {toMoney(run.totalAmount)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{run.createdBy.name}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
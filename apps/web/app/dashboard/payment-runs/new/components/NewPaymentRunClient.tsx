@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+interface Candidate {
+  lineId: string;
+  voucherId: string;
+  voucherNo: string;
+  date: string;
+  dueDate: string;
+  daysOverdue: number;
+  narration: string;
+  vendorId: string;
+  vendorName: string;
+  hasBankDetails: boolean;
+  projectName: string | null;
+  originalAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  available: number;
+  proposedAmount: number;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+export default function NewPaymentRunClient() {
+  const router = useRouter();
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [vendors, setVendors] = useState<Option[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, number>>({});
+  const [hasSearched, setHasSearched] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [filters, setFilters] = useState({
+    dueBy: new Date().toISOString().split('T')[0],
+    projectId: '',
+    vendorId: '',
+    minAmount: '',
+    budget: '',
+  });
+  const [formData, setFormData] = useState({
+    date: new Date().toISOString().split('T')[0],
+    paymentAccountId: '',
+    notes: '',
+  });
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+
+    fetch('/api/vendors?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setVendors(data.data || []);
+        }
+      });
+
+    // Payments go out of a cash/bank (ASSET) account
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          const assetAccounts = data.data.filter((acc: Account) => acc.type === 'ASSET');
+          setAccounts(assetAccounts);
+          if (assetAccounts.length > 0) {
+            setFormData((prev) => ({ ...prev, paymentAccountId: prev.paymentAccountId || assetAccounts[0].id }));
+          }
+        }
+      });
+  }, []);
+
+  const loadCandidates = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+      const response = await fetch(`/api/payment-runs/candidates?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setCandidates(data.data.items);
+        setAmounts(
+          Object.fromEntries(
+            data.data.items
+              .filter((item: Candidate) => item.proposedAmount > 0)
+              .map((item: Candidate) => [item.lineId, item.proposedAmount])
+          )
+        );
+        setHasSearched(true);
+      } else {
+        alert(data.error || 'Failed to load open items');
+      }
+    } catch (error) {
+      alert('An error occurred while loading open items');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleItem = (item: Candidate) => {
+    setAmounts((prev) => {
+      const next = { ...prev };
+      if (next[item.lineId] !== undefined) {
+        delete next[item.lineId];
+      } else {
+        next[item.lineId] = item.available;
+      }
+      return next;
+    });
+  };
+
+  const updateAmount = (item: Candidate, amount: number) => {
+    setAmounts((prev) => ({
+      ...prev,
+      [item.lineId]: Math.max(0, Math.min(amount, item.available)),
+    }));
+  };
+
+  const selected = candidates.filter((item) => (amounts[item.lineId] ?? 0) > 0);
+  const totalSelected = selected.reduce((sum, item) => sum + amounts[item.lineId], 0);
+  const vendorCount = new Set(selected.map((item) => item.vendorId)).size;
+  const budget = parseFloat(filters.budget) || 0;
+  const overBudget = budget > 0 && totalSelected > budget + 0.001;
+  const missingBank = new Set(selected.filter((item) => !item.hasBankDetails).map((item) => item.vendorName));
+
+  const handleSubmit = async () => {
+    if (!formData.paymentAccountId) {
+      alert('Select the account to pay from');
+      return;
+    }
+    if (selected.length === 0) {
+      alert('Select at least one open item');
+      return;
+    }
+    if (overBudget) {
+      alert(`Selected payments of ${toMoney(totalSelected)} exceed the budget of ${toMoney(budget)}`);
+      return;
+    }
+    if (
+      missingBank.size > 0 &&
+      !confirm(`No bank account on file for ${Array.from(missingBank).join(', ')}. Create the run anyway?`)
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/payment-runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: formData.date,
+          paymentAccountId: formData.paymentAccountId,
+          budget: budget > 0 ? budget : null,
+          notes: formData.notes || null,
+          allocations: selected.map((item) => ({
+            sourceLineId: item.lineId,
+            amount: Math.round(amounts[item.lineId] * 100) / 100,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.push(`/dashboard/payment-runs/${data.data.id}`);
+      } else {
+        alert(data.error || 'Failed to create payment run');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the payment run');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Due by</label>
+            <input
+              type="date"
+              value={filters.dueBy}
+              onChange={(e) => setFilters({ ...filters, dueBy: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={filters.projectId}
+              onChange={(e) => setFilters({ ...filters, projectId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vendor</label>
+            <select
+              value={filters.vendorId}
+              onChange={(e) => setFilters({ ...filters, vendorId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All vendors</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Min amount</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={filters.minAmount}
+              onChange={(e) => setFilters({ ...filters, minAmount: e.target.value })}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Budget</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={filters.budget}
+              onChange={(e) => setFilters({ ...filters, budget: e.target.value })}
+              placeholder="No limit"
+              className="w-36 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            onClick={loadCandidates}
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Propose Payments'}
+          </button>
+        </div>
+      </div>
+
+      {/* Open Items */}
+      {hasSearched && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Open Items</h3>
+            <p className="text-sm text-gray-500">
+              Oldest due date first. Amounts already on payment vouchers awaiting approval are excluded.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vendor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher No</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Original</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Payable</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Pay</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {candidates.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No open items match these filters
+                    </td>
+                  </tr>
+                ) : (
+                  candidates.map((item) => (
+                    <tr key={item.lineId} className="hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={amounts[item.lineId] !== undefined}
+                          onChange={() => toggleItem(item)}
+                        />
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {item.vendorName}
+                        {!item.hasBankDetails && <div className="text-xs text-orange-600">No bank account</div>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        <a
+                          href={`/dashboard/vouchers/${item.voucherId}`}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {item.voucherNo}
+                        </a>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{item.projectName ?? '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        <span className={item.daysOverdue > 0 ? 'text-red-600' : 'text-gray-500'}>
+                          {new Date(item.dueDate).toLocaleDateString()}
+                        </span>
+                        {item.daysOverdue > 0 && (
+                          <div className="text-xs text-red-600">{item.daysOverdue} days overdue</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {toMoney(item.originalAmount)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {toMoney(item.available)}
+                      </td>
+                      <td className="px-4 py-2 w-36">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={item.available}
+                          value={amounts[item.lineId] ?? 0}
+                          onChange={(e) => updateAmount(item, parseFloat(e.target.value) || 0)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Run Details */}
+      {hasSearched && candidates.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payment date</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pay from</label>
+              <select
+                value={formData.paymentAccountId}
+                onChange={(e) => setFormData({ ...formData, paymentAccountId: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.code} - {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex items-center justify-end gap-4">
+            <span className={`text-sm ${overBudget ? 'text-red-600' : 'text-gray-700'}`}>
+              {selected.length} items, {vendorCount} vendors: {toMoney(totalSelected)}
+              {budget > 0 && ` of ${toMoney(budget)} budget`}
+            </span>
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || selected.length === 0 || overBudget}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Creating...' : 'Create Payment Vouchers'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
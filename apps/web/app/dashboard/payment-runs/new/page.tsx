@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import DashboardLayout from '../../components/DashboardLayout';
+import NewPaymentRunClient from './components/NewPaymentRunClient';
+
+export default async function NewPaymentRunPage() {
+  try {
+    await requirePermissionServer('vouchers', 'WRITE');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  return (
+    <DashboardLayout title="New Payment Run">
+      <NewPaymentRunClient />
+    </DashboardLayout>
+  );
+}
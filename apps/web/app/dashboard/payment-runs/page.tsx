@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../components/DashboardLayout';
+import PaymentRunsClient from './components/PaymentRunsClient';
+
+export default async function PaymentRunsPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+
+  return (
+    <DashboardLayout title="Payment Runs">
+      <PaymentRunsClient canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+type PeriodStatus = 'OPEN' | 'SOFT_CLOSED' | 'CLOSED';
+
+interface Period {
+  year: number;
+  month: number;
+  label: string;
+  status: PeriodStatus;
+  note: string | null;
+  changedAt: Date | string | null;
+  changedBy: { id: string; name: string } | null;
+}
+
+interface Checklist {
+  year: number;
+  month: number;
+  label: string;
+  status: PeriodStatus;
+  unposted: Array<{
+    id: string;
+    voucherNo: string;
+    date: Date | string;
+    status: string;
+    narration: string | null;
+    createdBy: { id: string; name: string };
+  }>;
+  unbalanced: Array<{
+    id: string;
+    voucherNo: string;
+    date: Date | string;
+    status: string;
+    debit: number;
+    credit: number;
+    difference: number;
+  }>;
+  overhead: {
+    total: number;
+    allocated: number;
+    unallocated: number;
+    hasAllocation: boolean;
+  };
+  ready: boolean;
+}
+
+interface FiscalPeriodsClientProps {
+  year: number;
+  periods: Period[];
+  checklist: Checklist;
+  canClose: boolean;
+  isAdmin: boolean;
+}
+
+const STATUS_LABELS: Record<PeriodStatus, string> = {
+  OPEN: 'Open',
+  SOFT_CLOSED: 'Soft-closed',
+  CLOSED: 'Closed',
+};
+
+const STATUS_COLORS: Record<PeriodStatus, string> = {
+  OPEN: 'bg-green-100 text-green-800',
+  SOFT_CLOSED: 'bg-yellow-100 text-yellow-800',
+  CLOSED: 'bg-red-100 text-red-800',
+};
+
+export default function FiscalPeriodsClient({
+  year,
+  periods,
+  checklist,
+  canClose,
+  isAdmin,
+}: FiscalPeriodsClientProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const goTo = (nextYear: number, month?: number) => {
+    const params = new URLSearchParams({ year: String(nextYear) });
+    if (month) params.set('month', String(month));
+    router.push(`/dashboard/periods?${params.toString()}`);
+  };
+
+  const changeStatus = async (period: Period, status: PeriodStatus) => {
+    const isReopen =
+      (period.status === 'CLOSED' && status !== 'CLOSED') || (period.status === 'SOFT_CLOSED' && status === 'OPEN');
+
+    let note: string | null = null;
+    if (isReopen) {
+      note = prompt(`Reason for reopening ${period.label}:`, '');
+      if (!note) return;
+    } else {
+      const warning =
+        period.month === checklist.month && !checklist.ready
+          ? ' The close checklist still has open items.'
+          : '';
+      if (!confirm(`Mark ${period.label} as ${STATUS_LABELS[status].toLowerCase()}?${warning}`)) return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/fiscal-periods', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year: period.year, month: period.month, status, note }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update period');
+      }
+    } catch (error) {
+      alert('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Year selector */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => goTo(year - 1)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+        >
+          ← {year - 1}
+        </button>
+        <span className="text-lg font-semibold text-gray-900">{year}</span>
+        <button
+          onClick={() => goTo(year + 1)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+        >
+          {year + 1} →
+        </button>
+        <span className="text-sm text-gray-500">
+          Soft-closed months accept postings from ADMIN only; closed months accept none.
+        </span>
+        <Link
+          href={`/dashboard/periods/year-end?year=${year}`}
+          className="ml-auto text-sm text-blue-600 hover:text-blue-800"
+        >
+          Year-end close →
+        </Link>
+      </div>
+
+      {/* Months */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Change</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {periods.map((period) => (
+              <tr
+                key={period.month}
+                className={period.month === checklist.month ? 'bg-blue-50' : 'hover:bg-gray-50'}
+              >
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  <button onClick={() => goTo(year, period.month)} className="text-blue-600 hover:text-blue-800">
+                    {period.label}
+                  </button>
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[period.status]}`}>
+                    {STATUS_LABELS[period.status]}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-500">
+                  {period.changedAt ? (
+                    <>
+                      {period.changedBy?.name} on {new Date(period.changedAt).toLocaleDateString('en-BD')}
+                      {period.note && <div className="text-xs text-gray-400">{period.note}</div>}
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-right space-x-3">
+                  {canClose && period.status === 'OPEN' && (
+                    <button
+                      disabled={isSaving}
+                      onClick={() => changeStatus(period, 'SOFT_CLOSED')}
+                      className="text-yellow-700 hover:text-yellow-900 disabled:opacity-50"
+                    >
+                      Soft-close
+                    </button>
+                  )}
+                  {canClose && period.status !== 'CLOSED' && (
+                    <button
+                      disabled={isSaving}
+                      onClick={() => changeStatus(period, 'CLOSED')}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Close
+                    </button>
+                  )}
+                  {isAdmin && period.status !== 'OPEN' && (
+                    <button
+                      disabled={isSaving}
+                      onClick={() => changeStatus(period, 'OPEN')}
+                      className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Close checklist */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Close Checklist — {checklist.label}</h3>
+          <span
+            className={`px-2 py-1 rounded text-xs font-medium ${
+              checklist.ready ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}
+          >
+            {checklist.ready ? 'Ready to close' : 'Items need attention'}
+          </span>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            {checklist.unposted.length === 0 ? '✓' : '✗'} Unposted vouchers ({checklist.unposted.length})
+          </h4>
+          {checklist.unposted.length > 0 && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created By</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Narration</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {checklist.unposted.map((voucher) => (
+                  <tr key={voucher.id}>
+                    <td className="px-4 py-2 text-sm">
+                      <Link href={`/dashboard/vouchers/${voucher.id}`} className="text-blue-600 hover:text-blue-800">
+                        {voucher.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm">{new Date(voucher.date).toLocaleDateString('en-BD')}</td>
+                    <td className="px-4 py-2 text-sm">{voucher.status}</td>
+                    <td className="px-4 py-2 text-sm">{voucher.createdBy.name}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{voucher.narration || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            {checklist.unbalanced.length === 0 ? '✓' : '✗'} Unbalanced vouchers ({checklist.unbalanced.length})
+          </h4>
+          {checklist.unbalanced.length > 0 && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {checklist.unbalanced.map((voucher) => (
+                  <tr key={voucher.id}>
+                    <td className="px-4 py-2 text-sm">
+                      <Link href={`/dashboard/vouchers/${voucher.id}`} className="text-blue-600 hover:text-blue-800">
+                        {voucher.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm">{voucher.status}</td>
+                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(voucher.debit)}</td>
+                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(voucher.credit)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-red-600">{formatCurrency(voucher.difference)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            {checklist.overhead.unallocated < 0.01 ? '✓' : '✗'} Overhead allocation
+          </h4>
+          <p className="text-sm text-gray-600">
+            Office overhead {formatCurrency(checklist.overhead.total)}, allocated{' '}
+            {formatCurrency(checklist.overhead.allocated)}, unallocated{' '}
+            <span className={checklist.overhead.unallocated >= 0.01 ? 'text-red-600 font-medium' : ''}>
+              {formatCurrency(checklist.overhead.unallocated)}
+            </span>
+            {checklist.overhead.unallocated >= 0.01 && (
+              <>
+                {' '}
+                —{' '}
+                <Link href="/dashboard/reports/overhead/allocation" className="text-blue-600 hover:text-blue-800">
+                  allocate overhead
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getCloseChecklist, listFiscalPeriods } from '@/lib/periods/fiscalPeriod.server';
+import DashboardLayout from '../components/DashboardLayout';
+import FiscalPeriodsClient from './FiscalPeriodsClient';
+
+export default async function FiscalPeriodsPage({
+  searchParams,
+}: {
+  searchParams: { year?: string; month?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const now = new Date();
+  const year = Number(searchParams.year) || now.getFullYear();
+  const month = Number(searchParams.month) || (year === now.getFullYear() ? now.getMonth() + 1 : 12);
+
+  const [periods, checklist] = await Promise.all([
+    listFiscalPeriods(auth.companyId, year),
+    getCloseChecklist(auth.companyId, year, Math.min(Math.max(month, 1), 12)),
+  ]);
+
+  return (
+    <DashboardLayout title="Fiscal Periods">
+      <FiscalPeriodsClient
+        year={year}
+        periods={periods}
+        checklist={checklist}
+        canClose={can(auth.role, 'vouchers', 'POST')}
+        isAdmin={auth.role === 'ADMIN'}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface Balance {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  type: 'INCOME' | 'EXPENSE';
+  debit: number;
+  credit: number;
+  amount: number;
+}
+
+interface YearEndPreview {
+  year: number;
+  closed: {
+    id: string;
+    netProfit: number;
+    closedAt: Date | string;
+    voucher: { id: string; voucherNo: string };
+    retainedEarningsAccount: { id: string; code: string; name: string };
+    closedBy: { id: string; name: string };
+  } | null;
+  balances: Balance[];
+  totalIncome: number;
+  totalExpenses: number;
+  netProfit: number;
+  unpostedCount: number;
+  unclosedEarlierYears: number[];
+  equityAccounts: Array<{ id: string; code: string; name: string }>;
+  defaultRetainedEarningsAccountId: string | null;
+  blockers: string[];
+  canClose: boolean;
+}
+
+interface YearEndCloseClientProps {
+  preview: YearEndPreview;
+  canClose: boolean;
+}
+
+const STEPS = ['Review', 'Closing Entry', 'Confirm'];
+
+export default function YearEndCloseClient({ preview, canClose }: YearEndCloseClientProps) {
+  const router = useRouter();
+  const [step, setStep] = useState(0);
+  const [accountId, setAccountId] = useState(preview.defaultRetainedEarningsAccountId || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const goToYear = (year: number) => {
+    router.push(`/dashboard/periods/year-end?year=${year}`);
+  };
+
+  const equityAccount = preview.equityAccounts.find((account) => account.id === accountId);
+
+  const handleClose = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/fiscal-periods/year-end', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year: preview.year, retainedEarningsAccountId: accountId || null }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setStep(0);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to close the year');
+      }
+    } catch (err) {
+      setError('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Year selector */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => goToYear(preview.year - 1)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+        >
+          ← {preview.year - 1}
+        </button>
+        <span className="text-lg font-semibold text-gray-900">{preview.year}</span>
+        <button
+          onClick={() => goToYear(preview.year + 1)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+        >
+          {preview.year + 1} →
+        </button>
+        <Link href={`/dashboard/periods?year=${preview.year}`} className="text-sm text-blue-600 hover:text-blue-800">
+          Fiscal periods for {preview.year}
+        </Link>
+      </div>
+
+      {preview.closed ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6 space-y-2">
+          <h3 className="text-lg font-medium text-green-900">{preview.year} is closed</h3>
+          <p className="text-sm text-green-800">
+            Closed by {preview.closed.closedBy.name} on{' '}
+            {new Date(preview.closed.closedAt).toLocaleDateString('en-BD')}. Net{' '}
+            {preview.closed.netProfit >= 0 ? 'profit' : 'loss'} of{' '}
+            {formatCurrency(Math.abs(preview.closed.netProfit))} was moved to{' '}
+            {preview.closed.retainedEarningsAccount.code} - {preview.closed.retainedEarningsAccount.name} by{' '}
+            <Link
+              href={`/dashboard/vouchers/${preview.closed.voucher.id}`}
+              className="font-medium text-blue-600 hover:text-blue-800"
+            >
+              {preview.closed.voucher.voucherNo}
+            </Link>
+            .
+          </p>
+          <p className="text-sm text-green-800">
+            {preview.year + 1} opens with these balances carried forward —{' '}
+            <Link
+              href={`/dashboard/reports/financial/trial-balance?from=${preview.year + 1}-01-01&asOf=${preview.year + 1}-12-31`}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              view the {preview.year + 1} trial balance
+            </Link>
+            .
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Steps */}
+          <ol className="flex items-center gap-4">
+            {STEPS.map((label, index) => (
+              <li
+                key={label}
+                className={`flex items-center gap-2 text-sm ${
+                  index === step ? 'font-semibold text-blue-700' : index < step ? 'text-gray-900' : 'text-gray-400'
+                }`}
+              >
+                <span
+                  className={`w-6 h-6 rounded-full flex items-center justify-center text-xs ${
+                    index <= step ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-600'
+                  }`}
+                >
+                  {index + 1}
+                </span>
+                {label}
+              </li>
+            ))}
+          </ol>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+          )}
+
+          {step === 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Before closing {preview.year}</h3>
+              <ul className="space-y-2 text-sm">
+                {preview.blockers.map((blocker) => (
+                  <li key={blocker} className="text-red-700">
+                    ✗ {blocker}
+                  </li>
+                ))}
+                {preview.unclosedEarlierYears.length === 0 && <li className="text-gray-700">✓ Earlier years are closed</li>}
+                <li className={preview.unpostedCount > 0 ? 'text-yellow-700' : 'text-gray-700'}>
+                  {preview.unpostedCount > 0 ? '!' : '✓'} Unposted vouchers dated in {preview.year}:{' '}
+                  {preview.unpostedCount}
+                  {preview.unpostedCount > 0 && ' — they cannot be posted once the year is locked'}
+                </li>
+              </ul>
+              <p className="text-sm text-gray-600">
+                Closing posts one journal dated 31 December {preview.year} that brings every income and expense
+                account to zero against an equity account, then closes all twelve months. Closed years cannot be
+                reopened.
+              </p>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setStep(1)}
+                  disabled={!preview.canClose}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 1 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Closing entry</h3>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Year Balance</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.balances.map((balance) => {
+                    const net = balance.debit - balance.credit;
+                    return (
+                      <tr key={balance.accountId}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {balance.accountCode} - {balance.accountName}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">{balance.type}</td>
+                        <td className="px-4 py-2 text-sm text-right">{formatCurrency(balance.amount)}</td>
+                        <td className="px-4 py-2 text-sm text-right">{net < 0 ? formatCurrency(-net) : '-'}</td>
+                        <td className="px-4 py-2 text-sm text-right">{net > 0 ? formatCurrency(net) : '-'}</td>
+                      </tr>
+                    );
+                  })}
+                  <tr className="bg-gray-50">
+                    <td className="px-4 py-2 text-sm">
+                      <select
+                        value={accountId}
+                        onChange={(e) => setAccountId(e.target.value)}
+                        className="w-full rounded-md border-gray-300 text-sm"
+                      >
+                        {preview.equityAccounts.map((account) => (
+                          <option key={account.id} value={account.id}>
+                            {account.code} - {account.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-500">EQUITY</td>
+                    <td className="px-4 py-2 text-sm text-right font-medium">
+                      Net {preview.netProfit >= 0 ? 'profit' : 'loss'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {preview.netProfit < 0 ? formatCurrency(-preview.netProfit) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {preview.netProfit > 0 ? formatCurrency(preview.netProfit) : '-'}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              <div className="text-sm text-gray-600">
+                Income {formatCurrency(preview.totalIncome)} − expenses {formatCurrency(preview.totalExpenses)} ={' '}
+                <span className="font-medium text-gray-900">{formatCurrency(preview.netProfit)}</span>
+              </div>
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setStep(0)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={() => setStep(2)}
+                  disabled={!accountId}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 2 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Confirm year-end close</h3>
+              <p className="text-sm text-gray-700">
+                Post the closing journal for {preview.year}, moving a net{' '}
+                {preview.netProfit >= 0 ? 'profit' : 'loss'} of {formatCurrency(Math.abs(preview.netProfit))} to{' '}
+                {equityAccount ? `${equityAccount.code} - ${equityAccount.name}` : 'the selected account'}, and close
+                January–December {preview.year}.
+              </p>
+              {!canClose && (
+                <p className="text-sm text-yellow-700">Only an ADMIN can close a year.</p>
+              )}
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setStep(1)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleClose}
+                  disabled={!canClose || isSaving}
+                  className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Closing...' : `Close ${preview.year}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
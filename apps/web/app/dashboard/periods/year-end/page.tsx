@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getYearEndPreview } from '@/lib/periods/yearEnd.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import YearEndCloseClient from './YearEndCloseClient';
+
+export default async function YearEndClosePage({
+  searchParams,
+}: {
+  searchParams: { year?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  // Default to the last completed year
+  const year = Number(searchParams.year) || new Date().getFullYear() - 1;
+  const preview = await getYearEndPreview(auth.companyId, year);
+
+  return (
+    <DashboardLayout title="Year-End Close">
+      <YearEndCloseClient preview={preview} canClose={can(auth.role, 'companies', 'WRITE')} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,763 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { computeClientBillAmounts } from '@/lib/billing/clientBillAmounts';
+
+interface BillReceipt {
+  id: string;
+  kind: 'BILL' | 'RETENTION';
+  date: string;
+  amount: string | number;
+  reference: string | null;
+  paymentAccount: { code: string; name: string };
+  voucher: { id: string; voucherNo: string };
+}
+
+interface ClientBill {
+  id: string;
+  billNo: string;
+  date: string;
+  dueDate: string | null;
+  periodFrom: string | null;
+  periodTo: string | null;
+  workDoneToDate: string | number;
+  previousBilled: string | number;
+  grossAmount: string | number;
+  retentionPercent: string | number;
+  retentionAmount: string | number;
+  vatPercent: string | number;
+  vatAmount: string | number;
+  aitPercent: string | number;
+  aitAmount: string | number;
+  netAmount: string | number;
+  receivedAmount: string | number;
+  retentionReleased: string | number;
+  status: 'DRAFT' | 'POSTED' | 'CANCELLED';
+  notes: string | null;
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  receipts: BillReceipt[];
+}
+
+interface BillingSummary {
+  contractValue: number | null;
+  billedToDate: number;
+  billedPercent: number | null;
+  grossBilled: number;
+  netBilled: number;
+  received: number;
+  outstanding: number;
+  retentionHeld: number;
+  retentionReleased: number;
+  taxDeducted: number;
+}
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+interface PaymentMethod {
+  id: string;
+  name: string;
+}
+
+interface ProjectBillsClientProps {
+  projectId: string;
+  clientName: string | null;
+}
+
+const emptyBillForm = () => ({
+  date: new Date().toISOString().split('T')[0],
+  dueDate: '',
+  periodFrom: '',
+  periodTo: '',
+  workDoneToDate: '',
+  retentionPercent: '0',
+  vatPercent: '0',
+  aitPercent: '0',
+  notes: '',
+});
+
+const emptyReceiptForm = () => ({
+  kind: 'BILL' as 'BILL' | 'RETENTION',
+  date: new Date().toISOString().split('T')[0],
+  amount: '',
+  paymentAccountId: '',
+  paymentMethodId: '',
+  reference: '',
+});
+
+export default function ProjectBillsClient({ projectId, clientName }: ProjectBillsClientProps) {
+  const [bills, setBills] = useState<ClientBill[]>([]);
+  const [summary, setSummary] = useState<BillingSummary | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyBillForm());
+  const [receiptBillId, setReceiptBillId] = useState<string | null>(null);
+  const [receiptData, setReceiptData] = useState(emptyReceiptForm());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadBills = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/bills`);
+      const data = await response.json();
+      if (data.ok) {
+        setBills(data.data);
+        setSummary(data.summary);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBills();
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setAccounts((data.data || []).filter((a: Account) => a.type === 'ASSET'));
+      });
+    fetch('/api/payment-methods?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setPaymentMethods(data.data || []);
+      });
+  }, [projectId]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+  const editingBill = editingId ? bills.find((b) => b.id === editingId) : undefined;
+  const lastActiveBill = [...bills].reverse().find((b) => b.status !== 'CANCELLED' && b.id !== editingId);
+  const previousBilled = editingBill
+    ? Number(editingBill.previousBilled)
+    : lastActiveBill
+      ? Number(lastActiveBill.workDoneToDate)
+      : 0;
+
+  const preview = computeClientBillAmounts({
+    workDoneToDate: parseFloat(formData.workDoneToDate) || 0,
+    previousBilled,
+    retentionPercent: parseFloat(formData.retentionPercent) || 0,
+    vatPercent: parseFloat(formData.vatPercent) || 0,
+    aitPercent: parseFloat(formData.aitPercent) || 0,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      date: formData.date,
+      dueDate: formData.dueDate || null,
+      periodFrom: formData.periodFrom || null,
+      periodTo: formData.periodTo || null,
+      workDoneToDate: parseFloat(formData.workDoneToDate),
+      retentionPercent: parseFloat(formData.retentionPercent) || 0,
+      vatPercent: parseFloat(formData.vatPercent) || 0,
+      aitPercent: parseFloat(formData.aitPercent) || 0,
+      notes: formData.notes || null,
+    };
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/projects/${projectId}/bills/${editingId}` : `/api/projects/${projectId}/bills`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      const result = await response.json();
+      if (result.ok) {
+        setShowForm(false);
+        setEditingId(null);
+        setFormData(emptyBillForm());
+        loadBills();
+      } else {
+        alert(result.error || 'Failed to save bill');
+      }
+    } catch (err) {
+      alert('Failed to save bill');
+    }
+  };
+
+  const openEdit = (bill: ClientBill) => {
+    setShowForm(false);
+    setEditingId(bill.id);
+    setFormData({
+      date: new Date(bill.date).toISOString().split('T')[0],
+      dueDate: bill.dueDate ? new Date(bill.dueDate).toISOString().split('T')[0] : '',
+      periodFrom: bill.periodFrom ? new Date(bill.periodFrom).toISOString().split('T')[0] : '',
+      periodTo: bill.periodTo ? new Date(bill.periodTo).toISOString().split('T')[0] : '',
+      workDoneToDate: String(Number(bill.workDoneToDate)),
+      retentionPercent: String(Number(bill.retentionPercent)),
+      vatPercent: String(Number(bill.vatPercent)),
+      aitPercent: String(Number(bill.aitPercent)),
+      notes: bill.notes ?? '',
+    });
+  };
+
+  const runAction = async (bill: ClientBill, action: 'post' | 'cancel' | 'delete') => {
+    const confirmText = {
+      post: `Post bill ${bill.billNo}? A journal voucher will be created and the bill can no longer be edited.`,
+      cancel: `Cancel bill ${bill.billNo}? Its voucher will be reversed.`,
+      delete: `Delete draft bill ${bill.billNo}?`,
+    }[action];
+    if (!confirm(confirmText)) return;
+
+    try {
+      const response = await fetch(
+        action === 'delete'
+          ? `/api/projects/${projectId}/bills/${bill.id}`
+          : `/api/projects/${projectId}/bills/${bill.id}/${action}`,
+        { method: action === 'delete' ? 'DELETE' : 'POST' }
+      );
+      const result = await response.json();
+      if (result.ok) {
+        loadBills();
+      } else {
+        alert(result.error || `Failed to ${action} bill`);
+      }
+    } catch (err) {
+      alert(`Failed to ${action} bill`);
+    }
+  };
+
+  const handleReceiptSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiptBillId) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/bills/${receiptBillId}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: receiptData.kind,
+          date: receiptData.date,
+          amount: parseFloat(receiptData.amount),
+          paymentAccountId: receiptData.paymentAccountId,
+          paymentMethodId: receiptData.paymentMethodId || null,
+          reference: receiptData.reference || null,
+        }),
+      });
+      const result = await response.json();
+      if (result.ok) {
+        setReceiptBillId(null);
+        setReceiptData(emptyReceiptForm());
+        loadBills();
+      } else {
+        alert(result.error || 'Failed to record receipt');
+      }
+    } catch (err) {
+      alert('Failed to record receipt');
+    }
+  };
+
+  const receiptBill = receiptBillId ? bills.find((b) => b.id === receiptBillId) : undefined;
+  const receiptOutstanding = receiptBill
+    ? receiptData.kind === 'RETENTION'
+      ? Number(receiptBill.retentionAmount) - Number(receiptBill.retentionReleased)
+      : Number(receiptBill.netAmount) - Number(receiptBill.receivedAmount)
+    : 0;
+
+  const statusBadge = (status: ClientBill['status']) => {
+    const styles = {
+      DRAFT: 'bg-gray-100 text-gray-800',
+      POSTED: 'bg-green-100 text-green-800',
+      CANCELLED: 'bg-red-100 text-red-800',
+    };
+    return (
+      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${styles[status]}`}>
+        {status}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="text-xs text-gray-500 uppercase">Contract Value</div>
+            <div className="text-lg font-semibold text-gray-900">
+              {summary.contractValue !== null ? formatCurrency(summary.contractValue) : 'Not set'}
+            </div>
+            <div className="text-xs text-gray-500">
+              Billed to date {formatCurrency(summary.billedToDate)}
+              {summary.billedPercent !== null && ` (${summary.billedPercent.toFixed(1)}%)`}
+            </div>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="text-xs text-gray-500 uppercase">Net Billed</div>
+            <div className="text-lg font-semibold text-gray-900">{formatCurrency(summary.netBilled)}</div>
+            <div className="text-xs text-gray-500">VAT/AIT deducted {formatCurrency(summary.taxDeducted)}</div>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="text-xs text-gray-500 uppercase">Outstanding</div>
+            <div className="text-lg font-semibold text-red-600">{formatCurrency(summary.outstanding)}</div>
+            <div className="text-xs text-gray-500">Received {formatCurrency(summary.received)}</div>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="text-xs text-gray-500 uppercase">Retention Held</div>
+            <div className="text-lg font-semibold text-orange-600">{formatCurrency(summary.retentionHeld)}</div>
+            <div className="text-xs text-gray-500">Released {formatCurrency(summary.retentionReleased)}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Running bills raised to {clientName || 'the client'}. Each bill claims the work done to date less
+          the previous bill.
+        </p>
+        <button
+          type="button"
+          onClick={() => {
+            setEditingId(null);
+            setFormData(emptyBillForm());
+            setShowForm(true);
+          }}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700"
+        >
+          New running bill
+        </button>
+      </div>
+
+      {(showForm || editingId) && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="font-medium mb-3">{editingBill ? `Edit ${editingBill.billNo}` : 'New Running Bill'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Bill Date</label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData((d) => ({ ...d, date: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Due Date (optional)</label>
+                <input
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData((d) => ({ ...d, dueDate: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Period From</label>
+                <input
+                  type="date"
+                  value={formData.periodFrom}
+                  onChange={(e) => setFormData((d) => ({ ...d, periodFrom: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Period To</label>
+                <input
+                  type="date"
+                  value={formData.periodTo}
+                  onChange={(e) => setFormData((d) => ({ ...d, periodTo: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Work Done to Date (৳)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.workDoneToDate}
+                  onChange={(e) => setFormData((d) => ({ ...d, workDoneToDate: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Retention %</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.retentionPercent}
+                  onChange={(e) => setFormData((d) => ({ ...d, retentionPercent: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">VAT %</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.vatPercent}
+                  onChange={(e) => setFormData((d) => ({ ...d, vatPercent: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">AIT %</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.aitPercent}
+                  onChange={(e) => setFormData((d) => ({ ...d, aitPercent: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-sm bg-white border border-gray-200 rounded-md p-3">
+              <div>
+                <div className="text-xs text-gray-500">Previously Billed</div>
+                <div className="font-medium">{formatCurrency(previousBilled)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">This Bill (Gross)</div>
+                <div className="font-medium">{formatCurrency(preview.grossAmount)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Retention</div>
+                <div className="font-medium">{formatCurrency(preview.retentionAmount)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">VAT</div>
+                <div className="font-medium">{formatCurrency(preview.vatAmount)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">AIT</div>
+                <div className="font-medium">{formatCurrency(preview.aitAmount)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Net Receivable</div>
+                <div className="font-semibold text-gray-900">{formatCurrency(preview.netAmount)}</div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData((d) => ({ ...d, notes: e.target.value }))}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" className="py-2 px-4 bg-purple-600 text-white rounded-md hover:bg-purple-700">
+                {editingId ? 'Update' : 'Save Draft'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setShowForm(false);
+                }}
+                className="py-2 px-4 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {receiptBill && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="font-medium mb-3">Receive Payment - {receiptBill.billNo}</h3>
+          <form onSubmit={handleReceiptSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Against</label>
+                <select
+                  value={receiptData.kind}
+                  onChange={(e) =>
+                    setReceiptData((d) => ({ ...d, kind: e.target.value as 'BILL' | 'RETENTION' }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="BILL">Bill amount</option>
+                  <option value="RETENTION">Retention release</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Outstanding {formatCurrency(receiptOutstanding)}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                <input
+                  type="date"
+                  value={receiptData.date}
+                  onChange={(e) => setReceiptData((d) => ({ ...d, date: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount (৳)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={receiptData.amount}
+                  onChange={(e) => setReceiptData((d) => ({ ...d, amount: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Received Into</label>
+                <select
+                  value={receiptData.paymentAccountId}
+                  onChange={(e) => setReceiptData((d) => ({ ...d, paymentAccountId: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select cash/bank account</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment Method</label>
+                <select
+                  value={receiptData.paymentMethodId}
+                  onChange={(e) => setReceiptData((d) => ({ ...d, paymentMethodId: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">—</option>
+                  {paymentMethods.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {method.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                <input
+                  type="text"
+                  value={receiptData.reference}
+                  onChange={(e) => setReceiptData((d) => ({ ...d, reference: e.target.value }))}
+                  placeholder="Cheque / transfer no."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" className="py-2 px-4 bg-green-600 text-white rounded-md hover:bg-green-700">
+                Record Receipt
+              </button>
+              <button
+                type="button"
+                onClick={() => setReceiptBillId(null)}
+                className="py-2 px-4 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bill</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Work To Date</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Gross</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Deductions</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Net</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={10} className="px-4 py-4 text-center text-sm text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : bills.length === 0 ? (
+                <tr>
+                  <td colSpan={10} className="px-4 py-4 text-center text-sm text-gray-500">
+                    No bills raised yet
+                  </td>
+                </tr>
+              ) : (
+                bills.map((bill) => {
+                  const deductions =
+                    Number(bill.retentionAmount) + Number(bill.vatAmount) + Number(bill.aitAmount);
+                  const canReceive =
+                    bill.status === 'POSTED' &&
+                    (Number(bill.netAmount) > Number(bill.receivedAmount) ||
+                      Number(bill.retentionAmount) > Number(bill.retentionReleased));
+                  return (
+                    <Fragment key={bill.id}>
+                      <tr className={bill.status === 'CANCELLED' ? 'opacity-60' : 'hover:bg-gray-50'}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            {bill.billNo}
+                          </button>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">{formatDate(bill.date)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">
+                          {formatCurrency(Number(bill.workDoneToDate))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right">
+                          {formatCurrency(Number(bill.grossAmount))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-600">
+                          {formatCurrency(deductions)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium">
+                          {formatCurrency(Number(bill.netAmount))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-green-700">
+                          {formatCurrency(Number(bill.receivedAmount))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">{statusBadge(bill.status)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          {bill.voucher ? (
+                            <Link
+                              href={`/dashboard/vouchers/${bill.voucher.id}`}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              {bill.voucher.voucherNo}
+                            </Link>
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right space-x-3">
+                          {bill.status === 'DRAFT' && (
+                            <>
+                              <button onClick={() => openEdit(bill)} className="text-blue-600 hover:text-blue-900">
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => runAction(bill, 'post')}
+                                className="text-green-600 hover:text-green-900"
+                              >
+                                Post
+                              </button>
+                              <button
+                                onClick={() => runAction(bill, 'delete')}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          )}
+                          {canReceive && (
+                            <button
+                              onClick={() => {
+                                setReceiptBillId(bill.id);
+                                setReceiptData({
+                                  ...emptyReceiptForm(),
+                                  kind:
+                                    Number(bill.netAmount) > Number(bill.receivedAmount) ? 'BILL' : 'RETENTION',
+                                });
+                              }}
+                              className="text-green-600 hover:text-green-900"
+                            >
+                              Receive
+                            </button>
+                          )}
+                          {bill.status === 'POSTED' && bill.receipts.length === 0 && (
+                            <button
+                              onClick={() => runAction(bill, 'cancel')}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedId === bill.id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={10} className="px-6 py-3 text-xs text-gray-600 space-y-1">
+                            <div>
+                              Period {formatDate(bill.periodFrom)} – {formatDate(bill.periodTo)} · Due{' '}
+                              {formatDate(bill.dueDate)} · Previously billed{' '}
+                              {formatCurrency(Number(bill.previousBilled))}
+                            </div>
+                            <div>
+                              Retention {Number(bill.retentionPercent)}%{' '}
+                              {formatCurrency(Number(bill.retentionAmount))} (released{' '}
+                              {formatCurrency(Number(bill.retentionReleased))}) · VAT {Number(bill.vatPercent)}%{' '}
+                              {formatCurrency(Number(bill.vatAmount))} · AIT {Number(bill.aitPercent)}%{' '}
+                              {formatCurrency(Number(bill.aitAmount))}
+                            </div>
+                            {bill.notes && <div>Notes: {bill.notes}</div>}
+                            {bill.receipts.length > 0 && (
+                              <div>
+                                Receipts:
+                                <ul className="ml-4 list-disc">
+                                  {bill.receipts.map((receipt) => (
+                                    <li key={receipt.id}>
+                                      {formatDate(receipt.date)} · {receipt.kind === 'RETENTION' ? 'Retention' : 'Bill'}{' '}
+                                      · {formatCurrency(Number(receipt.amount))} into {receipt.paymentAccount.code}{' '}
+                                      {receipt.paymentAccount.name}
+                                      {receipt.reference && ` · ${receipt.reference}`} ·{' '}
+                                      <Link
+                                        href={`/dashboard/vouchers/${receipt.voucher.id}`}
+                                        className="text-blue-600 hover:text-blue-900"
+                                      >
+                                        {receipt.voucher.voucherNo}
+                                      </Link>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import DashboardLayout from '../../../components/DashboardLayout';
+import Link from 'next/link';
+import ProjectBillsClient from './components/ProjectBillsClient';
+
+export default async function ProjectBillsPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: params.id,
+      companyId: auth.companyId,
+    },
+    select: { id: true, name: true, clientName: true },
+  });
+
+  if (!project) {
+    redirect('/dashboard/projects');
+  }
+
+  return (
+    <DashboardLayout
+      title={`Client Bills - ${project.name}`}
+      actions={
+        <div className="flex gap-2">
+          <Link
+            href={`/dashboard/projects/${params.id}`}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Back to Project
+          </Link>
+          <Link
+            href="/dashboard/reports/receivables"
+            className="py-2 px-4 border border-purple-300 rounded-md shadow-sm text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100"
+          >
+            Receivables Aging
+          </Link>
+        </div>
+      }
+    >
+      <ProjectBillsClient projectId={params.id} clientName={project.clientName} />
+    </DashboardLayout>
+  );
+}
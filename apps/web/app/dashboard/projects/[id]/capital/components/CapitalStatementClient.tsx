@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface InvestorRow {
+  investorName: string | null;
+  openingCapital: number;
+  contributions: number;
+  withdrawals: number;
+  closingCapital: number;
+  sharePercent: number;
+  profitShare: number;
+  closingBalance: number;
+}
+
+interface CapitalStatementClientProps {
+  projectId: string;
+  statement: {
+    income: number;
+    expenses: number;
+    profit: number;
+    investors: InvestorRow[];
+    totals: Omit<InvestorRow, 'investorName' | 'sharePercent'>;
+    lines: Array<{
+      id: string;
+      date: Date;
+      investorName: string | null;
+      type: 'INVESTMENT' | 'WITHDRAWAL';
+      amount: number;
+      note: string | null;
+      voucherId: string | null;
+      voucherNo: string | null;
+    }>;
+  };
+  from: string;
+  to: string;
+}
+
+export default function CapitalStatementClient({
+  projectId,
+  statement,
+  from: initialFrom,
+  to: initialTo,
+}: CapitalStatementClientProps) {
+  const router = useRouter();
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handleApply = () => {
+    const params = new URLSearchParams();
+    if (from && to) {
+      params.set('from', from);
+      params.set('to', to);
+    }
+    router.push(`/dashboard/projects/${projectId}/capital${params.toString() ? `?${params.toString()}` : ''}`);
+  };
+
+  const { investors, totals, lines } = statement;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Apply
+          </button>
+          {!initialFrom && <span className="text-sm text-gray-500">Showing project to date</span>}
+        </div>
+      </div>
+
+      {/* Profit summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-sm text-gray-500">Project Income</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(statement.income)}</p>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-sm text-gray-500">Project Expenses</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(statement.expenses)}</p>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-sm text-gray-500">{statement.profit >= 0 ? 'Profit' : 'Loss'}</p>
+          <p className={`text-xl font-semibold ${statement.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(statement.profit)}
+          </p>
+        </div>
+      </div>
+
+      {/* Investor-wise statement */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Capital by Investor</h3>
+          <p className="text-sm text-gray-500">
+            Profit is shared in proportion to each investor&apos;s closing capital.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Investor</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Opening</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Contributions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Withdrawals</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Closing Capital</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Profit Share</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {investors.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No investments recorded for this project
+                  </td>
+                </tr>
+              ) : (
+                investors.map((row) => (
+                  <tr key={row.investorName ?? ''} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {row.investorName || <span className="text-gray-400">Unnamed</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatCurrency(row.openingCapital)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatCurrency(row.contributions)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatCurrency(row.withdrawals)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
+                      {formatCurrency(row.closingCapital)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{row.sharePercent.toFixed(2)}%</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatCurrency(row.profitShare)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold">
+                      {formatCurrency(row.closingBalance)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            {investors.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr className="font-semibold">
+                  <td className="px-6 py-3 text-sm">Total</td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.openingCapital)}</td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.contributions)}</td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.withdrawals)}</td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.closingCapital)}</td>
+                  <td className="px-6 py-3 text-sm text-right"></td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.profitShare)}</td>
+                  <td className="px-6 py-3 text-sm text-right">{formatCurrency(totals.closingBalance)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {/* Movements in the period */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Contributions and Withdrawals</h3>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Investor</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No movements in this period
+                </td>
+              </tr>
+            ) : (
+              lines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    {new Date(line.date).toLocaleDateString('en-BD')}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">{line.investorName || '—'}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        line.type === 'WITHDRAWAL' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                      }`}
+                    >
+                      {line.type === 'WITHDRAWAL' ? 'Withdrawal' : 'Investment'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right">{formatCurrency(line.amount)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    {line.voucherId ? (
+                      <Link href={`/dashboard/vouchers/${line.voucherId}`} className="text-blue-600 hover:text-blue-800">
+                        {line.voucherNo}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-400">Not posted</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">{line.note || '—'}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
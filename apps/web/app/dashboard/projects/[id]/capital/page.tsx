@@ -0,0 +1,66 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import DashboardLayout from '../../../components/DashboardLayout';
+import Link from 'next/link';
+import { parseDateRange } from '@/lib/print/range';
+import { getProjectCapitalStatement } from '@/lib/investments/capitalStatement.server';
+import CapitalStatementClient from './components/CapitalStatementClient';
+
+export default async function ProjectCapitalPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { from?: string; to?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: params.id,
+      companyId: auth.companyId,
+    },
+    select: { id: true, name: true },
+  });
+
+  if (!project) {
+    redirect('/dashboard/projects');
+  }
+
+  // Project to date unless a range is given
+  const today = new Date();
+  today.setHours(23, 59, 59, 999);
+  const range = parseDateRange(new URLSearchParams(searchParams as Record<string, string>)) ?? {
+    from: new Date(0),
+    to: today,
+  };
+
+  const statement = await getProjectCapitalStatement(params.id, auth.companyId, range);
+
+  return (
+    <DashboardLayout
+      title={`Capital Statement - ${project.name}`}
+      actions={
+        <Link
+          href={`/dashboard/projects/${params.id}`}
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back to Project
+        </Link>
+      }
+    >
+      <CapitalStatementClient
+        projectId={params.id}
+        statement={statement}
+        from={searchParams.from ?? ''}
+        to={searchParams.to ?? ''}
+      />
+    </DashboardLayout>
+  );
+}
@@ -19,6 +19,25 @@ interface ProjectTotals {
   credit: number;
 }
 
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+interface PendingRequisition {
+  id: string;
+  requiredDate: string | null;
+  createdAt: string;
+  requestedBy: { id: string; name: string };
+  lines: Array<{
+    id: string;
+    requestedQty: string;
+    stockItem: { id: string; name: string; unit: string };
+  }>;
+}
+
 interface ProjectDashboardClientProps {
   projectId: string;
   projectName: string;
@@ -34,11 +53,29 @@ export default function ProjectDashboardClient({
   const [error, setError] = useState<string | null>(null);
   const [showInvestmentModal, setShowInvestmentModal] = useState(false);
   const [showLaborPopover, setShowLaborPopover] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [pendingRequisitions, setPendingRequisitions] = useState<PendingRequisition[]>([]);
 
   useEffect(() => {
     loadTotals();
   }, [projectId]);
 
+  useEffect(() => {
+    fetch(`/api/stock/requisitions?projectId=${projectId}&status=PENDING`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setPendingRequisitions(data.data || []);
+      });
+  }, [projectId]);
+
+  useEffect(() => {
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setAccounts(data.data || []);
+      });
+  }, []);
+
   const loadTotals = async () => {
     try {
       setLoading(true);
@@ -84,8 +121,12 @@ export default function ProjectDashboardClient({
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const data = {
+      type: formData.get('type'),
+      investorName: formData.get('investorName') || null,
       date: formData.get('date'),
       amount: parseFloat(formData.get('amount') as string),
+      paymentAccountId: formData.get('paymentAccountId') || null,
+      equityAccountId: formData.get('equityAccountId') || null,
       note: formData.get('note') || null,
     };
 
@@ -168,7 +209,16 @@ export default function ProjectDashboardClient({
             </div>
             <div className="text-purple-500 text-3xl">💰</div>
           </div>
-          <p className="text-xs text-gray-400 mt-2">Click to add investment</p>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-gray-400">Click to add investment or withdrawal</p>
+            <Link
+              href={`/dashboard/projects/${projectId}/capital`}
+              onClick={(e) => e.stopPropagation()}
+              className="text-xs text-purple-600 hover:text-purple-800"
+            >
+              Capital statement
+            </Link>
+          </div>
         </div>
 
         {/* Total Labor — drill-down popover */}
@@ -246,12 +296,74 @@ export default function ProjectDashboardClient({
         </Link>
       </div>
 
+      {/* Pending Requisitions */}
+      <div className="bg-white rounded-lg shadow-md mb-8">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Pending Requisitions {pendingRequisitions.length > 0 && `(${pendingRequisitions.length})`}
+          </h2>
+          <Link
+            href={`/dashboard/stock/requisitions?projectId=${projectId}`}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            All requisitions
+          </Link>
+        </div>
+        {pendingRequisitions.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No material requisitions waiting for approval</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {pendingRequisitions.map((requisition) => (
+              <li key={requisition.id} className="px-6 py-3 text-sm">
+                <div className="flex justify-between text-gray-500">
+                  <span>
+                    {new Date(requisition.createdAt).toLocaleDateString()} by {requisition.requestedBy.name}
+                  </span>
+                  {requisition.requiredDate && (
+                    <span>Needed {new Date(requisition.requiredDate).toLocaleDateString()}</span>
+                  )}
+                </div>
+                <div className="text-gray-900">
+                  {requisition.lines
+                    .map((line) => `${line.stockItem.name} ${Number(line.requestedQty).toFixed(3)} ${line.stockItem.unit}`)
+                    .join(', ')}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* Investment Modal */}
       {showInvestmentModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
             <h2 className="text-xl font-bold mb-4">Add Investment</h2>
             <form onSubmit={handleInvestmentSubmit}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  name="type"
+                  defaultValue="INVESTMENT"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="INVESTMENT">Investment (money in)</option>
+                  <option value="WITHDRAWAL">Withdrawal (money out)</option>
+                </select>
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Investor
+                </label>
+                <input
+                  type="text"
+                  name="investorName"
+                  placeholder="Investor / partner name"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Date
@@ -277,6 +389,38 @@ export default function ProjectDashboardClient({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 />
               </div>
+              <div className="mb-4 grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Cash/Bank
+                  </label>
+                  <select name="paymentAccountId" className="w-full px-3 py-2 border border-gray-300 rounded-md">
+                    <option value="">Cash (default)</option>
+                    {accounts
+                      .filter((account) => account.type === 'ASSET')
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.code} - {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Equity Account
+                  </label>
+                  <select name="equityAccountId" className="w-full px-3 py-2 border border-gray-300 rounded-md">
+                    <option value="">Capital (default)</option>
+                    {accounts
+                      .filter((account) => account.type === 'EQUITY')
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.code} - {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Note (optional)
@@ -292,7 +436,7 @@ export default function ProjectDashboardClient({
                   type="submit"
                   className="flex-1 bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700"
                 >
-                  Add Investment
+                  Save
                 </button>
                 <button
                   type="button"
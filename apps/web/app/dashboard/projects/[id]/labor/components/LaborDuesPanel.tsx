@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface TeamLeaderDue {
+  teamLeader: string | null;
+  entries: number;
+  amount: number;
+  paid: number;
+  due: number;
+  lastPaymentDate: string | null;
+}
+
+interface LaborPayment {
+  id: string;
+  teamLeader: string | null;
+  date: string;
+  amount: string | number;
+  reference: string | null;
+  voucher: { id: string; voucherNo: string; status: string };
+  paymentAccount: { code: string; name: string };
+  paymentMethod: { name: string } | null;
+  allocations: Array<{ id: string; laborId: string; amount: string | number }>;
+}
+
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
+interface PaymentMethod {
+  id: string;
+  name: string;
+}
+
+interface LaborDuesPanelProps {
+  projectId: string;
+  refreshKey: number;
+  onPaymentsChanged: () => void;
+}
+
+const emptyPaymentForm = (teamLeader: string | null) => ({
+  teamLeader,
+  date: new Date().toISOString().split('T')[0],
+  amount: '',
+  paymentAccountId: '',
+  paymentMethodId: '',
+  reference: '',
+  note: '',
+});
+
+export default function LaborDuesPanel({ projectId, refreshKey, onPaymentsChanged }: LaborDuesPanelProps) {
+  const [dues, setDues] = useState<TeamLeaderDue[]>([]);
+  const [payments, setPayments] = useState<LaborPayment[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [paying, setPaying] = useState<ReturnType<typeof emptyPaymentForm> | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [statementRange, setStatementRange] = useState(() => {
+    const now = new Date();
+    return {
+      from: new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0],
+      to: now.toISOString().split('T')[0],
+    };
+  });
+
+  const loadDues = async () => {
+    try {
+      const [duesRes, paymentsRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/labor-dues`),
+        fetch(`/api/projects/${projectId}/labor-payments`),
+      ]);
+      const [duesData, paymentsData] = await Promise.all([duesRes.json(), paymentsRes.json()]);
+      if (duesData.ok) setDues(duesData.data);
+      if (paymentsData.ok) setPayments(paymentsData.data);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    loadDues();
+  }, [projectId, refreshKey]);
+
+  useEffect(() => {
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setAccounts((data.data || []).filter((a: Account) => a.type === 'ASSET'));
+      });
+    fetch('/api/payment-methods?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setPaymentMethods(data.data || []);
+      });
+  }, []);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paying) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labor-payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          teamLeader: paying.teamLeader,
+          date: paying.date,
+          amount: parseFloat(paying.amount),
+          paymentAccountId: paying.paymentAccountId || null,
+          paymentMethodId: paying.paymentMethodId || null,
+          reference: paying.reference || null,
+          note: paying.note || null,
+        }),
+      });
+      const result = await response.json();
+      if (result.ok) {
+        setPaying(null);
+        loadDues();
+        onPaymentsChanged();
+      } else {
+        alert(result.error || 'Failed to record payment');
+      }
+    } catch (err) {
+      alert('Failed to record payment');
+    }
+  };
+
+  const handleDeletePayment = async (payment: LaborPayment) => {
+    if (!confirm('Delete this payment? Its voucher will be reversed and the amount added back to the dues.')) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labor-payments/${payment.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.ok) {
+        loadDues();
+        onPaymentsChanged();
+      } else {
+        alert(result.error || 'Failed to delete payment');
+      }
+    } catch (err) {
+      alert('Failed to delete payment');
+    }
+  };
+
+  const openStatement = (teamLeader: string | null) => {
+    const params = new URLSearchParams({ from: statementRange.from, to: statementRange.to });
+    if (teamLeader) params.set('teamLeader', teamLeader);
+    window.open(`/print/projects/${projectId}/labor-dues?${params.toString()}`, '_blank');
+  };
+
+  if (dues.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg">
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-medium text-gray-900">Outstanding by Team Leader</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-500">Statement period</span>
+          <input
+            type="date"
+            value={statementRange.from}
+            onChange={(e) => setStatementRange((r) => ({ ...r, from: e.target.value }))}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={statementRange.to}
+            onChange={(e) => setStatementRange((r) => ({ ...r, to: e.target.value }))}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Team Leader</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Entries</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Payment</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {dues.map((row) => (
+            <tr key={row.teamLeader ?? '__unassigned'}>
+              <td className="px-4 py-2 text-sm text-gray-900">{row.teamLeader ?? 'Unassigned'}</td>
+              <td className="px-4 py-2 text-sm text-gray-600 text-right">{row.entries}</td>
+              <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatCurrency(row.amount)}</td>
+              <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatCurrency(row.paid)}</td>
+              <td className="px-4 py-2 text-sm font-medium text-right text-red-600">{formatCurrency(row.due)}</td>
+              <td className="px-4 py-2 text-sm text-gray-600">
+                {row.lastPaymentDate ? new Date(row.lastPaymentDate).toLocaleDateString() : '—'}
+              </td>
+              <td className="px-4 py-2 space-x-3">
+                {row.due > 0 && row.teamLeader && (
+                  <button
+                    type="button"
+                    onClick={() => setPaying(emptyPaymentForm(row.teamLeader))}
+                    className="text-green-600 hover:text-green-800 text-sm font-medium"
+                  >
+                    Pay
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => openStatement(row.teamLeader)}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  Statement
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {paying && (
+        <div className="p-4 bg-gray-50 border-t border-gray-200">
+          <h4 className="font-medium mb-3">Pay {paying.teamLeader}</h4>
+          <form onSubmit={handlePay} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                <input
+                  type="date"
+                  value={paying.date}
+                  onChange={(e) => setPaying((p) => p && { ...p, date: e.target.value })}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount (৳)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paying.amount}
+                  onChange={(e) => setPaying((p) => p && { ...p, amount: e.target.value })}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                <input
+                  type="text"
+                  value={paying.reference}
+                  onChange={(e) => setPaying((p) => p && { ...p, reference: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Paid from</label>
+                <select
+                  value={paying.paymentAccountId}
+                  onChange={(e) => setPaying((p) => p && { ...p, paymentAccountId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Cash (default)</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment Method</label>
+                <select
+                  value={paying.paymentMethodId}
+                  onChange={(e) => setPaying((p) => p && { ...p, paymentMethodId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">—</option>
+                  {paymentMethods.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {method.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">The payment settles the oldest dues first.</p>
+            <div className="flex gap-2">
+              <button type="submit" className="py-2 px-4 bg-green-600 text-white rounded-md hover:bg-green-700">
+                Record Payment
+              </button>
+              <button
+                type="button"
+                onClick={() => setPaying(null)}
+                className="py-2 px-4 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {payments.length > 0 && (
+        <div className="border-t border-gray-200">
+          <button
+            type="button"
+            onClick={() => setShowHistory((v) => !v)}
+            className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showHistory ? 'Hide' : 'Show'} payment history ({payments.length})
+          </button>
+          {showHistory && (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Team Leader</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Paid From</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entries</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {payments.map((payment) => (
+                  <tr key={payment.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{new Date(payment.date).toLocaleDateString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{payment.teamLeader ?? '—'}</td>
+                    <td className="px-4 py-2 text-sm text-right font-medium">
+                      {formatCurrency(Number(payment.amount))}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      {payment.paymentAccount.code} - {payment.paymentAccount.name}
+                      {payment.paymentMethod && ` · ${payment.paymentMethod.name}`}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{payment.allocations.length}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        href={`/dashboard/vouchers/${payment.voucher.id}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {payment.voucher.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2">
+                      <button
+                        type="button"
+                        onClick={() => handleDeletePayment(payment)}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
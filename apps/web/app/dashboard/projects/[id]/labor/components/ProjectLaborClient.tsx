@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import LaborDuesPanel from './LaborDuesPanel';
 
 type LaborType = 'DAY' | 'MONTHLY';
 
@@ -19,9 +20,18 @@ interface LaborEntry {
   paid: { toNumber?: () => number } | null;
   due: { toNumber?: () => number } | null;
   rating: number | null;
+  paymentAccountId: string | null;
+  voucher?: { id: string; voucherNo: string; status: string } | null;
   createdBy?: { name: string | null };
 }
 
+interface Account {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+}
+
 interface ProjectLaborClientProps {
   projectId: string;
   projectName: string;
@@ -42,6 +52,7 @@ export default function ProjectLaborClient({
     totalPages: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [duesRefreshKey, setDuesRefreshKey] = useState(0);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
@@ -55,7 +66,9 @@ export default function ProjectLaborClient({
     teamLeader: '',
     paid: '0',
     rating: '' as string | number,
+    paymentAccountId: '',
   });
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   const loadLabors = async (page = 1) => {
     try {
@@ -69,6 +82,7 @@ export default function ProjectLaborClient({
       const data = await response.json();
       if (data.ok) {
         setLabors(data.data);
+        setDuesRefreshKey((key) => key + 1);
         setTotals(data.totals || { total: 0 });
         setPagination((prev) => ({
           ...prev,
@@ -88,6 +102,14 @@ export default function ProjectLaborClient({
     loadLabors(pagination.page);
   }, [projectId, laborType]);
 
+  useEffect(() => {
+    fetch('/api/chart-of-accounts?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) setAccounts((data.data || []).filter((a: Account) => a.type === 'ASSET'));
+      });
+  }, []);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-BD', {
       style: 'currency',
@@ -113,6 +135,7 @@ export default function ProjectLaborClient({
       date: formData.date,
       amount: parseFloat(formData.amount),
       note: formData.note || null,
+      paymentAccountId: formData.paymentAccountId || null,
     };
     if (laborType === 'DAY') {
       payload.workerName = formData.workerName || null;
@@ -145,6 +168,7 @@ export default function ProjectLaborClient({
           teamLeader: '',
           paid: '0',
           rating: '',
+          paymentAccountId: '',
         });
         loadLabors(pagination.page);
       } else {
@@ -168,6 +192,7 @@ export default function ProjectLaborClient({
       teamLeader: entry.teamLeader ?? '',
       paid: String(decimalNum(entry.paid)),
       rating: entry.rating ?? '',
+      paymentAccountId: entry.paymentAccountId ?? '',
     });
   };
 
@@ -178,6 +203,7 @@ export default function ProjectLaborClient({
       date: formData.date,
       amount: parseFloat(formData.amount),
       note: formData.note || null,
+      paymentAccountId: formData.paymentAccountId || null,
     };
     if (laborType === 'DAY') {
       payload.workerName = formData.workerName || null;
@@ -210,6 +236,7 @@ export default function ProjectLaborClient({
           teamLeader: '',
           paid: '0',
           rating: '',
+          paymentAccountId: '',
         });
         loadLabors(pagination.page);
       } else {
@@ -220,6 +247,23 @@ export default function ProjectLaborClient({
     }
   };
 
+  const handleDelete = async (entry: LaborEntry) => {
+    if (!confirm('Delete this entry? Its vouchers will be reversed.')) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labors/${entry.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (result.ok) {
+        loadLabors(pagination.page);
+      } else {
+        alert(result.error || 'Failed to delete labor entry');
+      }
+    } catch (err) {
+      alert('Failed to delete labor entry');
+    }
+  };
+
   return (
     <div>
       <div className="mb-4 flex items-center justify-between">
@@ -242,6 +286,7 @@ export default function ProjectLaborClient({
               teamLeader: '',
               paid: '0',
               rating: '',
+              paymentAccountId: '',
             });
             setShowForm(true);
           }}
@@ -251,6 +296,14 @@ export default function ProjectLaborClient({
         </button>
       </div>
 
+      {laborType === 'DAY' && (
+        <LaborDuesPanel
+          projectId={projectId}
+          refreshKey={duesRefreshKey}
+          onPaymentsChanged={() => loadLabors(pagination.page)}
+        />
+      )}
+
       {(showForm || editingId) && (
         <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
           <h3 className="font-medium mb-3">
@@ -388,6 +441,24 @@ export default function ProjectLaborClient({
                 </div>
               </>
             )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Paid from</label>
+              <select
+                value={formData.paymentAccountId}
+                onChange={(e) => setFormData((d) => ({ ...d, paymentAccountId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Cash (default)</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.code} - {account.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Posted as Dr Direct Labor / Cr this account for the paid part / Cr Labor Payable for the due.
+              </p>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
               <textarea
@@ -446,6 +517,7 @@ export default function ProjectLaborClient({
                   </>
                 )}
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
               </tr>
             </thead>
@@ -484,7 +556,19 @@ export default function ProjectLaborClient({
                       </>
                     )}
                     <td className="px-4 py-2 text-sm text-gray-500">{entry.note ?? '—'}</td>
-                    <td className="px-4 py-2">
+                    <td className="px-4 py-2 text-sm">
+                      {entry.voucher ? (
+                        <Link
+                          href={`/dashboard/vouchers/${entry.voucher.id}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {entry.voucher.voucherNo}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 space-x-3">
                       <button
                         type="button"
                         onClick={() => openEdit(entry)}
@@ -492,6 +576,13 @@ export default function ProjectLaborClient({
                       >
                         Edit
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium"
+                      >
+                        Delete
+                      </button>
                     </td>
                   </tr>
                 );
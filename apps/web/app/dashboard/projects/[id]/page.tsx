@@ -59,6 +59,12 @@ export default async function ProjectViewPage({
           >
             Cost Summary
           </Link>
+          <Link
+            href={`/dashboard/projects/${params.id}/bills`}
+            className="py-2 px-4 border border-purple-300 rounded-md shadow-sm text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100"
+          >
+            Client Bills
+          </Link>
           <ProjectStatementActions projectId={params.id} projectName={project.name} />
         </div>
       }
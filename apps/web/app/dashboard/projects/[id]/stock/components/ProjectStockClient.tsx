@@ -71,6 +71,26 @@ interface ProjectStockOverview {
   items: ProjectStockItemBreakdown[];
 }
 
+interface StockTransfer {
+  id: string;
+  status: 'IN_TRANSIT' | 'RECEIVED';
+  transferDate: string;
+  receivedAt: string | null;
+  notes: string | null;
+  sourceProject: { id: string; name: string };
+  destinationProject: { id: string; name: string };
+  voucher: { id: string; voucherNo: string } | null;
+  items: Array<{
+    stockItemId: string;
+    stockItemName: string;
+    stockItemUnit: string;
+    qty: number;
+    unitCost: number;
+    value: number;
+  }>;
+  totalValue: number;
+}
+
 interface ProjectStockClientProps {
   projectId: string;
   projectName: string;
@@ -88,6 +108,10 @@ export default function ProjectStockClient({
   const [showWastageModal, setShowWastageModal] = useState(false);
   const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
   const [showMovementHistory, setShowMovementHistory] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [selectedItemId, setSelectedItemId] = useState<string>('');
   
@@ -103,8 +127,15 @@ export default function ProjectStockClient({
   useEffect(() => {
     loadOverview();
     loadStockItems();
+    loadTransfers();
   }, [projectId]);
 
+  useEffect(() => {
+    if (showTransferModal && projects.length === 0) {
+      loadProjects();
+    }
+  }, [showTransferModal]);
+
   useEffect(() => {
     if (showOpeningModal) {
       checkExistingOpeningStock();
@@ -253,6 +284,34 @@ export default function ProjectStockClient({
     }
   };
 
+  const loadTransfers = async () => {
+    try {
+      const res = await fetch(`/api/stock/transfers?projectId=${projectId}`);
+      const data = await res.json();
+      if (data.ok) {
+        setTransfers(data.data ?? []);
+      }
+    } catch {
+      // Silently fail
+    }
+  };
+
+  const loadProjects = async () => {
+    try {
+      const res = await fetch('/api/projects?active=true');
+      const data = await res.json();
+      if (data.ok) {
+        setProjects(
+          (data.data ?? [])
+            .filter((project: { id: string }) => project.id !== projectId)
+            .map((project: { id: string; name: string }) => ({ id: project.id, name: project.name }))
+        );
+      }
+    } catch {
+      // Silently fail
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-BD', {
       style: 'currency',
@@ -553,6 +612,103 @@ export default function ProjectStockClient({
     }
   };
 
+  const handleTransferSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const data = {
+      sourceProjectId: projectId,
+      destinationProjectId: formData.get('destinationProjectId'),
+      transferDate: formData.get('transferDate') || new Date().toISOString().split('T')[0],
+      inTransit: formData.get('inTransit') === 'on',
+      notes: formData.get('notes') || null,
+      items: [
+        {
+          stockItemId: formData.get('stockItemId'),
+          qty: parseFloat(formData.get('qty') as string),
+        },
+      ],
+    };
+
+    try {
+      const response = await fetch('/api/stock/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        setShowTransferModal(false);
+        loadOverview();
+        loadTransfers();
+        (e.target as HTMLFormElement).reset();
+      } else {
+        alert(result.error || 'Failed to transfer stock');
+      }
+    } catch (err) {
+      alert('Failed to transfer stock');
+    }
+  };
+
+  const handleReturnSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const data = {
+      projectId,
+      returnDate: formData.get('returnDate') || new Date().toISOString().split('T')[0],
+      reason: formData.get('reason') || null,
+      lines: [
+        {
+          stockItemId: formData.get('stockItemId'),
+          qty: parseFloat(formData.get('qty') as string),
+        },
+      ],
+    };
+
+    try {
+      const response = await fetch('/api/stock/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        setShowReturnModal(false);
+        loadOverview();
+        (e.target as HTMLFormElement).reset();
+      } else {
+        alert(result.error || 'Failed to return material');
+      }
+    } catch (err) {
+      alert('Failed to return material');
+    }
+  };
+
+  const handleReceiveTransfer = async (transfer: StockTransfer) => {
+    if (!confirm(`Confirm receipt of the transfer from ${transfer.sourceProject.name}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/stock/transfers/${transfer.id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ receivedDate: new Date().toISOString().split('T')[0] }),
+      });
+
+      const result = await response.json();
+      if (result.ok) {
+        loadOverview();
+        loadTransfers();
+      } else {
+        alert(result.error || 'Failed to receive transfer');
+      }
+    } catch (err) {
+      alert('Failed to receive transfer');
+    }
+  };
+
   if (loading) {
     return <div className="text-center py-8">Loading stock overview...</div>;
   }
@@ -633,6 +789,18 @@ export default function ProjectStockClient({
         >
           Wastage / Adjustment
         </button>
+        <button
+          onClick={() => setShowTransferModal(true)}
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Transfer Stock
+        </button>
+        <button
+          onClick={() => setShowReturnModal(true)}
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Return to Store
+        </button>
         <button
           onClick={() => setShowMovementHistory(!showMovementHistory)}
           className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
@@ -741,6 +909,89 @@ export default function ProjectStockClient({
         </div>
       </div>
 
+      {/* Transfers Section */}
+      {transfers.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Transfers</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Direction</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transfers.map((transfer) => {
+                  const isIncoming = transfer.destinationProject.id === projectId;
+                  return (
+                    <tr key={transfer.id}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(transfer.transferDate).toLocaleDateString('en-BD')}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {isIncoming ? `From ${transfer.sourceProject.name}` : `To ${transfer.destinationProject.name}`}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        {transfer.items.map((item) => (
+                          <div key={item.stockItemId}>
+                            {item.stockItemName}: {formatNumber(item.qty)} {item.stockItemUnit}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">
+                        {formatCurrency(transfer.totalValue)}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">
+                        {transfer.status === 'IN_TRANSIT' ? (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                            In Transit
+                          </span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                            Received
+                            {transfer.receivedAt && ` ${new Date(transfer.receivedAt).toLocaleDateString('en-BD')}`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">
+                        {transfer.voucher ? (
+                          <Link
+                            href={`/dashboard/vouchers/${transfer.voucher.id}`}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {transfer.voucher.voucherNo}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right">
+                        {isIncoming && transfer.status === 'IN_TRANSIT' && (
+                          <button
+                            onClick={() => handleReceiveTransfer(transfer)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Confirm Receipt
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Movement History Section */}
       {showMovementHistory && (
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -1042,6 +1293,207 @@ export default function ProjectStockClient({
         </Modal>
       )}
 
+      {/* Transfer Modal */}
+      {showTransferModal && (
+        <Modal
+          title="Transfer Stock"
+          onClose={() => setShowTransferModal(false)}
+        >
+          <form onSubmit={handleTransferSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                From
+              </label>
+              <input
+                type="text"
+                value={projectName}
+                disabled
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                To Project *
+              </label>
+              <select
+                name="destinationProjectId"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select project...</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Stock Item *
+              </label>
+              <select
+                name="stockItemId"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select item...</option>
+                {overview.items
+                  .filter((item) => item.remainingQty > 0)
+                  .map((item) => (
+                    <option key={item.stockItemId} value={item.stockItemId}>
+                      {item.stockItemName} ({formatNumber(item.remainingQty)} {item.stockItemUnit} @{' '}
+                      {formatCurrency(item.avgRate)})
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Quantity *
+              </label>
+              <input
+                type="number"
+                name="qty"
+                required
+                step="0.001"
+                min="0.001"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date *
+              </label>
+              <input
+                type="date"
+                name="transferDate"
+                required
+                defaultValue={new Date().toISOString().split('T')[0]}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" name="inTransit" className="mr-2" />
+              In transit — the destination confirms receipt before the stock is available there
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Remarks
+              </label>
+              <textarea
+                name="notes"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Transferred at this project&apos;s weighted average rate; the cost moves to the destination project.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+              >
+                Transfer Stock
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowTransferModal(false)}
+                className="flex-1 bg-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </Modal>
+      )}
+
+      {/* Return to Store Modal */}
+      {showReturnModal && (
+        <Modal
+          title="Return to Store"
+          onClose={() => setShowReturnModal(false)}
+        >
+          <form onSubmit={handleReturnSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Stock Item *
+              </label>
+              <select
+                name="stockItemId"
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select item...</option>
+                {overview.items
+                  .filter((item) => item.remainingQty > 0)
+                  .map((item) => (
+                    <option key={item.stockItemId} value={item.stockItemId}>
+                      {item.stockItemName} ({formatNumber(item.remainingQty)} {item.stockItemUnit} @{' '}
+                      {formatCurrency(item.avgRate)})
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Quantity *
+              </label>
+              <input
+                type="number"
+                name="qty"
+                required
+                step="0.001"
+                min="0.001"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date *
+              </label>
+              <input
+                type="date"
+                name="returnDate"
+                required
+                defaultValue={new Date().toISOString().split('T')[0]}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <textarea
+                name="reason"
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Unused material goes back to the central store at this project&apos;s weighted average rate.
+              To send material back to the supplier, use Return to Vendor on the purchase.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+              >
+                Return to Store
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowReturnModal(false)}
+                className="flex-1 bg-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </Modal>
+      )}
+
       {/* Wastage Modal */}
       {showWastageModal && (
         <Modal
@@ -0,0 +1,528 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { STATUS_COLORS, STATUS_LABELS } from '../../components/PurchaseOrdersClient';
+
+type PurchaseOrderStatus = 'OPEN' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CLOSED' | 'CANCELLED';
+
+interface PurchaseOrderLine {
+  id: string;
+  description: string | null;
+  unitRate: string;
+  amount: string;
+  orderedQty: number;
+  receivedQty: number;
+  billedQty: number;
+  openQty: number;
+  unbilledQty: number;
+  stockItem: { id: string; name: string; unit: string };
+}
+
+interface GoodsReceipt {
+  id: string;
+  grnNo: string;
+  receiptDate: string;
+  challanNo: string | null;
+  notes: string | null;
+  warehouse: { id: string; name: string } | null;
+  createdBy: { id: string; name: string };
+  lines: Array<{ id: string; purchaseOrderLineId: string; qty: string }>;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNo: string;
+  orderDate: string;
+  expectedDate: string | null;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  total: string;
+  project: { id: string; name: string };
+  vendor: { id: string; name: string };
+  createdBy: { id: string; name: string };
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+  bills: Array<{ id: string; date: string; challanNo: string | null; status: string; total: string }>;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface PurchaseOrderDetailClientProps {
+  purchaseOrderId: string;
+  canWrite: boolean;
+}
+
+export default function PurchaseOrderDetailClient({ purchaseOrderId, canWrite }: PurchaseOrderDetailClientProps) {
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [receipt, setReceipt] = useState({
+    receiptDate: new Date().toISOString().split('T')[0],
+    challanNo: '',
+    warehouseId: '',
+    notes: '',
+    qtys: {} as Record<string, string>,
+  });
+
+  const fetchOrder = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}`);
+      const data = await response.json();
+      if (data.ok) {
+        setOrder(data.data);
+      } else {
+        alert(data.error || 'Failed to load purchase order');
+      }
+    } catch (error) {
+      console.error('Failed to fetch purchase order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrder();
+
+    if (canWrite) {
+      fetch('/api/stock/warehouses')
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.ok) {
+            setWarehouses(data.data);
+          }
+        });
+    }
+  }, [purchaseOrderId]);
+
+  const openReceipt = () => {
+    if (!order) return;
+    setReceipt({
+      receiptDate: new Date().toISOString().split('T')[0],
+      challanNo: '',
+      warehouseId: '',
+      notes: '',
+      qtys: Object.fromEntries(order.lines.map((line) => [line.id, line.openQty > 0 ? line.openQty.toString() : ''])),
+    });
+    setShowReceipt(true);
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const lines = order.lines
+      .map((line) => ({ purchaseOrderLineId: line.id, qty: parseFloat(receipt.qtys[line.id] || '0') || 0 }))
+      .filter((line) => line.qty > 0);
+    if (lines.length === 0) {
+      alert('Enter the quantity received for at least one item');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          receiptDate: receipt.receiptDate,
+          challanNo: receipt.challanNo || null,
+          warehouseId: receipt.warehouseId || null,
+          notes: receipt.notes || null,
+          lines,
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowReceipt(false);
+        await fetchOrder();
+      } else {
+        alert(data.error || 'Failed to record goods receipt');
+      }
+    } catch (error) {
+      alert('An error occurred while recording the goods receipt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateBill = async () => {
+    if (!order) return;
+    const challanNo = prompt('Vendor invoice / challan number (optional):', '');
+    if (challanNo === null) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/bill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challanNo: challanNo || null }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        window.location.href = `/dashboard/purchases/${data.data.id}`;
+      } else {
+        alert(data.error || 'Failed to create bill');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the bill');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatus = async (action: 'CLOSE' | 'CANCEL') => {
+    if (!order) return;
+    const message =
+      action === 'CLOSE'
+        ? 'Close this order? Quantities not yet delivered will no longer be expected.'
+        : 'Cancel this purchase order?';
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        await fetchOrder();
+      } else {
+        alert(data.error || 'Failed to update purchase order');
+      }
+    } catch (error) {
+      alert('An error occurred while updating the purchase order');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '-';
+  };
+
+  if (isLoading && !order) {
+    return <div className="bg-white p-6 rounded-lg shadow text-center text-gray-500">Loading...</div>;
+  }
+  if (!order) {
+    return <div className="bg-white p-6 rounded-lg shadow text-center text-gray-500">Purchase order not found</div>;
+  }
+
+  const isReceivable = order.status === 'OPEN' || order.status === 'PARTIALLY_RECEIVED';
+  const hasUnbilled = order.status !== 'CANCELLED' && order.lines.some((line) => line.unbilledQty > 0);
+  const lineNames = new Map(order.lines.map((line) => [line.id, line.stockItem]));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium">{order.poNo}</h2>
+            <p className="text-sm text-gray-500">
+              {order.vendor.name} - {order.project.name}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STATUS_COLORS[order.status]}`}>
+              {STATUS_LABELS[order.status]}
+            </span>
+            {canWrite && isReceivable && (
+              <button
+                onClick={openReceipt}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                Receive Goods
+              </button>
+            )}
+            {canWrite && hasUnbilled && (
+              <button
+                onClick={handleCreateBill}
+                disabled={isSaving}
+                className="py-2 px-4 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              >
+                Create Bill
+              </button>
+            )}
+            {canWrite && isReceivable && (
+              <button
+                onClick={() => handleStatus(order.receipts.length > 0 ? 'CLOSE' : 'CANCEL')}
+                className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {order.receipts.length > 0 ? 'Close Order' : 'Cancel Order'}
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <label className="font-medium text-gray-500">Order Date</label>
+            <p className="mt-1 text-gray-900">{formatDate(order.orderDate)}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Expected Delivery</label>
+            <p className="mt-1 text-gray-900">{formatDate(order.expectedDate)}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Raised By</label>
+            <p className="mt-1 text-gray-900">{order.createdBy.name}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Total</label>
+            <p className="mt-1 font-semibold text-gray-900">{formatCurrency(Number(order.total))}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Notes</label>
+            <p className="mt-1 text-gray-900">{order.notes || '-'}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">Items</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Open</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Billed</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {order.lines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {line.stockItem.name} ({line.stockItem.unit})
+                    {line.description && <div className="text-xs text-gray-500">{line.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCurrency(Number(line.unitRate))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.orderedQty.toFixed(3)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.receivedQty.toFixed(3)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                    {line.openQty.toFixed(3)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.billedQty.toFixed(3)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCurrency(Number(line.amount))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showReceipt && (
+        <form onSubmit={handleReceive} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-medium">Goods Receipt</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Receipt Date *</label>
+              <input
+                type="date"
+                required
+                value={receipt.receiptDate}
+                onChange={(e) => setReceipt({ ...receipt, receiptDate: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Vendor Challan No</label>
+              <input
+                type="text"
+                value={receipt.challanNo}
+                onChange={(e) => setReceipt({ ...receipt, challanNo: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Receive Into</label>
+              <select
+                value={receipt.warehouseId}
+                onChange={(e) => setReceipt({ ...receipt, warehouseId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Automatic (project site store or central store)</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={receipt.notes}
+                onChange={(e) => setReceipt({ ...receipt, notes: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Open</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received Now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {order.lines
+                .filter((line) => line.openQty > 0)
+                .map((line) => (
+                  <tr key={line.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{line.stockItem.name}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">
+                      {line.openQty.toFixed(3)} {line.stockItem.unit}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={line.openQty}
+                        step="0.001"
+                        value={receipt.qtys[line.id] ?? ''}
+                        onChange={(e) =>
+                          setReceipt({ ...receipt, qtys: { ...receipt.qtys, [line.id]: e.target.value } })
+                        }
+                        className="w-32 px-3 py-1 border border-gray-300 rounded-md text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Record Receipt'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowReceipt(false)}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">Goods Receipts</h2>
+        {order.receipts.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing received yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">GRN No</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Challan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Received By</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {order.receipts.map((goodsReceipt) => (
+                  <tr key={goodsReceipt.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{goodsReceipt.grnNo}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(goodsReceipt.receiptDate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {goodsReceipt.challanNo || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {goodsReceipt.warehouse?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {goodsReceipt.lines.map((line) => {
+                        const item = lineNames.get(line.purchaseOrderLineId);
+                        return (
+                          <div key={line.id}>
+                            {item?.name ?? 'Item'}: {Number(line.qty).toFixed(3)} {item?.unit ?? ''}
+                          </div>
+                        );
+                      })}
+                      {goodsReceipt.notes && <div className="text-xs text-gray-500">{goodsReceipt.notes}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{goodsReceipt.createdBy.name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">Bills</h2>
+        {order.bills.length === 0 ? (
+          <p className="text-sm text-gray-500">No bills raised against this order.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Challan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {order.bills.map((bill) => (
+                  <tr key={bill.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link href={`/dashboard/purchases/${bill.id}`} className="text-blue-600 hover:underline">
+                        {formatDate(bill.date)}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{bill.challanNo || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{bill.status}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(Number(bill.total))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import PurchaseOrderDetailClient from './components/PurchaseOrderDetailClient';
+
+export default async function PurchaseOrderDetailPage({ params }: { params: { id: string } }) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('purchases', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'purchases', 'WRITE');
+
+  return (
+    <DashboardLayout title="Purchase Order">
+      <PurchaseOrderDetailClient purchaseOrderId={params.id} canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,617 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type PurchaseOrderStatus = 'OPEN' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CLOSED' | 'CANCELLED';
+
+interface PurchaseOrderLine {
+  id: string;
+  orderedQty: number;
+  receivedQty: number;
+  billedQty: number;
+  openQty: number;
+  stockItem: { id: string; name: string; unit: string };
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNo: string;
+  orderDate: string;
+  expectedDate: string | null;
+  status: PurchaseOrderStatus;
+  total: string;
+  project: { id: string; name: string };
+  vendor: { id: string; name: string };
+  lines: PurchaseOrderLine[];
+}
+
+interface OpenQuantityLine {
+  purchaseOrderId: string;
+  poNo: string;
+  expectedDate: string | null;
+  projectName: string;
+  vendorName: string;
+  purchaseOrderLineId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  orderedQty: number;
+  receivedQty: number;
+  openQty: number;
+  unitRate: number;
+  openValue: number;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface PurchaseOrdersClientProps {
+  canWrite: boolean;
+  initialProjectId: string;
+}
+
+export const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  OPEN: 'Open',
+  PARTIALLY_RECEIVED: 'Partly received',
+  RECEIVED: 'Received',
+  CLOSED: 'Closed',
+  CANCELLED: 'Cancelled',
+};
+
+export const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  OPEN: 'bg-yellow-100 text-yellow-800',
+  PARTIALLY_RECEIVED: 'bg-blue-100 text-blue-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const emptyLine = { stockItemId: '', qty: '', unitRate: '', description: '' };
+
+export default function PurchaseOrdersClient({ canWrite, initialProjectId }: PurchaseOrdersClientProps) {
+  const [view, setView] = useState<'orders' | 'open'>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [openLines, setOpenLines] = useState<OpenQuantityLine[]>([]);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [vendors, setVendors] = useState<Option[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [projectId, setProjectId] = useState(initialProjectId);
+  const [vendorId, setVendorId] = useState('');
+  const [status, setStatus] = useState<PurchaseOrderStatus | ''>('');
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({
+    projectId: initialProjectId,
+    vendorId: '',
+    orderDate: new Date().toISOString().split('T')[0],
+    expectedDate: '',
+    notes: '',
+    lines: [{ ...emptyLine }],
+  });
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (projectId) params.append('projectId', projectId);
+      if (vendorId) params.append('vendorId', vendorId);
+
+      if (view === 'orders') {
+        if (status) params.append('status', status);
+        const response = await fetch(`/api/purchase-orders?${params.toString()}`);
+        const data = await response.json();
+        if (data.ok) {
+          setOrders(data.data);
+        } else {
+          alert(data.error || 'Failed to load purchase orders');
+        }
+      } else {
+        const response = await fetch(`/api/purchase-orders/open-quantities?${params.toString()}`);
+        const data = await response.json();
+        if (data.ok) {
+          setOpenLines(data.data);
+        } else {
+          alert(data.error || 'Failed to load open quantities');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch purchase orders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+
+    fetch('/api/vendors?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setVendors(data.data || []);
+        }
+      });
+
+    if (canWrite) {
+      fetch('/api/stock/items?pageSize=1000&isActive=true')
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.ok) {
+            setStockItems(data.data);
+          }
+        });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [view, projectId, vendorId, status]);
+
+  const updateLine = (index: number, field: keyof typeof emptyLine, value: string) => {
+    setFormData({
+      ...formData,
+      lines: formData.lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: formData.projectId,
+          vendorId: formData.vendorId,
+          orderDate: formData.orderDate,
+          expectedDate: formData.expectedDate || null,
+          notes: formData.notes || null,
+          lines: formData.lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            qty: parseFloat(line.qty),
+            unitRate: parseFloat(line.unitRate),
+            description: line.description || null,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        window.location.href = `/dashboard/purchase-orders/${data.data.id}`;
+      } else {
+        alert(data.error || 'Failed to create purchase order');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the purchase order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '-';
+  };
+
+  const formTotal = formData.lines.reduce(
+    (sum, line) => sum + (parseFloat(line.qty) || 0) * (parseFloat(line.unitRate) || 0),
+    0
+  );
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">View</label>
+            <select
+              value={view}
+              onChange={(e) => setView(e.target.value as 'orders' | 'open')}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="orders">Orders</option>
+              <option value="open">Open quantities</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vendor</label>
+            <select
+              value={vendorId}
+              onChange={(e) => setVendorId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Vendors</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {view === 'orders' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as PurchaseOrderStatus | '')}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Statuses</option>
+                {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((value) => (
+                  <option key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="md:ml-auto">
+            {canWrite && !showForm && (
+              <button
+                onClick={() => setShowForm(true)}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                New Purchase Order
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Goods are received into stock on goods receipt notes against the order. The vendor bill is drafted from what
+          was received and checked against the order rate and received quantity before it is posted.
+        </p>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Project *</label>
+              <select
+                required
+                value={formData.projectId}
+                onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Vendor *</label>
+              <select
+                required
+                value={formData.vendorId}
+                onChange={(e) => setFormData({ ...formData, vendorId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select vendor</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Order Date *</label>
+              <input
+                type="date"
+                required
+                value={formData.orderDate}
+                onChange={(e) => setFormData({ ...formData, orderDate: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Expected Delivery</label>
+              <input
+                type="date"
+                value={formData.expectedDate}
+                onChange={(e) => setFormData({ ...formData, expectedDate: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Items *</label>
+            {formData.lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <select
+                  required
+                  value={line.stockItemId}
+                  onChange={(e) => updateLine(index, 'stockItemId', e.target.value)}
+                  className="col-span-4 px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select item</option>
+                  {stockItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name} ({item.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  required
+                  min="0.001"
+                  step="0.001"
+                  placeholder="Qty"
+                  value={line.qty}
+                  onChange={(e) => updateLine(index, 'qty', e.target.value)}
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="0.01"
+                  placeholder="Rate"
+                  value={line.unitRate}
+                  onChange={(e) => updateLine(index, 'unitRate', e.target.value)}
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <input
+                  type="text"
+                  placeholder="Specification"
+                  value={line.description}
+                  onChange={(e) => updateLine(index, 'description', e.target.value)}
+                  className="col-span-3 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFormData({ ...formData, lines: formData.lines.filter((_, i) => i !== index) })
+                  }
+                  disabled={formData.lines.length === 1}
+                  className="col-span-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setFormData({ ...formData, lines: [...formData.lines, { ...emptyLine }] })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add item
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Create Purchase Order'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <span className="ml-auto text-sm font-medium text-gray-900">Total: {formatCurrency(formTotal)}</span>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          {view === 'orders' ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    PO No
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Project
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Vendor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                      Loading...
+                    </td>
+                  </tr>
+                ) : orders.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                      No purchase orders found
+                    </td>
+                  </tr>
+                ) : (
+                  orders.map((order) => (
+                    <tr key={order.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Link href={`/dashboard/purchase-orders/${order.id}`} className="text-blue-600 hover:underline">
+                          {order.poNo}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(order.orderDate)}
+                        {order.expectedDate && (
+                          <div className="text-xs text-gray-500">due {formatDate(order.expectedDate)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.project.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.vendor.name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {order.lines.map((line) => (
+                          <div key={line.id}>
+                            {line.stockItem.name}: {line.receivedQty.toFixed(3)} / {line.orderedQty.toFixed(3)}{' '}
+                            {line.stockItem.unit}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {formatCurrency(Number(order.total))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[order.status]}`}>
+                          {STATUS_LABELS[order.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    PO No
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Project / Vendor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Item
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ordered
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Open
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Open Value
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expected
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                      Loading...
+                    </td>
+                  </tr>
+                ) : openLines.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                      Nothing outstanding on open orders
+                    </td>
+                  </tr>
+                ) : (
+                  openLines.map((line) => (
+                    <tr key={line.purchaseOrderLineId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Link
+                          href={`/dashboard/purchase-orders/${line.purchaseOrderId}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {line.poNo}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {line.projectName}
+                        <div className="text-xs text-gray-500">{line.vendorName}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {line.stockItemName} ({line.stockItemUnit})
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.orderedQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.receivedQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {line.openQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(line.openValue)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(line.expectedDate)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../components/DashboardLayout';
+import PurchaseOrdersClient from './components/PurchaseOrdersClient';
+
+export default async function PurchaseOrdersPage({
+  searchParams,
+}: {
+  searchParams: { projectId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('purchases', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'purchases', 'WRITE');
+
+  return (
+    <DashboardLayout title="Purchase Orders">
+      <PurchaseOrdersClient canWrite={canWrite} initialProjectId={searchParams.projectId || ''} />
+    </DashboardLayout>
+  );
+}
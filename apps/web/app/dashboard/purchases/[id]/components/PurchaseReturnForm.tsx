@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ReturnableLine {
+  id: string;
+  name: string;
+  unit: string;
+  returnableQty: number;
+  unitPrice: number;
+}
+
+interface PurchaseReturnFormProps {
+  purchaseId: string;
+  lines: ReturnableLine[];
+}
+
+export default function PurchaseReturnForm({ purchaseId, lines }: PurchaseReturnFormProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const returnTotal = lines.reduce((sum, line) => {
+    const qty = parseFloat(quantities[line.id] || '0');
+    return sum + (isNaN(qty) ? 0 : qty * line.unitPrice);
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isLoading) return;
+
+    const formData = new FormData(e.currentTarget);
+    const returnLines = lines
+      .map((line) => ({ purchaseLineId: line.id, qty: parseFloat(quantities[line.id] || '0') }))
+      .filter((line) => !isNaN(line.qty) && line.qty > 0);
+    if (returnLines.length === 0) {
+      alert('Enter a quantity to return');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/purchases/${purchaseId}/returns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          returnDate: formData.get('returnDate') || undefined,
+          reason: formData.get('reason'),
+          lines: returnLines,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        setIsOpen(false);
+        setQuantities({});
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to return material');
+      }
+    } catch (error) {
+      alert('An error occurred while returning the material');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+      >
+        Return to Vendor
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 border border-gray-200 rounded-md p-4">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Material</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Returnable</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Return Qty</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {lines.map((line) => (
+            <tr key={line.id}>
+              <td className="px-4 py-2 text-sm text-gray-900">{line.name}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">
+                {line.returnableQty.toFixed(3)} {line.unit}
+              </td>
+              <td className="px-4 py-2 text-sm text-gray-900">{formatCurrency(line.unitPrice)}</td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  max={line.returnableQty}
+                  value={quantities[line.id] || ''}
+                  onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                  className="block w-32 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Return Date</label>
+          <input
+            type="date"
+            name="returnDate"
+            defaultValue={new Date().toISOString().split('T')[0]}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Reason *</label>
+          <input
+            type="text"
+            name="reason"
+            required
+            placeholder="e.g. Damaged on delivery"
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          Debit note: <span className="font-semibold">{formatCurrency(returnTotal)}</span>
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setIsOpen(false)}
+            className="py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoading ? 'Posting...' : 'Post Debit Note'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
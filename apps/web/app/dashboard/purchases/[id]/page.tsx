@@ -5,6 +5,9 @@ import { can } from '@/lib/permissions';
 import { prisma } from '@accounting/db';
 import DashboardLayout from '../../components/DashboardLayout';
 import PurchaseWorkflowActions from './components/PurchaseWorkflowActions';
+import PurchaseReturnForm from './components/PurchaseReturnForm';
+import { listMaterialReturns } from '@/lib/stock/materialReturn.server';
+import { getThreeWayMatch } from '@/lib/purchases/purchaseOrder.server';
 
 export default async function PurchaseDetailPage({ params }: { params: { id: string } }) {
   let auth;
@@ -50,6 +53,9 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
           status: true,
         },
       },
+      purchaseOrder: {
+        select: { id: true, poNo: true },
+      },
     },
   });
 
@@ -58,6 +64,29 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
   }
 
   const canWrite = can(auth.role, 'purchases', 'WRITE');
+  const returns = await listMaterialReturns(auth.companyId, { purchaseId: purchase.id });
+  const match = purchase.purchaseOrderId ? await getThreeWayMatch(auth.companyId, purchase.id) : null;
+
+  // Material lines that still have quantity left to send back, at the discounted price paid
+  const discountFactor = 1 - Number(purchase.discountPercent ?? 0) / 100;
+  const returnableLines = purchase.lines
+    .filter((line) => line.lineType === 'MATERIAL' && Number(line.quantity ?? 0) > 0)
+    .map((line) => {
+      const purchasedQty = Number(line.quantity);
+      const returnedQty = returns
+        .filter((r) => r.type === 'VENDOR')
+        .flatMap((r) => r.lines)
+        .filter((returnLine) => returnLine.purchaseLineId === line.id)
+        .reduce((sum, returnLine) => sum + returnLine.qty, 0);
+      return {
+        id: line.id,
+        name: line.stockItem?.name ?? line.materialName ?? 'Material',
+        unit: line.stockItem?.unit ?? line.unit ?? '',
+        returnableQty: Math.max(0, purchasedQty - returnedQty),
+        unitPrice: Math.round(((Number(line.lineTotal) * discountFactor) / purchasedQty) * 100) / 100,
+      };
+    })
+    .filter((line) => line.returnableQty > 0);
   const canApprove = can(auth.role, 'vouchers', 'APPROVE');
   const canPost = can(auth.role, 'vouchers', 'POST');
 
@@ -156,6 +185,19 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
               <label className="text-sm font-medium text-gray-500">Reference</label>
               <p className="mt-1 text-sm text-gray-900">{purchase.reference || '-'}</p>
             </div>
+            {purchase.purchaseOrder && (
+              <div>
+                <label className="text-sm font-medium text-gray-500">Purchase Order</label>
+                <p className="mt-1 text-sm text-gray-900">
+                  <Link
+                    href={`/dashboard/purchase-orders/${purchase.purchaseOrder.id}`}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {purchase.purchaseOrder.poNo}
+                  </Link>
+                </p>
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium text-gray-500">Payment Account</label>
               <p className="mt-1 text-sm text-gray-900">
@@ -313,6 +355,151 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
           </div>
         </div>
 
+        {/* Three-way match against the purchase order and goods receipts */}
+        {match && match.lines.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium">Order Match</h2>
+              <span
+                className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
+                  match.matched ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                }`}
+              >
+                {match.matched ? 'Matched' : 'Differences'}
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Other Bills</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">This Bill</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Order Rate</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Bill Rate</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Difference</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issues</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {match.lines.map((line, index) => (
+                    <tr key={line.purchaseOrderLineId ?? `extra-${index}`}>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {line.stockItemName}
+                        {line.unit ? ` (${line.unit})` : ''}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.orderedQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.receivedQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.billedElsewhereQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.billedQty.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(line.orderRate)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(line.billRate)}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                          line.amountDifference > 0 ? 'text-red-600' : 'text-gray-900'
+                        }`}
+                      >
+                        {formatCurrency(line.amountDifference)}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {line.issues.length === 0 ? (
+                          <span className="text-green-700">OK</span>
+                        ) : (
+                          line.issues.map((issue) => (
+                            <div key={issue} className="text-yellow-800">
+                              {issue === 'RATE_DIFFERENCE'
+                                ? 'Rate differs from order'
+                                : issue === 'BILLED_OVER_RECEIVED'
+                                ? 'Billed more than received'
+                                : 'Not on the order'}
+                            </div>
+                          ))
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-3 text-xs text-gray-500">
+              Difference is the bill amount less the quantity received and not billed elsewhere, at the order rate.
+            </p>
+          </div>
+        )}
+
+        {/* Returns */}
+        {(returns.length > 0 || (canWrite && purchase.status === 'POSTED' && returnableLines.length > 0)) && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium mb-4">Returns</h2>
+            {returns.length > 0 && (
+              <div className="overflow-x-auto mb-4">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {returns.map((materialReturn) => (
+                      <tr key={materialReturn.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(materialReturn.returnDate).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {materialReturn.type === 'VENDOR' ? 'To vendor' : 'Site to store'}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {materialReturn.lines
+                            .map((line) => `${line.description ?? line.stockItem?.name ?? 'Material'} × ${line.qty.toFixed(3)}`)
+                            .join(', ')}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{materialReturn.reason || '-'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatCurrency(materialReturn.totalAmount)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {materialReturn.voucher ? (
+                            <Link
+                              href={`/dashboard/vouchers/${materialReturn.voucher.id}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {materialReturn.voucher.voucherNo}
+                            </Link>
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {canWrite && purchase.status === 'POSTED' && (
+              <PurchaseReturnForm purchaseId={purchase.id} lines={returnableLines} />
+            )}
+          </div>
+        )}
+
         {/* Attachments */}
         {purchase.attachments.length > 0 && (
           <div className="bg-white shadow rounded-lg p-6">
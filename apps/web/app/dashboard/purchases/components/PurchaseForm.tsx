@@ -10,6 +10,7 @@ interface PurchaseLine {
   id?: string;
   lineType: PurchaseLineType; // Always 'MATERIAL' for new lines, kept for backwards compat
   stockItemId?: string | null;
+  purchaseOrderLineId?: string | null; // Set on bills raised against a purchase order
   quantity?: number | null;
   unit?: string | null;
   unitRate?: number | null;
@@ -41,6 +42,7 @@ interface Purchase {
   lines: Array<{
     id: string;
     stockItemId: string | null;
+    purchaseOrderLineId?: string | null;
     quantity: number | null;
     unit: string | null;
     unitRate: number | null;
@@ -138,6 +140,7 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
           id: l.id,
           lineType: (l.lineType || 'MATERIAL') as PurchaseLineType, // Default to MATERIAL
           stockItemId: l.stockItemId || null,
+          purchaseOrderLineId: l.purchaseOrderLineId || null,
           quantity: l.quantity ? Number(l.quantity) : null,
           unit: l.unit || null,
           unitRate: l.unitRate ? Number(l.unitRate) : null,
@@ -422,7 +425,9 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
         paymentAccountId: formData.paymentAccountId || null,
         lines: lines.map((line) => ({
           lineType: 'MATERIAL', // Always MATERIAL for new form
-          stockItemId: null, // Not used in new form
+          // Lines added in the form are free text; keep links on lines drafted from stock or an order
+          stockItemId: line.stockItemId || null,
+          purchaseOrderLineId: line.purchaseOrderLineId || null,
           quantity: line.quantity || null,
           unit: line.unit || null,
           unitRate: line.unitRate || null,
@@ -110,9 +110,17 @@ export default function BankBookClient({
       {/* Account Info */}
       {initialData.account && (
         <div className="bg-white border border-gray-200 rounded-lg p-4">
-          <h3 className="text-lg font-medium text-gray-900 mb-2">
-            {initialData.account.code} - {initialData.account.name}
-          </h3>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-medium text-gray-900">
+              {initialData.account.code} - {initialData.account.name}
+            </h3>
+            <Link
+              href={`/dashboard/reports/financial/bank-reconciliation?accountId=${initialData.account.id}`}
+              className="text-sm text-blue-600 hover:text-blue-900"
+            >
+              Reconcile
+            </Link>
+          </div>
           <div className="grid grid-cols-3 gap-4 text-sm">
             <div>
               <span className="text-gray-600">Opening Balance:</span>
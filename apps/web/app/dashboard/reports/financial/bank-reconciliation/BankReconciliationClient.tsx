@@ -0,0 +1,724 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface BookItem {
+  voucherLineId: string;
+  voucherId: string;
+  voucherNo: string;
+  date: string;
+  description: string | null;
+  chequeNo: string | null;
+  amount: number;
+  matched: boolean;
+}
+
+interface StatementItem {
+  statementLineId: string;
+  date: string;
+  description: string | null;
+  reference: string | null;
+  chequeNo: string | null;
+  amount: number;
+  matched: boolean;
+}
+
+interface MatchedLine {
+  statementLineId: string;
+  date: string;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+  matchType: 'AUTO' | 'MANUAL' | null;
+  matchedBy: string | null;
+  voucherNo: string | null;
+  voucherDate: string | null;
+}
+
+interface Workspace {
+  statementDate: string;
+  outstandingCheques: BookItem[];
+  depositsInTransit: BookItem[];
+  unrecordedItems: StatementItem[];
+  matchedLines: MatchedLine[];
+  summary: {
+    statementBalance: number | null;
+    importedStatementBalance: number | null;
+    outstandingCheques: number;
+    depositsInTransit: number;
+    unrecordedItems: number;
+    reconciledBalance: number | null;
+    bookBalance: number;
+    adjustedBookBalance: number;
+    difference: number | null;
+  };
+}
+
+interface BankStatement {
+  id: string;
+  fileName: string;
+  format: string;
+  periodFrom: string | null;
+  periodTo: string | null;
+  closingBalance: string | null;
+  createdAt: string;
+  importedBy: { id: string; name: string };
+  _count: { lines: number };
+}
+
+interface Reconciliation {
+  id: string;
+  year: number;
+  month: number;
+  statementBalance: string;
+  reconciledBalance: string;
+  bookBalance: string;
+  difference: string;
+  updatedAt: string;
+  preparedBy: { id: string; name: string };
+}
+
+interface BankReconciliationClientProps {
+  availableAccounts: Array<{ id: string; code: string; name: string }>;
+  selectedAccountId: string;
+  selectedMonth: string;
+  canWrite: boolean;
+}
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+export default function BankReconciliationClient({
+  availableAccounts,
+  selectedAccountId,
+  selectedMonth,
+  canWrite,
+}: BankReconciliationClientProps) {
+  const [accountId, setAccountId] = useState(selectedAccountId);
+  const [month, setMonth] = useState(selectedMonth);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [notes, setNotes] = useState('');
+  const [windowDays, setWindowDays] = useState('7');
+  const [selectedStatementLine, setSelectedStatementLine] = useState<string | null>(null);
+  const [selectedBookLine, setSelectedBookLine] = useState<string | null>(null);
+
+  const fetchWorkspace = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ bankAccountId: accountId, month });
+      if (statementBalance) params.append('statementBalance', statementBalance);
+      const response = await fetch(`/api/bank-reconciliation/workspace?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setWorkspace(data.data);
+      } else {
+        alert(data.error || 'Failed to load reconciliation');
+      }
+    } catch (error) {
+      console.error('Failed to fetch reconciliation workspace:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchStatements = async () => {
+    const response = await fetch(`/api/bank-reconciliation/statements?bankAccountId=${accountId}`);
+    const data = await response.json();
+    if (data.ok) {
+      setStatements(data.data);
+    }
+  };
+
+  const fetchReconciliations = async () => {
+    const response = await fetch(`/api/bank-reconciliation/reconciliations?bankAccountId=${accountId}`);
+    const data = await response.json();
+    if (data.ok) {
+      setReconciliations(data.data);
+    }
+  };
+
+  const refresh = () => {
+    setSelectedStatementLine(null);
+    setSelectedBookLine(null);
+    fetchWorkspace();
+  };
+
+  useEffect(() => {
+    fetchStatements();
+    fetchReconciliations();
+  }, [accountId]);
+
+  useEffect(() => {
+    refresh();
+  }, [accountId, month]);
+
+  const bookItems = workspace
+    ? [
+        ...workspace.outstandingCheques.map((item) => ({ ...item, signed: -item.amount })),
+        ...workspace.depositsInTransit.map((item) => ({ ...item, signed: item.amount })),
+      ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    : [];
+  const statementItem = workspace?.unrecordedItems.find((item) => item.statementLineId === selectedStatementLine);
+  const bookItem = bookItems.find((item) => item.voucherLineId === selectedBookLine);
+  const canMatch =
+    !!statementItem && !!bookItem && Math.round(statementItem.amount * 100) === Math.round(bookItem.signed * 100);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsSaving(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('bankAccountId', accountId);
+      const response = await fetch('/api/bank-reconciliation/statements', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (data.ok) {
+        const { imported, duplicates, matched, errors } = data.data;
+        alert(
+          `Imported ${imported} lines` +
+            (duplicates ? `, skipped ${duplicates} already imported` : '') +
+            `; ${matched} matched automatically.` +
+            (errors.length ? `\n\nSkipped rows:\n${errors.slice(0, 10).join('\n')}` : '')
+        );
+        setFile(null);
+        fetchStatements();
+        refresh();
+      } else {
+        alert(data.error || 'Failed to import statement');
+      }
+    } catch (error) {
+      alert('An error occurred while importing the statement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteStatement = async (statement: BankStatement) => {
+    if (!confirm(`Delete statement ${statement.fileName} and its ${statement._count.lines} lines?`)) return;
+    try {
+      const response = await fetch(`/api/bank-reconciliation/statements/${statement.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.ok) {
+        fetchStatements();
+        refresh();
+      } else {
+        alert(data.error || 'Failed to delete statement');
+      }
+    } catch (error) {
+      alert('An error occurred while deleting the statement');
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/bank-reconciliation/auto-match', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bankAccountId: accountId, windowDays: parseInt(windowDays, 10) || 0 }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        alert(`${data.data.matched} lines matched`);
+        refresh();
+      } else {
+        alert(data.error || 'Failed to auto-match');
+      }
+    } catch (error) {
+      alert('An error occurred while auto-matching');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMatch = async () => {
+    if (!selectedStatementLine || !selectedBookLine) return;
+    try {
+      const response = await fetch('/api/bank-reconciliation/match', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ statementLineId: selectedStatementLine, voucherLineId: selectedBookLine }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        refresh();
+      } else {
+        alert(data.error || 'Failed to match');
+      }
+    } catch (error) {
+      alert('An error occurred while matching');
+    }
+  };
+
+  const handleUnmatch = async (line: MatchedLine) => {
+    if (!confirm(`Unmatch ${line.reference || line.description || 'line'} from voucher ${line.voucherNo}?`)) return;
+    try {
+      const response = await fetch('/api/bank-reconciliation/unmatch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ statementLineId: line.statementLineId }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        refresh();
+      } else {
+        alert(data.error || 'Failed to unmatch');
+      }
+    } catch (error) {
+      alert('An error occurred while unmatching');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/bank-reconciliation/reconciliations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bankAccountId: accountId,
+          month,
+          statementBalance: statementBalance ? parseFloat(statementBalance) : null,
+          notes: notes || null,
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        fetchReconciliations();
+        window.open(`/print/bank-reconciliation/${data.data.id}`, '_blank');
+      } else {
+        alert(data.error || 'Failed to save reconciliation');
+      }
+    } catch (error) {
+      alert('An error occurred while saving the reconciliation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = workspace?.summary;
+  const summaryRows: Array<[string, number | null, boolean?]> = summary
+    ? [
+        ['Balance as per bank statement', summary.statementBalance],
+        ['Less: outstanding cheques', -summary.outstandingCheques],
+        ['Add: deposits in transit', summary.depositsInTransit],
+        ['Reconciled bank balance', summary.reconciledBalance, true],
+        ['Balance as per books', summary.bookBalance],
+        ['Add/(less): statement items not in books', summary.unrecordedItems],
+        ['Adjusted book balance', summary.adjustedBookBalance, true],
+      ]
+    : [];
+
+  const rowClass = (selected: boolean, disabled: boolean) =>
+    `${selected ? 'bg-blue-50' : 'hover:bg-gray-50'} ${disabled ? 'text-gray-400' : 'cursor-pointer'}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bank Account</label>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {availableAccounts.map((acc) => (
+                <option key={acc.id} value={acc.id}>
+                  {acc.code} - {acc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {canWrite && (
+            <form onSubmit={handleImport} className="md:col-span-2 flex items-end gap-2">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Import Statement (CSV, Excel, OFX, CAMT.053 XML)
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,.xls,.ofx,.qfx,.xml"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!file || isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Import
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {isLoading && !workspace ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : workspace && summary ? (
+        <>
+          {/* Reconciliation statement */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="flex-1 min-w-[320px]">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  Reconciliation as of {formatDate(workspace.statementDate)}
+                </h3>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {summaryRows.map(([label, amount, bold]) => (
+                      <tr key={label} className={bold ? 'font-semibold border-t border-gray-200' : ''}>
+                        <td className="py-1 text-gray-700">{label}</td>
+                        <td className="py-1 text-right">{amount === null ? '-' : toMoney(amount)}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold border-t-2 border-gray-300">
+                      <td className="py-1">Difference</td>
+                      <td
+                        className={`py-1 text-right ${
+                          summary.difference === 0 ? 'text-green-700' : 'text-red-700'
+                        }`}
+                      >
+                        {summary.difference === null ? 'Statement balance needed' : toMoney(summary.difference)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {canWrite && (
+                <div className="w-full md:w-72 space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Statement Balance</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={statementBalance}
+                      onChange={(e) => setStatementBalance(e.target.value)}
+                      onBlur={fetchWorkspace}
+                      placeholder={
+                        summary.importedStatementBalance !== null
+                          ? `From statement: ${summary.importedStatementBalance.toFixed(2)}`
+                          : 'Closing balance on statement'
+                      }
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <input
+                      type="text"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving || summary.statementBalance === null}
+                    className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Save &amp; Print Reconciliation
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Matching */}
+          {canWrite && (
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm text-gray-700">Date window (days)</label>
+              <input
+                type="number"
+                min="0"
+                max="31"
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+                className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleAutoMatch}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Auto-Match
+              </button>
+              <button
+                onClick={handleMatch}
+                disabled={!canMatch}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Match Selected
+              </button>
+              {statementItem && bookItem && !canMatch && (
+                <span className="text-sm text-red-600">Amounts differ</span>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h3 className="text-md font-medium text-gray-900">On Statement, Not in Books</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {workspace.unrecordedItems.length === 0 ? (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-4 text-center text-gray-500">
+                          Nothing outstanding
+                        </td>
+                      </tr>
+                    ) : (
+                      workspace.unrecordedItems.map((item) => (
+                        <tr
+                          key={item.statementLineId}
+                          onClick={() =>
+                            canWrite &&
+                            !item.matched &&
+                            setSelectedStatementLine(
+                              selectedStatementLine === item.statementLineId ? null : item.statementLineId
+                            )
+                          }
+                          className={rowClass(selectedStatementLine === item.statementLineId, item.matched)}
+                        >
+                          <td className="px-3 py-2 whitespace-nowrap">{formatDate(item.date)}</td>
+                          <td className="px-3 py-2">
+                            {item.description || '-'}
+                            {(item.reference || item.chequeNo) && (
+                              <span className="ml-1 text-gray-500">
+                                ({[item.chequeNo && `Chq ${item.chequeNo}`, item.reference].filter(Boolean).join(', ')})
+                              </span>
+                            )}
+                            {item.matched && <span className="ml-1 text-xs">(booked next month)</span>}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right">{toMoney(item.amount)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h3 className="text-md font-medium text-gray-900">In Books, Not on Statement</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {bookItems.length === 0 ? (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-4 text-center text-gray-500">
+                          Nothing outstanding
+                        </td>
+                      </tr>
+                    ) : (
+                      bookItems.map((item) => (
+                        <tr
+                          key={item.voucherLineId}
+                          onClick={() =>
+                            canWrite &&
+                            !item.matched &&
+                            setSelectedBookLine(selectedBookLine === item.voucherLineId ? null : item.voucherLineId)
+                          }
+                          className={rowClass(selectedBookLine === item.voucherLineId, item.matched)}
+                        >
+                          <td className="px-3 py-2 whitespace-nowrap">{formatDate(item.date)}</td>
+                          <td className="px-3 py-2">
+                            <Link
+                              href={`/dashboard/vouchers/${item.voucherId}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="text-blue-600 hover:text-blue-900 font-medium"
+                            >
+                              {item.voucherNo}
+                            </Link>
+                            {item.chequeNo && <span className="ml-1 text-gray-500">Chq {item.chequeNo}</span>}
+                            <div className="text-gray-500">{item.description || ''}</div>
+                            {item.matched && <span className="text-xs">(on next month&apos;s statement)</span>}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right">{toMoney(item.signed)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          {/* Matched this month */}
+          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-md font-medium text-gray-900">
+                Matched This Month ({workspace.matchedLines.length})
+              </h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Statement Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Match</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    {canWrite && <th className="px-3 py-2"></th>}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {workspace.matchedLines.map((line) => (
+                    <tr key={line.statementLineId}>
+                      <td className="px-3 py-2 whitespace-nowrap">{formatDate(line.date)}</td>
+                      <td className="px-3 py-2">{line.description || line.reference || '-'}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {line.voucherNo} ({formatDate(line.voucherDate)})
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                        {line.matchType === 'AUTO' ? 'Auto' : 'Manual'}
+                        {line.matchedBy ? ` by ${line.matchedBy}` : ''}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right">{toMoney(line.amount)}</td>
+                      {canWrite && (
+                        <td className="px-3 py-2 text-right">
+                          <button onClick={() => handleUnmatch(line)} className="text-red-600 hover:text-red-900">
+                            Unmatch
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      ) : null}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Imported statements */}
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h3 className="text-md font-medium text-gray-900">Imported Statements</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <tbody className="bg-white divide-y divide-gray-200">
+              {statements.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-4 text-center text-gray-500">No statements imported</td>
+                </tr>
+              ) : (
+                statements.map((statement) => (
+                  <tr key={statement.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{statement.fileName}</div>
+                      <div className="text-gray-500">
+                        {statement.format} | {formatDate(statement.periodFrom)} - {formatDate(statement.periodTo)} |{' '}
+                        {statement._count.lines} lines | {statement.importedBy.name}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {statement.closingBalance !== null ? toMoney(statement.closingBalance) : '-'}
+                    </td>
+                    {canWrite && (
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => handleDeleteStatement(statement)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Saved reconciliations */}
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h3 className="text-md font-medium text-gray-900">Saved Reconciliations</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reconciliations.length === 0 ? (
+                <tr>
+                  <td className="px-3 py-4 text-center text-gray-500">No reconciliations saved</td>
+                </tr>
+              ) : (
+                reconciliations.map((reconciliation) => (
+                  <tr key={reconciliation.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">
+                        {reconciliation.year}-{String(reconciliation.month).padStart(2, '0')}
+                      </div>
+                      <div className="text-gray-500">
+                        {reconciliation.preparedBy.name} | {formatDate(reconciliation.updatedAt)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <div>{toMoney(reconciliation.reconciledBalance)}</div>
+                      <div className={Number(reconciliation.difference) === 0 ? 'text-green-700' : 'text-red-700'}>
+                        Diff {toMoney(reconciliation.difference)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => window.open(`/print/bank-reconciliation/${reconciliation.id}`, '_blank')}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Print
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
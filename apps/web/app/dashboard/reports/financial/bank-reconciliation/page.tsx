@@ -0,0 +1,54 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { findBankAccounts } from '@/lib/reports/ledger';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import BankReconciliationClient from './BankReconciliationClient';
+
+export default async function BankReconciliationPage({
+  searchParams,
+}: {
+  searchParams: { accountId?: string; month?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const bankAccounts = await findBankAccounts(auth.companyId);
+
+  if (bankAccounts.length === 0) {
+    return (
+      <DashboardLayout title="Bank Reconciliation">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">
+            No bank accounts found. Please create an account with "Bank" in the name.
+          </p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const accountId = bankAccounts.find((a) => a.id === searchParams.accountId)?.id || bankAccounts[0].id;
+
+  // Default to the previous month, the one usually being reconciled
+  const today = new Date();
+  const previous = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  const month =
+    searchParams.month && /^\d{4}-\d{2}$/.test(searchParams.month)
+      ? searchParams.month
+      : `${previous.getFullYear()}-${String(previous.getMonth() + 1).padStart(2, '0')}`;
+
+  return (
+    <DashboardLayout title="Bank Reconciliation">
+      <BankReconciliationClient
+        availableAccounts={bankAccounts}
+        selectedAccountId={accountId}
+        selectedMonth={month}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+      />
+    </DashboardLayout>
+  );
+}
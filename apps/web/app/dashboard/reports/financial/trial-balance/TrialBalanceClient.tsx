@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { toMoney } from '@/lib/payables';
 
@@ -19,18 +19,48 @@ interface TrialBalanceClientProps {
     totalCredits: number;
     difference: number;
   };
+  movement: {
+    entries: Array<{
+      accountId: string;
+      accountCode: string;
+      accountName: string;
+      type: string;
+      openingDebit: number;
+      openingCredit: number;
+      periodDebit: number;
+      periodCredit: number;
+      closingDebit: number;
+      closingCredit: number;
+    }>;
+    totals: {
+      openingDebit: number;
+      openingCredit: number;
+      periodDebit: number;
+      periodCredit: number;
+      closingDebit: number;
+      closingCredit: number;
+    };
+  } | null;
   asOfDate: string;
+  fromDate: string;
 }
 
+const amountOrDash = (amount: number) => (amount > 0 ? toMoney(amount) : '-');
+
 export default function TrialBalanceClient({
   initialData,
+  movement,
   asOfDate,
+  fromDate,
 }: TrialBalanceClientProps) {
   const router = useRouter();
   const [asOf, setAsOf] = useState(asOfDate);
+  const [from, setFrom] = useState(fromDate);
 
   const handleFilter = () => {
-    router.push(`/dashboard/reports/financial/trial-balance?asOf=${asOf}`);
+    const params = new URLSearchParams({ asOf });
+    if (from) params.set('from', from);
+    router.push(`/dashboard/reports/financial/trial-balance?${params.toString()}`);
   };
 
   return (
@@ -38,6 +68,18 @@ export default function TrialBalanceClient({
       {/* Filters */}
       <div className="bg-white border border-gray-200 rounded-lg p-4">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Period From (optional)
+            </label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Shows opening, period movement and closing columns</p>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               As Of Date
@@ -61,92 +103,202 @@ export default function TrialBalanceClient({
       </div>
 
       {/* Trial Balance Table */}
-      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h3 className="text-lg font-medium text-gray-900">Trial Balance</h3>
-          <p className="text-sm text-gray-600 mt-1">As of {new Date(asOf).toLocaleDateString()}</p>
-        </div>
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Account Code
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Account Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                  Type
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                  Debit Total
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                  Credit Total
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                  Net Balance
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {initialData.entries.length === 0 ? (
+      {movement ? (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Trial Balance</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {new Date(from).toLocaleDateString()} to {new Date(asOf).toLocaleDateString()}
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
                 <tr>
-                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
-                    No accounts with activity found
-                  </td>
+                  <th rowSpan={2} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Account
+                  </th>
+                  <th colSpan={2} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase border-l border-gray-200">
+                    Opening
+                  </th>
+                  <th colSpan={2} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase border-l border-gray-200">
+                    Period Movement
+                  </th>
+                  <th colSpan={2} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase border-l border-gray-200">
+                    Closing
+                  </th>
                 </tr>
-              ) : (
-                initialData.entries.map((entry) => (
-                  <tr key={entry.accountId} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {entry.accountCode}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900">{entry.accountName}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {entry.type}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                      {entry.debitTotal > 0 ? toMoney(entry.debitTotal) : '-'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                      {entry.creditTotal > 0 ? toMoney(entry.creditTotal) : '-'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
-                      {toMoney(entry.netBalance)}
+                <tr>
+                  {['Opening', 'Period', 'Closing'].map((group) => (
+                    <Fragment key={group}>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase border-l border-gray-200">
+                        Debit
+                      </th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                    </Fragment>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {movement.entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No accounts with activity found
                     </td>
                   </tr>
-                ))
-              )}
-            </tbody>
-            <tfoot className="bg-gray-50">
-              <tr className="font-medium">
-                <td colSpan={3} className="px-6 py-4 text-sm text-gray-900">
-                  Total
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                  {toMoney(initialData.totalDebits)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                  {toMoney(initialData.totalCredits)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
-                  {toMoney(initialData.difference)}
-                </td>
-              </tr>
-            </tfoot>
-          </table>
+              ) : (
+                  movement.entries.map((entry) => (
+                    <tr key={entry.accountId} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{entry.accountCode}</div>
+                        <div className="text-gray-500">
+                          {entry.accountName} · {entry.type}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900 border-l border-gray-100">
+                        {amountOrDash(entry.openingDebit)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {amountOrDash(entry.openingCredit)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900 border-l border-gray-100">
+                        {amountOrDash(entry.periodDebit)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {amountOrDash(entry.periodCredit)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-right text-gray-900 border-l border-gray-100">
+                        {amountOrDash(entry.closingDebit)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-right text-gray-900">
+                        {amountOrDash(entry.closingCredit)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr className="font-medium">
+                  <td className="px-4 py-3 text-sm text-gray-900">Total</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900 border-l border-gray-200">
+                    {toMoney(movement.totals.openingDebit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(movement.totals.openingCredit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900 border-l border-gray-200">
+                    {toMoney(movement.totals.periodDebit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(movement.totals.periodCredit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900 border-l border-gray-200">
+                    {toMoney(movement.totals.closingDebit)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(movement.totals.closingCredit)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          {Math.abs(movement.totals.closingDebit - movement.totals.closingCredit) >= 0.01 && (
+            <div className="px-6 py-4 bg-yellow-50 border-t border-yellow-200">
+              <p className="text-sm text-yellow-800">
+                <strong>Warning:</strong> Closing balances are out of balance by{' '}
+                {toMoney(Math.abs(movement.totals.closingDebit - movement.totals.closingCredit))}.
+              </p>
+            </div>
+          )}
         </div>
-        {initialData.difference !== 0 && (
-          <div className="px-6 py-4 bg-yellow-50 border-t border-yellow-200">
-            <p className="text-sm text-yellow-800">
-              <strong>Warning:</strong> Trial balance is out of balance by{' '}
-              {toMoney(Math.abs(initialData.difference))}. Total debits should equal total credits.
-            </p>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Trial Balance</h3>
+            <p className="text-sm text-gray-600 mt-1">As of {new Date(asOf).toLocaleDateString()}</p>
           </div>
-        )}
-      </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Account Code
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Account Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Debit Total
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Credit Total
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Net Balance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {initialData.entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No accounts with activity found
+                    </td>
+                  </tr>
+              ) : (
+                  initialData.entries.map((entry) => (
+                    <tr key={entry.accountId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {entry.accountCode}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{entry.accountName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {entry.type}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {entry.debitTotal > 0 ? toMoney(entry.debitTotal) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {entry.creditTotal > 0 ? toMoney(entry.creditTotal) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
+                        {toMoney(entry.netBalance)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr className="font-medium">
+                  <td colSpan={3} className="px-6 py-4 text-sm text-gray-900">
+                    Total
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(initialData.totalDebits)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(initialData.totalCredits)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {toMoney(initialData.difference)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          {initialData.difference !== 0 && (
+            <div className="px-6 py-4 bg-yellow-50 border-t border-yellow-200">
+              <p className="text-sm text-yellow-800">
+                <strong>Warning:</strong> Trial balance is out of balance by{' '}
+                {toMoney(Math.abs(initialData.difference))}. Total debits should equal total credits.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
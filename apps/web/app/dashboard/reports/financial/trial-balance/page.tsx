@@ -1,13 +1,13 @@
 import { redirect } from 'next/navigation';
 import { requirePermissionServer } from '@/lib/rbac';
-import { getTrialBalance } from '@/lib/reports/statements';
+import { getTrialBalance, getTrialBalanceMovement } from '@/lib/reports/statements';
 import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
 import TrialBalanceClient from './TrialBalanceClient';
 
 export default async function TrialBalancePage({
   searchParams,
 }: {
-  searchParams: { asOf?: string };
+  searchParams: { asOf?: string; from?: string };
 }) {
   let auth;
   try {
@@ -20,13 +20,20 @@ export default async function TrialBalancePage({
   const asOf = searchParams.asOf ? new Date(searchParams.asOf) : new Date();
   asOf.setHours(23, 59, 59, 999);
 
+  // With a start date the report shows opening / period movement / closing columns
+  const from = searchParams.from ? new Date(searchParams.from) : null;
+  from?.setHours(0, 0, 0, 0);
+
   const trialBalance = await getTrialBalance(auth.companyId, asOf);
+  const movement = from ? await getTrialBalanceMovement(auth.companyId, from, asOf) : null;
 
   return (
     <DashboardLayout title="Trial Balance">
       <TrialBalanceClient
         initialData={trialBalance}
+        movement={movement}
         asOfDate={asOf.toISOString().split('T')[0]}
+        fromDate={searchParams.from || ''}
       />
     </DashboardLayout>
   );
@@ -44,6 +44,64 @@ export default async function ReportsPage() {
             </div>
           </Link>
 
+          {/* Payables Aging Card */}
+          <Link
+            href="/dashboard/reports/payables/aging"
+            className="block p-6 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Payables Aging</h3>
+                <p className="text-sm text-gray-600">View vendor bills by due date and age, by vendor or project</p>
+              </div>
+              <div className="text-blue-600">
+                <svg
+                  className="w-8 h-8"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5l7 7-7 7"
+                  />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
+          {/* Receivables Aging Card */}
+          <Link
+            href="/dashboard/reports/receivables"
+            className="block p-6 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Receivables Aging</h3>
+                <p className="text-sm text-gray-600">View client bills outstanding by age and retention held</p>
+              </div>
+              <div className="text-blue-600">
+                <svg
+                  className="w-8 h-8"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5l7 7-7 7"
+                  />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
           {/* Overhead Report Card */}
           <Link
             href="/dashboard/reports/overhead"
@@ -10,6 +10,8 @@ interface PayablesSummaryClientProps {
     vendorName: string;
     glBalance: number;
     openBalance: number;
+    advanceBalance: number;
+    netPosition: number;
     lastActivityDate: Date | null;
   }>;
   showZeroBalances: boolean;
@@ -60,6 +62,8 @@ export default function PayablesSummaryClient({ initialData, showZeroBalances: i
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vendor</th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Open Balance</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Advances</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Net Position</th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">GL Balance</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Activity</th>
               </tr>
@@ -67,10 +71,10 @@ export default function PayablesSummaryClient({ initialData, showZeroBalances: i
             <tbody className="bg-white divide-y divide-gray-200">
               {initialData.length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
                     {showZeroBalances
                       ? 'No vendors found'
-                      : 'No vendors with outstanding payables'}
+                      : 'No vendors with outstanding payables or advances'}
                   </td>
                 </tr>
               ) : (
@@ -89,6 +93,14 @@ export default function PayablesSummaryClient({ initialData, showZeroBalances: i
                         {toMoney(item.openBalance)}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600 text-right">
+                      {item.advanceBalance > 0 ? toMoney(item.advanceBalance) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
+                      <span className={item.netPosition >= 0 ? 'text-gray-900' : 'text-blue-600'}>
+                        {toMoney(item.netPosition)}
+                      </span>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                       {toMoney(item.glBalance)}
                     </td>
@@ -110,6 +122,12 @@ export default function PayablesSummaryClient({ initialData, showZeroBalances: i
                       {toMoney(initialData.reduce((sum, item) => sum + item.openBalance, 0))}
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right text-blue-600">
+                    {toMoney(initialData.reduce((sum, item) => sum + item.advanceBalance, 0))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right text-gray-900">
+                    {toMoney(initialData.reduce((sum, item) => sum + item.netPosition, 0))}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right text-gray-900">
                     {toMoney(initialData.reduce((sum, item) => sum + item.glBalance, 0))}
                   </td>
@@ -0,0 +1,247 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+interface AgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+}
+
+type GroupBy = 'vendor' | 'project';
+
+interface PayablesAgingClientProps {
+  initialData: {
+    rows: Array<
+      AgingBuckets & {
+        key: string;
+        name: string;
+        paymentTermDays: number | null;
+        outstanding: number;
+        overdue: number;
+        items: Array<
+          AgingBuckets & {
+            lineId: string;
+            voucherId: string;
+            voucherNo: string;
+            date: Date;
+            dueDate: Date;
+            daysOverdue: number;
+            narration: string;
+            vendorId: string;
+            vendorName: string;
+            projectName: string | null;
+            outstanding: number;
+          }
+        >;
+      }
+    >;
+    totals: AgingBuckets & {
+      outstanding: number;
+      overdue: number;
+    };
+  };
+  asOf: string;
+  groupBy: GroupBy;
+}
+
+export default function PayablesAgingClient({
+  initialData,
+  asOf: initialAsOf,
+  groupBy: initialGroupBy,
+}: PayablesAgingClientProps) {
+  const router = useRouter();
+  const [asOf, setAsOf] = useState(initialAsOf);
+  const [groupBy, setGroupBy] = useState<GroupBy>(initialGroupBy);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const query = () => new URLSearchParams({ asOf, groupBy }).toString();
+
+  const handleApply = () => {
+    router.push(`/dashboard/reports/payables/aging?${query()}`);
+  };
+
+  const handlePrint = () => {
+    window.open(`/print/payables/aging?${query()}`, '_blank');
+  };
+
+  const { rows, totals } = initialData;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Group by</label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="vendor">Vendor</option>
+              <option value="project">Project</option>
+            </select>
+          </div>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Apply
+          </button>
+          <div className="ml-auto flex gap-2">
+            <a
+              href={`/api/reports/payables-aging?${query()}&format=csv`}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              CSV
+            </a>
+            <a
+              href={`/api/reports/payables-aging?${query()}&format=xlsx`}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Excel
+            </a>
+            <button
+              onClick={handlePrint}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center gap-2"
+            >
+              <span>🖨️</span> Print
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Aging Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            Vendor Payables by {initialGroupBy === 'vendor' ? 'Vendor' : 'Project'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            Aged from the due date (bill date plus the vendor&apos;s payment terms). Bills not yet due are in 0-30.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  {initialGroupBy === 'vendor' ? 'Vendor' : 'Project'}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">0-30</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">31-60</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">61-90</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">90+</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Overdue</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No outstanding vendor payables
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <Fragment key={row.key}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(expanded === row.key ? null : row.key)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {initialGroupBy === 'vendor' ? (
+                          <a
+                            href={`/dashboard/vendors/${row.key}/ledger`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-blue-600 hover:text-blue-900 font-medium"
+                          >
+                            {row.name}
+                          </a>
+                        ) : (
+                          <span className="font-medium text-gray-900">{row.name}</span>
+                        )}
+                        {row.paymentTermDays !== null && (
+                          <div className="text-xs text-gray-500">
+                            {row.paymentTermDays > 0 ? `Net ${row.paymentTermDays}` : 'Due on receipt'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days0to30)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days31to60)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days61to90)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {toMoney(row.days90plus)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
+                        {toMoney(row.outstanding)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {toMoney(row.overdue)}
+                      </td>
+                    </tr>
+                    {expanded === row.key &&
+                      row.items.map((item) => (
+                        <tr key={item.lineId} className="bg-gray-50">
+                          <td className="px-6 py-2 pl-12 whitespace-nowrap text-xs text-gray-600">
+                            <a
+                              href={`/dashboard/vouchers/${item.voucherId}`}
+                              className="text-blue-600 hover:text-blue-900"
+                            >
+                              {item.voucherNo}
+                            </a>
+                            {` · ${initialGroupBy === 'vendor' ? item.projectName ?? 'No project' : item.vendorName}`}
+                            {` · due ${new Date(item.dueDate).toLocaleDateString()}`}
+                            {item.daysOverdue > 0
+                              ? ` · ${item.daysOverdue} days overdue`
+                              : ` · due in ${-item.daysOverdue} days`}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(item.days0to30)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(item.days31to60)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(item.days61to90)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(item.days90plus)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(item.outstanding)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">
+                            {item.daysOverdue > 0 ? toMoney(item.outstanding) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                ))
+              )}
+            </tbody>
+            {rows.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">Total</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days0to30)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days31to60)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days61to90)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days90plus)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.outstanding)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right text-red-600">
+                    {toMoney(totals.overdue)}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
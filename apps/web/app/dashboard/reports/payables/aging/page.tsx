@@ -0,0 +1,35 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getPayablesAging } from '@/lib/payables';
+import DashboardLayout from '../../../components/DashboardLayout';
+import PayablesAgingClient from './PayablesAgingClient';
+
+export default async function PayablesAgingPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string; groupBy?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOf = searchParams.asOf ? new Date(searchParams.asOf) : new Date();
+  if (searchParams.asOf) {
+    asOf.setHours(23, 59, 59, 999);
+  }
+  const groupBy = searchParams.groupBy === 'project' ? 'project' : 'vendor';
+  const aging = await getPayablesAging(auth.companyId, asOf, groupBy);
+
+  return (
+    <DashboardLayout title="Payables Aging">
+      <PayablesAgingClient
+        initialData={aging}
+        asOf={searchParams.asOf || new Date().toISOString().split('T')[0]}
+        groupBy={groupBy}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+interface AgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+}
+
+interface ReceivablesAgingClientProps {
+  initialData: {
+    rows: Array<
+      AgingBuckets & {
+        projectId: string;
+        projectName: string;
+        clientName: string | null;
+        outstanding: number;
+        retentionOutstanding: number;
+        bills: Array<
+          AgingBuckets & {
+            billId: string;
+            billNo: string;
+            date: Date;
+            dueDate: Date | null;
+            daysOutstanding: number;
+            outstanding: number;
+            retentionOutstanding: number;
+          }
+        >;
+      }
+    >;
+    totals: AgingBuckets & {
+      outstanding: number;
+      retentionOutstanding: number;
+    };
+  };
+  asOf: string;
+}
+
+export default function ReceivablesAgingClient({ initialData, asOf: initialAsOf }: ReceivablesAgingClientProps) {
+  const router = useRouter();
+  const [asOf, setAsOf] = useState(initialAsOf);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleApply = () => {
+    router.push(`/dashboard/reports/receivables?asOf=${asOf}`);
+  };
+
+  const { rows, totals } = initialData;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+
+      {/* Aging Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Client Receivables by Project</h3>
+          <p className="text-sm text-gray-500">
+            Aged from bill due date. Retention is held until released and is not aged.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Project / Client</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">0-30</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">31-60</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">61-90</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">90+</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Retention</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No outstanding client receivables
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <Fragment key={row.projectId}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(expanded === row.projectId ? null : row.projectId)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <a
+                          href={`/dashboard/projects/${row.projectId}/bills`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-blue-600 hover:text-blue-900 font-medium"
+                        >
+                          {row.projectName}
+                        </a>
+                        {row.clientName && <div className="text-xs text-gray-500">{row.clientName}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days0to30)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days31to60)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{toMoney(row.days61to90)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {toMoney(row.days90plus)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
+                        {toMoney(row.outstanding)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-600">
+                        {toMoney(row.retentionOutstanding)}
+                      </td>
+                    </tr>
+                    {expanded === row.projectId &&
+                      row.bills.map((bill) => (
+                        <tr key={bill.billId} className="bg-gray-50">
+                          <td className="px-6 py-2 pl-12 whitespace-nowrap text-xs text-gray-600">
+                            {bill.billNo} · {new Date(bill.date).toLocaleDateString()}
+                            {bill.dueDate && ` · due ${new Date(bill.dueDate).toLocaleDateString()}`}
+                            {` · ${bill.daysOutstanding} days`}
+                          </td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(bill.days0to30)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(bill.days31to60)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(bill.days61to90)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(bill.days90plus)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">{toMoney(bill.outstanding)}</td>
+                          <td className="px-6 py-2 whitespace-nowrap text-xs text-right">
+                            {toMoney(bill.retentionOutstanding)}
+                          </td>
+                        </tr>
+                      ))}
+                  </Fragment>
+                ))
+              )}
+            </tbody>
+            {rows.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">Total</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days0to30)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days31to60)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days61to90)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.days90plus)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">{toMoney(totals.outstanding)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
+                    {toMoney(totals.retentionOutstanding)}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getReceivablesAging } from '@/lib/receivables';
+import DashboardLayout from '../../components/DashboardLayout';
+import ReceivablesAgingClient from './ReceivablesAgingClient';
+
+export default async function ReceivablesAgingPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOf = searchParams.asOf ? new Date(searchParams.asOf) : new Date();
+  if (searchParams.asOf) {
+    asOf.setHours(23, 59, 59, 999);
+  }
+  const aging = await getReceivablesAging(auth.companyId, asOf);
+
+  return (
+    <DashboardLayout title="Receivables Aging">
+      <ReceivablesAgingClient
+        initialData={aging}
+        asOf={searchParams.asOf || new Date().toISOString().split('T')[0]}
+      />
+    </DashboardLayout>
+  );
+}
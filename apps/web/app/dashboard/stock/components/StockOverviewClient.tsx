@@ -14,11 +14,20 @@ interface StockBalance {
     category: string | null;
     reorderLevel: number | null;
   };
+  warehouse: {
+    id: string;
+    name: string;
+  };
   onHandQty: number;
   avgCost: number;
   isLowStock: boolean;
 }
 
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
 interface StockOverviewClientProps {
   canWrite: boolean;
 }
@@ -27,6 +36,8 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
   const [balances, setBalances] = useState<StockBalance[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [search, setSearch] = useState('');
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
   const [stats, setStats] = useState({
     totalItems: 0,
     lowStockCount: 0,
@@ -37,6 +48,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
     try {
       const params = new URLSearchParams();
       if (search) params.append('search', search);
+      if (warehouseId) params.append('warehouseId', warehouseId);
       params.append('pageSize', '100'); // Get more items for overview
 
       const response = await fetch(`/api/stock/balances?${params.toString()}`);
@@ -46,7 +58,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
         setBalances(data.data);
         const lowStock = data.data.filter((b: StockBalance) => b.isLowStock).length;
         setStats({
-          totalItems: data.data.length,
+          totalItems: new Set(data.data.map((b: StockBalance) => b.stockItemId)).size,
           lowStockCount: lowStock,
         });
       }
@@ -57,9 +69,19 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
     }
   };
 
+  useEffect(() => {
+    fetch('/api/stock/warehouses')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
+  }, []);
+
   useEffect(() => {
     fetchBalances();
-  }, [search]);
+  }, [search, warehouseId]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -105,7 +127,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
       </div>
 
       {/* Search */}
-      <div className="mb-4">
+      <div className="mb-4 flex flex-col md:flex-row gap-4">
         <input
           type="text"
           placeholder="Search items..."
@@ -113,6 +135,24 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
           onChange={(e) => setSearch(e.target.value)}
           className="w-full md:w-1/3 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
         />
+        <select
+          value={warehouseId}
+          onChange={(e) => setWarehouseId(e.target.value)}
+          className="w-full md:w-1/4 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All Locations</option>
+          {warehouses.map((warehouse) => (
+            <option key={warehouse.id} value={warehouse.id}>
+              {warehouse.name}
+            </option>
+          ))}
+        </select>
+        <Link
+          href="/dashboard/stock/warehouses"
+          className="self-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          Manage locations
+        </Link>
       </div>
 
       {/* Balances Table */}
@@ -126,6 +166,9 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Item
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Unit
                 </th>
@@ -143,7 +186,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
             <tbody className="bg-white divide-y divide-gray-200">
               {balances.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
                     No stock items found
                   </td>
                 </tr>
@@ -158,6 +201,9 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
                         <div className="text-sm text-gray-500">SKU: {balance.stockItem.sku}</div>
                       )}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {balance.warehouse.name}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {balance.stockItem.unit}
                     </td>
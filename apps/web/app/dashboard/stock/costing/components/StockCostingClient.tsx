@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type CostingMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+interface ComparisonItem {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  costingMethod: CostingMethod;
+  qty: number;
+  weightedAverageUnitCost: number;
+  weightedAverageValue: number;
+  fifoUnitCost: number;
+  fifoValue: number;
+  difference: number;
+}
+
+interface Comparison {
+  asOf: string;
+  companyMethod: CostingMethod;
+  items: ComparisonItem[];
+  totals: {
+    weightedAverageValue: number;
+    fifoValue: number;
+    difference: number;
+    bookValue: number;
+  };
+}
+
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
+interface StockCostingClientProps {
+  canWrite: boolean;
+}
+
+const METHOD_LABELS: Record<CostingMethod, string> = {
+  WEIGHTED_AVERAGE: 'Weighted average',
+  FIFO: 'FIFO',
+};
+
+export default function StockCostingClient({ canWrite }: StockCostingClientProps) {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [warehouseId, setWarehouseId] = useState('');
+
+  const fetchComparison = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (asOf) params.append('asOf', asOf);
+      if (warehouseId) params.append('warehouseId', warehouseId);
+
+      const response = await fetch(`/api/stock/costing?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setComparison(data.data);
+      } else {
+        alert(data.error || 'Failed to load stock valuation');
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock valuation:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/stock/warehouses')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [asOf, warehouseId]);
+
+  const handleMethodChange = async (stockCostingMethod: CostingMethod) => {
+    if (!confirm(`Cost future issues at ${METHOD_LABELS[stockCostingMethod]}? Items with their own method keep it.`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/stock/costing', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stockCostingMethod }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        await fetchComparison();
+      } else {
+        alert(data.error || 'Failed to change costing method');
+      }
+    } catch (error) {
+      alert('An error occurred while changing the costing method');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Company Costing Method</label>
+            <select
+              value={comparison?.companyMethod ?? ''}
+              onChange={(e) => handleMethodChange(e.target.value as CostingMethod)}
+              disabled={!canWrite || isSaving || !comparison}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+            >
+              <option value="WEIGHTED_AVERAGE">{METHOD_LABELS.WEIGHTED_AVERAGE}</option>
+              <option value="FIFO">{METHOD_LABELS.FIFO}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As Of</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <select
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Locations</option>
+              {warehouses.map((warehouse) => (
+                <option key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Issues are charged at the item&apos;s costing method. Receipts always open FIFO lots, so the FIFO value is
+          available for every item.
+        </p>
+      </div>
+
+      {comparison && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-sm font-medium text-gray-500">Weighted Average</h3>
+            <p className="text-2xl font-bold text-gray-900 mt-2">
+              {formatCurrency(comparison.totals.weightedAverageValue)}
+            </p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-sm font-medium text-gray-500">FIFO</h3>
+            <p className="text-2xl font-bold text-gray-900 mt-2">{formatCurrency(comparison.totals.fifoValue)}</p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-sm font-medium text-gray-500">Difference (FIFO - WA)</h3>
+            <p
+              className={`text-2xl font-bold mt-2 ${
+                comparison.totals.difference < 0 ? 'text-red-600' : 'text-gray-900'
+              }`}
+            >
+              {formatCurrency(comparison.totals.difference)}
+            </p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-sm font-medium text-gray-500">Book Value (per item method)</h3>
+            <p className="text-2xl font-bold text-blue-600 mt-2">{formatCurrency(comparison.totals.bookValue)}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Method
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On Hand
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  WA Rate
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  WA Value
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  FIFO Rate
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  FIFO Value
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Difference
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : !comparison || comparison.items.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                    No stock on hand at this date
+                  </td>
+                </tr>
+              ) : (
+                comparison.items.map((item) => (
+                  <tr key={item.stockItemId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.stockItemName}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {METHOD_LABELS[item.costingMethod]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {item.qty.toFixed(3)} {item.stockItemUnit}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(item.weightedAverageUnitCost)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(item.weightedAverageValue)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(item.fifoUnitCost)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(item.fifoValue)}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                        item.difference < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatCurrency(item.difference)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockCostingClient from './components/StockCostingClient';
+
+export default async function StockCostingPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'stock', 'WRITE');
+
+  return (
+    <DashboardLayout title="Stock Costing">
+      <StockCostingClient canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
@@ -16,27 +16,37 @@ interface Project {
   name: string;
 }
 
+interface Warehouse {
+  id: string;
+  name: string;
+  project: { id: string; name: string } | null;
+}
+
 export default function IssueStockForm() {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [selectedItem, setSelectedItem] = useState<StockItem | null>(null);
   const [isLoadingItems, setIsLoadingItems] = useState(true);
   const [itemsError, setItemsError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     stockItemId: '',
+    movementKind: 'ISSUE',
     qty: '',
     projectId: '',
+    warehouseId: '',
     notes: '',
     movementDate: new Date().toISOString().split('T')[0],
   });
 
   useEffect(() => {
-    // Fetch stock items
+    // Fetch stock items, with availability at the chosen location
     setIsLoadingItems(true);
     setItemsError(null);
-    fetch('/api/stock/items?pageSize=1000&isActive=true')
+    const locationParam = formData.warehouseId ? `&warehouseId=${formData.warehouseId}` : '';
+    fetch(`/api/stock/items?pageSize=1000&isActive=true${locationParam}`)
       .then((res) => res.json())
       .then((data) => {
         console.log('[IssueStockForm] API response:', data);
@@ -55,7 +65,9 @@ export default function IssueStockForm() {
       .finally(() => {
         setIsLoadingItems(false);
       });
+  }, [formData.warehouseId]);
 
+  useEffect(() => {
     // Fetch projects
     fetch('/api/projects?pageSize=1000')
       .then((res) => res.json())
@@ -64,6 +76,15 @@ export default function IssueStockForm() {
           setProjects(data.data);
         }
       });
+
+    // Fetch stock locations
+    fetch('/api/stock/warehouses')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
   }, []);
 
   useEffect(() => {
@@ -85,8 +106,10 @@ export default function IssueStockForm() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           stockItemId: formData.stockItemId,
+          movementKind: formData.movementKind,
           qty: parseFloat(formData.qty),
           projectId: formData.projectId || null,
+          warehouseId: formData.warehouseId || null,
           notes: formData.notes || null,
           movementDate: formData.movementDate ? `${formData.movementDate}T00:00:00Z` : undefined,
         }),
@@ -95,7 +118,7 @@ export default function IssueStockForm() {
       const data = await response.json();
 
       if (data.ok) {
-        alert('Stock issued successfully!');
+        alert(formData.movementKind === 'WASTAGE' ? 'Wastage recorded successfully!' : 'Stock issued successfully!');
         router.push('/dashboard/stock');
       } else {
         alert(data.error || 'Failed to issue stock');
@@ -109,6 +132,44 @@ export default function IssueStockForm() {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6 max-w-2xl">
+      <div>
+        <label htmlFor="movementKind" className="block text-sm font-medium text-gray-700">
+          Type *
+        </label>
+        <select
+          id="movementKind"
+          value={formData.movementKind}
+          onChange={(e) => setFormData({ ...formData, movementKind: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="ISSUE">Issue to project (Direct Materials)</option>
+          <option value="WASTAGE">Wastage (Material Wastage)</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="warehouseId" className="block text-sm font-medium text-gray-700">
+          Issue From
+        </label>
+        <select
+          id="warehouseId"
+          value={formData.warehouseId}
+          onChange={(e) => setFormData({ ...formData, warehouseId: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Automatic (project site store or central store)</option>
+          {warehouses.map((warehouse) => (
+            <option key={warehouse.id} value={warehouse.id}>
+              {warehouse.name}
+              {warehouse.project ? ` - ${warehouse.project.name}` : ''}
+            </option>
+          ))}
+        </select>
+        {!formData.warehouseId && (
+          <p className="mt-1 text-xs text-gray-500">Availability below is across all locations</p>
+        )}
+      </div>
+
       <div>
         <label htmlFor="stockItemId" className="block text-sm font-medium text-gray-700">
           Stock Item *
@@ -194,10 +255,11 @@ export default function IssueStockForm() {
 
       <div>
         <label htmlFor="projectId" className="block text-sm font-medium text-gray-700">
-          Project
+          Project{formData.movementKind === 'ISSUE' ? ' *' : ''}
         </label>
         <select
           id="projectId"
+          required={formData.movementKind === 'ISSUE'}
           value={formData.projectId}
           onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
           className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
@@ -12,6 +12,7 @@ export default function StockItemForm() {
     unit: '',
     category: '',
     reorderLevel: '',
+    costingMethod: '',
     isActive: true,
   });
 
@@ -28,6 +29,7 @@ export default function StockItemForm() {
           sku: formData.sku || null,
           category: formData.category || null,
           reorderLevel: formData.reorderLevel ? parseFloat(formData.reorderLevel) : null,
+          costingMethod: formData.costingMethod || null,
         }),
       });
 
@@ -117,6 +119,22 @@ export default function StockItemForm() {
         />
       </div>
 
+      <div>
+        <label htmlFor="costingMethod" className="block text-sm font-medium text-gray-700">
+          Costing Method
+        </label>
+        <select
+          id="costingMethod"
+          value={formData.costingMethod}
+          onChange={(e) => setFormData({ ...formData, costingMethod: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Company default</option>
+          <option value="WEIGHTED_AVERAGE">Weighted average</option>
+          <option value="FIFO">FIFO (by lot)</option>
+        </select>
+      </div>
+
       <div className="flex items-center">
         <input
           type="checkbox"
@@ -24,6 +24,10 @@ interface StockMovement {
     id: string;
     name: string;
   } | null;
+  warehouse: {
+    id: string;
+    name: string;
+  } | null;
   createdBy: {
     id: string;
     name: string;
@@ -40,15 +44,22 @@ interface Project {
   name: string;
 }
 
+interface Warehouse {
+  id: string;
+  name: string;
+}
+
 export default function StockLedgerClient() {
   const [movements, setMovements] = useState<StockMovement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [filters, setFilters] = useState({
     stockItemId: '',
     type: '' as '' | 'IN' | 'OUT' | 'ADJUST',
     projectId: '',
+    warehouseId: '',
     dateFrom: '',
     dateTo: '',
   });
@@ -74,6 +85,15 @@ export default function StockLedgerClient() {
           setProjects(data.data);
         }
       });
+
+    // Fetch stock locations
+    fetch('/api/stock/warehouses?includeInactive=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
   }, []);
 
   const fetchMovements = async () => {
@@ -83,6 +103,7 @@ export default function StockLedgerClient() {
       if (filters.stockItemId) params.append('stockItemId', filters.stockItemId);
       if (filters.type) params.append('type', filters.type);
       if (filters.projectId) params.append('projectId', filters.projectId);
+      if (filters.warehouseId) params.append('warehouseId', filters.warehouseId);
       if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
       if (filters.dateTo) params.append('dateTo', filters.dateTo);
       params.append('page', page.toString());
@@ -106,7 +127,7 @@ export default function StockLedgerClient() {
 
   useEffect(() => {
     fetchMovements();
-  }, [filters.stockItemId, filters.type, filters.projectId, filters.dateFrom, filters.dateTo, page, pageSize]);
+  }, [filters.stockItemId, filters.type, filters.projectId, filters.warehouseId, filters.dateFrom, filters.dateTo, page, pageSize]);
 
   const formatCurrency = (amount: number | null) => {
     if (amount === null) return '-';
@@ -180,6 +201,25 @@ export default function StockLedgerClient() {
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <select
+            value={filters.warehouseId}
+            onChange={(e) => {
+              setFilters({ ...filters, warehouseId: e.target.value });
+              setPage(1);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Locations</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Date From</label>
           <input
@@ -230,6 +270,9 @@ export default function StockLedgerClient() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Unit Cost
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Project
                 </th>
@@ -244,7 +287,7 @@ export default function StockLedgerClient() {
             <tbody className="bg-white divide-y divide-gray-200">
               {movements.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                  <td colSpan={9} className="px-6 py-4 text-center text-gray-500">
                     No movements found
                   </td>
                 </tr>
@@ -276,6 +319,9 @@ export default function StockLedgerClient() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatCurrency(movement.unitCost)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {movement.warehouse?.name || '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {movement.project?.name || '-'}
                     </td>
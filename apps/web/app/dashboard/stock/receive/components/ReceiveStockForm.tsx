@@ -20,6 +20,12 @@ interface Vendor {
   name: string;
 }
 
+interface Warehouse {
+  id: string;
+  name: string;
+  project: { id: string; name: string } | null;
+}
+
 export default function ReceiveStockForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -27,6 +33,7 @@ export default function ReceiveStockForm() {
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [isLoadingItems, setIsLoadingItems] = useState(false);
   const [itemsError, setItemsError] = useState<string | null>(null);
   const [showVendorModal, setShowVendorModal] = useState(false);
@@ -43,6 +50,8 @@ export default function ReceiveStockForm() {
     unitCost: '',
     projectId: searchParams.get('projectId') || '',
     vendorId: '',
+    warehouseId: '',
+    lotNo: '',
     referenceType: '',
     referenceId: '',
     notes: '',
@@ -82,6 +91,18 @@ export default function ReceiveStockForm() {
         // Silently fail for projects/vendors
       });
 
+    // Fetch stock locations
+    fetch('/api/stock/warehouses')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        // Stock goes to the project's site store or the central store
+      });
+
     // Fetch vendors
     loadVendors();
   }, []);
@@ -149,6 +170,8 @@ export default function ReceiveStockForm() {
           unitCost: formData.unitCost ? parseFloat(formData.unitCost) : undefined,
           projectId: formData.projectId || null,
           vendorId: formData.vendorId || null,
+          warehouseId: formData.warehouseId || null,
+          lotNo: formData.lotNo || null,
           referenceType: formData.referenceType || undefined,
           referenceId: formData.referenceId || undefined,
           notes: formData.notes || null,
@@ -252,18 +275,40 @@ export default function ReceiveStockForm() {
         </div>
       </div>
 
-      <div>
-        <label htmlFor="movementDate" className="block text-sm font-medium text-gray-700">
-          Date *
-        </label>
-        <input
-          type="date"
-          id="movementDate"
-          required
-          value={formData.movementDate}
-          onChange={(e) => setFormData({ ...formData, movementDate: e.target.value })}
-          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-        />
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="movementDate" className="block text-sm font-medium text-gray-700">
+            Date *
+          </label>
+          <input
+            type="date"
+            id="movementDate"
+            required
+            value={formData.movementDate}
+            onChange={(e) => setFormData({ ...formData, movementDate: e.target.value })}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="warehouseId" className="block text-sm font-medium text-gray-700">
+            Location
+          </label>
+          <select
+            id="warehouseId"
+            value={formData.warehouseId}
+            onChange={(e) => setFormData({ ...formData, warehouseId: e.target.value })}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Automatic (project site store or central store)</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+                {warehouse.project ? ` - ${warehouse.project.name}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -319,6 +364,19 @@ export default function ReceiveStockForm() {
         </div>
       </div>
 
+      <div>
+        <label htmlFor="lotNo" className="block text-sm font-medium text-gray-700">
+          Batch / Lot No
+        </label>
+        <input
+          type="text"
+          id="lotNo"
+          value={formData.lotNo}
+          onChange={(e) => setFormData({ ...formData, lotNo: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label htmlFor="referenceType" className="block text-sm font-medium text-gray-700">
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface Suggestion {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  scope: 'COMPANY' | 'PROJECT';
+  projectId: string | null;
+  projectName: string | null;
+  threshold: number;
+  onHandQty: number;
+  onOrderQty: number;
+  consumedQty: number;
+  dailyUsage: number;
+  suggestedQty: number;
+  lastSupplier: {
+    vendorId: string;
+    vendorName: string;
+    unitRate: number;
+    purchaseDate: string;
+    projectId: string;
+    projectName: string;
+  } | null;
+}
+
+interface DraftedPurchase {
+  id: string;
+  total: string;
+  project: { id: string; name: string };
+  supplierVendor: { id: string; name: string };
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface ReorderClientProps {
+  canDraftPurchases: boolean;
+}
+
+const suggestionKey = (suggestion: Suggestion) => `${suggestion.projectId ?? 'company'}:${suggestion.stockItemId}`;
+
+export default function ReorderClient({ canDraftPurchases }: ReorderClientProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [projectId, setProjectId] = useState('');
+  const [lookbackDays, setLookbackDays] = useState('90');
+  const [coverDays, setCoverDays] = useState('30');
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [qtys, setQtys] = useState<Record<string, string>>({});
+  const [drafted, setDrafted] = useState<DraftedPurchase[]>([]);
+
+  const fetchSuggestions = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (projectId) params.append('projectId', projectId);
+      if (lookbackDays) params.append('lookbackDays', lookbackDays);
+      if (coverDays) params.append('coverDays', coverDays);
+
+      const response = await fetch(`/api/stock/reorder?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        const rows: Suggestion[] = data.data;
+        setSuggestions(rows);
+        setQtys(Object.fromEntries(rows.map((row) => [suggestionKey(row), row.suggestedQty.toString()])));
+        setSelected(
+          Object.fromEntries(rows.map((row) => [suggestionKey(row), row.suggestedQty > 0 && row.lastSupplier !== null]))
+        );
+      } else {
+        alert(data.error || 'Failed to load reorder suggestions');
+      }
+    } catch (error) {
+      console.error('Failed to fetch reorder suggestions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [projectId, lookbackDays, coverDays]);
+
+  const selectedRows = suggestions.filter(
+    (row) => selected[suggestionKey(row)] && parseFloat(qtys[suggestionKey(row)] || '0') > 0
+  );
+
+  const handleDraftPurchases = async () => {
+    if (selectedRows.length === 0) {
+      alert('Select at least one item with a quantity to order');
+      return;
+    }
+    if (!confirm(`Draft purchases for ${selectedRows.length} item(s), grouped by last supplier?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/stock/reorder/purchases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines: selectedRows.map((row) => ({
+            stockItemId: row.stockItemId,
+            projectId: row.projectId,
+            qty: parseFloat(qtys[suggestionKey(row)]),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setDrafted(data.data.purchases);
+        if (data.data.skipped?.length > 0) {
+          alert(
+            `Skipped:\n${data.data.skipped
+              .map((item: { stockItemName: string; reason: string }) => `${item.stockItemName}: ${item.reason}`)
+              .join('\n')}`
+          );
+        }
+        await fetchSuggestions();
+      } else {
+        alert(data.error || 'Failed to draft purchases');
+      }
+    } catch (error) {
+      alert('An error occurred while drafting purchases');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Company and all projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Usage Over (days)</label>
+            <input
+              type="number"
+              min="7"
+              max="365"
+              value={lookbackDays}
+              onChange={(e) => setLookbackDays(e.target.value)}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cover (days)</label>
+            <input
+              type="number"
+              min="0"
+              max="365"
+              value={coverDays}
+              onChange={(e) => setCoverDays(e.target.value)}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          {canDraftPurchases && (
+            <div className="md:ml-auto">
+              <button
+                onClick={handleDraftPurchases}
+                disabled={isSaving || selectedRows.length === 0}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Drafting...' : `Create Draft Purchases (${selectedRows.length})`}
+              </button>
+            </div>
+          )}
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Company rows compare all locations with the item&apos;s reorder level; project rows compare what the project
+          has left with its minimum quantity. Suggested quantities refill to the threshold plus the cover period&apos;s
+          expected usage, less what is already on order in unposted purchases.
+        </p>
+      </div>
+
+      {drafted.length > 0 && (
+        <div className="bg-green-50 border border-green-200 p-4 rounded-lg mb-6 text-sm text-green-800">
+          <p className="font-medium mb-1">Draft purchases created:</p>
+          <ul className="space-y-1">
+            {drafted.map((purchase) => (
+              <li key={purchase.id}>
+                <Link href={`/dashboard/purchases/${purchase.id}`} className="underline hover:text-green-900">
+                  {purchase.supplierVendor.name} - {purchase.project.name} - {formatCurrency(Number(purchase.total))}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {canDraftPurchases && <th className="px-4 py-3" />}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Threshold
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On Hand
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On Order
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Usage / Day
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Order Qty
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last Supplier
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Est. Cost
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={canDraftPurchases ? 10 : 9} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : suggestions.length === 0 ? (
+                <tr>
+                  <td colSpan={canDraftPurchases ? 10 : 9} className="px-6 py-4 text-center text-gray-500">
+                    Nothing is below its reorder level
+                  </td>
+                </tr>
+              ) : (
+                suggestions.map((row) => {
+                  const key = suggestionKey(row);
+                  const qty = parseFloat(qtys[key] || '0') || 0;
+                  return (
+                    <tr key={key} className="hover:bg-gray-50">
+                      {canDraftPurchases && (
+                        <td className="px-4 py-4">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(selected[key])}
+                            disabled={!row.lastSupplier}
+                            onChange={(e) => setSelected({ ...selected, [key]: e.target.checked })}
+                          />
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {row.stockItemName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {row.scope === 'COMPANY' ? 'Company (reorder level)' : `${row.projectName} (minimum)`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {row.threshold.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {row.onHandQty.toFixed(3)} {row.stockItemUnit}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {row.onOrderQty > 0 ? row.onOrderQty.toFixed(3) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {row.dailyUsage.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={qtys[key] ?? ''}
+                          disabled={!canDraftPurchases}
+                          onChange={(e) => setQtys({ ...qtys, [key]: e.target.value })}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right text-sm"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {row.lastSupplier ? (
+                          <>
+                            {row.lastSupplier.vendorName}
+                            <div className="text-xs text-gray-500">
+                              @ {formatCurrency(row.lastSupplier.unitRate)} on{' '}
+                              {new Date(row.lastSupplier.purchaseDate).toLocaleDateString()}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">Never purchased</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {row.lastSupplier ? formatCurrency(qty * row.lastSupplier.unitRate) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import ReorderClient from './components/ReorderClient';
+
+export default async function StockReorderPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canDraftPurchases = can(auth.role, 'purchases', 'WRITE');
+
+  return (
+    <DashboardLayout title="Reorder Suggestions">
+      <ReorderClient canDraftPurchases={canDraftPurchases} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,637 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type RequisitionStatus = 'PENDING' | 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED' | 'CANCELLED';
+
+interface RequisitionLine {
+  id: string;
+  stockItemId: string;
+  requestedQty: string;
+  approvedQty: string | null;
+  notes: string | null;
+  stockItem: { id: string; name: string; unit: string };
+  movement: { id: string; voucherId: string | null } | null;
+}
+
+interface Requisition {
+  id: string;
+  status: RequisitionStatus;
+  requiredDate: string | null;
+  notes: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+  createdAt: string;
+  project: { id: string; name: string };
+  requestedBy: { id: string; name: string };
+  decidedBy: { id: string; name: string } | null;
+  lines: RequisitionLine[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface RequisitionsClientProps {
+  userId: string;
+  canWrite: boolean;
+  canApprove: boolean;
+  initialProjectId: string;
+}
+
+const STATUS_LABELS: Record<RequisitionStatus, string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Approved',
+  PARTIALLY_APPROVED: 'Partly approved',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<RequisitionStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  PARTIALLY_APPROVED: 'bg-blue-100 text-blue-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const emptyLine = { stockItemId: '', qty: '', notes: '' };
+
+export default function RequisitionsClient({ userId, canWrite, canApprove, initialProjectId }: RequisitionsClientProps) {
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [projectId, setProjectId] = useState(initialProjectId);
+  const [status, setStatus] = useState<RequisitionStatus | ''>('PENDING');
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({
+    projectId: initialProjectId,
+    requiredDate: '',
+    notes: '',
+    lines: [{ ...emptyLine }],
+  });
+  const [approving, setApproving] = useState<Requisition | null>(null);
+  const [approval, setApproval] = useState({
+    warehouseId: '',
+    issueDate: new Date().toISOString().split('T')[0],
+    decisionNote: '',
+    qtys: {} as Record<string, string>,
+  });
+
+  const fetchRequisitions = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (projectId) params.append('projectId', projectId);
+      if (status) params.append('status', status);
+
+      const response = await fetch(`/api/stock/requisitions?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setRequisitions(data.data);
+      } else {
+        alert(data.error || 'Failed to load requisitions');
+      }
+    } catch (error) {
+      console.error('Failed to fetch requisitions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+
+    fetch('/api/stock/items?pageSize=1000&isActive=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setStockItems(data.data);
+        }
+      });
+
+    if (canApprove) {
+      fetch('/api/stock/warehouses')
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.ok) {
+            setWarehouses(data.data);
+          }
+        });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequisitions();
+  }, [projectId, status]);
+
+  const updateLine = (index: number, field: keyof typeof emptyLine, value: string) => {
+    setFormData({
+      ...formData,
+      lines: formData.lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/stock/requisitions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: formData.projectId,
+          requiredDate: formData.requiredDate || null,
+          notes: formData.notes || null,
+          lines: formData.lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            qty: parseFloat(line.qty),
+            notes: line.notes || null,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowForm(false);
+        setFormData({ projectId: initialProjectId, requiredDate: '', notes: '', lines: [{ ...emptyLine }] });
+        await fetchRequisitions();
+      } else {
+        alert(data.error || 'Failed to create requisition');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the requisition');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openApproval = (requisition: Requisition) => {
+    setApproving(requisition);
+    setApproval({
+      warehouseId: '',
+      issueDate: new Date().toISOString().split('T')[0],
+      decisionNote: '',
+      qtys: Object.fromEntries(requisition.lines.map((line) => [line.id, Number(line.requestedQty).toString()])),
+    });
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!approving) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/stock/requisitions/${approving.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          warehouseId: approval.warehouseId || null,
+          issueDate: approval.issueDate,
+          decisionNote: approval.decisionNote || null,
+          lines: approving.lines.map((line) => ({
+            lineId: line.id,
+            approvedQty: parseFloat(approval.qtys[line.id] || '0') || 0,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setApproving(null);
+        await fetchRequisitions();
+      } else {
+        alert(data.error || 'Failed to approve requisition');
+      }
+    } catch (error) {
+      alert('An error occurred while approving the requisition');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReject = async (requisition: Requisition) => {
+    const decisionNote = prompt('Reason for rejecting this requisition:', '');
+    if (!decisionNote) return;
+
+    try {
+      const response = await fetch(`/api/stock/requisitions/${requisition.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decisionNote }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        await fetchRequisitions();
+      } else {
+        alert(data.error || 'Failed to reject requisition');
+      }
+    } catch (error) {
+      alert('An error occurred while rejecting the requisition');
+    }
+  };
+
+  const handleCancel = async (requisition: Requisition) => {
+    if (!confirm('Cancel this requisition?')) return;
+
+    try {
+      const response = await fetch(`/api/stock/requisitions/${requisition.id}/cancel`, { method: 'POST' });
+      const data = await response.json();
+      if (data.ok) {
+        await fetchRequisitions();
+      } else {
+        alert(data.error || 'Failed to cancel requisition');
+      }
+    } catch (error) {
+      alert('An error occurred while cancelling the requisition');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '-';
+  };
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as RequisitionStatus | '')}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Statuses</option>
+              {(Object.keys(STATUS_LABELS) as RequisitionStatus[]).map((value) => (
+                <option key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:ml-auto">
+            {canWrite && !showForm && (
+              <button
+                onClick={() => setShowForm(true)}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                New Requisition
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Site engineers request material for a project. Approving a requisition issues the approved quantities to the
+          project from its site store, or from the location chosen on approval.
+        </p>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Project *</label>
+              <select
+                required
+                value={formData.projectId}
+                onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Select project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Required By</label>
+              <input
+                type="date"
+                value={formData.requiredDate}
+                onChange={(e) => setFormData({ ...formData, requiredDate: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Items *</label>
+            {formData.lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <select
+                  required
+                  value={line.stockItemId}
+                  onChange={(e) => updateLine(index, 'stockItemId', e.target.value)}
+                  className="col-span-5 px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Select item</option>
+                  {stockItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name} ({item.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  required
+                  min="0.001"
+                  step="0.001"
+                  placeholder="Qty"
+                  value={line.qty}
+                  onChange={(e) => updateLine(index, 'qty', e.target.value)}
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <input
+                  type="text"
+                  placeholder="Purpose / location on site"
+                  value={line.notes}
+                  onChange={(e) => updateLine(index, 'notes', e.target.value)}
+                  className="col-span-4 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setFormData({ ...formData, lines: formData.lines.filter((_, i) => i !== index) })
+                  }
+                  disabled={formData.lines.length === 1}
+                  className="col-span-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setFormData({ ...formData, lines: [...formData.lines, { ...emptyLine }] })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add item
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Submit Requisition'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Requested
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Project
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Items
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : requisitions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                    No requisitions found
+                  </td>
+                </tr>
+              ) : (
+                requisitions.map((requisition) => (
+                  <tr key={requisition.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(requisition.createdAt)}
+                      <div className="text-xs text-gray-500">by {requisition.requestedBy.name}</div>
+                      {requisition.requiredDate && (
+                        <div className="text-xs text-gray-500">needed {formatDate(requisition.requiredDate)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{requisition.project.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {requisition.lines.map((line) => (
+                        <div key={line.id}>
+                          {line.stockItem.name}: {Number(line.requestedQty).toFixed(3)} {line.stockItem.unit}
+                          {line.approvedQty !== null && (
+                            <span className="text-gray-500"> (issued {Number(line.approvedQty).toFixed(3)})</span>
+                          )}
+                          {line.notes && <span className="text-xs text-gray-500"> - {line.notes}</span>}
+                        </div>
+                      ))}
+                      {requisition.notes && <div className="text-xs text-gray-500 mt-1">{requisition.notes}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[requisition.status]}`}
+                      >
+                        {STATUS_LABELS[requisition.status]}
+                      </span>
+                      {requisition.decidedBy && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {requisition.decidedBy.name}, {formatDate(requisition.decidedAt)}
+                        </div>
+                      )}
+                      {requisition.decisionNote && (
+                        <div className="text-xs text-gray-500 whitespace-normal">{requisition.decisionNote}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                      {requisition.status === 'PENDING' && canApprove && (
+                        <>
+                          <button
+                            onClick={() => openApproval(requisition)}
+                            className="text-green-600 hover:text-green-800"
+                          >
+                            Approve
+                          </button>
+                          <button onClick={() => handleReject(requisition)} className="text-red-600 hover:text-red-800">
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {requisition.status === 'PENDING' &&
+                        canWrite &&
+                        (canApprove || requisition.requestedBy.id === userId) && (
+                          <button
+                            onClick={() => handleCancel(requisition)}
+                            className="text-gray-600 hover:text-gray-800"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {approving && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4">
+            <h2 className="text-xl font-bold mb-1">Approve Requisition</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {approving.project.name} - requested by {approving.requestedBy.name}. Lower a quantity to approve it in
+              part, or set it to 0 to leave the item out.
+            </p>
+            <form onSubmit={handleApprove} className="space-y-4">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requested</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approve</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {approving.lines.map((line) => (
+                    <tr key={line.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{line.stockItem.name}</td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">
+                        {Number(line.requestedQty).toFixed(3)} {line.stockItem.unit}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={Number(line.requestedQty)}
+                          step="0.001"
+                          value={approval.qtys[line.id] ?? ''}
+                          onChange={(e) =>
+                            setApproval({ ...approval, qtys: { ...approval.qtys, [line.id]: e.target.value } })
+                          }
+                          className="w-32 px-3 py-1 border border-gray-300 rounded-md text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Issue From</label>
+                  <select
+                    value={approval.warehouseId}
+                    onChange={(e) => setApproval({ ...approval, warehouseId: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Automatic (project site store or central store)</option>
+                    {warehouses.map((warehouse) => (
+                      <option key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Issue Date</label>
+                  <input
+                    type="date"
+                    required
+                    value={approval.issueDate}
+                    onChange={(e) => setApproval({ ...approval, issueDate: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Note</label>
+                <input
+                  type="text"
+                  value={approval.decisionNote}
+                  onChange={(e) => setApproval({ ...approval, decisionNote: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex-1 bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Issuing...' : 'Approve & Issue'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setApproving(null)}
+                  className="flex-1 bg-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-400"
+                >
+                  Close
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
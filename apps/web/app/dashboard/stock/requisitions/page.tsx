@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import RequisitionsClient from './components/RequisitionsClient';
+
+export default async function RequisitionsPage({
+  searchParams,
+}: {
+  searchParams: { projectId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('requisitions', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'requisitions', 'WRITE');
+  const canApprove = can(auth.role, 'requisitions', 'APPROVE');
+
+  return (
+    <DashboardLayout title="Material Requisitions">
+      <RequisitionsClient
+        userId={auth.userId}
+        canWrite={canWrite}
+        canApprove={canApprove}
+        initialProjectId={searchParams.projectId || ''}
+      />
+    </DashboardLayout>
+  );
+}
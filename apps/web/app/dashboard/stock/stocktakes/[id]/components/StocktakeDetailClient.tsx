@@ -0,0 +1,503 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { STATUS_COLORS, STATUS_LABELS } from '../../components/StocktakesClient';
+
+type StocktakeStatus = 'COUNTING' | 'SUBMITTED' | 'POSTED' | 'CANCELLED';
+
+interface StocktakeLine {
+  id: string;
+  expectedQty: number;
+  unitCost: number;
+  countedQty: number | null;
+  varianceQty: number | null;
+  varianceValue: number | null;
+  notes: string | null;
+  stockItem: { id: string; name: string; sku: string | null; unit: string };
+  movement: { id: string; voucherId: string | null } | null;
+}
+
+interface Stocktake {
+  id: string;
+  sessionNo: string;
+  countDate: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  rejectionReason: string | null;
+  approvedAt: string | null;
+  project: { id: string; name: string } | null;
+  warehouse: { id: string; name: string } | null;
+  createdBy: { id: string; name: string };
+  approvedBy: { id: string; name: string } | null;
+  lines: StocktakeLine[];
+  summary: {
+    itemCount: number;
+    countedCount: number;
+    expectedValue: number;
+    gainValue: number;
+    lossValue: number;
+    netVarianceValue: number;
+  };
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface StocktakeDetailClientProps {
+  stocktakeId: string;
+  canWrite: boolean;
+  canApprove: boolean;
+}
+
+export default function StocktakeDetailClient({ stocktakeId, canWrite, canApprove }: StocktakeDetailClientProps) {
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [counts, setCounts] = useState<Record<string, { countedQty: string; notes: string }>>({});
+  const [newItem, setNewItem] = useState({ stockItemId: '', countedQty: '' });
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const applyStocktake = (data: Stocktake) => {
+    setStocktake(data);
+    setCounts(
+      Object.fromEntries(
+        data.lines.map((line) => [
+          line.id,
+          { countedQty: line.countedQty !== null ? line.countedQty.toString() : '', notes: line.notes || '' },
+        ])
+      )
+    );
+    setIsDirty(false);
+  };
+
+  const fetchStocktake = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/stock/stocktakes/${stocktakeId}`);
+      const data = await response.json();
+      if (data.ok) {
+        applyStocktake(data.data);
+      } else {
+        alert(data.error || 'Failed to load stocktake');
+      }
+    } catch (error) {
+      console.error('Failed to fetch stocktake:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStocktake();
+
+    if (canWrite) {
+      fetch('/api/stock/items?pageSize=1000&isActive=true')
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.ok) {
+            setStockItems(data.data);
+          }
+        });
+    }
+  }, [stocktakeId]);
+
+  const updateCount = (lineId: string, field: 'countedQty' | 'notes', value: string) => {
+    setCounts({ ...counts, [lineId]: { ...counts[lineId], [field]: value } });
+    setIsDirty(true);
+  };
+
+  const saveCounts = async (extra: Array<{ stockItemId: string; countedQty: number }> = []) => {
+    if (!stocktake) return false;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/stock/stocktakes/${stocktake.id}/counts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines: [
+            ...stocktake.lines.map((line) => ({
+              lineId: line.id,
+              countedQty: counts[line.id]?.countedQty === '' ? null : parseFloat(counts[line.id]?.countedQty),
+              notes: counts[line.id]?.notes || null,
+            })),
+            ...extra,
+          ],
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        applyStocktake(data.data);
+        return true;
+      }
+      alert(data.error || 'Failed to save counts');
+    } catch (error) {
+      alert('An error occurred while saving counts');
+    } finally {
+      setIsSaving(false);
+    }
+    return false;
+  };
+
+  const handleAddItem = async () => {
+    const countedQty = parseFloat(newItem.countedQty);
+    if (!newItem.stockItemId || !(countedQty >= 0)) {
+      alert('Choose an item and enter the counted quantity');
+      return;
+    }
+    if (await saveCounts([{ stockItemId: newItem.stockItemId, countedQty }])) {
+      setNewItem({ stockItemId: '', countedQty: '' });
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!stocktake) return;
+    if (isDirty && !confirm('Unsaved counts on screen will be replaced by the upload. Continue?')) return;
+
+    setIsSaving(true);
+    setUploadErrors([]);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/stock/stocktakes/${stocktake.id}/upload`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (data.ok) {
+        applyStocktake(data.data.stocktake);
+        setUploadErrors(data.data.errors);
+      } else {
+        alert(data.error || 'Failed to upload counts');
+      }
+    } catch (error) {
+      alert('An error occurred while uploading counts');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runAction = async (action: 'submit' | 'approve' | 'cancel', message: string) => {
+    if (!stocktake) return;
+    if (!confirm(message)) return;
+    if (action === 'submit' && isDirty && !(await saveCounts())) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/stock/stocktakes/${stocktake.id}/${action}`, { method: 'POST' });
+      const data = await response.json();
+      if (data.ok) {
+        applyStocktake(data.data);
+      } else {
+        alert(data.error || `Failed to ${action} stocktake`);
+      }
+    } catch (error) {
+      alert(`An error occurred while trying to ${action} the stocktake`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!stocktake) return;
+    const reason = prompt('Why should this stocktake be recounted?', '');
+    if (!reason) return;
+
+    try {
+      const response = await fetch(`/api/stock/stocktakes/${stocktake.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        applyStocktake(data.data);
+      } else {
+        alert(data.error || 'Failed to send stocktake back');
+      }
+    } catch (error) {
+      alert('An error occurred while sending the stocktake back');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  if (isLoading && !stocktake) {
+    return <div className="bg-white p-6 rounded-lg shadow text-center text-gray-500">Loading...</div>;
+  }
+  if (!stocktake) {
+    return <div className="bg-white p-6 rounded-lg shadow text-center text-gray-500">Stocktake not found</div>;
+  }
+
+  const isCounting = stocktake.status === 'COUNTING';
+  const isOpen = isCounting || stocktake.status === 'SUBMITTED';
+  const editable = isCounting && canWrite;
+  const lineIds = new Set(stocktake.lines.map((line) => line.stockItem.id));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium">{stocktake.sessionNo}</h2>
+            <p className="text-sm text-gray-500">
+              {[stocktake.project?.name, stocktake.warehouse?.name].filter(Boolean).join(' - ')} - counted{' '}
+              {new Date(stocktake.countDate).toLocaleDateString()} - started by {stocktake.createdBy.name}
+            </p>
+            {stocktake.notes && <p className="text-sm text-gray-500">{stocktake.notes}</p>}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${STATUS_COLORS[stocktake.status]}`}>
+              {STATUS_LABELS[stocktake.status]}
+            </span>
+            <button
+              onClick={() => window.open(`/print/stock/stocktakes/${stocktake.id}`, '_blank')}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Print Count Sheet
+            </button>
+            {editable && (
+              <button
+                onClick={() => runAction('submit', 'Submit the counts for approval?')}
+                disabled={isSaving}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                Submit for Approval
+              </button>
+            )}
+            {stocktake.status === 'SUBMITTED' && canApprove && (
+              <>
+                <button
+                  onClick={() =>
+                    runAction('approve', 'Approve and post every variance as a stock adjustment? This cannot be undone.')
+                  }
+                  disabled={isSaving}
+                  className="py-2 px-4 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+                >
+                  Approve &amp; Post
+                </button>
+                <button
+                  onClick={handleReject}
+                  className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Send Back
+                </button>
+              </>
+            )}
+            {isOpen && canWrite && (
+              <button
+                onClick={() => runAction('cancel', 'Cancel this stocktake? Nothing will be adjusted.')}
+                className="py-2 px-4 text-sm text-red-600 hover:text-red-800"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+        {stocktake.rejectionReason && isCounting && (
+          <div className="mb-4 p-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+            Sent back for recount: {stocktake.rejectionReason}
+          </div>
+        )}
+        {stocktake.approvedBy && (
+          <p className="mb-4 text-sm text-gray-500">
+            Approved by {stocktake.approvedBy.name}
+            {stocktake.approvedAt ? ` on ${new Date(stocktake.approvedAt).toLocaleDateString()}` : ''}
+          </p>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <label className="font-medium text-gray-500">Counted</label>
+            <p className="mt-1 text-gray-900">
+              {stocktake.summary.countedCount} of {stocktake.summary.itemCount} items
+            </p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Expected Value</label>
+            <p className="mt-1 text-gray-900">{formatCurrency(stocktake.summary.expectedValue)}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Gains</label>
+            <p className="mt-1 text-green-700">{formatCurrency(stocktake.summary.gainValue)}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Losses</label>
+            <p className="mt-1 text-red-600">{formatCurrency(stocktake.summary.lossValue)}</p>
+          </div>
+          <div>
+            <label className="font-medium text-gray-500">Net Variance</label>
+            <p className="mt-1 font-semibold text-gray-900">{formatCurrency(stocktake.summary.netVarianceValue)}</p>
+          </div>
+        </div>
+      </div>
+
+      {editable && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Upload Counts (.xlsx / .csv)</label>
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                disabled={isSaving}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                  e.target.value = '';
+                }}
+                className="w-full text-sm"
+              />
+            </div>
+            <div>
+              <a
+                href={`/api/stock/stocktakes/${stocktake.id}/template`}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Download count sheet
+              </a>
+            </div>
+          </div>
+          {uploadErrors.length > 0 && (
+            <ul className="mt-4 text-sm text-red-700 space-y-1">
+              {uploadErrors.map((uploadError) => (
+                <li key={uploadError}>{uploadError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Expected</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {stocktake.lines.map((line) => (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {line.stockItem.name} ({line.stockItem.unit})
+                    {line.stockItem.sku && <div className="text-xs text-gray-500">{line.stockItem.sku}</div>}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.expectedQty.toFixed(3)}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {editable ? (
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        value={counts[line.id]?.countedQty ?? ''}
+                        onChange={(e) => updateCount(line.id, 'countedQty', e.target.value)}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right"
+                      />
+                    ) : line.countedQty !== null ? (
+                      line.countedQty.toFixed(3)
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td
+                    className={`px-6 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                      (line.varianceQty ?? 0) < 0 ? 'text-red-600' : (line.varianceQty ?? 0) > 0 ? 'text-green-700' : 'text-gray-900'
+                    }`}
+                  >
+                    {line.varianceQty !== null ? line.varianceQty.toFixed(3) : '-'}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatCurrency(line.unitCost)}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.varianceValue !== null ? formatCurrency(line.varianceValue) : '-'}
+                    {line.movement?.voucherId && (
+                      <div>
+                        <a href={`/dashboard/vouchers/${line.movement.voucherId}`} className="text-xs text-blue-600 hover:underline">
+                          Journal
+                        </a>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {editable ? (
+                      <input
+                        type="text"
+                        value={counts[line.id]?.notes ?? ''}
+                        onChange={(e) => updateCount(line.id, 'notes', e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    ) : (
+                      line.notes || '-'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {editable && (
+          <div className="p-6 border-t border-gray-200 flex flex-col md:flex-row md:items-center gap-2">
+            <select
+              value={newItem.stockItemId}
+              onChange={(e) => setNewItem({ ...newItem, stockItemId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Found an item not on the sheet?</option>
+              {stockItems
+                .filter((item) => !lineIds.has(item.id))
+                .map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} ({item.unit})
+                  </option>
+                ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.001"
+              placeholder="Counted"
+              value={newItem.countedQty}
+              onChange={(e) => setNewItem({ ...newItem, countedQty: e.target.value })}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleAddItem}
+              disabled={isSaving}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              + Add item
+            </button>
+            <button
+              type="button"
+              onClick={() => saveCounts()}
+              disabled={isSaving || !isDirty}
+              className="md:ml-auto py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Counts'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
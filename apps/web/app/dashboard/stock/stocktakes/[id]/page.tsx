@@ -0,0 +1,23 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../../components/DashboardLayout';
+import StocktakeDetailClient from './components/StocktakeDetailClient';
+
+export default async function StocktakeDetailPage({ params }: { params: { id: string } }) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'stock', 'WRITE');
+  const canApprove = can(auth.role, 'stock', 'APPROVE');
+
+  return (
+    <DashboardLayout title="Stocktake">
+      <StocktakeDetailClient stocktakeId={params.id} canWrite={canWrite} canApprove={canApprove} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type StocktakeStatus = 'COUNTING' | 'SUBMITTED' | 'POSTED' | 'CANCELLED';
+
+interface Stocktake {
+  id: string;
+  sessionNo: string;
+  countDate: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  project: { id: string; name: string } | null;
+  warehouse: { id: string; name: string } | null;
+  createdBy: { id: string; name: string };
+  lineCount: number;
+  summary: {
+    itemCount: number;
+    countedCount: number;
+    netVarianceValue: number;
+  };
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StocktakesClientProps {
+  canWrite: boolean;
+  initialProjectId: string;
+}
+
+export const STATUS_LABELS: Record<StocktakeStatus, string> = {
+  COUNTING: 'Counting',
+  SUBMITTED: 'Awaiting approval',
+  POSTED: 'Posted',
+  CANCELLED: 'Cancelled',
+};
+
+export const STATUS_COLORS: Record<StocktakeStatus, string> = {
+  COUNTING: 'bg-yellow-100 text-yellow-800',
+  SUBMITTED: 'bg-blue-100 text-blue-800',
+  POSTED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+export default function StocktakesClient({ canWrite, initialProjectId }: StocktakesClientProps) {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [projectId, setProjectId] = useState(initialProjectId);
+  const [status, setStatus] = useState<StocktakeStatus | ''>('');
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({
+    projectId: initialProjectId,
+    warehouseId: '',
+    countDate: new Date().toISOString().split('T')[0],
+    notes: '',
+  });
+
+  const fetchStocktakes = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (projectId) params.append('projectId', projectId);
+      if (status) params.append('status', status);
+
+      const response = await fetch(`/api/stock/stocktakes?${params.toString()}`);
+      const data = await response.json();
+      if (data.ok) {
+        setStocktakes(data.data);
+      } else {
+        alert(data.error || 'Failed to load stocktakes');
+      }
+    } catch (error) {
+      console.error('Failed to fetch stocktakes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+
+    fetch('/api/stock/warehouses')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchStocktakes();
+  }, [projectId, status]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/stock/stocktakes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: formData.projectId || null,
+          warehouseId: formData.warehouseId || null,
+          countDate: formData.countDate,
+          notes: formData.notes || null,
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        window.location.href = `/dashboard/stock/stocktakes/${data.data.id}`;
+      } else {
+        alert(data.error || 'Failed to start stocktake');
+      }
+    } catch (error) {
+      alert('An error occurred while starting the stocktake');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as StocktakeStatus | '')}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Statuses</option>
+              {(Object.keys(STATUS_LABELS) as StocktakeStatus[]).map((value) => (
+                <option key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:ml-auto">
+            {canWrite && !showForm && (
+              <button
+                onClick={() => setShowForm(true)}
+                className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+              >
+                New Stocktake
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Starting a stocktake freezes the quantities the books expect. Enter or upload the counted quantities, submit
+          for approval, and the approved variances are posted as stock adjustments together.
+        </p>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Project</label>
+              <select
+                value={formData.projectId}
+                onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">No project (count a location)</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Location</label>
+              <select
+                value={formData.warehouseId}
+                onChange={(e) => setFormData({ ...formData, warehouseId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Automatic (project site store or central store)</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Count Date *</label>
+              <input
+                type="date"
+                required
+                value={formData.countDate}
+                onChange={(e) => setFormData({ ...formData, countDate: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            With a project, expected quantities come from the project&apos;s stock; without one, from the location&apos;s
+            balances.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || (!formData.projectId && !formData.warehouseId)}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Starting...' : 'Start Stocktake'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Session
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Count Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Project / Location
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Counted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Net Variance
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : stocktakes.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                    No stocktakes found
+                  </td>
+                </tr>
+              ) : (
+                stocktakes.map((stocktake) => (
+                  <tr key={stocktake.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link
+                        href={`/dashboard/stock/stocktakes/${stocktake.id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {stocktake.sessionNo}
+                      </Link>
+                      <div className="text-xs text-gray-500">by {stocktake.createdBy.name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(stocktake.countDate).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {stocktake.project?.name ?? '-'}
+                      {stocktake.warehouse && <div className="text-xs text-gray-500">{stocktake.warehouse.name}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {stocktake.summary.countedCount} / {stocktake.summary.itemCount}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                        stocktake.summary.netVarianceValue < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatCurrency(stocktake.summary.netVarianceValue)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[stocktake.status]}`}>
+                        {STATUS_LABELS[stocktake.status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
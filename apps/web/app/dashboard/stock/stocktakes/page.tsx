@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import StocktakesClient from './components/StocktakesClient';
+
+export default async function StocktakesPage({
+  searchParams,
+}: {
+  searchParams: { projectId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'stock', 'WRITE');
+
+  return (
+    <DashboardLayout title="Stocktakes">
+      <StocktakesClient canWrite={canWrite} initialProjectId={searchParams.projectId || ''} />
+    </DashboardLayout>
+  );
+}
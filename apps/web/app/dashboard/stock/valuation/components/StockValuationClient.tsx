@@ -0,0 +1,551 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type GroupBy = 'item' | 'project' | 'location';
+
+interface ValuationRow {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  qty: number;
+  unitCost: number;
+  value: number;
+}
+
+interface ValuationGroup {
+  id: string | null;
+  name: string;
+  value: number;
+  items: ValuationRow[];
+}
+
+interface UnpostedMovement {
+  movementId: string;
+  movementDate: string;
+  stockItemName: string;
+  movementKind: string | null;
+  referenceType: string | null;
+  qty: number;
+  value: number;
+  reason: string;
+}
+
+interface Reconciliation {
+  accountCode: string;
+  glBalance: number;
+  stockValue: number;
+  difference: number;
+  unpostedMovements: UnpostedMovement[];
+  unpostedValue: number;
+  unexplainedDifference: number;
+}
+
+interface Valuation {
+  asOf: string;
+  items: ValuationRow[];
+  byProject: ValuationGroup[];
+  byLocation: ValuationGroup[];
+  totalValue: number;
+  reconciliation: Reconciliation | null;
+}
+
+interface AgingItem {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  qty: number;
+  value: number;
+  oldestReceiptDate: string | null;
+  buckets: Array<{ qty: number; value: number }>;
+}
+
+interface AgingSite {
+  projectId: string | null;
+  name: string;
+  items: AgingItem[];
+  buckets: Array<{ value: number }>;
+  value: number;
+}
+
+interface Aging {
+  asOf: string;
+  bucketLabels: string[];
+  sites: AgingSite[];
+  buckets: Array<{ value: number }>;
+  totalValue: number;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+export default function StockValuationClient() {
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  const [aging, setAging] = useState<Aging | null>(null);
+  const [projects, setProjects] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [projectId, setProjectId] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('item');
+  const [expandedSite, setExpandedSite] = useState<string | null>(null);
+  const [isReclassing, setIsReclassing] = useState(false);
+
+  const fetchReports = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (asOf) params.append('asOf', asOf);
+      if (projectId) params.append('projectId', projectId);
+
+      const valuationParams = new URLSearchParams(params);
+      if (warehouseId) valuationParams.append('warehouseId', warehouseId);
+
+      const [valuationResponse, agingResponse] = await Promise.all([
+        fetch(`/api/stock/valuation?${valuationParams.toString()}`),
+        fetch(`/api/stock/aging?${params.toString()}`),
+      ]);
+      const valuationData = await valuationResponse.json();
+      const agingData = await agingResponse.json();
+
+      if (valuationData.ok) {
+        setValuation(valuationData.data);
+      } else {
+        alert(valuationData.error || 'Failed to load stock valuation');
+      }
+      if (agingData.ok) {
+        setAging(agingData.data);
+      } else {
+        alert(agingData.error || 'Failed to load stock aging');
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock valuation:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReclass = async () => {
+    if (
+      !confirm(
+        'Post a journal moving stock on hand bought before inventory accounting from Direct Materials into Inventory?'
+      )
+    ) {
+      return;
+    }
+    setIsReclassing(true);
+    try {
+      const response = await fetch('/api/stock/valuation/reclass', { method: 'POST' });
+      const result = await response.json();
+      if (!result.ok) {
+        alert(result.error || 'Failed to reclassify stock');
+        return;
+      }
+      alert(`Posted ${result.data.voucher.voucherNo} for ${formatCurrency(result.data.total)}`);
+      fetchReports();
+    } catch (error) {
+      console.error('Failed to reclassify stock:', error);
+    } finally {
+      setIsReclassing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+
+    fetch('/api/stock/warehouses?includeInactive=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWarehouses(data.data);
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchReports();
+  }, [asOf, projectId, warehouseId]);
+
+  const handlePrintAging = () => {
+    const params = new URLSearchParams();
+    if (asOf) params.append('asOf', asOf);
+    if (projectId) params.append('projectId', projectId);
+    window.open(`/print/stock/aging?${params.toString()}`, '_blank');
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '-';
+  };
+
+  const groups: ValuationGroup[] = !valuation
+    ? []
+    : groupBy === 'project'
+    ? valuation.byProject
+    : groupBy === 'location'
+    ? valuation.byLocation
+    : [{ id: null, name: 'All items', value: valuation.totalValue, items: valuation.items }];
+
+  const reconciliation = valuation?.reconciliation;
+
+  return (
+    <div>
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As Of</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <select
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Locations</option>
+              {warehouses.map((warehouse) => (
+                <option key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="item">Item</option>
+              <option value="project">Project</option>
+              <option value="location">Location</option>
+            </select>
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          Stock is rebuilt from the movements up to the end of the selected day and valued at each item&apos;s costing
+          method. The ledger reconciliation is shown when no project or location filter is applied.
+        </p>
+      </div>
+
+      {valuation && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-sm font-medium text-gray-500">Stock Value</h3>
+            <p className="text-2xl font-bold text-blue-600 mt-2">{formatCurrency(valuation.totalValue)}</p>
+          </div>
+          {reconciliation && (
+            <>
+              <div className="bg-white p-6 rounded-lg shadow">
+                <h3 className="text-sm font-medium text-gray-500">Inventory Ledger ({reconciliation.accountCode})</h3>
+                <p className="text-2xl font-bold text-gray-900 mt-2">{formatCurrency(reconciliation.glBalance)}</p>
+              </div>
+              <div className="bg-white p-6 rounded-lg shadow">
+                <h3 className="text-sm font-medium text-gray-500">Difference (Stock - Ledger)</h3>
+                <p
+                  className={`text-2xl font-bold mt-2 ${
+                    Math.abs(reconciliation.difference) >= 0.01 ? 'text-red-600' : 'text-green-600'
+                  }`}
+                >
+                  {formatCurrency(reconciliation.difference)}
+                </p>
+              </div>
+              <div className="bg-white p-6 rounded-lg shadow">
+                <h3 className="text-sm font-medium text-gray-500">Unexplained</h3>
+                <p
+                  className={`text-2xl font-bold mt-2 ${
+                    Math.abs(reconciliation.unexplainedDifference) >= 0.01 ? 'text-red-600' : 'text-green-600'
+                  }`}
+                >
+                  {formatCurrency(reconciliation.unexplainedDifference)}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On Hand
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Unit Cost
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : !valuation || valuation.items.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-gray-500">
+                    No stock on hand at this date
+                  </td>
+                </tr>
+              ) : (
+                groups.map((group) => [
+                  groupBy !== 'item' && (
+                    <tr key={`group-${group.id ?? 'none'}`} className="bg-gray-50">
+                      <td colSpan={3} className="px-6 py-3 text-sm font-semibold text-gray-900">
+                        {group.name}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">
+                        {formatCurrency(group.value)}
+                      </td>
+                    </tr>
+                  ),
+                  ...group.items.map((item) => (
+                    <tr key={`${group.id ?? 'none'}-${item.stockItemId}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {item.stockItemName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {item.qty.toFixed(3)} {item.stockItemUnit}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(item.unitCost)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(item.value)}
+                      </td>
+                    </tr>
+                  )),
+                ])
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {reconciliation && reconciliation.unexplainedDifference >= 0.01 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+          <p className="text-sm text-yellow-800">
+            The Inventory ledger is short of the stock value. Stock bought before purchases were received into
+            Inventory is still carried in Direct Materials, and issuing it would charge the project twice.
+          </p>
+          <button
+            onClick={handleReclass}
+            disabled={isReclassing}
+            className="px-4 py-2 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            {isReclassing ? 'Posting...' : 'Reclassify to Inventory'}
+          </button>
+        </div>
+      )}
+
+      {reconciliation && reconciliation.unpostedMovements.length > 0 && (
+        <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Movements Not in the Ledger</h2>
+            <p className="text-sm text-gray-500">
+              These movements change stock without a journal, and explain{' '}
+              {formatCurrency(reconciliation.unpostedValue)} of the difference.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Item
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Qty
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Value
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {reconciliation.unpostedMovements.map((movement) => (
+                  <tr key={movement.movementId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(movement.movementDate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{movement.stockItemName}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{movement.reason}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {movement.qty.toFixed(3)}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                        movement.value < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatCurrency(movement.value)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Stock Aging by Site</h2>
+            <p className="text-sm text-gray-500">Value on hand by how long ago it was received.</p>
+          </div>
+          <button
+            onClick={handlePrintAging}
+            disabled={!aging || aging.sites.length === 0}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50"
+          >
+            Print
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Site
+                </th>
+                {aging?.bucketLabels.map((label) => (
+                  <th
+                    key={label}
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {!aging || aging.sites.length === 0 ? (
+                <tr>
+                  <td colSpan={(aging?.bucketLabels.length ?? 0) + 2} className="px-6 py-4 text-center text-gray-500">
+                    {isLoading ? 'Loading...' : 'No stock on hand at this date'}
+                  </td>
+                </tr>
+              ) : (
+                aging.sites.map((site) => {
+                  const siteKey = site.projectId ?? 'central';
+                  return [
+                    <tr
+                      key={siteKey}
+                      onClick={() => setExpandedSite(expandedSite === siteKey ? null : siteKey)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {expandedSite === siteKey ? '▾' : '▸'} {site.name}
+                      </td>
+                      {site.buckets.map((bucket, index) => (
+                        <td key={index} className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                          {formatCurrency(bucket.value)}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-gray-900">
+                        {formatCurrency(site.value)}
+                      </td>
+                    </tr>,
+                    ...(expandedSite === siteKey
+                      ? site.items.map((item) => (
+                          <tr key={`${siteKey}-${item.stockItemId}`} className="bg-gray-50">
+                            <td className="px-6 py-2 pl-12 whitespace-nowrap text-sm text-gray-700">
+                              {item.stockItemName}
+                              <span className="ml-2 text-xs text-gray-500">
+                                {item.qty.toFixed(3)} {item.stockItemUnit}, oldest {formatDate(item.oldestReceiptDate)}
+                              </span>
+                            </td>
+                            {item.buckets.map((bucket, index) => (
+                              <td key={index} className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                                {bucket.qty > 0 ? formatCurrency(bucket.value) : '-'}
+                              </td>
+                            ))}
+                            <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                              {formatCurrency(item.value)}
+                            </td>
+                          </tr>
+                        ))
+                      : []),
+                  ];
+                })
+              )}
+            </tbody>
+            {aging && aging.sites.length > 0 && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-3 text-sm font-semibold text-gray-900">Total</td>
+                  {aging.buckets.map((bucket, index) => (
+                    <td key={index} className="px-6 py-3 text-sm text-right font-semibold text-gray-900">
+                      {formatCurrency(bucket.value)}
+                    </td>
+                  ))}
+                  <td className="px-6 py-3 text-sm text-right font-semibold text-blue-600">
+                    {formatCurrency(aging.totalValue)}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
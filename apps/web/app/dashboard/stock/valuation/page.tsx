@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockValuationClient from './components/StockValuationClient';
+
+export default async function StockValuationPage() {
+  try {
+    await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  return (
+    <DashboardLayout title="Stock Valuation">
+      <StockValuationClient />
+    </DashboardLayout>
+  );
+}
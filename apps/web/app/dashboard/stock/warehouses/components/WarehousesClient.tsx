@@ -0,0 +1,320 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Warehouse {
+  id: string;
+  name: string;
+  code: string | null;
+  address: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  project: { id: string; name: string } | null;
+  itemCount: number;
+  stockValue: number;
+}
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface WarehousesClientProps {
+  canWrite: boolean;
+}
+
+const emptyForm = {
+  name: '',
+  code: '',
+  address: '',
+  projectId: '',
+};
+
+export default function WarehousesClient({ canWrite }: WarehousesClientProps) {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchWarehouses = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/stock/warehouses?includeInactive=true');
+      const data = await response.json();
+      if (data.ok) {
+        setWarehouses(data.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch stock locations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWarehouses();
+
+    fetch('/api/projects?pageSize=1000')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setProjects(data.data);
+        }
+      });
+  }, []);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/stock/warehouses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          code: formData.code || undefined,
+          address: formData.address || undefined,
+          projectId: formData.projectId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.ok) {
+        setShowForm(false);
+        setFormData(emptyForm);
+        await fetchWarehouses();
+      } else {
+        alert(data.error || 'Failed to create location');
+      }
+    } catch (error) {
+      alert('An error occurred while creating the location');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async (warehouse: Warehouse, changes: { isDefault?: boolean; isActive?: boolean }) => {
+    try {
+      const response = await fetch(`/api/stock/warehouses/${warehouse.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (data.ok) {
+        await fetchWarehouses();
+      } else {
+        alert(data.error || 'Failed to update location');
+      }
+    } catch (error) {
+      alert('An error occurred while updating the location');
+    }
+  };
+
+  // A project can have only one site store
+  const availableProjects = projects.filter(
+    (project) => !warehouses.some((warehouse) => warehouse.project?.id === project.id)
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-600">
+          Stock is held per location. Receipts and issues for a project use its site store when it has one, otherwise
+          the central store.
+        </p>
+        {canWrite && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            Add Location
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Address</label>
+              <input
+                type="text"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Site Store For Project</label>
+              <select
+                value={formData.projectId}
+                onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">None (shared store)</option>
+                {availableProjects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="py-2 px-4 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Create Location'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setFormData(emptyForm);
+              }}
+              className="py-2 px-4 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Project
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Items
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock Value
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                {canWrite && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={canWrite ? 6 : 5} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : warehouses.length === 0 ? (
+                <tr>
+                  <td colSpan={canWrite ? 6 : 5} className="px-6 py-4 text-center text-gray-500">
+                    No stock locations found
+                  </td>
+                </tr>
+              ) : (
+                warehouses.map((warehouse) => (
+                  <tr key={warehouse.id} className={warehouse.isActive ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {warehouse.name}
+                        {warehouse.code && <span className="ml-2 text-xs text-gray-500">{warehouse.code}</span>}
+                      </div>
+                      {warehouse.address && <div className="text-xs text-gray-500">{warehouse.address}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {warehouse.project?.name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {warehouse.itemCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(warehouse.stockValue)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {warehouse.isDefault ? (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                          Central Store
+                        </span>
+                      ) : warehouse.isActive ? (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          Active
+                        </span>
+                      ) : (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                          Inactive
+                        </span>
+                      )}
+                    </td>
+                    {canWrite && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                        {!warehouse.isDefault && !warehouse.project && warehouse.isActive && (
+                          <button
+                            onClick={() => handleUpdate(warehouse, { isDefault: true })}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Make Central
+                          </button>
+                        )}
+                        {!warehouse.isDefault && (
+                          <button
+                            onClick={() => handleUpdate(warehouse, { isActive: !warehouse.isActive })}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            {warehouse.isActive ? 'Deactivate' : 'Activate'}
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
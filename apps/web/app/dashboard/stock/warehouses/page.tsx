@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import DashboardLayout from '../../components/DashboardLayout';
+import WarehousesClient from './components/WarehousesClient';
+
+export default async function WarehousesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'stock', 'WRITE');
+
+  return (
+    <DashboardLayout title="Stock Locations">
+      <WarehousesClient canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
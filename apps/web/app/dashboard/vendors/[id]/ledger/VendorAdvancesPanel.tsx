@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+export interface VendorAdvance {
+  lineId: string;
+  voucherId: string;
+  voucherNo: string;
+  date: Date;
+  narration: string;
+  amount: number;
+  appliedAmount: number;
+  unapplied: number;
+}
+
+interface OpenItem {
+  lineId: string;
+  voucherNo: string;
+  date: string;
+  narration: string;
+  outstanding: number;
+}
+
+interface VendorAdvancesPanelProps {
+  vendorId: string;
+  advances: VendorAdvance[];
+  unappliedAdvance: number;
+  canApply: boolean;
+}
+
+export default function VendorAdvancesPanel({
+  vendorId,
+  advances,
+  unappliedAdvance,
+  canApply,
+}: VendorAdvancesPanelProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showManual, setShowManual] = useState(false);
+  const [openItems, setOpenItems] = useState<OpenItem[]>([]);
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const totalAllocated = Object.values(allocations).reduce((sum, amount) => sum + amount, 0);
+
+  const openManual = async () => {
+    try {
+      const response = await fetch(`/api/vendors/${vendorId}/open-items`);
+      const data = await response.json();
+      if (data.ok) {
+        setOpenItems(data.data);
+        setAllocations({});
+        setShowManual(true);
+      } else {
+        alert(data.error || 'Failed to load open items');
+      }
+    } catch (error) {
+      alert('An error occurred while loading open items');
+    }
+  };
+
+  const updateAllocation = (item: OpenItem, amount: number) => {
+    setAllocations((prev) => ({
+      ...prev,
+      [item.lineId]: Math.max(0, Math.min(amount, item.outstanding)),
+    }));
+  };
+
+  const apply = async (mode: 'FIFO' | 'MANUAL') => {
+    const allocationEntries = Object.entries(allocations)
+      .filter(([_, amount]) => amount > 0)
+      .map(([sourceLineId, amount]) => ({ sourceLineId, amount }));
+
+    if (mode === 'FIFO') {
+      if (!confirm('Apply the unapplied advance to open bills, oldest first?')) return;
+    } else if (allocationEntries.length === 0) {
+      alert('Enter an amount against at least one bill');
+      return;
+    } else if (totalAllocated > unappliedAdvance + 0.001) {
+      alert(`Allocations exceed the unapplied advance of ${toMoney(unappliedAdvance)}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/vendors/${vendorId}/advances/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode,
+          date,
+          ...(mode === 'MANUAL' ? { allocations: allocationEntries } : {}),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowManual(false);
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to apply advance');
+      }
+    } catch (error) {
+      alert('An error occurred while applying the advance');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Advances</h3>
+          <p className="text-sm text-gray-500">Unapplied credit: {toMoney(unappliedAdvance)}</p>
+        </div>
+        {canApply && unappliedAdvance > 0 && (
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="text-sm border border-gray-300 rounded px-2 py-1"
+            />
+            <button
+              onClick={() => apply('FIFO')}
+              disabled={isSubmitting}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Auto-apply (FIFO)
+            </button>
+            <button
+              onClick={() => (showManual ? setShowManual(false) : openManual())}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {showManual ? 'Close' : 'Apply Manually'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showManual && (
+        <div className="p-6 border-b border-gray-200">
+          {openItems.length === 0 ? (
+            <p className="text-sm text-gray-500">No open bills for this vendor.</p>
+          ) : (
+            <>
+              <table className="min-w-full divide-y divide-gray-200 border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher No</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Apply</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {openItems.map((item) => (
+                    <tr key={item.lineId}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{item.voucherNo}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{new Date(item.date).toLocaleDateString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{item.narration || '-'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900 text-right">{toMoney(item.outstanding)}</td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={item.outstanding}
+                          value={allocations[item.lineId] || 0}
+                          onChange={(e) => updateAllocation(item, parseFloat(e.target.value) || 0)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm sm:text-sm text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-4 flex items-center justify-end gap-4">
+                <span className="text-sm text-gray-700">
+                  Applying {toMoney(totalAllocated)} of {toMoney(unappliedAdvance)}
+                </span>
+                <button
+                  onClick={() => apply('MANUAL')}
+                  disabled={isSubmitting || totalAllocated === 0}
+                  className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Applying...' : 'Apply Advance'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Voucher No</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Advance</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Applied</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Unapplied</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {advances.map((advance) => (
+              <tr key={advance.lineId} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {new Date(advance.date).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <a
+                    href={`/dashboard/vouchers/${advance.voucherId}`}
+                    className="text-blue-600 hover:text-blue-900 font-medium"
+                  >
+                    {advance.voucherNo}
+                  </a>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">{advance.narration || '-'}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {toMoney(advance.amount)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                  {toMoney(advance.appliedAmount)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600 text-right">
+                  {toMoney(advance.unapplied)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
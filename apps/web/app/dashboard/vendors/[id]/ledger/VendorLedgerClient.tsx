@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { toMoney } from '@/lib/payables';
+import VendorAdvancesPanel, { VendorAdvance } from './VendorAdvancesPanel';
 
 interface VendorLedgerClientProps {
   vendor: {
@@ -27,6 +28,8 @@ interface VendorLedgerClientProps {
   }>;
   glBalance: number;
   openBalance: number;
+  advances: VendorAdvance[];
+  unappliedAdvance: number;
   vendorId: string;
   canCreatePayment: boolean;
 }
@@ -36,6 +39,8 @@ export default function VendorLedgerClient({
   lines,
   glBalance,
   openBalance,
+  advances,
+  unappliedAdvance,
   vendorId,
   canCreatePayment,
 }: VendorLedgerClientProps) {
@@ -149,11 +154,26 @@ export default function VendorLedgerClient({
                   {toMoney(openBalance)}
                 </span>
               </div>
+              {unappliedAdvance > 0 && (
+                <div>
+                  <span className="text-sm text-gray-500">Unapplied Advance:</span>
+                  <span className="ml-2 text-lg font-semibold text-blue-600">{toMoney(unappliedAdvance)}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      {advances.length > 0 && (
+        <VendorAdvancesPanel
+          vendorId={vendorId}
+          advances={advances}
+          unappliedAdvance={unappliedAdvance}
+          canApply={canCreatePayment}
+        />
+      )}
+
       {/* Ledger Table */}
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
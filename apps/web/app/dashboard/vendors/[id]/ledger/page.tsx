@@ -27,6 +27,8 @@ export default async function VendorLedgerPage({ params }: { params: { id: strin
           lines={ledgerData.lines}
           glBalance={glBalance}
           openBalance={openBalance}
+          advances={ledgerData.advances}
+          unappliedAdvance={ledgerData.unappliedAdvance}
           vendorId={params.id}
           canCreatePayment={canWrite}
         />
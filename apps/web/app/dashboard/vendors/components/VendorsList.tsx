@@ -20,6 +20,11 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
     phone: '',
     address: '',
     notes: '',
+    paymentTermDays: '0',
+    bankName: '',
+    bankAccountName: '',
+    bankAccountNo: '',
+    bankRoutingNo: '',
     isActive: true,
   });
 
@@ -62,6 +67,11 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
         phone: formData.phone || null,
         address: formData.address || null,
         notes: formData.notes || null,
+        paymentTermDays: parseInt(formData.paymentTermDays) || 0,
+        bankName: formData.bankName || null,
+        bankAccountName: formData.bankAccountName || null,
+        bankAccountNo: formData.bankAccountNo || null,
+        bankRoutingNo: formData.bankRoutingNo || null,
         isActive: formData.isActive,
       };
 
@@ -76,7 +86,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
       if (data.ok) {
         setEditingId(null);
         setShowCreateForm(false);
-        setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+        setFormData({ name: '', phone: '', address: '', notes: '', paymentTermDays: '0', bankName: '', bankAccountName: '', bankAccountNo: '', bankRoutingNo: '', isActive: true });
         fetchVendors();
       } else {
         alert(data.error || 'Failed to save vendor');
@@ -93,6 +103,11 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
       phone: vendor.phone || '',
       address: vendor.address || '',
       notes: vendor.notes || '',
+      paymentTermDays: String(vendor.paymentTermDays ?? 0),
+      bankName: vendor.bankName || '',
+      bankAccountName: vendor.bankAccountName || '',
+      bankAccountNo: vendor.bankAccountNo || '',
+      bankRoutingNo: vendor.bankRoutingNo || '',
       isActive: vendor.isActive,
     });
   };
@@ -141,7 +156,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
             onClick={() => {
               setShowCreateForm(true);
               setEditingId(null);
-              setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+              setFormData({ name: '', phone: '', address: '', notes: '', paymentTermDays: '0', bankName: '', bankAccountName: '', bankAccountNo: '', bankRoutingNo: '', isActive: true });
             }}
             className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
           >
@@ -178,6 +193,54 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Payment Terms (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="365"
+                  value={formData.paymentTermDays}
+                  onChange={(e) => setFormData({ ...formData, paymentTermDays: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">0 = due on the bill date; 30 = net 30</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Bank</label>
+                <input
+                  type="text"
+                  value={formData.bankName}
+                  onChange={(e) => setFormData({ ...formData, bankName: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Account Name</label>
+                <input
+                  type="text"
+                  value={formData.bankAccountName}
+                  onChange={(e) => setFormData({ ...formData, bankAccountName: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Account No</label>
+                <input
+                  type="text"
+                  value={formData.bankAccountNo}
+                  onChange={(e) => setFormData({ ...formData, bankAccountNo: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Routing No</label>
+                <input
+                  type="text"
+                  value={formData.bankRoutingNo}
+                  onChange={(e) => setFormData({ ...formData, bankRoutingNo: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700">Address</label>
                 <input
@@ -202,7 +265,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                 type="button"
                 onClick={() => {
                   setShowCreateForm(false);
-                  setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+                  setFormData({ name: '', phone: '', address: '', notes: '', paymentTermDays: '0', bankName: '', bankAccountName: '', bankAccountNo: '', bankRoutingNo: '', isActive: true });
                 }}
                 className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
               >
@@ -235,6 +298,9 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Phone
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Terms
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Address
                 </th>
@@ -253,7 +319,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                 <tr key={vendor.id}>
                   {editingId === vendor.id ? (
                     <>
-                      <td colSpan={canWrite ? 5 : 4} className="px-6 py-4">
+                      <td colSpan={canWrite ? 6 : 5} className="px-6 py-4">
                         <form
                           onSubmit={(e) => handleSubmit(e, vendor.id)}
                           className="space-y-4"
@@ -287,6 +353,73 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                               />
                             </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">
+                                Payment Terms (days)
+                              </label>
+                              <input
+                                type="number"
+                                min="0"
+                                max="365"
+                                value={formData.paymentTermDays}
+                                onChange={(e) =>
+                                  setFormData({ ...formData, paymentTermDays: e.target.value })
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">
+                                Bank
+                              </label>
+                              <input
+                                type="text"
+                                value={formData.bankName}
+                                onChange={(e) =>
+                                  setFormData({ ...formData, bankName: e.target.value })
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">
+                                Account Name
+                              </label>
+                              <input
+                                type="text"
+                                value={formData.bankAccountName}
+                                onChange={(e) =>
+                                  setFormData({ ...formData, bankAccountName: e.target.value })
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">
+                                Account No
+                              </label>
+                              <input
+                                type="text"
+                                value={formData.bankAccountNo}
+                                onChange={(e) =>
+                                  setFormData({ ...formData, bankAccountNo: e.target.value })
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">
+                                Routing No
+                              </label>
+                              <input
+                                type="text"
+                                value={formData.bankRoutingNo}
+                                onChange={(e) =>
+                                  setFormData({ ...formData, bankRoutingNo: e.target.value })
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
                             <div className="md:col-span-2">
                               <label className="block text-sm font-medium text-gray-700">
                                 Address
@@ -335,6 +468,11 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                                   phone: '',
                                   address: '',
                                   notes: '',
+                                  paymentTermDays: '0',
+                                  bankName: '',
+                                  bankAccountName: '',
+                                  bankAccountNo: '',
+                                  bankRoutingNo: '',
                                   isActive: true,
                                 });
                               }}
@@ -370,6 +508,9 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {vendor.phone || '-'}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {vendor.paymentTermDays ? `Net ${vendor.paymentTermDays}` : 'On receipt'}
+                      </td>
                       <td className="px-6 py-4 text-sm text-gray-900">{vendor.address || '-'}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
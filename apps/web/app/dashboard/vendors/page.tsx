@@ -27,6 +27,11 @@ export default async function VendorsPage() {
       phone: true,
       address: true,
       notes: true,
+      paymentTermDays: true,
+      bankName: true,
+      bankAccountName: true,
+      bankAccountNo: true,
+      bankRoutingNo: true,
       isActive: true,
       createdAt: true,
       updatedAt: true,
@@ -4,11 +4,39 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 
+interface ApprovalState {
+  policyName: string | null;
+  steps: Array<{ sequence: number; name: string | null; approverRoles: string[] }>;
+  approvals: Array<{
+    id: string;
+    sequence: number;
+    stepName: string | null;
+    comment: string | null;
+    approvedAt: Date | string;
+    approver: { id: string; name: string; email: string };
+  }>;
+  nextStep: { sequence: number; name: string | null; approverRoles: string[] } | null;
+  canApprove: boolean;
+  canReject: boolean;
+  reason: string | null;
+}
+
+interface TimelineEvent {
+  id: string;
+  kind: 'CREATED' | 'EDITED' | 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'POSTED' | 'REVERSED';
+  at: Date | string;
+  actor: { id: string; name: string };
+  detail: string | null;
+}
+
 interface VoucherDetailProps {
   voucher: any;
+  approval: ApprovalState;
+  timeline: TimelineEvent[];
   canEdit: boolean;
   canSubmit: boolean;
   canApprove: boolean;
+  canReject: boolean;
   canPost: boolean;
   canReverse: boolean;
   currentUserId: string;
@@ -16,9 +44,12 @@ interface VoucherDetailProps {
 
 export default function VoucherDetail({
   voucher,
+  approval,
+  timeline,
   canEdit,
   canSubmit,
   canApprove,
+  canReject,
   canPost,
   canReverse,
   currentUserId,
@@ -26,6 +57,9 @@ export default function VoucherDetail({
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
   const [isPosting, setIsPosting] = useState(false);
   const [isReversing, setIsReversing] = useState(false);
   const [showReverseModal, setShowReverseModal] = useState(false);
@@ -34,6 +68,12 @@ export default function VoucherDetail({
     `Reversal of ${voucher.voucherNo}`
   );
 
+  // Once approval is complete the recorded approvals are shown as-is, even if the policy has since changed
+  const approvalSteps =
+    voucher.status === 'SUBMITTED'
+      ? approval.steps
+      : approval.approvals.map((a) => ({ sequence: a.sequence, name: a.stepName, approverRoles: [] as string[] }));
+
   const totalDebit = voucher.lines.reduce((sum: number, line: any) => sum + Number(line.debit), 0);
   const totalCredit = voucher.lines.reduce((sum: number, line: any) => sum + Number(line.credit), 0);
 
@@ -63,7 +103,8 @@ export default function VoucherDetail({
   };
 
   const handleApprove = async () => {
-    if (!confirm('Are you sure you want to approve this voucher?')) {
+    const comment = prompt('Approve this voucher? Add an optional comment:', '');
+    if (comment === null) {
       return;
     }
 
@@ -71,6 +112,10 @@ export default function VoucherDetail({
     try {
       const response = await fetch(`/api/vouchers/${voucher.id}/approve`, {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ comment: comment || null }),
       });
 
       const data = await response.json();
@@ -87,6 +132,36 @@ export default function VoucherDetail({
     }
   };
 
+  const handleReject = async () => {
+    if (!rejectReason.trim()) {
+      alert('Please enter a reason for rejecting this voucher');
+      return;
+    }
+
+    setIsRejecting(true);
+    try {
+      const response = await fetch(`/api/vouchers/${voucher.id}/reject`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: rejectReason }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        window.location.reload();
+      } else {
+        alert(data.error || 'Failed to reject voucher');
+        setIsRejecting(false);
+      }
+    } catch (error) {
+      alert('An error occurred while rejecting the voucher');
+      setIsRejecting(false);
+    }
+  };
+
   const handlePost = async () => {
     if (!confirm('Are you sure you want to post this voucher? It cannot be edited after posting.')) {
       return;
@@ -180,6 +255,32 @@ export default function VoucherDetail({
     }
   };
 
+  const timelineLabels: Record<TimelineEvent['kind'], string> = {
+    CREATED: 'Created',
+    EDITED: 'Edited',
+    SUBMITTED: 'Submitted',
+    APPROVED: 'Approved',
+    REJECTED: 'Rejected',
+    POSTED: 'Posted',
+    REVERSED: 'Reversed',
+  };
+
+  const getTimelineColor = (kind: TimelineEvent['kind']) => {
+    switch (kind) {
+      case 'SUBMITTED':
+        return 'bg-yellow-500';
+      case 'APPROVED':
+        return 'bg-blue-500';
+      case 'POSTED':
+        return 'bg-green-500';
+      case 'REJECTED':
+      case 'REVERSED':
+        return 'bg-red-500';
+      default:
+        return 'bg-gray-400';
+    }
+  };
+
   return (
     <div>
       {/* Actions */}
@@ -207,7 +308,19 @@ export default function VoucherDetail({
             disabled={isApproving}
             className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
           >
-            {isApproving ? 'Approving...' : 'Approve'}
+            {isApproving
+              ? 'Approving...'
+              : approval.steps.length > 1 && approval.nextStep
+                ? `Approve (step ${approval.nextStep.sequence} of ${approval.steps.length})`
+                : 'Approve'}
+          </button>
+        )}
+        {canReject && (
+          <button
+            onClick={() => setShowRejectModal(true)}
+            className="px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+          >
+            Reject
           </button>
         )}
         {canPost && (
@@ -249,99 +362,113 @@ export default function VoucherDetail({
         </Link>
       </div>
 
-      {/* Status Timeline */}
+      {/* Returned with a reason */}
+      {voucher.status === 'DRAFT' && voucher.rejectionReason && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <div className="text-sm font-medium text-red-900">Returned for changes</div>
+          <div className="text-sm text-red-800 mt-1">{voucher.rejectionReason}</div>
+          <div className="text-xs text-red-700 mt-1">
+            {voucher.rejectedBy?.name} on {new Date(voucher.rejectedAt).toLocaleString()}. Edit the voucher and
+            submit it again.
+          </div>
+        </div>
+      )}
+
+      {/* Status Timeline (from the audit log) */}
       <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4">Status Timeline</h3>
         <div className="space-y-3">
-          <div className="flex items-center">
-            <div
-              className={`w-3 h-3 rounded-full mr-3 ${
-                ['DRAFT', 'SUBMITTED', 'APPROVED', 'POSTED', 'REVERSED'].includes(voucher.status)
-                  ? 'bg-blue-500'
-                  : 'bg-gray-300'
-              }`}
-            />
-            <div className="flex-1">
-              <div className="text-sm font-medium text-gray-900">Draft</div>
-              <div className="text-xs text-gray-500">
-                Created by {voucher.createdBy?.name} on{' '}
-                {new Date(voucher.createdAt).toLocaleString()}
-              </div>
-            </div>
-          </div>
-          {voucher.submittedAt && (
+          {timeline.length === 0 ? (
             <div className="flex items-center">
-              <div
-                className={`w-3 h-3 rounded-full mr-3 ${
-                  ['SUBMITTED', 'APPROVED', 'POSTED', 'REVERSED'].includes(voucher.status)
-                    ? 'bg-yellow-500'
-                    : 'bg-gray-300'
-                }`}
-              />
+              <div className="w-3 h-3 rounded-full mr-3 bg-blue-500" />
               <div className="flex-1">
-                <div className="text-sm font-medium text-gray-900">Submitted</div>
+                <div className="text-sm font-medium text-gray-900">Created</div>
                 <div className="text-xs text-gray-500">
-                  {voucher.submittedBy?.name} on{' '}
-                  {new Date(voucher.submittedAt).toLocaleString()}
+                  {voucher.createdBy?.name} on {new Date(voucher.createdAt).toLocaleString()}
                 </div>
               </div>
             </div>
-          )}
-          {voucher.approvedAt && (
-            <div className="flex items-center">
-              <div
-                className={`w-3 h-3 rounded-full mr-3 ${
-                  ['APPROVED', 'POSTED', 'REVERSED'].includes(voucher.status)
-                    ? 'bg-blue-500'
-                    : 'bg-gray-300'
-                }`}
-              />
-              <div className="flex-1">
-                <div className="text-sm font-medium text-gray-900">Approved</div>
-                <div className="text-xs text-gray-500">
-                  {voucher.approvedBy?.name} on {new Date(voucher.approvedAt).toLocaleString()}
+          ) : (
+            timeline.map((event) => (
+              <div key={event.id} className="flex items-start">
+                <div className={`w-3 h-3 rounded-full mr-3 mt-1 ${getTimelineColor(event.kind)}`} />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-gray-900">{timelineLabels[event.kind]}</div>
+                  <div className="text-xs text-gray-500">
+                    {event.actor.name} on {new Date(event.at).toLocaleString()}
+                  </div>
+                  {event.detail && (
+                    <div
+                      className={`text-sm mt-1 ${event.kind === 'REJECTED' ? 'text-red-700' : 'text-gray-700'}`}
+                    >
+                      {event.detail}
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
+            ))
           )}
-          {voucher.postedAt && (
-            <div className="flex items-center">
-              <div
-                className={`w-3 h-3 rounded-full mr-3 ${
-                  ['POSTED', 'REVERSED'].includes(voucher.status) ? 'bg-green-500' : 'bg-gray-300'
-                }`}
-              />
-              <div className="flex-1">
-                <div className="text-sm font-medium text-gray-900">Posted</div>
-                <div className="text-xs text-gray-500">
-                  {voucher.postedBy?.name} on {new Date(voucher.postedAt).toLocaleString()}
-                </div>
-              </div>
+          {voucher.reversalVouchers && voucher.reversalVouchers.length > 0 && (
+            <div className="text-xs text-blue-600 ml-6">
+              <Link
+                href={`/dashboard/vouchers/${voucher.reversalVouchers[0].id}`}
+                className="hover:underline"
+              >
+                View Reversal: {voucher.reversalVouchers[0].voucherNo}
+              </Link>
             </div>
           )}
-          {voucher.reversedAt && (
-            <div className="flex items-center">
-              <div className="w-3 h-3 rounded-full mr-3 bg-red-500" />
-              <div className="flex-1">
-                <div className="text-sm font-medium text-gray-900">Reversed</div>
-                <div className="text-xs text-gray-500">
-                  {voucher.reversedBy?.name} on {new Date(voucher.reversedAt).toLocaleString()}
-                </div>
-                {voucher.reversalVouchers && voucher.reversalVouchers.length > 0 && (
-                  <div className="text-xs text-blue-600 mt-1">
-                    <Link
-                      href={`/dashboard/vouchers/${voucher.reversalVouchers[0].id}`}
-                      className="hover:underline"
-                    >
-                      View Reversal: {voucher.reversalVouchers[0].voucherNo}
-                    </Link>
+        </div>
+      </div>
+
+      {/* Approval Steps */}
+      {(voucher.status === 'SUBMITTED' || approval.approvals.length > 0) && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Approvals</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            {approval.policyName ? `Policy: ${approval.policyName}` : 'Default: one ADMIN or ACCOUNTANT approval'}
+          </p>
+          <div className="space-y-3">
+            {approvalSteps.map((step) => {
+              const recorded = approval.approvals.find((a) => a.sequence === step.sequence);
+              return (
+                <div key={step.sequence} className="flex items-start">
+                  <div
+                    className={`w-3 h-3 rounded-full mr-3 mt-1 ${recorded ? 'bg-blue-500' : 'bg-gray-300'}`}
+                  />
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-gray-900">
+                      Step {step.sequence}
+                      {step.name ? `: ${step.name}` : ''}
+                      {step.approverRoles.length > 0 && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          ({step.approverRoles.join(' / ')})
+                        </span>
+                      )}
+                    </div>
+                    {recorded ? (
+                      <>
+                        <div className="text-xs text-gray-500">
+                          Approved by {recorded.approver.name} on{' '}
+                          {new Date(recorded.approvedAt).toLocaleString()}
+                        </div>
+                        {recorded.comment && (
+                          <div className="text-sm text-gray-700 mt-1 italic">&ldquo;{recorded.comment}&rdquo;</div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="text-xs text-gray-400">Pending</div>
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
+                </div>
+              );
+            })}
+          </div>
+          {voucher.status === 'SUBMITTED' && !approval.canApprove && approval.reason && (
+            <p className="mt-4 text-xs text-gray-500">{approval.reason}</p>
           )}
         </div>
-      </div>
+      )}
 
       {/* Reversal Link (if this is a reversal voucher) */}
       {voucher.originalVoucher && (
@@ -552,6 +679,49 @@ export default function VoucherDetail({
         </div>
       )}
 
+      {/* Reject Modal */}
+      {showRejectModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Reject Voucher</h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason *
+                  </label>
+                  <textarea
+                    value={rejectReason}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                    rows={4}
+                    placeholder="Tell the creator what needs to change"
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div className="flex gap-3 justify-end pt-4">
+                  <button
+                    onClick={() => {
+                      setShowRejectModal(false);
+                      setIsRejecting(false);
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleReject}
+                    disabled={isRejecting || !rejectReason.trim()}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {isRejecting ? 'Rejecting...' : 'Return to Creator'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reverse Modal */}
       {showReverseModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
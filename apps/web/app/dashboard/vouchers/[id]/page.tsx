@@ -4,6 +4,8 @@ import { can } from '@/lib/permissions';
 import { prisma } from '@accounting/db';
 import DashboardLayout from '../../components/DashboardLayout';
 import VoucherDetail from './components/VoucherDetail';
+import { getVoucherApprovalState } from '@/lib/vouchers/approvalPolicy.server';
+import { getVoucherTimeline } from '@/lib/vouchers/timeline.server';
 
 export default async function VoucherDetailPage({ params }: { params: { id: string } }) {
   let auth;
@@ -31,6 +33,9 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
       postedBy: {
         select: { id: true, name: true, email: true },
       },
+      rejectedBy: {
+        select: { id: true, name: true, email: true },
+      },
       reversedBy: {
         select: { id: true, name: true, email: true },
       },
@@ -50,8 +55,6 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
           },
           vendor: {
             select: { id: true, name: true },
-          },
-            select: { id: true, name: true },
           },
           paymentMethod: {
             select: { id: true, name: true },
@@ -83,10 +86,14 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
 
   const canWrite = can(auth.role, 'vouchers', 'WRITE');
   const canPost = can(auth.role, 'vouchers', 'POST');
-  const canApprove = can(auth.role, 'vouchers', 'APPROVE');
+  const [approval, timeline] = await Promise.all([
+    getVoucherApprovalState(voucher, auth.userId, auth.role),
+    getVoucherTimeline(voucher.id, auth.companyId),
+  ]);
   const canEdit = voucher.status === 'DRAFT' && canWrite;
   const canSubmit = voucher.status === 'DRAFT';
-  const canApproveVoucher = voucher.status === 'SUBMITTED' && canApprove;
+  const canApproveVoucher = voucher.status === 'SUBMITTED' && approval.canApprove;
+  const canRejectVoucher = voucher.status === 'SUBMITTED' && approval.canReject;
   const canPostVoucher = voucher.status === 'APPROVED' && canPost;
   const canReverse = voucher.status === 'POSTED' && canPost;
 
@@ -96,7 +103,10 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
         voucher={voucher as any}
         canEdit={canEdit}
         canSubmit={canSubmit}
+        approval={approval}
+        timeline={timeline}
         canApprove={canApproveVoucher}
+        canReject={canRejectVoucher}
         canPost={canPostVoucher}
         canReverse={canReverse}
         currentUserId={auth.userId}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+const ROLES = ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'] as const;
+const VOUCHER_TYPES = ['JOURNAL', 'PAYMENT', 'RECEIPT', 'CONTRA'] as const;
+
+type Role = (typeof ROLES)[number];
+
+interface PolicyStep {
+  id?: string;
+  sequence?: number;
+  name: string | null;
+  approverRoles: Role[];
+  minAmount: number;
+  maxAmount: number | null;
+}
+
+interface Policy {
+  id: string;
+  name: string;
+  voucherType: string | null;
+  isActive: boolean;
+  steps: PolicyStep[];
+}
+
+interface ApprovalPoliciesClientProps {
+  initialPolicies: Policy[];
+  canWrite: boolean;
+}
+
+interface StepForm {
+  name: string;
+  approverRoles: Role[];
+  minAmount: string;
+  maxAmount: string;
+}
+
+const emptyStep = (): StepForm => ({
+  name: '',
+  approverRoles: ['ACCOUNTANT'],
+  minAmount: '0',
+  maxAmount: '',
+});
+
+export default function ApprovalPoliciesClient({ initialPolicies, canWrite }: ApprovalPoliciesClientProps) {
+  const [policies, setPolicies] = useState<Policy[]>(initialPolicies);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [voucherType, setVoucherType] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [steps, setSteps] = useState<StepForm[]>([emptyStep()]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency: 'BDT',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch('/api/vouchers/approval-policies');
+      const data = await response.json();
+      if (data.ok) {
+        setPolicies(
+          data.data.map((policy: any) => ({
+            ...policy,
+            steps: policy.steps.map((step: any) => ({
+              ...step,
+              minAmount: Number(step.minAmount),
+              maxAmount: step.maxAmount !== null ? Number(step.maxAmount) : null,
+            })),
+          }))
+        );
+      }
+    } catch (error) {
+      console.error('Failed to fetch approval policies:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setName('');
+    setVoucherType('');
+    setIsActive(true);
+    setSteps([emptyStep()]);
+  };
+
+  const handleNew = () => {
+    resetForm();
+    setShowForm(true);
+  };
+
+  const handleEdit = (policy: Policy) => {
+    setEditingId(policy.id);
+    setName(policy.name);
+    setVoucherType(policy.voucherType || '');
+    setIsActive(policy.isActive);
+    setSteps(
+      policy.steps.map((step) => ({
+        name: step.name || '',
+        approverRoles: step.approverRoles,
+        minAmount: String(step.minAmount),
+        maxAmount: step.maxAmount !== null ? String(step.maxAmount) : '',
+      }))
+    );
+    setShowForm(true);
+  };
+
+  const updateStep = (index: number, patch: Partial<StepForm>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const toggleRole = (index: number, role: Role) => {
+    const step = steps[index];
+    updateStep(index, {
+      approverRoles: step.approverRoles.includes(role)
+        ? step.approverRoles.filter((r) => r !== role)
+        : [...step.approverRoles, role],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const payload = {
+        name,
+        voucherType: voucherType || null,
+        isActive,
+        steps: steps.map((step) => ({
+          name: step.name || null,
+          approverRoles: step.approverRoles,
+          minAmount: step.minAmount ? parseFloat(step.minAmount) : 0,
+          maxAmount: step.maxAmount ? parseFloat(step.maxAmount) : null,
+        })),
+      };
+
+      const response = await fetch(
+        editingId ? `/api/vouchers/approval-policies/${editingId}` : '/api/vouchers/approval-policies',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (data.ok) {
+        resetForm();
+        fetchPolicies();
+      } else {
+        alert(data.error || 'Failed to save approval policy');
+      }
+    } catch (error) {
+      alert('An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this approval policy? Vouchers already approved are not affected.')) return;
+    try {
+      const response = await fetch(`/api/vouchers/approval-policies/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.ok) fetchPolicies();
+      else alert(data.error);
+    } catch (error) {
+      alert('An error occurred');
+    }
+  };
+
+  const describeBand = (step: PolicyStep) => {
+    if (step.maxAmount === null) {
+      return step.minAmount > 0 ? `Above ${formatCurrency(step.minAmount)}` : 'Any amount';
+    }
+    return `${formatCurrency(step.minAmount)} – ${formatCurrency(step.maxAmount)}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+        Each step applies when the voucher total falls in its amount range; applicable steps are approved in
+        order. A voucher creator can never approve their own voucher, and each step needs a different approver.
+        Without a policy, one ADMIN or ACCOUNTANT approval is required.
+      </div>
+
+      <div className="flex justify-between items-center">
+        <Link href="/dashboard/vouchers" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to Vouchers
+        </Link>
+        {canWrite && !showForm && (
+          <button
+            onClick={handleNew}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            New Policy
+          </button>
+        )}
+      </div>
+
+      {showForm && canWrite && (
+        <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">{editingId ? 'Edit Policy' : 'New Policy'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Voucher Type</label>
+              <select
+                value={voucherType}
+                onChange={(e) => setVoucherType(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">All types (fallback)</option>
+                {VOUCHER_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+                Active
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Steps</h4>
+            {steps.map((step, index) => (
+              <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">Step {index + 1}</span>
+                  {steps.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                      className="text-xs text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <input
+                    type="text"
+                    placeholder="Step name (optional)"
+                    value={step.name}
+                    onChange={(e) => updateStep(index, { name: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Minimum amount"
+                    value={step.minAmount}
+                    onChange={(e) => updateStep(index, { minAmount: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Maximum amount (blank = no limit)"
+                    value={step.maxAmount}
+                    onChange={(e) => updateStep(index, { maxAmount: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {ROLES.map((role) => (
+                    <label key={role} className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={step.approverRoles.includes(role)}
+                        onChange={() => toggleRole(index, role)}
+                      />
+                      {role}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSteps((prev) => [...prev, emptyStep()])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add step
+            </button>
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Policy'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {policies.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 text-center text-sm text-gray-500">
+          No approval policies. Vouchers need a single ADMIN or ACCOUNTANT approval.
+        </div>
+      ) : (
+        policies.map((policy) => (
+          <div key={policy.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{policy.name}</h3>
+                <p className="text-sm text-gray-500">
+                  {policy.voucherType ? `${policy.voucherType} vouchers` : 'All voucher types without their own policy'}
+                  {!policy.isActive && <span className="ml-2 text-red-600">(inactive)</span>}
+                </p>
+              </div>
+              {canWrite && (
+                <div className="flex gap-3">
+                  <button onClick={() => handleEdit(policy)} className="text-sm text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(policy.id)} className="text-sm text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Step</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Approver Roles</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {policy.steps.map((step) => (
+                  <tr key={step.id ?? step.sequence}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {step.sequence}. {step.name || `Step ${step.sequence}`}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">{describeBand(step)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                      {step.approverRoles.join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
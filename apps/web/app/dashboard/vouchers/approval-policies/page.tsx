@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import DashboardLayout from '../../components/DashboardLayout';
+import ApprovalPoliciesClient from './components/ApprovalPoliciesClient';
+import { approvalPolicyInclude } from '@/lib/vouchers/approvalPolicy.server';
+
+export default async function ApprovalPoliciesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'companies', 'WRITE');
+
+  const policies = await prisma.approvalPolicy.findMany({
+    where: { companyId: auth.companyId },
+    include: approvalPolicyInclude,
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  return (
+    <DashboardLayout title="Voucher Approval Policies">
+      <ApprovalPoliciesClient
+        initialPolicies={policies.map((policy) => ({
+          ...policy,
+          steps: policy.steps.map((step) => ({
+            ...step,
+            minAmount: Number(step.minAmount),
+            maxAmount: step.maxAmount !== null ? Number(step.maxAmount) : null,
+          })),
+        })) as any}
+        canWrite={canWrite}
+      />
+    </DashboardLayout>
+  );
+}
@@ -16,6 +16,9 @@ interface Voucher {
   approvedBy?: { id: string; name: string } | null;
   postedBy?: { id: string; name: string } | null;
   postedAt?: string | null;
+  rejectedAt?: string | null;
+  rejectionReason?: string | null;
+  rejectedBy?: { id: string; name: string } | null;
   lines: Array<{ debit: number; credit: number }>;
 }
 
@@ -23,9 +26,10 @@ interface VouchersListProps {
   canWrite: boolean;
   canPost: boolean;
   canApprove: boolean;
+  initialReturnedToMe?: boolean;
 }
 
-export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
+export default function VouchersList({ canWrite, canPost, initialReturnedToMe = false }: VouchersListProps) {
   const router = useRouter();
   const [vouchers, setVouchers] = useState<Voucher[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -34,6 +38,7 @@ export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
     dateFrom: '',
     dateTo: '',
     q: '',
+    returnedToMe: initialReturnedToMe,
   });
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
@@ -46,6 +51,7 @@ export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
       if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
       if (filters.dateTo) params.append('dateTo', filters.dateTo);
       if (filters.q) params.append('q', filters.q);
+      if (filters.returnedToMe) params.append('returnedToMe', 'true');
       params.append('page', page.toString());
       params.append('limit', '20');
 
@@ -67,7 +73,7 @@ export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
 
   useEffect(() => {
     fetchVouchers();
-  }, [filters.status, filters.dateFrom, filters.dateTo, filters.q, page]);
+  }, [filters.status, filters.dateFrom, filters.dateTo, filters.q, filters.returnedToMe, page]);
 
   const handlePost = async (id: string) => {
     if (!confirm('Are you sure you want to post this voucher? It cannot be edited after posting.')) {
@@ -140,6 +146,17 @@ export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
             className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
           />
         </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={filters.returnedToMe}
+            onChange={(e) => {
+              setFilters({ ...filters, returnedToMe: e.target.checked });
+              setPage(1);
+            }}
+          />
+          Returned to me
+        </label>
       </div>
 
       {/* Table */}
@@ -189,6 +206,11 @@ export default function VouchersList({ canWrite, canPost }: VouchersListProps) {
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-900">
                         {voucher.narration || '-'}
+                        {voucher.status === 'DRAFT' && voucher.rejectionReason && (
+                          <div className="text-xs text-red-600 mt-1">
+                            Returned{voucher.rejectedBy ? ` by ${voucher.rejectedBy.name}` : ''}: {voucher.rejectionReason}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
@@ -20,6 +20,7 @@ interface OpenItem {
   voucherId: string;
   voucherNo: string;
   date: string;
+  dueDate: string;
   narration: string;
   accountCode: string;
   accountName: string;
@@ -49,6 +50,7 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
   });
 
   const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [advanceAmount, setAdvanceAmount] = useState(0);
 
   // Fetch vendors and accounts on mount
   useEffect(() => {
@@ -117,7 +119,7 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
     }));
   };
 
-  const totalPayment = Object.values(allocations).reduce((sum, amount) => sum + amount, 0);
+  const totalPayment = Object.values(allocations).reduce((sum, amount) => sum + amount, 0) + advanceAmount;
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -133,11 +135,6 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
       return;
     }
 
-    if (openItems.length === 0) {
-      setError('No open items found for this vendor');
-      return;
-    }
-
     // Build allocations array (only include non-zero allocations)
     const allocationEntries = Object.entries(allocations)
       .filter(([_, amount]) => amount > 0)
@@ -146,8 +143,8 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
         amount,
       }));
 
-    if (allocationEntries.length === 0) {
-      setError('Please allocate at least one payment amount');
+    if (allocationEntries.length === 0 && advanceAmount === 0) {
+      setError('Please allocate at least one payment amount or enter an advance');
       return;
     }
 
@@ -165,6 +162,7 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
           narration: formData.narration || null,
           paymentAccountId: formData.paymentAccountId,
           allocations: allocationEntries,
+          advanceAmount,
         }),
       });
 
@@ -267,17 +265,16 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
         <div>
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-medium">Open Items</h3>
-            {openItems.length > 0 && (
-              <div className="text-sm font-medium text-gray-700">
-                Total Payment: <span className="text-green-600">{totalPayment.toFixed(2)}</span>
-              </div>
-            )}
+            <div className="text-sm font-medium text-gray-700">
+              Total Payment: <span className="text-green-600">{totalPayment.toFixed(2)}</span>
+            </div>
           </div>
 
           {openItems.length === 0 ? (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <p className="text-sm text-yellow-800">
-                No open items found for this vendor. All payables have been fully paid.
+                No open items found for this vendor. All payables have been fully paid. You can still pay an
+                advance below.
               </p>
             </div>
           ) : (
@@ -287,6 +284,7 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
                   <tr>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher No</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Original</th>
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid</th>
@@ -301,6 +299,13 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
                       <td className="px-4 py-2 text-sm text-gray-500">
                         {new Date(item.date).toLocaleDateString()}
                       </td>
+                      <td
+                        className={`px-4 py-2 text-sm ${
+                          new Date(item.dueDate) < new Date() ? 'text-red-600' : 'text-gray-500'
+                        }`}
+                      >
+                        {new Date(item.dueDate).toLocaleDateString()}
+                      </td>
                       <td className="px-4 py-2 text-sm text-gray-500">{item.narration || '-'}</td>
                       <td className="px-4 py-2 text-sm text-gray-900 text-right">
                         {item.originalAmount.toFixed(2)}
@@ -328,6 +333,24 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
               </table>
             </div>
           )}
+
+          <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-end gap-2">
+            <label htmlFor="advanceAmount" className="text-sm font-medium text-gray-700">
+              Advance (not against a bill)
+            </label>
+            <input
+              type="number"
+              id="advanceAmount"
+              step="0.01"
+              min="0"
+              value={advanceAmount || 0}
+              onChange={(e) => setAdvanceAmount(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right"
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 text-right">
+            Advances are held on the Vendor Advances account and can be applied to later bills from the vendor ledger.
+          </p>
         </div>
       )}
 
@@ -5,7 +5,11 @@ import DashboardLayout from '../components/DashboardLayout';
 import VouchersList from './components/VouchersList';
 import Link from 'next/link';
 
-export default async function VouchersPage() {
+export default async function VouchersPage({
+  searchParams,
+}: {
+  searchParams: { returned?: string };
+}) {
   let auth;
   try {
     auth = await requirePermissionServer('vouchers', 'READ');
@@ -31,7 +35,12 @@ export default async function VouchersPage() {
         ) : null
       }
     >
-      <VouchersList canWrite={canWrite} canPost={canPost} canApprove={canApprove} />
+      <VouchersList
+        canWrite={canWrite}
+        canPost={canPost}
+        canApprove={canApprove}
+        initialReturnedToMe={searchParams.returned === '1'}
+      />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,211 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getReconciliation } from '@/lib/banking/bankReconciliation.server';
+
+interface BookItem {
+  voucherNo: string;
+  date: string;
+  description: string | null;
+  chequeNo: string | null;
+  amount: number;
+}
+
+interface StatementItem {
+  date: string;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+}
+
+interface ReconciliationDetails {
+  outstandingCheques: BookItem[];
+  depositsInTransit: BookItem[];
+  unrecordedItems: StatementItem[];
+  adjustedBookBalance: number;
+}
+
+export default async function PrintBankReconciliationPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const reconciliation = await getReconciliation(params.id, auth.companyId);
+  if (!reconciliation) {
+    redirect('/dashboard/reports/financial/bank-reconciliation');
+  }
+
+  // Snapshot taken when the reconciliation was saved
+  const details = reconciliation.details as unknown as ReconciliationDetails;
+  const period = new Date(reconciliation.year, reconciliation.month - 1, 1).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+  });
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  const cell = { border: '1px solid #000', padding: '6px' } as const;
+  const numberCell = { ...cell, textAlign: 'right' } as const;
+  const labelCell = { padding: '5px', fontWeight: 'bold', width: '70%' } as const;
+  const amountCell = { padding: '5px', textAlign: 'right' } as const;
+
+  const bookTable = (title: string, items: BookItem[], total: number) => (
+    <div style={{ marginBottom: '20px' }}>
+      <h2 style={{ fontSize: '12pt', margin: '10px 0' }}>{title}</h2>
+      {items.length === 0 ? (
+        <div style={{ color: '#666' }}>None</div>
+      ) : (
+        <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cell, textAlign: 'left' }}>Date</th>
+              <th style={{ ...cell, textAlign: 'left' }}>Voucher</th>
+              <th style={{ ...cell, textAlign: 'left' }}>Cheque No</th>
+              <th style={{ ...cell, textAlign: 'left' }}>Description</th>
+              <th style={numberCell}>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, index) => (
+              <tr key={index}>
+                <td style={cell}>{formatDate(item.date)}</td>
+                <td style={cell}>{item.voucherNo}</td>
+                <td style={cell}>{item.chequeNo || '-'}</td>
+                <td style={cell}>{item.description || ''}</td>
+                <td style={numberCell}>{toMoney(item.amount)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td style={{ ...cell, fontWeight: 'bold' }} colSpan={4}>
+                Total
+              </td>
+              <td style={{ ...numberCell, fontWeight: 'bold' }}>{toMoney(total)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>BANK RECONCILIATION STATEMENT</h1>
+        <div>
+          {reconciliation.bankAccount.code} - {reconciliation.bankAccount.name} | {period} | As of{' '}
+          {formatDate(reconciliation.statementDate)}
+        </div>
+        {reconciliation.notes && <div style={{ marginTop: '5px' }}>{reconciliation.notes}</div>}
+      </div>
+
+      {/* Summary */}
+      <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={labelCell}>Balance as per Bank Statement:</td>
+              <td style={amountCell}>{toMoney(reconciliation.statementBalance)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Less: Outstanding Cheques</td>
+              <td style={amountCell}>({toMoney(reconciliation.outstandingCheques)})</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Add: Deposits in Transit</td>
+              <td style={amountCell}>{toMoney(reconciliation.depositsInTransit)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Reconciled Bank Balance:</td>
+              <td style={{ ...amountCell, fontWeight: 'bold' }}>{toMoney(reconciliation.reconciledBalance)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Balance as per Books:</td>
+              <td style={amountCell}>{toMoney(reconciliation.bookBalance)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Add/(Less): Items on Statement Not in Books</td>
+              <td style={amountCell}>{toMoney(reconciliation.unrecordedItems)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Adjusted Book Balance:</td>
+              <td style={{ ...amountCell, fontWeight: 'bold' }}>{toMoney(details.adjustedBookBalance)}</td>
+            </tr>
+            <tr>
+              <td style={labelCell}>Difference:</td>
+              <td style={{ ...amountCell, fontWeight: 'bold' }}>{toMoney(reconciliation.difference)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {bookTable('Outstanding Cheques', details.outstandingCheques, Number(reconciliation.outstandingCheques))}
+      {bookTable('Deposits in Transit', details.depositsInTransit, Number(reconciliation.depositsInTransit))}
+
+      <div style={{ marginBottom: '20px' }}>
+        <h2 style={{ fontSize: '12pt', margin: '10px 0' }}>Items on Statement Not in Books</h2>
+        {details.unrecordedItems.length === 0 ? (
+          <div style={{ color: '#666' }}>None</div>
+        ) : (
+          <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr>
+                <th style={{ ...cell, textAlign: 'left' }}>Date</th>
+                <th style={{ ...cell, textAlign: 'left' }}>Reference</th>
+                <th style={{ ...cell, textAlign: 'left' }}>Description</th>
+                <th style={numberCell}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.unrecordedItems.map((item, index) => (
+                <tr key={index}>
+                  <td style={cell}>{formatDate(item.date)}</td>
+                  <td style={cell}>{item.reference || '-'}</td>
+                  <td style={cell}>{item.description || ''}</td>
+                  <td style={numberCell}>{toMoney(item.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Signatures */}
+      <div className="print-signatures" style={{ marginTop: '40px' }}>
+        <div className="print-signature-line">
+          <div>Prepared by:</div>
+          <div style={{ marginTop: '30px' }}>{reconciliation.preparedBy.name}</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Checked by:</div>
+          <div style={{ marginTop: '30px' }}>&nbsp;</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Approved by:</div>
+          <div style={{ marginTop: '30px' }}>&nbsp;</div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">Generated on {generatedAt}</div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getPayablesAging } from '@/lib/payables';
+
+export default async function PrintPayablesAgingPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string; groupBy?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOf = searchParams.asOf ? new Date(searchParams.asOf) : new Date();
+  if (isNaN(asOf.getTime())) {
+    redirect('/dashboard/reports/payables/aging');
+  }
+  if (searchParams.asOf) {
+    asOf.setHours(23, 59, 59, 999);
+  }
+  const groupBy = searchParams.groupBy === 'project' ? 'project' : 'vendor';
+
+  const aging = await getPayablesAging(auth.companyId, asOf, groupBy);
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  const cell = { border: '1px solid #000', padding: '6px' } as const;
+  const numberCell = { ...cell, textAlign: 'right' } as const;
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>PAYABLES AGING</h1>
+        <div>
+          As of {formatDate(asOf)} | By {groupBy === 'vendor' ? 'vendor' : 'project'}
+        </div>
+      </div>
+
+      {aging.rows.length === 0 ? (
+        <p style={{ textAlign: 'center' }}>No outstanding payables at this date.</p>
+      ) : (
+        aging.rows.map((row) => (
+          <div key={row.key} style={{ marginBottom: '20px' }}>
+            <h2 style={{ fontSize: '13pt', marginBottom: '8px' }}>
+              {row.name}
+              {row.paymentTermDays !== null && (
+                <span style={{ fontSize: '10pt', fontWeight: 'normal' }}>
+                  {' '}
+                  ({row.paymentTermDays > 0 ? `Net ${row.paymentTermDays}` : 'Due on receipt'})
+                </span>
+              )}
+            </h2>
+            <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cell, textAlign: 'left' }}>Voucher No</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>{groupBy === 'vendor' ? 'Project' : 'Vendor'}</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>Bill Date</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>Due Date</th>
+                  <th style={numberCell}>Days Overdue</th>
+                  <th style={numberCell}>0-30</th>
+                  <th style={numberCell}>31-60</th>
+                  <th style={numberCell}>61-90</th>
+                  <th style={numberCell}>90+</th>
+                  <th style={numberCell}>Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {row.items.map((item) => (
+                  <tr key={item.lineId}>
+                    <td style={cell}>{item.voucherNo}</td>
+                    <td style={cell}>{(groupBy === 'vendor' ? item.projectName : item.vendorName) ?? '-'}</td>
+                    <td style={cell}>{formatDate(item.date)}</td>
+                    <td style={cell}>{formatDate(item.dueDate)}</td>
+                    <td style={numberCell}>{item.daysOverdue > 0 ? item.daysOverdue : '-'}</td>
+                    <td style={numberCell}>{item.days0to30 > 0 ? toMoney(item.days0to30) : '-'}</td>
+                    <td style={numberCell}>{item.days31to60 > 0 ? toMoney(item.days31to60) : '-'}</td>
+                    <td style={numberCell}>{item.days61to90 > 0 ? toMoney(item.days61to90) : '-'}</td>
+                    <td style={numberCell}>{item.days90plus > 0 ? toMoney(item.days90plus) : '-'}</td>
+                    <td style={numberCell}>{toMoney(item.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr style={{ fontWeight: 'bold' }}>
+                  <td colSpan={5} style={{ ...cell, textAlign: 'right' }}>
+                    Total:
+                  </td>
+                  <td style={numberCell}>{toMoney(row.days0to30)}</td>
+                  <td style={numberCell}>{toMoney(row.days31to60)}</td>
+                  <td style={numberCell}>{toMoney(row.days61to90)}</td>
+                  <td style={numberCell}>{toMoney(row.days90plus)}</td>
+                  <td style={numberCell}>{toMoney(row.outstanding)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ))
+      )}
+
+      {/* Summary */}
+      {aging.rows.length > 0 && (
+        <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {[
+                ['0-30 days', aging.totals.days0to30],
+                ['31-60 days', aging.totals.days31to60],
+                ['61-90 days', aging.totals.days61to90],
+                ['Over 90 days', aging.totals.days90plus],
+                ['Overdue', aging.totals.overdue],
+              ].map(([label, amount]) => (
+                <tr key={label}>
+                  <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>{label}:</td>
+                  <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(amount)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Total Outstanding:</td>
+                <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                  {toMoney(aging.totals.outstanding)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="print-footer">
+        Generated on {generatedAt} | Aged from the due date: bill date plus the vendor&apos;s payment terms
+      </div>
+    </div>
+  );
+}
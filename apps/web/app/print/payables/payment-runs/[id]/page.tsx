@@ -0,0 +1,126 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getPaymentRun } from '@/lib/vendors/paymentRun.server';
+
+export default async function PrintPaymentRunPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const paymentRun = await getPaymentRun(auth.companyId, params.id);
+  if (!paymentRun) {
+    redirect('/dashboard/payment-runs');
+  }
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  const cell = { border: '1px solid #000', padding: '6px' } as const;
+  const numberCell = { ...cell, textAlign: 'right' } as const;
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>PAYMENT RUN SUMMARY</h1>
+        <div>
+          {paymentRun.runNo} | {formatDate(paymentRun.date)} | Paid from {paymentRun.paymentAccount.code} -{' '}
+          {paymentRun.paymentAccount.name}
+        </div>
+        {paymentRun.notes && <div style={{ marginTop: '5px' }}>{paymentRun.notes}</div>}
+      </div>
+
+      <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '20px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: 'left', width: '30px' }}>#</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Vendor</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Bank Account</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Voucher</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Bills Paid</th>
+            <th style={numberCell}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {paymentRun.payments.map((payment, index) => (
+            <tr key={payment.voucherId}>
+              <td style={cell}>{index + 1}</td>
+              <td style={cell}>{payment.vendor?.name ?? ''}</td>
+              <td style={cell}>
+                {[payment.vendor?.bankName, payment.vendor?.bankAccountNo].filter(Boolean).join(' | ') || '-'}
+              </td>
+              <td style={cell}>
+                {payment.voucherNo} ({payment.status})
+              </td>
+              <td style={cell}>
+                {payment.bills.map((bill) => `${bill.voucherNo}: ${toMoney(bill.amount)}`).join(', ')}
+              </td>
+              <td style={numberCell}>{toMoney(payment.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Summary */}
+      <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>Vendors Paid:</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{paymentRun.payments.length}</td>
+            </tr>
+            {paymentRun.budget !== null && (
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Budget:</td>
+                <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(paymentRun.budget)}</td>
+              </tr>
+            )}
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Total Payment:</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(paymentRun.totalAmount)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Signatures */}
+      <div className="print-signatures" style={{ marginTop: '40px' }}>
+        <div className="print-signature-line">
+          <div>Prepared by:</div>
+          <div style={{ marginTop: '30px' }}>{paymentRun.createdBy.name}</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Checked by:</div>
+          <div style={{ marginTop: '30px' }}>&nbsp;</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Approved by:</div>
+          <div style={{ marginTop: '30px' }}>&nbsp;</div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">Generated on {generatedAt}</div>
+    </div>
+  );
+}
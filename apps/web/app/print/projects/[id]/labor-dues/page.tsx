@@ -0,0 +1,185 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { COMPANY_INFO, formatDate, formatDateTime, formatPeriod, toMoney } from '@/lib/print/format';
+import { getDateRange } from '@/lib/print/range';
+import { authenticateAndVerifyEntity } from '@/lib/print/auth';
+import { getTeamLeaderStatement } from '@/lib/labor/laborDues.server';
+
+export default async function PrintLaborDuesStatementPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { teamLeader?: string; from?: string; to?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticateAndVerifyEntity(
+      searchParams,
+      { resource: 'projects', action: 'READ' },
+      'project',
+      params.id
+    );
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: params.id,
+      companyId: auth.companyId,
+    },
+    select: {
+      id: true,
+      name: true,
+      siteLocation: true,
+    },
+  });
+
+  if (!project) {
+    redirect('/dashboard/projects');
+  }
+
+  // Extract date params (exclude pdfToken)
+  const dateParams = new URLSearchParams();
+  if (searchParams.from) dateParams.set('from', searchParams.from);
+  if (searchParams.to) dateParams.set('to', searchParams.to);
+  const dateRange = getDateRange(dateParams);
+
+  const teamLeader = searchParams.teamLeader || null;
+  const statement = await getTeamLeaderStatement(params.id, auth.companyId, teamLeader, dateRange);
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>LABOR DUES STATEMENT</h1>
+      </div>
+
+      {/* Team Leader Info */}
+      <div style={{ marginBottom: '20px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={{ padding: '5px', width: '30%', fontWeight: 'bold' }}>Team Leader:</td>
+              <td style={{ padding: '5px' }}>{teamLeader || 'Unassigned'}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Project:</td>
+              <td style={{ padding: '5px' }}>{project.name}</td>
+            </tr>
+            {project.siteLocation && (
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Site:</td>
+                <td style={{ padding: '5px' }}>{project.siteLocation}</td>
+              </tr>
+            )}
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Period:</td>
+              <td style={{ padding: '5px' }}>{formatPeriod(dateRange.from, dateRange.to)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Summary */}
+      <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>Opening Balance:</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(statement.openingBalance)}
+              </td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Closing Balance:</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(statement.closingBalance)}
+              </td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Total Outstanding (all dates):</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(statement.outstanding)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Details */}
+      <h2 style={{ fontSize: '14pt', marginBottom: '10px' }}>Work and Payments</h2>
+      <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '20px' }}>
+        <thead>
+          <tr>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'left' }}>Date</th>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'left' }}>Voucher No</th>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'left' }}>Description</th>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>Work Amount</th>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>Paid</th>
+            <th style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {statement.lines.map((line, index) => (
+            <tr key={index}>
+              <td style={{ border: '1px solid #000', padding: '8px' }}>{formatDate(line.date)}</td>
+              <td style={{ border: '1px solid #000', padding: '8px' }}>{line.voucherNo || '-'}</td>
+              <td style={{ border: '1px solid #000', padding: '8px' }}>{line.description}</td>
+              <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+                {line.charge > 0 ? toMoney(line.charge) : '-'}
+              </td>
+              <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+                {line.paid > 0 ? toMoney(line.paid) : '-'}
+              </td>
+              <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+                {toMoney(line.balance)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr style={{ fontWeight: 'bold' }}>
+            <td colSpan={3} style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+              Totals:
+            </td>
+            <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+              {toMoney(statement.totalCharge)}
+            </td>
+            <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+              {toMoney(statement.totalPaid)}
+            </td>
+            <td style={{ border: '1px solid #000', padding: '8px', textAlign: 'right' }}>
+              {toMoney(statement.closingBalance)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {/* Signature */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '60px' }}>
+        <div style={{ borderTop: '1px solid #000', width: '200px', textAlign: 'center', paddingTop: '5px' }}>
+          Received by
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '200px', textAlign: 'center', paddingTop: '5px' }}>
+          Authorized by
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">Generated on {generatedAt} | Day labor entries and payments</div>
+    </div>
+  );
+}
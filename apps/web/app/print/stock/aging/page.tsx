@@ -0,0 +1,150 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getStockAging } from '@/lib/stock/stockValuation.server';
+
+export default async function PrintStockAgingPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string; projectId?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'stock', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOf = searchParams.asOf ? new Date(searchParams.asOf) : new Date();
+  if (isNaN(asOf.getTime())) {
+    redirect('/dashboard/stock/valuation');
+  }
+
+  const project = searchParams.projectId
+    ? await prisma.project.findFirst({
+        where: { id: searchParams.projectId, companyId: auth.companyId },
+        select: { id: true, name: true },
+      })
+    : null;
+  if (searchParams.projectId && !project) {
+    redirect('/dashboard/stock/valuation');
+  }
+
+  const aging = await getStockAging(auth.companyId, { asOf, projectId: project?.id });
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  const cell = { border: '1px solid #000', padding: '6px' } as const;
+  const numberCell = { ...cell, textAlign: 'right' } as const;
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>STOCK AGING REPORT</h1>
+        <div>
+          As of {formatDate(asOf)}
+          {project ? ` | ${project.name}` : ' | All sites'}
+        </div>
+      </div>
+
+      {aging.sites.length === 0 ? (
+        <p style={{ textAlign: 'center' }}>No stock on hand at this date.</p>
+      ) : (
+        aging.sites.map((site) => (
+          <div key={site.projectId ?? 'central'} style={{ marginBottom: '20px' }}>
+            <h2 style={{ fontSize: '13pt', marginBottom: '8px' }}>{site.name}</h2>
+            <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cell, textAlign: 'left' }}>Item</th>
+                  <th style={numberCell}>On Hand</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>Oldest Receipt</th>
+                  {aging.bucketLabels.map((label) => (
+                    <th key={label} style={numberCell}>
+                      {label}
+                    </th>
+                  ))}
+                  <th style={numberCell}>Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {site.items.map((item) => (
+                  <tr key={item.stockItemId}>
+                    <td style={cell}>{item.stockItemName}</td>
+                    <td style={numberCell}>
+                      {item.qty.toFixed(3)} {item.stockItemUnit}
+                    </td>
+                    <td style={cell}>{formatDate(item.oldestReceiptDate)}</td>
+                    {item.buckets.map((bucket, index) => (
+                      <td key={index} style={numberCell}>
+                        {bucket.qty > 0 ? (
+                          <>
+                            {bucket.qty.toFixed(3)}
+                            <br />
+                            {toMoney(bucket.value)}
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                    ))}
+                    <td style={numberCell}>{toMoney(item.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr style={{ fontWeight: 'bold' }}>
+                  <td colSpan={3} style={{ ...cell, textAlign: 'right' }}>
+                    Site Total:
+                  </td>
+                  {site.buckets.map((bucket, index) => (
+                    <td key={index} style={numberCell}>
+                      {toMoney(bucket.value)}
+                    </td>
+                  ))}
+                  <td style={numberCell}>{toMoney(site.value)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ))
+      )}
+
+      {/* Summary */}
+      {aging.sites.length > 0 && (
+        <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {aging.bucketLabels.map((label, index) => (
+                <tr key={label}>
+                  <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>{label}:</td>
+                  <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(aging.buckets[index].value)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Total Stock Value:</td>
+                <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>{toMoney(aging.totalValue)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="print-footer">
+        Generated on {generatedAt} | Ages are counted from the receipts still on hand, oldest issued first
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getStocktake } from '@/lib/stock/stocktake.server';
+
+export default async function PrintStocktakePage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'stock', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const stocktake = await getStocktake(auth.companyId, params.id);
+  if (!stocktake) {
+    redirect('/dashboard/stock/stocktakes');
+  }
+
+  // While counting the sheet is blind: expected quantities and variances appear once it is submitted
+  const showVariance = stocktake.status === 'SUBMITTED' || stocktake.status === 'POSTED';
+  const site = [stocktake.project?.name, stocktake.warehouse?.name].filter(Boolean).join(' | ');
+
+  // Compute generated date server-side
+  const generatedAt = formatDateTime(new Date());
+
+  const cell = { border: '1px solid #000', padding: '6px' } as const;
+  const numberCell = { ...cell, textAlign: 'right' } as const;
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>{showVariance ? 'STOCKTAKE VARIANCE' : 'STOCK COUNT SHEET'}</h1>
+        <div>
+          {stocktake.sessionNo} | {site} | Count date {formatDate(stocktake.countDate)} | {stocktake.status}
+        </div>
+      </div>
+
+      <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '20px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: 'left', width: '30px' }}>#</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Item</th>
+            <th style={{ ...cell, textAlign: 'left' }}>SKU</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Unit</th>
+            {showVariance && <th style={numberCell}>Expected</th>}
+            <th style={{ ...numberCell, width: '90px' }}>Counted</th>
+            {showVariance && <th style={numberCell}>Variance</th>}
+            {showVariance && <th style={numberCell}>Value</th>}
+            <th style={{ ...cell, textAlign: 'left', width: showVariance ? undefined : '30%' }}>Remarks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stocktake.lines.map((line, index) => (
+            <tr key={line.id}>
+              <td style={cell}>{index + 1}</td>
+              <td style={cell}>{line.stockItem.name}</td>
+              <td style={cell}>{line.stockItem.sku || ''}</td>
+              <td style={cell}>{line.stockItem.unit}</td>
+              {showVariance && <td style={numberCell}>{line.expectedQty.toFixed(3)}</td>}
+              <td style={numberCell}>{line.countedQty !== null ? line.countedQty.toFixed(3) : ''}</td>
+              {showVariance && <td style={numberCell}>{line.varianceQty?.toFixed(3) ?? ''}</td>}
+              {showVariance && <td style={numberCell}>{line.varianceValue !== null ? toMoney(line.varianceValue) : ''}</td>}
+              <td style={cell}>{line.notes || ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Summary */}
+      {showVariance && (
+        <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>Expected Value:</td>
+                <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(stocktake.summary.expectedValue)}</td>
+              </tr>
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Gains:</td>
+                <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(stocktake.summary.gainValue)}</td>
+              </tr>
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Losses:</td>
+                <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(stocktake.summary.lossValue)}</td>
+              </tr>
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Net Variance:</td>
+                <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                  {toMoney(stocktake.summary.netVarianceValue)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Signatures */}
+      <div className="print-signatures" style={{ marginTop: '40px' }}>
+        <div className="print-signature-line">
+          <div>Counted by:</div>
+          <div style={{ marginTop: '30px' }}>&nbsp;</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Prepared by:</div>
+          <div style={{ marginTop: '30px' }}>{stocktake.createdBy.name}</div>
+        </div>
+        <div className="print-signature-line">
+          <div>Approved by:</div>
+          <div style={{ marginTop: '30px' }}>{stocktake.approvedBy?.name ?? ''}</div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">
+        Generated on {generatedAt}
+        {showVariance ? ' | Variances are valued at the unit cost frozen when the count opened' : ''}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { redirect } from 'next/navigation';
-import { getVendorLedger, getVendorGLBalance, getVendorOpenBalance } from '@/lib/payables';
+import { getVendorLedger, getVendorGLBalance, getVendorOpenBalance, getVendorAdvances } from '@/lib/payables';
 import { COMPANY_INFO, formatDate, formatDateTime, formatPeriod, toMoney } from '@/lib/print/format';
 import { getDateRange } from '@/lib/print/range';
 import { prisma } from '@accounting/db';
@@ -124,6 +124,7 @@ export default async function PrintVendorStatementPage({
 
   // Get open balance (outstanding payables)
   const openBalance = await getVendorOpenBalance(params.id, auth.companyId);
+  const { unappliedAdvance } = await getVendorAdvances(params.id, auth.companyId);
   
   // Compute generated date server-side
   const generatedAt = formatDateTime(new Date());
@@ -195,6 +196,14 @@ export default async function PrintVendorStatementPage({
                     </td>
                   </tr>
                 )}
+                {unappliedAdvance > 0 && (
+                  <tr>
+                    <td style={{ padding: '5px', fontWeight: 'bold' }}>Unapplied Advance:</td>
+                    <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                      {toMoney(unappliedAdvance)}
+                    </td>
+                  </tr>
+                )}
       </tbody>
       </table>
       </div>
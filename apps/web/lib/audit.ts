@@ -1,8 +1,45 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@accounting/db';
 
-export type EntityType = 'ACCOUNT' | 'VOUCHER' | 'VOUCHER_LINE';
-export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'POST' | 'STATUS_CHANGE' | 'REVERSE';
+export type EntityType =
+  | 'ACCOUNT'
+  | 'VOUCHER'
+  | 'VOUCHER_LINE'
+  | 'ClientBill'
+  | 'ClientBillReceipt'
+  | 'ProjectLabor'
+  | 'LaborPayment'
+  | 'Credit'
+  | 'ProjectInvestment'
+  | 'ApprovalPolicy'
+  | 'FiscalPeriod'
+  | 'FiscalYearClose'
+  | 'OpeningBalance'
+  | 'StockTransfer'
+  | 'MaterialReturn'
+  | 'MaterialRequisition'
+  | 'Stocktake'
+  | 'Purchase'
+  | 'VendorAdvance'
+  | 'PaymentRun'
+  | 'ChequeBook'
+  | 'Cheque'
+  | 'BankStatement'
+  | 'BankReconciliation'
+  | 'PurchaseOrder'
+  | 'GoodsReceipt'
+  | 'Warehouse'
+  | 'StockMovement'
+  | 'Company';
+export type AuditAction =
+  | 'CREATE'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'POST'
+  | 'STATUS_CHANGE'
+  | 'REVERSE'
+  | 'APPROVE'
+  | 'REJECT';
 
 interface CreateAuditLogParams {
   companyId: string;
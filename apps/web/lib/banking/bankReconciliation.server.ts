@@ -0,0 +1,728 @@
+/**
+ * Server-only functions for bank statement import and monthly bank reconciliation
+ * DO NOT import in client components
+ *
+ * Statement lines are signed from the bank's side (deposits positive) and match a posted voucher line
+ * on the same bank account whose debit minus credit is the same amount. At month-end, book lines not
+ * yet on a statement are outstanding cheques (credits) or deposits in transit (debits); statement lines
+ * not yet in the books (charges, interest, direct credits) are unrecorded items. The reconciled balance
+ * is the statement balance adjusted for outstanding items and should equal the book balance adjusted
+ * for unrecorded items.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  BankAutoMatch,
+  BankReconciliationSave,
+  BankStatementMatch,
+  BankStatementUnmatch,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { decimalToNumber } from '@/lib/reports/helpers';
+import { isLeafAccount } from '@/lib/voucher';
+import type { ParsedStatement, StatementFormat } from './statementParsers';
+
+export interface BankStatementResult {
+  success: boolean;
+  statement?: any;
+  imported?: number;
+  duplicates?: number;
+  matched?: number;
+  error?: string;
+}
+
+export interface BankMatchResult {
+  success: boolean;
+  line?: any;
+  matched?: number;
+  error?: string;
+}
+
+export interface BankReconciliationResult {
+  success: boolean;
+  reconciliation?: any;
+  error?: string;
+}
+
+const POSTED_STATUSES: Prisma.VoucherLineWhereInput['voucher'] = { status: { in: ['POSTED', 'REVERSED'] } };
+
+const bookLineInclude = {
+  voucher: {
+    select: {
+      id: true,
+      voucherNo: true,
+      date: true,
+      type: true,
+      narration: true,
+      cheque: { select: { chequeNo: true } },
+    },
+  },
+} satisfies Prisma.VoucherLineInclude;
+
+type BookLine = Prisma.VoucherLineGetPayload<{ include: typeof bookLineInclude }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Signed amount of a book line as the bank sees it: debit to the bank account is a deposit
+ */
+function bookAmount(line: { debit: Prisma.Decimal; credit: Prisma.Decimal }): number {
+  return decimalToNumber(line.debit) - decimalToNumber(line.credit);
+}
+
+function normalizeRef(value: string | null | undefined): string {
+  return (value ?? '').replace(/[^0-9a-z]/gi, '').replace(/^0+/, '').toUpperCase();
+}
+
+/**
+ * Last moment of a calendar month (month is 1-12)
+ */
+function monthEnd(year: number, month: number): Date {
+  return new Date(year, month, 0, 23, 59, 59, 999);
+}
+
+/**
+ * Split a YYYY-MM month into year and month (1-12)
+ */
+export function parseMonth(value: string): { year: number; month: number } {
+  const [year, month] = value.split('-').map((part) => parseInt(part, 10));
+  return { year, month };
+}
+
+/**
+ * Validate a bank account for reconciliation
+ */
+async function findBankAccount(companyId: string, accountId: string) {
+  const account = await prisma.account.findFirst({
+    where: { id: accountId, companyId, isActive: true, type: 'ASSET' },
+    select: { id: true, code: true, name: true },
+  });
+  if (!account || !(await isLeafAccount(account.id))) {
+    return null;
+  }
+  return account;
+}
+
+/**
+ * Imported statements, latest first
+ */
+export async function listBankStatements(companyId: string, bankAccountId?: string) {
+  return prisma.bankStatement.findMany({
+    where: { companyId, ...(bankAccountId ? { bankAccountId } : {}) },
+    include: {
+      bankAccount: { select: { id: true, code: true, name: true } },
+      importedBy: { select: { id: true, name: true } },
+      _count: { select: { lines: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Store a parsed statement and auto-match its lines.
+ * Lines already imported for the account (same date, amount and reference or description) are skipped,
+ * so overlapping statement files can be imported safely.
+ */
+export async function importBankStatement(
+  companyId: string,
+  bankAccountId: string,
+  parsed: ParsedStatement,
+  fileName: string,
+  format: StatementFormat,
+  userId: string,
+  request?: NextRequest
+): Promise<BankStatementResult> {
+  try {
+    const bankAccount = await findBankAccount(companyId, bankAccountId);
+    if (!bankAccount) {
+      return { success: false, error: 'Bank account must be an active cash/bank account' };
+    }
+    if (parsed.lines.length === 0) {
+      return { success: false, error: parsed.errors[0] || 'The statement has no transactions' };
+    }
+
+    const dates = parsed.lines.map((line) => line.date.getTime());
+    const existing = await prisma.bankStatementLine.findMany({
+      where: {
+        companyId,
+        bankAccountId,
+        date: { gte: new Date(Math.min(...dates)), lte: new Date(Math.max(...dates)) },
+      },
+      select: { date: true, amount: true, reference: true, description: true },
+    });
+    const lineKey = (date: Date, amount: number, reference: string | null, description: string | null) =>
+      [date.toDateString(), toCents(amount), normalizeRef(reference) || (description ?? '').trim()].join('|');
+    const seen = new Set(
+      existing.map((line) => lineKey(line.date, decimalToNumber(line.amount), line.reference, line.description))
+    );
+
+    // Only earlier imports count; identical lines within one file (e.g. two equal charges) are kept
+    const newLines = parsed.lines.filter(
+      (line) => !seen.has(lineKey(line.date, line.amount, line.reference, line.description))
+    );
+    const duplicates = parsed.lines.length - newLines.length;
+    if (newLines.length === 0) {
+      return { success: false, error: `All ${duplicates} transactions were already imported` };
+    }
+
+    const statement = await prisma.bankStatement.create({
+      data: {
+        companyId,
+        bankAccountId,
+        fileName,
+        format,
+        periodFrom: parsed.periodFrom,
+        periodTo: parsed.periodTo,
+        openingBalance: parsed.openingBalance,
+        closingBalance: parsed.closingBalance,
+        importedById: userId,
+        lines: {
+          create: newLines.map((line, index) => ({
+            companyId,
+            bankAccountId,
+            sequence: index + 1,
+            date: line.date,
+            description: line.description,
+            reference: line.reference,
+            chequeNo: line.chequeNo,
+            amount: line.amount,
+            balance: line.balance,
+          })),
+        },
+      },
+      include: { bankAccount: { select: { id: true, code: true, name: true } } },
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'BankStatement',
+      entityId: statement.id,
+      action: 'CREATE',
+      before: null,
+      after: { ...statement, lineCount: newLines.length, duplicates },
+      request,
+    });
+
+    const autoMatch = await autoMatchStatementLines(companyId, { bankAccountId, windowDays: 7 }, userId);
+
+    return {
+      success: true,
+      statement,
+      imported: newLines.length,
+      duplicates,
+      matched: autoMatch.matched ?? 0,
+    };
+  } catch (error) {
+    console.error('Error importing bank statement:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import bank statement',
+    };
+  }
+}
+
+/**
+ * Delete an imported statement and its lines; matches made on its lines are released
+ */
+export async function deleteBankStatement(
+  statementId: string,
+  companyId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<BankStatementResult> {
+  try {
+    const statement = await prisma.bankStatement.findFirst({
+      where: { id: statementId, companyId },
+    });
+    if (!statement) {
+      return { success: false, error: 'Statement not found' };
+    }
+
+    await prisma.bankStatement.delete({ where: { id: statement.id } });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'BankStatement',
+      entityId: statement.id,
+      action: 'DELETE',
+      before: statement,
+      after: null,
+      request,
+    });
+
+    return { success: true, statement };
+  } catch (error) {
+    console.error('Error deleting bank statement:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete bank statement',
+    };
+  }
+}
+
+/**
+ * Match unmatched statement lines of a bank account to unmatched posted voucher lines of the same amount.
+ * A cheque number or reference that identifies one voucher (its cheque number or voucher number) wins;
+ * otherwise the book line dated closest within windowDays is taken, skipping lines with a tie.
+ */
+export async function autoMatchStatementLines(
+  companyId: string,
+  data: BankAutoMatch,
+  userId: string
+): Promise<BankMatchResult> {
+  try {
+    const [statementLines, bookLines] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where: { companyId, bankAccountId: data.bankAccountId, voucherLineId: null },
+        orderBy: [{ date: 'asc' }, { sequence: 'asc' }],
+      }),
+      prisma.voucherLine.findMany({
+        where: {
+          companyId,
+          accountId: data.bankAccountId,
+          voucher: POSTED_STATUSES,
+          bankStatementLine: { is: null },
+        },
+        include: bookLineInclude,
+      }),
+    ]);
+
+    const byAmount = new Map<number, BookLine[]>();
+    for (const line of bookLines) {
+      const cents = toCents(bookAmount(line));
+      if (cents === 0) continue;
+      if (!byAmount.has(cents)) byAmount.set(cents, []);
+      byAmount.get(cents)!.push(line);
+    }
+
+    const used = new Set<string>();
+    const matches = new Map<string, string>();
+
+    // Pass 1: cheque number or voucher number
+    for (const line of statementLines) {
+      const candidates = (byAmount.get(toCents(decimalToNumber(line.amount))) ?? []).filter(
+        (book) => !used.has(book.id)
+      );
+      const refs = [line.chequeNo, line.reference].map(normalizeRef).filter(Boolean);
+      const text = `${line.description ?? ''} ${line.reference ?? ''}`.toUpperCase();
+      const hits = candidates.filter((book) => {
+        const chequeNo = normalizeRef(book.voucher.cheque?.chequeNo);
+        return (chequeNo && refs.includes(chequeNo)) || text.includes(book.voucher.voucherNo.toUpperCase());
+      });
+      if (hits.length === 1) {
+        matches.set(line.id, hits[0].id);
+        used.add(hits[0].id);
+      }
+    }
+
+    // Pass 2: closest date within the window
+    const windowMs = data.windowDays * DAY_MS;
+    for (const line of statementLines) {
+      if (matches.has(line.id)) continue;
+      const candidates = (byAmount.get(toCents(decimalToNumber(line.amount))) ?? [])
+        .filter((book) => !used.has(book.id))
+        .map((book) => ({ book, distance: Math.abs(book.voucher.date.getTime() - line.date.getTime()) }))
+        .filter((candidate) => candidate.distance <= windowMs + DAY_MS / 2)
+        .sort((a, b) => a.distance - b.distance);
+      if (candidates.length === 0) continue;
+      if (candidates.length > 1 && candidates[1].distance - candidates[0].distance < DAY_MS / 2) continue;
+      matches.set(line.id, candidates[0].book.id);
+      used.add(candidates[0].book.id);
+    }
+
+    if (matches.size > 0) {
+      const matchedAt = new Date();
+      await prisma.$transaction(
+        Array.from(matches.entries()).map(([statementLineId, voucherLineId]) =>
+          prisma.bankStatementLine.update({
+            where: { id: statementLineId },
+            data: { voucherLineId, matchType: 'AUTO', matchedAt, matchedById: userId },
+          })
+        )
+      );
+    }
+
+    return { success: true, matched: matches.size };
+  } catch (error) {
+    console.error('Error auto-matching statement lines:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to auto-match statement lines',
+    };
+  }
+}
+
+/**
+ * Manually match a statement line to a posted voucher line of the same amount on the same bank account
+ */
+export async function matchStatementLine(
+  companyId: string,
+  data: BankStatementMatch,
+  userId: string,
+  request?: NextRequest
+): Promise<BankMatchResult> {
+  try {
+    const statementLine = await prisma.bankStatementLine.findFirst({
+      where: { id: data.statementLineId, companyId },
+    });
+    if (!statementLine) {
+      return { success: false, error: 'Statement line not found' };
+    }
+    if (statementLine.voucherLineId) {
+      return { success: false, error: 'Statement line is already matched' };
+    }
+
+    const voucherLine = await prisma.voucherLine.findFirst({
+      where: { id: data.voucherLineId, companyId, accountId: statementLine.bankAccountId, voucher: POSTED_STATUSES },
+      include: { ...bookLineInclude, bankStatementLine: { select: { id: true } } },
+    });
+    if (!voucherLine) {
+      return { success: false, error: 'Voucher line must be a posted line on the same bank account' };
+    }
+    if (voucherLine.bankStatementLine) {
+      return { success: false, error: `Voucher ${voucherLine.voucher.voucherNo} is already matched` };
+    }
+    if (toCents(bookAmount(voucherLine)) !== toCents(decimalToNumber(statementLine.amount))) {
+      return { success: false, error: 'Amounts do not match' };
+    }
+
+    const line = await prisma.bankStatementLine.update({
+      where: { id: statementLine.id },
+      data: { voucherLineId: voucherLine.id, matchType: 'MANUAL', matchedAt: new Date(), matchedById: userId },
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'BankStatement',
+      entityId: statementLine.statementId,
+      action: 'UPDATE',
+      before: statementLine,
+      after: line,
+      request,
+    });
+
+    return { success: true, line };
+  } catch (error) {
+    console.error('Error matching statement line:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to match statement line',
+    };
+  }
+}
+
+/**
+ * Remove the match of a statement line
+ */
+export async function unmatchStatementLine(
+  companyId: string,
+  data: BankStatementUnmatch,
+  userId: string,
+  request?: NextRequest
+): Promise<BankMatchResult> {
+  try {
+    const statementLine = await prisma.bankStatementLine.findFirst({
+      where: { id: data.statementLineId, companyId },
+    });
+    if (!statementLine) {
+      return { success: false, error: 'Statement line not found' };
+    }
+    if (!statementLine.voucherLineId) {
+      return { success: false, error: 'Statement line is not matched' };
+    }
+
+    const line = await prisma.bankStatementLine.update({
+      where: { id: statementLine.id },
+      data: { voucherLineId: null, matchType: null, matchedAt: null, matchedById: null },
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'BankStatement',
+      entityId: statementLine.statementId,
+      action: 'UPDATE',
+      before: statementLine,
+      after: line,
+      request,
+    });
+
+    return { success: true, line };
+  } catch (error) {
+    console.error('Error unmatching statement line:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unmatch statement line',
+    };
+  }
+}
+
+/**
+ * Statement balance at month-end: the later of the last statement closing balance and the last
+ * running balance on a statement line, both on or before month-end
+ */
+async function getStatementBalance(companyId: string, bankAccountId: string, asOf: Date) {
+  const [statement, line] = await Promise.all([
+    prisma.bankStatement.findFirst({
+      where: { companyId, bankAccountId, closingBalance: { not: null }, periodTo: { lte: asOf } },
+      orderBy: [{ periodTo: 'desc' }, { createdAt: 'desc' }],
+      select: { closingBalance: true, periodTo: true },
+    }),
+    prisma.bankStatementLine.findFirst({
+      where: { companyId, bankAccountId, balance: { not: null }, date: { lte: asOf } },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }, { sequence: 'desc' }],
+      select: { balance: true, date: true },
+    }),
+  ]);
+
+  if (line && (!statement || line.date > statement.periodTo!)) {
+    return decimalToNumber(line.balance);
+  }
+  return statement ? decimalToNumber(statement.closingBalance) : null;
+}
+
+/**
+ * Reconciliation workspace for a bank account and month (1-12): outstanding book lines,
+ * unrecorded statement lines, lines matched within the month and the reconciliation summary.
+ * statementBalanceOverride replaces the balance taken from imported statements.
+ */
+export async function getReconciliationWorkspace(
+  companyId: string,
+  bankAccountId: string,
+  year: number,
+  month: number,
+  statementBalanceOverride?: number | null
+) {
+  const account = await prisma.account.findFirst({
+    where: { id: bankAccountId, companyId },
+    select: { id: true, code: true, name: true },
+  });
+  if (!account) {
+    throw new Error('Account not found');
+  }
+
+  const from = new Date(year, month - 1, 1);
+  const to = monthEnd(year, month);
+
+  const [bookTotals, outstandingLines, unrecordedLines, matchedLines, importedStatementBalance] = await Promise.all([
+    prisma.voucherLine.aggregate({
+      where: { companyId, accountId: bankAccountId, voucher: { status: { in: ['POSTED', 'REVERSED'] }, date: { lte: to } } },
+      _sum: { debit: true, credit: true },
+    }),
+    // In the books by month-end but not on a statement by month-end
+    prisma.voucherLine.findMany({
+      where: {
+        companyId,
+        accountId: bankAccountId,
+        voucher: { status: { in: ['POSTED', 'REVERSED'] }, date: { lte: to } },
+        OR: [{ bankStatementLine: { is: null } }, { bankStatementLine: { is: { date: { gt: to } } } }],
+      },
+      include: { ...bookLineInclude, bankStatementLine: { select: { id: true } } },
+      orderBy: [{ voucher: { date: 'asc' } }, { voucher: { voucherNo: 'asc' } }],
+    }),
+    // On a statement by month-end but not in the books by month-end
+    prisma.bankStatementLine.findMany({
+      where: {
+        companyId,
+        bankAccountId,
+        date: { lte: to },
+        OR: [{ voucherLineId: null }, { voucherLine: { voucher: { date: { gt: to } } } }],
+      },
+      orderBy: [{ date: 'asc' }, { sequence: 'asc' }],
+    }),
+    prisma.bankStatementLine.findMany({
+      where: { companyId, bankAccountId, date: { gte: from, lte: to }, voucherLineId: { not: null } },
+      include: {
+        voucherLine: { include: bookLineInclude },
+        matchedBy: { select: { id: true, name: true } },
+      },
+      orderBy: [{ date: 'asc' }, { sequence: 'asc' }],
+    }),
+    getStatementBalance(companyId, bankAccountId, to),
+  ]);
+
+  const bookItems = outstandingLines.map((line) => ({
+    voucherLineId: line.id,
+    voucherId: line.voucher.id,
+    voucherNo: line.voucher.voucherNo,
+    date: line.voucher.date,
+    description: line.description || line.voucher.narration,
+    chequeNo: line.voucher.cheque?.chequeNo ?? null,
+    amount: bookAmount(line),
+    matched: !!line.bankStatementLine,
+  }));
+  const outstandingCheques = bookItems
+    .filter((item) => item.amount < 0)
+    .map((item) => ({ ...item, amount: -item.amount }));
+  const depositsInTransit = bookItems.filter((item) => item.amount > 0);
+
+  const unrecordedItems = unrecordedLines.map((line) => ({
+    statementLineId: line.id,
+    date: line.date,
+    description: line.description,
+    reference: line.reference,
+    chequeNo: line.chequeNo,
+    amount: decimalToNumber(line.amount),
+    matched: !!line.voucherLineId,
+  }));
+
+  const sum = (items: Array<{ amount: number }>) =>
+    Math.round(items.reduce((total, item) => total + item.amount, 0) * 100) / 100;
+
+  const bookBalance =
+    Math.round((decimalToNumber(bookTotals._sum.debit) - decimalToNumber(bookTotals._sum.credit)) * 100) / 100;
+  const statementBalance =
+    statementBalanceOverride !== undefined && statementBalanceOverride !== null
+      ? statementBalanceOverride
+      : importedStatementBalance;
+  const totals = {
+    outstandingCheques: sum(outstandingCheques),
+    depositsInTransit: sum(depositsInTransit),
+    unrecordedItems: sum(unrecordedItems),
+  };
+  const reconciledBalance =
+    statementBalance === null
+      ? null
+      : Math.round((statementBalance - totals.outstandingCheques + totals.depositsInTransit) * 100) / 100;
+  const adjustedBookBalance = Math.round((bookBalance + totals.unrecordedItems) * 100) / 100;
+
+  return {
+    account,
+    year,
+    month,
+    statementDate: to,
+    outstandingCheques,
+    depositsInTransit,
+    unrecordedItems,
+    matchedLines: matchedLines.map((line) => ({
+      statementLineId: line.id,
+      date: line.date,
+      description: line.description,
+      reference: line.reference,
+      amount: decimalToNumber(line.amount),
+      matchType: line.matchType,
+      matchedBy: line.matchedBy?.name ?? null,
+      voucherNo: line.voucherLine?.voucher.voucherNo ?? null,
+      voucherDate: line.voucherLine?.voucher.date ?? null,
+    })),
+    summary: {
+      statementBalance,
+      importedStatementBalance,
+      ...totals,
+      reconciledBalance,
+      bookBalance,
+      adjustedBookBalance,
+      difference: reconciledBalance === null ? null : Math.round((reconciledBalance - adjustedBookBalance) * 100) / 100,
+    },
+  };
+}
+
+export type ReconciliationWorkspace = Awaited<ReturnType<typeof getReconciliationWorkspace>>;
+
+/**
+ * Save the reconciliation statement for a bank account and month, replacing one saved earlier
+ */
+export async function saveReconciliation(
+  companyId: string,
+  data: BankReconciliationSave,
+  userId: string,
+  request?: NextRequest
+): Promise<BankReconciliationResult> {
+  try {
+    const bankAccount = await findBankAccount(companyId, data.bankAccountId);
+    if (!bankAccount) {
+      return { success: false, error: 'Bank account must be an active cash/bank account' };
+    }
+
+    const { year, month } = parseMonth(data.month);
+    const workspace = await getReconciliationWorkspace(companyId, bankAccount.id, year, month, data.statementBalance);
+    const { summary } = workspace;
+    if (summary.statementBalance === null || summary.reconciledBalance === null || summary.difference === null) {
+      return { success: false, error: 'Enter the statement balance or import a statement with balances' };
+    }
+
+    const existing = await prisma.bankReconciliation.findUnique({
+      where: { companyId_bankAccountId_year_month: { companyId, bankAccountId: bankAccount.id, year, month } },
+    });
+
+    const values = {
+      statementDate: workspace.statementDate,
+      statementBalance: summary.statementBalance,
+      bookBalance: summary.bookBalance,
+      outstandingCheques: summary.outstandingCheques,
+      depositsInTransit: summary.depositsInTransit,
+      unrecordedItems: summary.unrecordedItems,
+      reconciledBalance: summary.reconciledBalance,
+      difference: summary.difference,
+      details: JSON.parse(
+        JSON.stringify({
+          outstandingCheques: workspace.outstandingCheques,
+          depositsInTransit: workspace.depositsInTransit,
+          unrecordedItems: workspace.unrecordedItems,
+          adjustedBookBalance: summary.adjustedBookBalance,
+        })
+      ),
+      notes: data.notes || null,
+      preparedById: userId,
+    };
+
+    const reconciliation = await prisma.bankReconciliation.upsert({
+      where: { companyId_bankAccountId_year_month: { companyId, bankAccountId: bankAccount.id, year, month } },
+      create: { companyId, bankAccountId: bankAccount.id, year, month, ...values },
+      update: values,
+      include: { bankAccount: { select: { id: true, code: true, name: true } } },
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'BankReconciliation',
+      entityId: reconciliation.id,
+      action: existing ? 'UPDATE' : 'CREATE',
+      before: existing,
+      after: reconciliation,
+      request,
+    });
+
+    return { success: true, reconciliation };
+  } catch (error) {
+    console.error('Error saving bank reconciliation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save bank reconciliation',
+    };
+  }
+}
+
+/**
+ * Saved reconciliation statements, latest month first
+ */
+export async function listReconciliations(companyId: string, bankAccountId?: string) {
+  return prisma.bankReconciliation.findMany({
+    where: { companyId, ...(bankAccountId ? { bankAccountId } : {}) },
+    include: {
+      bankAccount: { select: { id: true, code: true, name: true } },
+      preparedBy: { select: { id: true, name: true } },
+    },
+    orderBy: [{ year: 'desc' }, { month: 'desc' }],
+  });
+}
+
+export async function getReconciliation(id: string, companyId: string) {
+  return prisma.bankReconciliation.findFirst({
+    where: { id, companyId },
+    include: {
+      bankAccount: { select: { id: true, code: true, name: true } },
+      preparedBy: { select: { id: true, name: true } },
+    },
+  });
+}
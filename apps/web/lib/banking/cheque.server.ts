@@ -0,0 +1,531 @@
+/**
+ * Server-only functions for cheque books and the cheque register
+ * DO NOT import in client components
+ *
+ * Issued cheques are leaves of a cheque book on a bank account and pay a PAYMENT voucher; received
+ * cheques come from clients and back a RECEIPT voucher. A cheque dated after its issue date is
+ * post-dated: it cannot be presented and its voucher cannot be posted before the cheque date.
+ * A bounced (or cancelled) cheque reverses its posted voucher, which releases vendor allocations
+ * and, for client receipts, removes the receipt and the amount booked against the bill.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, ChequeStatus, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ChequeBookCreate, ChequeCreate, ChequeListFilters, ChequeStatusUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { isLeafAccount } from '@/lib/voucher';
+import { reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { removeClientBillReceipt } from '@/lib/billing/clientBilling.server';
+import { getVoucherOwner, UNOWNED_VOUCHER_WHERE } from '@/lib/vouchers/ownership.server';
+
+export interface ChequeBookResult {
+  success: boolean;
+  chequeBook?: any;
+  error?: string;
+}
+
+export interface ChequeResult {
+  success: boolean;
+  cheque?: any;
+  error?: string;
+}
+
+const STATUS_TRANSITIONS: Record<ChequeStatus, ChequeStatus[]> = {
+  ISSUED: ['PRESENTED', 'CLEARED', 'CANCELLED'],
+  PRESENTED: ['CLEARED', 'BOUNCED'],
+  CLEARED: [],
+  BOUNCED: [],
+  CANCELLED: [],
+};
+
+const STATUS_DATE_FIELDS: Partial<Record<ChequeStatus, 'presentedAt' | 'clearedAt' | 'bouncedAt' | 'cancelledAt'>> = {
+  PRESENTED: 'presentedAt',
+  CLEARED: 'clearedAt',
+  BOUNCED: 'bouncedAt',
+  CANCELLED: 'cancelledAt',
+};
+
+export const chequeInclude = {
+  chequeBook: { select: { id: true, name: true } },
+  bankAccount: { select: { id: true, code: true, name: true } },
+  vendor: { select: { id: true, name: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true, date: true } },
+  reversalVoucher: { select: { id: true, voucherNo: true, date: true } },
+  createdBy: { select: { id: true, name: true } },
+} satisfies Prisma.ChequeInclude;
+
+/**
+ * Validate a cash/bank account for cheques
+ */
+async function findBankAccount(companyId: string, accountId: string) {
+  const account = await prisma.account.findFirst({
+    where: { id: accountId, companyId, isActive: true, type: 'ASSET' },
+    select: { id: true, code: true, name: true },
+  });
+  if (!account || !(await isLeafAccount(account.id))) {
+    return null;
+  }
+  return account;
+}
+
+/**
+ * Cheque books with leaves used and the next unused leaf
+ */
+export async function listChequeBooks(companyId: string, bankAccountId?: string) {
+  const books = await prisma.chequeBook.findMany({
+    where: { companyId, ...(bankAccountId ? { bankAccountId } : {}) },
+    include: {
+      bankAccount: { select: { id: true, code: true, name: true } },
+      cheques: { select: { chequeNo: true } },
+    },
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return books.map(({ cheques, ...book }) => {
+    const used = new Set(cheques.map((cheque) => parseInt(cheque.chequeNo, 10)));
+    let nextNo: number | null = null;
+    for (let leaf = book.startNo; leaf <= book.endNo; leaf++) {
+      if (!used.has(leaf)) {
+        nextNo = leaf;
+        break;
+      }
+    }
+    return {
+      ...book,
+      leafCount: book.endNo - book.startNo + 1,
+      usedCount: used.size,
+      nextNo,
+    };
+  });
+}
+
+/**
+ * Register a cheque book; leaf ranges may not overlap another book on the same account
+ */
+export async function createChequeBook(
+  companyId: string,
+  data: ChequeBookCreate,
+  userId: string,
+  request?: NextRequest
+): Promise<ChequeBookResult> {
+  try {
+    const bankAccount = await findBankAccount(companyId, data.bankAccountId);
+    if (!bankAccount) {
+      return { success: false, error: 'Bank account must be an active cash/bank account' };
+    }
+
+    const overlapping = await prisma.chequeBook.findFirst({
+      where: {
+        companyId,
+        bankAccountId: bankAccount.id,
+        startNo: { lte: data.endNo },
+        endNo: { gte: data.startNo },
+      },
+      select: { name: true },
+    });
+    if (overlapping) {
+      return { success: false, error: `Leaves ${data.startNo}-${data.endNo} overlap cheque book ${overlapping.name}` };
+    }
+
+    const chequeBook = await prisma.chequeBook.create({
+      data: {
+        companyId,
+        bankAccountId: bankAccount.id,
+        name: data.name,
+        startNo: data.startNo,
+        endNo: data.endNo,
+        createdById: userId,
+      },
+      include: { bankAccount: { select: { id: true, code: true, name: true } } },
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'ChequeBook',
+      entityId: chequeBook.id,
+      action: 'CREATE',
+      before: null,
+      after: chequeBook,
+      request,
+    });
+
+    return { success: true, chequeBook };
+  } catch (error) {
+    console.error('Error creating cheque book:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create cheque book',
+    };
+  }
+}
+
+/**
+ * Cheque register, latest cheque date first; postDated keeps cheques still held until their date
+ */
+export async function listCheques(companyId: string, filters: ChequeListFilters = {}) {
+  return prisma.cheque.findMany({
+    where: {
+      companyId,
+      ...(filters.direction ? { direction: filters.direction } : {}),
+      ...(filters.bankAccountId ? { bankAccountId: filters.bankAccountId } : {}),
+      ...(filters.postDated
+        ? { status: 'ISSUED', chequeDate: { gt: new Date() } }
+        : filters.status
+          ? { status: filters.status }
+          : {}),
+    },
+    include: chequeInclude,
+    orderBy: filters.postDated ? { chequeDate: 'asc' } : [{ chequeDate: 'desc' }, { createdAt: 'desc' }],
+  });
+}
+
+/**
+ * Payment or receipt vouchers not yet paid by a cheque, to link when recording one
+ * Vouchers owned by a sub-ledger document are left out: a bounce could not unwind the document.
+ */
+export async function getChequeableVouchers(companyId: string, direction: 'ISSUED' | 'RECEIVED') {
+  const vouchers = await prisma.voucher.findMany({
+    where: {
+      companyId,
+      type: direction === 'ISSUED' ? 'PAYMENT' : 'RECEIPT',
+      status: { not: 'REVERSED' },
+      reversalOfId: null,
+      cheque: null,
+      ...UNOWNED_VOUCHER_WHERE,
+    },
+    select: {
+      id: true,
+      voucherNo: true,
+      date: true,
+      status: true,
+      narration: true,
+      lines: {
+        select: {
+          accountId: true,
+          debit: true,
+          credit: true,
+          vendor: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: { date: 'desc' },
+    take: 200,
+  });
+
+  return vouchers.map(({ lines, ...voucher }) => ({
+    ...voucher,
+    amount: lines.reduce((sum, line) => sum + Number(line.debit), 0),
+    // Cash/bank side of the voucher: credited by a payment, debited by a receipt
+    bankAccountIds: Array.from(
+      new Set(
+        lines
+          .filter((line) => Number(direction === 'ISSUED' ? line.credit : line.debit) > 0)
+          .map((line) => line.accountId)
+      )
+    ),
+    vendor: lines.find((line) => line.vendor)?.vendor ?? null,
+  }));
+}
+
+/**
+ * Check that a voucher can be paid by a cheque on the given bank account
+ */
+async function validateChequeVoucher(
+  companyId: string,
+  voucherId: string,
+  direction: 'ISSUED' | 'RECEIVED',
+  bankAccountId: string
+) {
+  const voucher = await prisma.voucher.findFirst({
+    where: { id: voucherId, companyId },
+    include: {
+      cheque: { select: { chequeNo: true } },
+      lines: { select: { accountId: true, debit: true, credit: true, vendorId: true } },
+    },
+  });
+  if (!voucher) {
+    return { error: 'Voucher not found' };
+  }
+  const expectedType = direction === 'ISSUED' ? 'PAYMENT' : 'RECEIPT';
+  if (voucher.type !== expectedType || voucher.reversalOfId) {
+    return { error: `An ${direction.toLowerCase()} cheque must be linked to a ${expectedType} voucher` };
+  }
+  if (voucher.status === 'REVERSED') {
+    return { error: `Voucher ${voucher.voucherNo} has been reversed` };
+  }
+  if (voucher.cheque) {
+    return { error: `Voucher ${voucher.voucherNo} is already linked to cheque ${voucher.cheque.chequeNo}` };
+  }
+  // A bounce reverses the voucher, which would leave the owning document counting the money
+  const owner = await getVoucherOwner(voucher.id, companyId);
+  if (owner) {
+    return {
+      error: `Voucher ${voucher.voucherNo} posts ${owner.document} and cannot be linked to a cheque; only stand-alone payments, receipts and client bill receipts can`,
+    };
+  }
+  const touchesBank = voucher.lines.some(
+    (line) => line.accountId === bankAccountId && Number(direction === 'ISSUED' ? line.credit : line.debit) > 0
+  );
+  if (!touchesBank) {
+    return {
+      error: `Voucher ${voucher.voucherNo} does not ${direction === 'ISSUED' ? 'pay from' : 'deposit to'} the cheque's bank account`,
+    };
+  }
+  return { voucher };
+}
+
+/**
+ * Record an issued or received cheque
+ */
+export async function createCheque(
+  companyId: string,
+  data: ChequeCreate,
+  userId: string,
+  request?: NextRequest
+): Promise<ChequeResult> {
+  try {
+    let bankAccountId: string;
+    let chequeNo = data.chequeNo?.trim() || '';
+
+    if (data.direction === 'ISSUED') {
+      const book = await prisma.chequeBook.findFirst({
+        where: { id: data.chequeBookId!, companyId },
+      });
+      if (!book || !book.isActive) {
+        return { success: false, error: 'Cheque book not found or inactive' };
+      }
+      bankAccountId = book.bankAccountId;
+
+      if (!chequeNo) {
+        const [summary] = await listChequeBooks(companyId, book.bankAccountId).then((books) =>
+          books.filter((item) => item.id === book.id)
+        );
+        if (!summary?.nextNo) {
+          return { success: false, error: `Cheque book ${book.name} has no unused leaves` };
+        }
+        chequeNo = String(summary.nextNo);
+      }
+      const leaf = parseInt(chequeNo, 10);
+      if (!/^\d+$/.test(chequeNo) || leaf < book.startNo || leaf > book.endNo) {
+        return {
+          success: false,
+          error: `Cheque number ${chequeNo} is not a leaf of ${book.name} (${book.startNo}-${book.endNo})`,
+        };
+      }
+      chequeNo = String(leaf);
+
+      const existing = await prisma.cheque.findFirst({
+        where: { chequeBookId: book.id, chequeNo },
+        select: { id: true },
+      });
+      if (existing) {
+        return { success: false, error: `Cheque ${chequeNo} of ${book.name} has already been used` };
+      }
+    } else {
+      const bankAccount = await findBankAccount(companyId, data.bankAccountId!);
+      if (!bankAccount) {
+        return { success: false, error: 'Deposit account must be an active cash/bank account' };
+      }
+      bankAccountId = bankAccount.id;
+    }
+
+    let vendorId = data.vendorId || null;
+    if (data.voucherId) {
+      const check = await validateChequeVoucher(companyId, data.voucherId, data.direction, bankAccountId);
+      if (check.error) {
+        return { success: false, error: check.error };
+      }
+      vendorId = vendorId ?? check.voucher!.lines.find((line) => line.vendorId)?.vendorId ?? null;
+    }
+
+    let partyName = data.partyName?.trim() || '';
+    if (vendorId) {
+      const vendor = await prisma.vendor.findFirst({
+        where: { id: vendorId, companyId },
+        select: { name: true },
+      });
+      if (!vendor) {
+        return { success: false, error: 'Vendor not found' };
+      }
+      partyName = partyName || vendor.name;
+    }
+    if (!partyName) {
+      return { success: false, error: data.direction === 'ISSUED' ? 'Payee is required' : 'Drawer is required' };
+    }
+
+    const cheque = await prisma.cheque.create({
+      data: {
+        companyId,
+        direction: data.direction,
+        chequeBookId: data.direction === 'ISSUED' ? data.chequeBookId! : null,
+        bankAccountId,
+        chequeNo,
+        issueDate: data.issueDate ?? new Date(),
+        chequeDate: data.chequeDate,
+        amount: new Prisma.Decimal(data.amount),
+        partyName,
+        vendorId,
+        drawerBank: data.direction === 'RECEIVED' ? data.drawerBank || null : null,
+        voucherId: data.voucherId || null,
+        notes: data.notes || null,
+        createdById: userId,
+      },
+      include: chequeInclude,
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Cheque',
+      entityId: cheque.id,
+      action: 'CREATE',
+      before: null,
+      after: cheque,
+      request,
+    });
+
+    return { success: true, cheque };
+  } catch (error) {
+    console.error('Error creating cheque:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create cheque',
+    };
+  }
+}
+
+/**
+ * Move a cheque to its next status. Bouncing or cancelling reverses the linked voucher if posted,
+ * or unlinks it if not, so the payment can be made another way.
+ */
+export async function updateChequeStatus(
+  companyId: string,
+  chequeId: string,
+  data: ChequeStatusUpdate,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<ChequeResult> {
+  try {
+    const cheque = await prisma.cheque.findFirst({
+      where: { id: chequeId, companyId },
+      include: {
+        voucher: {
+          select: { id: true, voucherNo: true, status: true, clientBillReceipt: true },
+        },
+      },
+    });
+    if (!cheque) {
+      return { success: false, error: 'Cheque not found' };
+    }
+
+    const status = data.status as ChequeStatus;
+    if (!STATUS_TRANSITIONS[cheque.status].includes(status)) {
+      return { success: false, error: `Cannot change a ${cheque.status} cheque to ${status}` };
+    }
+
+    const date = data.date ?? new Date();
+    if ((status === 'PRESENTED' || status === 'CLEARED') && cheque.chequeDate > date) {
+      return {
+        success: false,
+        error: `Cheque ${cheque.chequeNo} is post-dated to ${cheque.chequeDate.toISOString().split('T')[0]} and cannot be presented yet`,
+      };
+    }
+
+    let voucherId = cheque.voucherId;
+    if (data.voucherId && data.voucherId !== cheque.voucherId) {
+      if (cheque.voucherId) {
+        return { success: false, error: `Cheque ${cheque.chequeNo} is already linked to ${cheque.voucher!.voucherNo}` };
+      }
+      if (status !== 'PRESENTED' && status !== 'CLEARED') {
+        return { success: false, error: 'A voucher can only be linked when presenting or clearing a cheque' };
+      }
+      const check = await validateChequeVoucher(companyId, data.voucherId, cheque.direction, cheque.bankAccountId);
+      if (check.error) {
+        return { success: false, error: check.error };
+      }
+      voucherId = data.voucherId;
+    }
+
+    const undoesPayment = status === 'BOUNCED' || status === 'CANCELLED';
+    const reversesVoucher = undoesPayment && cheque.voucher?.status === 'POSTED';
+    if (undoesPayment && !reversesVoucher) {
+      voucherId = null;
+    }
+
+    if (reversesVoucher) {
+      // Linked before owned vouchers were refused; the document has to be undone first
+      const owner = await getVoucherOwner(cheque.voucher!.id, companyId);
+      if (owner) {
+        return {
+          success: false,
+          error: `${owner.voucherNo} posts ${owner.document}, which a cheque bounce cannot unwind. Undo the document first: ${owner.undo}`,
+        };
+      }
+    }
+
+    const dateField = STATUS_DATE_FIELDS[status]!;
+
+    // Reversal, client bill and cheque change commit together
+    const { updated, reversalVoucherId } = await prisma.$transaction(async (tx) => {
+      let reversalVoucherId: string | null = null;
+      if (reversesVoucher) {
+        const reversal = await reverseVoucherInTx(
+          tx,
+          cheque.voucher!.id,
+          userId,
+          companyId,
+          role,
+          {
+            date,
+            description: `Cheque ${cheque.chequeNo} ${status === 'BOUNCED' ? 'bounced' : 'cancelled'} - reversal of ${cheque.voucher!.voucherNo}`,
+          },
+          request
+        );
+        reversalVoucherId = reversal.id;
+
+        // The money never arrived: take the receipt off the client bill and drop it,
+        // so the bill totals and the receivables aging agree
+        const receipt = cheque.voucher!.clientBillReceipt;
+        if (receipt) {
+          await removeClientBillReceipt(tx, receipt);
+        }
+      }
+
+      const updated = await tx.cheque.update({
+        where: { id: cheque.id },
+        data: {
+          status,
+          [dateField]: date,
+          ...(status === 'CLEARED' && !cheque.presentedAt ? { presentedAt: date } : {}),
+          statusNote: data.note || null,
+          voucherId,
+          ...(reversalVoucherId ? { reversalVoucherId } : {}),
+        },
+        include: chequeInclude,
+      });
+      return { updated, reversalVoucherId };
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Cheque',
+      entityId: cheque.id,
+      action: 'STATUS_CHANGE',
+      before: { status: cheque.status, voucherId: cheque.voucherId },
+      after: { status, voucherId, reversalVoucherId, note: data.note || null },
+      request,
+    });
+
+    return { success: true, cheque: updated };
+  } catch (error) {
+    console.error('Error updating cheque status:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update cheque status',
+    };
+  }
+}
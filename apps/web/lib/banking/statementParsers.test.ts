@@ -0,0 +1,133 @@
+/**
+ * Unit tests for bank statement parsers (CSV rows, OFX, CAMT.053)
+ *
+ * Run with: npx tsx apps/web/lib/banking/statementParsers.test.ts
+ */
+
+import { detectStatementFormat, parseCamtStatement, parseCsvStatement, parseOfxStatement } from './statementParsers';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<DTSTART>20240301
+<DTEND>20240331
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20240305120000
+<TRNAMT>-1500.00
+<FITID>T1
+<CHECKNUM>100234
+<NAME>CHQ 100234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240310
+<TRNAMT>2500.50
+<FITID>T2
+<NAME>ACME LTD
+<MEMO>INV-2024-0007
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>6000.50
+<DTASOF>20240331
+</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <FrToDt><FrDtTm>2024-03-01T00:00:00</FrDtTm><ToDtTm>2024-03-31T23:59:59</ToDtTm></FrToDt>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="USD">5000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-01</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="USD">4975.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2024-03-31</Dt></Dt></Bal>
+      <Ntry>
+        <Amt Ccy="USD">25.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-03-31</Dt></BookgDt>
+        <AcctSvcrRef>FEE-0331</AcctSvcrRef>
+        <AddtlNtryInf>Service charge &amp; fees</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+function runTests() {
+  console.log('Running bank statement parser tests...\n');
+
+  // Test 1: CSV with separate withdrawal/deposit columns and running balance
+  console.log('Test 1: CSV with Debit/Credit columns');
+  const csv = parseCsvStatement([
+    { Date: '2024-03-05', Description: 'Cheque 100234', 'Cheque No': '100234', Debit: '1,500.00', Credit: '', Balance: '3500.00' },
+    { Date: '2024-03-10', Description: 'Deposit', Reference: 'INV-7', Debit: '', Credit: '2500.50', Balance: '6000.50' },
+    { Date: 'not a date', Description: 'Bad row', Debit: '1', Credit: '' },
+  ]);
+  console.log(`  Lines: ${csv.lines.length}, errors: ${csv.errors.length}, opening ${csv.openingBalance}, closing ${csv.closingBalance}`);
+  const test1Pass =
+    csv.lines.length === 2 &&
+    csv.errors.length === 1 &&
+    csv.lines[0].amount === -1500 &&
+    csv.lines[0].chequeNo === '100234' &&
+    csv.lines[1].amount === 2500.5 &&
+    csv.openingBalance === 5000 &&
+    csv.closingBalance === 6000.5;
+  console.log(`  Test 1: ${test1Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 2: CSV with a signed Amount column (parentheses for withdrawals)
+  console.log('Test 2: CSV with signed Amount column');
+  const signed = parseCsvStatement([
+    { 'Transaction Date': '2024-03-07', Narration: 'Transfer', Amount: '(200.00)' },
+    { 'Transaction Date': '2024-03-08', Narration: 'Interest', Amount: '12.34' },
+  ]);
+  const test2Pass = signed.lines.length === 2 && signed.lines[0].amount === -200 && signed.lines[1].amount === 12.34;
+  console.log(`  Test 2: ${test2Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 3: OFX (SGML, unclosed leaf tags)
+  console.log('Test 3: OFX SGML statement');
+  const ofx = parseOfxStatement(OFX_SGML);
+  console.log(`  Lines: ${ofx.lines.length}, closing ${ofx.closingBalance}, opening ${ofx.openingBalance}`);
+  const test3Pass =
+    ofx.lines.length === 2 &&
+    ofx.lines[0].amount === -1500 &&
+    ofx.lines[0].chequeNo === '100234' &&
+    ofx.lines[0].date.getDate() === 5 &&
+    ofx.lines[1].description === 'ACME LTD - INV-2024-0007' &&
+    ofx.closingBalance === 6000.5 &&
+    ofx.openingBalance === 5000;
+  console.log(`  Test 3: ${test3Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 4: CAMT.053 balances and a debit entry
+  console.log('Test 4: CAMT.053 statement');
+  const camt = parseCamtStatement(CAMT);
+  console.log(`  Lines: ${camt.lines.length}, opening ${camt.openingBalance}, closing ${camt.closingBalance}`);
+  const test4Pass =
+    camt.lines.length === 1 &&
+    camt.lines[0].amount === -25 &&
+    camt.lines[0].reference === 'FEE-0331' &&
+    camt.lines[0].description === 'Service charge & fees' &&
+    camt.openingBalance === 5000 &&
+    camt.closingBalance === 4975;
+  console.log(`  Test 4: ${test4Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 5: Format detection by file name
+  console.log('Test 5: Format detection');
+  const test5Pass =
+    detectStatementFormat('march.CSV') === 'CSV' &&
+    detectStatementFormat('march.qfx') === 'OFX' &&
+    detectStatementFormat('camt053.xml') === 'CAMT' &&
+    detectStatementFormat('march.pdf') === null;
+  console.log(`  Test 5: ${test5Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Summary
+  const allPass = test1Pass && test2Pass && test3Pass && test4Pass && test5Pass;
+  console.log(`\n${allPass ? 'All tests PASSED' : 'Some tests FAILED'}`);
+}
+
+// Run tests if executed directly
+if (require.main === module) {
+  runTests();
+}
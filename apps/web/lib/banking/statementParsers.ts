@@ -0,0 +1,354 @@
+/**
+ * Bank statement parsers (CSV rows, OFX, CAMT.053)
+ * Pure functions with no network or database access, so statements can be parsed offline.
+ * Amounts are signed from the bank's side: deposits positive, withdrawals negative.
+ */
+
+export type StatementFormat = 'CSV' | 'OFX' | 'CAMT';
+
+export interface ParsedStatementLine {
+  date: Date;
+  description: string | null;
+  reference: string | null;
+  chequeNo: string | null;
+  amount: number;
+  balance: number | null;
+}
+
+export interface ParsedStatement {
+  periodFrom: Date | null;
+  periodTo: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+  errors: string[];
+}
+
+/**
+ * Pick the statement format from the file name
+ */
+export function detectStatementFormat(fileName: string): StatementFormat | null {
+  if (/\.(csv|xlsx|xls)$/i.test(fileName)) return 'CSV';
+  if (/\.(ofx|qfx)$/i.test(fileName)) return 'OFX';
+  if (/\.xml$/i.test(fileName)) return 'CAMT';
+  return null;
+}
+
+function emptyStatement(): ParsedStatement {
+  return { periodFrom: null, periodTo: null, openingBalance: null, closingBalance: null, lines: [], errors: [] };
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parse a number, allowing thousands separators
+ */
+function parseNumber(value: string | null | undefined): number {
+  if (!value) return 0;
+  const num = parseFloat(value.trim().replace(/,/g, ''));
+  return isNaN(num) ? 0 : num;
+}
+
+/**
+ * Parse YYYY-MM-DD, DD/MM/YYYY or DD-MM-YYYY as a local calendar date, else any format Date accepts
+ */
+function parseDate(value: string | null | undefined): Date | null {
+  const str = value?.trim();
+  if (!str) return null;
+
+  let match = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  }
+  match = str.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+  if (match) {
+    return new Date(parseInt(match[3], 10), parseInt(match[2], 10) - 1, parseInt(match[1], 10));
+  }
+
+  const date = new Date(str);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Fill the period from the line dates when the file does not state it
+ */
+function finishStatement(statement: ParsedStatement): ParsedStatement {
+  const times = statement.lines.map((line) => line.date.getTime());
+  if (times.length > 0) {
+    statement.periodFrom = statement.periodFrom ?? new Date(Math.min(...times));
+    statement.periodTo = statement.periodTo ?? new Date(Math.max(...times));
+  }
+  return statement;
+}
+
+// ---------------------------------------------------------------------------
+// CSV / spreadsheet rows
+// ---------------------------------------------------------------------------
+
+const CSV_HEADERS: Record<string, keyof CsvRow> = {
+  'date': 'date',
+  'transaction date': 'date',
+  'txn date': 'date',
+  'posting date': 'date',
+  'value date': 'valueDate',
+  'description': 'description',
+  'narration': 'description',
+  'particulars': 'description',
+  'details': 'description',
+  'memo': 'description',
+  'reference': 'reference',
+  'ref': 'reference',
+  'ref no': 'reference',
+  'cheque no': 'chequeNo',
+  'cheque number': 'chequeNo',
+  'chq no': 'chequeNo',
+  'check no': 'chequeNo',
+  'amount': 'amount',
+  'debit': 'debit',
+  'withdrawal': 'debit',
+  'withdrawals': 'debit',
+  'credit': 'credit',
+  'deposit': 'credit',
+  'deposits': 'credit',
+  'balance': 'balance',
+  'running balance': 'balance',
+};
+
+interface CsvRow {
+  date?: string;
+  valueDate?: string;
+  description?: string;
+  reference?: string;
+  chequeNo?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  balance?: string;
+}
+
+/**
+ * Parse statement rows read from a CSV or spreadsheet (first row as headers).
+ * Either a signed Amount column or separate Debit/Credit (withdrawal/deposit) columns is accepted.
+ */
+export function parseCsvStatement(rawRows: Array<Record<string, any>>): ParsedStatement {
+  const statement = emptyStatement();
+
+  rawRows.forEach((raw, index) => {
+    const row: CsvRow = {};
+    for (const [key, value] of Object.entries(raw)) {
+      const field = CSV_HEADERS[key.trim().toLowerCase()];
+      if (field) {
+        row[field] = String(value ?? '').trim();
+      }
+    }
+
+    const rowNo = index + 2; // Header is row 1
+    if (!row.date && !row.amount && !row.debit && !row.credit) return;
+
+    const date = parseDate(row.date || row.valueDate);
+    if (!date) {
+      statement.errors.push(`Row ${rowNo}: invalid date "${row.date ?? ''}"`);
+      return;
+    }
+
+    const amount =
+      row.amount !== undefined && row.amount !== ''
+        ? parseNumber(row.amount.replace(/^\((.*)\)$/, '-$1'))
+        : parseNumber(row.credit) - Math.abs(parseNumber(row.debit));
+    if (amount === 0) {
+      statement.errors.push(`Row ${rowNo}: no amount`);
+      return;
+    }
+
+    statement.lines.push({
+      date,
+      description: row.description || null,
+      reference: row.reference || null,
+      chequeNo: row.chequeNo || null,
+      amount: roundMoney(amount),
+      balance: row.balance ? parseNumber(row.balance) : null,
+    });
+  });
+
+  if (statement.lines.length > 0) {
+    const first = statement.lines[0];
+    const last = statement.lines[statement.lines.length - 1];
+    if (first.balance !== null) {
+      statement.openingBalance = roundMoney(first.balance - first.amount);
+    }
+    statement.closingBalance = last.balance;
+  }
+
+  return finishStatement(statement);
+}
+
+// ---------------------------------------------------------------------------
+// OFX (SGML 1.x and XML 2.x)
+// ---------------------------------------------------------------------------
+
+/**
+ * Value of an OFX element; SGML OFX leaves leaf elements unclosed
+ */
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeXml(value) : null;
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]; the calendar date is what matters
+ */
+function parseOfxDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parseOfxStatement(text: string): ParsedStatement {
+  const statement = emptyStatement();
+
+  if (!/<OFX>/i.test(text)) {
+    statement.errors.push('Not an OFX file');
+    return statement;
+  }
+
+  const tranList = text.match(/<BANKTRANLIST>([\s\S]*?)(<\/BANKTRANLIST>|$)/i)?.[1] ?? text;
+  statement.periodFrom = parseOfxDate(ofxValue(tranList, 'DTSTART'));
+  statement.periodTo = parseOfxDate(ofxValue(tranList, 'DTEND'));
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  blocks.forEach((block, index) => {
+    const date = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+    const amountText = ofxValue(block, 'TRNAMT');
+    if (!date || amountText === null) {
+      statement.errors.push(`Transaction ${index + 1}: missing date or amount`);
+      return;
+    }
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    statement.lines.push({
+      date,
+      description: [name, memo].filter(Boolean).join(' - ') || null,
+      reference: ofxValue(block, 'REFNUM') ?? ofxValue(block, 'FITID'),
+      chequeNo: ofxValue(block, 'CHECKNUM'),
+      amount: roundMoney(parseNumber(amountText)),
+      balance: null,
+    });
+  });
+
+  const ledgerBal = text.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i)?.[1];
+  if (ledgerBal) {
+    const balance = ofxValue(ledgerBal, 'BALAMT');
+    statement.closingBalance = balance !== null ? parseNumber(balance) : null;
+    statement.periodTo = statement.periodTo ?? parseOfxDate(ofxValue(ledgerBal, 'DTASOF'));
+  }
+  if (statement.closingBalance !== null) {
+    const net = statement.lines.reduce((sum, line) => sum + line.amount, 0);
+    statement.openingBalance = roundMoney(statement.closingBalance - net);
+  }
+
+  return finishStatement(statement);
+}
+
+// ---------------------------------------------------------------------------
+// CAMT.053 (ISO 20022 bank-to-customer statement)
+// ---------------------------------------------------------------------------
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text of the first element with this local name (namespace prefixes ignored)
+ */
+function xmlText(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`));
+  const value = match?.[1].trim();
+  return value ? decodeXml(value) : null;
+}
+
+function xmlBlocks(text: string, tag: string): string[] {
+  return text.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>[\\s\\S]*?</(?:\\w+:)?${tag}>`, 'g')) ?? [];
+}
+
+function xmlBlock(text: string, tag: string): string | null {
+  return xmlBlocks(text, tag)[0] ?? null;
+}
+
+/**
+ * Amount signed by its CdtDbtInd sibling (CRDT positive, DBIT negative)
+ */
+function camtAmount(block: string): number | null {
+  const amount = xmlText(block, 'Amt');
+  if (amount === null) return null;
+  const sign = xmlText(block, 'CdtDbtInd') === 'DBIT' ? -1 : 1;
+  return roundMoney(sign * parseNumber(amount));
+}
+
+function camtDate(block: string | null): Date | null {
+  if (!block) return null;
+  const value = xmlText(block, 'Dt') ?? xmlText(block, 'DtTm');
+  return value ? parseDate(value.slice(0, 10)) : null;
+}
+
+export function parseCamtStatement(text: string): ParsedStatement {
+  const statement = emptyStatement();
+
+  const stmt = xmlBlock(text, 'Stmt');
+  if (!stmt) {
+    statement.errors.push('Not a CAMT.053 statement (no Stmt element)');
+    return statement;
+  }
+
+  const period = xmlBlock(stmt, 'FrToDt');
+  if (period) {
+    const from = xmlText(period, 'FrDtTm');
+    const to = xmlText(period, 'ToDtTm');
+    statement.periodFrom = from ? parseDate(from.slice(0, 10)) : null;
+    statement.periodTo = to ? parseDate(to.slice(0, 10)) : null;
+  }
+
+  xmlBlocks(stmt, 'Bal').forEach((bal) => {
+    const code = xmlText(xmlBlock(bal, 'Tp') ?? bal, 'Cd');
+    const amount = camtAmount(bal);
+    if (code === 'OPBD' || code === 'PRCD') {
+      statement.openingBalance = amount;
+    } else if (code === 'CLBD') {
+      statement.closingBalance = amount;
+    }
+  });
+
+  xmlBlocks(stmt, 'Ntry').forEach((entry, index) => {
+    const date = camtDate(xmlBlock(entry, 'BookgDt')) ?? camtDate(xmlBlock(entry, 'ValDt'));
+    const amount = camtAmount(entry);
+    if (!date || amount === null) {
+      statement.errors.push(`Entry ${index + 1}: missing booking date or amount`);
+      return;
+    }
+
+    const details = xmlBlock(entry, 'NtryDtls') ?? '';
+    const description = [xmlText(details, 'Nm'), xmlText(details, 'Ustrd') ?? xmlText(entry, 'AddtlNtryInf')]
+      .filter(Boolean)
+      .join(' - ');
+    statement.lines.push({
+      date,
+      description: description || null,
+      reference:
+        xmlText(entry, 'AcctSvcrRef') ?? xmlText(details, 'EndToEndId') ?? xmlText(entry, 'NtryRef'),
+      chequeNo: xmlText(details, 'ChqNb'),
+      amount,
+      balance: null,
+    });
+  });
+
+  return finishStatement(statement);
+}
@@ -0,0 +1,51 @@
+/**
+ * Client-safe running bill calculations (no server-only imports).
+ * Used by the bill form preview and by the server when saving a bill.
+ */
+
+export interface ClientBillAmountInput {
+  workDoneToDate: number;
+  previousBilled: number;
+  retentionPercent: number;
+  vatPercent: number;
+  aitPercent: number;
+}
+
+export interface ClientBillAmounts {
+  grossAmount: number;
+  retentionAmount: number;
+  vatAmount: number;
+  aitAmount: number;
+  netAmount: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compute bill amounts for a running bill
+ * gross = work done to date - previously billed; retention, VAT and AIT are deducted from gross
+ */
+export function computeClientBillAmounts(input: ClientBillAmountInput): ClientBillAmounts {
+  const grossAmount = round2(input.workDoneToDate - input.previousBilled);
+  const retentionAmount = round2((grossAmount * input.retentionPercent) / 100);
+  const vatAmount = round2((grossAmount * input.vatPercent) / 100);
+  const aitAmount = round2((grossAmount * input.aitPercent) / 100);
+  const netAmount = round2(grossAmount - retentionAmount - vatAmount - aitAmount);
+
+  return {
+    grossAmount,
+    retentionAmount,
+    vatAmount,
+    aitAmount,
+    netAmount,
+  };
+}
+
+/**
+ * Format running bill number: RB-01, RB-02, ...
+ */
+export function formatClientBillNo(sequence: number): string {
+  return `RB-${sequence.toString().padStart(2, '0')}`;
+}
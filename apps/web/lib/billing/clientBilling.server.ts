@@ -0,0 +1,719 @@
+/**
+ * Server-only functions for client running bills (progress billing)
+ * DO NOT import in client components
+ *
+ * Posting a bill raises the receivable:
+ *   Dr Accounts Receivable (net), Dr Retention Receivable, Dr VAT/AIT Deducted at Source
+ *   Cr Sales Revenue (gross)
+ * Receipts clear it:
+ *   Dr Cash/Bank, Cr Accounts Receivable (or Retention Receivable for retention release)
+ */
+
+import { prisma } from '@accounting/db';
+import { ClientReceiptKind, Prisma, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ClientBillCreate, ClientBillUpdate, ClientBillReceiptCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { isLeafAccount } from '@/lib/voucher';
+import { createPostedVoucher, reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { computeClientBillAmounts, formatClientBillNo } from './clientBillAmounts';
+
+export interface ClientBillResult {
+  success: boolean;
+  bill?: any;
+  error?: string;
+}
+
+export interface ProjectBillingSummary {
+  contractValue: number | null;
+  billedToDate: number;
+  billedPercent: number | null;
+  grossBilled: number;
+  netBilled: number;
+  received: number;
+  outstanding: number;
+  retentionHeld: number;
+  retentionReleased: number;
+  taxDeducted: number;
+}
+
+const billInclude = {
+  project: { select: { id: true, name: true, clientName: true, contractValue: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+  receipts: {
+    include: {
+      paymentAccount: { select: { id: true, code: true, name: true } },
+      voucher: { select: { id: true, voucherNo: true, status: true } },
+    },
+    orderBy: { date: 'asc' as const },
+  },
+} satisfies Prisma.ClientBillInclude;
+
+/**
+ * Cumulative work value billed before this bill (latest non-cancelled bill)
+ */
+async function getPreviousBilled(
+  client: Prisma.TransactionClient,
+  projectId: string,
+  beforeSequence?: number
+): Promise<number> {
+  const lastBill = await client.clientBill.findFirst({
+    where: {
+      projectId,
+      status: { not: 'CANCELLED' },
+      ...(beforeSequence !== undefined && { sequence: { lt: beforeSequence } }),
+    },
+    orderBy: { sequence: 'desc' },
+    select: { workDoneToDate: true },
+  });
+
+  return lastBill ? Number(lastBill.workDoneToDate) : 0;
+}
+
+/**
+ * Validate cumulative work value against contract value and previous bill
+ */
+function validateWorkDone(
+  workDoneToDate: number,
+  previousBilled: number,
+  contractValue: Prisma.Decimal | null
+): string | null {
+  if (workDoneToDate <= previousBilled) {
+    return `Work done to date (${workDoneToDate.toFixed(2)}) must be greater than previously billed (${previousBilled.toFixed(2)})`;
+  }
+  if (contractValue !== null && workDoneToDate > Number(contractValue)) {
+    return `Work done to date (${workDoneToDate.toFixed(2)}) exceeds contract value (${Number(contractValue).toFixed(2)})`;
+  }
+  return null;
+}
+
+/**
+ * Create a DRAFT running bill for a project
+ */
+export async function createClientBill(
+  companyId: string,
+  userId: string,
+  data: ClientBillCreate
+): Promise<ClientBillResult> {
+  const project = await prisma.project.findFirst({
+    where: { id: data.projectId, companyId },
+    select: { id: true, contractValue: true },
+  });
+
+  if (!project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const openDraft = await tx.clientBill.findFirst({
+      where: { projectId: project.id, status: 'DRAFT' },
+      select: { billNo: true },
+    });
+    if (openDraft) {
+      return {
+        success: false,
+        error: `Bill ${openDraft.billNo} is still a draft. Post or delete it before raising the next bill.`,
+      };
+    }
+
+    const previousBilled = await getPreviousBilled(tx, project.id);
+    const validationError = validateWorkDone(data.workDoneToDate, previousBilled, project.contractValue);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const lastSequence = await tx.clientBill.aggregate({
+      where: { projectId: project.id },
+      _max: { sequence: true },
+    });
+    const sequence = (lastSequence._max.sequence ?? 0) + 1;
+
+    const amounts = computeClientBillAmounts({
+      workDoneToDate: data.workDoneToDate,
+      previousBilled,
+      retentionPercent: data.retentionPercent ?? 0,
+      vatPercent: data.vatPercent ?? 0,
+      aitPercent: data.aitPercent ?? 0,
+    });
+
+    if (amounts.netAmount < 0) {
+      return { success: false, error: 'Deductions exceed the bill amount' };
+    }
+
+    const bill = await tx.clientBill.create({
+      data: {
+        companyId,
+        projectId: project.id,
+        billNo: formatClientBillNo(sequence),
+        sequence,
+        date: data.date,
+        dueDate: data.dueDate ?? null,
+        periodFrom: data.periodFrom ?? null,
+        periodTo: data.periodTo ?? null,
+        workDoneToDate: new Prisma.Decimal(data.workDoneToDate),
+        previousBilled: new Prisma.Decimal(previousBilled),
+        grossAmount: new Prisma.Decimal(amounts.grossAmount),
+        retentionPercent: new Prisma.Decimal(data.retentionPercent ?? 0),
+        retentionAmount: new Prisma.Decimal(amounts.retentionAmount),
+        vatPercent: new Prisma.Decimal(data.vatPercent ?? 0),
+        vatAmount: new Prisma.Decimal(amounts.vatAmount),
+        aitPercent: new Prisma.Decimal(data.aitPercent ?? 0),
+        aitAmount: new Prisma.Decimal(amounts.aitAmount),
+        netAmount: new Prisma.Decimal(amounts.netAmount),
+        notes: data.notes ?? null,
+        createdByUserId: userId,
+      },
+      include: billInclude,
+    });
+
+    return { success: true, bill };
+  });
+}
+
+/**
+ * Update a DRAFT running bill (amounts are recomputed)
+ */
+export async function updateClientBill(
+  billId: string,
+  companyId: string,
+  data: ClientBillUpdate
+): Promise<ClientBillResult> {
+  const existing = await prisma.clientBill.findFirst({
+    where: { id: billId, companyId },
+    include: { project: { select: { contractValue: true } } },
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Bill not found' };
+  }
+  if (existing.status !== 'DRAFT') {
+    return { success: false, error: `Cannot edit bill with status ${existing.status}. Only DRAFT bills can be edited.` };
+  }
+
+  const workDoneToDate = data.workDoneToDate ?? Number(existing.workDoneToDate);
+  const retentionPercent = data.retentionPercent ?? Number(existing.retentionPercent);
+  const vatPercent = data.vatPercent ?? Number(existing.vatPercent);
+  const aitPercent = data.aitPercent ?? Number(existing.aitPercent);
+
+  const previousBilled = await getPreviousBilled(prisma, existing.projectId, existing.sequence);
+  const validationError = validateWorkDone(workDoneToDate, previousBilled, existing.project.contractValue);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const amounts = computeClientBillAmounts({
+    workDoneToDate,
+    previousBilled,
+    retentionPercent,
+    vatPercent,
+    aitPercent,
+  });
+
+  if (amounts.netAmount < 0) {
+    return { success: false, error: 'Deductions exceed the bill amount' };
+  }
+
+  const bill = await prisma.clientBill.update({
+    where: { id: billId },
+    data: {
+      ...(data.date !== undefined && { date: data.date }),
+      ...(data.dueDate !== undefined && { dueDate: data.dueDate ?? null }),
+      ...(data.periodFrom !== undefined && { periodFrom: data.periodFrom ?? null }),
+      ...(data.periodTo !== undefined && { periodTo: data.periodTo ?? null }),
+      ...(data.notes !== undefined && { notes: data.notes ?? null }),
+      workDoneToDate: new Prisma.Decimal(workDoneToDate),
+      previousBilled: new Prisma.Decimal(previousBilled),
+      grossAmount: new Prisma.Decimal(amounts.grossAmount),
+      retentionPercent: new Prisma.Decimal(retentionPercent),
+      retentionAmount: new Prisma.Decimal(amounts.retentionAmount),
+      vatPercent: new Prisma.Decimal(vatPercent),
+      vatAmount: new Prisma.Decimal(amounts.vatAmount),
+      aitPercent: new Prisma.Decimal(aitPercent),
+      aitAmount: new Prisma.Decimal(amounts.aitAmount),
+      netAmount: new Prisma.Decimal(amounts.netAmount),
+    },
+    include: billInclude,
+  });
+
+  return { success: true, bill };
+}
+
+/**
+ * Post a DRAFT bill: creates the POSTED billing JOURNAL voucher and raises the receivable
+ */
+export async function postClientBill(
+  billId: string,
+  companyId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<ClientBillResult> {
+  const accounts = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+    SYSTEM_ACCOUNT_CODES.RETENTION_RECEIVABLE,
+    SYSTEM_ACCOUNT_CODES.VAT_DEDUCTED_AT_SOURCE,
+    SYSTEM_ACCOUNT_CODES.AIT_DEDUCTED_AT_SOURCE,
+    SYSTEM_ACCOUNT_CODES.SALES_REVENUE,
+  ]);
+  if (!accounts.success || !accounts.accountIds) {
+    return { success: false, error: accounts.error };
+  }
+  const accountIds = accounts.accountIds;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const bill = await tx.clientBill.findFirst({
+        where: { id: billId, companyId },
+        include: { project: { select: { id: true, name: true, clientName: true } } },
+      });
+
+      if (!bill) {
+        return { success: false, error: 'Bill not found' };
+      }
+      if (bill.status !== 'DRAFT') {
+        return { success: false, error: `Cannot post bill with status ${bill.status}. Only DRAFT bills can be posted.` };
+      }
+
+      const client = bill.project.clientName || bill.project.name;
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          projectId: bill.projectId,
+          date: bill.date,
+          type: 'JOURNAL',
+          narration: `Running bill ${bill.billNo} - ${client}`,
+          lines: [
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE],
+              description: `Receivable - ${bill.billNo} - ${client}`,
+              debit: bill.netAmount,
+              credit: 0,
+              projectId: bill.projectId,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.RETENTION_RECEIVABLE],
+              description: `Retention ${Number(bill.retentionPercent)}% - ${bill.billNo}`,
+              debit: bill.retentionAmount,
+              credit: 0,
+              projectId: bill.projectId,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.VAT_DEDUCTED_AT_SOURCE],
+              description: `VAT ${Number(bill.vatPercent)}% deducted - ${bill.billNo}`,
+              debit: bill.vatAmount,
+              credit: 0,
+              projectId: bill.projectId,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.AIT_DEDUCTED_AT_SOURCE],
+              description: `AIT ${Number(bill.aitPercent)}% deducted - ${bill.billNo}`,
+              debit: bill.aitAmount,
+              credit: 0,
+              projectId: bill.projectId,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.SALES_REVENUE],
+              description: `Contract revenue - ${bill.billNo}`,
+              debit: 0,
+              credit: bill.grossAmount,
+              projectId: bill.projectId,
+            },
+          ],
+        },
+        request
+      );
+
+      const updated = await tx.clientBill.update({
+        where: { id: bill.id },
+        data: { status: 'POSTED', voucherId: voucher.id },
+        include: billInclude,
+      });
+
+      await createAuditLog({
+        companyId,
+        actorUserId: userId,
+        entityType: 'ClientBill',
+        entityId: bill.id,
+        action: 'POST',
+        before: bill,
+        after: updated,
+        request,
+      });
+
+      return { success: true, bill: updated };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to post bill' };
+  }
+}
+
+/**
+ * Cancel a POSTED bill by reversing its voucher
+ * Only the latest bill of a project can be cancelled, and only before any money is received.
+ */
+export async function cancelClientBill(
+  billId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<ClientBillResult> {
+  const bill = await prisma.clientBill.findFirst({
+    where: { id: billId, companyId },
+  });
+
+  if (!bill) {
+    return { success: false, error: 'Bill not found' };
+  }
+  if (bill.status !== 'POSTED' || !bill.voucherId) {
+    return { success: false, error: `Cannot cancel bill with status ${bill.status}. Only POSTED bills can be cancelled.` };
+  }
+  if (Number(bill.receivedAmount) > 0 || Number(bill.retentionReleased) > 0) {
+    return { success: false, error: 'Cannot cancel a bill that has receipts recorded against it' };
+  }
+
+  const laterBill = await prisma.clientBill.findFirst({
+    where: {
+      projectId: bill.projectId,
+      sequence: { gt: bill.sequence },
+      status: { not: 'CANCELLED' },
+    },
+    select: { billNo: true },
+  });
+  if (laterBill) {
+    return { success: false, error: `Bill ${laterBill.billNo} was raised after this one. Cancel it first.` };
+  }
+
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      await reverseVoucherInTx(
+        tx,
+        bill.voucherId!,
+        userId,
+        companyId,
+        role,
+        { description: `Cancellation of running bill ${bill.billNo}` },
+        request
+      );
+
+      return tx.clientBill.update({
+        where: { id: bill.id },
+        data: { status: 'CANCELLED' },
+        include: billInclude,
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'ClientBill',
+      entityId: bill.id,
+      action: 'STATUS_CHANGE',
+      before: bill,
+      after: updated,
+      request,
+    });
+
+    return { success: true, bill: updated };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel bill' };
+  }
+}
+
+/**
+ * Take a receipt off its bill and delete it, inside the caller's transaction.
+ * Used once the receipt voucher has been reversed, so the bill totals and the aging agree.
+ */
+export async function removeClientBillReceipt(
+  tx: Prisma.TransactionClient,
+  receipt: { id: string; billId: string; kind: ClientReceiptKind; amount: Prisma.Decimal }
+) {
+  await tx.clientBill.update({
+    where: { id: receipt.billId },
+    data:
+      receipt.kind === 'RETENTION'
+        ? { retentionReleased: { decrement: receipt.amount } }
+        : { receivedAmount: { decrement: receipt.amount } },
+  });
+  await tx.clientBillReceipt.delete({ where: { id: receipt.id } });
+}
+
+/**
+ * Reverse a receipt recorded against a bill: reverses its RECEIPT voucher and removes the receipt
+ * from the bill in one transaction. Receipts paid by cheque are undone by bouncing or cancelling the cheque.
+ */
+export async function reverseClientBillReceipt(
+  receiptId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  options?: { date?: Date; description?: string },
+  request?: NextRequest
+): Promise<ClientBillResult & { reversalVoucherId?: string }> {
+  const receipt = await prisma.clientBillReceipt.findFirst({
+    where: { id: receiptId, companyId },
+    include: {
+      bill: { select: { billNo: true } },
+      voucher: { select: { voucherNo: true, cheque: { select: { chequeNo: true } } } },
+    },
+  });
+
+  if (!receipt) {
+    return { success: false, error: 'Receipt not found' };
+  }
+  if (receipt.voucher.cheque) {
+    return {
+      success: false,
+      error: `Receipt ${receipt.voucher.voucherNo} was paid by cheque ${receipt.voucher.cheque.chequeNo}. Bounce or cancel the cheque instead.`,
+    };
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const reversal = await reverseVoucherInTx(
+        tx,
+        receipt.voucherId,
+        userId,
+        companyId,
+        role,
+        {
+          date: options?.date,
+          description: options?.description || `Reversal of receipt ${receipt.voucher.voucherNo} - ${receipt.bill.billNo}`,
+        },
+        request
+      );
+
+      await removeClientBillReceipt(tx, receipt);
+
+      const bill = await tx.clientBill.findUniqueOrThrow({
+        where: { id: receipt.billId },
+        include: billInclude,
+      });
+      return { bill, reversalVoucherId: reversal.id };
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'ClientBillReceipt',
+      entityId: receipt.id,
+      action: 'REVERSE',
+      before: receipt,
+      after: { reversalVoucherId: result.reversalVoucherId },
+      request,
+    });
+
+    return { success: true, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to reverse receipt' };
+  }
+}
+
+/**
+ * Record money received from the client against a POSTED bill
+ * Creates a POSTED RECEIPT voucher: Dr payment account, Cr Accounts/Retention Receivable
+ */
+export async function recordClientBillReceipt(
+  billId: string,
+  companyId: string,
+  userId: string,
+  data: ClientBillReceiptCreate,
+  request?: NextRequest
+): Promise<ClientBillResult> {
+  const paymentAccount = await prisma.account.findFirst({
+    where: { id: data.paymentAccountId, companyId, isActive: true, type: 'ASSET' },
+  });
+  if (!paymentAccount) {
+    return { success: false, error: 'Payment account not found, inactive, or is not an asset account' };
+  }
+  if (!(await isLeafAccount(paymentAccount.id))) {
+    return { success: false, error: 'Payment account must be a leaf account' };
+  }
+
+  if (data.paymentMethodId) {
+    const paymentMethod = await prisma.paymentMethod.findFirst({
+      where: { id: data.paymentMethodId, companyId },
+    });
+    if (!paymentMethod) {
+      return { success: false, error: 'Payment method not found' };
+    }
+  }
+
+  const receivableCode =
+    data.kind === 'RETENTION'
+      ? SYSTEM_ACCOUNT_CODES.RETENTION_RECEIVABLE
+      : SYSTEM_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE;
+  const accounts = await getSystemAccountIds(companyId, [receivableCode]);
+  if (!accounts.success || !accounts.accountIds) {
+    return { success: false, error: accounts.error };
+  }
+  const receivableAccountId = accounts.accountIds[receivableCode];
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const bill = await tx.clientBill.findFirst({
+        where: { id: billId, companyId },
+        include: { project: { select: { id: true, name: true, clientName: true } } },
+      });
+
+      if (!bill) {
+        return { success: false, error: 'Bill not found' };
+      }
+      if (bill.status !== 'POSTED') {
+        return { success: false, error: 'Receipts can only be recorded against POSTED bills' };
+      }
+
+      const outstanding =
+        data.kind === 'RETENTION'
+          ? Number(bill.retentionAmount) - Number(bill.retentionReleased)
+          : Number(bill.netAmount) - Number(bill.receivedAmount);
+
+      if (data.amount - outstanding > 0.005) {
+        return {
+          success: false,
+          error: `Amount ${data.amount.toFixed(2)} exceeds outstanding ${data.kind === 'RETENTION' ? 'retention' : 'receivable'} ${outstanding.toFixed(2)}`,
+        };
+      }
+
+      const client = bill.project.clientName || bill.project.name;
+      const label = data.kind === 'RETENTION' ? 'Retention release' : 'Receipt';
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          projectId: bill.projectId,
+          date: data.date,
+          type: 'RECEIPT',
+          narration: `${label} - ${bill.billNo} - ${client}${data.reference ? ` (${data.reference})` : ''}`,
+          lines: [
+            {
+              accountId: paymentAccount.id,
+              description: `${label} from ${client}`,
+              debit: data.amount,
+              credit: 0,
+              projectId: bill.projectId,
+              paymentMethodId: data.paymentMethodId ?? null,
+            },
+            {
+              accountId: receivableAccountId,
+              description: `${label} - ${bill.billNo}`,
+              debit: 0,
+              credit: data.amount,
+              projectId: bill.projectId,
+              paymentMethodId: data.paymentMethodId ?? null,
+            },
+          ],
+        },
+        request
+      );
+
+      const receipt = await tx.clientBillReceipt.create({
+        data: {
+          companyId,
+          billId: bill.id,
+          kind: data.kind,
+          date: data.date,
+          amount: new Prisma.Decimal(data.amount),
+          paymentAccountId: paymentAccount.id,
+          paymentMethodId: data.paymentMethodId ?? null,
+          reference: data.reference ?? null,
+          voucherId: voucher.id,
+        },
+      });
+
+      const updated = await tx.clientBill.update({
+        where: { id: bill.id },
+        data:
+          data.kind === 'RETENTION'
+            ? { retentionReleased: { increment: data.amount } }
+            : { receivedAmount: { increment: data.amount } },
+        include: billInclude,
+      });
+
+      await createAuditLog({
+        companyId,
+        actorUserId: userId,
+        entityType: 'ClientBillReceipt',
+        entityId: receipt.id,
+        action: 'CREATE',
+        after: receipt,
+        request,
+      });
+
+      return { success: true, bill: updated };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record receipt' };
+  }
+}
+
+/**
+ * List bills for a project (oldest first, so the running total reads top-down)
+ */
+export async function getProjectClientBills(projectId: string, companyId: string) {
+  return prisma.clientBill.findMany({
+    where: { projectId, companyId },
+    include: billInclude,
+    orderBy: { sequence: 'asc' },
+  });
+}
+
+/**
+ * Billing position of a project against its contract value
+ */
+export async function getProjectBillingSummary(
+  projectId: string,
+  companyId: string
+): Promise<ProjectBillingSummary> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { contractValue: true },
+  });
+
+  if (!project) {
+    throw new Error('Project not found or does not belong to company');
+  }
+
+  const bills = await prisma.clientBill.findMany({
+    where: { projectId, companyId, status: 'POSTED' },
+    select: {
+      workDoneToDate: true,
+      grossAmount: true,
+      netAmount: true,
+      receivedAmount: true,
+      retentionAmount: true,
+      retentionReleased: true,
+      vatAmount: true,
+      aitAmount: true,
+    },
+    orderBy: { sequence: 'asc' },
+  });
+
+  const sum = (pick: (bill: (typeof bills)[number]) => Prisma.Decimal) =>
+    bills.reduce((total, bill) => total + Number(pick(bill)), 0);
+
+  const contractValue = project.contractValue !== null ? Number(project.contractValue) : null;
+  const billedToDate = bills.length > 0 ? Number(bills[bills.length - 1].workDoneToDate) : 0;
+  const netBilled = sum((b) => b.netAmount);
+  const received = sum((b) => b.receivedAmount);
+  const retentionHeld = sum((b) => b.retentionAmount) - sum((b) => b.retentionReleased);
+
+  return {
+    contractValue,
+    billedToDate,
+    billedPercent: contractValue ? (billedToDate / contractValue) * 100 : null,
+    grossBilled: sum((b) => b.grossAmount),
+    netBilled,
+    received,
+    outstanding: netBilled - received,
+    retentionHeld,
+    retentionReleased: sum((b) => b.retentionReleased),
+    taxDeducted: sum((b) => b.vatAmount) + sum((b) => b.aitAmount),
+  };
+}
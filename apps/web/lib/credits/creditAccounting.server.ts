@@ -0,0 +1,516 @@
+/**
+ * Server-only functions for posting credit (money received) entries to the general ledger
+ * DO NOT import in client components
+ *
+ * Credit entry: Dr payment account (cash/bank) / Cr income or advance account (RECEIPT voucher)
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { CreditCreate, CreditUpdate } from '@accounting/shared';
+import { isLeafAccount } from '@/lib/voucher';
+import { createPostedVoucher, reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+
+export interface CreditResult {
+  success: boolean;
+  credit?: any;
+  error?: string;
+}
+
+export interface CreditBackfillResult {
+  success: boolean;
+  posted: number;
+  failed: Array<{ creditId: string; date: Date; amount: number; error: string }>;
+  error?: string;
+}
+
+export const creditInclude = {
+  project: { select: { id: true, name: true } },
+  paymentAccount: { select: { id: true, code: true, name: true } },
+  incomeAccount: { select: { id: true, code: true, name: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+} satisfies Prisma.CreditInclude;
+
+type CreditForPosting = {
+  id: string;
+  companyId: string;
+  projectId: string | null;
+  projectSnapshotName: string;
+  date: Date;
+  purpose: string;
+  paidBy: string;
+  paymentMethod: string;
+  paymentRef: string | null;
+  amount: Prisma.Decimal;
+};
+
+type AccountResolution = { success: boolean; accountId?: string; error?: string };
+
+/**
+ * Resolve the account money is received into: the chosen asset account,
+ * otherwise Cash for cash receipts and the main Bank account for everything else
+ */
+async function resolvePaymentAccount(
+  companyId: string,
+  paymentMethod: string,
+  paymentAccountId?: string | null
+): Promise<AccountResolution> {
+  if (!paymentAccountId) {
+    const code = paymentMethod === 'Cash' ? SYSTEM_ACCOUNT_CODES.CASH : SYSTEM_ACCOUNT_CODES.BANK;
+    const accounts = await getSystemAccountIds(companyId, [code]);
+    if (!accounts.success || !accounts.accountIds) {
+      return { success: false, error: accounts.error };
+    }
+    return { success: true, accountId: accounts.accountIds[code] };
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: paymentAccountId, companyId, isActive: true, type: 'ASSET' },
+  });
+  if (!account) {
+    return { success: false, error: 'Payment account not found, inactive, or is not an asset account' };
+  }
+  if (!(await isLeafAccount(account.id))) {
+    return { success: false, error: 'Payment account must be a leaf account' };
+  }
+  return { success: true, accountId: account.id };
+}
+
+/**
+ * Resolve the account credited by the receipt: an income or liability (advance) account,
+ * or Customer Advances by default
+ */
+async function resolveIncomeAccount(companyId: string, incomeAccountId?: string | null): Promise<AccountResolution> {
+  if (!incomeAccountId) {
+    const accounts = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.CUSTOMER_ADVANCES]);
+    if (!accounts.success || !accounts.accountIds) {
+      return { success: false, error: accounts.error };
+    }
+    return { success: true, accountId: accounts.accountIds[SYSTEM_ACCOUNT_CODES.CUSTOMER_ADVANCES] };
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: incomeAccountId, companyId, isActive: true, type: { in: ['INCOME', 'LIABILITY'] } },
+  });
+  if (!account) {
+    return { success: false, error: 'Income account not found, inactive, or is not an income or advance account' };
+  }
+  if (!(await isLeafAccount(account.id))) {
+    return { success: false, error: 'Income account must be a leaf account' };
+  }
+  return { success: true, accountId: account.id };
+}
+
+async function resolveProject(
+  companyId: string,
+  projectId: string
+): Promise<{ success: boolean; name?: string; error?: string }> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+  return { success: true, name: project.name };
+}
+
+function describeCredit(credit: CreditForPosting): string {
+  return `${credit.purpose} - received from ${credit.paidBy}`;
+}
+
+/**
+ * Create the receipt voucher for a credit inside the caller's transaction
+ */
+async function postCreditVoucher(
+  tx: Prisma.TransactionClient,
+  credit: CreditForPosting,
+  paymentAccountId: string,
+  incomeAccountId: string,
+  userId: string,
+  request?: NextRequest
+) {
+  const amount = Number(credit.amount);
+  const description = describeCredit(credit);
+  const reference = [credit.paymentMethod, credit.paymentRef].filter(Boolean).join(' ');
+
+  return createPostedVoucher(
+    tx,
+    {
+      companyId: credit.companyId,
+      userId,
+      projectId: credit.projectId,
+      date: credit.date,
+      type: 'RECEIPT',
+      narration: `${description} (${reference})`,
+      lines: [
+        {
+          accountId: paymentAccountId,
+          description,
+          debit: amount,
+          credit: 0,
+          projectId: credit.projectId,
+        },
+        {
+          accountId: incomeAccountId,
+          description,
+          debit: 0,
+          credit: amount,
+          projectId: credit.projectId,
+        },
+      ],
+    },
+    request
+  );
+}
+
+/**
+ * Reverse the receipt voucher of a credit if it is still posted, inside the caller's transaction
+ */
+async function reverseCreditVoucher(
+  tx: Prisma.TransactionClient,
+  voucherId: string | null,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  description: string,
+  request?: NextRequest
+) {
+  if (!voucherId) return;
+
+  const voucher = await tx.voucher.findUnique({
+    where: { id: voucherId },
+    select: { status: true },
+  });
+  if (voucher?.status !== 'POSTED') return;
+
+  await reverseVoucherInTx(tx, voucherId, userId, companyId, role, { description }, request);
+}
+
+/**
+ * Create a credit entry and post its receipt voucher
+ */
+export async function createCredit(
+  companyId: string,
+  userId: string,
+  data: CreditCreate,
+  request?: NextRequest
+): Promise<CreditResult> {
+  let projectSnapshotName = data.projectSnapshotName;
+  if (data.projectId) {
+    const project = await resolveProject(companyId, data.projectId);
+    if (!project.success) {
+      return { success: false, error: project.error };
+    }
+    projectSnapshotName = projectSnapshotName || project.name!;
+  }
+
+  const paymentAccount = await resolvePaymentAccount(companyId, data.paymentMethod, data.paymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+  const incomeAccount = await resolveIncomeAccount(companyId, data.incomeAccountId);
+  if (!incomeAccount.success || !incomeAccount.accountId) {
+    return { success: false, error: incomeAccount.error };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = await tx.credit.create({
+        data: {
+          companyId,
+          projectId: data.projectId || null,
+          projectSnapshotName,
+          date: data.date,
+          purpose: data.purpose,
+          paidBy: data.paidBy,
+          receivedBy: data.receivedBy,
+          paymentMethod: data.paymentMethod,
+          paymentRef: data.paymentRef || null,
+          paymentAccountId: paymentAccount.accountId!,
+          incomeAccountId: incomeAccount.accountId!,
+          amount: new Prisma.Decimal(data.amount),
+          note: data.note || 'Done',
+        },
+      });
+
+      const voucher = await postCreditVoucher(
+        tx,
+        created,
+        paymentAccount.accountId!,
+        incomeAccount.accountId!,
+        userId,
+        request
+      );
+
+      const credit = await tx.credit.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+        include: creditInclude,
+      });
+      return { success: true, credit };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create credit' };
+  }
+}
+
+/**
+ * Update a credit entry and keep its receipt voucher in step
+ * Changing the date, amount, project, payment method or either account reverses the
+ * existing voucher and posts a new one. Text-only edits leave the ledger untouched.
+ */
+export async function updateCredit(
+  creditId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  data: CreditUpdate,
+  request?: NextRequest
+): Promise<CreditResult> {
+  const existing = await prisma.credit.findFirst({
+    where: { id: creditId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Credit not found or does not belong to your company' };
+  }
+
+  let projectSnapshotName = data.projectSnapshotName || existing.projectSnapshotName;
+  if (data.projectId !== undefined) {
+    if (data.projectId) {
+      const project = await resolveProject(companyId, data.projectId);
+      if (!project.success) {
+        return { success: false, error: project.error };
+      }
+      if (!data.projectSnapshotName) {
+        projectSnapshotName = project.name!;
+      }
+    } else {
+      projectSnapshotName = data.projectSnapshotName || 'Company (All Projects)';
+    }
+  }
+
+  const paymentMethod = data.paymentMethod ?? existing.paymentMethod;
+  const methodChanged = data.paymentMethod !== undefined && data.paymentMethod !== existing.paymentMethod;
+  // A method change without an explicit account re-derives the default cash/bank account
+  const requestedPaymentAccountId =
+    data.paymentAccountId !== undefined
+      ? data.paymentAccountId
+      : methodChanged
+        ? null
+        : existing.paymentAccountId;
+  const requestedIncomeAccountId =
+    data.incomeAccountId !== undefined ? data.incomeAccountId : existing.incomeAccountId;
+
+  const paymentAccount = await resolvePaymentAccount(companyId, paymentMethod, requestedPaymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+  const incomeAccount = await resolveIncomeAccount(companyId, requestedIncomeAccountId);
+  if (!incomeAccount.success || !incomeAccount.accountId) {
+    return { success: false, error: incomeAccount.error };
+  }
+
+  const amountChanged =
+    data.amount !== undefined && Math.abs(data.amount - Number(existing.amount)) > 0.005;
+  const dateChanged = data.date !== undefined && data.date.getTime() !== existing.date.getTime();
+  const projectChanged = data.projectId !== undefined && (data.projectId || null) !== existing.projectId;
+  const needsRepost =
+    existing.voucherId === null ||
+    amountChanged ||
+    dateChanged ||
+    projectChanged ||
+    methodChanged ||
+    paymentAccount.accountId !== existing.paymentAccountId ||
+    incomeAccount.accountId !== existing.incomeAccountId;
+
+  const updateData: Prisma.CreditUncheckedUpdateInput = {
+    ...(data.date !== undefined && { date: data.date }),
+    ...(data.projectId !== undefined && { projectId: data.projectId || null }),
+    projectSnapshotName,
+    ...(data.purpose !== undefined && { purpose: data.purpose }),
+    ...(data.paidBy !== undefined && { paidBy: data.paidBy }),
+    ...(data.receivedBy !== undefined && { receivedBy: data.receivedBy }),
+    ...(data.paymentMethod !== undefined && { paymentMethod: data.paymentMethod }),
+    ...(data.paymentRef !== undefined && { paymentRef: data.paymentRef || null }),
+    ...(data.amount !== undefined && { amount: new Prisma.Decimal(data.amount) }),
+    ...(data.note !== undefined && { note: data.note || 'Done' }),
+    paymentAccountId: paymentAccount.accountId,
+    incomeAccountId: incomeAccount.accountId,
+  };
+
+  if (!needsRepost) {
+    const credit = await prisma.credit.update({
+      where: { id: creditId },
+      data: updateData,
+      include: creditInclude,
+    });
+    return { success: true, credit };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Reversed with the re-post, so a failed re-post keeps the credit in the cash/bank books
+      await reverseCreditVoucher(
+        tx,
+        existing.voucherId,
+        companyId,
+        userId,
+        role,
+        `Reversal of credit (edited) - ${describeCredit(existing)}`,
+        request
+      );
+
+      const updated = await tx.credit.update({
+        where: { id: creditId },
+        data: { ...updateData, voucherId: null },
+      });
+
+      const voucher = await postCreditVoucher(
+        tx,
+        updated,
+        paymentAccount.accountId!,
+        incomeAccount.accountId!,
+        userId,
+        request
+      );
+
+      const credit = await tx.credit.update({
+        where: { id: creditId },
+        data: { voucherId: voucher.id },
+        include: creditInclude,
+      });
+      return { success: true, credit };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update credit' };
+  }
+}
+
+/**
+ * Delete a credit entry after reversing its receipt voucher
+ */
+export async function deleteCredit(
+  creditId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<CreditResult> {
+  const existing = await prisma.credit.findFirst({
+    where: { id: creditId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Credit not found or does not belong to your company' };
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await reverseCreditVoucher(
+        tx,
+        existing.voucherId,
+        companyId,
+        userId,
+        role,
+        `Reversal of deleted credit - ${describeCredit(existing)}`,
+        request
+      );
+
+      await tx.credit.delete({
+        where: { id: creditId },
+      });
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete credit' };
+  }
+
+  return { success: true, credit: existing };
+}
+
+/**
+ * Post the receipt voucher for a credit that has none and link it, inside the caller's transaction
+ * Credits without an income account are credited to `defaultIncomeAccountId`
+ * (Customer Advances when not given). Throws if an account cannot be resolved.
+ */
+export async function postVoucherForCredit(
+  tx: Prisma.TransactionClient,
+  credit: CreditForPosting & { paymentAccountId: string | null; incomeAccountId: string | null },
+  userId: string,
+  defaultIncomeAccountId?: string | null,
+  request?: NextRequest
+) {
+  const paymentAccount = await resolvePaymentAccount(credit.companyId, credit.paymentMethod, credit.paymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    throw new Error(paymentAccount.error || 'Payment account not found');
+  }
+  const incomeAccount = await resolveIncomeAccount(
+    credit.companyId,
+    credit.incomeAccountId ?? defaultIncomeAccountId
+  );
+  if (!incomeAccount.success || !incomeAccount.accountId) {
+    throw new Error(incomeAccount.error || 'Income account not found');
+  }
+
+  const voucher = await postCreditVoucher(
+    tx,
+    credit,
+    paymentAccount.accountId,
+    incomeAccount.accountId,
+    userId,
+    request
+  );
+
+  return tx.credit.update({
+    where: { id: credit.id },
+    data: {
+      voucherId: voucher.id,
+      paymentAccountId: paymentAccount.accountId,
+      incomeAccountId: incomeAccount.accountId,
+    },
+  });
+}
+
+/**
+ * Post receipt vouchers for credits recorded before they were linked to the ledger
+ * Each credit is posted in its own transaction so one bad row does not block the rest.
+ */
+export async function backfillCreditVouchers(
+  companyId: string,
+  userId: string,
+  incomeAccountId?: string | null,
+  request?: NextRequest
+): Promise<CreditBackfillResult> {
+  const defaultIncomeAccount = await resolveIncomeAccount(companyId, incomeAccountId);
+  if (!defaultIncomeAccount.success || !defaultIncomeAccount.accountId) {
+    return { success: false, posted: 0, failed: [], error: defaultIncomeAccount.error };
+  }
+
+  const credits = await prisma.credit.findMany({
+    where: { companyId, voucherId: null },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  let posted = 0;
+  const failed: CreditBackfillResult['failed'] = [];
+
+  for (const credit of credits) {
+    try {
+      await prisma.$transaction((tx) =>
+        postVoucherForCredit(tx, credit, userId, defaultIncomeAccount.accountId, request)
+      );
+      posted += 1;
+    } catch (error) {
+      failed.push({
+        creditId: credit.id,
+        date: credit.date,
+        amount: Number(credit.amount),
+        error: error instanceof Error ? error.message : 'Failed to post voucher',
+      });
+    }
+  }
+
+  return { success: true, posted, failed };
+}
@@ -0,0 +1,133 @@
+/**
+ * Server-only functions for the investor-wise capital statement of a project
+ * DO NOT import in client components
+ */
+
+import { prisma } from '@accounting/db';
+import type { DateRange } from '@/lib/print/range';
+import { getProjectProfitability, type ProjectProfitabilityData } from '@/lib/reports/statements';
+
+export interface InvestorCapitalRow {
+  investorName: string | null;
+  openingCapital: number;
+  contributions: number;
+  withdrawals: number;
+  closingCapital: number;
+  sharePercent: number;
+  profitShare: number;
+  closingBalance: number;
+}
+
+export interface CapitalStatementLine {
+  id: string;
+  date: Date;
+  investorName: string | null;
+  type: 'INVESTMENT' | 'WITHDRAWAL';
+  amount: number;
+  note: string | null;
+  voucherId: string | null;
+  voucherNo: string | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Capital statement for a project: contributions and withdrawals per investor for the range,
+ * with the project's profit for the range shared in proportion to each investor's closing capital.
+ * Investors with no positive closing capital take no share.
+ */
+export async function getProjectCapitalStatement(projectId: string, companyId: string, range: DateRange) {
+  const [investments, profitability] = await Promise.all([
+    prisma.projectInvestment.findMany({
+      where: { projectId, companyId, date: { lte: range.to } },
+      include: { voucher: { select: { id: true, voucherNo: true } } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+    getProjectProfitability(companyId, range.from, range.to, projectId) as Promise<ProjectProfitabilityData>,
+  ]);
+
+  const rows = new Map<string, InvestorCapitalRow>();
+  const lines: CapitalStatementLine[] = [];
+
+  investments.forEach((investment) => {
+    const key = investment.investorName ?? '';
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        investorName: investment.investorName,
+        openingCapital: 0,
+        contributions: 0,
+        withdrawals: 0,
+        closingCapital: 0,
+        sharePercent: 0,
+        profitShare: 0,
+        closingBalance: 0,
+      };
+      rows.set(key, row);
+    }
+
+    const amount = Number(investment.amount);
+    const signed = investment.type === 'WITHDRAWAL' ? -amount : amount;
+
+    if (investment.date < range.from) {
+      row.openingCapital += signed;
+      return;
+    }
+
+    if (investment.type === 'WITHDRAWAL') {
+      row.withdrawals += amount;
+    } else {
+      row.contributions += amount;
+    }
+
+    lines.push({
+      id: investment.id,
+      date: investment.date,
+      investorName: investment.investorName,
+      type: investment.type,
+      amount,
+      note: investment.note,
+      voucherId: investment.voucher?.id ?? null,
+      voucherNo: investment.voucher?.voucherNo ?? null,
+    });
+  });
+
+  const profit = profitability.profit;
+  const investors = Array.from(rows.values());
+  investors.forEach((row) => {
+    row.closingCapital = round2(row.openingCapital + row.contributions - row.withdrawals);
+  });
+
+  const totalShareBase = investors.reduce((sum, row) => sum + Math.max(0, row.closingCapital), 0);
+  investors.forEach((row) => {
+    const share = totalShareBase > 0 ? Math.max(0, row.closingCapital) / totalShareBase : 0;
+    row.sharePercent = round2(share * 100);
+    row.profitShare = round2(profit * share);
+    row.closingBalance = round2(row.closingCapital + row.profitShare);
+  });
+
+  investors.sort((a, b) => b.closingCapital - a.closingCapital);
+
+  const totals = investors.reduce(
+    (acc, row) => ({
+      openingCapital: acc.openingCapital + row.openingCapital,
+      contributions: acc.contributions + row.contributions,
+      withdrawals: acc.withdrawals + row.withdrawals,
+      closingCapital: acc.closingCapital + row.closingCapital,
+      profitShare: acc.profitShare + row.profitShare,
+      closingBalance: acc.closingBalance + row.closingBalance,
+    }),
+    { openingCapital: 0, contributions: 0, withdrawals: 0, closingCapital: 0, profitShare: 0, closingBalance: 0 }
+  );
+
+  return {
+    from: range.from,
+    to: range.to,
+    income: profitability.income,
+    expenses: profitability.expenses,
+    profit,
+    investors,
+    totals,
+    lines,
+  };
+}
@@ -0,0 +1,360 @@
+/**
+ * Server-only functions for posting project investments to the general ledger
+ * DO NOT import in client components
+ *
+ * Investment: Dr payment account (cash/bank) / Cr equity account (RECEIPT voucher)
+ * Withdrawal: Dr equity account / Cr payment account (PAYMENT voucher)
+ * The equity account is Capital (3020) unless another equity account, e.g. Owner Equity (3010), is chosen.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, ProjectInvestmentType, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ProjectInvestmentCreate, ProjectInvestmentUpdate } from '@accounting/shared';
+import { isLeafAccount } from '@/lib/voucher';
+import { createPostedVoucher, reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+
+export interface InvestmentResult {
+  success: boolean;
+  investment?: any;
+  error?: string;
+}
+
+export const investmentInclude = {
+  project: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  equityAccount: { select: { id: true, code: true, name: true } },
+  paymentAccount: { select: { id: true, code: true, name: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+} satisfies Prisma.ProjectInvestmentInclude;
+
+type InvestmentForPosting = {
+  companyId: string;
+  projectId: string;
+  type: ProjectInvestmentType;
+  investorName: string | null;
+  date: Date;
+  amount: Prisma.Decimal;
+  note: string | null;
+};
+
+type AccountResolution = { success: boolean; accountId?: string; error?: string };
+
+/**
+ * Resolve a chosen leaf account of the given type, or the system account `defaultCode`
+ */
+async function resolveAccount(
+  companyId: string,
+  accountId: string | null | undefined,
+  type: 'ASSET' | 'EQUITY',
+  defaultCode: string,
+  label: string
+): Promise<AccountResolution> {
+  if (!accountId) {
+    const accounts = await getSystemAccountIds(companyId, [defaultCode]);
+    if (!accounts.success || !accounts.accountIds) {
+      return { success: false, error: accounts.error };
+    }
+    return { success: true, accountId: accounts.accountIds[defaultCode] };
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: accountId, companyId, isActive: true, type },
+  });
+  if (!account) {
+    return {
+      success: false,
+      error: `${label} not found, inactive, or is not an ${type.toLowerCase()} account`,
+    };
+  }
+  if (!(await isLeafAccount(account.id))) {
+    return { success: false, error: `${label} must be a leaf account` };
+  }
+  return { success: true, accountId: account.id };
+}
+
+function resolveEquityAccount(companyId: string, equityAccountId?: string | null) {
+  return resolveAccount(companyId, equityAccountId, 'EQUITY', SYSTEM_ACCOUNT_CODES.CAPITAL, 'Equity account');
+}
+
+function resolvePaymentAccount(companyId: string, paymentAccountId?: string | null) {
+  return resolveAccount(companyId, paymentAccountId, 'ASSET', SYSTEM_ACCOUNT_CODES.CASH, 'Payment account');
+}
+
+function describeInvestment(investment: InvestmentForPosting): string {
+  const label = investment.type === 'WITHDRAWAL' ? 'Capital withdrawal' : 'Capital investment';
+  return `${label}${investment.investorName ? ` - ${investment.investorName}` : ''}`;
+}
+
+/**
+ * Create the voucher for an investment or withdrawal inside the caller's transaction
+ */
+async function postInvestmentVoucher(
+  tx: Prisma.TransactionClient,
+  investment: InvestmentForPosting,
+  equityAccountId: string,
+  paymentAccountId: string,
+  userId: string,
+  request?: NextRequest
+) {
+  const amount = Number(investment.amount);
+  const description = describeInvestment(investment);
+  const isWithdrawal = investment.type === 'WITHDRAWAL';
+
+  return createPostedVoucher(
+    tx,
+    {
+      companyId: investment.companyId,
+      userId,
+      projectId: investment.projectId,
+      date: investment.date,
+      type: isWithdrawal ? 'PAYMENT' : 'RECEIPT',
+      narration: `${description}${investment.note ? ` (${investment.note})` : ''}`,
+      lines: [
+        {
+          accountId: paymentAccountId,
+          description,
+          debit: isWithdrawal ? 0 : amount,
+          credit: isWithdrawal ? amount : 0,
+          projectId: investment.projectId,
+        },
+        {
+          accountId: equityAccountId,
+          description,
+          debit: isWithdrawal ? amount : 0,
+          credit: isWithdrawal ? 0 : amount,
+          projectId: investment.projectId,
+        },
+      ],
+    },
+    request
+  );
+}
+
+/**
+ * Reverse the voucher of an investment if it is still posted, inside the caller's transaction
+ */
+async function reverseInvestmentVoucher(
+  tx: Prisma.TransactionClient,
+  voucherId: string | null,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  description: string,
+  request?: NextRequest
+) {
+  if (!voucherId) return;
+
+  const voucher = await tx.voucher.findUnique({
+    where: { id: voucherId },
+    select: { status: true },
+  });
+  if (voucher?.status !== 'POSTED') return;
+
+  await reverseVoucherInTx(tx, voucherId, userId, companyId, role, { description }, request);
+}
+
+/**
+ * Record an investment or withdrawal for a project and post its voucher
+ */
+export async function createInvestment(
+  projectId: string,
+  companyId: string,
+  userId: string,
+  data: ProjectInvestmentCreate,
+  request?: NextRequest
+): Promise<InvestmentResult> {
+  const equityAccount = await resolveEquityAccount(companyId, data.equityAccountId);
+  if (!equityAccount.success || !equityAccount.accountId) {
+    return { success: false, error: equityAccount.error };
+  }
+  const paymentAccount = await resolvePaymentAccount(companyId, data.paymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = await tx.projectInvestment.create({
+        data: {
+          companyId,
+          projectId,
+          type: data.type ?? 'INVESTMENT',
+          investorName: data.investorName || null,
+          date: data.date,
+          amount: new Prisma.Decimal(data.amount),
+          note: data.note || null,
+          equityAccountId: equityAccount.accountId!,
+          paymentAccountId: paymentAccount.accountId!,
+          createdByUserId: userId,
+        },
+      });
+
+      const voucher = await postInvestmentVoucher(
+        tx,
+        created,
+        equityAccount.accountId!,
+        paymentAccount.accountId!,
+        userId,
+        request
+      );
+
+      const investment = await tx.projectInvestment.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+        include: investmentInclude,
+      });
+      return { success: true, investment };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create investment' };
+  }
+}
+
+/**
+ * Update an investment and keep its voucher in step
+ * Changing the date, amount or accounts reverses the existing voucher and posts a new one.
+ */
+export async function updateInvestment(
+  investmentId: string,
+  projectId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  data: ProjectInvestmentUpdate,
+  request?: NextRequest
+): Promise<InvestmentResult> {
+  const existing = await prisma.projectInvestment.findFirst({
+    where: { id: investmentId, projectId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Investment not found' };
+  }
+
+  const equityAccount = await resolveEquityAccount(
+    companyId,
+    data.equityAccountId !== undefined ? data.equityAccountId : existing.equityAccountId
+  );
+  if (!equityAccount.success || !equityAccount.accountId) {
+    return { success: false, error: equityAccount.error };
+  }
+  const paymentAccount = await resolvePaymentAccount(
+    companyId,
+    data.paymentAccountId !== undefined ? data.paymentAccountId : existing.paymentAccountId
+  );
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+
+  const amountChanged =
+    data.amount !== undefined && Math.abs(data.amount - Number(existing.amount)) > 0.005;
+  const dateChanged = data.date !== undefined && data.date.getTime() !== existing.date.getTime();
+  const investorChanged =
+    data.investorName !== undefined && (data.investorName || null) !== existing.investorName;
+  const needsRepost =
+    existing.voucherId === null ||
+    amountChanged ||
+    dateChanged ||
+    investorChanged ||
+    equityAccount.accountId !== existing.equityAccountId ||
+    paymentAccount.accountId !== existing.paymentAccountId;
+
+  const updateData: Prisma.ProjectInvestmentUncheckedUpdateInput = {
+    ...(data.investorName !== undefined && { investorName: data.investorName || null }),
+    ...(data.date !== undefined && { date: data.date }),
+    ...(data.amount !== undefined && { amount: new Prisma.Decimal(data.amount) }),
+    ...(data.note !== undefined && { note: data.note || null }),
+    equityAccountId: equityAccount.accountId,
+    paymentAccountId: paymentAccount.accountId,
+  };
+
+  if (!needsRepost) {
+    const investment = await prisma.projectInvestment.update({
+      where: { id: investmentId },
+      data: updateData,
+      include: investmentInclude,
+    });
+    return { success: true, investment };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Reversed with the re-post, so a failed re-post keeps the investment in the books
+      await reverseInvestmentVoucher(
+        tx,
+        existing.voucherId,
+        companyId,
+        userId,
+        role,
+        `Reversal of ${describeInvestment(existing).toLowerCase()} (edited)`,
+        request
+      );
+
+      const updated = await tx.projectInvestment.update({
+        where: { id: investmentId },
+        data: { ...updateData, voucherId: null },
+      });
+
+      const voucher = await postInvestmentVoucher(
+        tx,
+        updated,
+        equityAccount.accountId!,
+        paymentAccount.accountId!,
+        userId,
+        request
+      );
+
+      const investment = await tx.projectInvestment.update({
+        where: { id: investmentId },
+        data: { voucherId: voucher.id },
+        include: investmentInclude,
+      });
+      return { success: true, investment };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update investment' };
+  }
+}
+
+/**
+ * Delete an investment after reversing its voucher
+ */
+export async function deleteInvestment(
+  investmentId: string,
+  projectId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<InvestmentResult> {
+  const existing = await prisma.projectInvestment.findFirst({
+    where: { id: investmentId, projectId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Investment not found' };
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await reverseInvestmentVoucher(
+        tx,
+        existing.voucherId,
+        companyId,
+        userId,
+        role,
+        `Reversal of deleted ${describeInvestment(existing).toLowerCase()}`,
+        request
+      );
+
+      await tx.projectInvestment.delete({
+        where: { id: investmentId },
+      });
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete investment' };
+  }
+
+  return { success: true, investment: existing };
+}
@@ -0,0 +1,775 @@
+/**
+ * Server-only functions for posting project labor to the general ledger
+ * DO NOT import in client components
+ *
+ * Labor entry:   Dr Direct Labor (amount) / Cr payment account (paid) / Cr Labor Payable (due)
+ * Later payment: Dr Labor Payable / Cr payment account (LaborPayment, allocated to entry dues)
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { LaborPaymentCreate, ProjectLaborCreate, ProjectLaborUpdate } from '@accounting/shared';
+import { isLeafAccount } from '@/lib/voucher';
+import { createPostedVoucher, reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+
+export interface LaborResult {
+  success: boolean;
+  labor?: any;
+  error?: string;
+}
+
+export interface LaborPaymentResult {
+  success: boolean;
+  payment?: any;
+  error?: string;
+}
+
+export const laborInclude = {
+  project: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+  paymentAccount: { select: { id: true, code: true, name: true } },
+  paymentAllocations: {
+    include: {
+      payment: {
+        select: {
+          id: true,
+          date: true,
+          amount: true,
+          reference: true,
+          voucher: { select: { id: true, voucherNo: true, status: true } },
+          paymentAccount: { select: { id: true, code: true, name: true } },
+          paymentMethod: { select: { id: true, name: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ProjectLaborInclude;
+
+export const laborPaymentInclude = {
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+  paymentAccount: { select: { id: true, code: true, name: true } },
+  paymentMethod: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+  allocations: {
+    include: {
+      labor: { select: { id: true, date: true, workerName: true, amount: true } },
+    },
+  },
+} satisfies Prisma.LaborPaymentInclude;
+
+type LaborForPosting = {
+  id: string;
+  companyId: string;
+  projectId: string;
+  type: string;
+  date: Date;
+  amount: Prisma.Decimal;
+  paid: Prisma.Decimal | null;
+  workerName: string | null;
+  employeeName: string | null;
+  teamLeader: string | null;
+  month: number | null;
+  year: number | null;
+  paymentMethodId: string | null;
+};
+
+/**
+ * Resolve the account labor is paid from: the chosen asset account, or Cash by default
+ */
+async function resolvePaymentAccount(
+  companyId: string,
+  paymentAccountId?: string | null
+): Promise<{ success: boolean; accountId?: string; error?: string }> {
+  if (!paymentAccountId) {
+    const cash = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.CASH]);
+    if (!cash.success || !cash.accountIds) {
+      return { success: false, error: cash.error };
+    }
+    return { success: true, accountId: cash.accountIds[SYSTEM_ACCOUNT_CODES.CASH] };
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: paymentAccountId, companyId, isActive: true, type: 'ASSET' },
+  });
+  if (!account) {
+    return { success: false, error: 'Payment account not found, inactive, or is not an asset account' };
+  }
+  if (!(await isLeafAccount(account.id))) {
+    return { success: false, error: 'Payment account must be a leaf account' };
+  }
+  return { success: true, accountId: account.id };
+}
+
+async function validatePaymentMethod(companyId: string, paymentMethodId?: string | null): Promise<string | null> {
+  if (!paymentMethodId) return null;
+  const paymentMethod = await prisma.paymentMethod.findFirst({
+    where: { id: paymentMethodId, companyId },
+  });
+  return paymentMethod ? null : 'Payment method not found';
+}
+
+function describeLabor(labor: LaborForPosting): string {
+  if (labor.type === 'MONTHLY') {
+    const period = labor.month && labor.year ? ` ${labor.month}/${labor.year}` : '';
+    return `Salary${period}${labor.employeeName ? ` - ${labor.employeeName}` : ''}`;
+  }
+  const who = labor.workerName || labor.teamLeader;
+  return `Day labor${who ? ` - ${who}` : ''}`;
+}
+
+/**
+ * Create the entry voucher for a labor row inside the caller's transaction
+ */
+async function postLaborEntryVoucher(
+  tx: Prisma.TransactionClient,
+  labor: LaborForPosting,
+  accountIds: Record<string, string>,
+  paymentAccountId: string,
+  userId: string,
+  request?: NextRequest
+) {
+  const amount = Number(labor.amount);
+  const paid = Number(labor.paid ?? 0);
+  const due = Math.max(0, amount - paid);
+  const description = describeLabor(labor);
+
+  return createPostedVoucher(
+    tx,
+    {
+      companyId: labor.companyId,
+      userId,
+      projectId: labor.projectId,
+      date: labor.date,
+      type: paid > 0 ? 'PAYMENT' : 'JOURNAL',
+      expenseType: 'PROJECT_EXPENSE',
+      narration: description,
+      lines: [
+        {
+          accountId: accountIds[SYSTEM_ACCOUNT_CODES.DIRECT_LABOR],
+          description,
+          debit: amount,
+          credit: 0,
+          projectId: labor.projectId,
+        },
+        {
+          accountId: paymentAccountId,
+          description: `Paid - ${description}`,
+          debit: 0,
+          credit: paid,
+          projectId: labor.projectId,
+          paymentMethodId: labor.paymentMethodId,
+        },
+        {
+          accountId: accountIds[SYSTEM_ACCOUNT_CODES.LABOR_PAYABLE],
+          description: `Due - ${description}`,
+          debit: 0,
+          credit: due,
+          projectId: labor.projectId,
+        },
+      ],
+    },
+    request
+  );
+}
+
+type LaborWithAllocations = {
+  id: string;
+  voucherId: string | null;
+  paymentAllocations: Array<{
+    paymentId: string;
+    amount: Prisma.Decimal;
+    payment: { voucherId: string; allocations: Array<{ laborId: string }> };
+  }>;
+};
+
+const allocationsForReversal = {
+  paymentAllocations: {
+    select: {
+      paymentId: true,
+      amount: true,
+      payment: { select: { voucherId: true, allocations: { select: { laborId: true } } } },
+    },
+  },
+} satisfies Prisma.ProjectLaborInclude;
+
+/**
+ * Reverse a labor voucher inside the caller's transaction; vouchers no longer POSTED are skipped
+ */
+async function reverseIfPosted(
+  tx: Prisma.TransactionClient,
+  voucherId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  description: string,
+  request?: NextRequest
+) {
+  const voucher = await tx.voucher.findUnique({
+    where: { id: voucherId },
+    select: { status: true },
+  });
+  if (voucher?.status !== 'POSTED') return;
+
+  await reverseVoucherInTx(tx, voucherId, userId, companyId, role, { description }, request);
+}
+
+/**
+ * Reverse the entry voucher and the payment vouchers of a labor row inside the caller's transaction.
+ * Installments shared with other entries must be deleted first; throws otherwise.
+ */
+async function reverseLaborVouchers(
+  tx: Prisma.TransactionClient,
+  labor: LaborWithAllocations,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  description: string,
+  request?: NextRequest
+) {
+  const shared = labor.paymentAllocations.some((allocation) =>
+    allocation.payment.allocations.some((other) => other.laborId !== labor.id)
+  );
+  if (shared) {
+    throw new Error('This entry has installment payments shared with other entries. Delete those payments first.');
+  }
+
+  const voucherIds = [
+    ...labor.paymentAllocations.map((allocation) => allocation.payment.voucherId),
+    ...(labor.voucherId ? [labor.voucherId] : []),
+  ];
+
+  for (const voucherId of voucherIds) {
+    await reverseIfPosted(tx, voucherId, companyId, userId, role, description, request);
+  }
+}
+
+/**
+ * Create a payment voucher and allocate it to labor dues, oldest entry first
+ * Runs inside the caller's transaction; throws if the amount exceeds the dues.
+ */
+async function allocateLaborPayment(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    projectId: string;
+    userId: string;
+    laborIds?: string[];
+    teamLeader?: string | null;
+    date: Date;
+    amount: number;
+    paymentAccountId: string;
+    paymentMethodId: string | null;
+    reference?: string | null;
+    note?: string | null;
+    accountIds: Record<string, string>;
+  },
+  request?: NextRequest
+) {
+  const entries = await tx.projectLabor.findMany({
+    where: {
+      companyId: params.companyId,
+      projectId: params.projectId,
+      ...(params.laborIds ? { id: { in: params.laborIds } } : { teamLeader: params.teamLeader, type: 'DAY' }),
+      due: { gt: 0 },
+    },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const totalDue = entries.reduce((sum, entry) => sum + Number(entry.due ?? 0), 0);
+  if (params.amount - totalDue > 0.005) {
+    throw new Error(
+      `Amount ${params.amount.toFixed(2)} exceeds outstanding labor due ${totalDue.toFixed(2)}`
+    );
+  }
+
+  const payee = params.teamLeader || entries[0]?.teamLeader || entries[0]?.workerName;
+  const description = `Labor due paid${payee ? ` - ${payee}` : ''}`;
+
+  const voucher = await createPostedVoucher(
+    tx,
+    {
+      companyId: params.companyId,
+      userId: params.userId,
+      projectId: params.projectId,
+      date: params.date,
+      type: 'PAYMENT',
+      expenseType: 'PROJECT_EXPENSE',
+      narration: `${description}${params.reference ? ` (${params.reference})` : ''}`,
+      lines: [
+        {
+          accountId: params.accountIds[SYSTEM_ACCOUNT_CODES.LABOR_PAYABLE],
+          description,
+          debit: params.amount,
+          credit: 0,
+          projectId: params.projectId,
+        },
+        {
+          accountId: params.paymentAccountId,
+          description,
+          debit: 0,
+          credit: params.amount,
+          projectId: params.projectId,
+          paymentMethodId: params.paymentMethodId,
+        },
+      ],
+    },
+    request
+  );
+
+  const payment = await tx.laborPayment.create({
+    data: {
+      companyId: params.companyId,
+      projectId: params.projectId,
+      teamLeader: params.teamLeader ?? entries[0]?.teamLeader ?? null,
+      date: params.date,
+      amount: new Prisma.Decimal(params.amount),
+      paymentAccountId: params.paymentAccountId,
+      paymentMethodId: params.paymentMethodId,
+      reference: params.reference ?? null,
+      note: params.note ?? null,
+      voucherId: voucher.id,
+      createdByUserId: params.userId,
+    },
+  });
+
+  let remaining = params.amount;
+  for (const entry of entries) {
+    if (remaining <= 0.005) break;
+    const allocated = Math.min(remaining, Number(entry.due ?? 0));
+    remaining = Math.round((remaining - allocated) * 100) / 100;
+
+    await tx.laborPaymentAllocation.create({
+      data: {
+        paymentId: payment.id,
+        laborId: entry.id,
+        amount: new Prisma.Decimal(allocated),
+      },
+    });
+    await tx.projectLabor.update({
+      where: { id: entry.id },
+      data: {
+        paid: { increment: allocated },
+        due: { decrement: allocated },
+      },
+    });
+  }
+
+  return payment;
+}
+
+/**
+ * Create a labor entry and post it to the ledger
+ * Monthly salaries are recorded as paid unless a paid amount is given.
+ */
+export async function createLaborEntry(
+  companyId: string,
+  userId: string,
+  data: ProjectLaborCreate,
+  request?: NextRequest
+): Promise<LaborResult> {
+  const amount = data.amount;
+  const paid = data.paid ?? (data.type === 'MONTHLY' ? amount : 0);
+  if (paid - amount > 0.005) {
+    return { success: false, error: 'Paid amount cannot exceed the labor amount' };
+  }
+
+  const accounts = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.DIRECT_LABOR,
+    SYSTEM_ACCOUNT_CODES.LABOR_PAYABLE,
+  ]);
+  if (!accounts.success || !accounts.accountIds) {
+    return { success: false, error: accounts.error };
+  }
+  const accountIds = accounts.accountIds;
+
+  const paymentAccount = await resolvePaymentAccount(companyId, data.paymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+  const paymentAccountId = paymentAccount.accountId;
+
+  const paymentMethodError = await validatePaymentMethod(companyId, data.paymentMethodId);
+  if (paymentMethodError) {
+    return { success: false, error: paymentMethodError };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = await tx.projectLabor.create({
+        data: {
+          companyId,
+          projectId: data.projectId,
+          type: data.type ?? 'DAY',
+          date: data.date,
+          amount: new Prisma.Decimal(amount),
+          note: data.note ?? null,
+          workerName: data.workerName ?? null,
+          employeeName: data.employeeName ?? null,
+          month: data.month ?? null,
+          year: data.year ?? null,
+          teamLeader: data.teamLeader ?? null,
+          paid: new Prisma.Decimal(paid),
+          due: new Prisma.Decimal(Math.max(0, amount - paid)),
+          rating: data.rating ?? null,
+          paymentAccountId,
+          paymentMethodId: data.paymentMethodId ?? null,
+          createdByUserId: userId,
+        },
+      });
+
+      const voucher = await postLaborEntryVoucher(tx, created, accountIds, paymentAccountId, userId, request);
+
+      const labor = await tx.projectLabor.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+        include: laborInclude,
+      });
+
+      return { success: true, labor };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create labor entry' };
+  }
+}
+
+/**
+ * Update a labor entry and keep its vouchers in step
+ * - Raising only `paid` records a payment against the due (new payment voucher dated paymentDate).
+ * - Changing amount, date, payment account or lowering `paid` reverses the entry voucher and
+ *   re-posts it. Installment payments keep their own vouchers, so `paid` cannot go below them.
+ */
+export async function updateLaborEntry(
+  laborId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  data: ProjectLaborUpdate,
+  request?: NextRequest
+): Promise<LaborResult> {
+  const existing = await prisma.projectLabor.findFirst({
+    where: { id: laborId, companyId },
+    include: allocationsForReversal,
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Labor entry not found' };
+  }
+
+  const amount = data.amount ?? Number(existing.amount);
+  const oldPaid = Number(existing.paid ?? 0);
+  const paid = data.paid !== undefined ? data.paid : oldPaid;
+  if (paid - amount > 0.005) {
+    return { success: false, error: 'Paid amount cannot exceed the labor amount' };
+  }
+
+  const installmentPaid = existing.paymentAllocations.reduce(
+    (sum, allocation) => sum + Number(allocation.amount),
+    0
+  );
+  if (installmentPaid - paid > 0.005) {
+    return {
+      success: false,
+      error: `Installments of ${installmentPaid.toFixed(2)} have been paid against this entry. Delete those payments before lowering the amount or paid below that.`,
+    };
+  }
+
+  const amountChanged = Math.abs(amount - Number(existing.amount)) > 0.005;
+  const dateChanged = data.date !== undefined && data.date.getTime() !== existing.date.getTime();
+  const accountChanged =
+    data.paymentAccountId !== undefined && (data.paymentAccountId ?? null) !== existing.paymentAccountId;
+  const paidIncrease = paid - oldPaid;
+
+  // A new payment account moves what was paid at entry too, so it always re-posts
+  const isPaymentOnly =
+    existing.voucherId !== null && !amountChanged && !dateChanged && !accountChanged && paidIncrease > 0.005;
+  const needsRepost =
+    !isPaymentOnly &&
+    (existing.voucherId === null || amountChanged || dateChanged || accountChanged || paidIncrease < -0.005);
+
+  const updateData: Prisma.ProjectLaborUpdateInput = {
+    ...(data.type !== undefined && { type: data.type }),
+    ...(data.date !== undefined && { date: data.date }),
+    ...(data.amount !== undefined && { amount: new Prisma.Decimal(data.amount) }),
+    ...(data.note !== undefined && { note: data.note ?? null }),
+    ...(data.workerName !== undefined && { workerName: data.workerName ?? null }),
+    ...(data.employeeName !== undefined && { employeeName: data.employeeName ?? null }),
+    ...(data.month !== undefined && { month: data.month ?? null }),
+    ...(data.year !== undefined && { year: data.year ?? null }),
+    ...(data.teamLeader !== undefined && { teamLeader: data.teamLeader ?? null }),
+    paid: new Prisma.Decimal(paid),
+    due: new Prisma.Decimal(Math.max(0, amount - paid)),
+    ...(data.rating !== undefined && { rating: data.rating ?? null }),
+  };
+
+  if (!isPaymentOnly && !needsRepost) {
+    const labor = await prisma.projectLabor.update({
+      where: { id: laborId },
+      data: updateData,
+      include: laborInclude,
+    });
+    return { success: true, labor };
+  }
+
+  const accounts = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.DIRECT_LABOR,
+    SYSTEM_ACCOUNT_CODES.LABOR_PAYABLE,
+  ]);
+  if (!accounts.success || !accounts.accountIds) {
+    return { success: false, error: accounts.error };
+  }
+  const accountIds = accounts.accountIds;
+
+  const paymentAccount = await resolvePaymentAccount(
+    companyId,
+    data.paymentAccountId !== undefined ? data.paymentAccountId : existing.paymentAccountId
+  );
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+  const paymentAccountId = paymentAccount.accountId;
+
+  const paymentMethodId =
+    data.paymentMethodId !== undefined ? data.paymentMethodId ?? null : existing.paymentMethodId;
+  const paymentMethodError = await validatePaymentMethod(companyId, paymentMethodId);
+  if (paymentMethodError) {
+    return { success: false, error: paymentMethodError };
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (isPaymentOnly) {
+        await allocateLaborPayment(
+          tx,
+          {
+            companyId,
+            projectId: existing.projectId,
+            userId,
+            laborIds: [laborId],
+            teamLeader: existing.teamLeader,
+            date: data.paymentDate ?? new Date(),
+            amount: paidIncrease,
+            paymentAccountId,
+            paymentMethodId,
+            accountIds,
+          },
+          request
+        );
+
+        const { paid: _paid, due: _due, ...otherChanges } = updateData;
+        const labor = await tx.projectLabor.update({
+          where: { id: laborId },
+          data: otherChanges,
+          include: laborInclude,
+        });
+        return { success: true, labor };
+      }
+
+      // Re-post: the reversal commits with the new voucher, so a failed re-post leaves the old one in place
+      if (existing.voucherId) {
+        await reverseIfPosted(
+          tx,
+          existing.voucherId,
+          companyId,
+          userId,
+          role,
+          `Reversal of labor entry (edited) - ${describeLabor(existing)}`,
+          request
+        );
+      }
+
+      const updated = await tx.projectLabor.update({
+        where: { id: laborId },
+        data: {
+          ...updateData,
+          paymentAccount: { connect: { id: paymentAccountId } },
+          paymentMethod: paymentMethodId ? { connect: { id: paymentMethodId } } : { disconnect: true },
+          voucher: { disconnect: true },
+        },
+      });
+
+      // Installments stay on their own vouchers; the entry voucher carries only what was paid at entry
+      const voucher = await postLaborEntryVoucher(
+        tx,
+        { ...updated, paid: new Prisma.Decimal(paid - installmentPaid) },
+        accountIds,
+        paymentAccountId,
+        userId,
+        request
+      );
+
+      const labor = await tx.projectLabor.update({
+        where: { id: laborId },
+        data: { voucherId: voucher.id },
+        include: laborInclude,
+      });
+      return { success: true, labor };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update labor entry' };
+  }
+}
+
+/**
+ * Delete a labor entry after reversing its vouchers
+ */
+export async function deleteLaborEntry(
+  laborId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<LaborResult> {
+  const existing = await prisma.projectLabor.findFirst({
+    where: { id: laborId, companyId },
+    include: allocationsForReversal,
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Labor entry not found' };
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await reverseLaborVouchers(
+        tx,
+        existing,
+        companyId,
+        userId,
+        role,
+        `Reversal of deleted labor entry - ${describeLabor(existing)}`,
+        request
+      );
+
+      await tx.laborPayment.deleteMany({
+        where: { id: { in: existing.paymentAllocations.map((allocation) => allocation.paymentId) } },
+      });
+      await tx.projectLabor.delete({
+        where: { id: laborId },
+      });
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete labor entry' };
+  }
+
+  return { success: true, labor: existing };
+}
+
+/**
+ * Pay labor dues in an installment: one entry, or a team leader's dues oldest first
+ */
+export async function createLaborPayment(
+  projectId: string,
+  companyId: string,
+  userId: string,
+  data: LaborPaymentCreate,
+  request?: NextRequest
+): Promise<LaborPaymentResult> {
+  const accounts = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.LABOR_PAYABLE]);
+  if (!accounts.success || !accounts.accountIds) {
+    return { success: false, error: accounts.error };
+  }
+
+  const paymentAccount = await resolvePaymentAccount(companyId, data.paymentAccountId);
+  if (!paymentAccount.success || !paymentAccount.accountId) {
+    return { success: false, error: paymentAccount.error };
+  }
+
+  const paymentMethodError = await validatePaymentMethod(companyId, data.paymentMethodId);
+  if (paymentMethodError) {
+    return { success: false, error: paymentMethodError };
+  }
+
+  if (data.laborId) {
+    const labor = await prisma.projectLabor.findFirst({
+      where: { id: data.laborId, projectId, companyId },
+      select: { id: true },
+    });
+    if (!labor) {
+      return { success: false, error: 'Labor entry not found' };
+    }
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const created = await allocateLaborPayment(
+        tx,
+        {
+          companyId,
+          projectId,
+          userId,
+          laborIds: data.laborId ? [data.laborId] : undefined,
+          teamLeader: data.teamLeader,
+          date: data.date,
+          amount: data.amount,
+          paymentAccountId: paymentAccount.accountId!,
+          paymentMethodId: data.paymentMethodId ?? null,
+          reference: data.reference,
+          note: data.note,
+          accountIds: accounts.accountIds!,
+        },
+        request
+      );
+
+      const payment = await tx.laborPayment.findUnique({
+        where: { id: created.id },
+        include: laborPaymentInclude,
+      });
+      return { success: true, payment };
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record labor payment' };
+  }
+}
+
+/**
+ * Delete an installment: reverse its voucher and give the amount back to the entry dues
+ */
+export async function deleteLaborPayment(
+  paymentId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  request?: NextRequest
+): Promise<LaborPaymentResult> {
+  const payment = await prisma.laborPayment.findFirst({
+    where: { id: paymentId, companyId },
+    include: { allocations: true },
+  });
+
+  if (!payment) {
+    return { success: false, error: 'Payment not found' };
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await reverseIfPosted(
+        tx,
+        payment.voucherId,
+        companyId,
+        userId,
+        role,
+        `Reversal of labor payment${payment.teamLeader ? ` - ${payment.teamLeader}` : ''}`,
+        request
+      );
+
+      for (const allocation of payment.allocations) {
+        await tx.projectLabor.update({
+          where: { id: allocation.laborId },
+          data: {
+            paid: { decrement: allocation.amount },
+            due: { increment: allocation.amount },
+          },
+        });
+      }
+      await tx.laborPayment.delete({ where: { id: payment.id } });
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete labor payment' };
+  }
+
+  return { success: true, payment };
+}
@@ -0,0 +1,160 @@
+/**
+ * Server-only functions for labor dues per team leader
+ * DO NOT import in client components
+ */
+
+import { prisma } from '@accounting/db';
+import type { DateRange } from '@/lib/print/range';
+
+export interface TeamLeaderDue {
+  teamLeader: string | null;
+  entries: number;
+  amount: number;
+  paid: number;
+  due: number;
+  lastPaymentDate: Date | null;
+}
+
+export interface LaborDueStatementLine {
+  date: Date;
+  kind: 'ENTRY' | 'PAYMENT';
+  description: string;
+  voucherNo: string | null;
+  charge: number;
+  paid: number;
+  balance: number;
+}
+
+/**
+ * Outstanding day-labor dues per team leader for a project
+ */
+export async function getTeamLeaderDues(projectId: string, companyId: string): Promise<TeamLeaderDue[]> {
+  const [grouped, lastPayments] = await Promise.all([
+    prisma.projectLabor.groupBy({
+      by: ['teamLeader'],
+      where: { projectId, companyId, type: 'DAY' },
+      _count: { _all: true },
+      _sum: { amount: true, paid: true, due: true },
+    }),
+    prisma.laborPayment.groupBy({
+      by: ['teamLeader'],
+      where: { projectId, companyId },
+      _max: { date: true },
+    }),
+  ]);
+
+  const lastPaymentByLeader = new Map(lastPayments.map((p) => [p.teamLeader, p._max.date]));
+
+  return grouped
+    .map((row) => ({
+      teamLeader: row.teamLeader,
+      entries: row._count._all,
+      amount: Number(row._sum.amount ?? 0),
+      paid: Number(row._sum.paid ?? 0),
+      due: Number(row._sum.due ?? 0),
+      lastPaymentDate: lastPaymentByLeader.get(row.teamLeader) ?? null,
+    }))
+    .sort((a, b) => b.due - a.due);
+}
+
+/**
+ * Dues statement for one team leader: entries raise the balance, payments reduce it.
+ * Amounts paid when an entry was recorded are shown on the entry line.
+ */
+export async function getTeamLeaderStatement(
+  projectId: string,
+  companyId: string,
+  teamLeader: string | null,
+  range: DateRange
+) {
+  const entries = await prisma.projectLabor.findMany({
+    where: { projectId, companyId, type: 'DAY', teamLeader },
+    include: {
+      voucher: { select: { voucherNo: true } },
+      paymentAllocations: {
+        include: {
+          payment: {
+            select: {
+              id: true,
+              date: true,
+              reference: true,
+              voucher: { select: { voucherNo: true } },
+              paymentMethod: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const payments = new Map<
+    string,
+    { date: Date; description: string; voucherNo: string | null; amount: number }
+  >();
+
+  const allLines: Omit<LaborDueStatementLine, 'balance'>[] = [];
+
+  entries.forEach((entry) => {
+    const installments = entry.paymentAllocations.reduce((sum, a) => sum + Number(a.amount), 0);
+    const paidAtEntry = Math.max(0, Number(entry.paid ?? 0) - installments);
+
+    allLines.push({
+      date: entry.date,
+      kind: 'ENTRY',
+      description: `Day labor${entry.workerName ? ` - ${entry.workerName}` : ''}${entry.note ? ` (${entry.note})` : ''}`,
+      voucherNo: entry.voucher?.voucherNo ?? null,
+      charge: Number(entry.amount),
+      paid: paidAtEntry,
+    });
+
+    entry.paymentAllocations.forEach((allocation) => {
+      const existing = payments.get(allocation.paymentId);
+      if (existing) {
+        existing.amount += Number(allocation.amount);
+        return;
+      }
+      const { payment } = allocation;
+      payments.set(allocation.paymentId, {
+        date: payment.date,
+        description: `Payment${payment.paymentMethod ? ` - ${payment.paymentMethod.name}` : ''}${payment.reference ? ` (${payment.reference})` : ''}`,
+        voucherNo: payment.voucher.voucherNo,
+        amount: Number(allocation.amount),
+      });
+    });
+  });
+
+  payments.forEach((payment) => {
+    allLines.push({
+      date: payment.date,
+      kind: 'PAYMENT',
+      description: payment.description,
+      voucherNo: payment.voucherNo,
+      charge: 0,
+      paid: payment.amount,
+    });
+  });
+
+  allLines.sort((a, b) => a.date.getTime() - b.date.getTime() || (a.kind === 'ENTRY' ? -1 : 1));
+
+  const openingBalance = allLines
+    .filter((line) => line.date < range.from)
+    .reduce((sum, line) => sum + line.charge - line.paid, 0);
+
+  let runningBalance = openingBalance;
+  const lines: LaborDueStatementLine[] = allLines
+    .filter((line) => line.date >= range.from && line.date <= range.to)
+    .map((line) => {
+      runningBalance += line.charge - line.paid;
+      return { ...line, balance: runningBalance };
+    });
+
+  return {
+    openingBalance,
+    closingBalance: runningBalance,
+    totalCharge: lines.reduce((sum, line) => sum + line.charge, 0),
+    totalPaid: lines.reduce((sum, line) => sum + line.paid, 0),
+    outstanding: entries.reduce((sum, entry) => sum + Number(entry.due ?? 0), 0),
+    lines,
+  };
+}
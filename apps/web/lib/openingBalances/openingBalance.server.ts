@@ -0,0 +1,356 @@
+/**
+ * Server-only functions for cut-over opening balances
+ * DO NOT import in client components
+ *
+ * Opening balances are posted as a single JOURNAL dated on the cut-over date:
+ * - account balances as entered (debit or credit)
+ * - vendor payables as Accounts Payable credits tagged with the vendor (open items for payments)
+ * - project costs to date as expense debits tagged with the project
+ * Whatever does not balance goes to Opening Balance Equity.
+ */
+
+import { prisma } from '@accounting/db';
+import { NextRequest } from 'next/server';
+import type { OpeningBalanceCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { createPostedVoucher } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { isLeafAccount } from '@/lib/voucher';
+
+export interface OpeningBalanceResult {
+  success: boolean;
+  openingBalance?: any;
+  error?: string;
+}
+
+export interface OpeningBalanceSheetRow {
+  section?: string;
+  accountCode?: string;
+  vendor?: string;
+  project?: string;
+  debit?: string | number;
+  credit?: string | number;
+  amount?: string | number;
+  reference?: string;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function parseSheetAmount(value: string | number | undefined): number {
+  if (value === undefined || value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(value.replace(/[৳$,\s]/g, ''));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Current opening balance voucher (null when none has been posted, or it was reversed)
+ */
+export async function getOpeningBalance(companyId: string) {
+  const openingBalance = await prisma.openingBalance.findUnique({
+    where: { companyId },
+    include: {
+      voucher: {
+        select: {
+          id: true,
+          voucherNo: true,
+          status: true,
+          date: true,
+          lines: {
+            select: {
+              id: true,
+              debit: true,
+              credit: true,
+              description: true,
+              account: { select: { id: true, code: true, name: true } },
+              vendor: { select: { id: true, name: true } },
+              project: { select: { id: true, name: true } },
+            },
+          },
+        },
+      },
+      createdBy: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!openingBalance || openingBalance.voucher.status !== 'POSTED') {
+    return null;
+  }
+
+  return {
+    ...openingBalance,
+    voucher: {
+      ...openingBalance.voucher,
+      lines: openingBalance.voucher.lines.map((line) => ({
+        ...line,
+        debit: Number(line.debit),
+        credit: Number(line.credit),
+      })),
+    },
+  };
+}
+
+/**
+ * Post the opening balance voucher
+ * Refused while an earlier opening voucher is still posted; reverse it first to start over.
+ */
+export async function postOpeningBalances(
+  companyId: string,
+  userId: string,
+  data: OpeningBalanceCreate,
+  request?: NextRequest
+): Promise<OpeningBalanceResult> {
+  const existing = await getOpeningBalance(companyId);
+  if (existing) {
+    return {
+      success: false,
+      error: `Opening balances were already posted as ${existing.voucher.voucherNo}. Reverse that voucher to enter them again.`,
+    };
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+    SYSTEM_ACCOUNT_CODES.OPENING_BALANCE_EQUITY,
+  ]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    return { success: false, error: accountIds.error };
+  }
+  const payableAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE];
+  const equityAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.OPENING_BALANCE_EQUITY];
+
+  // Validate references belong to the company
+  const accountIdSet = new Set([
+    ...data.accounts.map((row) => row.accountId),
+    ...data.projects.map((row) => row.accountId),
+  ]);
+  const [accounts, vendors, projects] = await Promise.all([
+    prisma.account.findMany({
+      where: { companyId, id: { in: Array.from(accountIdSet) }, isActive: true },
+      select: { id: true, code: true, name: true, type: true },
+    }),
+    prisma.vendor.findMany({
+      where: { companyId, id: { in: data.vendors.map((row) => row.vendorId) } },
+      select: { id: true, name: true },
+    }),
+    prisma.project.findMany({
+      where: { companyId, id: { in: data.projects.map((row) => row.projectId) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const accountById = new Map(accounts.map((account) => [account.id, account]));
+  const vendorById = new Map(vendors.map((vendor) => [vendor.id, vendor]));
+  const projectById = new Map(projects.map((project) => [project.id, project]));
+
+  for (const row of data.accounts) {
+    const account = accountById.get(row.accountId);
+    if (!account) {
+      return { success: false, error: 'Account not found or inactive' };
+    }
+    if (account.id === payableAccountId) {
+      return {
+        success: false,
+        error: 'Enter Accounts Payable per vendor in the vendor section, so payments can be allocated against it',
+      };
+    }
+    if (account.id === equityAccountId) {
+      return { success: false, error: 'Opening Balance Equity is calculated; do not enter it directly' };
+    }
+  }
+  for (const accountId of Array.from(accountIdSet)) {
+    if (accountById.has(accountId) && !(await isLeafAccount(accountId))) {
+      const account = accountById.get(accountId)!;
+      return {
+        success: false,
+        error: `${account.code} ${account.name} is a group account; enter its balance on the accounts under it`,
+      };
+    }
+  }
+  for (const row of data.vendors) {
+    if (!vendorById.has(row.vendorId)) {
+      return { success: false, error: 'Vendor not found' };
+    }
+  }
+  for (const row of data.projects) {
+    if (!projectById.has(row.projectId)) {
+      return { success: false, error: 'Project not found' };
+    }
+    if (accountById.get(row.accountId)?.type !== 'EXPENSE') {
+      return { success: false, error: 'Project opening costs must be posted to an EXPENSE account' };
+    }
+  }
+
+  const lines: Array<{
+    accountId: string;
+    description?: string | null;
+    debit: number;
+    credit: number;
+    projectId?: string | null;
+    vendorId?: string | null;
+  }> = [];
+
+  for (const row of data.accounts) {
+    lines.push({
+      accountId: row.accountId,
+      description: 'Opening balance',
+      debit: roundMoney(row.debit),
+      credit: roundMoney(row.credit),
+    });
+  }
+  for (const row of data.vendors) {
+    lines.push({
+      accountId: payableAccountId,
+      description: row.reference ? `Opening balance - ${row.reference}` : 'Opening balance',
+      debit: 0,
+      credit: roundMoney(row.amount),
+      vendorId: row.vendorId,
+    });
+  }
+  for (const row of data.projects) {
+    lines.push({
+      accountId: row.accountId,
+      description: row.description || 'Opening project cost',
+      debit: roundMoney(row.amount),
+      credit: 0,
+      projectId: row.projectId,
+    });
+  }
+
+  const totalDebit = lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0);
+  const difference = roundMoney(totalDebit - totalCredit);
+  if (difference !== 0) {
+    lines.push({
+      accountId: equityAccountId,
+      description: 'Opening balance equity',
+      debit: difference < 0 ? -difference : 0,
+      credit: difference > 0 ? difference : 0,
+    });
+  }
+
+  const cutoverDate = new Date(data.cutoverDate);
+  cutoverDate.setHours(0, 0, 0, 0);
+
+  try {
+    const openingBalance = await prisma.$transaction(async (tx) => {
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date: cutoverDate,
+          type: 'JOURNAL',
+          narration: `Opening balances as of ${cutoverDate.toLocaleDateString('en-BD')}`,
+          lines,
+        },
+        request
+      );
+
+      return tx.openingBalance.upsert({
+        where: { companyId },
+        create: { companyId, cutoverDate, voucherId: voucher.id, createdById: userId },
+        update: { cutoverDate, voucherId: voucher.id, createdById: userId },
+        include: { voucher: { select: { id: true, voucherNo: true } } },
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'OpeningBalance',
+      entityId: openingBalance.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        cutoverDate,
+        voucherId: openingBalance.voucherId,
+        voucherNo: openingBalance.voucher.voucherNo,
+        accounts: data.accounts.length,
+        vendors: data.vendors.length,
+        projects: data.projects.length,
+        openingBalanceEquity: difference,
+      },
+      request,
+    });
+
+    return { success: true, openingBalance };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to post opening balances',
+    };
+  }
+}
+
+/**
+ * Resolve uploaded sheet rows into form rows
+ * Section is Account, Vendor or Project; accounts by code, vendors and projects by name (case-insensitive).
+ */
+export async function resolveOpeningBalanceSheet(companyId: string, rows: OpeningBalanceSheetRow[]) {
+  const [accounts, vendors, projects] = await Promise.all([
+    prisma.account.findMany({
+      where: { companyId, isActive: true },
+      select: { id: true, code: true, type: true, _count: { select: { children: true } } },
+    }),
+    prisma.vendor.findMany({ where: { companyId }, select: { id: true, name: true } }),
+    prisma.project.findMany({ where: { companyId }, select: { id: true, name: true } }),
+  ]);
+  const accountByCode = new Map(accounts.map((account) => [account.code.trim().toLowerCase(), account]));
+  const vendorByName = new Map(vendors.map((vendor) => [vendor.name.trim().toLowerCase(), vendor]));
+  const projectByName = new Map(projects.map((project) => [project.name.trim().toLowerCase(), project]));
+
+  const result = {
+    accounts: [] as Array<{ accountId: string; debit: number; credit: number }>,
+    vendors: [] as Array<{ vendorId: string; amount: number; reference: string | null }>,
+    projects: [] as Array<{ projectId: string; accountId: string; amount: number; description: string | null }>,
+    errors: [] as Array<{ row: number; message: string }>,
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // header is row 1
+    const section = (row.section || '').toString().trim().toLowerCase();
+    const account = row.accountCode ? accountByCode.get(row.accountCode.toString().trim().toLowerCase()) : undefined;
+    const debit = parseSheetAmount(row.debit);
+    const credit = parseSheetAmount(row.credit);
+    const amount = parseSheetAmount(row.amount) || debit || credit;
+    const reference = row.reference?.toString().trim() || null;
+
+    if (account && account._count.children > 0 && (section === 'account' || section === 'project')) {
+      result.errors.push({ row: rowNumber, message: `Account code "${row.accountCode}" is a group account` });
+    } else if (section === 'account') {
+      if (!account) {
+        result.errors.push({ row: rowNumber, message: `Account code "${row.accountCode ?? ''}" not found` });
+      } else if (debit <= 0 && credit <= 0) {
+        result.errors.push({ row: rowNumber, message: 'Debit or Credit is required' });
+      } else {
+        result.accounts.push({ accountId: account.id, debit: Math.max(debit, 0), credit: Math.max(credit, 0) });
+      }
+    } else if (section === 'vendor') {
+      const vendor = row.vendor ? vendorByName.get(row.vendor.toString().trim().toLowerCase()) : undefined;
+      if (!vendor) {
+        result.errors.push({ row: rowNumber, message: `Vendor "${row.vendor ?? ''}" not found` });
+      } else if (amount <= 0) {
+        result.errors.push({ row: rowNumber, message: 'Amount must be greater than 0' });
+      } else {
+        result.vendors.push({ vendorId: vendor.id, amount, reference });
+      }
+    } else if (section === 'project') {
+      const project = row.project ? projectByName.get(row.project.toString().trim().toLowerCase()) : undefined;
+      if (!project) {
+        result.errors.push({ row: rowNumber, message: `Project "${row.project ?? ''}" not found` });
+      } else if (!account || account.type !== 'EXPENSE') {
+        result.errors.push({ row: rowNumber, message: 'Project rows need an EXPENSE account code' });
+      } else if (amount <= 0) {
+        result.errors.push({ row: rowNumber, message: 'Amount must be greater than 0' });
+      } else {
+        result.projects.push({ projectId: project.id, accountId: account.id, amount, description: reference });
+      }
+    } else {
+      result.errors.push({ row: rowNumber, message: 'Section must be Account, Vendor or Project' });
+    }
+  });
+
+  return result;
+}
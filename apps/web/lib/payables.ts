@@ -1,5 +1,12 @@
 import { prisma } from '@accounting/db';
+import type { Prisma, VoucherStatus } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Payment vouchers still in the approval workflow; their allocations are not paid yet
+const PENDING_PAYMENT_STATUSES: VoucherStatus[] = ['DRAFT', 'SUBMITTED', 'APPROVED'];
 
 /**
  * Format Decimal to money string
@@ -99,25 +106,111 @@ export async function getVendorLedger(vendorId: string, companyId: string) {
   // Calculate GL balance (sum of all posted lines)
   const glBalance = ledgerLines.reduce((sum, line) => sum + line.impact, 0);
 
+  const { advances, unappliedAdvance } = await getVendorAdvances(vendorId, companyId);
+
   return {
     vendor,
     lines: ledgerLines,
     glBalance,
+    advances,
+    unappliedAdvance,
   };
 }
 
+/**
+ * Get vendor advances (posted debits on the Vendor Advances account)
+ * Credits on the account (applications to bills, refunds) use up the advances oldest first,
+ * so each advance shows what is still unapplied.
+ */
+export async function getVendorAdvances(vendorId: string, companyId: string) {
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      vendorId,
+      companyId,
+      account: { code: SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES, isSystem: true },
+      voucher: {
+        status: 'POSTED',
+      },
+    },
+    include: {
+      voucher: {
+        select: {
+          id: true,
+          voucherNo: true,
+          date: true,
+          narration: true,
+        },
+      },
+    },
+    orderBy: [
+      { voucher: { date: 'asc' } },
+      { createdAt: 'asc' },
+    ],
+  });
+
+  let usedAmount = lines.reduce((sum, line) => sum + decimalToNumber(line.credit), 0);
+
+  const advances = lines
+    .filter((line) => decimalToNumber(line.debit) > 0)
+    .map((line) => {
+      const amount = decimalToNumber(line.debit);
+      const applied = Math.min(amount, usedAmount);
+      usedAmount -= applied;
+
+      return {
+        lineId: line.id,
+        voucherId: line.voucher.id,
+        voucherNo: line.voucher.voucherNo,
+        date: line.voucher.date,
+        narration: line.voucher.narration || line.description || '',
+        amount,
+        appliedAmount: applied,
+        unapplied: amount - applied,
+      };
+    });
+
+  const unappliedAdvance = Math.round(advances.reduce((sum, item) => sum + item.unapplied, 0) * 100) / 100;
+
+  return { advances, unappliedAdvance };
+}
+
+/**
+ * Add a vendor's payment terms to a bill date
+ */
+export function getDueDate(billDate: Date, paymentTermDays: number): Date {
+  const dueDate = new Date(billDate);
+  dueDate.setDate(dueDate.getDate() + paymentTermDays);
+  return dueDate;
+}
+
 /**
  * Get vendor open items (payable source lines with outstanding amounts)
- * Used when creating payment vouchers
+ * Used when creating payment vouchers; each item falls due after the vendor's payment terms.
+ * With reservePending, amounts allocated on payment vouchers still in the approval workflow are
+ * taken off too, so a new payment cannot claim them a second time.
  */
-export async function getVendorOpenItems(vendorId: string, companyId: string) {
+export async function getVendorOpenItems(
+  vendorId: string,
+  companyId: string,
+  options: { reservePending?: boolean } = {}
+) {
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: vendorId, companyId },
+    select: { paymentTermDays: true },
+  });
+  const paymentTermDays = vendor?.paymentTermDays ?? 0;
+
   // Get all posted voucher lines for this vendor that increase payable (credit > debit)
+  // Credits on the Vendor Advances account use up an advance and are not payables, and a
+  // reversal's credits only put back a reversed payment, whose bills reopen on their own
   const payableLines = await prisma.voucherLine.findMany({
     where: {
       vendorId,
       companyId,
+      account: { code: { not: SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES } },
       voucher: {
         status: 'POSTED',
+        reversalOfId: null,
       },
     },
     include: {
@@ -138,7 +231,8 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
       sourceAllocations: {
         where: {
           paymentVoucher: {
-            status: 'POSTED', // Only count allocations from posted payment vouchers
+            // Posted payment vouchers, plus pending ones when they reserve the amount
+            status: { in: options.reservePending ? ['POSTED', ...PENDING_PAYMENT_STATUSES] : ['POSTED'] },
           },
         },
         select: {
@@ -162,7 +256,7 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
       // Only consider lines that increase payable (positive originalAmount)
       if (originalAmount <= 0) return null;
 
-      // Sum allocations from posted payment vouchers
+      // Sum allocations from posted (and reserving) payment vouchers
       const allocatedAmount = line.sourceAllocations.reduce(
         (sum, alloc) => sum + decimalToNumber(alloc.amount),
         0
@@ -178,6 +272,7 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
         voucherId: line.voucher.id,
         voucherNo: line.voucher.voucherNo,
         date: line.voucher.date,
+        dueDate: getDueDate(line.voucher.date, paymentTermDays),
         narration: line.voucher.narration || line.description || '',
         accountCode: line.account.code,
         accountName: line.account.name,
@@ -191,9 +286,55 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
   return openItems;
 }
 
+/**
+ * Check a payment voucher's allocations against what its bills still owe after posted payments
+ * Open items are only reserved while a payment is drafted, so two payments drafted against the
+ * same bill are caught when the second one is posted. Returns the error, or null when all fit.
+ */
+export async function checkPaymentAllocations(db: Db, paymentVoucherId: string): Promise<string | null> {
+  const allocations = await db.vendorAllocation.findMany({
+    where: { paymentVoucherId },
+    select: {
+      amount: true,
+      sourceLine: {
+        select: {
+          id: true,
+          debit: true,
+          credit: true,
+          voucher: { select: { voucherNo: true, status: true } },
+          sourceAllocations: {
+            where: { paymentVoucherId: { not: paymentVoucherId }, paymentVoucher: { status: 'POSTED' } },
+            select: { amount: true },
+          },
+        },
+      },
+    },
+  });
+
+  const byLine = new Map<string, { line: (typeof allocations)[number]['sourceLine']; amount: number }>();
+  allocations.forEach((alloc) => {
+    const entry = byLine.get(alloc.sourceLine.id) ?? { line: alloc.sourceLine, amount: 0 };
+    entry.amount += decimalToNumber(alloc.amount);
+    byLine.set(alloc.sourceLine.id, entry);
+  });
+
+  for (const { line, amount } of Array.from(byLine.values())) {
+    if (line.voucher.status !== 'POSTED') {
+      return `${line.voucher.voucherNo} is no longer posted and cannot be paid`;
+    }
+    const paid = line.sourceAllocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0);
+    const outstanding = Math.round((decimalToNumber(line.credit) - decimalToNumber(line.debit) - paid) * 100) / 100;
+    if (amount - outstanding > 0.005) {
+      return `Allocation of ${amount.toFixed(2)} to ${line.voucher.voucherNo} exceeds the ${outstanding.toFixed(2)} still payable`;
+    }
+  }
+  return null;
+}
+
 /**
  * Get payables summary (open balance per vendor)
- * Uses allocation method to compute outstanding payables
+ * Uses allocation method to compute outstanding payables; unapplied vendor advances
+ * are netted off in netPosition
  */
 export async function getPayablesSummary(companyId: string, showZeroBalances: boolean = false) {
   // Get all vendors
@@ -229,6 +370,12 @@ export async function getPayablesSummary(companyId: string, showZeroBalances: bo
         select: {
           id: true,
           date: true,
+          reversalOfId: true,
+        },
+      },
+      account: {
+        select: {
+          code: true,
         },
       },
       sourceAllocations: {
@@ -252,6 +399,8 @@ export async function getPayablesSummary(companyId: string, showZeroBalances: bo
       vendorName: string;
       glBalance: number;
       openBalance: number;
+      advanceBalance: number;
+      netPosition: number;
       lastActivityDate: Date | null;
     }
   >();
@@ -263,6 +412,8 @@ export async function getPayablesSummary(companyId: string, showZeroBalances: bo
       vendorName: vendor.name,
       glBalance: 0,
       openBalance: 0,
+      advanceBalance: 0,
+      netPosition: 0,
       lastActivityDate: null,
     });
   });
@@ -282,8 +433,11 @@ export async function getPayablesSummary(companyId: string, showZeroBalances: bo
     // Update GL balance
     balance.glBalance += impact;
 
-    // Update open balance (only for payable-increasing lines)
-    if (impact > 0) {
+    // Advances are an asset: debits pay in advance, credits apply or refund them
+    if (line.account.code === SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES) {
+      balance.advanceBalance -= impact;
+    } else if (impact > 0 && !line.voucher.reversalOfId) {
+      // Update open balance (only for payable-increasing lines; a reversed payment's bills reopen themselves)
       const allocatedAmount = line.sourceAllocations.reduce(
         (sum, alloc) => sum + decimalToNumber(alloc.amount),
         0
@@ -302,10 +456,14 @@ export async function getPayablesSummary(companyId: string, showZeroBalances: bo
 
   // Convert to array and filter
   let summary = Array.from(vendorBalances.values());
+  summary.forEach((item) => {
+    item.advanceBalance = Math.round(item.advanceBalance * 100) / 100;
+    item.netPosition = item.openBalance - item.advanceBalance;
+  });
 
   // Filter zero balances if requested
   if (!showZeroBalances) {
-    summary = summary.filter((item) => item.openBalance > 0);
+    summary = summary.filter((item) => item.openBalance > 0 || item.advanceBalance > 0);
   }
 
   // Sort by open balance descending
@@ -344,3 +502,181 @@ export async function getVendorOpenBalance(vendorId: string, companyId: string):
   const openItems = await getVendorOpenItems(vendorId, companyId);
   return openItems.reduce((sum, item) => sum + item.outstanding, 0);
 }
+
+export interface PayablesAgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+}
+
+export interface PayablesAgingItem extends PayablesAgingBuckets {
+  lineId: string;
+  voucherId: string;
+  voucherNo: string;
+  date: Date;
+  dueDate: Date;
+  daysOverdue: number;
+  narration: string;
+  vendorId: string;
+  vendorName: string;
+  projectId: string | null;
+  projectName: string | null;
+  accountCode: string;
+  accountName: string;
+  originalAmount: number;
+  allocatedAmount: number;
+  outstanding: number;
+}
+
+export interface PayablesAgingRow extends PayablesAgingBuckets {
+  key: string;
+  name: string;
+  paymentTermDays: number | null;
+  outstanding: number;
+  overdue: number;
+  items: PayablesAgingItem[];
+}
+
+export type PayablesAgingGroupBy = 'vendor' | 'project';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function emptyBuckets(): PayablesAgingBuckets {
+  return { days0to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 };
+}
+
+function bucketKey(days: number): keyof PayablesAgingBuckets {
+  if (days <= 30) return 'days0to30';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'days90plus';
+}
+
+/**
+ * Get payables aging per vendor or per project as of a date
+ * Age is counted from the due date (bill date plus the vendor's payment terms); items not yet due
+ * sit in 0-30. Only allocations from payments posted by the date reduce an item.
+ * Unapplied advances are not aged.
+ */
+export async function getPayablesAging(
+  companyId: string,
+  asOf: Date = new Date(),
+  groupBy: PayablesAgingGroupBy = 'vendor'
+) {
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      vendorId: { not: null },
+      credit: { gt: 0 },
+      account: { code: { not: SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES } },
+      voucher: {
+        status: 'POSTED',
+        reversalOfId: null,
+        date: { lte: asOf },
+      },
+    },
+    include: {
+      vendor: { select: { id: true, name: true, paymentTermDays: true } },
+      project: { select: { id: true, name: true } },
+      voucher: {
+        select: {
+          id: true,
+          voucherNo: true,
+          date: true,
+          narration: true,
+          project: { select: { id: true, name: true } },
+        },
+      },
+      account: { select: { code: true, name: true } },
+      sourceAllocations: {
+        where: {
+          paymentVoucher: {
+            status: 'POSTED',
+            date: { lte: asOf },
+          },
+        },
+        select: { amount: true },
+      },
+    },
+    orderBy: [{ voucher: { date: 'asc' } }, { createdAt: 'asc' }],
+  });
+
+  const rows = new Map<string, PayablesAgingRow>();
+
+  lines.forEach((line) => {
+    if (!line.vendor) return;
+
+    const originalAmount = decimalToNumber(line.credit) - decimalToNumber(line.debit);
+    if (originalAmount <= 0) return;
+
+    const allocatedAmount = line.sourceAllocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0);
+    const outstanding = Math.round((originalAmount - allocatedAmount) * 100) / 100;
+    if (outstanding <= 0) return;
+
+    // Payable lines of purchase vouchers carry the project on the voucher only
+    const project = line.project ?? line.voucher.project;
+    const dueDate = getDueDate(line.voucher.date, line.vendor.paymentTermDays);
+    const daysOverdue = Math.floor((asOf.getTime() - dueDate.getTime()) / MS_PER_DAY);
+
+    const item: PayablesAgingItem = {
+      lineId: line.id,
+      voucherId: line.voucher.id,
+      voucherNo: line.voucher.voucherNo,
+      date: line.voucher.date,
+      dueDate,
+      daysOverdue,
+      narration: line.voucher.narration || line.description || '',
+      vendorId: line.vendor.id,
+      vendorName: line.vendor.name,
+      projectId: project?.id ?? null,
+      projectName: project?.name ?? null,
+      accountCode: line.account.code,
+      accountName: line.account.name,
+      originalAmount,
+      allocatedAmount,
+      outstanding,
+      ...emptyBuckets(),
+    };
+    item[bucketKey(daysOverdue)] = outstanding;
+
+    const key = groupBy === 'vendor' ? line.vendor.id : project?.id ?? 'none';
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        name: groupBy === 'vendor' ? line.vendor.name : project?.name ?? 'No project',
+        paymentTermDays: groupBy === 'vendor' ? line.vendor.paymentTermDays : null,
+        outstanding: 0,
+        overdue: 0,
+        items: [],
+        ...emptyBuckets(),
+      };
+      rows.set(key, row);
+    }
+
+    row.outstanding += outstanding;
+    if (daysOverdue > 0) {
+      row.overdue += outstanding;
+    }
+    row[bucketKey(daysOverdue)] += outstanding;
+    row.items.push(item);
+  });
+
+  const summary = Array.from(rows.values()).sort((a, b) => b.outstanding - a.outstanding);
+  summary.forEach((row) => row.items.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()));
+
+  const totals = summary.reduce(
+    (acc, row) => ({
+      outstanding: acc.outstanding + row.outstanding,
+      overdue: acc.overdue + row.overdue,
+      days0to30: acc.days0to30 + row.days0to30,
+      days31to60: acc.days31to60 + row.days31to60,
+      days61to90: acc.days61to90 + row.days61to90,
+      days90plus: acc.days90plus + row.days90plus,
+    }),
+    { outstanding: 0, overdue: 0, ...emptyBuckets() }
+  );
+
+  return { asOf, groupBy, rows: summary, totals };
+}
@@ -0,0 +1,318 @@
+/**
+ * Server-only functions for fiscal periods (month-end close and period locking)
+ * DO NOT import in client components
+ *
+ * A month with no FiscalPeriod row is OPEN.
+ * SOFT_CLOSED: only ADMIN can post into the month. CLOSED: nobody can until an ADMIN reopens it.
+ */
+
+import { prisma } from '@accounting/db';
+import { FiscalPeriodStatus, Prisma, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { FiscalPeriodUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { getMonthlyOverhead } from '@/lib/reports/overhead';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface PeriodCheckResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface FiscalPeriodResult {
+  success: boolean;
+  period?: any;
+  error?: string;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// Higher rank = more restrictive
+const STATUS_RANK: Record<FiscalPeriodStatus, number> = {
+  OPEN: 0,
+  SOFT_CLOSED: 1,
+  CLOSED: 2,
+};
+
+export function formatPeriod(year: number, month: number): string {
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * Calendar month a date falls in (month is 1-12)
+ */
+export function getPeriodOf(date: Date): { year: number; month: number } {
+  return { year: date.getFullYear(), month: date.getMonth() + 1 };
+}
+
+/**
+ * First and last instant of a fiscal month
+ */
+export function getPeriodRange(year: number, month: number): { from: Date; to: Date } {
+  return {
+    from: new Date(year, month - 1, 1),
+    to: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+/**
+ * Status of the fiscal period containing `date`
+ */
+export async function getPeriodStatus(
+  companyId: string,
+  date: Date,
+  db: Db = prisma
+): Promise<FiscalPeriodStatus> {
+  const { year, month } = getPeriodOf(date);
+  const period = await db.fiscalPeriod.findUnique({
+    where: { companyId_year_month: { companyId, year, month } },
+    select: { status: true },
+  });
+  return period?.status ?? 'OPEN';
+}
+
+/**
+ * Refuse postings dated in a closed period
+ * The role is looked up from userId when not given (only needed for soft-closed periods).
+ */
+export async function checkPeriodOpen(
+  companyId: string,
+  date: Date,
+  actor: { role?: UserRole; userId?: string },
+  db: Db = prisma
+): Promise<PeriodCheckResult> {
+  const status = await getPeriodStatus(companyId, date, db);
+  if (status === 'OPEN') {
+    return { success: true };
+  }
+
+  const { year, month } = getPeriodOf(date);
+  const label = formatPeriod(year, month);
+
+  if (status === 'CLOSED') {
+    return {
+      success: false,
+      error: `${label} is closed. An ADMIN must reopen the period before anything dated in it can be posted.`,
+    };
+  }
+
+  let role = actor.role;
+  if (!role && actor.userId) {
+    const user = await db.user.findUnique({ where: { id: actor.userId }, select: { role: true } });
+    role = user?.role;
+  }
+  if (role === 'ADMIN') {
+    return { success: true };
+  }
+  return {
+    success: false,
+    error: `${label} is soft-closed. Only an ADMIN can post entries dated in it.`,
+  };
+}
+
+/**
+ * Same as checkPeriodOpen, but throws; for use inside transactions that roll back on error
+ */
+export async function assertPeriodOpen(
+  companyId: string,
+  date: Date,
+  actor: { role?: UserRole; userId?: string },
+  db: Db = prisma
+): Promise<void> {
+  const result = await checkPeriodOpen(companyId, date, actor, db);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+/**
+ * The twelve months of a year with their status (months without a row are OPEN)
+ */
+export async function listFiscalPeriods(companyId: string, year: number) {
+  const periods = await prisma.fiscalPeriod.findMany({
+    where: { companyId, year },
+    include: { changedBy: { select: { id: true, name: true } } },
+  });
+  const byMonth = new Map(periods.map((p) => [p.month, p]));
+
+  return MONTH_NAMES.map((name, index) => {
+    const month = index + 1;
+    const period = byMonth.get(month);
+    return {
+      year,
+      month,
+      label: `${name} ${year}`,
+      status: (period?.status ?? 'OPEN') as FiscalPeriodStatus,
+      note: period?.note ?? null,
+      changedAt: period?.changedAt ?? null,
+      changedBy: period?.changedBy ?? null,
+    };
+  });
+}
+
+/**
+ * Close, soft-close or reopen a month
+ * Closing needs vouchers POST rights (checked by the route); making a period less restrictive is ADMIN-only.
+ */
+export async function setFiscalPeriodStatus(
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  data: FiscalPeriodUpdate,
+  request?: NextRequest
+): Promise<FiscalPeriodResult> {
+  const existing = await prisma.fiscalPeriod.findUnique({
+    where: { companyId_year_month: { companyId, year: data.year, month: data.month } },
+  });
+  const currentStatus: FiscalPeriodStatus = existing?.status ?? 'OPEN';
+
+  if (currentStatus === data.status) {
+    return { success: false, error: `${formatPeriod(data.year, data.month)} is already ${data.status}` };
+  }
+
+  const isReopen = STATUS_RANK[data.status] < STATUS_RANK[currentStatus];
+  if (isReopen && role !== 'ADMIN') {
+    return { success: false, error: 'Only an ADMIN can reopen a fiscal period' };
+  }
+  if (isReopen && !data.note) {
+    return { success: false, error: 'A note explaining why the period is reopened is required' };
+  }
+  if (isReopen) {
+    // Reopening would let postings in after the closing entry was calculated
+    const yearClose = await prisma.fiscalYearClose.findUnique({
+      where: { companyId_year: { companyId, year: data.year } },
+      select: { id: true },
+    });
+    if (yearClose) {
+      return { success: false, error: `${data.year} has been closed at year end; its months cannot be reopened` };
+    }
+  }
+
+  const now = new Date();
+  const period = await prisma.fiscalPeriod.upsert({
+    where: { companyId_year_month: { companyId, year: data.year, month: data.month } },
+    create: {
+      companyId,
+      year: data.year,
+      month: data.month,
+      status: data.status,
+      note: data.note || null,
+      changedById: userId,
+      changedAt: now,
+    },
+    update: {
+      status: data.status,
+      note: data.note || null,
+      changedById: userId,
+      changedAt: now,
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'FiscalPeriod',
+    entityId: period.id,
+    action: 'STATUS_CHANGE',
+    before: { year: data.year, month: data.month, status: currentStatus, note: existing?.note ?? null },
+    after: { year: data.year, month: data.month, status: data.status, note: period.note, reopened: isReopen },
+    request,
+  });
+
+  return { success: true, period };
+}
+
+/**
+ * Month-end close checklist: what still needs attention before the month is closed
+ */
+export async function getCloseChecklist(companyId: string, year: number, month: number) {
+  const { from, to } = getPeriodRange(year, month);
+
+  const [unposted, vouchers, overhead, rule, status] = await Promise.all([
+    prisma.voucher.findMany({
+      where: {
+        companyId,
+        date: { gte: from, lte: to },
+        status: { in: ['DRAFT', 'SUBMITTED', 'APPROVED'] },
+      },
+      select: {
+        id: true,
+        voucherNo: true,
+        date: true,
+        status: true,
+        narration: true,
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.voucher.findMany({
+      where: {
+        companyId,
+        date: { gte: from, lte: to },
+        status: { not: 'REVERSED' },
+      },
+      select: {
+        id: true,
+        voucherNo: true,
+        date: true,
+        status: true,
+        lines: { select: { debit: true, credit: true } },
+      },
+    }),
+    getMonthlyOverhead(companyId, from, false),
+    prisma.overheadAllocationRule.findFirst({
+      where: { companyId, month: { gte: from, lte: to } },
+      include: { results: { select: { amount: true } } },
+    }),
+    getPeriodStatus(companyId, from),
+  ]);
+
+  const unbalanced = vouchers
+    .map((voucher) => {
+      const debit = voucher.lines.reduce((sum, line) => sum + Number(line.debit), 0);
+      const credit = voucher.lines.reduce((sum, line) => sum + Number(line.credit), 0);
+      return {
+        id: voucher.id,
+        voucherNo: voucher.voucherNo,
+        date: voucher.date,
+        status: voucher.status,
+        debit,
+        credit,
+        difference: debit - credit,
+      };
+    })
+    .filter((voucher) => Math.abs(voucher.difference) > 0.01);
+
+  const allocated = rule ? rule.results.reduce((sum, result) => sum + Number(result.amount), 0) : 0;
+  const unallocated = Math.max(0, overhead.totalOverhead - allocated);
+
+  return {
+    year,
+    month,
+    label: formatPeriod(year, month),
+    status,
+    unposted,
+    unbalanced,
+    overhead: {
+      total: overhead.totalOverhead,
+      allocated,
+      unallocated,
+      hasAllocation: !!rule,
+    },
+    ready: unposted.length === 0 && unbalanced.length === 0 && unallocated < 0.01,
+  };
+}
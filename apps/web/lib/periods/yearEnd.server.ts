@@ -0,0 +1,372 @@
+/**
+ * Server-only functions for the year-end close
+ * DO NOT import in client components
+ *
+ * Closing a year posts one JOURNAL dated 31 December that zeroes every INCOME/EXPENSE account
+ * for the year against an equity account (Retained Earnings by default), then marks all twelve
+ * months CLOSED. Balance sheet accounts need no entry: their balances carry forward as they are,
+ * so the next year's reports open with the retained profit in equity and clean P&L accounts.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { FiscalYearClose } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { createPostedVoucher } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { isLeafAccount } from '@/lib/voucher';
+import { decimalToNumber } from '@/lib/reports/helpers';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface YearEndCloseResult {
+  success: boolean;
+  yearClose?: any;
+  error?: string;
+}
+
+export interface YearEndAccountBalance {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  type: 'INCOME' | 'EXPENSE';
+  debit: number;
+  credit: number;
+  // Income: credit - debit; expense: debit - credit
+  amount: number;
+}
+
+/**
+ * First and last instant of a calendar year
+ */
+export function getYearRange(year: number): { from: Date; to: Date } {
+  return {
+    from: new Date(year, 0, 1),
+    to: new Date(year, 11, 31, 23, 59, 59, 999),
+  };
+}
+
+/**
+ * INCOME/EXPENSE balances built up during the year (accounts without activity are left out)
+ */
+async function getYearProfitAndLossBalances(
+  companyId: string,
+  year: number,
+  db: Db = prisma
+): Promise<YearEndAccountBalance[]> {
+  const { from, to } = getYearRange(year);
+
+  const lines = await db.voucherLine.findMany({
+    where: {
+      companyId,
+      account: { type: { in: ['INCOME', 'EXPENSE'] } },
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { gte: from, lte: to },
+      },
+    },
+    select: {
+      debit: true,
+      credit: true,
+      account: { select: { id: true, code: true, name: true, type: true } },
+    },
+  });
+
+  const balances = new Map<string, YearEndAccountBalance>();
+  for (const line of lines) {
+    let balance = balances.get(line.account.id);
+    if (!balance) {
+      balance = {
+        accountId: line.account.id,
+        accountCode: line.account.code,
+        accountName: line.account.name,
+        type: line.account.type as 'INCOME' | 'EXPENSE',
+        debit: 0,
+        credit: 0,
+        amount: 0,
+      };
+      balances.set(line.account.id, balance);
+    }
+    balance.debit += decimalToNumber(line.debit);
+    balance.credit += decimalToNumber(line.credit);
+  }
+
+  return Array.from(balances.values())
+    .map((balance) => ({
+      ...balance,
+      amount: balance.type === 'INCOME' ? balance.credit - balance.debit : balance.debit - balance.credit,
+    }))
+    .filter((balance) => Math.abs(balance.debit - balance.credit) >= 0.005)
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+}
+
+/**
+ * Earlier years that have income/expense activity but were never closed
+ * Years must be closed in order, otherwise their profit would stay in the P&L accounts.
+ */
+async function getUnclosedEarlierYears(companyId: string, year: number, db: Db = prisma): Promise<number[]> {
+  const first = await db.voucherLine.findFirst({
+    where: {
+      companyId,
+      account: { type: { in: ['INCOME', 'EXPENSE'] } },
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lt: getYearRange(year).from },
+      },
+    },
+    select: { voucher: { select: { date: true } } },
+    orderBy: { voucher: { date: 'asc' } },
+  });
+  if (!first) {
+    return [];
+  }
+
+  const closed = await db.fiscalYearClose.findMany({
+    where: { companyId, year: { lt: year } },
+    select: { year: true },
+  });
+  const closedYears = new Set(closed.map((c) => c.year));
+
+  const unclosed: number[] = [];
+  for (let y = first.voucher.date.getFullYear(); y < year; y++) {
+    if (closedYears.has(y)) continue;
+    const balances = await getYearProfitAndLossBalances(companyId, y, db);
+    if (balances.length > 0) {
+      unclosed.push(y);
+    }
+  }
+  return unclosed;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Closing lines: each INCOME/EXPENSE account is reversed to zero, the net goes to equity
+ */
+function buildClosingLines(balances: YearEndAccountBalance[], retainedEarningsAccountId: string, year: number) {
+  const lines = balances.map((balance) => {
+    const net = roundMoney(balance.debit - balance.credit);
+    return {
+      accountId: balance.accountId,
+      description: `Close ${balance.accountName} for ${year}`,
+      debit: net < 0 ? -net : 0,
+      credit: net > 0 ? net : 0,
+    };
+  });
+
+  const netProfit = roundMoney(
+    balances.reduce((sum, balance) => sum + (balance.type === 'INCOME' ? balance.amount : -balance.amount), 0)
+  );
+  lines.push({
+    accountId: retainedEarningsAccountId,
+    description: netProfit >= 0 ? `Net profit for ${year}` : `Net loss for ${year}`,
+    debit: netProfit < 0 ? -netProfit : 0,
+    credit: netProfit > 0 ? netProfit : 0,
+  });
+
+  return { lines, netProfit };
+}
+
+/**
+ * Everything the year-end wizard shows before closing: blockers, warnings and the closing entry
+ */
+export async function getYearEndPreview(companyId: string, year: number) {
+  const { from, to } = getYearRange(year);
+
+  const [existing, balances, unclosedEarlierYears, unposted, accountIds, equityAccounts] = await Promise.all([
+    prisma.fiscalYearClose.findUnique({
+      where: { companyId_year: { companyId, year } },
+      include: {
+        voucher: { select: { id: true, voucherNo: true } },
+        retainedEarningsAccount: { select: { id: true, code: true, name: true } },
+        closedBy: { select: { id: true, name: true } },
+      },
+    }),
+    getYearProfitAndLossBalances(companyId, year),
+    getUnclosedEarlierYears(companyId, year),
+    prisma.voucher.count({
+      where: {
+        companyId,
+        date: { gte: from, lte: to },
+        status: { in: ['DRAFT', 'SUBMITTED', 'APPROVED'] },
+      },
+    }),
+    getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.RETAINED_EARNINGS]),
+    prisma.account.findMany({
+      where: { companyId, type: 'EQUITY', isActive: true, children: { none: {} } },
+      select: { id: true, code: true, name: true },
+      orderBy: { code: 'asc' },
+    }),
+  ]);
+
+  const totalIncome = balances.filter((b) => b.type === 'INCOME').reduce((sum, b) => sum + b.amount, 0);
+  const totalExpenses = balances.filter((b) => b.type === 'EXPENSE').reduce((sum, b) => sum + b.amount, 0);
+
+  const blockers: string[] = [];
+  if (existing) {
+    blockers.push(`${year} has already been closed`);
+  }
+  if (unclosedEarlierYears.length > 0) {
+    blockers.push(`Close earlier years first: ${unclosedEarlierYears.join(', ')}`);
+  }
+  if (balances.length === 0) {
+    blockers.push(`There is no posted income or expense in ${year}; close its months from Fiscal Periods instead`);
+  }
+
+  return {
+    year,
+    closed: existing ? { ...existing, netProfit: Number(existing.netProfit) } : null,
+    balances,
+    totalIncome,
+    totalExpenses,
+    netProfit: totalIncome - totalExpenses,
+    unpostedCount: unposted,
+    unclosedEarlierYears,
+    equityAccounts,
+    defaultRetainedEarningsAccountId:
+      accountIds.accountIds?.[SYSTEM_ACCOUNT_CODES.RETAINED_EARNINGS] ?? equityAccounts[0]?.id ?? null,
+    blockers,
+    canClose: blockers.length === 0,
+  };
+}
+
+/**
+ * Post the closing entry for a year and lock all its months
+ * The voucher is created before the months are marked CLOSED, in the same transaction.
+ */
+export async function closeFiscalYear(
+  companyId: string,
+  userId: string,
+  data: FiscalYearClose,
+  request?: NextRequest
+): Promise<YearEndCloseResult> {
+  const { year } = data;
+
+  let retainedEarningsAccountId = data.retainedEarningsAccountId || null;
+  if (!retainedEarningsAccountId) {
+    const accountIds = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.RETAINED_EARNINGS]);
+    if (!accountIds.success || !accountIds.accountIds) {
+      return { success: false, error: accountIds.error || 'Retained earnings account not found' };
+    }
+    retainedEarningsAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.RETAINED_EARNINGS];
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: retainedEarningsAccountId, companyId, isActive: true },
+    select: { id: true, type: true },
+  });
+  if (!account) {
+    return { success: false, error: 'Retained earnings account not found' };
+  }
+  if (account.type !== 'EQUITY') {
+    return { success: false, error: 'Profit must be closed into an EQUITY account' };
+  }
+  if (!(await isLeafAccount(account.id))) {
+    return { success: false, error: 'Profit must be closed into a leaf account, not a group account' };
+  }
+
+  try {
+    const yearClose = await prisma.$transaction(async (tx) => {
+      const existing = await tx.fiscalYearClose.findUnique({
+        where: { companyId_year: { companyId, year } },
+      });
+      if (existing) {
+        throw new Error(`${year} has already been closed`);
+      }
+
+      const unclosedEarlierYears = await getUnclosedEarlierYears(companyId, year, tx);
+      if (unclosedEarlierYears.length > 0) {
+        throw new Error(`Close earlier years first: ${unclosedEarlierYears.join(', ')}`);
+      }
+
+      const balances = await getYearProfitAndLossBalances(companyId, year, tx);
+      if (balances.length === 0) {
+        throw new Error(`There is no posted income or expense in ${year} to close`);
+      }
+
+      const { lines, netProfit } = buildClosingLines(balances, account.id, year);
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date: new Date(year, 11, 31),
+          type: 'JOURNAL',
+          narration: `Year-end closing entry ${year}`,
+          lines,
+          allowClosedPeriod: true,
+        },
+        request
+      );
+
+      const created = await tx.fiscalYearClose.create({
+        data: {
+          companyId,
+          year,
+          voucherId: voucher.id,
+          retainedEarningsAccountId: account.id,
+          netProfit,
+          closedById: userId,
+        },
+        include: {
+          voucher: { select: { id: true, voucherNo: true } },
+          retainedEarningsAccount: { select: { id: true, code: true, name: true } },
+        },
+      });
+
+      const now = new Date();
+      for (let month = 1; month <= 12; month++) {
+        await tx.fiscalPeriod.upsert({
+          where: { companyId_year_month: { companyId, year, month } },
+          create: {
+            companyId,
+            year,
+            month,
+            status: 'CLOSED',
+            note: `Year-end close ${year}`,
+            changedById: userId,
+            changedAt: now,
+          },
+          update: {
+            status: 'CLOSED',
+            note: `Year-end close ${year}`,
+            changedById: userId,
+            changedAt: now,
+          },
+        });
+      }
+
+      return created;
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'FiscalYearClose',
+      entityId: yearClose.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        year,
+        voucherId: yearClose.voucherId,
+        voucherNo: yearClose.voucher.voucherNo,
+        retainedEarningsAccountId: yearClose.retainedEarningsAccountId,
+        netProfit: Number(yearClose.netProfit),
+      },
+      request,
+    });
+
+    return { success: true, yearClose };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to close the year',
+    };
+  }
+}
+
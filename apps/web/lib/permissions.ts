@@ -9,7 +9,7 @@ export type UserRole =
   | 'DATA_ENTRY'
   | 'VIEWER';
 
-export type Resource = 'companies' | 'projects' | 'vendors' | 'paymentMethods' | 'vouchers' | 'purchases' | 'expenses' | 'stock';
+export type Resource = 'companies' | 'projects' | 'vendors' | 'paymentMethods' | 'vouchers' | 'purchases' | 'expenses' | 'stock' | 'requisitions';
 export type Action = 'READ' | 'WRITE' | 'POST' | 'APPROVE';
 
 /**
@@ -46,9 +46,17 @@ export const permissions: Record<Resource, Partial<Record<Action, UserRole[]>>>
     READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
     WRITE: ['ADMIN', 'ACCOUNTANT'],
   },
+  // Approving a stocktake posts its variances as adjustments
   stock: {
     READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
     WRITE: ['ADMIN', 'ACCOUNTANT'],
+    APPROVE: ['ADMIN', 'ACCOUNTANT'],
+  },
+  // Site engineers raise material requisitions; approving one issues stock
+  requisitions: {
+    READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
+    WRITE: ['ADMIN', 'ACCOUNTANT', 'ENGINEER'],
+    APPROVE: ['ADMIN', 'ACCOUNTANT'],
   },
 };
 
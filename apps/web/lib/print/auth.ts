@@ -10,7 +10,7 @@ import { prisma } from '@accounting/db';
  */
 export async function authenticatePrintRoute(
   searchParams: { pdfToken?: string },
-  requiredPermission: { resource: 'vouchers' | 'projects'; action: 'READ' }
+  requiredPermission: { resource: 'vouchers' | 'projects' | 'stock'; action: 'READ' }
 ): Promise<{ userId: string; companyId: string }> {
   // Try PDF token first (for server-side PDF generation)
   if (searchParams.pdfToken) {
@@ -45,7 +45,7 @@ export async function authenticatePrintRoute(
  */
 export async function authenticateAndVerifyEntity(
   searchParams: { pdfToken?: string },
-  requiredPermission: { resource: 'vouchers' | 'projects'; action: 'READ' },
+  requiredPermission: { resource: 'vouchers' | 'projects' | 'stock'; action: 'READ' },
   entityType: 'voucher' | 'project' | 'vendor',
   entityId: string
 ): Promise<{ userId: string; companyId: string }> {
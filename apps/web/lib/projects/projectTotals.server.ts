@@ -19,6 +19,24 @@ export interface ProjectTotals {
 
 export type DebitVoucherStatusFilter = 'POSTED' | 'ALL';
 
+/**
+ * Sum of investments less withdrawals for the given filter
+ */
+async function getNetInvestments(where: Prisma.ProjectInvestmentWhereInput): Promise<number> {
+  const grouped = await prisma.projectInvestment.groupBy({
+    by: ['type'],
+    where,
+    _sum: {
+      amount: true,
+    },
+  });
+
+  return grouped.reduce((sum, row) => {
+    const amount = row._sum.amount?.toNumber() || 0;
+    return row.type === 'WITHDRAWAL' ? sum - amount : sum + amount;
+  }, 0);
+}
+
 /**
  * Compute totals for a specific project ONLY (not company-wide)
  * All queries MUST filter by both companyId AND projectId to ensure project-scoped totals.
@@ -111,15 +129,10 @@ export async function getProjectTotals(
         }, 0);
       }),
 
-      // Investments total - PROJECT SCOPED
-      prisma.projectInvestment.aggregate({
-        where: {
-          projectId, // PROJECT SCOPED: only investments for this project
-          companyId,
-        },
-        _sum: {
-          amount: true,
-        },
+      // Investments total, net of withdrawals - PROJECT SCOPED
+      getNetInvestments({
+        projectId, // PROJECT SCOPED: only investments for this project
+        companyId,
       }),
 
       // Labor total - PROJECT SCOPED
@@ -181,7 +194,7 @@ export async function getProjectTotals(
   return {
     purchases: purchasesTotal._sum.total?.toNumber() || 0,
     stocks: stocksTotal,
-    investments: investmentsTotal._sum.amount?.toNumber() || 0,
+    investments: investmentsTotal,
     labor: laborTotal._sum.amount?.toNumber() || 0,
     laborByType,
     debit: debitTotal._sum.debit?.toNumber() || 0,
@@ -278,13 +291,8 @@ export async function getCompanyTotals(
       }, 0);
     })(),
 
-    // Investments total
-    prisma.projectInvestment.aggregate({
-      where: whereClause,
-      _sum: {
-        amount: true,
-      },
-    }),
+    // Investments total, net of withdrawals
+    getNetInvestments(whereClause),
 
     // Labor total
     prisma.projectLabor.aggregate({
@@ -311,7 +319,7 @@ export async function getCompanyTotals(
   return {
     purchases: purchasesTotal._sum.total?.toNumber() || 0,
     stocks: stocksTotal,
-    investments: investmentsTotal._sum.amount?.toNumber() || 0,
+    investments: investmentsTotal,
     labor: laborTotal._sum.amount?.toNumber() || 0,
     debit: debitTotal._sum.debit?.toNumber() || 0,
     credit: creditTotal, // Already a number from getCompanyTotalCredit or getProjectTotalCredit
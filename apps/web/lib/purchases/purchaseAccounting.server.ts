@@ -7,6 +7,9 @@ import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
 import { generateVoucherNumber, isLeafAccount } from '@/lib/voucher';
 import { NextRequest } from 'next/server';
+import { resolveWarehouseId } from '@/lib/stock/warehouse.server';
+
+type Db = Prisma.TransactionClient | typeof prisma;
 
 export interface VoucherCreateData {
   companyId: string;
@@ -39,7 +42,11 @@ async function getDefaultAccounts(companyId: string) {
   });
 
   // Get default accounts by code - must be system accounts
-  const [materialsAccount, laborAccount, overheadAccount, miscAccount] = await Promise.all([
+  const [inventoryAccount, materialsAccount, laborAccount, overheadAccount, miscAccount] = await Promise.all([
+    // 1040 - Inventory
+    prisma.account.findFirst({
+      where: { companyId, code: '1040', isActive: true, isSystem: true },
+    }),
     // 5010 - Direct Materials
     prisma.account.findFirst({
       where: { companyId, code: '5010', isActive: true, isSystem: true },
@@ -60,6 +67,7 @@ async function getDefaultAccounts(companyId: string) {
 
   return {
     apAccount,
+    inventoryAccount: inventoryAccount || null,
     materialsAccount: materialsAccount || null,
     laborAccount: laborAccount || null,
     overheadAccount: overheadAccount || null,
@@ -69,12 +77,15 @@ async function getDefaultAccounts(companyId: string) {
 
 /**
  * Get material/inventory account for a purchase line
+ * Stock items are received into Inventory (1040) and expensed to projects when issued;
+ * materials bought without a stock item go straight to Direct Materials (5010).
  */
 async function getMaterialAccount(
   line: {
     lineType: string;
     stockItemId?: string | null;
   },
+  inventoryAccount: { id: string } | null,
   defaultMaterialsAccount: { id: string } | null,
   companyId: string
 ): Promise<{ success: boolean; accountId?: string; error?: string }> {
@@ -83,6 +94,16 @@ async function getMaterialAccount(
     return { success: false, error: 'Not a MATERIAL line' };
   }
 
+  if (line.stockItemId) {
+    if (inventoryAccount && (await isLeafAccount(inventoryAccount.id))) {
+      return { success: true, accountId: inventoryAccount.id };
+    }
+    return {
+      success: false,
+      error: 'Inventory account not configured. Please set up account code 1040 (Inventory).',
+    };
+  }
+
   // Use default materials account
   if (defaultMaterialsAccount) {
     const isLeaf = await isLeafAccount(defaultMaterialsAccount.id);
@@ -179,7 +200,7 @@ export async function buildVoucherFromPurchase(
   }
 
   // Get default accounts
-  const { apAccount, materialsAccount, laborAccount, overheadAccount, miscAccount } =
+  const { apAccount, inventoryAccount, materialsAccount, laborAccount, overheadAccount, miscAccount } =
     await getDefaultAccounts(companyId);
 
   if (!apAccount) {
@@ -211,6 +232,7 @@ export async function buildVoucherFromPurchase(
           lineType,
           stockItemId: purchaseLine.stockItemId,
         },
+        inventoryAccount,
         materialsAccount,
         companyId
       );
@@ -435,9 +457,10 @@ export async function ensurePurchaseVoucher(
  */
 export async function syncPurchaseStatusWithVoucher(
   voucherId: string,
-  companyId: string
+  companyId: string,
+  db: Db = prisma
 ): Promise<{ success: boolean; error?: string }> {
-  const voucher = await prisma.voucher.findUnique({
+  const voucher = await db.voucher.findUnique({
     where: {
       id: voucherId,
       companyId,
@@ -453,7 +476,7 @@ export async function syncPurchaseStatusWithVoucher(
   }
 
   // Find purchase linked to this voucher
-  const purchase = await prisma.purchase.findFirst({
+  const purchase = await db.purchase.findFirst({
     where: {
       voucherId,
       companyId,
@@ -481,7 +504,7 @@ export async function syncPurchaseStatusWithVoucher(
 
   // Update purchase status if different
   if (purchase.status !== newPurchaseStatus) {
-    await prisma.purchase.update({
+    await db.purchase.update({
       where: { id: purchase.id },
       data: { status: newPurchaseStatus },
     });
@@ -520,6 +543,9 @@ export async function createInventoryTxnsForPostedPurchase(
     return { success: false, error: 'Purchase must be POSTED to create stock movements' };
   }
 
+  // Received into the project's stock location
+  const warehouseId = (await resolveWarehouseId(tx, companyId, { projectId: purchase.projectId }))!;
+
   // Create stock movements for MATERIAL lines
   for (const line of purchase.lines) {
     // Only create movements for MATERIAL lines with stockItemId
@@ -539,6 +565,7 @@ export async function createInventoryTxnsForPostedPurchase(
         referenceType: 'PURCHASE',
         referenceId: purchase.id,
         projectId: purchase.projectId,
+        warehouseId,
         vendorId: purchase.supplierVendorId,
         createdById: '', // Will be set by adjustStock or workflow
         notes: `Purchase ${purchase.challanNo || purchase.id}`,
@@ -548,9 +575,10 @@ export async function createInventoryTxnsForPostedPurchase(
     // Update or create StockBalance
     const balance = await tx.stockBalance.findUnique({
       where: {
-        companyId_stockItemId: {
+        companyId_stockItemId_warehouseId: {
           companyId,
           stockItemId: line.stockItemId,
+          warehouseId,
         },
       },
     });
@@ -576,6 +604,7 @@ export async function createInventoryTxnsForPostedPurchase(
         data: {
           companyId,
           stockItemId: line.stockItemId,
+          warehouseId,
           onHandQty: line.quantity || new Prisma.Decimal(0),
           avgCost: line.unitRate || new Prisma.Decimal(0),
         },
@@ -644,21 +673,25 @@ export async function createInventoryReversalForPurchase(
         referenceType: 'PURCHASE',
         referenceId: purchase.id,
         projectId: originalMovement.projectId,
+        warehouseId: originalMovement.warehouseId,
         vendorId: originalMovement.vendorId,
         createdById: originalMovement.createdById,
         notes: `Reversal of purchase ${purchase.challanNo || purchase.id}`,
       },
     });
 
-    // Update StockBalance
-    const balance = await tx.stockBalance.findUnique({
-      where: {
-        companyId_stockItemId: {
-          companyId,
-          stockItemId: originalMovement.stockItemId,
-        },
-      },
-    });
+    // Update StockBalance at the location the purchase was received into
+    const balance = originalMovement.warehouseId
+      ? await tx.stockBalance.findUnique({
+          where: {
+            companyId_stockItemId_warehouseId: {
+              companyId,
+              stockItemId: originalMovement.stockItemId,
+              warehouseId: originalMovement.warehouseId,
+            },
+          },
+        })
+      : null;
 
     if (balance) {
       const newQty = balance.onHandQty.minus(originalMovement.qty);
@@ -0,0 +1,716 @@
+/**
+ * Server-only functions for purchase orders and goods receipt notes
+ * DO NOT import in client components
+ *
+ * Procure-to-pay runs in three documents. A purchase order fixes the items, quantities and rates
+ * agreed with a vendor for a project. Each goods receipt note (GRN) records what a delivery
+ * brought, by the vendor's challan, and receives it into stock at the order rate. The vendor bill
+ * is an ordinary Purchase linked to the order: its material lines point at order lines, and
+ * posting it does not receive stock again. The three-way match compares each bill line with the
+ * order rate and with what was received but not yet billed.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, PurchaseOrderStatus, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  GoodsReceiptCreate,
+  PurchaseOrderBillCreate,
+  PurchaseOrderCreate,
+  PurchaseOrderListFilters,
+  PurchaseOrderStatusUpdate,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { adjustStock } from '@/lib/stock/stockService.server';
+
+export const GOODS_RECEIPT_REFERENCE = 'GOODS_RECEIPT';
+
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = [PurchaseOrderStatus.OPEN, PurchaseOrderStatus.PARTIALLY_RECEIVED];
+const QTY_EPSILON = 0.0005;
+const RATE_TOLERANCE = 0.005;
+
+export interface PurchaseOrderResult {
+  success: boolean;
+  purchaseOrder?: any;
+  error?: string;
+}
+
+export interface GoodsReceiptResult {
+  success: boolean;
+  goodsReceipt?: any;
+  error?: string;
+}
+
+export interface PurchaseOrderBillResult {
+  success: boolean;
+  purchase?: any;
+  error?: string;
+}
+
+export type ThreeWayMatchIssue = 'RATE_DIFFERENCE' | 'BILLED_OVER_RECEIVED' | 'NOT_ON_ORDER';
+
+export interface ThreeWayMatchLine {
+  purchaseOrderLineId: string | null;
+  stockItemId: string | null;
+  stockItemName: string;
+  unit: string | null;
+  orderedQty: number;
+  orderRate: number;
+  receivedQty: number;
+  billedElsewhereQty: number;
+  billedQty: number;
+  billRate: number;
+  qtyDifference: number;
+  rateDifference: number;
+  amountDifference: number;
+  issues: ThreeWayMatchIssue[];
+}
+
+export interface ThreeWayMatch {
+  purchaseOrder: { id: string; poNo: string; status: PurchaseOrderStatus } | null;
+  lines: ThreeWayMatchLine[];
+  matched: boolean;
+}
+
+export interface OpenPurchaseOrderLine {
+  purchaseOrderId: string;
+  poNo: string;
+  orderDate: Date;
+  expectedDate: Date | null;
+  projectId: string;
+  projectName: string;
+  vendorId: string;
+  vendorName: string;
+  purchaseOrderLineId: string;
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  orderedQty: number;
+  receivedQty: number;
+  openQty: number;
+  unitRate: number;
+  openValue: number;
+}
+
+function roundQty(qty: number): number {
+  return Math.round(qty * 1000) / 1000;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Next document number for the company and year, e.g. PO-2026-0001
+ */
+async function generateDocumentNo(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  kind: 'PO' | 'GRN',
+  date: Date
+): Promise<string> {
+  const prefix = `${kind}-${date.getFullYear()}-`;
+  const last =
+    kind === 'PO'
+      ? await tx.purchaseOrder.findFirst({
+          where: { companyId, poNo: { startsWith: prefix } },
+          orderBy: { poNo: 'desc' },
+          select: { poNo: true },
+        }).then((order) => order?.poNo)
+      : await tx.goodsReceipt.findFirst({
+          where: { companyId, grnNo: { startsWith: prefix } },
+          orderBy: { grnNo: 'desc' },
+          select: { grnNo: true },
+        }).then((receipt) => receipt?.grnNo);
+
+  const match = last?.match(/-(\d+)$/);
+  const nextNumber = match ? parseInt(match[1], 10) + 1 : 1;
+  return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+}
+
+const purchaseOrderInclude = {
+  project: { select: { id: true, name: true } },
+  vendor: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      stockItem: { select: { id: true, name: true, unit: true } },
+      receiptLines: { select: { qty: true } },
+      billLines: { select: { quantity: true, purchase: { select: { status: true } } } },
+    },
+    orderBy: { id: 'asc' },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+type PurchaseOrderWithLines = Prisma.PurchaseOrderGetPayload<{ include: typeof purchaseOrderInclude }>;
+
+/**
+ * Ordered, received and billed quantities per order line; reversed bills do not count
+ */
+function summarizeLines(order: PurchaseOrderWithLines) {
+  return order.lines.map(({ receiptLines, billLines, ...line }) => {
+    const orderedQty = Number(line.qty);
+    const receivedQty = roundQty(receiptLines.reduce((sum, receipt) => sum + Number(receipt.qty), 0));
+    const billedQty = roundQty(
+      billLines
+        .filter((bill) => bill.purchase.status !== 'REVERSED')
+        .reduce((sum, bill) => sum + Number(bill.quantity ?? 0), 0)
+    );
+    return {
+      ...line,
+      orderedQty,
+      receivedQty,
+      billedQty,
+      openQty: Math.max(roundQty(orderedQty - receivedQty), 0),
+      unbilledQty: Math.max(roundQty(receivedQty - billedQty), 0),
+    };
+  });
+}
+
+/**
+ * Error for the first receipt quantity above what is still open on its line, or null
+ */
+function getOverReceiptError(lines: ReturnType<typeof summarizeLines>, received: Map<string, number>): string | null {
+  for (const [lineId, qty] of Array.from(received.entries())) {
+    const line = lines.find((l) => l.id === lineId);
+    if (line && qty > line.openQty + QTY_EPSILON) {
+      return `Received quantity of ${line.stockItem.name} exceeds the open order quantity. Open: ${line.openQty.toFixed(3)}, Received: ${qty.toFixed(3)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Purchase orders with per-line received and billed quantities, newest first
+ */
+export async function listPurchaseOrders(companyId: string, filters: PurchaseOrderListFilters = {}) {
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      companyId,
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.vendorId ? { vendorId: filters.vendorId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    include: purchaseOrderInclude,
+    orderBy: [{ orderDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return orders.map((order) => ({ ...order, lines: summarizeLines(order) }));
+}
+
+/**
+ * One purchase order with its receipts and bills
+ */
+export async function getPurchaseOrder(companyId: string, purchaseOrderId: string) {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: {
+      ...purchaseOrderInclude,
+      receipts: {
+        include: {
+          warehouse: { select: { id: true, name: true } },
+          createdBy: { select: { id: true, name: true } },
+          lines: { select: { id: true, purchaseOrderLineId: true, qty: true, movementId: true } },
+        },
+        orderBy: [{ receiptDate: 'asc' }, { createdAt: 'asc' }],
+      },
+      bills: {
+        select: { id: true, date: true, challanNo: true, status: true, total: true },
+        orderBy: { date: 'asc' },
+      },
+    },
+  });
+  if (!order) {
+    return null;
+  }
+
+  return { ...order, lines: summarizeLines(order) };
+}
+
+/**
+ * Create an OPEN purchase order
+ */
+export async function createPurchaseOrder(
+  companyId: string,
+  userId: string,
+  data: PurchaseOrderCreate,
+  request?: NextRequest
+): Promise<PurchaseOrderResult> {
+  const [project, vendor] = await Promise.all([
+    prisma.project.findFirst({ where: { id: data.projectId, companyId }, select: { id: true } }),
+    prisma.vendor.findFirst({ where: { id: data.vendorId, companyId }, select: { id: true, isActive: true } }),
+  ]);
+  if (!project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+  if (!vendor || !vendor.isActive) {
+    return { success: false, error: 'Vendor not found, inactive, or does not belong to your company' };
+  }
+
+  const stockItemIds = Array.from(new Set(data.lines.map((line) => line.stockItemId)));
+  const itemCount = await prisma.stockItem.count({
+    where: { id: { in: stockItemIds }, companyId, isActive: true },
+  });
+  if (itemCount !== stockItemIds.length) {
+    return { success: false, error: 'One or more stock items not found, inactive, or do not belong to your company' };
+  }
+
+  const lines = data.lines.map((line) => ({ ...line, amount: roundMoney(line.qty * line.unitRate) }));
+  const total = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const orderDate = data.orderDate ?? new Date();
+
+  const purchaseOrder = await prisma.$transaction(async (tx) => {
+    const poNo = await generateDocumentNo(tx, companyId, 'PO', orderDate);
+    return tx.purchaseOrder.create({
+      data: {
+        companyId,
+        poNo,
+        orderDate,
+        expectedDate: data.expectedDate ?? null,
+        projectId: project.id,
+        vendorId: vendor.id,
+        notes: data.notes || null,
+        total: new Prisma.Decimal(total),
+        createdById: userId,
+        lines: {
+          create: lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            description: line.description || null,
+            qty: new Prisma.Decimal(line.qty),
+            unitRate: new Prisma.Decimal(line.unitRate),
+            amount: new Prisma.Decimal(line.amount),
+          })),
+        },
+      },
+      include: purchaseOrderInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PurchaseOrder',
+    entityId: purchaseOrder.id,
+    action: 'CREATE',
+    before: null,
+    after: purchaseOrder,
+    request,
+  });
+
+  return { success: true, purchaseOrder: { ...purchaseOrder, lines: summarizeLines(purchaseOrder) } };
+}
+
+/**
+ * Short-close an order that will not be delivered in full, or cancel one nothing was received on
+ */
+export async function updatePurchaseOrderStatus(
+  companyId: string,
+  purchaseOrderId: string,
+  userId: string,
+  data: PurchaseOrderStatusUpdate,
+  request?: NextRequest
+): Promise<PurchaseOrderResult> {
+  const existing = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: { _count: { select: { receipts: true } } },
+  });
+  if (!existing) {
+    return { success: false, error: 'Purchase order not found' };
+  }
+  if (!RECEIVABLE_STATUSES.includes(existing.status)) {
+    return { success: false, error: 'Only open purchase orders can be closed or cancelled' };
+  }
+  if (data.action === 'CANCEL' && existing._count.receipts > 0) {
+    return { success: false, error: 'Goods have been received on this order; close it instead' };
+  }
+
+  const purchaseOrder = await prisma.purchaseOrder.update({
+    where: { id: existing.id },
+    data: { status: data.action === 'CANCEL' ? PurchaseOrderStatus.CANCELLED : PurchaseOrderStatus.CLOSED },
+    include: purchaseOrderInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PurchaseOrder',
+    entityId: purchaseOrder.id,
+    action: 'STATUS_CHANGE',
+    before: existing,
+    after: purchaseOrder,
+    request,
+  });
+
+  return { success: true, purchaseOrder: { ...purchaseOrder, lines: summarizeLines(purchaseOrder) } };
+}
+
+/**
+ * Record a delivery against an order and receive it into stock at the order rate
+ * Quantities cannot exceed what is still open on each line.
+ */
+export async function createGoodsReceipt(
+  companyId: string,
+  purchaseOrderId: string,
+  userId: string,
+  data: GoodsReceiptCreate,
+  request?: NextRequest
+): Promise<GoodsReceiptResult> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: purchaseOrderInclude,
+  });
+  if (!order) {
+    return { success: false, error: 'Purchase order not found' };
+  }
+  if (!RECEIVABLE_STATUSES.includes(order.status)) {
+    return { success: false, error: 'Goods can only be received on open purchase orders' };
+  }
+
+  const received = new Map<string, number>();
+  for (const row of data.lines) {
+    if (!order.lines.some((l) => l.id === row.purchaseOrderLineId)) {
+      return { success: false, error: 'Order line does not belong to this purchase order' };
+    }
+    received.set(row.purchaseOrderLineId, roundQty((received.get(row.purchaseOrderLineId) ?? 0) + row.qty));
+  }
+  const overReceipt = getOverReceiptError(summarizeLines(order), received);
+  if (overReceipt) {
+    return { success: false, error: overReceipt };
+  }
+
+  const receiptDate = data.receiptDate ?? new Date();
+
+  try {
+    const goodsReceipt = await prisma.$transaction(async (tx) => {
+      // Touch the order first so concurrent receipts on it queue up, then re-check the open
+      // quantities against the receipts already committed
+      const claimed = await tx.purchaseOrder.updateMany({
+        where: { id: order.id, status: { in: RECEIVABLE_STATUSES } },
+        data: { updatedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Goods can only be received on open purchase orders');
+      }
+      const current = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: order.id },
+        include: purchaseOrderInclude,
+      });
+      const lines = summarizeLines(current);
+      const overReceiptError = getOverReceiptError(lines, received);
+      if (overReceiptError) {
+        throw new Error(overReceiptError);
+      }
+
+      const grnNo = await generateDocumentNo(tx, companyId, 'GRN', receiptDate);
+      const created = await tx.goodsReceipt.create({
+        data: {
+          companyId,
+          grnNo,
+          purchaseOrderId: order.id,
+          receiptDate,
+          challanNo: data.challanNo || null,
+          warehouseId: data.warehouseId || null,
+          notes: data.notes || null,
+          createdById: userId,
+          lines: {
+            create: Array.from(received.entries()).map(([purchaseOrderLineId, qty]) => ({
+              purchaseOrderLineId,
+              qty: new Prisma.Decimal(qty),
+            })),
+          },
+        },
+        include: { lines: true },
+      });
+
+      for (const receiptLine of created.lines) {
+        const line = lines.find((l) => l.id === receiptLine.purchaseOrderLineId)!;
+        const result = await adjustStock({
+          companyId,
+          stockItemId: line.stockItemId,
+          type: 'IN',
+          qty: receiptLine.qty,
+          unitCost: line.unitRate,
+          referenceType: GOODS_RECEIPT_REFERENCE,
+          referenceId: receiptLine.id,
+          projectId: order.projectId,
+          vendorId: order.vendorId,
+          warehouseId: data.warehouseId || null,
+          notes: `${grnNo} against ${order.poNo}${data.challanNo ? `, challan ${data.challanNo}` : ''}`,
+          userId,
+          movementDate: receiptDate,
+          movementKind: StockMovementKind.RECEIVE,
+          tx,
+        });
+        if (!result.success) {
+          throw new Error(`${line.stockItem.name}: ${result.error || 'Failed to receive stock'}`);
+        }
+        await tx.goodsReceiptLine.update({
+          where: { id: receiptLine.id },
+          data: { movementId: result.movementId },
+        });
+      }
+
+      const fullyReceived = lines.every(
+        (line) => line.receivedQty + (received.get(line.id) ?? 0) >= line.orderedQty - QTY_EPSILON
+      );
+      await tx.purchaseOrder.update({
+        where: { id: order.id },
+        data: { status: fullyReceived ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED },
+      });
+
+      return tx.goodsReceipt.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          purchaseOrder: { select: { id: true, poNo: true, status: true } },
+          warehouse: { select: { id: true, name: true } },
+          lines: true,
+        },
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'GoodsReceipt',
+      entityId: goodsReceipt.id,
+      action: 'CREATE',
+      before: null,
+      after: goodsReceipt,
+      request,
+    });
+
+    return { success: true, goodsReceipt };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record goods receipt',
+    };
+  }
+}
+
+/**
+ * Draft the vendor bill for everything received on an order but not yet billed, at order rates
+ * The draft can be edited to the vendor's actual invoice before it is posted.
+ */
+export async function createBillFromPurchaseOrder(
+  companyId: string,
+  purchaseOrderId: string,
+  userId: string,
+  data: PurchaseOrderBillCreate,
+  request?: NextRequest
+): Promise<PurchaseOrderBillResult> {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: purchaseOrderInclude,
+  });
+  if (!order) {
+    return { success: false, error: 'Purchase order not found' };
+  }
+  if (order.status === PurchaseOrderStatus.CANCELLED) {
+    return { success: false, error: 'This purchase order was cancelled' };
+  }
+
+  const lines = summarizeLines(order)
+    .filter((line) => line.unbilledQty > QTY_EPSILON)
+    .map((line) => {
+      const unitRate = Number(line.unitRate);
+      return { line, unitRate, lineTotal: roundMoney(line.unbilledQty * unitRate) };
+    });
+  if (lines.length === 0) {
+    return { success: false, error: 'Nothing has been received on this order that is not already billed' };
+  }
+
+  const subtotal = new Prisma.Decimal(roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0)));
+
+  const purchase = await prisma.purchase.create({
+    data: {
+      companyId,
+      date: data.date ?? new Date(),
+      challanNo: data.challanNo || null,
+      projectId: order.projectId,
+      supplierVendorId: order.vendorId,
+      reference: order.poNo,
+      subtotal,
+      total: subtotal,
+      paidAmount: new Prisma.Decimal(0),
+      dueAmount: subtotal,
+      status: 'DRAFT',
+      purchaseOrderId: order.id,
+      lines: {
+        create: lines.map(({ line, unitRate, lineTotal }) => ({
+          lineType: 'MATERIAL',
+          stockItem: { connect: { id: line.stockItemId } },
+          purchaseOrderLine: { connect: { id: line.id } },
+          quantity: new Prisma.Decimal(line.unbilledQty),
+          unit: line.stockItem.unit,
+          unitRate: new Prisma.Decimal(unitRate),
+          materialName: line.stockItem.name,
+          description: line.description,
+          lineTotal: new Prisma.Decimal(lineTotal),
+        })),
+      },
+    },
+    include: {
+      project: { select: { id: true, name: true } },
+      supplierVendor: { select: { id: true, name: true } },
+      lines: { include: { stockItem: { select: { id: true, name: true, unit: true } } } },
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Purchase',
+    entityId: purchase.id,
+    action: 'CREATE',
+    after: purchase,
+    request,
+  });
+
+  return { success: true, purchase };
+}
+
+/**
+ * Match a vendor bill against its purchase order and goods receipts
+ * Each bill line is checked against the order rate and against the quantity received less what
+ * other (non-reversed) bills already cover. Material lines with a stock item that is not on the
+ * order are flagged too. Returns null when the purchase does not exist.
+ */
+export async function getThreeWayMatch(companyId: string, purchaseId: string): Promise<ThreeWayMatch | null> {
+  const purchase = await prisma.purchase.findFirst({
+    where: { id: purchaseId, companyId },
+    include: {
+      lines: { include: { stockItem: { select: { id: true, name: true, unit: true } } } },
+    },
+  });
+  if (!purchase) {
+    return null;
+  }
+  if (!purchase.purchaseOrderId) {
+    return { purchaseOrder: null, lines: [], matched: true };
+  }
+
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchase.purchaseOrderId, companyId },
+    include: {
+      ...purchaseOrderInclude,
+      lines: {
+        include: {
+          stockItem: { select: { id: true, name: true, unit: true } },
+          receiptLines: { select: { qty: true } },
+          billLines: {
+            where: { purchaseId: { not: purchase.id } },
+            select: { quantity: true, purchase: { select: { status: true } } },
+          },
+        },
+        orderBy: { id: 'asc' },
+      },
+    },
+  });
+  if (!order) {
+    return { purchaseOrder: null, lines: [], matched: true };
+  }
+
+  const orderLines = summarizeLines(order);
+  const lines: ThreeWayMatchLine[] = [];
+
+  for (const orderLine of orderLines) {
+    const billLines = purchase.lines.filter((line) => line.purchaseOrderLineId === orderLine.id);
+    if (billLines.length === 0) continue;
+
+    const billedQty = roundQty(billLines.reduce((sum, line) => sum + Number(line.quantity ?? 0), 0));
+    const billedAmount = billLines.reduce((sum, line) => sum + Number(line.lineTotal), 0);
+    const billRate = billedQty > 0 ? roundMoney(billedAmount / billedQty) : 0;
+    const orderRate = Number(orderLine.unitRate);
+    // Received on GRNs and not covered by other bills
+    const billableQty = Math.max(roundQty(orderLine.receivedQty - orderLine.billedQty), 0);
+
+    const issues: ThreeWayMatchIssue[] = [];
+    if (Math.abs(billRate - orderRate) > RATE_TOLERANCE) {
+      issues.push('RATE_DIFFERENCE');
+    }
+    if (billedQty > billableQty + QTY_EPSILON) {
+      issues.push('BILLED_OVER_RECEIVED');
+    }
+
+    lines.push({
+      purchaseOrderLineId: orderLine.id,
+      stockItemId: orderLine.stockItemId,
+      stockItemName: orderLine.stockItem.name,
+      unit: orderLine.stockItem.unit,
+      orderedQty: orderLine.orderedQty,
+      orderRate,
+      receivedQty: orderLine.receivedQty,
+      billedElsewhereQty: orderLine.billedQty,
+      billedQty,
+      billRate,
+      qtyDifference: roundQty(billedQty - billableQty),
+      rateDifference: roundMoney(billRate - orderRate),
+      amountDifference: roundMoney(billedAmount - billableQty * orderRate),
+      issues,
+    });
+  }
+
+  for (const line of purchase.lines) {
+    if (line.purchaseOrderLineId || line.lineType !== 'MATERIAL' || !line.stockItemId) continue;
+    const billedQty = Number(line.quantity ?? 0);
+    lines.push({
+      purchaseOrderLineId: null,
+      stockItemId: line.stockItemId,
+      stockItemName: line.stockItem?.name ?? line.materialName ?? 'Material',
+      unit: line.stockItem?.unit ?? line.unit,
+      orderedQty: 0,
+      orderRate: 0,
+      receivedQty: 0,
+      billedElsewhereQty: 0,
+      billedQty,
+      billRate: Number(line.unitRate ?? 0),
+      qtyDifference: billedQty,
+      rateDifference: 0,
+      amountDifference: Number(line.lineTotal),
+      issues: ['NOT_ON_ORDER'],
+    });
+  }
+
+  return {
+    purchaseOrder: { id: order.id, poNo: order.poNo, status: order.status },
+    lines,
+    matched: lines.every((line) => line.issues.length === 0),
+  };
+}
+
+/**
+ * Quantities still to be delivered on open orders, per order line
+ */
+export async function getOpenPurchaseOrderQuantities(
+  companyId: string,
+  filters: { projectId?: string; vendorId?: string } = {}
+): Promise<OpenPurchaseOrderLine[]> {
+  const orders = await listPurchaseOrders(companyId, filters);
+
+  return orders
+    .filter((order) => RECEIVABLE_STATUSES.includes(order.status))
+    .flatMap((order) =>
+      order.lines
+        .filter((line) => line.openQty > QTY_EPSILON)
+        .map((line) => ({
+          purchaseOrderId: order.id,
+          poNo: order.poNo,
+          orderDate: order.orderDate,
+          expectedDate: order.expectedDate,
+          projectId: order.project.id,
+          projectName: order.project.name,
+          vendorId: order.vendor.id,
+          vendorName: order.vendor.name,
+          purchaseOrderLineId: line.id,
+          stockItemId: line.stockItemId,
+          stockItemName: line.stockItem.name,
+          stockItemUnit: line.stockItem.unit,
+          orderedQty: line.orderedQty,
+          receivedQty: line.receivedQty,
+          openQty: line.openQty,
+          unitRate: Number(line.unitRate),
+          openValue: roundMoney(line.openQty * Number(line.unitRate)),
+        }))
+    );
+}
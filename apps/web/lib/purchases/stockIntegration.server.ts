@@ -10,6 +10,7 @@ import { adjustStock } from '@/lib/stock/stockService.server';
 /**
  * Create stock movements for a posted purchase
  * For each purchase line with stockItemId, create StockMovement IN
+ * (except lines billed against a purchase order, which arrived on a goods receipt)
  */
 export async function createStockMovementsForPostedPurchase(
   purchaseId: string,
@@ -53,6 +54,11 @@ export async function createStockMovementsForPostedPurchase(
         continue; // Skip non-MATERIAL lines or lines without stock item
       }
 
+      // Lines billed against a purchase order were received into stock on their goods receipt
+      if (line.purchaseOrderLineId) {
+        continue;
+      }
+
       // Check idempotency: if movement already exists for this purchase line, skip
       const existing = await tx.stockMovement.findFirst({
         where: {
@@ -0,0 +1,131 @@
+import { prisma } from '@accounting/db';
+import { decimalToNumber } from './payables';
+
+export interface ReceivablesAgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+}
+
+export interface ReceivablesAgingBill extends ReceivablesAgingBuckets {
+  billId: string;
+  billNo: string;
+  date: Date;
+  dueDate: Date | null;
+  daysOutstanding: number;
+  outstanding: number;
+  retentionOutstanding: number;
+}
+
+export interface ReceivablesAgingRow extends ReceivablesAgingBuckets {
+  projectId: string;
+  projectName: string;
+  clientName: string | null;
+  outstanding: number;
+  retentionOutstanding: number;
+  bills: ReceivablesAgingBill[];
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function emptyBuckets(): ReceivablesAgingBuckets {
+  return { days0to30: 0, days31to60: 0, days61to90: 0, days90plus: 0 };
+}
+
+function bucketKey(days: number): keyof ReceivablesAgingBuckets {
+  if (days <= 30) return 'days0to30';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'days90plus';
+}
+
+/**
+ * Get receivables aging per project (client) as of a date
+ * Age is counted from the bill due date (or bill date when no due date is set).
+ * Retention is not due until released, so it is reported separately and not aged.
+ */
+export async function getReceivablesAging(companyId: string, asOf: Date = new Date()) {
+  const bills = await prisma.clientBill.findMany({
+    where: {
+      companyId,
+      status: 'POSTED',
+      date: { lte: asOf },
+    },
+    include: {
+      project: { select: { id: true, name: true, clientName: true } },
+      receipts: {
+        where: { date: { lte: asOf }, voucher: { status: 'POSTED' } },
+        select: { kind: true, amount: true },
+      },
+    },
+    orderBy: [{ date: 'asc' }, { sequence: 'asc' }],
+  });
+
+  const rows = new Map<string, ReceivablesAgingRow>();
+
+  bills.forEach((bill) => {
+    const received = bill.receipts
+      .filter((r) => r.kind === 'BILL')
+      .reduce((sum, r) => sum + decimalToNumber(r.amount), 0);
+    const retentionReleased = bill.receipts
+      .filter((r) => r.kind === 'RETENTION')
+      .reduce((sum, r) => sum + decimalToNumber(r.amount), 0);
+
+    const outstanding = Math.round((decimalToNumber(bill.netAmount) - received) * 100) / 100;
+    const retentionOutstanding =
+      Math.round((decimalToNumber(bill.retentionAmount) - retentionReleased) * 100) / 100;
+
+    if (outstanding <= 0 && retentionOutstanding <= 0) return;
+
+    const ageFrom = bill.dueDate ?? bill.date;
+    const daysOutstanding = Math.max(0, Math.floor((asOf.getTime() - ageFrom.getTime()) / MS_PER_DAY));
+
+    const billRow: ReceivablesAgingBill = {
+      billId: bill.id,
+      billNo: bill.billNo,
+      date: bill.date,
+      dueDate: bill.dueDate,
+      daysOutstanding,
+      outstanding: Math.max(0, outstanding),
+      retentionOutstanding: Math.max(0, retentionOutstanding),
+      ...emptyBuckets(),
+    };
+    billRow[bucketKey(daysOutstanding)] = billRow.outstanding;
+
+    let row = rows.get(bill.projectId);
+    if (!row) {
+      row = {
+        projectId: bill.project.id,
+        projectName: bill.project.name,
+        clientName: bill.project.clientName,
+        outstanding: 0,
+        retentionOutstanding: 0,
+        bills: [],
+        ...emptyBuckets(),
+      };
+      rows.set(bill.projectId, row);
+    }
+
+    row.outstanding += billRow.outstanding;
+    row.retentionOutstanding += billRow.retentionOutstanding;
+    row[bucketKey(daysOutstanding)] += billRow.outstanding;
+    row.bills.push(billRow);
+  });
+
+  const summary = Array.from(rows.values()).sort((a, b) => b.outstanding - a.outstanding);
+
+  const totals = summary.reduce(
+    (acc, row) => ({
+      outstanding: acc.outstanding + row.outstanding,
+      retentionOutstanding: acc.retentionOutstanding + row.retentionOutstanding,
+      days0to30: acc.days0to30 + row.days0to30,
+      days31to60: acc.days31to60 + row.days31to60,
+      days61to90: acc.days61to90 + row.days61to90,
+      days90plus: acc.days90plus + row.days90plus,
+    }),
+    { outstanding: 0, retentionOutstanding: 0, ...emptyBuckets() }
+  );
+
+  return { asOf, rows: summary, totals };
+}
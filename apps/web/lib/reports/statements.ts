@@ -12,6 +12,28 @@ export interface TrialBalanceEntry {
   netBalance: number;
 }
 
+export interface TrialBalanceMovementEntry {
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  type: AccountType;
+  openingDebit: number;
+  openingCredit: number;
+  periodDebit: number;
+  periodCredit: number;
+  closingDebit: number;
+  closingCredit: number;
+}
+
+export interface TrialBalanceMovementTotals {
+  openingDebit: number;
+  openingCredit: number;
+  periodDebit: number;
+  periodCredit: number;
+  closingDebit: number;
+  closingCredit: number;
+}
+
 export interface ProfitAndLossData {
   income: Array<{
     accountId: string;
@@ -170,6 +192,114 @@ export async function getTrialBalance(
   };
 }
 
+/**
+ * Get trial balance with opening / period movement / closing columns
+ * Opening is everything posted before `from`; once a year has been closed its INCOME/EXPENSE
+ * accounts open the next year at zero and the profit sits in retained earnings.
+ */
+export async function getTrialBalanceMovement(
+  companyId: string,
+  from: Date,
+  to: Date
+): Promise<{
+  entries: TrialBalanceMovementEntry[];
+  totals: TrialBalanceMovementTotals;
+}> {
+  const accounts = await prisma.account.findMany({
+    where: {
+      companyId,
+      isActive: true,
+    },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      type: true,
+    },
+    orderBy: { code: 'asc' },
+  });
+
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: to },
+      },
+    },
+    select: {
+      accountId: true,
+      debit: true,
+      credit: true,
+      voucher: { select: { date: true } },
+    },
+  });
+
+  const accountTotals = new Map<
+    string,
+    { account: typeof accounts[0]; opening: number; periodDebit: number; periodCredit: number }
+  >();
+
+  accounts.forEach((account) => {
+    accountTotals.set(account.id, { account, opening: 0, periodDebit: 0, periodCredit: 0 });
+  });
+
+  lines.forEach((line) => {
+    const totals = accountTotals.get(line.accountId);
+    if (!totals) return;
+    const debit = decimalToNumber(line.debit);
+    const credit = decimalToNumber(line.credit);
+    if (line.voucher.date < from) {
+      totals.opening += debit - credit;
+    } else {
+      totals.periodDebit += debit;
+      totals.periodCredit += credit;
+    }
+  });
+
+  // Opening and closing are shown as a net balance on their debit or credit side
+  const entries: TrialBalanceMovementEntry[] = Array.from(accountTotals.values())
+    .map(({ account, opening, periodDebit, periodCredit }) => {
+      const closing = opening + periodDebit - periodCredit;
+      return {
+        accountId: account.id,
+        accountCode: account.code,
+        accountName: account.name,
+        type: account.type,
+        openingDebit: opening > 0 ? opening : 0,
+        openingCredit: opening < 0 ? -opening : 0,
+        periodDebit,
+        periodCredit,
+        closingDebit: closing > 0 ? closing : 0,
+        closingCredit: closing < 0 ? -closing : 0,
+      };
+    })
+    .filter(
+      (entry) =>
+        entry.openingDebit !== 0 ||
+        entry.openingCredit !== 0 ||
+        entry.periodDebit !== 0 ||
+        entry.periodCredit !== 0
+    );
+
+  const totals = entries.reduce<TrialBalanceMovementTotals>(
+    (sum, entry) => ({
+      openingDebit: sum.openingDebit + entry.openingDebit,
+      openingCredit: sum.openingCredit + entry.openingCredit,
+      periodDebit: sum.periodDebit + entry.periodDebit,
+      periodCredit: sum.periodCredit + entry.periodCredit,
+      closingDebit: sum.closingDebit + entry.closingDebit,
+      closingCredit: sum.closingCredit + entry.closingCredit,
+    }),
+    { openingDebit: 0, openingCredit: 0, periodDebit: 0, periodCredit: 0, closingDebit: 0, closingCredit: 0 }
+  );
+
+  return {
+    entries,
+    totals,
+  };
+}
+
 /**
  * Get Profit & Loss statement for a date range
  * Only includes INCOME and EXPENSE accounts
@@ -205,6 +335,7 @@ export async function getProfitAndLoss(
       voucher: {
         status: { in: ['POSTED', 'REVERSED'] },
         date: { gte: from, lte: to },
+        fiscalYearClose: { is: null }, // Year-end closing entries would zero the year's P&L
       },
     },
     select: {
@@ -364,6 +495,36 @@ export async function getBalanceSheet(
     }
   });
 
+  // Profit not yet moved into equity by a year-end close keeps the sheet in balance
+  const earningsLines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      account: {
+        type: { in: ['INCOME', 'EXPENSE'] },
+      },
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: asOf },
+      },
+    },
+    select: {
+      debit: true,
+      credit: true,
+    },
+  });
+  const unclosedEarnings = earningsLines.reduce(
+    (sum, line) => sum + decimalToNumber(line.credit) - decimalToNumber(line.debit),
+    0
+  );
+  if (Math.abs(unclosedEarnings) >= 0.005) {
+    equity.push({
+      accountId: 'unclosed-earnings',
+      accountCode: '',
+      accountName: 'Earnings Not Yet Closed',
+      balance: unclosedEarnings,
+    });
+  }
+
   const totalAssets = assets.reduce((sum, e) => sum + e.balance, 0);
   const totalLiabilities = liabilities.reduce((sum, e) => sum + e.balance, 0);
   const totalEquity = equity.reduce((sum, e) => sum + e.balance, 0);
@@ -417,6 +578,7 @@ export async function getProjectProfitability(
     voucher: {
       status: { in: ['POSTED', 'REVERSED'] },
       date: { gte: from, lte: to },
+      fiscalYearClose: { is: null },
     },
   };
 
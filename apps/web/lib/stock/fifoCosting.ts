@@ -0,0 +1,158 @@
+/**
+ * FIFO cost layers
+ * Pure functions shared by the lot service and the costing comparison report; no database access.
+ *
+ * Every receipt adds a layer at its unit cost. Issues consume the oldest layers first, so the cost
+ * of an issue is the cost of the stock that came in earliest, and what remains on hand is valued
+ * at the most recent receipts.
+ */
+
+import { Prisma, StockMovementType } from '@prisma/client';
+
+export interface FifoLayer {
+  receivedDate: Date;
+  qty: number;
+  unitCost: number;
+}
+
+export interface FifoConsumption {
+  layerIndex: number;
+  qty: number;
+  unitCost: number;
+}
+
+export interface FifoConsumeResult {
+  /** Layers left after the issue, oldest first; fully used layers are dropped */
+  layers: FifoLayer[];
+  consumed: FifoConsumption[];
+  value: number;
+  /** Quantity the layers could not cover */
+  shortfallQty: number;
+}
+
+export interface FifoItemState {
+  stockItemId: string;
+  layers: FifoLayer[];
+  onHandQty: number;
+  value: number;
+  issuedQty: number;
+  issuedValue: number;
+}
+
+const QTY_EPSILON = 0.0005;
+
+function roundQty(qty: number): number {
+  return Math.round(qty * 1000) / 1000;
+}
+
+/**
+ * Take a quantity from the oldest layers first
+ * Does not modify the layers passed in.
+ */
+export function consumeFifoLayers(layers: FifoLayer[], qty: number): FifoConsumeResult {
+  const remaining = layers.map((layer) => ({ ...layer }));
+  const consumed: FifoConsumption[] = [];
+  let toConsume = qty;
+  let value = 0;
+
+  for (let i = 0; i < remaining.length && toConsume > QTY_EPSILON; i++) {
+    const layer = remaining[i];
+    if (layer.qty <= QTY_EPSILON) continue;
+
+    const take = Math.min(layer.qty, toConsume);
+    consumed.push({ layerIndex: i, qty: roundQty(take), unitCost: layer.unitCost });
+    value += take * layer.unitCost;
+    layer.qty = roundQty(layer.qty - take);
+    toConsume = roundQty(toConsume - take);
+  }
+
+  return {
+    layers: remaining.filter((layer) => layer.qty > QTY_EPSILON),
+    consumed,
+    value,
+    shortfallQty: toConsume > QTY_EPSILON ? toConsume : 0,
+  };
+}
+
+/**
+ * Quantity-weighted cost of what the layers hold
+ */
+export function valueFifoLayers(layers: FifoLayer[]): { qty: number; value: number } {
+  return layers.reduce(
+    (totals, layer) => ({
+      qty: roundQty(totals.qty + layer.qty),
+      value: totals.value + layer.qty * layer.unitCost,
+    }),
+    { qty: 0, value: 0 }
+  );
+}
+
+/**
+ * Replay movements through FIFO layers, per stock item
+ * Movements of type OUT consume layers; every other movement adds one. A receipt without a unit
+ * cost comes in at the average cost of the layers on hand. Issues beyond the layers are costed at
+ * the last known unit cost and leave the item at zero.
+ */
+export function computeFifoForMovements(
+  movements: Array<{
+    id: string;
+    stockItemId: string;
+    movementDate: Date;
+    createdAt: Date;
+    type: StockMovementType;
+    qty: Prisma.Decimal;
+    unitCost: Prisma.Decimal | null;
+  }>
+): Map<string, FifoItemState> {
+  const sortedMovements = [...movements].sort((a, b) => {
+    const dateDiff = a.movementDate.getTime() - b.movementDate.getTime();
+    if (dateDiff !== 0) return dateDiff;
+    const createdDiff = a.createdAt.getTime() - b.createdAt.getTime();
+    if (createdDiff !== 0) return createdDiff;
+    return a.id.localeCompare(b.id);
+  });
+
+  const itemMap = new Map<string, FifoItemState & { lastUnitCost: number }>();
+
+  for (const movement of sortedMovements) {
+    if (!itemMap.has(movement.stockItemId)) {
+      itemMap.set(movement.stockItemId, {
+        stockItemId: movement.stockItemId,
+        layers: [],
+        onHandQty: 0,
+        value: 0,
+        issuedQty: 0,
+        issuedValue: 0,
+        lastUnitCost: 0,
+      });
+    }
+
+    const item = itemMap.get(movement.stockItemId)!;
+    const qty = Math.abs(Number(movement.qty));
+
+    if (movement.type === 'OUT') {
+      const result = consumeFifoLayers(item.layers, qty);
+      item.layers = result.layers;
+      item.issuedQty += qty;
+      item.issuedValue += result.value + result.shortfallQty * item.lastUnitCost;
+    } else {
+      const onHand = valueFifoLayers(item.layers);
+      const unitCost =
+        movement.unitCost !== null
+          ? Number(movement.unitCost)
+          : onHand.qty > 0
+          ? onHand.value / onHand.qty
+          : item.lastUnitCost;
+      item.layers.push({ receivedDate: movement.movementDate, qty, unitCost });
+      item.lastUnitCost = unitCost;
+    }
+
+    const onHand = valueFifoLayers(item.layers);
+    item.onHandQty = onHand.qty;
+    item.value = onHand.value;
+  }
+
+  return new Map(
+    Array.from(itemMap.entries()).map(([stockItemId, { lastUnitCost, ...state }]) => [stockItemId, state])
+  );
+}
@@ -0,0 +1,347 @@
+/**
+ * Server-only functions for material requisitions
+ * DO NOT import in client components
+ *
+ * A site engineer requests items and quantities for a project. An approver (accountant or admin)
+ * approves each line in full or in part, or rejects the whole requisition. Approval issues the
+ * approved quantities to the project straight away: one ISSUE movement per line through
+ * adjustStock, with its costed issue journal, all in one transaction, so a requisition is either
+ * issued completely or not at all. Movements reference the requisition line, which also keeps the
+ * movement's id.
+ */
+
+import { prisma } from '@accounting/db';
+import { MaterialRequisitionStatus, Prisma, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  MaterialRequisitionApprove,
+  MaterialRequisitionCreate,
+  MaterialRequisitionListFilters,
+  MaterialRequisitionReject,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { adjustStock } from './stockService.server';
+
+export const MATERIAL_REQUISITION_REFERENCE = 'MATERIAL_REQUISITION';
+
+export interface MaterialRequisitionResult {
+  success: boolean;
+  requisition?: any;
+  error?: string;
+}
+
+const requisitionInclude = {
+  project: { select: { id: true, name: true } },
+  requestedBy: { select: { id: true, name: true } },
+  decidedBy: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      stockItem: { select: { id: true, name: true, unit: true } },
+      movement: { select: { id: true, warehouseId: true, unitCost: true, voucherId: true } },
+    },
+    orderBy: { id: 'asc' },
+  },
+} satisfies Prisma.MaterialRequisitionInclude;
+
+/**
+ * Requisitions for the company, newest first
+ */
+export async function listMaterialRequisitions(companyId: string, filters: MaterialRequisitionListFilters = {}) {
+  return prisma.materialRequisition.findMany({
+    where: {
+      companyId,
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    include: requisitionInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Raise a requisition; it waits for approval as PENDING
+ */
+export async function createMaterialRequisition(
+  companyId: string,
+  userId: string,
+  data: MaterialRequisitionCreate,
+  request?: NextRequest
+): Promise<MaterialRequisitionResult> {
+  const project = await prisma.project.findFirst({
+    where: { id: data.projectId, companyId },
+    select: { id: true, status: true },
+  });
+  if (!project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+
+  const stockItemIds = Array.from(new Set(data.lines.map((line) => line.stockItemId)));
+  if (stockItemIds.length !== data.lines.length) {
+    return { success: false, error: 'Each item can only appear once on a requisition' };
+  }
+  const items = await prisma.stockItem.findMany({
+    where: { id: { in: stockItemIds }, companyId },
+    select: { id: true, isActive: true },
+  });
+  if (items.length !== stockItemIds.length) {
+    return { success: false, error: 'Stock item not found or does not belong to your company' };
+  }
+  if (items.some((item) => !item.isActive)) {
+    return { success: false, error: 'Inactive stock items cannot be requested' };
+  }
+
+  const requisition = await prisma.materialRequisition.create({
+    data: {
+      companyId,
+      projectId: project.id,
+      requiredDate: data.requiredDate ?? null,
+      notes: data.notes || null,
+      requestedById: userId,
+      lines: {
+        create: data.lines.map((line) => ({
+          stockItemId: line.stockItemId,
+          requestedQty: new Prisma.Decimal(line.qty),
+          notes: line.notes || null,
+        })),
+      },
+    },
+    include: requisitionInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: requisition.id,
+    action: 'CREATE',
+    before: null,
+    after: requisition,
+    request,
+  });
+
+  return { success: true, requisition };
+}
+
+/**
+ * Approve a pending requisition and issue the approved quantities to its project
+ * Lines left out are approved at zero. Quantities cannot exceed what was requested.
+ */
+export async function approveMaterialRequisition(
+  companyId: string,
+  requisitionId: string,
+  userId: string,
+  data: MaterialRequisitionApprove,
+  request?: NextRequest
+): Promise<MaterialRequisitionResult> {
+  const existing = await prisma.materialRequisition.findFirst({
+    where: { id: requisitionId, companyId },
+    include: requisitionInclude,
+  });
+  if (!existing) {
+    return { success: false, error: 'Requisition not found' };
+  }
+  if (existing.status !== MaterialRequisitionStatus.PENDING) {
+    return { success: false, error: 'Only pending requisitions can be approved' };
+  }
+
+  const approvedQtys = new Map<string, number>();
+  for (const row of data.lines) {
+    const line = existing.lines.find((l) => l.id === row.lineId);
+    if (!line) {
+      return { success: false, error: 'Requisition line does not belong to this requisition' };
+    }
+    if (row.approvedQty > Number(line.requestedQty)) {
+      return {
+        success: false,
+        error: `Approved quantity of ${line.stockItem.name} cannot exceed the requested ${Number(line.requestedQty).toFixed(3)}`,
+      };
+    }
+    approvedQtys.set(line.id, row.approvedQty);
+  }
+  if (Array.from(approvedQtys.values()).every((qty) => qty <= 0)) {
+    return { success: false, error: 'Approve at least one quantity, or reject the requisition' };
+  }
+
+  const status = existing.lines.every((line) => (approvedQtys.get(line.id) ?? 0) >= Number(line.requestedQty))
+    ? MaterialRequisitionStatus.APPROVED
+    : MaterialRequisitionStatus.PARTIALLY_APPROVED;
+  const issueDate = data.issueDate ?? new Date();
+
+  try {
+    const requisition = await prisma.$transaction(async (tx) => {
+      // Claim the requisition first so a second approver cannot issue it again
+      const claimed = await tx.materialRequisition.updateMany({
+        where: { id: existing.id, status: MaterialRequisitionStatus.PENDING },
+        data: {
+          status,
+          decidedById: userId,
+          decidedAt: new Date(),
+          decisionNote: data.decisionNote || null,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new Error('This requisition has already been decided');
+      }
+
+      for (const line of existing.lines) {
+        const approvedQty = approvedQtys.get(line.id) ?? 0;
+        let movementId: string | null = null;
+
+        if (approvedQty > 0) {
+          const result = await adjustStock({
+            companyId,
+            stockItemId: line.stockItemId,
+            type: 'OUT',
+            qty: approvedQty,
+            projectId: existing.projectId,
+            warehouseId: data.warehouseId || null,
+            notes: `Issued against material requisition for ${existing.project.name}`,
+            userId,
+            movementDate: issueDate,
+            movementKind: StockMovementKind.ISSUE,
+            referenceType: MATERIAL_REQUISITION_REFERENCE,
+            referenceId: line.id,
+            postJournal: true,
+            request,
+            tx,
+          });
+          if (!result.success) {
+            throw new Error(`${line.stockItem.name}: ${result.error || 'Failed to issue stock'}`);
+          }
+          movementId = result.movementId ?? null;
+        }
+
+        await tx.materialRequisitionLine.update({
+          where: { id: line.id },
+          data: { approvedQty: new Prisma.Decimal(approvedQty), movementId },
+        });
+      }
+
+      return tx.materialRequisition.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: requisitionInclude,
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'MaterialRequisition',
+      entityId: requisition.id,
+      action: 'APPROVE',
+      before: existing,
+      after: requisition,
+      request,
+    });
+
+    return { success: true, requisition };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve requisition',
+    };
+  }
+}
+
+/**
+ * Reject a pending requisition; nothing is issued
+ */
+export async function rejectMaterialRequisition(
+  companyId: string,
+  requisitionId: string,
+  userId: string,
+  data: MaterialRequisitionReject,
+  request?: NextRequest
+): Promise<MaterialRequisitionResult> {
+  const existing = await prisma.materialRequisition.findFirst({
+    where: { id: requisitionId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Requisition not found' };
+  }
+  if (existing.status !== MaterialRequisitionStatus.PENDING) {
+    return { success: false, error: 'Only pending requisitions can be rejected' };
+  }
+
+  const claimed = await prisma.materialRequisition.updateMany({
+    where: { id: existing.id, status: MaterialRequisitionStatus.PENDING },
+    data: {
+      status: MaterialRequisitionStatus.REJECTED,
+      decidedById: userId,
+      decidedAt: new Date(),
+      decisionNote: data.decisionNote,
+    },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'This requisition has already been decided' };
+  }
+
+  const requisition = await prisma.materialRequisition.findUniqueOrThrow({
+    where: { id: existing.id },
+    include: requisitionInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: requisition.id,
+    action: 'REJECT',
+    before: existing,
+    after: requisition,
+    request,
+  });
+
+  return { success: true, requisition };
+}
+
+/**
+ * Withdraw a pending requisition
+ * The requester can cancel their own; approvers can cancel any.
+ */
+export async function cancelMaterialRequisition(
+  companyId: string,
+  requisitionId: string,
+  userId: string,
+  options: { canCancelAny: boolean },
+  request?: NextRequest
+): Promise<MaterialRequisitionResult> {
+  const existing = await prisma.materialRequisition.findFirst({
+    where: { id: requisitionId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Requisition not found' };
+  }
+  if (!options.canCancelAny && existing.requestedById !== userId) {
+    return { success: false, error: 'Only the requester can cancel this requisition' };
+  }
+  if (existing.status !== MaterialRequisitionStatus.PENDING) {
+    return { success: false, error: 'Only pending requisitions can be cancelled' };
+  }
+
+  const claimed = await prisma.materialRequisition.updateMany({
+    where: { id: existing.id, status: MaterialRequisitionStatus.PENDING },
+    data: { status: MaterialRequisitionStatus.CANCELLED },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'This requisition has already been decided' };
+  }
+
+  const requisition = await prisma.materialRequisition.findUniqueOrThrow({
+    where: { id: existing.id },
+    include: requisitionInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: requisition.id,
+    action: 'STATUS_CHANGE',
+    before: existing,
+    after: requisition,
+    request,
+  });
+
+  return { success: true, requisition };
+}
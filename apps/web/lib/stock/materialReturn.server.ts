@@ -0,0 +1,610 @@
+/**
+ * Server-only functions for material returns
+ * DO NOT import in client components
+ *
+ * Vendor returns send purchased material back to the supplier. The stock leaves the project
+ * (RETURN_OUT) and a debit note JOURNAL lowers the vendor payable at the purchase price: Inventory
+ * is credited at the weighted-average cost, any gap to the purchase price goes to Inventory
+ * Variance. The debit note is allocated against the purchase's payable line, so the purchase's
+ * open item and due amount drop by the returned value.
+ *
+ * Site returns move unused material from a project back to the central store: a TRANSFER_OUT at
+ * the project and a RETURN_IN without a project, at the project's weighted-average cost, with the
+ * cost moved back to untagged Inventory. The location balances move only when the project keeps
+ * its stock in a site store of its own.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { SiteReturnCreate, VendorReturnCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { assertPeriodOpen } from '@/lib/periods/fiscalPeriod.server';
+import { createPostedVoucher, PostedVoucherLineInput } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { getProjectStockOverview } from './projectStock.server';
+import { getIssueUnitCost } from './stockAccounting.server';
+import { adjustStock } from './stockService.server';
+import { applyLocationBalance, getDefaultWarehouseId, resolveWarehouseId } from './warehouse.server';
+
+export const MATERIAL_RETURN_REFERENCE = 'MATERIAL_RETURN';
+
+export interface MaterialReturnResult {
+  success: boolean;
+  materialReturn?: any;
+  error?: string;
+}
+
+type SiteReturnLine = {
+  stockItemId: string;
+  purchaseLineId: string | null;
+  description: string;
+  unit: string;
+  qty: number;
+  unitCost: number;
+  amount: number;
+};
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Returns for a purchase or a project, newest first
+ */
+export async function listMaterialReturns(
+  companyId: string,
+  filters: { purchaseId?: string; projectId?: string } = {}
+) {
+  const returns = await prisma.materialReturn.findMany({
+    where: {
+      companyId,
+      ...(filters.purchaseId ? { purchaseId: filters.purchaseId } : {}),
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+    },
+    include: {
+      vendor: { select: { id: true, name: true } },
+      project: { select: { id: true, name: true } },
+      purchase: { select: { id: true, challanNo: true, date: true } },
+      voucher: { select: { id: true, voucherNo: true, status: true } },
+      createdBy: { select: { id: true, name: true } },
+      lines: {
+        include: { stockItem: { select: { id: true, name: true, unit: true } } },
+      },
+    },
+    orderBy: [{ returnDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return returns.map((materialReturn) => ({
+    ...materialReturn,
+    totalAmount: Number(materialReturn.totalAmount),
+    lines: materialReturn.lines.map((line) => ({
+      ...line,
+      qty: Number(line.qty),
+      unitCost: Number(line.unitCost),
+      amount: Number(line.amount),
+    })),
+  }));
+}
+
+/**
+ * Quantity already returned to the vendor per purchase line
+ */
+async function getReturnedQtyByPurchaseLine(purchaseId: string): Promise<Map<string, number>> {
+  const returned = await prisma.materialReturnLine.groupBy({
+    by: ['purchaseLineId'],
+    where: {
+      purchaseLineId: { not: null },
+      materialReturn: { purchaseId, type: 'VENDOR' },
+    },
+    _sum: { qty: true },
+  });
+  return new Map(returned.map((row) => [row.purchaseLineId!, Number(row._sum.qty ?? 0)]));
+}
+
+/**
+ * Return purchased material to the vendor and post the debit note
+ */
+export async function createVendorReturn(
+  companyId: string,
+  userId: string,
+  purchaseId: string,
+  data: VendorReturnCreate,
+  request?: NextRequest
+): Promise<MaterialReturnResult> {
+  const purchase = await prisma.purchase.findFirst({
+    where: { id: purchaseId, companyId },
+    include: {
+      lines: { include: { stockItem: { select: { id: true, name: true, unit: true } } } },
+      supplierVendor: { select: { id: true, name: true } },
+      voucher: { include: { lines: true } },
+    },
+  });
+  if (!purchase) {
+    return { success: false, error: 'Purchase not found' };
+  }
+  if (purchase.status !== 'POSTED' || !purchase.voucher || purchase.voucher.status !== 'POSTED') {
+    return { success: false, error: 'Only posted purchases can be returned' };
+  }
+
+  const returnedQty = await getReturnedQtyByPurchaseLine(purchase.id);
+  const discountFactor = 1 - (purchase.discountPercent ? Number(purchase.discountPercent) : 0) / 100;
+
+  const lines: Array<{
+    purchaseLineId: string;
+    stockItemId: string | null;
+    description: string;
+    qty: number;
+    unitCost: number;
+    amount: number;
+  }> = [];
+  for (const row of data.lines) {
+    const purchaseLine = purchase.lines.find((line) => line.id === row.purchaseLineId);
+    if (!purchaseLine) {
+      return { success: false, error: 'Purchase line not found' };
+    }
+    const description = purchaseLine.stockItem?.name ?? purchaseLine.materialName ?? purchaseLine.description ?? 'Material';
+    const purchasedQty = Number(purchaseLine.quantity ?? 0);
+    if (purchaseLine.lineType !== 'MATERIAL' || purchasedQty <= 0) {
+      return { success: false, error: `${description}: only material lines with a quantity can be returned` };
+    }
+    const available = purchasedQty - (returnedQty.get(purchaseLine.id) ?? 0);
+    if (row.qty > available + 0.0005) {
+      return {
+        success: false,
+        error: `${description}: only ${available.toFixed(3)} left to return`,
+      };
+    }
+
+    // Returned at the price actually paid, after the purchase discount
+    const unitCost = roundMoney((Number(purchaseLine.lineTotal) * discountFactor) / purchasedQty);
+    lines.push({
+      purchaseLineId: purchaseLine.id,
+      stockItemId: purchaseLine.stockItemId,
+      description,
+      qty: row.qty,
+      unitCost,
+      amount: roundMoney(row.qty * unitCost),
+    });
+  }
+
+  // Stock lines leave the project that received them
+  const stockQty = new Map<string, number>();
+  for (const line of lines) {
+    if (line.stockItemId) {
+      stockQty.set(line.stockItemId, (stockQty.get(line.stockItemId) ?? 0) + line.qty);
+    }
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+    SYSTEM_ACCOUNT_CODES.INVENTORY,
+    SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS,
+    SYSTEM_ACCOUNT_CODES.INVENTORY_VARIANCE,
+  ]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    return { success: false, error: accountIds.error };
+  }
+  const payableAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE];
+  const inventoryAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY];
+  const materialsAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS];
+  const varianceAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY_VARIANCE];
+
+  const payableLine = purchase.voucher.lines.find(
+    (line) => line.accountId === payableAccountId && line.vendorId === purchase.supplierVendorId && Number(line.credit) > 0
+  );
+
+  const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const returnDate = data.returnDate ?? new Date();
+
+  try {
+    const materialReturn = await prisma.$transaction(async (tx) => {
+      // Checked inside the transaction so a concurrent issue or transfer cannot take the same stock
+      if (stockQty.size > 0) {
+        const overview = await getProjectStockOverview(companyId, purchase.projectId, tx);
+        for (const [stockItemId, qty] of Array.from(stockQty.entries())) {
+          const item = overview.items.find((i) => i.stockItemId === stockItemId);
+          if (!item || item.remainingQty < qty) {
+            throw new Error(
+              `Insufficient stock of ${item?.stockItemName ?? 'item'} at the project. Available: ${(item?.remainingQty ?? 0).toFixed(3)}, Requested: ${qty}`
+            );
+          }
+        }
+      }
+
+      const created = await tx.materialReturn.create({
+        data: {
+          companyId,
+          type: 'VENDOR',
+          returnDate,
+          purchaseId: purchase.id,
+          vendorId: purchase.supplierVendorId,
+          projectId: purchase.projectId,
+          reason: data.reason,
+          totalAmount,
+          createdById: userId,
+          lines: {
+            create: lines.map((line) => ({
+              purchaseLineId: line.purchaseLineId,
+              stockItemId: line.stockItemId,
+              description: line.description,
+              qty: new Prisma.Decimal(line.qty),
+              unitCost: new Prisma.Decimal(line.unitCost),
+              amount: new Prisma.Decimal(line.amount),
+            })),
+          },
+        },
+      });
+
+      // Stock out at the item's issue cost; the difference to the price paid is a variance
+      const inventoryCost = new Map<string, number>();
+      for (const [stockItemId, qty] of Array.from(stockQty.entries())) {
+        const result = await adjustStock({
+          companyId,
+          stockItemId,
+          type: 'OUT',
+          qty,
+          referenceType: MATERIAL_RETURN_REFERENCE,
+          referenceId: created.id,
+          projectId: purchase.projectId,
+          vendorId: purchase.supplierVendorId,
+          notes: `Returned to ${purchase.supplierVendor.name}: ${data.reason}`,
+          userId,
+          movementDate: returnDate,
+          movementKind: StockMovementKind.RETURN_OUT,
+          tx,
+        });
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to return stock');
+        }
+
+        const movement = await tx.stockMovement.findUniqueOrThrow({ where: { id: result.movementId! } });
+        const unitCost = await getIssueUnitCost(tx, movement);
+        await tx.stockMovement.update({
+          where: { id: movement.id },
+          data: { unitCost: new Prisma.Decimal(unitCost.toFixed(2)) },
+        });
+        inventoryCost.set(stockItemId, unitCost);
+      }
+
+      const voucherLines: PostedVoucherLineInput[] = [
+        {
+          accountId: payableAccountId,
+          description: `Debit note - ${purchase.challanNo || 'purchase'} returned`,
+          debit: totalAmount,
+          credit: 0,
+          projectId: purchase.projectId,
+          vendorId: purchase.supplierVendorId,
+        },
+      ];
+      for (const line of lines) {
+        const description = `${line.description} - ${line.qty.toFixed(3)} returned`;
+        if (!line.stockItemId) {
+          voucherLines.push({
+            accountId: materialsAccountId,
+            description,
+            debit: 0,
+            credit: line.amount,
+            projectId: purchase.projectId,
+          });
+          continue;
+        }
+
+        const costValue = roundMoney(line.qty * (inventoryCost.get(line.stockItemId) ?? line.unitCost));
+        const variance = roundMoney(line.amount - costValue);
+        voucherLines.push({
+          accountId: inventoryAccountId,
+          description,
+          debit: 0,
+          credit: costValue,
+          projectId: purchase.projectId,
+        });
+        if (variance !== 0) {
+          voucherLines.push({
+            accountId: varianceAccountId,
+            description: `${line.description} - return price difference`,
+            debit: variance < 0 ? -variance : 0,
+            credit: variance > 0 ? variance : 0,
+            projectId: purchase.projectId,
+          });
+        }
+      }
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          projectId: purchase.projectId,
+          date: returnDate,
+          type: 'JOURNAL',
+          narration: `Debit note to ${purchase.supplierVendor.name}: ${data.reason}`,
+          lines: voucherLines,
+        },
+        request
+      );
+
+      // Net the debit note off the purchase's open payable
+      if (payableLine) {
+        const allocated = await tx.vendorAllocation.aggregate({
+          where: { sourceLineId: payableLine.id, paymentVoucher: { status: 'POSTED' } },
+          _sum: { amount: true },
+        });
+        const outstanding = roundMoney(Number(payableLine.credit) - Number(allocated._sum.amount ?? 0));
+        const allocation = Math.min(outstanding, totalAmount);
+        if (allocation > 0) {
+          await tx.vendorAllocation.create({
+            data: {
+              paymentVoucherId: voucher.id,
+              sourceLineId: payableLine.id,
+              amount: new Prisma.Decimal(allocation),
+            },
+          });
+        }
+      }
+
+      const dueAmount = Number(purchase.dueAmount);
+      await tx.purchase.update({
+        where: { id: purchase.id },
+        data: { dueAmount: new Prisma.Decimal(roundMoney(Math.max(0, dueAmount - totalAmount))) },
+      });
+
+      return tx.materialReturn.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+        include: { voucher: { select: { id: true, voucherNo: true } } },
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'MaterialReturn',
+      entityId: materialReturn.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        type: 'VENDOR',
+        purchaseId: purchase.id,
+        vendorId: purchase.supplierVendorId,
+        totalAmount,
+        voucherId: materialReturn.voucherId,
+        lines: lines.map((line) => ({ purchaseLineId: line.purchaseLineId, qty: line.qty, amount: line.amount })),
+      },
+      request,
+    });
+
+    return { success: true, materialReturn };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to return material',
+    };
+  }
+}
+
+/**
+ * Move unused material from a project site back to the central store
+ */
+export async function createSiteReturn(
+  companyId: string,
+  userId: string,
+  data: SiteReturnCreate,
+  request?: NextRequest
+): Promise<MaterialReturnResult> {
+  const project = await prisma.project.findFirst({
+    where: { id: data.projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+
+  let purchaseLineIds = new Set<string>();
+  if (data.purchaseId) {
+    const purchase = await prisma.purchase.findFirst({
+      where: { id: data.purchaseId, companyId, projectId: project.id },
+      select: { lines: { select: { id: true, stockItemId: true } } },
+    });
+    if (!purchase) {
+      return { success: false, error: 'Purchase not found for this project' };
+    }
+    purchaseLineIds = new Set(purchase.lines.map((line) => line.id));
+  }
+  for (const row of data.lines) {
+    if (row.purchaseLineId && !purchaseLineIds.has(row.purchaseLineId)) {
+      return { success: false, error: 'Purchase line does not belong to the selected purchase' };
+    }
+  }
+
+  const requested = new Map<string, number>();
+  for (const row of data.lines) {
+    requested.set(row.stockItemId, (requested.get(row.stockItemId) ?? 0) + row.qty);
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.INVENTORY]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    return { success: false, error: accountIds.error };
+  }
+  const inventoryAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY];
+
+  const returnDate = data.returnDate ?? new Date();
+  const notes = data.reason ? `Returned to store: ${data.reason}` : 'Returned to store';
+
+  try {
+    const { materialReturn, lines, totalAmount } = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(companyId, returnDate, { userId }, tx);
+
+      // Availability and cost are read inside the transaction so a concurrent issue or transfer
+      // cannot take the same stock
+      const overview = await getProjectStockOverview(companyId, project.id, tx);
+      const unitCosts = new Map<string, number>();
+      for (const [stockItemId, qty] of Array.from(requested.entries())) {
+        const item = overview.items.find((i) => i.stockItemId === stockItemId);
+        if (!item || item.remainingQty < qty) {
+          throw new Error(
+            `Insufficient stock of ${item?.stockItemName ?? 'item'} at ${project.name}. Available: ${(item?.remainingQty ?? 0).toFixed(3)}, Requested: ${qty}`
+          );
+        }
+        unitCosts.set(stockItemId, roundMoney(item.avgRate));
+      }
+
+      const lines: SiteReturnLine[] = data.lines.map((row) => {
+        const item = overview.items.find((i) => i.stockItemId === row.stockItemId)!;
+        const unitCost = unitCosts.get(row.stockItemId)!;
+        return {
+          stockItemId: row.stockItemId,
+          purchaseLineId: row.purchaseLineId || null,
+          description: item.stockItemName,
+          unit: item.stockItemUnit,
+          qty: row.qty,
+          unitCost,
+          amount: roundMoney(row.qty * unitCost),
+        };
+      });
+      const totalAmount = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+
+      const created = await tx.materialReturn.create({
+        data: {
+          companyId,
+          type: 'SITE',
+          returnDate,
+          purchaseId: data.purchaseId || null,
+          projectId: project.id,
+          reason: data.reason || null,
+          totalAmount,
+          createdById: userId,
+          lines: {
+            create: lines.map((line) => ({
+              purchaseLineId: line.purchaseLineId,
+              stockItemId: line.stockItemId,
+              description: line.description,
+              qty: new Prisma.Decimal(line.qty),
+              unitCost: new Prisma.Decimal(line.unitCost),
+              amount: new Prisma.Decimal(line.amount),
+            })),
+          },
+        },
+      });
+
+      const siteWarehouseId = await resolveWarehouseId(tx, companyId, { projectId: project.id });
+      const storeWarehouseId = await getDefaultWarehouseId(tx, companyId);
+
+      for (const [stockItemId, qty] of Array.from(requested.entries())) {
+        const unitCost = new Prisma.Decimal(unitCosts.get(stockItemId)!);
+        const outgoing = await tx.stockMovement.create({
+          data: {
+            companyId,
+            stockItemId,
+            movementDate: returnDate,
+            type: 'OUT',
+            movementKind: StockMovementKind.TRANSFER_OUT,
+            qty: new Prisma.Decimal(qty),
+            unitCost,
+            referenceType: MATERIAL_RETURN_REFERENCE,
+            referenceId: created.id,
+            notes,
+            projectId: project.id,
+            sourceProjectId: project.id,
+            warehouseId: siteWarehouseId,
+            createdById: userId,
+          },
+        });
+        const incoming = await tx.stockMovement.create({
+          data: {
+            companyId,
+            stockItemId,
+            movementDate: returnDate,
+            type: 'IN',
+            movementKind: StockMovementKind.RETURN_IN,
+            qty: new Prisma.Decimal(qty),
+            unitCost,
+            referenceType: MATERIAL_RETURN_REFERENCE,
+            referenceId: created.id,
+            notes,
+            sourceProjectId: project.id,
+            warehouseId: storeWarehouseId,
+            createdById: userId,
+          },
+        });
+
+        if (siteWarehouseId && siteWarehouseId !== storeWarehouseId) {
+          await applyLocationBalance(tx, {
+            companyId,
+            stockItemId,
+            warehouseId: siteWarehouseId,
+            type: 'OUT',
+            qty: new Prisma.Decimal(qty),
+            movementId: outgoing.id,
+          });
+          await applyLocationBalance(tx, {
+            companyId,
+            stockItemId,
+            warehouseId: storeWarehouseId,
+            type: 'IN',
+            qty: new Prisma.Decimal(qty),
+            unitCost,
+            date: returnDate,
+            movementId: incoming.id,
+            fromMovementId: outgoing.id,
+          });
+        }
+      }
+
+      if (totalAmount === 0) {
+        return { materialReturn: created, lines, totalAmount };
+      }
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date: returnDate,
+          type: 'JOURNAL',
+          narration: `Material returned from ${project.name} to store`,
+          lines: lines.flatMap((line) => {
+            const description = `${line.description} - ${line.qty.toFixed(3)} ${line.unit} @ ${line.unitCost.toFixed(2)}`;
+            return [
+              { accountId: inventoryAccountId, description, debit: line.amount, credit: 0 },
+              { accountId: inventoryAccountId, description, debit: 0, credit: line.amount, projectId: project.id },
+            ];
+          }),
+        },
+        request
+      );
+
+      const materialReturn = await tx.materialReturn.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+      });
+      return { materialReturn, lines, totalAmount };
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'MaterialReturn',
+      entityId: materialReturn.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        type: 'SITE',
+        projectId: project.id,
+        purchaseId: data.purchaseId || null,
+        totalAmount,
+        voucherId: materialReturn.voucherId,
+        lines: lines.map((line) => ({ stockItemId: line.stockItemId, qty: line.qty, unitCost: line.unitCost })),
+      },
+      request,
+    });
+
+    return { success: true, materialReturn };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to return material',
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { prisma } from '@accounting/db';
 import { Prisma, StockMovementKind, StockMovementType } from '@prisma/client';
 
+type Db = Prisma.TransactionClient | typeof prisma;
+
 export interface ProjectStockSummary {
   totalQtyOnHand: number;
   totalStockValue: number;
@@ -92,7 +94,8 @@ export function classifyMovement(movement: {
   }
   if (
     movement.movementKind === StockMovementKind.ISSUE ||
-    movement.movementKind === StockMovementKind.TRANSFER_OUT
+    movement.movementKind === StockMovementKind.TRANSFER_OUT ||
+    movement.movementKind === StockMovementKind.RETURN_OUT
   ) {
     return 'OUT';
   }
@@ -209,7 +212,7 @@ export function computeWeightedAverageForProjectMovements(
       }
       item.onHandQty = newQty;
     } else if (category === 'OUT') {
-      // OUT movements: ISSUE, TRANSFER_OUT, or negative ADJUSTMENT
+      // OUT movements: ISSUE, TRANSFER_OUT, RETURN_OUT, or negative ADJUSTMENT
       const outQty = Math.abs(qty); // Ensure positive
       const outValue = outQty * item.avgCost; // Use current avgCost
 
@@ -243,7 +246,8 @@ export function computeWeightedAverageForProjectMovements(
       }
     } else if (category === 'ADJUST') {
       // ADJUSTMENT: can be positive (IN) or negative (OUT)
-      if (qty > 0) {
+      // qty is stored positive, so the direction comes from the movement type
+      if (movement.type !== 'OUT') {
         // Positive adjustment (stock increase)
         const inQty = qty;
         const inCost = unitCost ?? item.avgCost ?? 0;
@@ -286,10 +290,11 @@ export function computeWeightedAverageForProjectMovements(
  */
 export async function getProjectStockOverview(
   companyId: string,
-  projectId: string
+  projectId: string,
+  db: Db = prisma
 ): Promise<ProjectStockOverview> {
   // Verify project belongs to company
-  const project = await prisma.project.findFirst({
+  const project = await db.project.findFirst({
     where: {
       id: projectId,
       companyId,
@@ -304,7 +309,7 @@ export async function getProjectStockOverview(
   }
 
   // Fetch all stock movements for this project, ordered chronologically
-  const movements = await prisma.stockMovement.findMany({
+  const movements = await db.stockMovement.findMany({
     where: {
       companyId,
       OR: [
@@ -329,7 +334,7 @@ export async function getProjectStockOverview(
   });
 
   // Fetch low stock settings for this project
-  const stockSettings = await prisma.projectStockSetting.findMany({
+  const stockSettings = await db.projectStockSetting.findMany({
     where: {
       companyId,
       projectId,
@@ -1,5 +1,5 @@
 /**
- * Unit tests for weighted average stock valuation
+ * Unit tests for weighted average and FIFO stock valuation
  * 
  * Run with: npx tsx apps/web/lib/stock/projectStock.test.ts
  * Or integrate with your test framework
@@ -7,6 +7,7 @@
 
 import { StockMovementKind, StockMovementType } from '@prisma/client';
 import { Prisma } from '@prisma/client';
+import { computeFifoForMovements, consumeFifoLayers } from './fifoCosting';
 
 // Import the function we want to test (we'll need to export it)
 // For now, we'll copy the logic here for testing
@@ -60,7 +61,8 @@ function classifyMovement(movement: {
   }
   if (
     movement.movementKind === StockMovementKind.ISSUE ||
-    movement.movementKind === StockMovementKind.TRANSFER_OUT
+    movement.movementKind === StockMovementKind.TRANSFER_OUT ||
+    movement.movementKind === StockMovementKind.RETURN_OUT
   ) {
     return 'OUT';
   }
@@ -183,7 +185,7 @@ function computeWeightedAverageForProjectMovements(
         item.avgCost = 0;
       }
     } else if (category === 'ADJUST') {
-      if (qty > 0) {
+      if (movement.type !== 'OUT') {
         const inQty = qty;
         const inCost = unitCost ?? item.avgCost ?? 0;
 
@@ -245,7 +247,7 @@ function createMovement(
 }
 
 function runTests() {
-  console.log('Running weighted average tests...\n');
+  console.log('Running stock valuation tests...\n');
 
   // Test 1: Opening + Receive + Issue + Wastage
   console.log('Test 1: Opening 10 @ 100, Receive 10 @ 200, Issue 5, Wastage 5');
@@ -325,8 +327,90 @@ function runTests() {
 
   console.log(`  Test 3: ${test3Pass ? 'PASS' : 'FAIL'}\n`);
 
+  // Test 4: Negative adjustment (stored as a positive qty with type OUT) reduces stock
+  console.log('Test 4: Opening 10 @ 100, Adjustment -4 (type OUT)');
+  const movements4 = [
+    createMovement('1', 10, 100, StockMovementKind.OPENING, 'IN', new Date('2024-01-01')),
+    createMovement('2', 4, null, StockMovementKind.ADJUSTMENT, 'OUT', new Date('2024-01-02')),
+  ];
+
+  const result4 = computeWeightedAverageForProjectMovements(movements4);
+  const item4 = result4.get('item1')!;
+
+  console.log(`  Remaining qty: ${item4.onHandQty}`);
+  console.log(`  Adjusted out value: ${item4.issuedValue}`);
+
+  const test4Pass = item4.onHandQty === 6 && item4.avgCost === 100 && item4.issuedValue === 4 * 100;
+
+  console.log(`  Test 4: ${test4Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 5: FIFO issues consume the oldest lot first
+  console.log('Test 5: FIFO - Receive 10 @ 100, Receive 10 @ 200, Issue 15');
+  const movements5 = [
+    createMovement('1', 10, 100, StockMovementKind.RECEIVE, 'IN', new Date('2024-01-01')),
+    createMovement('2', 10, 200, StockMovementKind.RECEIVE, 'IN', new Date('2024-01-02')),
+    createMovement('3', 15, null, StockMovementKind.ISSUE, 'OUT', new Date('2024-01-03')),
+  ];
+
+  const item5 = computeFifoForMovements(movements5).get('item1')!;
+  const average5 = computeWeightedAverageForProjectMovements(movements5).get('item1')!;
+
+  console.log(`  FIFO issued value: ${item5.issuedValue} (WA: ${average5.issuedValue})`);
+  console.log(`  FIFO remaining: ${item5.onHandQty}, value ${item5.value}, layers ${item5.layers.length}`);
+
+  // Expected: 10 @ 100 + 5 @ 200 = 2000 issued; 5 @ 200 = 1000 left in one layer. WA issues 15 @ 150 = 2250
+  const test5Pass =
+    Math.abs(item5.issuedValue - 2000) < 0.01 &&
+    item5.onHandQty === 5 &&
+    Math.abs(item5.value - 1000) < 0.01 &&
+    item5.layers.length === 1 &&
+    item5.layers[0].unitCost === 200 &&
+    Math.abs(average5.issuedValue - 2250) < 0.01;
+
+  console.log(`  Test 5: ${test5Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 6: FIFO receipt without unitCost comes in at the average of the layers on hand
+  console.log('Test 6: FIFO - Receive 10 @ 100, Receive 10 @ 200, Receive 5 (no unitCost), Issue 20');
+  const movements6 = [
+    createMovement('1', 10, 100, StockMovementKind.RECEIVE, 'IN', new Date('2024-01-01')),
+    createMovement('2', 10, 200, StockMovementKind.RECEIVE, 'IN', new Date('2024-01-02')),
+    createMovement('3', 5, null, StockMovementKind.RECEIVE, 'IN', new Date('2024-01-03')),
+    createMovement('4', 20, null, StockMovementKind.ISSUE, 'OUT', new Date('2024-01-04')),
+  ];
+
+  const item6 = computeFifoForMovements(movements6).get('item1')!;
+
+  console.log(`  Issued value: ${item6.issuedValue}`);
+  console.log(`  Remaining: ${item6.onHandQty}, value ${item6.value}`);
+
+  // Expected: issue takes both priced lots (1000 + 2000); the unpriced lot of 5 stays at 150
+  const test6Pass =
+    Math.abs(item6.issuedValue - 3000) < 0.01 && item6.onHandQty === 5 && Math.abs(item6.value - 750) < 0.01;
+
+  console.log(`  Test 6: ${test6Pass ? 'PASS' : 'FAIL'}\n`);
+
+  // Test 7: consuming more than the layers hold reports the shortfall and leaves the input untouched
+  console.log('Test 7: FIFO - Layers 5 @ 10 and 3 @ 20, consume 10');
+  const layers7 = [
+    { receivedDate: new Date('2024-01-01'), qty: 5, unitCost: 10 },
+    { receivedDate: new Date('2024-01-02'), qty: 3, unitCost: 20 },
+  ];
+  const result7 = consumeFifoLayers(layers7, 10);
+
+  console.log(`  Consumed: ${result7.consumed.map((c) => `${c.qty} @ ${c.unitCost}`).join(', ')}`);
+  console.log(`  Value: ${result7.value}, Shortfall: ${result7.shortfallQty}, Layers left: ${result7.layers.length}`);
+
+  const test7Pass =
+    result7.consumed.length === 2 &&
+    Math.abs(result7.value - 110) < 0.01 &&
+    result7.shortfallQty === 2 &&
+    result7.layers.length === 0 &&
+    layers7[0].qty === 5;
+
+  console.log(`  Test 7: ${test7Pass ? 'PASS' : 'FAIL'}\n`);
+
   // Summary
-  const allPass = test1Pass && test2Pass && test3Pass;
+  const allPass = test1Pass && test2Pass && test3Pass && test4Pass && test5Pass && test6Pass && test7Pass;
   console.log(`\n${allPass ? 'All tests PASSED' : 'Some tests FAILED'}`);
 }
 
@@ -0,0 +1,364 @@
+/**
+ * Server-only functions for low-stock reorder suggestions
+ * DO NOT import in client components
+ *
+ * Two thresholds are checked: StockItem.reorderLevel against the company's stock across all
+ * locations, and ProjectStockSetting.minQty against what a project has left. An item is low when
+ * its stock is at or below the threshold. The suggested quantity tops it back up to the threshold
+ * plus the usage expected over the cover period, where usage is the average daily issues and
+ * wastage over the lookback window, less anything already on order in purchases not yet posted.
+ *
+ * Drafting creates one DRAFT purchase per last supplier and project, priced at the last purchase
+ * rate. Company-level suggestions are ordered for the project of the item's last purchase, since
+ * every purchase belongs to a project. Items never bought before have no supplier and are skipped.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, PurchaseStatus, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ReorderPurchaseCreate, ReorderSuggestionFilters } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { getProjectStockOverview } from './projectStock.server';
+
+const CONSUMPTION_KINDS: StockMovementKind[] = [StockMovementKind.ISSUE, StockMovementKind.WASTAGE];
+const ON_ORDER_STATUSES: PurchaseStatus[] = [PurchaseStatus.DRAFT, PurchaseStatus.SUBMITTED, PurchaseStatus.APPROVED];
+
+export interface ReorderSupplier {
+  vendorId: string;
+  vendorName: string;
+  unitRate: number;
+  purchaseDate: Date;
+  projectId: string;
+  projectName: string;
+}
+
+export interface ReorderSuggestion {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  scope: 'COMPANY' | 'PROJECT';
+  projectId: string | null;
+  projectName: string | null;
+  threshold: number;
+  onHandQty: number;
+  onOrderQty: number;
+  consumedQty: number;
+  dailyUsage: number;
+  suggestedQty: number;
+  lastSupplier: ReorderSupplier | null;
+}
+
+export interface ReorderPurchasesResult {
+  success: boolean;
+  purchases?: any[];
+  skipped?: Array<{ stockItemId: string; stockItemName: string; reason: string }>;
+  error?: string;
+}
+
+function roundQty(qty: number): number {
+  return Math.round(qty * 1000) / 1000;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The most recent purchase line for each item, skipping reversed purchases
+ */
+async function getLastSuppliers(companyId: string, stockItemIds: string[]): Promise<Map<string, ReorderSupplier>> {
+  if (stockItemIds.length === 0) {
+    return new Map();
+  }
+
+  const lines = await prisma.purchaseLine.findMany({
+    where: {
+      stockItemId: { in: stockItemIds },
+      purchase: { companyId, status: { not: PurchaseStatus.REVERSED } },
+    },
+    include: {
+      purchase: {
+        select: {
+          date: true,
+          projectId: true,
+          project: { select: { name: true } },
+          supplierVendor: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: [{ purchase: { date: 'desc' } }, { createdAt: 'desc' }],
+    distinct: ['stockItemId'],
+  });
+
+  return new Map(
+    lines.map((line) => [
+      line.stockItemId!,
+      {
+        vendorId: line.purchase.supplierVendor.id,
+        vendorName: line.purchase.supplierVendor.name,
+        unitRate: Number(line.unitRate ?? 0),
+        purchaseDate: line.purchase.date,
+        projectId: line.purchase.projectId,
+        projectName: line.purchase.project.name,
+      },
+    ])
+  );
+}
+
+/**
+ * Items at or below their reorder level (company) or minimum quantity (project)
+ * With a projectId only that project's minimum quantities are checked.
+ */
+export async function getReorderSuggestions(
+  companyId: string,
+  filters: ReorderSuggestionFilters
+): Promise<ReorderSuggestion[]> {
+  const { projectId, lookbackDays, coverDays } = filters;
+  const since = new Date();
+  since.setDate(since.getDate() - lookbackDays);
+
+  const [items, settings] = await Promise.all([
+    projectId
+      ? Promise.resolve([])
+      : prisma.stockItem.findMany({
+          where: { companyId, isActive: true, reorderLevel: { not: null } },
+          include: { balances: { select: { onHandQty: true } } },
+        }),
+    prisma.projectStockSetting.findMany({
+      where: { companyId, ...(projectId ? { projectId } : {}), stockItem: { isActive: true } },
+      include: {
+        project: { select: { id: true, name: true } },
+        stockItem: { select: { id: true, name: true, unit: true } },
+      },
+    }),
+  ]);
+
+  const stockItemIds = Array.from(
+    new Set([...items.map((item) => item.id), ...settings.map((setting) => setting.stockItemId)])
+  );
+  if (stockItemIds.length === 0) {
+    return [];
+  }
+
+  const [consumption, onOrderLines, lastSuppliers] = await Promise.all([
+    prisma.stockMovement.findMany({
+      where: {
+        companyId,
+        stockItemId: { in: stockItemIds },
+        type: 'OUT',
+        movementKind: { in: CONSUMPTION_KINDS },
+        movementDate: { gte: since },
+      },
+      select: { stockItemId: true, projectId: true, qty: true },
+    }),
+    prisma.purchaseLine.findMany({
+      where: {
+        stockItemId: { in: stockItemIds },
+        purchase: { companyId, status: { in: ON_ORDER_STATUSES } },
+      },
+      select: { stockItemId: true, quantity: true, purchase: { select: { projectId: true } } },
+    }),
+    getLastSuppliers(companyId, stockItemIds),
+  ]);
+
+  const sumBy = <T>(rows: T[], key: (row: T) => string, qty: (row: T) => number) => {
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      totals.set(key(row), (totals.get(key(row)) ?? 0) + qty(row));
+    }
+    return totals;
+  };
+  const consumedByItem = sumBy(consumption, (m) => m.stockItemId, (m) => Number(m.qty));
+  const consumedByProject = sumBy(consumption, (m) => `${m.projectId}:${m.stockItemId}`, (m) => Number(m.qty));
+  const onOrderByItem = sumBy(onOrderLines, (l) => l.stockItemId!, (l) => Number(l.quantity ?? 0));
+  const onOrderByProject = sumBy(
+    onOrderLines,
+    (l) => `${l.purchase.projectId}:${l.stockItemId}`,
+    (l) => Number(l.quantity ?? 0)
+  );
+
+  const suggest = (threshold: number, onHandQty: number, onOrderQty: number, consumedQty: number) => {
+    const dailyUsage = consumedQty / lookbackDays;
+    const shortfall = threshold + dailyUsage * coverDays - onHandQty - onOrderQty;
+    return { dailyUsage: roundQty(dailyUsage), suggestedQty: shortfall > 0 ? Math.ceil(roundQty(shortfall)) : 0 };
+  };
+
+  const suggestions: ReorderSuggestion[] = [];
+
+  for (const item of items) {
+    const threshold = Number(item.reorderLevel);
+    const onHandQty = roundQty(item.balances.reduce((sum, balance) => sum + Number(balance.onHandQty), 0));
+    if (onHandQty > threshold) continue;
+
+    const onOrderQty = roundQty(onOrderByItem.get(item.id) ?? 0);
+    const consumedQty = roundQty(consumedByItem.get(item.id) ?? 0);
+    suggestions.push({
+      stockItemId: item.id,
+      stockItemName: item.name,
+      stockItemUnit: item.unit,
+      scope: 'COMPANY',
+      projectId: null,
+      projectName: null,
+      threshold,
+      onHandQty,
+      onOrderQty,
+      consumedQty,
+      ...suggest(threshold, onHandQty, onOrderQty, consumedQty),
+      lastSupplier: lastSuppliers.get(item.id) ?? null,
+    });
+  }
+
+  const projectIds = Array.from(new Set(settings.map((setting) => setting.projectId)));
+  const overviews = new Map(
+    await Promise.all(
+      projectIds.map(async (id) => [id, await getProjectStockOverview(companyId, id)] as const)
+    )
+  );
+
+  for (const setting of settings) {
+    const threshold = Number(setting.minQty);
+    const overviewItem = overviews.get(setting.projectId)?.items.find((i) => i.stockItemId === setting.stockItemId);
+    const onHandQty = roundQty(overviewItem?.remainingQty ?? 0);
+    if (onHandQty > threshold) continue;
+
+    const key = `${setting.projectId}:${setting.stockItemId}`;
+    const onOrderQty = roundQty(onOrderByProject.get(key) ?? 0);
+    const consumedQty = roundQty(consumedByProject.get(key) ?? 0);
+    suggestions.push({
+      stockItemId: setting.stockItem.id,
+      stockItemName: setting.stockItem.name,
+      stockItemUnit: setting.stockItem.unit,
+      scope: 'PROJECT',
+      projectId: setting.project.id,
+      projectName: setting.project.name,
+      threshold,
+      onHandQty,
+      onOrderQty,
+      consumedQty,
+      ...suggest(threshold, onHandQty, onOrderQty, consumedQty),
+      lastSupplier: lastSuppliers.get(setting.stockItemId) ?? null,
+    });
+  }
+
+  return suggestions.sort(
+    (a, b) =>
+      (a.projectName ?? '').localeCompare(b.projectName ?? '') || a.stockItemName.localeCompare(b.stockItemName)
+  );
+}
+
+/**
+ * Create DRAFT purchases for the selected suggestions, one per last supplier and project
+ */
+export async function createReorderPurchases(
+  companyId: string,
+  userId: string,
+  data: ReorderPurchaseCreate,
+  request?: NextRequest
+): Promise<ReorderPurchasesResult> {
+  const stockItemIds = Array.from(new Set(data.lines.map((line) => line.stockItemId)));
+  const items = await prisma.stockItem.findMany({
+    where: { id: { in: stockItemIds }, companyId, isActive: true },
+    select: { id: true, name: true, unit: true },
+  });
+  if (items.length !== stockItemIds.length) {
+    return { success: false, error: 'One or more stock items not found, inactive, or do not belong to your company' };
+  }
+
+  const projectIds = Array.from(
+    new Set(data.lines.map((line) => line.projectId).filter((id): id is string => Boolean(id)))
+  );
+  const projectCount = await prisma.project.count({ where: { id: { in: projectIds }, companyId } });
+  if (projectCount !== projectIds.length) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+
+  const itemMap = new Map(items.map((item) => [item.id, item]));
+  const lastSuppliers = await getLastSuppliers(companyId, stockItemIds);
+
+  const skipped: NonNullable<ReorderPurchasesResult['skipped']> = [];
+  const groups = new Map<
+    string,
+    { vendorId: string; projectId: string; lines: Array<{ item: { id: string; name: string; unit: string }; qty: number; unitRate: number }> }
+  >();
+
+  for (const line of data.lines) {
+    const item = itemMap.get(line.stockItemId)!;
+    const supplier = lastSuppliers.get(line.stockItemId);
+    if (!supplier) {
+      skipped.push({ stockItemId: item.id, stockItemName: item.name, reason: 'No previous purchase to take a supplier from' });
+      continue;
+    }
+
+    const projectId = line.projectId || supplier.projectId;
+    const key = `${supplier.vendorId}:${projectId}`;
+    if (!groups.has(key)) {
+      groups.set(key, { vendorId: supplier.vendorId, projectId, lines: [] });
+    }
+    groups.get(key)!.lines.push({ item, qty: line.qty, unitRate: supplier.unitRate });
+  }
+
+  if (groups.size === 0) {
+    return { success: false, error: 'None of the selected items has a previous supplier', skipped };
+  }
+
+  const date = data.date ?? new Date();
+
+  const purchases = await prisma.$transaction(async (tx) => {
+    const created = [];
+    for (const group of Array.from(groups.values())) {
+      const lines = group.lines.map((line) => ({
+        ...line,
+        lineTotal: roundMoney(line.qty * line.unitRate),
+      }));
+      const subtotal = new Prisma.Decimal(roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0)));
+
+      created.push(
+        await tx.purchase.create({
+          data: {
+            companyId,
+            date,
+            projectId: group.projectId,
+            supplierVendorId: group.vendorId,
+            reference: 'Reorder (low stock)',
+            subtotal,
+            total: subtotal,
+            paidAmount: new Prisma.Decimal(0),
+            dueAmount: subtotal,
+            status: 'DRAFT',
+            lines: {
+              create: lines.map((line) => ({
+                lineType: 'MATERIAL',
+                stockItem: { connect: { id: line.item.id } },
+                quantity: new Prisma.Decimal(line.qty),
+                unit: line.item.unit,
+                unitRate: new Prisma.Decimal(line.unitRate),
+                materialName: line.item.name,
+                lineTotal: new Prisma.Decimal(line.lineTotal),
+              })),
+            },
+          },
+          include: {
+            project: { select: { id: true, name: true } },
+            supplierVendor: { select: { id: true, name: true } },
+            lines: { include: { stockItem: { select: { id: true, name: true, unit: true } } } },
+          },
+        })
+      );
+    }
+    return created;
+  });
+
+  for (const purchase of purchases) {
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Purchase',
+      entityId: purchase.id,
+      action: 'CREATE',
+      after: purchase,
+      request,
+    });
+  }
+
+  return { success: true, purchases, skipped };
+}
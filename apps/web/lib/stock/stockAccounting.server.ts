@@ -0,0 +1,358 @@
+/**
+ * Server-only functions for perpetual inventory accounting
+ * DO NOT import in client components
+ *
+ * Stock items are bought into Inventory (1040). Each issue, wastage or adjustment posts a
+ * JOURNAL at the item's issue cost - the weighted average, or the cost of the lots consumed for
+ * FIFO items - so the Inventory balance follows the stock on hand across all locations:
+ * - ISSUE: Dr Direct Materials (tagged with the project) / Cr Inventory
+ * - WASTAGE: Dr Material Wastage / Cr Inventory
+ * - ADJUSTMENT: Dr/Cr Inventory Variance against Inventory, by direction
+ * Reversing a movement books the opposite movement and reverses its journal.
+ * Opening stock posts nothing here; its value is part of the Inventory opening balance.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockCostingMethod, StockMovementKind, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { createPostedVoucher, reverseVoucherInTx } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { computeWeightedAverageForProjectMovements } from './projectStock.server';
+import { adjustStock } from './stockService.server';
+import { getConsumedLotUnitCost, getCostingMethod } from './stockLots.server';
+
+const COSTED_MOVEMENT_KINDS: StockMovementKind[] = [
+  StockMovementKind.ISSUE,
+  StockMovementKind.WASTAGE,
+  StockMovementKind.ADJUSTMENT,
+];
+
+export interface StockMovementReversalResult {
+  success: boolean;
+  movementId?: string;
+  reversalVoucherId?: string;
+  error?: string;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Weighted-average unit cost of an item just before a movement
+ * Uses the project's own movements when the movement belongs to a project; falls back to the
+ * average at the movement's location (or across all locations) when the project has no costed
+ * receipts of the item.
+ */
+export async function getMovementUnitCost(
+  tx: Prisma.TransactionClient,
+  movement: {
+    id: string;
+    companyId: string;
+    stockItemId: string;
+    projectId: string | null;
+    warehouseId?: string | null;
+    movementDate: Date;
+    createdAt: Date;
+  }
+): Promise<number> {
+  if (movement.projectId) {
+    const projectMovements = await tx.stockMovement.findMany({
+      where: {
+        companyId: movement.companyId,
+        stockItemId: movement.stockItemId,
+        id: { not: movement.id },
+        OR: [{ projectId: movement.projectId }, { destinationProjectId: movement.projectId }],
+      },
+      select: {
+        id: true,
+        stockItemId: true,
+        movementDate: true,
+        createdAt: true,
+        type: true,
+        movementKind: true,
+        qty: true,
+        unitCost: true,
+        stockItem: { select: { id: true, name: true, unit: true } },
+      },
+    });
+
+    const earlier = projectMovements.filter((m) => {
+      const dateDiff = m.movementDate.getTime() - movement.movementDate.getTime();
+      if (dateDiff !== 0) return dateDiff < 0;
+      const createdDiff = m.createdAt.getTime() - movement.createdAt.getTime();
+      if (createdDiff !== 0) return createdDiff < 0;
+      return m.id.localeCompare(movement.id) < 0;
+    });
+
+    const state = computeWeightedAverageForProjectMovements(earlier).get(movement.stockItemId);
+    if (state && state.avgCost > 0) {
+      return state.avgCost;
+    }
+  }
+
+  const balances = await tx.stockBalance.findMany({
+    where: {
+      companyId: movement.companyId,
+      stockItemId: movement.stockItemId,
+      ...(movement.warehouseId ? { warehouseId: movement.warehouseId } : {}),
+    },
+  });
+  const totalQty = balances.reduce((sum, balance) => sum + Number(balance.onHandQty), 0);
+  if (totalQty > 0) {
+    const totalValue = balances.reduce((sum, balance) => sum + Number(balance.onHandQty) * Number(balance.avgCost), 0);
+    return totalValue / totalQty;
+  }
+  return balances.length > 0 ? Number(balances[0].avgCost) : 0;
+}
+
+/**
+ * Unit cost a stock decrease is charged at under the item's costing method
+ * FIFO items take the cost of the lots the movement consumed; the part no lot covered (stock held
+ * before lots were kept), and weighted-average items, take the weighted-average cost.
+ */
+export async function getIssueUnitCost(
+  tx: Prisma.TransactionClient,
+  movement: Parameters<typeof getMovementUnitCost>[1] & { qty: Prisma.Decimal }
+): Promise<number> {
+  const averageCost = await getMovementUnitCost(tx, movement);
+  const method = await getCostingMethod(tx, movement.companyId, movement.stockItemId);
+  if (method !== StockCostingMethod.FIFO) {
+    return averageCost;
+  }
+
+  const lots = await getConsumedLotUnitCost(tx, movement.id);
+  if (!lots) {
+    return averageCost;
+  }
+  const qty = Number(movement.qty);
+  const uncoveredQty = Math.max(0, qty - lots.qty);
+  return (lots.qty * lots.unitCost + uncoveredQty * averageCost) / qty;
+}
+
+/**
+ * Post the costed journal for an issue, wastage or adjustment movement
+ * Runs inside the caller's transaction; throws when the journal cannot be posted.
+ * Returns null for movements that carry no value (other kinds, or zero cost).
+ */
+export async function postStockMovementJournal(
+  tx: Prisma.TransactionClient,
+  movementId: string,
+  userId: string,
+  request?: NextRequest
+) {
+  const movement = await tx.stockMovement.findUnique({
+    where: { id: movementId },
+    include: {
+      stockItem: { select: { id: true, name: true, unit: true } },
+      project: { select: { id: true, name: true } },
+    },
+  });
+  if (!movement) {
+    throw new Error('Stock movement not found');
+  }
+  if (movement.voucherId) {
+    return null;
+  }
+  if (!movement.movementKind || !COSTED_MOVEMENT_KINDS.includes(movement.movementKind)) {
+    return null;
+  }
+
+  const isIncrease = movement.type !== 'OUT';
+  if (movement.movementKind !== StockMovementKind.ADJUSTMENT && isIncrease) {
+    throw new Error(`${movement.movementKind} movements must reduce stock`);
+  }
+
+  // Increases keep the cost they were entered at; decreases leave at the item's issue cost
+  const unitCost =
+    isIncrease && movement.unitCost !== null
+      ? Number(movement.unitCost)
+      : await getIssueUnitCost(tx, movement);
+  const qty = Number(movement.qty);
+  const value = roundMoney(qty * unitCost);
+
+  if (!isIncrease && movement.unitCost === null) {
+    await tx.stockMovement.update({
+      where: { id: movement.id },
+      data: { unitCost: new Prisma.Decimal(unitCost.toFixed(2)) },
+    });
+  }
+
+  if (value === 0) {
+    return null;
+  }
+
+  const accountIds = await getSystemAccountIds(movement.companyId, [
+    SYSTEM_ACCOUNT_CODES.INVENTORY,
+    SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS,
+    SYSTEM_ACCOUNT_CODES.MATERIAL_WASTAGE,
+    SYSTEM_ACCOUNT_CODES.INVENTORY_VARIANCE,
+  ]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    throw new Error(accountIds.error || 'Inventory accounts not found');
+  }
+  const inventoryAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY];
+
+  const itemLabel = `${movement.stockItem.name} - ${qty.toFixed(3)} ${movement.stockItem.unit} @ ${unitCost.toFixed(2)}`;
+  let counterAccountId: string;
+  let narration: string;
+  if (movement.movementKind === StockMovementKind.ISSUE) {
+    counterAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS];
+    narration = movement.project ? `Material issued to ${movement.project.name}` : 'Material issued';
+  } else if (movement.movementKind === StockMovementKind.WASTAGE) {
+    counterAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.MATERIAL_WASTAGE];
+    narration = 'Material wastage';
+  } else {
+    counterAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY_VARIANCE];
+    narration = isIncrease ? 'Stock adjustment (increase)' : 'Stock adjustment (decrease)';
+  }
+  if (movement.reason || movement.notes) {
+    narration = `${narration}: ${movement.reason || movement.notes}`;
+  }
+
+  const voucher = await createPostedVoucher(
+    tx,
+    {
+      companyId: movement.companyId,
+      userId,
+      projectId: movement.projectId,
+      date: movement.movementDate,
+      type: 'JOURNAL',
+      narration,
+      lines: [
+        {
+          accountId: counterAccountId,
+          description: itemLabel,
+          debit: isIncrease ? 0 : value,
+          credit: isIncrease ? value : 0,
+          projectId: movement.projectId,
+        },
+        {
+          accountId: inventoryAccountId,
+          description: itemLabel,
+          debit: isIncrease ? value : 0,
+          credit: isIncrease ? 0 : value,
+          projectId: movement.projectId,
+        },
+      ],
+    },
+    request
+  );
+
+  await tx.stockMovement.update({
+    where: { id: movement.id },
+    data: { voucherId: voucher.id },
+  });
+
+  return voucher;
+}
+
+/**
+ * Reverse a costed stock movement
+ * Books the opposite movement at the original cost and reverses the original journal, so
+ * both the quantity and the Inventory balance return to where they were.
+ */
+export async function reverseStockMovement(
+  movementId: string,
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  options?: { date?: Date; description?: string },
+  request?: NextRequest
+): Promise<StockMovementReversalResult> {
+  const movement = await prisma.stockMovement.findFirst({
+    where: { id: movementId, companyId },
+    include: {
+      voucher: { select: { id: true, voucherNo: true, status: true } },
+    },
+  });
+  if (!movement) {
+    return { success: false, error: 'Stock movement not found' };
+  }
+  if (!movement.movementKind || !COSTED_MOVEMENT_KINDS.includes(movement.movementKind)) {
+    return { success: false, error: 'Only issues, wastage and adjustments can be reversed here' };
+  }
+  if (movement.referenceType === 'STOCK_MOVEMENT_REVERSAL') {
+    return { success: false, error: 'A reversal cannot be reversed' };
+  }
+
+  const existingReversal = await prisma.stockMovement.findFirst({
+    where: { companyId, referenceType: 'STOCK_MOVEMENT_REVERSAL', referenceId: movement.id },
+  });
+  if (existingReversal) {
+    return { success: false, error: 'Stock movement has already been reversed' };
+  }
+
+  const reverseType = movement.type === 'OUT' ? 'IN' : 'OUT';
+  if (reverseType === 'OUT') {
+    const balance = movement.warehouseId
+      ? await prisma.stockBalance.findUnique({
+          where: {
+            companyId_stockItemId_warehouseId: {
+              companyId,
+              stockItemId: movement.stockItemId,
+              warehouseId: movement.warehouseId,
+            },
+          },
+        })
+      : null;
+    if (!balance || balance.onHandQty.lt(movement.qty)) {
+      return {
+        success: false,
+        error: `Insufficient stock to reverse. Available: ${balance?.onHandQty.toString() ?? '0'}, Required: ${movement.qty.toString()}`,
+      };
+    }
+  }
+
+  // Journal reversal and the opposite movement commit together, so stock and the GL stay in step
+  try {
+    return await prisma.$transaction(async (tx) => {
+      let reversalVoucherId: string | undefined;
+      if (movement.voucher && movement.voucher.status === 'POSTED') {
+        const reversal = await reverseVoucherInTx(
+          tx,
+          movement.voucher.id,
+          userId,
+          companyId,
+          role,
+          {
+            date: options?.date,
+            description: options?.description || `Reversal of stock movement (${movement.voucher.voucherNo})`,
+          },
+          request
+        );
+        reversalVoucherId = reversal.id;
+      }
+
+      const result = await adjustStock({
+        companyId,
+        stockItemId: movement.stockItemId,
+        type: reverseType,
+        qty: movement.qty,
+        unitCost: movement.unitCost ?? undefined,
+        referenceType: 'STOCK_MOVEMENT_REVERSAL',
+        referenceId: movement.id,
+        projectId: movement.projectId,
+        vendorId: movement.vendorId,
+        warehouseId: movement.warehouseId,
+        notes: options?.description || `Reversal of ${movement.movementKind!.toLowerCase()}`,
+        userId,
+        movementDate: options?.date ?? new Date(),
+        movementKind:
+          movement.movementKind === StockMovementKind.ISSUE ? StockMovementKind.RETURN_IN : StockMovementKind.ADJUSTMENT,
+        tx,
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reverse stock movement');
+      }
+
+      return { success: true, movementId: result.movementId, reversalVoucherId };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reverse stock movement',
+    };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Server-only functions for stock lots (FIFO cost layers)
+ * DO NOT import in client components
+ *
+ * Every receipt at a location opens a lot and every issue from that location consumes the oldest
+ * lots first, whatever the item's costing method, so the layers stay complete if the method is
+ * changed later. The costing method only decides which cost an issue is charged at: the weighted
+ * average, or the cost of the lots it consumed (FIFO). Items follow the company's method unless
+ * they set their own.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockCostingMethod } from '@prisma/client';
+import { consumeFifoLayers } from './fifoCosting';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Costing method for an item: its own, else the company's
+ */
+export async function getCostingMethod(db: Db, companyId: string, stockItemId: string): Promise<StockCostingMethod> {
+  const item = await db.stockItem.findFirst({
+    where: { id: stockItemId, companyId },
+    select: { costingMethod: true, company: { select: { stockCostingMethod: true } } },
+  });
+  return item?.costingMethod ?? item?.company.stockCostingMethod ?? StockCostingMethod.WEIGHTED_AVERAGE;
+}
+
+/**
+ * Open a lot for stock received at a location
+ */
+export async function addStockLot(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    warehouseId: string;
+    movementId?: string | null;
+    lotNo?: string | null;
+    receivedDate: Date;
+    qty: Prisma.Decimal;
+    unitCost: Prisma.Decimal;
+  }
+) {
+  if (params.qty.lte(0)) {
+    return null;
+  }
+  return tx.stockLot.create({
+    data: {
+      companyId: params.companyId,
+      stockItemId: params.stockItemId,
+      warehouseId: params.warehouseId,
+      movementId: params.movementId ?? null,
+      lotNo: params.lotNo || null,
+      receivedDate: params.receivedDate,
+      qty: params.qty,
+      remainingQty: params.qty,
+      unitCost: params.unitCost.toDecimalPlaces(2),
+    },
+  });
+}
+
+/**
+ * Consume a location's oldest lots for stock leaving it
+ * Stock held before lots were kept has no lot; that part is not recorded and is costed by the
+ * caller. Returns the quantity and value the lots covered.
+ */
+export async function consumeStockLots(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    warehouseId: string;
+    movementId?: string | null;
+    qty: Prisma.Decimal;
+  }
+): Promise<{ qty: number; value: number }> {
+  const lots = await tx.stockLot.findMany({
+    where: {
+      companyId: params.companyId,
+      stockItemId: params.stockItemId,
+      warehouseId: params.warehouseId,
+      remainingQty: { gt: 0 },
+    },
+    orderBy: [{ receivedDate: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const result = consumeFifoLayers(
+    lots.map((lot) => ({
+      receivedDate: lot.receivedDate,
+      qty: Number(lot.remainingQty),
+      unitCost: Number(lot.unitCost),
+    })),
+    Number(params.qty)
+  );
+
+  let consumedQty = 0;
+  for (const consumption of result.consumed) {
+    const lot = lots[consumption.layerIndex];
+    const qty = new Prisma.Decimal(consumption.qty);
+    await tx.stockLot.update({
+      where: { id: lot.id },
+      data: { remainingQty: Prisma.Decimal.max(lot.remainingQty.minus(qty), 0) },
+    });
+    await tx.stockLotConsumption.create({
+      data: {
+        lotId: lot.id,
+        movementId: params.movementId ?? null,
+        qty,
+        unitCost: lot.unitCost,
+      },
+    });
+    consumedQty += consumption.qty;
+  }
+
+  return { qty: consumedQty, value: result.value };
+}
+
+/**
+ * Reopen at another location the lots a movement consumed, each at its own cost and received date
+ * Used when stock moves between locations so its FIFO layers travel with it. Returns the quantity
+ * the consumed lots covered; the rest came from stock held before lots were kept.
+ */
+export async function carryConsumedLots(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    warehouseId: string;
+    fromMovementId: string;
+    qty: Prisma.Decimal;
+  }
+): Promise<Prisma.Decimal> {
+  const consumptions = await tx.stockLotConsumption.findMany({
+    where: { movementId: params.fromMovementId, lot: { stockItemId: params.stockItemId } },
+    include: { lot: { select: { lotNo: true, receivedDate: true } } },
+    orderBy: [{ lot: { receivedDate: 'asc' } }, { createdAt: 'asc' }],
+  });
+
+  let carried = new Prisma.Decimal(0);
+  for (const consumption of consumptions) {
+    const qty = Prisma.Decimal.min(consumption.qty, params.qty.minus(carried));
+    if (qty.lte(0)) {
+      break;
+    }
+    await addStockLot(tx, {
+      companyId: params.companyId,
+      stockItemId: params.stockItemId,
+      warehouseId: params.warehouseId,
+      lotNo: consumption.lot.lotNo,
+      receivedDate: consumption.lot.receivedDate,
+      qty,
+      unitCost: consumption.unitCost,
+    });
+    carried = carried.plus(qty);
+  }
+  return carried;
+}
+
+/**
+ * Unit cost of the lots a movement consumed, or null when it consumed none
+ */
+export async function getConsumedLotUnitCost(
+  tx: Prisma.TransactionClient,
+  movementId: string
+): Promise<{ qty: number; unitCost: number } | null> {
+  const consumptions = await tx.stockLotConsumption.findMany({
+    where: { movementId },
+    select: { qty: true, unitCost: true },
+  });
+  const qty = consumptions.reduce((sum, consumption) => sum + Number(consumption.qty), 0);
+  if (qty <= 0) {
+    return null;
+  }
+  const value = consumptions.reduce((sum, consumption) => sum + Number(consumption.qty) * Number(consumption.unitCost), 0);
+  return { qty, unitCost: value / qty };
+}
@@ -4,7 +4,12 @@
  */
 
 import { prisma } from '@accounting/db';
-import { Prisma, StockMovementType } from '@prisma/client';
+import { Prisma, StockMovementKind, StockMovementType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { checkPeriodOpen } from '@/lib/periods/fiscalPeriod.server';
+import { postStockMovementJournal } from './stockAccounting.server';
+import { addStockLot, consumeStockLots } from './stockLots.server';
+import { resolveWarehouseId } from './warehouse.server';
 
 export interface AdjustStockParams {
   companyId: string;
@@ -16,14 +21,26 @@ export interface AdjustStockParams {
   referenceId?: string;
   projectId?: string | null;
   vendorId?: string | null;
+  // Stock location; defaults to the project's site store, else the central store
+  warehouseId?: string | null;
+  // Supplier batch or lot number recorded on the FIFO lot a receipt opens
+  lotNo?: string | null;
   notes?: string | null;
   userId: string;
   movementDate?: Date;
+  movementKind?: StockMovementKind | null;
+  // Post the costed inventory journal in the same transaction (issues, wastage, adjustments)
+  postJournal?: boolean;
+  request?: NextRequest;
+  // Run inside the caller's transaction instead of opening one
+  tx?: Prisma.TransactionClient;
 }
 
 export interface AdjustStockResult {
   success: boolean;
   movementId?: string;
+  voucherId?: string;
+  warehouseId?: string;
   balance?: {
     onHandQty: Prisma.Decimal;
     avgCost: Prisma.Decimal;
@@ -33,7 +50,7 @@ export interface AdjustStockResult {
 
 /**
  * Adjust stock with transaction safety and idempotency
- * Creates StockMovement and updates StockBalance atomically
+ * Creates StockMovement and updates the location's StockBalance atomically
  */
 export async function adjustStock(
   params: AdjustStockParams
@@ -48,9 +65,15 @@ export async function adjustStock(
     referenceId,
     projectId,
     vendorId,
+    warehouseId: requestedWarehouseId,
+    lotNo,
     notes,
     userId,
     movementDate = new Date(),
+    movementKind,
+    postJournal = false,
+    request,
+    tx: outerTx,
   } = params;
 
   // Convert qty to Decimal
@@ -59,7 +82,22 @@ export async function adjustStock(
     return { success: false, error: 'Quantity must be positive' };
   }
 
-  return await prisma.$transaction(async (tx) => {
+  const run = async (tx: Prisma.TransactionClient): Promise<AdjustStockResult> => {
+    const warehouseId = await resolveWarehouseId(tx, companyId, {
+      warehouseId: requestedWarehouseId,
+      projectId,
+    });
+    if (!warehouseId) {
+      return { success: false, error: 'Stock location not found or inactive' };
+    }
+    const balanceKey = {
+      companyId_stockItemId_warehouseId: {
+        companyId,
+        stockItemId,
+        warehouseId,
+      },
+    };
+
     // Check idempotency: if referenceType+referenceId+stockItemId+type exists, return existing
     if (referenceType && referenceId) {
       const existing = await tx.stockMovement.findFirst({
@@ -73,12 +111,13 @@ export async function adjustStock(
       });
 
       if (existing) {
-        // Return existing movement and current balance
+        // Return existing movement and current balance at its location
         const balance = await tx.stockBalance.findUnique({
           where: {
-            companyId_stockItemId: {
+            companyId_stockItemId_warehouseId: {
               companyId,
               stockItemId,
+              warehouseId: existing.warehouseId ?? warehouseId,
             },
           },
         });
@@ -86,6 +125,7 @@ export async function adjustStock(
         return {
           success: true,
           movementId: existing.id,
+          warehouseId: existing.warehouseId ?? warehouseId,
           balance: balance
             ? {
                 onHandQty: balance.onHandQty,
@@ -96,14 +136,15 @@ export async function adjustStock(
       }
     }
 
-    // Get or create stock balance
+    // Refuse new movements dated in a closed period
+    const periodCheck = await checkPeriodOpen(companyId, movementDate, { userId }, tx);
+    if (!periodCheck.success) {
+      return { success: false, error: periodCheck.error };
+    }
+
+    // Get or create the balance at this location
     let balance = await tx.stockBalance.findUnique({
-      where: {
-        companyId_stockItemId: {
-          companyId,
-          stockItemId,
-        },
-      },
+      where: balanceKey,
     });
 
     if (!balance) {
@@ -111,6 +152,7 @@ export async function adjustStock(
         data: {
           companyId,
           stockItemId,
+          warehouseId,
           onHandQty: new Prisma.Decimal(0),
           avgCost: new Prisma.Decimal(0),
         },
@@ -182,12 +224,14 @@ export async function adjustStock(
         stockItemId,
         movementDate,
         type,
+        movementKind: movementKind ?? null,
         qty: qtyDecimal,
         unitCost: unitCost !== undefined ? new Prisma.Decimal(unitCost) : null,
         referenceType: referenceType || null,
         referenceId: referenceId || null,
         notes: notes || null,
         projectId: projectId || null,
+        warehouseId,
         vendorId: vendorId || null,
         createdById: userId,
       },
@@ -195,15 +239,11 @@ export async function adjustStock(
 
     // Update balance
     const updatedBalance = await tx.stockBalance.upsert({
-      where: {
-        companyId_stockItemId: {
-          companyId,
-          stockItemId,
-        },
-      },
+      where: balanceKey,
       create: {
         companyId,
         stockItemId,
+        warehouseId,
         onHandQty: newOnHandQty,
         avgCost: newAvgCost,
       },
@@ -213,13 +253,43 @@ export async function adjustStock(
       },
     });
 
+    // Open or consume FIFO lots for the quantity change
+    const qtyChange = newOnHandQty.minus(balance.onHandQty);
+    if (qtyChange.gt(0)) {
+      await addStockLot(tx, {
+        companyId,
+        stockItemId,
+        warehouseId,
+        movementId: movement.id,
+        lotNo,
+        receivedDate: movementDate,
+        qty: qtyChange,
+        unitCost: unitCost !== undefined ? new Prisma.Decimal(unitCost) : balance.avgCost,
+      });
+    } else if (qtyChange.lt(0)) {
+      await consumeStockLots(tx, {
+        companyId,
+        stockItemId,
+        warehouseId,
+        movementId: movement.id,
+        qty: qtyChange.neg(),
+      });
+    }
+
+    // Costed after the balance update so location fallbacks see the current average
+    const voucher = postJournal ? await postStockMovementJournal(tx, movement.id, userId, request) : null;
+
     return {
       success: true,
       movementId: movement.id,
+      voucherId: voucher?.id,
+      warehouseId,
       balance: {
         onHandQty: updatedBalance.onHandQty,
         avgCost: updatedBalance.avgCost,
       },
     };
-  });
+  };
+
+  return outerTx ? await run(outerTx) : await prisma.$transaction(run);
 }
@@ -0,0 +1,414 @@
+/**
+ * Server-only functions for inter-project stock transfers
+ * DO NOT import in client components
+ *
+ * A transfer books a TRANSFER_OUT at the source and a TRANSFER_IN at the destination at the
+ * source's weighted-average cost, both referencing the StockTransfer. Transfers marked in transit
+ * only book the TRANSFER_IN once the destination confirms receipt. When the two projects keep
+ * their stock in different locations, the source location's balance drops on dispatch and the
+ * destination's rises on receipt; otherwise the balances are unchanged. The cost moves with the
+ * stock in one JOURNAL that credits the source project's Inventory and debits the destination's.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { StockTransferCreate, StockTransferListFilters } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { assertPeriodOpen } from '@/lib/periods/fiscalPeriod.server';
+import { createPostedVoucher } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { getProjectStockOverview } from './projectStock.server';
+import { applyLocationBalance, resolveWarehouseId } from './warehouse.server';
+
+export const STOCK_TRANSFER_REFERENCE = 'STOCK_TRANSFER';
+
+export interface StockTransferResult {
+  success: boolean;
+  transfer?: any;
+  error?: string;
+}
+
+type TransferLine = {
+  stockItemId: string;
+  name: string;
+  unit: string;
+  qty: number;
+  unitCost: number;
+  value: number;
+};
+
+const transferInclude = {
+  sourceProject: { select: { id: true, name: true } },
+  destinationProject: { select: { id: true, name: true } },
+  voucher: { select: { id: true, voucherNo: true } },
+  createdBy: { select: { id: true, name: true } },
+  receivedBy: { select: { id: true, name: true } },
+} satisfies Prisma.StockTransferInclude;
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Transfers for the company, optionally those touching one project (as source or destination)
+ * Each transfer carries its items from the outgoing movements.
+ */
+export async function listStockTransfers(companyId: string, filters: StockTransferListFilters = {}) {
+  const where: Prisma.StockTransferWhereInput = { companyId };
+  if (filters.projectId) {
+    where.OR = [{ sourceProjectId: filters.projectId }, { destinationProjectId: filters.projectId }];
+  }
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  const transfers = await prisma.stockTransfer.findMany({
+    where,
+    include: transferInclude,
+    orderBy: [{ transferDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const movements = await prisma.stockMovement.findMany({
+    where: {
+      companyId,
+      referenceType: STOCK_TRANSFER_REFERENCE,
+      referenceId: { in: transfers.map((transfer) => transfer.id) },
+      movementKind: StockMovementKind.TRANSFER_OUT,
+    },
+    include: { stockItem: { select: { id: true, name: true, unit: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return transfers.map((transfer) => {
+    const items = movements
+      .filter((movement) => movement.referenceId === transfer.id)
+      .map((movement) => {
+        const qty = Number(movement.qty);
+        const unitCost = Number(movement.unitCost ?? 0);
+        return {
+          stockItemId: movement.stockItemId,
+          stockItemName: movement.stockItem.name,
+          stockItemUnit: movement.stockItem.unit,
+          qty,
+          unitCost,
+          value: roundMoney(qty * unitCost),
+        };
+      });
+
+    return {
+      ...transfer,
+      items,
+      totalValue: roundMoney(items.reduce((sum, item) => sum + item.value, 0)),
+    };
+  });
+}
+
+/**
+ * Book the TRANSFER_IN movements for a transfer at the cost its TRANSFER_OUT movements left at
+ */
+async function createTransferInMovements(
+  tx: Prisma.TransactionClient,
+  transfer: { id: string; companyId: string; sourceProjectId: string; destinationProjectId: string },
+  receivedDate: Date,
+  userId: string
+) {
+  const outgoing = await tx.stockMovement.findMany({
+    where: {
+      companyId: transfer.companyId,
+      referenceType: STOCK_TRANSFER_REFERENCE,
+      referenceId: transfer.id,
+      movementKind: StockMovementKind.TRANSFER_OUT,
+    },
+  });
+
+  const warehouseId = await resolveWarehouseId(tx, transfer.companyId, {
+    projectId: transfer.destinationProjectId,
+  });
+
+  for (const movement of outgoing) {
+    const incoming = await tx.stockMovement.create({
+      data: {
+        companyId: transfer.companyId,
+        stockItemId: movement.stockItemId,
+        movementDate: receivedDate,
+        type: 'IN',
+        movementKind: StockMovementKind.TRANSFER_IN,
+        qty: movement.qty,
+        unitCost: movement.unitCost,
+        referenceType: STOCK_TRANSFER_REFERENCE,
+        referenceId: transfer.id,
+        notes: movement.notes,
+        projectId: transfer.destinationProjectId,
+        sourceProjectId: transfer.sourceProjectId,
+        destinationProjectId: transfer.destinationProjectId,
+        warehouseId,
+        createdById: userId,
+      },
+    });
+
+    if (warehouseId && movement.warehouseId !== warehouseId) {
+      await applyLocationBalance(tx, {
+        companyId: transfer.companyId,
+        stockItemId: movement.stockItemId,
+        warehouseId,
+        type: 'IN',
+        qty: movement.qty,
+        unitCost: movement.unitCost,
+        date: receivedDate,
+        movementId: incoming.id,
+        fromMovementId: movement.id,
+      });
+    }
+  }
+}
+
+/**
+ * Move stock from one project site to another
+ * Availability and cost are read from the source's weighted-average position inside the one transaction
+ * that writes everything, including the cost transfer journal.
+ */
+export async function createStockTransfer(
+  companyId: string,
+  userId: string,
+  data: StockTransferCreate,
+  request?: NextRequest
+): Promise<StockTransferResult> {
+  const projects = await prisma.project.findMany({
+    where: { companyId, id: { in: [data.sourceProjectId, data.destinationProjectId] } },
+    select: { id: true, name: true },
+  });
+  const source = projects.find((project) => project.id === data.sourceProjectId);
+  const destination = projects.find((project) => project.id === data.destinationProjectId);
+  if (!source || !destination) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+
+  // Same item on several rows is one transfer of the combined quantity
+  const requested = new Map<string, number>();
+  for (const item of data.items) {
+    requested.set(item.stockItemId, (requested.get(item.stockItemId) ?? 0) + item.qty);
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.INVENTORY]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    return { success: false, error: accountIds.error };
+  }
+  const inventoryAccountId = accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY];
+
+  const transferDate = data.transferDate ?? new Date();
+
+  try {
+    const { transfer, lines } = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(companyId, transferDate, { userId }, tx);
+
+      // Checked inside the transaction: a site store shared by both projects has no location
+      // balance to refuse the move, so the project position is the only guard
+      const overview = await getProjectStockOverview(companyId, source.id, tx);
+      const lines: TransferLine[] = [];
+      for (const [stockItemId, qty] of Array.from(requested.entries())) {
+        const item = overview.items.find((i) => i.stockItemId === stockItemId);
+        if (!item || item.remainingQty < qty) {
+          const name = item?.stockItemName ?? 'Stock item';
+          throw new Error(
+            `Insufficient stock of ${name} at ${source.name}. Available: ${(item?.remainingQty ?? 0).toFixed(3)}, Requested: ${qty}`
+          );
+        }
+        const unitCost = Math.round(item.avgRate * 100) / 100;
+        lines.push({
+          stockItemId,
+          name: item.stockItemName,
+          unit: item.stockItemUnit,
+          qty,
+          unitCost,
+          value: roundMoney(qty * unitCost),
+        });
+      }
+
+      const created = await tx.stockTransfer.create({
+        data: {
+          companyId,
+          sourceProjectId: source.id,
+          destinationProjectId: destination.id,
+          status: data.inTransit ? 'IN_TRANSIT' : 'RECEIVED',
+          transferDate,
+          receivedAt: data.inTransit ? null : transferDate,
+          receivedById: data.inTransit ? null : userId,
+          notes: data.notes || null,
+          createdById: userId,
+        },
+      });
+
+      const sourceWarehouseId = await resolveWarehouseId(tx, companyId, { projectId: source.id });
+      const destinationWarehouseId = await resolveWarehouseId(tx, companyId, { projectId: destination.id });
+
+      for (const line of lines) {
+        const outgoing = await tx.stockMovement.create({
+          data: {
+            companyId,
+            stockItemId: line.stockItemId,
+            movementDate: transferDate,
+            type: 'OUT',
+            movementKind: StockMovementKind.TRANSFER_OUT,
+            qty: new Prisma.Decimal(line.qty),
+            unitCost: new Prisma.Decimal(line.unitCost),
+            referenceType: STOCK_TRANSFER_REFERENCE,
+            referenceId: created.id,
+            notes: `Transfer to ${destination.name}`,
+            projectId: source.id,
+            sourceProjectId: source.id,
+            warehouseId: sourceWarehouseId,
+            createdById: userId,
+          },
+        });
+
+        if (sourceWarehouseId && sourceWarehouseId !== destinationWarehouseId) {
+          await applyLocationBalance(tx, {
+            companyId,
+            stockItemId: line.stockItemId,
+            warehouseId: sourceWarehouseId,
+            type: 'OUT',
+            qty: new Prisma.Decimal(line.qty),
+            movementId: outgoing.id,
+          });
+        }
+      }
+
+      if (!data.inTransit) {
+        await createTransferInMovements(tx, created, transferDate, userId);
+      }
+
+      const totalValue = roundMoney(lines.reduce((sum, line) => sum + line.value, 0));
+      if (totalValue === 0) {
+        return { transfer: created, lines };
+      }
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date: transferDate,
+          type: 'JOURNAL',
+          narration: `Stock transfer from ${source.name} to ${destination.name}`,
+          lines: lines.flatMap((line) => {
+            const description = `${line.name} - ${line.qty.toFixed(3)} ${line.unit} @ ${line.unitCost.toFixed(2)}`;
+            return [
+              {
+                accountId: inventoryAccountId,
+                description,
+                debit: line.value,
+                credit: 0,
+                projectId: destination.id,
+              },
+              {
+                accountId: inventoryAccountId,
+                description,
+                debit: 0,
+                credit: line.value,
+                projectId: source.id,
+              },
+            ];
+          }),
+        },
+        request
+      );
+
+      const transfer = await tx.stockTransfer.update({
+        where: { id: created.id },
+        data: { voucherId: voucher.id },
+      });
+      return { transfer, lines };
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'StockTransfer',
+      entityId: transfer.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        sourceProjectId: source.id,
+        destinationProjectId: destination.id,
+        status: transfer.status,
+        transferDate,
+        voucherId: transfer.voucherId,
+        items: lines.map((line) => ({ stockItemId: line.stockItemId, qty: line.qty, unitCost: line.unitCost })),
+      },
+      request,
+    });
+
+    return { success: true, transfer };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to transfer stock',
+    };
+  }
+}
+
+/**
+ * Confirm an in-transit transfer has arrived at the destination
+ */
+export async function receiveStockTransfer(
+  companyId: string,
+  transferId: string,
+  userId: string,
+  receivedDate: Date = new Date(),
+  request?: NextRequest
+): Promise<StockTransferResult> {
+  const existing = await prisma.stockTransfer.findFirst({
+    where: { id: transferId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Stock transfer not found' };
+  }
+  if (existing.status !== 'IN_TRANSIT') {
+    return { success: false, error: 'Stock transfer has already been received' };
+  }
+  if (receivedDate < existing.transferDate) {
+    return { success: false, error: 'Received date cannot be before the transfer date' };
+  }
+
+  try {
+    const transfer = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(companyId, receivedDate, { userId }, tx);
+
+      // Guard against two receipts racing each other
+      const claimed = await tx.stockTransfer.updateMany({
+        where: { id: existing.id, status: 'IN_TRANSIT' },
+        data: { status: 'RECEIVED', receivedAt: receivedDate, receivedById: userId },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Stock transfer has already been received');
+      }
+
+      await createTransferInMovements(tx, existing, receivedDate, userId);
+
+      return tx.stockTransfer.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: transferInclude,
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'StockTransfer',
+      entityId: transfer.id,
+      action: 'STATUS_CHANGE',
+      before: { status: existing.status },
+      after: { status: transfer.status, receivedAt: transfer.receivedAt },
+      request,
+    });
+
+    return { success: true, transfer };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to receive stock transfer',
+    };
+  }
+}
@@ -0,0 +1,734 @@
+/**
+ * Server-only functions for stock valuation
+ * DO NOT import in client components
+ *
+ * Values are rebuilt from the movements up to the requested date, so a report for a past date
+ * is not affected by anything booked after it. Each item is valued under its own costing method,
+ * which is also the cost its issues were posted at, so the total is comparable with the
+ * Inventory (1040) balance in the general ledger.
+ */
+
+import { prisma } from '@accounting/db';
+import { StockCostingMethod, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { createAuditLog } from '@/lib/audit';
+import { getTrialBalance } from '@/lib/reports/statements';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+import { createPostedVoucher } from '@/lib/vouchers/workflow';
+import { computeFifoForMovements } from './fifoCosting';
+import { computeWeightedAverageForProjectMovements } from './projectStock.server';
+import { GOODS_RECEIPT_REFERENCE } from '@/lib/purchases/purchaseOrder.server';
+import { MATERIAL_RETURN_REFERENCE } from './materialReturn.server';
+import { STOCK_TRANSFER_REFERENCE } from './stockTransfer.server';
+
+export interface StockCostingComparisonItem {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  costingMethod: StockCostingMethod;
+  qty: number;
+  weightedAverageUnitCost: number;
+  weightedAverageValue: number;
+  fifoUnitCost: number;
+  fifoValue: number;
+  difference: number;
+}
+
+export interface StockCostingComparison {
+  asOf: Date;
+  companyMethod: StockCostingMethod;
+  items: StockCostingComparisonItem[];
+  totals: {
+    weightedAverageValue: number;
+    fifoValue: number;
+    difference: number;
+    /** Value under each item's own method */
+    bookValue: number;
+  };
+}
+
+export interface StockValuationRow {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  costingMethod: StockCostingMethod;
+  qty: number;
+  unitCost: number;
+  value: number;
+}
+
+export interface StockValuationGroup {
+  id: string | null;
+  name: string;
+  value: number;
+  items: StockValuationRow[];
+}
+
+export interface UnpostedStockMovement {
+  movementId: string;
+  movementDate: Date;
+  stockItemName: string;
+  movementKind: StockMovementKind | null;
+  referenceType: string | null;
+  qty: number;
+  /** Signed: receipts add to stock value, issues take from it */
+  value: number;
+  reason: string;
+}
+
+export interface InventoryReconciliation {
+  accountCode: string;
+  glBalance: number;
+  stockValue: number;
+  difference: number;
+  unpostedMovements: UnpostedStockMovement[];
+  unpostedValue: number;
+  unexplainedDifference: number;
+}
+
+export interface StockValuation {
+  asOf: Date;
+  items: StockValuationRow[];
+  byProject: StockValuationGroup[];
+  byLocation: StockValuationGroup[];
+  totalValue: number;
+  /** Only for the whole company: a filtered valuation has no ledger balance to compare with */
+  reconciliation: InventoryReconciliation | null;
+}
+
+export const STOCK_AGING_BUCKETS = [
+  { label: '0-30 days', maxDays: 30 },
+  { label: '31-60 days', maxDays: 60 },
+  { label: '61-90 days', maxDays: 90 },
+  { label: '91-180 days', maxDays: 180 },
+  { label: 'Over 180 days', maxDays: null },
+] as const;
+
+export interface StockAgingItem {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  qty: number;
+  value: number;
+  oldestReceiptDate: Date | null;
+  buckets: Array<{ qty: number; value: number }>;
+}
+
+export interface StockAgingSite {
+  projectId: string | null;
+  name: string;
+  items: StockAgingItem[];
+  buckets: Array<{ value: number }>;
+  value: number;
+}
+
+export interface StockAging {
+  asOf: Date;
+  bucketLabels: string[];
+  sites: StockAgingSite[];
+  buckets: Array<{ value: number }>;
+  totalValue: number;
+}
+
+// Movements whose value reaches the ledger through the purchase, return, transfer or reversal
+// they belong to rather than a journal of their own
+const LEDGER_LINKED_REFERENCES = [
+  'PURCHASE',
+  'PURCHASE_VOUCHER',
+  'PURCHASE_REVERSAL',
+  'STOCK_MOVEMENT_REVERSAL',
+  MATERIAL_RETURN_REFERENCE,
+  STOCK_TRANSFER_REFERENCE,
+];
+
+const COSTED_MOVEMENT_KINDS: StockMovementKind[] = [
+  StockMovementKind.ISSUE,
+  StockMovementKind.WASTAGE,
+  StockMovementKind.ADJUSTMENT,
+];
+
+const CENTRAL_SITE_NAME = 'Central store (no project)';
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Stock movements up to the end of a date, with the item fields the valuations need
+ */
+export async function getMovementsAsOf(
+  companyId: string,
+  asOf: Date,
+  options: { warehouseId?: string; projectId?: string } = {}
+) {
+  return prisma.stockMovement.findMany({
+    where: {
+      companyId,
+      movementDate: { lte: endOfDay(asOf) },
+      ...(options.warehouseId ? { warehouseId: options.warehouseId } : {}),
+      ...(options.projectId ? { projectId: options.projectId } : {}),
+    },
+    include: {
+      stockItem: { select: { id: true, name: true, unit: true, costingMethod: true } },
+    },
+    orderBy: [{ movementDate: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+  });
+}
+
+/**
+ * Value the stock on hand at a date under both weighted average and FIFO
+ */
+export async function getStockCostingComparison(
+  companyId: string,
+  options: { asOf?: Date; warehouseId?: string } = {}
+): Promise<StockCostingComparison> {
+  const asOf = options.asOf ?? new Date();
+  const company = await prisma.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { stockCostingMethod: true },
+  });
+
+  const movements = await getMovementsAsOf(companyId, asOf, { warehouseId: options.warehouseId });
+  const weightedAverage = computeWeightedAverageForProjectMovements(movements);
+  const fifo = computeFifoForMovements(movements);
+
+  const itemDetails = new Map(movements.map((movement) => [movement.stockItemId, movement.stockItem]));
+
+  const items: StockCostingComparisonItem[] = Array.from(itemDetails.values())
+    .map((stockItem) => {
+      const average = weightedAverage.get(stockItem.id);
+      const layers = fifo.get(stockItem.id);
+      const qty = average?.onHandQty ?? 0;
+      const weightedAverageValue = roundMoney(qty * (average?.avgCost ?? 0));
+      const fifoValue = roundMoney(layers?.value ?? 0);
+      const fifoQty = layers?.onHandQty ?? 0;
+
+      return {
+        stockItemId: stockItem.id,
+        stockItemName: stockItem.name,
+        stockItemUnit: stockItem.unit,
+        costingMethod: stockItem.costingMethod ?? company.stockCostingMethod,
+        qty,
+        weightedAverageUnitCost: average?.avgCost ?? 0,
+        weightedAverageValue,
+        fifoUnitCost: fifoQty > 0 ? fifoValue / fifoQty : 0,
+        fifoValue,
+        difference: roundMoney(fifoValue - weightedAverageValue),
+      };
+    })
+    .filter((item) => item.qty > 0 || item.fifoValue !== 0)
+    .sort((a, b) => a.stockItemName.localeCompare(b.stockItemName));
+
+  const weightedAverageValue = roundMoney(items.reduce((sum, item) => sum + item.weightedAverageValue, 0));
+  const fifoValue = roundMoney(items.reduce((sum, item) => sum + item.fifoValue, 0));
+
+  return {
+    asOf,
+    companyMethod: company.stockCostingMethod,
+    items,
+    totals: {
+      weightedAverageValue,
+      fifoValue,
+      difference: roundMoney(fifoValue - weightedAverageValue),
+      bookValue: roundMoney(
+        items.reduce(
+          (sum, item) =>
+            sum + (item.costingMethod === StockCostingMethod.FIFO ? item.fifoValue : item.weightedAverageValue),
+          0
+        )
+      ),
+    },
+  };
+}
+
+type ValuationMovement = Awaited<ReturnType<typeof getMovementsAsOf>>[number];
+
+/**
+ * Value what a set of movements leaves on hand, each item under its own costing method
+ */
+function valueMovements(movements: ValuationMovement[], companyMethod: StockCostingMethod): StockValuationRow[] {
+  const weightedAverage = computeWeightedAverageForProjectMovements(movements);
+  const fifo = computeFifoForMovements(movements);
+  const itemDetails = new Map(movements.map((movement) => [movement.stockItemId, movement.stockItem]));
+
+  return Array.from(itemDetails.values())
+    .map((stockItem) => {
+      const costingMethod = stockItem.costingMethod ?? companyMethod;
+      const average = weightedAverage.get(stockItem.id);
+      const layers = fifo.get(stockItem.id);
+      const qty = costingMethod === StockCostingMethod.FIFO ? layers?.onHandQty ?? 0 : average?.onHandQty ?? 0;
+      const value = roundMoney(
+        costingMethod === StockCostingMethod.FIFO ? layers?.value ?? 0 : qty * (average?.avgCost ?? 0)
+      );
+
+      return {
+        stockItemId: stockItem.id,
+        stockItemName: stockItem.name,
+        stockItemUnit: stockItem.unit,
+        costingMethod,
+        qty,
+        unitCost: qty > 0 ? value / qty : 0,
+        value,
+      };
+    })
+    .filter((row) => row.qty > 0 || row.value !== 0)
+    .sort((a, b) => a.stockItemName.localeCompare(b.stockItemName));
+}
+
+function groupMovements<K extends string | null>(
+  movements: ValuationMovement[],
+  key: (movement: ValuationMovement) => K
+): Map<K, ValuationMovement[]> {
+  const groups = new Map<K, ValuationMovement[]>();
+  for (const movement of movements) {
+    const groupKey = key(movement);
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, []);
+    }
+    groups.get(groupKey)!.push(movement);
+  }
+  return groups;
+}
+
+/**
+ * Goods receipt movements whose quantity is covered by a posted vendor bill by a date
+ * Bills are matched to an order line's receipts oldest first, so a partly billed line leaves its
+ * latest receipts unbilled.
+ */
+async function findBilledGoodsReceiptMovements(
+  companyId: string,
+  movements: ValuationMovement[],
+  asOf: Date
+): Promise<Set<string>> {
+  const movementIds = movements
+    .filter((movement) => movement.referenceType === GOODS_RECEIPT_REFERENCE)
+    .map((movement) => movement.id);
+  if (movementIds.length === 0) {
+    return new Set();
+  }
+
+  const receiptLines = await prisma.goodsReceiptLine.findMany({
+    where: { movementId: { in: movementIds }, goodsReceipt: { companyId } },
+    select: { purchaseOrderLineId: true },
+  });
+  const orderLines = await prisma.purchaseOrderLine.findMany({
+    where: { id: { in: Array.from(new Set(receiptLines.map((line) => line.purchaseOrderLineId))) } },
+    select: {
+      receiptLines: {
+        select: { qty: true, movementId: true, goodsReceipt: { select: { receiptDate: true, createdAt: true } } },
+      },
+      billLines: {
+        where: { purchase: { status: 'POSTED', date: { lte: endOfDay(asOf) } } },
+        select: { quantity: true },
+      },
+    },
+  });
+
+  const billed = new Set<string>();
+  for (const orderLine of orderLines) {
+    let billedQty = orderLine.billLines.reduce((sum, line) => sum + Number(line.quantity ?? 0), 0);
+    const receipts = [...orderLine.receiptLines].sort(
+      (a, b) =>
+        a.goodsReceipt.receiptDate.getTime() - b.goodsReceipt.receiptDate.getTime() ||
+        a.goodsReceipt.createdAt.getTime() - b.goodsReceipt.createdAt.getTime()
+    );
+    for (const receipt of receipts) {
+      const qty = Number(receipt.qty);
+      if (billedQty + 0.0005 < qty) break;
+      billedQty -= qty;
+      if (receipt.movementId) billed.add(receipt.movementId);
+    }
+  }
+  return billed;
+}
+
+/**
+ * Stock movements that changed the stock value without reaching the ledger
+ * Receipts entered directly rather than through a purchase, goods receipts not yet billed, and
+ * issues, wastage or adjustments whose journal was never posted.
+ */
+function findUnpostedMovements(
+  movements: ValuationMovement[],
+  billedGoodsReceipts: Set<string>
+): UnpostedStockMovement[] {
+  const unposted: UnpostedStockMovement[] = [];
+  for (const movement of movements) {
+    if (movement.voucherId || (movement.referenceType && LEDGER_LINKED_REFERENCES.includes(movement.referenceType))) {
+      continue;
+    }
+
+    let reason: string | null = null;
+    if (movement.referenceType === GOODS_RECEIPT_REFERENCE) {
+      if (billedGoodsReceipts.has(movement.id)) continue;
+      reason = 'Received on goods receipt, not yet billed';
+    } else if (movement.movementKind && COSTED_MOVEMENT_KINDS.includes(movement.movementKind)) {
+      reason = 'No inventory journal posted';
+    } else if (
+      movement.type === 'IN' &&
+      (movement.movementKind === null || movement.movementKind === StockMovementKind.RECEIVE)
+    ) {
+      reason = 'Received without a purchase';
+    }
+    if (!reason) continue;
+
+    const qty = Number(movement.qty);
+    const value = roundMoney(qty * Number(movement.unitCost ?? 0));
+    if (value === 0) continue;
+
+    unposted.push({
+      movementId: movement.id,
+      movementDate: movement.movementDate,
+      stockItemName: movement.stockItem.name,
+      movementKind: movement.movementKind,
+      referenceType: movement.referenceType,
+      qty,
+      value: movement.type === 'OUT' ? -value : value,
+      reason,
+    });
+  }
+  return unposted;
+}
+
+/**
+ * Stock on hand at a date: per item, per project and per location
+ * The whole-company valuation also carries its reconciliation to the Inventory ledger balance.
+ */
+export async function getStockValuation(
+  companyId: string,
+  options: { asOf?: Date; projectId?: string; warehouseId?: string } = {}
+): Promise<StockValuation> {
+  const asOf = options.asOf ?? new Date();
+  const company = await prisma.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { stockCostingMethod: true },
+  });
+
+  const movements = await getMovementsAsOf(companyId, asOf, {
+    projectId: options.projectId,
+    warehouseId: options.warehouseId,
+  });
+  const items = valueMovements(movements, company.stockCostingMethod);
+  const totalValue = roundMoney(items.reduce((sum, item) => sum + item.value, 0));
+
+  const projectGroups = groupMovements(movements, (movement) => movement.projectId);
+  const locationGroups = groupMovements(movements, (movement) => movement.warehouseId);
+  const [projects, warehouses] = await Promise.all([
+    prisma.project.findMany({
+      where: { companyId, id: { in: Array.from(projectGroups.keys()).filter((id): id is string => !!id) } },
+      select: { id: true, name: true },
+    }),
+    prisma.warehouse.findMany({
+      where: { companyId, id: { in: Array.from(locationGroups.keys()).filter((id): id is string => !!id) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+  const warehouseNames = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse.name]));
+
+  const toGroups = (groups: Map<string | null, ValuationMovement[]>, names: Map<string, string>, fallback: string) =>
+    Array.from(groups.entries())
+      .map(([id, groupMovements]) => {
+        const rows = valueMovements(groupMovements, company.stockCostingMethod);
+        return {
+          id,
+          name: id ? names.get(id) ?? 'Unknown' : fallback,
+          value: roundMoney(rows.reduce((sum, row) => sum + row.value, 0)),
+          items: rows,
+        };
+      })
+      .filter((group) => group.items.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  let reconciliation: InventoryReconciliation | null = null;
+  if (!options.projectId && !options.warehouseId) {
+    const trialBalance = await getTrialBalance(companyId, endOfDay(asOf));
+    const glBalance = roundMoney(
+      trialBalance.entries.find((entry) => entry.accountCode === SYSTEM_ACCOUNT_CODES.INVENTORY)?.netBalance ?? 0
+    );
+    const unpostedMovements = findUnpostedMovements(
+      movements,
+      await findBilledGoodsReceiptMovements(companyId, movements, asOf)
+    );
+    const unpostedValue = roundMoney(unpostedMovements.reduce((sum, movement) => sum + movement.value, 0));
+    const difference = roundMoney(totalValue - glBalance);
+
+    reconciliation = {
+      accountCode: SYSTEM_ACCOUNT_CODES.INVENTORY,
+      glBalance,
+      stockValue: totalValue,
+      difference,
+      unpostedMovements,
+      unpostedValue,
+      unexplainedDifference: roundMoney(difference - unpostedValue),
+    };
+  }
+
+  return {
+    asOf,
+    items,
+    byProject: toGroups(projectGroups, projectNames, CENTRAL_SITE_NAME),
+    byLocation: toGroups(locationGroups, warehouseNames, 'No location'),
+    totalValue,
+    reconciliation,
+  };
+}
+
+/**
+ * How long the stock on hand at each site has sat unused
+ * Issues consume the oldest receipts first, so what is left is aged from the receipts it came in
+ * with, whatever the item's costing method.
+ */
+export async function getStockAging(
+  companyId: string,
+  options: { asOf?: Date; projectId?: string } = {}
+): Promise<StockAging> {
+  const asOf = options.asOf ?? new Date();
+  const asOfTime = endOfDay(asOf).getTime();
+  const movements = await getMovementsAsOf(companyId, asOf, { projectId: options.projectId });
+
+  const siteGroups = groupMovements(movements, (movement) => movement.projectId);
+  const projects = await prisma.project.findMany({
+    where: { companyId, id: { in: Array.from(siteGroups.keys()).filter((id): id is string => !!id) } },
+    select: { id: true, name: true },
+  });
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+
+  const bucketFor = (receivedDate: Date) => {
+    const ageDays = Math.floor((asOfTime - receivedDate.getTime()) / (24 * 60 * 60 * 1000));
+    const index = STOCK_AGING_BUCKETS.findIndex((bucket) => bucket.maxDays === null || ageDays <= bucket.maxDays);
+    return index === -1 ? STOCK_AGING_BUCKETS.length - 1 : index;
+  };
+  const emptyBuckets = () => STOCK_AGING_BUCKETS.map(() => ({ qty: 0, value: 0 }));
+
+  const sites: StockAgingSite[] = [];
+  for (const [projectId, siteMovements] of Array.from(siteGroups.entries())) {
+    const fifo = computeFifoForMovements(siteMovements);
+    const itemDetails = new Map(siteMovements.map((movement) => [movement.stockItemId, movement.stockItem]));
+
+    const items: StockAgingItem[] = [];
+    for (const [stockItemId, state] of Array.from(fifo.entries())) {
+      if (state.onHandQty <= 0) continue;
+
+      const buckets = emptyBuckets();
+      for (const layer of state.layers) {
+        const bucket = buckets[bucketFor(layer.receivedDate)];
+        bucket.qty += layer.qty;
+        bucket.value += layer.qty * layer.unitCost;
+      }
+      const stockItem = itemDetails.get(stockItemId)!;
+      items.push({
+        stockItemId,
+        stockItemName: stockItem.name,
+        stockItemUnit: stockItem.unit,
+        qty: state.onHandQty,
+        value: roundMoney(state.value),
+        oldestReceiptDate: state.layers[0]?.receivedDate ?? null,
+        buckets: buckets.map((bucket) => ({ qty: bucket.qty, value: roundMoney(bucket.value) })),
+      });
+    }
+    if (items.length === 0) continue;
+
+    items.sort((a, b) => a.stockItemName.localeCompare(b.stockItemName));
+    sites.push({
+      projectId,
+      name: projectId ? projectNames.get(projectId) ?? 'Unknown' : CENTRAL_SITE_NAME,
+      items,
+      buckets: STOCK_AGING_BUCKETS.map((_, index) => ({
+        value: roundMoney(items.reduce((sum, item) => sum + item.buckets[index].value, 0)),
+      })),
+      value: roundMoney(items.reduce((sum, item) => sum + item.value, 0)),
+    });
+  }
+  sites.sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    asOf,
+    bucketLabels: STOCK_AGING_BUCKETS.map((bucket) => bucket.label),
+    sites,
+    buckets: STOCK_AGING_BUCKETS.map((_, index) => ({
+      value: roundMoney(sites.reduce((sum, site) => sum + site.buckets[index].value, 0)),
+    })),
+    totalValue: roundMoney(sites.reduce((sum, site) => sum + site.value, 0)),
+  };
+}
+
+/**
+ * Change the company's default costing method
+ * Applies to issues booked from now on; items with their own method keep it.
+ */
+export async function setCompanyCostingMethod(
+  companyId: string,
+  userId: string,
+  stockCostingMethod: StockCostingMethod,
+  request?: NextRequest
+) {
+  const before = await prisma.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { id: true, stockCostingMethod: true },
+  });
+  const company = await prisma.company.update({
+    where: { id: companyId },
+    data: { stockCostingMethod },
+    select: { id: true, stockCostingMethod: true },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Company',
+    entityId: companyId,
+    action: 'UPDATE',
+    before,
+    after: company,
+    request,
+  });
+
+  return company;
+}
+
+export interface InventoryReclassLine {
+  projectId: string | null;
+  name: string;
+  stockValue: number;
+  glBalance: number;
+  unpostedValue: number;
+  /** Value moved from Direct Materials into Inventory */
+  amount: number;
+}
+
+export interface InventoryReclassPreview {
+  asOf: Date;
+  lines: InventoryReclassLine[];
+  total: number;
+}
+
+/**
+ * Stock on hand still carried in Direct Materials (5010), per project
+ * Purchases posted before stock was received into Inventory expensed the stock when it was
+ * bought, so issuing it now would charge the project again. That stock is what the Inventory
+ * ledger falls short of the stock value, once movements waiting for their own journal (unbilled
+ * goods receipts and the like) are set aside.
+ */
+export async function getInventoryReclassPreview(
+  companyId: string,
+  asOf: Date = new Date()
+): Promise<InventoryReclassPreview> {
+  const valuation = await getStockValuation(companyId, { asOf });
+  const movements = await getMovementsAsOf(companyId, asOf);
+  const movementProjects = new Map(movements.map((movement) => [movement.id, movement.projectId]));
+
+  const unpostedByProject = new Map<string | null, number>();
+  for (const movement of valuation.reconciliation?.unpostedMovements ?? []) {
+    const projectId = movementProjects.get(movement.movementId) ?? null;
+    unpostedByProject.set(projectId, (unpostedByProject.get(projectId) ?? 0) + movement.value);
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.INVENTORY]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    throw new Error(accountIds.error || 'Inventory account not found');
+  }
+  const ledger = await prisma.voucherLine.groupBy({
+    by: ['projectId'],
+    where: {
+      accountId: accountIds.accountIds[SYSTEM_ACCOUNT_CODES.INVENTORY],
+      voucher: { companyId, status: { in: ['POSTED', 'REVERSED'] }, date: { lte: endOfDay(asOf) } },
+    },
+    _sum: { debit: true, credit: true },
+  });
+  const glByProject = new Map(
+    ledger.map((row) => [row.projectId, Number(row._sum.debit ?? 0) - Number(row._sum.credit ?? 0)])
+  );
+
+  const lines = valuation.byProject
+    .map((group) => {
+      const glBalance = roundMoney(glByProject.get(group.id) ?? 0);
+      const unpostedValue = roundMoney(unpostedByProject.get(group.id) ?? 0);
+      return {
+        projectId: group.id,
+        name: group.name,
+        stockValue: group.value,
+        glBalance,
+        unpostedValue,
+        amount: roundMoney(group.value - glBalance - unpostedValue),
+      };
+    })
+    // A ledger above the stock value is not stock expensed on purchase; leave it to the reconciliation
+    .filter((line) => line.amount >= 0.01);
+
+  return {
+    asOf,
+    lines,
+    total: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
+
+/**
+ * Move the stock on hand still carried in Direct Materials into Inventory
+ * Posts one JOURNAL (Dr Inventory / Cr Direct Materials, tagged per project), after which issues
+ * of that stock charge the project once. Running it again finds nothing left to move.
+ */
+export async function postInventoryReclass(
+  companyId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<{ success: boolean; voucher?: any; total?: number; error?: string }> {
+  const date = new Date();
+  const preview = await getInventoryReclassPreview(companyId, date);
+  if (preview.lines.length === 0) {
+    return { success: false, error: 'Inventory already covers the stock on hand; nothing to reclassify' };
+  }
+
+  const accountIds = await getSystemAccountIds(companyId, [
+    SYSTEM_ACCOUNT_CODES.INVENTORY,
+    SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS,
+  ]);
+  if (!accountIds.success || !accountIds.accountIds) {
+    return { success: false, error: accountIds.error };
+  }
+
+  try {
+    const voucher = await prisma.$transaction((tx) =>
+      createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date,
+          type: 'JOURNAL',
+          narration: 'Stock on hand bought before inventory accounting - reclassified to Inventory',
+          lines: preview.lines.flatMap((line) => [
+            {
+              accountId: accountIds.accountIds![SYSTEM_ACCOUNT_CODES.INVENTORY],
+              description: `Stock on hand - ${line.name}`,
+              debit: line.amount,
+              credit: 0,
+              projectId: line.projectId,
+            },
+            {
+              accountId: accountIds.accountIds![SYSTEM_ACCOUNT_CODES.DIRECT_MATERIALS],
+              description: `Stock on hand - ${line.name}`,
+              debit: 0,
+              credit: line.amount,
+              projectId: line.projectId,
+            },
+          ]),
+        },
+        request
+      )
+    );
+
+    return { success: true, voucher, total: preview.total };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to post inventory reclassification',
+    };
+  }
+}
@@ -0,0 +1,647 @@
+/**
+ * Server-only functions for stocktake (physical stock count) sessions
+ * DO NOT import in client components
+ *
+ * Opening a session freezes the expected quantity and unit cost of every item: from the project's
+ * stock overview when the count is for a project, or from the location's balances when only a
+ * location is counted. Counts are entered on screen or uploaded from the count sheet, then the
+ * session is submitted for approval. Approval posts every variance as an ADJUSTMENT movement,
+ * with its inventory journal, in one transaction, so a count is either posted completely or not
+ * at all. Movements reference the stocktake line, which also keeps the movement's id.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockMovementKind, StocktakeStatus } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { StocktakeCounts, StocktakeCreate, StocktakeListFilters, StocktakeReject } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { getProjectStockOverview } from './projectStock.server';
+import { adjustStock } from './stockService.server';
+import { sumLocationBalances } from './warehouse.server';
+
+export const STOCKTAKE_REFERENCE = 'STOCKTAKE';
+
+const QTY_EPSILON = 0.0005;
+
+export interface StocktakeResult {
+  success: boolean;
+  stocktake?: any;
+  error?: string;
+}
+
+/**
+ * A row of an uploaded count sheet, keyed by the template headers
+ */
+export interface StocktakeSheetRow {
+  itemId?: string;
+  sku?: string;
+  item?: string;
+  counted?: string | number;
+  notes?: string;
+}
+
+function roundQty(qty: number): number {
+  return Math.round(qty * 1000) / 1000;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const stocktakeInclude = {
+  project: { select: { id: true, name: true } },
+  warehouse: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  approvedBy: { select: { id: true, name: true } },
+  lines: {
+    include: {
+      stockItem: { select: { id: true, name: true, sku: true, unit: true } },
+      movement: { select: { id: true, voucherId: true } },
+    },
+  },
+} satisfies Prisma.StocktakeSessionInclude;
+
+type StocktakeWithLines = Prisma.StocktakeSessionGetPayload<{ include: typeof stocktakeInclude }>;
+
+/**
+ * Variance per line in quantity and value, and the session totals
+ */
+function withVariances(session: StocktakeWithLines) {
+  const lines = session.lines
+    .map((line) => {
+      const expectedQty = Number(line.expectedQty);
+      const unitCost = Number(line.unitCost);
+      const countedQty = line.countedQty === null ? null : Number(line.countedQty);
+      const varianceQty = countedQty === null ? null : roundQty(countedQty - expectedQty);
+      return {
+        ...line,
+        expectedQty,
+        unitCost,
+        countedQty,
+        varianceQty,
+        varianceValue: varianceQty === null ? null : roundMoney(varianceQty * unitCost),
+      };
+    })
+    .sort((a, b) => a.stockItem.name.localeCompare(b.stockItem.name));
+
+  const counted = lines.filter((line) => line.varianceQty !== null);
+  return {
+    ...session,
+    lines,
+    summary: {
+      itemCount: lines.length,
+      countedCount: counted.length,
+      expectedValue: roundMoney(lines.reduce((sum, line) => sum + line.expectedQty * line.unitCost, 0)),
+      gainValue: roundMoney(
+        counted.filter((line) => line.varianceValue! > 0).reduce((sum, line) => sum + line.varianceValue!, 0)
+      ),
+      lossValue: roundMoney(
+        counted.filter((line) => line.varianceValue! < 0).reduce((sum, line) => sum + line.varianceValue!, 0)
+      ),
+      netVarianceValue: roundMoney(counted.reduce((sum, line) => sum + line.varianceValue!, 0)),
+    },
+  };
+}
+
+/**
+ * Next session number for the company and year, e.g. ST-2026-0001
+ */
+async function generateSessionNo(tx: Prisma.TransactionClient, companyId: string, date: Date): Promise<string> {
+  const prefix = `ST-${date.getFullYear()}-`;
+  const last = await tx.stocktakeSession.findFirst({
+    where: { companyId, sessionNo: { startsWith: prefix } },
+    orderBy: { sessionNo: 'desc' },
+    select: { sessionNo: true },
+  });
+  const match = last?.sessionNo.match(/-(\d+)$/);
+  const nextNumber = match ? parseInt(match[1], 10) + 1 : 1;
+  return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+}
+
+/**
+ * Company-wide average cost of an item, used for items found on a count but not expected
+ */
+async function getCompanyAverageCost(companyId: string, stockItemId: string): Promise<number> {
+  const balances = await prisma.stockBalance.findMany({
+    where: { companyId, stockItemId },
+    select: { onHandQty: true, avgCost: true },
+  });
+  return roundMoney(sumLocationBalances(balances).avgCost);
+}
+
+/**
+ * Stocktake sessions for the company, newest first
+ */
+export async function listStocktakes(companyId: string, filters: StocktakeListFilters = {}) {
+  const sessions = await prisma.stocktakeSession.findMany({
+    where: {
+      companyId,
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.warehouseId ? { warehouseId: filters.warehouseId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    include: stocktakeInclude,
+    orderBy: [{ countDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return sessions.map((session) => {
+    const { lines, ...rest } = withVariances(session);
+    return { ...rest, lineCount: lines.length };
+  });
+}
+
+/**
+ * One session with its lines and variances
+ */
+export async function getStocktake(companyId: string, stocktakeId: string) {
+  const session = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+    include: stocktakeInclude,
+  });
+  return session ? withVariances(session) : null;
+}
+
+/**
+ * Open a session and freeze the expected quantities
+ */
+export async function createStocktake(
+  companyId: string,
+  userId: string,
+  data: StocktakeCreate,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const [project, warehouse] = await Promise.all([
+    data.projectId
+      ? prisma.project.findFirst({ where: { id: data.projectId, companyId }, select: { id: true } })
+      : null,
+    data.warehouseId
+      ? prisma.warehouse.findFirst({
+          where: { id: data.warehouseId, companyId, isActive: true },
+          select: { id: true },
+        })
+      : null,
+  ]);
+  if (data.projectId && !project) {
+    return { success: false, error: 'Project not found or does not belong to your company' };
+  }
+  if (data.warehouseId && !warehouse) {
+    return { success: false, error: 'Stock location not found or inactive' };
+  }
+
+  const openSession = await prisma.stocktakeSession.findFirst({
+    where: {
+      companyId,
+      projectId: project?.id ?? null,
+      warehouseId: warehouse?.id ?? null,
+      status: { in: [StocktakeStatus.COUNTING, StocktakeStatus.SUBMITTED] },
+    },
+    select: { sessionNo: true },
+  });
+  if (openSession) {
+    return { success: false, error: `Stocktake ${openSession.sessionNo} is still open for this stock` };
+  }
+
+  let expected: Array<{ stockItemId: string; expectedQty: number; unitCost: number }>;
+  if (project) {
+    const overview = await getProjectStockOverview(companyId, project.id);
+    expected = overview.items
+      .filter((item) => Math.abs(item.remainingQty) > QTY_EPSILON)
+      .map((item) => ({
+        stockItemId: item.stockItemId,
+        expectedQty: roundQty(item.remainingQty),
+        unitCost: roundMoney(item.avgRate),
+      }));
+  } else {
+    const balances = await prisma.stockBalance.findMany({
+      where: { companyId, warehouseId: warehouse!.id, onHandQty: { not: 0 } },
+      select: { stockItemId: true, onHandQty: true, avgCost: true },
+    });
+    expected = balances.map((balance) => ({
+      stockItemId: balance.stockItemId,
+      expectedQty: roundQty(Number(balance.onHandQty)),
+      unitCost: roundMoney(Number(balance.avgCost)),
+    }));
+  }
+  if (expected.length === 0) {
+    return { success: false, error: 'There is no stock on hand to count here' };
+  }
+
+  const countDate = data.countDate ?? new Date();
+
+  const stocktake = await prisma.$transaction(async (tx) => {
+    const sessionNo = await generateSessionNo(tx, companyId, countDate);
+    return tx.stocktakeSession.create({
+      data: {
+        companyId,
+        sessionNo,
+        projectId: project?.id ?? null,
+        warehouseId: warehouse?.id ?? null,
+        countDate,
+        notes: data.notes || null,
+        createdById: userId,
+        lines: {
+          create: expected.map((line) => ({
+            stockItemId: line.stockItemId,
+            expectedQty: new Prisma.Decimal(line.expectedQty),
+            unitCost: new Prisma.Decimal(line.unitCost),
+          })),
+        },
+      },
+      include: stocktakeInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Stocktake',
+    entityId: stocktake.id,
+    action: 'CREATE',
+    before: null,
+    after: stocktake,
+    request,
+  });
+
+  return { success: true, stocktake: withVariances(stocktake) };
+}
+
+/**
+ * Record counted quantities on a session that is still being counted
+ */
+export async function recordStocktakeCounts(
+  companyId: string,
+  stocktakeId: string,
+  userId: string,
+  data: StocktakeCounts,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const existing = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+    include: { lines: { select: { id: true, stockItemId: true } } },
+  });
+  if (!existing) {
+    return { success: false, error: 'Stocktake not found' };
+  }
+  if (existing.status !== StocktakeStatus.COUNTING) {
+    return { success: false, error: 'Counts can only be changed while the stocktake is being counted' };
+  }
+
+  const lineIds = new Set(existing.lines.map((line) => line.id));
+  const linesByItem = new Map(existing.lines.map((line) => [line.stockItemId, line.id]));
+  const updates: Array<{ lineId: string; countedQty: number | null; notes?: string | null }> = [];
+  const additions: Array<{ stockItemId: string; countedQty: number; notes?: string | null }> = [];
+
+  for (const row of data.lines) {
+    const lineId = row.lineId ?? (row.stockItemId ? linesByItem.get(row.stockItemId) : undefined);
+    if (lineId) {
+      if (!lineIds.has(lineId)) {
+        return { success: false, error: 'Stocktake line does not belong to this stocktake' };
+      }
+      updates.push({ lineId, countedQty: row.countedQty, notes: row.notes });
+    } else if (row.stockItemId && row.countedQty !== null) {
+      additions.push({ stockItemId: row.stockItemId, countedQty: row.countedQty, notes: row.notes });
+    }
+  }
+
+  if (additions.length > 0) {
+    const itemCount = await prisma.stockItem.count({
+      where: { id: { in: additions.map((line) => line.stockItemId) }, companyId },
+    });
+    if (itemCount !== new Set(additions.map((line) => line.stockItemId)).size) {
+      return { success: false, error: 'Stock item not found or does not belong to your company' };
+    }
+  }
+  const addedCosts = await Promise.all(
+    additions.map((line) => getCompanyAverageCost(companyId, line.stockItemId))
+  );
+
+  const stocktake = await prisma.$transaction(async (tx) => {
+    for (const update of updates) {
+      await tx.stocktakeLine.update({
+        where: { id: update.lineId },
+        data: {
+          countedQty: update.countedQty === null ? null : new Prisma.Decimal(update.countedQty),
+          ...(update.notes !== undefined ? { notes: update.notes || null } : {}),
+        },
+      });
+    }
+    for (const [index, addition] of additions.entries()) {
+      await tx.stocktakeLine.upsert({
+        where: { sessionId_stockItemId: { sessionId: existing.id, stockItemId: addition.stockItemId } },
+        create: {
+          sessionId: existing.id,
+          stockItemId: addition.stockItemId,
+          expectedQty: new Prisma.Decimal(0),
+          unitCost: new Prisma.Decimal(addedCosts[index]),
+          countedQty: new Prisma.Decimal(addition.countedQty),
+          notes: addition.notes || null,
+        },
+        update: { countedQty: new Prisma.Decimal(addition.countedQty) },
+      });
+    }
+    return tx.stocktakeSession.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: stocktakeInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Stocktake',
+    entityId: stocktake.id,
+    action: 'UPDATE',
+    diffJson: { counts: data.lines },
+    request,
+  });
+
+  return { success: true, stocktake: withVariances(stocktake) };
+}
+
+/**
+ * Match the rows of an uploaded count sheet to stock items
+ * Rows are matched by item id, then SKU, then exact name. Rows without a count are skipped.
+ */
+export async function resolveStocktakeSheet(
+  companyId: string,
+  rows: StocktakeSheetRow[]
+): Promise<{ counts: StocktakeCounts['lines']; errors: string[] }> {
+  const items = await prisma.stockItem.findMany({
+    where: { companyId },
+    select: { id: true, name: true, sku: true },
+  });
+  const byId = new Map(items.map((item) => [item.id, item.id]));
+  const bySku = new Map(items.filter((item) => item.sku).map((item) => [item.sku!.trim().toLowerCase(), item.id]));
+  const byName = new Map(items.map((item) => [item.name.trim().toLowerCase(), item.id]));
+
+  const counts: StocktakeCounts['lines'] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNo = index + 2; // Header is row 1
+    const countedText = String(row.counted ?? '').replace(/,/g, '').trim();
+    if (countedText === '') return;
+
+    const stockItemId =
+      (row.itemId && byId.get(String(row.itemId).trim())) ||
+      (row.sku && bySku.get(String(row.sku).trim().toLowerCase())) ||
+      (row.item && byName.get(String(row.item).trim().toLowerCase()));
+    if (!stockItemId) {
+      errors.push(`Row ${rowNo}: item "${row.item || row.sku || row.itemId || ''}" not found`);
+      return;
+    }
+
+    const countedQty = Number(countedText);
+    if (!Number.isFinite(countedQty) || countedQty < 0) {
+      errors.push(`Row ${rowNo}: counted quantity "${countedText}" is not a valid number`);
+      return;
+    }
+
+    counts.push({ stockItemId, countedQty: roundQty(countedQty), notes: row.notes ? String(row.notes) : undefined });
+  });
+
+  return { counts, errors };
+}
+
+/**
+ * Send a fully counted session for approval
+ */
+export async function submitStocktake(
+  companyId: string,
+  stocktakeId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const existing = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+    include: stocktakeInclude,
+  });
+  if (!existing) {
+    return { success: false, error: 'Stocktake not found' };
+  }
+  if (existing.status !== StocktakeStatus.COUNTING) {
+    return { success: false, error: 'Only a stocktake being counted can be submitted' };
+  }
+  const uncounted = existing.lines.filter((line) => line.countedQty === null);
+  if (uncounted.length > 0) {
+    return {
+      success: false,
+      error: `${uncounted.length} item(s) have not been counted, e.g. ${uncounted[0].stockItem.name}. Enter 0 for items not found`,
+    };
+  }
+
+  const claimed = await prisma.stocktakeSession.updateMany({
+    where: { id: existing.id, status: StocktakeStatus.COUNTING },
+    data: { status: StocktakeStatus.SUBMITTED, submittedAt: new Date(), rejectionReason: null },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'This stocktake has already been submitted' };
+  }
+
+  const stocktake = await prisma.stocktakeSession.findUniqueOrThrow({
+    where: { id: existing.id },
+    include: stocktakeInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Stocktake',
+    entityId: stocktake.id,
+    action: 'STATUS_CHANGE',
+    before: existing,
+    after: stocktake,
+    request,
+  });
+
+  return { success: true, stocktake: withVariances(stocktake) };
+}
+
+/**
+ * Approve a submitted session and post every variance as an ADJUSTMENT movement
+ */
+export async function approveStocktake(
+  companyId: string,
+  stocktakeId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const existing = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+    include: stocktakeInclude,
+  });
+  if (!existing) {
+    return { success: false, error: 'Stocktake not found' };
+  }
+  if (existing.status !== StocktakeStatus.SUBMITTED) {
+    return { success: false, error: 'Only a submitted stocktake can be approved' };
+  }
+
+  const warehouse = existing.warehouseId
+    ? await prisma.warehouse.findUnique({ where: { id: existing.warehouseId }, select: { projectId: true } })
+    : null;
+  const projectId = existing.projectId ?? warehouse?.projectId ?? null;
+  const reason = `Stocktake ${existing.sessionNo}`;
+
+  try {
+    const stocktake = await prisma.$transaction(async (tx) => {
+      // Claim the session first so a second approver cannot post it again
+      const claimed = await tx.stocktakeSession.updateMany({
+        where: { id: existing.id, status: StocktakeStatus.SUBMITTED },
+        data: { status: StocktakeStatus.POSTED, approvedById: userId, approvedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error('This stocktake has already been decided');
+      }
+
+      for (const line of existing.lines) {
+        const varianceQty = roundQty(Number(line.countedQty ?? line.expectedQty) - Number(line.expectedQty));
+        if (Math.abs(varianceQty) < QTY_EPSILON) continue;
+
+        const result = await adjustStock({
+          companyId,
+          stockItemId: line.stockItemId,
+          type: varianceQty > 0 ? 'IN' : 'OUT',
+          qty: Math.abs(varianceQty),
+          unitCost: varianceQty > 0 ? Number(line.unitCost) : undefined,
+          projectId,
+          warehouseId: existing.warehouseId,
+          notes: line.notes ? `${reason}: ${line.notes}` : reason,
+          userId,
+          movementDate: existing.countDate,
+          movementKind: StockMovementKind.ADJUSTMENT,
+          referenceType: STOCKTAKE_REFERENCE,
+          referenceId: line.id,
+          postJournal: true,
+          request,
+          tx,
+        });
+        if (!result.success) {
+          throw new Error(`${line.stockItem.name}: ${result.error || 'Failed to post adjustment'}`);
+        }
+
+        await tx.stockMovement.update({
+          where: { id: result.movementId! },
+          data: { reason, approvedById: userId, approvedAt: new Date() },
+        });
+        await tx.stocktakeLine.update({
+          where: { id: line.id },
+          data: { movementId: result.movementId },
+        });
+      }
+
+      return tx.stocktakeSession.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: stocktakeInclude,
+      });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Stocktake',
+      entityId: stocktake.id,
+      action: 'APPROVE',
+      before: existing,
+      after: stocktake,
+      request,
+    });
+
+    return { success: true, stocktake: withVariances(stocktake) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve stocktake',
+    };
+  }
+}
+
+/**
+ * Send a submitted session back for recounting
+ */
+export async function rejectStocktake(
+  companyId: string,
+  stocktakeId: string,
+  userId: string,
+  data: StocktakeReject,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const existing = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Stocktake not found' };
+  }
+  if (existing.status !== StocktakeStatus.SUBMITTED) {
+    return { success: false, error: 'Only a submitted stocktake can be sent back' };
+  }
+
+  const claimed = await prisma.stocktakeSession.updateMany({
+    where: { id: existing.id, status: StocktakeStatus.SUBMITTED },
+    data: { status: StocktakeStatus.COUNTING, submittedAt: null, rejectionReason: data.reason },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'This stocktake has already been decided' };
+  }
+
+  const stocktake = await prisma.stocktakeSession.findUniqueOrThrow({
+    where: { id: existing.id },
+    include: stocktakeInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Stocktake',
+    entityId: stocktake.id,
+    action: 'REJECT',
+    before: existing,
+    after: stocktake,
+    request,
+  });
+
+  return { success: true, stocktake: withVariances(stocktake) };
+}
+
+/**
+ * Abandon a session that has not been posted; nothing is adjusted
+ */
+export async function cancelStocktake(
+  companyId: string,
+  stocktakeId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<StocktakeResult> {
+  const existing = await prisma.stocktakeSession.findFirst({
+    where: { id: stocktakeId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Stocktake not found' };
+  }
+
+  const claimed = await prisma.stocktakeSession.updateMany({
+    where: { id: existing.id, status: { in: [StocktakeStatus.COUNTING, StocktakeStatus.SUBMITTED] } },
+    data: { status: StocktakeStatus.CANCELLED },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: 'Only a stocktake that has not been posted can be cancelled' };
+  }
+
+  const stocktake = await prisma.stocktakeSession.findUniqueOrThrow({
+    where: { id: existing.id },
+    include: stocktakeInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Stocktake',
+    entityId: stocktake.id,
+    action: 'STATUS_CHANGE',
+    before: existing,
+    after: stocktake,
+    request,
+  });
+
+  return { success: true, stocktake: withVariances(stocktake) };
+}
@@ -0,0 +1,340 @@
+/**
+ * Server-only functions for stock locations (warehouses)
+ * DO NOT import in client components
+ *
+ * Every StockBalance row belongs to one location. The central store is the company's default
+ * location and is created on first use. A site store serves exactly one project: stock received,
+ * issued or adjusted for that project lands there. Projects without a site store keep their
+ * stock in the central store.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockMovementType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { WarehouseCreate, WarehouseUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { addStockLot, carryConsumedLots, consumeStockLots } from './stockLots.server';
+import { getProjectStockOverview } from './projectStock.server';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const CENTRAL_STORE_NAME = 'Central Store';
+
+export interface WarehouseResult {
+  success: boolean;
+  warehouse?: any;
+  error?: string;
+}
+
+/**
+ * The company's central store, created the first time stock needs a home
+ */
+export async function getDefaultWarehouseId(db: Db, companyId: string): Promise<string> {
+  const existing = await db.warehouse.findFirst({
+    where: { companyId, isDefault: true },
+    select: { id: true },
+  });
+  if (existing) {
+    return existing.id;
+  }
+
+  const warehouse = await db.warehouse.upsert({
+    where: { companyId_name: { companyId, name: CENTRAL_STORE_NAME } },
+    create: { companyId, name: CENTRAL_STORE_NAME, code: 'CENTRAL', isDefault: true },
+    update: { isDefault: true, isActive: true },
+    select: { id: true },
+  });
+  return warehouse.id;
+}
+
+/**
+ * Location a movement belongs to: the explicit location, else the project's site store, else the
+ * central store. Returns null when the explicit location is unknown or inactive.
+ */
+export async function resolveWarehouseId(
+  db: Db,
+  companyId: string,
+  location: { warehouseId?: string | null; projectId?: string | null }
+): Promise<string | null> {
+  if (location.warehouseId) {
+    const warehouse = await db.warehouse.findFirst({
+      where: { id: location.warehouseId, companyId, isActive: true },
+      select: { id: true },
+    });
+    return warehouse?.id ?? null;
+  }
+
+  if (location.projectId) {
+    const siteStore = await db.warehouse.findFirst({
+      where: { companyId, projectId: location.projectId, isActive: true },
+      select: { id: true },
+    });
+    if (siteStore) {
+      return siteStore.id;
+    }
+  }
+
+  return getDefaultWarehouseId(db, companyId);
+}
+
+/**
+ * Add stock to or take stock from one location's balance
+ * IN blends the unit cost into the location's average and opens a lot; OUT keeps the average,
+ * consumes the oldest lots against its movement and refuses to go below zero. Stock moved from
+ * another location passes the OUT movement as fromMovementId so the lots it consumed reopen here
+ * at their own cost and date. Throws so the caller's transaction rolls back.
+ */
+export async function applyLocationBalance(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    warehouseId: string;
+    type: Exclude<StockMovementType, 'ADJUST'>;
+    qty: Prisma.Decimal;
+    unitCost?: Prisma.Decimal | null;
+    date?: Date;
+    movementId?: string | null;
+    fromMovementId?: string | null;
+  }
+) {
+  const { companyId, stockItemId, warehouseId, type, qty, unitCost, date = new Date(), movementId, fromMovementId } =
+    params;
+  const key = { companyId_stockItemId_warehouseId: { companyId, stockItemId, warehouseId } };
+
+  const balance = await tx.stockBalance.findUnique({ where: key });
+  const onHandQty = balance?.onHandQty ?? new Prisma.Decimal(0);
+  const avgCost = balance?.avgCost ?? new Prisma.Decimal(0);
+
+  if (type === 'OUT') {
+    if (onHandQty.lt(qty)) {
+      throw new Error(`Insufficient stock at this location. Available: ${onHandQty.toString()}, Requested: ${qty.toString()}`);
+    }
+    await consumeStockLots(tx, { companyId, stockItemId, warehouseId, movementId, qty });
+    return tx.stockBalance.update({
+      where: key,
+      data: { onHandQty: onHandQty.minus(qty) },
+    });
+  }
+
+  const newQty = onHandQty.plus(qty);
+  const newAvgCost =
+    unitCost === undefined || unitCost === null
+      ? avgCost
+      : newQty.gt(0)
+      ? onHandQty.mul(avgCost).plus(qty.mul(unitCost)).div(newQty)
+      : unitCost;
+
+  const carried = fromMovementId
+    ? await carryConsumedLots(tx, { companyId, stockItemId, warehouseId, fromMovementId, qty })
+    : new Prisma.Decimal(0);
+  await addStockLot(tx, {
+    companyId,
+    stockItemId,
+    warehouseId,
+    movementId,
+    receivedDate: date,
+    qty: qty.minus(carried),
+    unitCost: unitCost ?? avgCost,
+  });
+  return tx.stockBalance.upsert({
+    where: key,
+    create: { companyId, stockItemId, warehouseId, onHandQty: newQty, avgCost: newAvgCost },
+    update: { onHandQty: newQty, avgCost: newAvgCost },
+  });
+}
+
+/**
+ * Quantity and weighted-average cost of an item over several location balances
+ */
+export function sumLocationBalances(balances: Array<{ onHandQty: Prisma.Decimal; avgCost: Prisma.Decimal }>) {
+  const onHandQty = balances.reduce((sum, balance) => sum + Number(balance.onHandQty), 0);
+  const value = balances.reduce((sum, balance) => sum + Number(balance.onHandQty) * Number(balance.avgCost), 0);
+  return {
+    onHandQty,
+    avgCost: onHandQty > 0 ? value / onHandQty : balances.length > 0 ? Number(balances[0].avgCost) : 0,
+  };
+}
+
+/**
+ * Locations with the number of items and the value held at each
+ */
+export async function listWarehouses(companyId: string, options: { includeInactive?: boolean } = {}) {
+  await getDefaultWarehouseId(prisma, companyId);
+
+  const warehouses = await prisma.warehouse.findMany({
+    where: { companyId, ...(options.includeInactive ? {} : { isActive: true }) },
+    include: {
+      project: { select: { id: true, name: true } },
+      balances: { select: { onHandQty: true, avgCost: true } },
+    },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  });
+
+  return warehouses.map(({ balances, ...warehouse }) => {
+    const stocked = balances.filter((balance) => balance.onHandQty.gt(0));
+    return {
+      ...warehouse,
+      itemCount: stocked.length,
+      stockValue:
+        Math.round(stocked.reduce((sum, balance) => sum + Number(balance.onHandQty) * Number(balance.avgCost), 0) * 100) /
+        100,
+    };
+  });
+}
+
+/**
+ * Create a location; making it the default moves the default flag off the current central store
+ * A project only gets a site store while it holds no stock.
+ */
+export async function createWarehouse(
+  companyId: string,
+  userId: string,
+  data: WarehouseCreate,
+  request?: NextRequest
+): Promise<WarehouseResult> {
+  if (data.projectId) {
+    const project = await prisma.project.findFirst({
+      where: { id: data.projectId, companyId },
+      select: { id: true, siteStore: { select: { id: true, name: true } } },
+    });
+    if (!project) {
+      return { success: false, error: 'Project not found or does not belong to your company' };
+    }
+    if (project.siteStore) {
+      return { success: false, error: `This project already has a site store (${project.siteStore.name})` };
+    }
+    if (data.isDefault) {
+      return { success: false, error: 'A project site store cannot be the central store' };
+    }
+  }
+
+  const duplicate = await prisma.warehouse.findFirst({
+    where: { companyId, name: { equals: data.name, mode: 'insensitive' } },
+  });
+  if (duplicate) {
+    return { success: false, error: 'A location with this name already exists' };
+  }
+
+  let warehouse;
+  try {
+    warehouse = await prisma.$transaction(async (tx) => {
+      // Later movements of the project go to the new store, so stock it already holds elsewhere
+      // could no longer be issued or moved
+      if (data.projectId) {
+        const overview = await getProjectStockOverview(companyId, data.projectId, tx);
+        const held = overview.items.filter((item) => item.remainingQty > 0.0005);
+        if (held.length > 0) {
+          throw new Error(
+            `This project still holds stock (${held.map((item) => item.stockItemName).join(', ')}). Issue or transfer it before giving the project a site store.`
+          );
+        }
+      }
+
+      if (data.isDefault) {
+        await tx.warehouse.updateMany({ where: { companyId, isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.warehouse.create({
+        data: {
+          companyId,
+          name: data.name,
+          code: data.code || null,
+          address: data.address || null,
+          projectId: data.projectId || null,
+          isDefault: data.isDefault,
+        },
+        include: { project: { select: { id: true, name: true } } },
+      });
+    });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create location' };
+  }
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Warehouse',
+    entityId: warehouse.id,
+    action: 'CREATE',
+    before: null,
+    after: warehouse,
+    request,
+  });
+
+  return { success: true, warehouse };
+}
+
+/**
+ * Rename, re-flag or deactivate a location
+ * Locations still holding stock, and the central store, cannot be deactivated.
+ */
+export async function updateWarehouse(
+  companyId: string,
+  warehouseId: string,
+  userId: string,
+  data: WarehouseUpdate,
+  request?: NextRequest
+): Promise<WarehouseResult> {
+  const existing = await prisma.warehouse.findFirst({
+    where: { id: warehouseId, companyId },
+  });
+  if (!existing) {
+    return { success: false, error: 'Location not found' };
+  }
+
+  if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+    const duplicate = await prisma.warehouse.findFirst({
+      where: { companyId, id: { not: existing.id }, name: { equals: data.name, mode: 'insensitive' } },
+    });
+    if (duplicate) {
+      return { success: false, error: 'A location with this name already exists' };
+    }
+  }
+  if (data.isDefault && existing.projectId) {
+    return { success: false, error: 'A project site store cannot be the central store' };
+  }
+  if (data.isDefault === false && existing.isDefault) {
+    return { success: false, error: 'Make another location the central store instead' };
+  }
+  if (data.isActive === false) {
+    if (existing.isDefault || data.isDefault) {
+      return { success: false, error: 'The central store cannot be deactivated' };
+    }
+    const stocked = await prisma.stockBalance.count({
+      where: { companyId, warehouseId: existing.id, onHandQty: { gt: 0 } },
+    });
+    if (stocked > 0) {
+      return { success: false, error: 'Move the stock out of this location before deactivating it' };
+    }
+  }
+
+  const warehouse = await prisma.$transaction(async (tx) => {
+    if (data.isDefault && !existing.isDefault) {
+      await tx.warehouse.updateMany({ where: { companyId, isDefault: true }, data: { isDefault: false } });
+    }
+    return tx.warehouse.update({
+      where: { id: existing.id },
+      data: {
+        name: data.name,
+        code: data.code,
+        address: data.address,
+        isDefault: data.isDefault,
+        isActive: data.isActive,
+      },
+      include: { project: { select: { id: true, name: true } } },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Warehouse',
+    entityId: warehouse.id,
+    action: 'UPDATE',
+    before: existing,
+    after: warehouse,
+    request,
+  });
+
+  return { success: true, warehouse };
+}
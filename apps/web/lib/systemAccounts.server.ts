@@ -93,3 +93,42 @@ export async function getSystemAccountId(
 
   return account?.id || null;
 }
+
+/**
+ * Get system account IDs for a set of codes
+ * Missing accounts (e.g. codes added to the registry after the company was set up)
+ * are created on demand via ensureSystemAccounts.
+ *
+ * @returns Map of account code to account ID, or an error naming the missing codes
+ */
+export async function getSystemAccountIds(
+  companyId: string,
+  codes: string[]
+): Promise<{ success: boolean; accountIds?: Record<string, string>; error?: string }> {
+  const findAccounts = () =>
+    prisma.account.findMany({
+      where: { companyId, code: { in: codes }, isSystem: true, isActive: true },
+      select: { id: true, code: true },
+    });
+
+  let accounts = await findAccounts();
+  if (accounts.length < codes.length) {
+    await ensureSystemAccounts(companyId);
+    accounts = await findAccounts();
+  }
+
+  const accountIds: Record<string, string> = {};
+  for (const account of accounts) {
+    accountIds[account.code] = account.id;
+  }
+
+  const missing = codes.filter((code) => !accountIds[code]);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `System account(s) not found or inactive: ${missing.join(', ')}`,
+    };
+  }
+
+  return { success: true, accountIds };
+}
@@ -25,13 +25,21 @@ export const SYSTEM_ACCOUNTS: SystemAccountDefinition[] = [
   { code: '1020', name: 'Bank - Main Account', type: 'ASSET' },
   { code: '1030', name: 'Accounts Receivable', type: 'ASSET' },
   { code: '1040', name: 'Inventory', type: 'ASSET' },
+  { code: '1050', name: 'Retention Receivable', type: 'ASSET' },
+  { code: '1060', name: 'VAT Deducted at Source', type: 'ASSET' },
+  { code: '1065', name: 'AIT Deducted at Source', type: 'ASSET' },
+  { code: '1070', name: 'Vendor Advances', type: 'ASSET' },
   
   // LIABILITY accounts
   { code: '2010', name: 'Accounts Payable', type: 'LIABILITY' },
+  { code: '2020', name: 'Labor Payable', type: 'LIABILITY' },
+  { code: '2030', name: 'Customer Advances', type: 'LIABILITY' },
   
   // EQUITY accounts
   { code: '3010', name: 'Owner Equity', type: 'EQUITY' },
   { code: '3020', name: 'Capital', type: 'EQUITY' },
+  { code: '3030', name: 'Retained Earnings', type: 'EQUITY' },
+  { code: '3040', name: 'Opening Balance Equity', type: 'EQUITY' },
   
   // INCOME accounts (if needed for future revenue tracking)
   { code: '4010', name: 'Sales Revenue', type: 'INCOME' },
@@ -40,6 +48,8 @@ export const SYSTEM_ACCOUNTS: SystemAccountDefinition[] = [
   { code: '5010', name: 'Direct Materials', type: 'EXPENSE' },
   { code: '5020', name: 'Direct Labor', type: 'EXPENSE' },
   { code: '5030', name: 'Site Overhead', type: 'EXPENSE' },
+  { code: '5080', name: 'Material Wastage', type: 'EXPENSE' },
+  { code: '5085', name: 'Inventory Variance', type: 'EXPENSE' },
   { code: '5090', name: 'Miscellaneous Expenses', type: 'EXPENSE' },
 ];
 
@@ -65,12 +75,22 @@ export const SYSTEM_ACCOUNT_CODES = {
   BANK: '1020',
   ACCOUNTS_RECEIVABLE: '1030',
   INVENTORY: '1040',
+  RETENTION_RECEIVABLE: '1050',
+  VAT_DEDUCTED_AT_SOURCE: '1060',
+  AIT_DEDUCTED_AT_SOURCE: '1065',
+  VENDOR_ADVANCES: '1070',
   ACCOUNTS_PAYABLE: '2010',
+  LABOR_PAYABLE: '2020',
+  CUSTOMER_ADVANCES: '2030',
   OWNER_EQUITY: '3010',
   CAPITAL: '3020',
+  RETAINED_EARNINGS: '3030',
+  OPENING_BALANCE_EQUITY: '3040',
   SALES_REVENUE: '4010',
   DIRECT_MATERIALS: '5010',
   DIRECT_LABOR: '5020',
   SITE_OVERHEAD: '5030',
+  MATERIAL_WASTAGE: '5080',
+  INVENTORY_VARIANCE: '5085',
   MISC_EXPENSES: '5090',
 } as const;
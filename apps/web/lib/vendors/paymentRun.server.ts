@@ -0,0 +1,436 @@
+/**
+ * Server-only functions for vendor payment runs
+ * DO NOT import in client components
+ *
+ * A payment run pays many open items across vendors from one cash/bank account. Candidates are
+ * vendor payable lines still outstanding after posted allocations and after allocations already
+ * sitting on payment vouchers in the approval workflow, so a second run never proposes the same
+ * amount twice. Creating the run drafts one PAYMENT voucher per vendor with its VendorAllocation
+ * rows in a single transaction, re-checking each open item inside it; the vouchers then go through
+ * the normal approval and posting, which checks the allocations again against posted payments.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, VoucherStatus } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { PaymentRunCandidateFilters, PaymentRunCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { decimalToNumber, getDueDate } from '@/lib/payables';
+import { generateVoucherNumber, isLeafAccount } from '@/lib/voucher';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+
+const PENDING_STATUSES: VoucherStatus[] = ['DRAFT', 'SUBMITTED', 'APPROVED'];
+
+export interface PaymentRunResult {
+  success: boolean;
+  paymentRun?: any;
+  error?: string;
+}
+
+export interface PaymentRunCandidate {
+  lineId: string;
+  voucherId: string;
+  voucherNo: string;
+  date: Date;
+  dueDate: Date;
+  daysOverdue: number;
+  narration: string;
+  vendorId: string;
+  vendorName: string;
+  hasBankDetails: boolean;
+  projectId: string | null;
+  projectName: string | null;
+  accountId: string;
+  originalAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  available: number;
+  proposedAmount: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export const paymentRunInclude = {
+  paymentAccount: { select: { id: true, code: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  vouchers: {
+    orderBy: { voucherNo: 'asc' },
+    select: {
+      id: true,
+      voucherNo: true,
+      status: true,
+      narration: true,
+      lines: {
+        where: { vendorId: { not: null } },
+        select: {
+          debit: true,
+          vendor: {
+            select: {
+              id: true,
+              name: true,
+              bankName: true,
+              bankAccountName: true,
+              bankAccountNo: true,
+              bankRoutingNo: true,
+            },
+          },
+        },
+      },
+      allocations: {
+        select: {
+          amount: true,
+          sourceLine: {
+            select: { voucher: { select: { id: true, voucherNo: true, date: true } } },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.PaymentRunInclude;
+
+type PaymentRunWithVouchers = Prisma.PaymentRunGetPayload<{ include: typeof paymentRunInclude }>;
+
+/**
+ * Flatten a run into one payment per vendor voucher
+ */
+function withPayments(run: PaymentRunWithVouchers) {
+  const payments = run.vouchers.map((voucher) => {
+    const vendor = voucher.lines[0]?.vendor ?? null;
+    return {
+      voucherId: voucher.id,
+      voucherNo: voucher.voucherNo,
+      status: voucher.status,
+      vendor,
+      amount: roundMoney(voucher.allocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.amount), 0)),
+      bills: voucher.allocations.map((alloc) => ({
+        voucherId: alloc.sourceLine.voucher.id,
+        voucherNo: alloc.sourceLine.voucher.voucherNo,
+        date: alloc.sourceLine.voucher.date,
+        amount: decimalToNumber(alloc.amount),
+      })),
+    };
+  });
+
+  const { vouchers, ...rest } = run;
+  return { ...rest, payments };
+}
+
+/**
+ * Open vendor items available to pay, oldest due date first, with proposed amounts
+ */
+export async function getPaymentRunCandidates(companyId: string, filters: PaymentRunCandidateFilters = {}) {
+  const today = new Date();
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      credit: { gt: 0 },
+      account: { code: { not: SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES } },
+      voucher: { status: 'POSTED', reversalOfId: null },
+      ...(filters.vendorId ? { vendorId: filters.vendorId } : { vendorId: { not: null } }),
+    },
+    include: {
+      vendor: { select: { id: true, name: true, paymentTermDays: true, bankAccountNo: true } },
+      project: { select: { id: true, name: true } },
+      voucher: {
+        select: {
+          id: true,
+          voucherNo: true,
+          date: true,
+          narration: true,
+          project: { select: { id: true, name: true } },
+        },
+      },
+      sourceAllocations: {
+        where: { paymentVoucher: { status: { in: ['POSTED', ...PENDING_STATUSES] } } },
+        select: { amount: true, paymentVoucher: { select: { status: true } } },
+      },
+    },
+  });
+
+  const candidates: PaymentRunCandidate[] = [];
+  lines.forEach((line) => {
+    if (!line.vendor) return;
+
+    const originalAmount = decimalToNumber(line.credit) - decimalToNumber(line.debit);
+    if (originalAmount <= 0) return;
+
+    let paidAmount = 0;
+    let pendingAmount = 0;
+    line.sourceAllocations.forEach((alloc) => {
+      if (alloc.paymentVoucher.status === 'POSTED') {
+        paidAmount += decimalToNumber(alloc.amount);
+      } else {
+        pendingAmount += decimalToNumber(alloc.amount);
+      }
+    });
+    const available = roundMoney(originalAmount - paidAmount - pendingAmount);
+    if (available <= 0) return;
+    if (filters.minAmount !== undefined && available < filters.minAmount) return;
+
+    // Payable lines of purchase vouchers carry the project on the voucher only
+    const project = line.project ?? line.voucher.project;
+    if (filters.projectId && project?.id !== filters.projectId) return;
+
+    const dueDate = getDueDate(line.voucher.date, line.vendor.paymentTermDays);
+    if (filters.dueBy && dueDate > filters.dueBy) return;
+
+    candidates.push({
+      lineId: line.id,
+      voucherId: line.voucher.id,
+      voucherNo: line.voucher.voucherNo,
+      date: line.voucher.date,
+      dueDate,
+      daysOverdue: Math.floor((today.getTime() - dueDate.getTime()) / MS_PER_DAY),
+      narration: line.voucher.narration || line.description || '',
+      vendorId: line.vendor.id,
+      vendorName: line.vendor.name,
+      hasBankDetails: !!line.vendor.bankAccountNo,
+      projectId: project?.id ?? null,
+      projectName: project?.name ?? null,
+      accountId: line.accountId,
+      originalAmount,
+      paidAmount,
+      pendingAmount,
+      available,
+      proposedAmount: 0,
+    });
+  });
+
+  candidates.sort(
+    (a, b) => a.dueDate.getTime() - b.dueDate.getTime() || a.vendorName.localeCompare(b.vendorName)
+  );
+
+  // Most overdue first until the budget is spent; a part payment takes whatever is left
+  let remaining = filters.budget ?? Infinity;
+  candidates.forEach((candidate) => {
+    candidate.proposedAmount = roundMoney(Math.min(candidate.available, Math.max(0, remaining)));
+    remaining -= candidate.proposedAmount;
+  });
+
+  const totalAvailable = roundMoney(candidates.reduce((sum, item) => sum + item.available, 0));
+  const totalProposed = roundMoney(candidates.reduce((sum, item) => sum + item.proposedAmount, 0));
+
+  return { items: candidates, totalAvailable, totalProposed };
+}
+
+/**
+ * Payment runs, newest first
+ */
+export async function listPaymentRuns(companyId: string) {
+  const runs = await prisma.paymentRun.findMany({
+    where: { companyId },
+    include: {
+      paymentAccount: { select: { id: true, code: true, name: true } },
+      createdBy: { select: { id: true, name: true } },
+      vouchers: { select: { status: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return runs.map(({ vouchers, ...run }) => ({
+    ...run,
+    voucherCount: vouchers.length,
+    postedCount: vouchers.filter((voucher) => voucher.status === 'POSTED').length,
+  }));
+}
+
+export async function getPaymentRun(companyId: string, id: string) {
+  const run = await prisma.paymentRun.findFirst({
+    where: { id, companyId },
+    include: paymentRunInclude,
+  });
+  return run ? withPayments(run) : null;
+}
+
+/**
+ * Generate the next run number (PR-YYYY-nnnn)
+ */
+async function generateRunNo(tx: Prisma.TransactionClient, companyId: string, date: Date): Promise<string> {
+  const prefix = `PR-${date.getFullYear()}-`;
+  const last = await tx.paymentRun.findFirst({
+    where: { companyId, runNo: { startsWith: prefix } },
+    orderBy: { runNo: 'desc' },
+    select: { runNo: true },
+  });
+  const next = last ? parseInt(last.runNo.slice(prefix.length), 10) + 1 : 1;
+  return `${prefix}${next.toString().padStart(4, '0')}`;
+}
+
+/**
+ * Create a payment run: one draft PAYMENT voucher per vendor with its allocations
+ */
+export async function createPaymentRun(
+  companyId: string,
+  data: PaymentRunCreate,
+  userId: string,
+  request?: NextRequest
+): Promise<PaymentRunResult> {
+  try {
+    const paymentAccount = await prisma.account.findFirst({
+      where: { id: data.paymentAccountId, companyId, isActive: true, type: 'ASSET' },
+      select: { id: true, name: true },
+    });
+    if (!paymentAccount || !(await isLeafAccount(paymentAccount.id))) {
+      return { success: false, error: 'Payment account must be an active cash/bank account' };
+    }
+
+    const lineIds = data.allocations.map((alloc) => alloc.sourceLineId);
+    if (new Set(lineIds).size !== lineIds.length) {
+      return { success: false, error: 'Each open item can be paid only once in a run' };
+    }
+
+    const { items } = await getPaymentRunCandidates(companyId);
+    const candidates = new Map(items.map((item) => [item.lineId, item]));
+
+    const byVendor = new Map<string, Array<{ candidate: PaymentRunCandidate; amount: number }>>();
+    for (const alloc of data.allocations) {
+      const candidate = candidates.get(alloc.sourceLineId);
+      if (!candidate) {
+        return { success: false, error: `Open item ${alloc.sourceLineId} not found or already being paid` };
+      }
+      if (alloc.amount > candidate.available + 0.001) {
+        return {
+          success: false,
+          error: `Amount ${alloc.amount} exceeds the ${candidate.available} still payable on ${candidate.voucherNo}`,
+        };
+      }
+      const vendorItems = byVendor.get(candidate.vendorId) ?? [];
+      vendorItems.push({ candidate, amount: roundMoney(alloc.amount) });
+      byVendor.set(candidate.vendorId, vendorItems);
+    }
+
+    const totalAmount = roundMoney(data.allocations.reduce((sum, alloc) => sum + alloc.amount, 0));
+    if (data.budget && totalAmount > data.budget + 0.001) {
+      return { success: false, error: `Selected payments of ${totalAmount} exceed the budget of ${data.budget}` };
+    }
+
+    const paymentRun = await prisma.$transaction(async (tx) => {
+      // Candidates were read before the transaction; another payment may have claimed them since
+      const selected = await tx.voucherLine.findMany({
+        where: { id: { in: lineIds }, companyId, voucher: { status: 'POSTED' } },
+        select: {
+          id: true,
+          debit: true,
+          credit: true,
+          sourceAllocations: {
+            where: { paymentVoucher: { status: { in: ['POSTED', ...PENDING_STATUSES] } } },
+            select: { amount: true },
+          },
+        },
+      });
+      const selectedMap = new Map(selected.map((line) => [line.id, line]));
+      for (const alloc of data.allocations) {
+        const candidate = candidates.get(alloc.sourceLineId)!;
+        const line = selectedMap.get(alloc.sourceLineId);
+        const claimed = line
+          ? line.sourceAllocations.reduce((sum, existing) => sum + decimalToNumber(existing.amount), 0)
+          : 0;
+        const available = line
+          ? roundMoney(decimalToNumber(line.credit) - decimalToNumber(line.debit) - claimed)
+          : 0;
+        if (alloc.amount > available + 0.001) {
+          throw new Error(
+            `Amount ${alloc.amount} exceeds the ${Math.max(0, available)} still payable on ${candidate.voucherNo}`
+          );
+        }
+      }
+
+      const runNo = await generateRunNo(tx, companyId, data.date);
+      const run = await tx.paymentRun.create({
+        data: {
+          companyId,
+          runNo,
+          date: data.date,
+          paymentAccountId: paymentAccount.id,
+          budget: data.budget ? new Prisma.Decimal(data.budget) : null,
+          totalAmount: new Prisma.Decimal(totalAmount),
+          notes: data.notes || null,
+          createdById: userId,
+        },
+      });
+
+      for (const [vendorId, vendorItems] of Array.from(byVendor.entries())) {
+        const vendorName = vendorItems[0].candidate.vendorName;
+        const vendorTotal = roundMoney(vendorItems.reduce((sum, item) => sum + item.amount, 0));
+
+        // One debit per payable account the bills were booked to
+        const debits = new Map<string, number>();
+        vendorItems.forEach(({ candidate, amount }) => {
+          debits.set(candidate.accountId, roundMoney((debits.get(candidate.accountId) ?? 0) + amount));
+        });
+
+        const voucherNo = await generateVoucherNumber(companyId, data.date, tx);
+        const voucher = await tx.voucher.create({
+          data: {
+            companyId,
+            voucherNo,
+            type: 'PAYMENT',
+            date: data.date,
+            status: 'DRAFT',
+            narration: `Payment run ${runNo}: ${vendorName}`,
+            createdByUserId: userId,
+            paymentRunId: run.id,
+            lines: {
+              create: [
+                {
+                  companyId,
+                  accountId: paymentAccount.id,
+                  description: `Payment to ${vendorName}`,
+                  debit: 0,
+                  credit: vendorTotal,
+                  vendorId: null,
+                },
+                ...Array.from(debits.entries()).map(([accountId, amount]) => ({
+                  companyId,
+                  accountId,
+                  description: `Payment to ${vendorName}`,
+                  debit: amount,
+                  credit: 0,
+                  vendorId,
+                })),
+              ],
+            },
+          },
+        });
+
+        await tx.vendorAllocation.createMany({
+          data: vendorItems.map(({ candidate, amount }) => ({
+            paymentVoucherId: voucher.id,
+            sourceLineId: candidate.lineId,
+            amount: new Prisma.Decimal(amount),
+          })),
+        });
+      }
+
+      return tx.paymentRun.findUniqueOrThrow({ where: { id: run.id }, include: paymentRunInclude });
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'PaymentRun',
+      entityId: paymentRun.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        runNo: paymentRun.runNo,
+        paymentAccountId: paymentAccount.id,
+        totalAmount,
+        vouchers: paymentRun.vouchers.map((voucher) => voucher.voucherNo),
+      },
+      request,
+    });
+
+    return { success: true, paymentRun: withPayments(paymentRun) };
+  } catch (error) {
+    console.error('Error creating payment run:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create payment run',
+    };
+  }
+}
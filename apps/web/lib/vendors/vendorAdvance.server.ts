@@ -0,0 +1,180 @@
+/**
+ * Server-only functions for applying vendor advances
+ * DO NOT import in client components
+ *
+ * An advance is a payment voucher line debiting the Vendor Advances asset account for the vendor.
+ * Applying it to posted bills is a JOURNAL that debits each bill's payable account and credits
+ * Vendor Advances, with a VendorAllocation per bill line so the open items drop exactly as they
+ * would for a cash payment. Reversing the journal releases both the allocations and the advance.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { VendorAdvanceApply } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { checkPaymentAllocations, getVendorOpenItems } from '@/lib/payables';
+import { createPostedVoucher, PostedVoucherLineInput } from '@/lib/vouchers/workflow';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { getSystemAccountIds } from '@/lib/systemAccounts.server';
+
+export interface VendorAdvanceResult {
+  success: boolean;
+  voucher?: any;
+  allocations?: Array<{ sourceLineId: string; voucherNo: string; amount: number }>;
+  error?: string;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Apply a vendor's unapplied advance to open bills, oldest first (FIFO) or as allocated
+ */
+export async function applyVendorAdvance(
+  companyId: string,
+  vendorId: string,
+  data: VendorAdvanceApply,
+  userId: string,
+  request?: NextRequest
+): Promise<VendorAdvanceResult> {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: vendorId, companyId },
+      select: { id: true, name: true },
+    });
+    if (!vendor) {
+      return { success: false, error: 'Vendor not found' };
+    }
+
+    const accounts = await getSystemAccountIds(companyId, [SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES]);
+    if (!accounts.success) {
+      return { success: false, error: accounts.error };
+    }
+    const advanceAccountId = accounts.accountIds![SYSTEM_ACCOUNT_CODES.VENDOR_ADVANCES];
+    const date = data.date ?? new Date();
+
+    const openItems = await getVendorOpenItems(vendorId, companyId, { reservePending: true });
+    const openItemsMap = new Map(openItems.map((item) => [item.lineId, item]));
+
+    const { voucher, allocations } = await prisma.$transaction(async (tx) => {
+      const advance = await tx.voucherLine.aggregate({
+        where: { companyId, vendorId, accountId: advanceAccountId, voucher: { status: 'POSTED' } },
+        _sum: { debit: true, credit: true },
+      });
+      const unapplied = roundMoney(Number(advance._sum.debit ?? 0) - Number(advance._sum.credit ?? 0));
+      if (unapplied <= 0) {
+        throw new Error(`${vendor.name} has no unapplied advance`);
+      }
+
+      const allocations: Array<{ sourceLineId: string; voucherNo: string; amount: number }> = [];
+      if (data.mode === 'FIFO') {
+        let remaining = unapplied;
+        for (const item of openItems) {
+          if (remaining <= 0) break;
+          const amount = roundMoney(Math.min(item.outstanding, remaining));
+          if (amount <= 0) continue;
+          allocations.push({ sourceLineId: item.lineId, voucherNo: item.voucherNo, amount });
+          remaining = roundMoney(remaining - amount);
+        }
+        if (allocations.length === 0) {
+          throw new Error(`${vendor.name} has no open bills to apply the advance to`);
+        }
+      } else {
+        for (const alloc of data.allocations ?? []) {
+          const openItem = openItemsMap.get(alloc.sourceLineId);
+          if (!openItem) {
+            throw new Error(`Source line ${alloc.sourceLineId} not found or has no outstanding balance`);
+          }
+          if (alloc.amount > openItem.outstanding) {
+            throw new Error(
+              `Allocation amount ${alloc.amount} exceeds outstanding ${openItem.outstanding} for line ${openItem.voucherNo}`
+            );
+          }
+          allocations.push({ sourceLineId: alloc.sourceLineId, voucherNo: openItem.voucherNo, amount: alloc.amount });
+        }
+      }
+
+      const total = roundMoney(allocations.reduce((sum, alloc) => sum + alloc.amount, 0));
+      if (total > unapplied) {
+        throw new Error(`Allocations of ${total} exceed the unapplied advance of ${unapplied}`);
+      }
+
+      const sourceLines = await tx.voucherLine.findMany({
+        where: { id: { in: allocations.map((alloc) => alloc.sourceLineId) } },
+        select: { id: true, accountId: true, projectId: true },
+      });
+      const sourceLineMap = new Map(sourceLines.map((line) => [line.id, line]));
+
+      const voucherLines: PostedVoucherLineInput[] = allocations.map((alloc) => ({
+        accountId: sourceLineMap.get(alloc.sourceLineId)!.accountId,
+        description: `Advance applied to ${alloc.voucherNo}`,
+        debit: alloc.amount,
+        credit: 0,
+        projectId: sourceLineMap.get(alloc.sourceLineId)!.projectId,
+        vendorId,
+      }));
+      voucherLines.push({
+        accountId: advanceAccountId,
+        description: `Advance applied - ${vendor.name}`,
+        debit: 0,
+        credit: total,
+        vendorId,
+      });
+
+      const voucher = await createPostedVoucher(
+        tx,
+        {
+          companyId,
+          userId,
+          date,
+          type: 'JOURNAL',
+          narration: `Advance applied to bills: ${vendor.name}`,
+          lines: voucherLines,
+        },
+        request
+      );
+
+      await tx.vendorAllocation.createMany({
+        data: allocations.map((alloc) => ({
+          paymentVoucherId: voucher.id,
+          sourceLineId: alloc.sourceLineId,
+          amount: new Prisma.Decimal(alloc.amount),
+        })),
+      });
+
+      // Open items were read before the transaction; a payment posted meanwhile may have paid them
+      const allocationError = await checkPaymentAllocations(tx, voucher.id);
+      if (allocationError) {
+        throw new Error(allocationError);
+      }
+
+      return { voucher, allocations };
+    });
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'VendorAdvance',
+      entityId: voucher.id,
+      action: 'CREATE',
+      before: null,
+      after: {
+        vendorId,
+        mode: data.mode,
+        voucherNo: voucher.voucherNo,
+        allocations,
+      },
+      request,
+    });
+
+    return { success: true, voucher, allocations };
+  } catch (error) {
+    console.error('Error applying vendor advance:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply vendor advance',
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
 export interface VoucherLineInput {
@@ -31,13 +32,20 @@ export function validateVoucherBalance(lines: VoucherLineInput[]): { valid: bool
 /**
  * Generate unique voucher number in format: V-YYYY-NNNNNN
  * Example: V-2026-000001
+ *
+ * Pass the transaction client when creating several vouchers in one transaction,
+ * so numbers already taken inside it are seen.
  */
-export async function generateVoucherNumber(companyId: string, date: Date): Promise<string> {
+export async function generateVoucherNumber(
+  companyId: string,
+  date: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
   const year = date.getFullYear();
   const prefix = `V-${year}-`;
 
   // Find the highest voucher number for this company and year
-  const lastVoucher = await prisma.voucher.findFirst({
+  const lastVoucher = await client.voucher.findFirst({
     where: {
       companyId,
       voucherNo: {
@@ -0,0 +1,349 @@
+/**
+ * Server-only functions for multi-level voucher approval policies
+ * DO NOT import in client components
+ *
+ * A company can define one active policy per voucher type, plus a fallback policy with no type.
+ * Each policy step names the roles allowed to approve it and the amount band (by voucher total)
+ * in which it applies. Steps are approved in sequence; the voucher becomes APPROVED after the last one.
+ * With no policy, a single ADMIN/ACCOUNTANT approval is required (the original behaviour).
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, UserRole, VoucherType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ApprovalPolicyCreate, ApprovalPolicyUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { createAuditSnapshot, createDiff } from '@/lib/audit/diff';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface ApprovalChainStep {
+  sequence: number;
+  name: string | null;
+  approverRoles: UserRole[];
+}
+
+export interface ApprovalChain {
+  policyId: string | null;
+  policyName: string | null;
+  steps: ApprovalChainStep[];
+}
+
+export interface RecordedApproval {
+  sequence: number;
+  approverId: string;
+}
+
+export interface ApprovalPolicyResult {
+  success: boolean;
+  policy?: any;
+  error?: string;
+}
+
+export const approvalPolicyInclude = {
+  steps: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.ApprovalPolicyInclude;
+
+const DEFAULT_APPROVER_ROLES: UserRole[] = ['ADMIN', 'ACCOUNTANT'];
+
+/**
+ * Voucher total used for amount thresholds (sum of debits)
+ */
+export function getVoucherTotal(lines: Array<{ debit: Prisma.Decimal | number }>): number {
+  return lines.reduce((sum, line) => sum + Number(line.debit), 0);
+}
+
+/**
+ * Resolve the approval steps that apply to a voucher of the given type and total
+ * Uses the active policy for the type, else the active policy with no type, else one ADMIN/ACCOUNTANT step.
+ */
+export async function resolveApprovalChain(
+  companyId: string,
+  voucherType: VoucherType | null,
+  total: number,
+  db: Db = prisma
+): Promise<ApprovalChain> {
+  const policies = await db.approvalPolicy.findMany({
+    where: {
+      companyId,
+      isActive: true,
+      OR: voucherType ? [{ voucherType }, { voucherType: null }] : [{ voucherType: null }],
+    },
+    include: approvalPolicyInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const policy =
+    policies.find((p) => p.voucherType !== null && p.voucherType === voucherType) ??
+    policies.find((p) => p.voucherType === null);
+
+  if (!policy) {
+    return {
+      policyId: null,
+      policyName: null,
+      steps: [{ sequence: 1, name: null, approverRoles: DEFAULT_APPROVER_ROLES }],
+    };
+  }
+
+  const steps = policy.steps
+    .filter(
+      (step) =>
+        total >= Number(step.minAmount) - 0.005 &&
+        (step.maxAmount === null || total <= Number(step.maxAmount) + 0.005)
+    )
+    .map((step) => ({
+      sequence: step.sequence,
+      name: step.name,
+      approverRoles: step.approverRoles,
+    }));
+
+  // A policy whose bands do not cover the amount still needs one approval
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    steps: steps.length > 0 ? steps : [{ sequence: 1, name: null, approverRoles: DEFAULT_APPROVER_ROLES }],
+  };
+}
+
+/**
+ * The first step of the chain that has not been approved yet
+ */
+export function getNextApprovalStep(
+  chain: ApprovalChain,
+  approvals: RecordedApproval[]
+): ApprovalChainStep | null {
+  const approved = new Set(approvals.map((a) => a.sequence));
+  return chain.steps.find((step) => !approved.has(step.sequence)) ?? null;
+}
+
+/**
+ * Check whether a user may approve the next pending step of a voucher
+ * The creator can never approve their own voucher, and each step needs a different approver.
+ */
+export function checkApprover(
+  chain: ApprovalChain,
+  approvals: RecordedApproval[],
+  voucher: { createdByUserId: string },
+  userId: string,
+  role: UserRole
+): { allowed: boolean; step?: ApprovalChainStep; reason?: string } {
+  const step = getNextApprovalStep(chain, approvals);
+  if (!step) {
+    return { allowed: false, reason: 'All approval steps have already been completed' };
+  }
+
+  if (voucher.createdByUserId === userId) {
+    return { allowed: false, reason: 'You cannot approve a voucher you created' };
+  }
+
+  if (approvals.some((a) => a.approverId === userId)) {
+    return { allowed: false, reason: 'You have already approved this voucher; another approver is required' };
+  }
+
+  if (!step.approverRoles.includes(role)) {
+    return {
+      allowed: false,
+      reason: `Approval step ${step.sequence} requires one of: ${step.approverRoles.join(', ')}`,
+    };
+  }
+
+  return { allowed: true, step };
+}
+
+/**
+ * Approval chain and progress for a voucher, for display and for the approve button
+ */
+export async function getVoucherApprovalState(
+  voucher: {
+    id: string;
+    companyId: string;
+    type: VoucherType | null;
+    createdByUserId: string;
+    lines: Array<{ debit: Prisma.Decimal | number }>;
+  },
+  userId: string,
+  role: UserRole
+) {
+  const [chain, approvals] = await Promise.all([
+    resolveApprovalChain(voucher.companyId, voucher.type, getVoucherTotal(voucher.lines)),
+    prisma.voucherApproval.findMany({
+      where: { voucherId: voucher.id },
+      include: { approver: { select: { id: true, name: true, email: true } } },
+      orderBy: { sequence: 'asc' },
+    }),
+  ]);
+
+  const check = checkApprover(chain, approvals, voucher, userId, role);
+  const nextStep = getNextApprovalStep(chain, approvals);
+
+  return {
+    policyName: chain.policyName,
+    steps: chain.steps,
+    approvals,
+    nextStep,
+    canApprove: check.allowed,
+    // Anyone eligible for the pending step may reject, even after approving an earlier step
+    canReject: voucher.createdByUserId !== userId && !!nextStep && nextStep.approverRoles.includes(role),
+    reason: check.reason ?? null,
+  };
+}
+
+function toStepRows(steps: ApprovalPolicyCreate['steps']) {
+  return steps.map((step, index) => ({
+    sequence: index + 1,
+    name: step.name || null,
+    approverRoles: step.approverRoles,
+    minAmount: new Prisma.Decimal(step.minAmount ?? 0),
+    maxAmount: step.maxAmount != null ? new Prisma.Decimal(step.maxAmount) : null,
+  }));
+}
+
+async function findConflictingPolicy(
+  companyId: string,
+  voucherType: VoucherType | null,
+  excludeId?: string
+) {
+  return prisma.approvalPolicy.findFirst({
+    where: {
+      companyId,
+      voucherType,
+      isActive: true,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  });
+}
+
+/**
+ * Create an approval policy
+ * Only one active policy is allowed per voucher type (and one without a type).
+ */
+export async function createApprovalPolicy(
+  companyId: string,
+  userId: string,
+  data: ApprovalPolicyCreate,
+  request?: NextRequest
+): Promise<ApprovalPolicyResult> {
+  const voucherType = data.voucherType ?? null;
+  if (data.isActive !== false && (await findConflictingPolicy(companyId, voucherType))) {
+    return {
+      success: false,
+      error: `An active policy already exists for ${voucherType ?? 'all voucher types'}`,
+    };
+  }
+
+  const policy = await prisma.approvalPolicy.create({
+    data: {
+      companyId,
+      name: data.name,
+      voucherType,
+      isActive: data.isActive ?? true,
+      steps: { create: toStepRows(data.steps) },
+    },
+    include: approvalPolicyInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ApprovalPolicy',
+    entityId: policy.id,
+    action: 'CREATE',
+    after: createAuditSnapshot(policy),
+    request,
+  });
+
+  return { success: true, policy };
+}
+
+/**
+ * Update an approval policy; steps are replaced when given
+ * Vouchers already part-way through approval keep their recorded approvals.
+ */
+export async function updateApprovalPolicy(
+  policyId: string,
+  companyId: string,
+  userId: string,
+  data: ApprovalPolicyUpdate,
+  request?: NextRequest
+): Promise<ApprovalPolicyResult> {
+  const existing = await prisma.approvalPolicy.findFirst({
+    where: { id: policyId, companyId },
+    include: approvalPolicyInclude,
+  });
+  if (!existing) {
+    return { success: false, error: 'Approval policy not found' };
+  }
+
+  const voucherType = data.voucherType !== undefined ? data.voucherType ?? null : existing.voucherType;
+  const isActive = data.isActive ?? existing.isActive;
+  if (isActive && (await findConflictingPolicy(companyId, voucherType, policyId))) {
+    return {
+      success: false,
+      error: `An active policy already exists for ${voucherType ?? 'all voucher types'}`,
+    };
+  }
+
+  const policy = await prisma.$transaction(async (tx) => {
+    if (data.steps) {
+      await tx.approvalPolicyStep.deleteMany({ where: { policyId } });
+    }
+    return tx.approvalPolicy.update({
+      where: { id: policyId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        voucherType,
+        isActive,
+        ...(data.steps && { steps: { create: toStepRows(data.steps) } }),
+      },
+      include: approvalPolicyInclude,
+    });
+  });
+
+  const before = createAuditSnapshot(existing);
+  const after = createAuditSnapshot(policy);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ApprovalPolicy',
+    entityId: policyId,
+    action: 'UPDATE',
+    before,
+    after,
+    diffJson: createDiff(before, after),
+    request,
+  });
+
+  return { success: true, policy };
+}
+
+/**
+ * Delete an approval policy
+ */
+export async function deleteApprovalPolicy(
+  policyId: string,
+  companyId: string,
+  userId: string,
+  request?: NextRequest
+): Promise<ApprovalPolicyResult> {
+  const existing = await prisma.approvalPolicy.findFirst({
+    where: { id: policyId, companyId },
+    include: approvalPolicyInclude,
+  });
+  if (!existing) {
+    return { success: false, error: 'Approval policy not found' };
+  }
+
+  await prisma.approvalPolicy.delete({ where: { id: policyId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ApprovalPolicy',
+    entityId: policyId,
+    action: 'DELETE',
+    before: createAuditSnapshot(existing),
+    request,
+  });
+
+  return { success: true, policy: existing };
+}
@@ -0,0 +1,87 @@
+/**
+ * Server-only lookup of the document a voucher was posted for
+ * DO NOT import in client components
+ *
+ * Vouchers posted by a sub-ledger document (running bills, labor, credits, investments, stock
+ * transfers...) must be undone through that document, otherwise the document keeps counting money
+ * the GL no longer has. Client bill receipts are not listed: they can be unwound on their own.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface VoucherOwner {
+  voucherNo: string;
+  /** What the voucher posts, e.g. "running bill RB-003" */
+  document: string;
+  /** How to undo it instead, or why it cannot be undone */
+  undo: string;
+}
+
+/**
+ * Filter for vouchers no sub-ledger document owns
+ */
+export const UNOWNED_VOUCHER_WHERE = {
+  clientBill: null,
+  projectLabor: null,
+  laborPayment: null,
+  credit: null,
+  projectInvestment: null,
+  stockTransfer: null,
+  materialReturn: null,
+  fiscalYearClose: null,
+} satisfies Prisma.VoucherWhereInput;
+
+/**
+ * The document that owns a voucher, or null when the voucher stands on its own
+ */
+export async function getVoucherOwner(
+  voucherId: string,
+  companyId: string,
+  db: Db = prisma
+): Promise<VoucherOwner | null> {
+  const voucher = await db.voucher.findFirst({
+    where: { id: voucherId, companyId },
+    select: {
+      voucherNo: true,
+      clientBill: { select: { billNo: true } },
+      projectLabor: { select: { id: true } },
+      laborPayment: { select: { id: true } },
+      credit: { select: { id: true } },
+      projectInvestment: { select: { id: true } },
+      stockTransfer: { select: { id: true } },
+      materialReturn: { select: { id: true } },
+      fiscalYearClose: { select: { year: true } },
+    },
+  });
+  if (!voucher) return null;
+
+  const owner = (document: string, undo: string) => ({ voucherNo: voucher.voucherNo, document, undo });
+  if (voucher.clientBill) {
+    return owner(`running bill ${voucher.clientBill.billNo}`, 'Cancel the bill instead.');
+  }
+  if (voucher.projectLabor) {
+    return owner('a labor entry', 'Edit or delete the labor entry instead.');
+  }
+  if (voucher.laborPayment) {
+    return owner('a labor payment', 'Delete the labor payment instead.');
+  }
+  if (voucher.credit) {
+    return owner('a credit', 'Edit or delete the credit instead.');
+  }
+  if (voucher.projectInvestment) {
+    return owner('a project investment', 'Edit or delete the investment instead.');
+  }
+  if (voucher.stockTransfer) {
+    return owner('a stock transfer', 'It cannot be reversed on its own.');
+  }
+  if (voucher.materialReturn) {
+    return owner('a material return', 'It cannot be reversed on its own.');
+  }
+  if (voucher.fiscalYearClose) {
+    return owner(`the close of fiscal year ${voucher.fiscalYearClose.year}`, 'It cannot be reversed.');
+  }
+  return null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-only functions for the voucher history timeline
+ * DO NOT import in client components
+ *
+ * Events are read from the audit log, so every submit, approval, rejection, post and reversal
+ * appears in order, including repeated submit/reject rounds.
+ */
+
+import { prisma } from '@accounting/db';
+
+export type VoucherTimelineKind =
+  | 'CREATED'
+  | 'EDITED'
+  | 'SUBMITTED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'POSTED'
+  | 'REVERSED';
+
+export interface VoucherTimelineEvent {
+  id: string;
+  kind: VoucherTimelineKind;
+  at: Date;
+  actor: { id: string; name: string };
+  detail: string | null;
+}
+
+/**
+ * Map one audit log entry to a timeline event (null for entries that are not workflow events)
+ */
+function toTimelineEvent(log: {
+  id: string;
+  action: string;
+  after: any;
+  createdAt: Date;
+  actor: { id: string; name: string };
+}): VoucherTimelineEvent | null {
+  const base = { id: log.id, at: log.createdAt, actor: log.actor };
+  const after = log.after ?? {};
+
+  switch (log.action) {
+    case 'CREATE':
+      return {
+        ...base,
+        kind: after.status === 'POSTED' ? 'POSTED' : 'CREATED',
+        detail: after.reversalOfId
+          ? 'Reversal voucher created and posted'
+          : after.status === 'POSTED'
+            ? 'Created and posted'
+            : null,
+      };
+    case 'UPDATE':
+      return { ...base, kind: 'EDITED', detail: null };
+    case 'STATUS_CHANGE':
+      // Submissions, and approvals recorded before approval steps existed
+      if (after.status === 'SUBMITTED') return { ...base, kind: 'SUBMITTED', detail: null };
+      if (after.status === 'APPROVED') return { ...base, kind: 'APPROVED', detail: null };
+      if (after.status === 'DRAFT') return { ...base, kind: 'REJECTED', detail: null };
+      return null;
+    case 'APPROVE': {
+      const approval = after.approval ?? {};
+      const step = approval.sequence
+        ? `Step ${approval.sequence}${approval.stepName ? ` (${approval.stepName})` : ''}`
+        : null;
+      const detail = [step, approval.comment].filter(Boolean).join(': ');
+      return { ...base, kind: 'APPROVED', detail: detail || null };
+    }
+    case 'REJECT':
+      return { ...base, kind: 'REJECTED', detail: after.rejectionReason ?? null };
+    case 'POST':
+      return { ...base, kind: 'POSTED', detail: null };
+    case 'REVERSE':
+      return { ...base, kind: 'REVERSED', detail: null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Workflow history of a voucher, oldest first
+ */
+export async function getVoucherTimeline(
+  voucherId: string,
+  companyId: string
+): Promise<VoucherTimelineEvent[]> {
+  const logs = await prisma.auditLog.findMany({
+    where: { companyId, entityType: 'VOUCHER', entityId: voucherId },
+    include: { actor: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return logs
+    .map(toTimelineEvent)
+    .filter((event): event is VoucherTimelineEvent => event !== null);
+}
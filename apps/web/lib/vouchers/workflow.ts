@@ -1,9 +1,17 @@
 import { prisma } from '@accounting/db';
-import { VoucherStatus, UserRole } from '@prisma/client';
+import { Prisma, VoucherStatus, VoucherType, ExpenseType, UserRole } from '@prisma/client';
 import { createAuditLog } from '@/lib/audit';
 import { createDiff, createAuditSnapshot } from '@/lib/audit/diff';
 import { validateVoucherBalance, isLeafAccount, generateVoucherNumber } from '@/lib/voucher';
 import { syncPurchaseStatusWithVoucher } from '@/lib/purchases/purchaseAccounting.server';
+import {
+  resolveApprovalChain,
+  checkApprover,
+  getNextApprovalStep,
+  getVoucherTotal,
+} from '@/lib/vouchers/approvalPolicy.server';
+import { checkPeriodOpen, assertPeriodOpen } from '@/lib/periods/fiscalPeriod.server';
+import { checkPaymentAllocations } from '@/lib/payables';
 import { NextRequest } from 'next/server';
 
 export interface WorkflowResult {
@@ -12,13 +20,36 @@ export interface WorkflowResult {
   error?: string;
 }
 
+export interface PostedVoucherLineInput {
+  accountId: string;
+  description?: string | null;
+  debit: number | Prisma.Decimal;
+  credit: number | Prisma.Decimal;
+  projectId?: string | null;
+  vendorId?: string | null;
+  paymentMethodId?: string | null;
+}
+
+export interface PostedVoucherInput {
+  companyId: string;
+  userId: string;
+  projectId?: string | null;
+  date: Date;
+  type: VoucherType;
+  expenseType?: ExpenseType | null;
+  narration?: string | null;
+  lines: PostedVoucherLineInput[];
+  // Year-end closing entries are dated in the year's last month, which is usually closed already
+  allowClosedPeriod?: boolean;
+}
+
 /**
  * Validate status transition
  */
 function isValidTransition(currentStatus: VoucherStatus, newStatus: VoucherStatus): boolean {
   const validTransitions: Record<VoucherStatus, VoucherStatus[]> = {
     DRAFT: ['SUBMITTED'],
-    SUBMITTED: ['APPROVED', 'DRAFT'], // Allow rejection back to DRAFT
+    SUBMITTED: ['APPROVED', 'DRAFT'], // Rejection returns the voucher to DRAFT
     APPROVED: ['POSTED'],
     POSTED: ['REVERSED'],
     REVERSED: [], // Terminal state
@@ -43,9 +74,9 @@ function canPerformAction(
       return { allowed: true };
 
     case 'APPROVE':
-      // Only ADMIN/ACCOUNTANT can approve
-      if (role !== 'ADMIN' && role !== 'ACCOUNTANT') {
-        return { allowed: false, reason: 'Only ADMIN or ACCOUNTANT can approve vouchers' };
+      // Who may approve is decided per step by the company's approval policy (see approveVoucher)
+      if (voucher.createdByUserId === userId) {
+        return { allowed: false, reason: 'You cannot approve a voucher you created' };
       }
       return { allowed: true };
 
@@ -122,6 +153,9 @@ export async function submitVoucher(
 
     const before = createAuditSnapshot(voucher);
 
+    // A (re)submitted voucher starts its approval chain from the first step
+    await tx.voucherApproval.deleteMany({ where: { voucherId } });
+
     // Update voucher
     const updated = await tx.voucher.update({
       where: { id: voucherId },
@@ -129,6 +163,9 @@ export async function submitVoucher(
         status: 'SUBMITTED',
         submittedAt: new Date(),
         submittedById: userId,
+        rejectedAt: null,
+        rejectedById: null,
+        rejectionReason: null,
       },
       include: {
         project: { select: { id: true, name: true } },
@@ -157,20 +194,24 @@ export async function submitVoucher(
     });
 
     // Sync purchase status if voucher is linked to a purchase
-    await syncPurchaseStatusWithVoucher(voucherId, companyId);
+    await syncPurchaseStatusWithVoucher(voucherId, companyId, tx);
 
     return { success: true, voucher: updated };
   });
 }
 
 /**
- * Approve a voucher (SUBMITTED → APPROVED)
+ * Approve the next pending step of a voucher's approval chain
+ * The voucher stays SUBMITTED until the last step is approved, then moves to APPROVED.
  */
 export async function approveVoucher(
   voucherId: string,
   userId: string,
   companyId: string,
   role: UserRole,
+  options?: {
+    comment?: string | null;
+  },
   request?: NextRequest
 ): Promise<WorkflowResult> {
   return await prisma.$transaction(async (tx) => {
@@ -180,6 +221,9 @@ export async function approveVoucher(
         lines: {
           include: { account: true },
         },
+        approvals: {
+          orderBy: { sequence: 'asc' },
+        },
       },
     });
 
@@ -201,21 +245,164 @@ export async function approveVoucher(
       return { success: false, error: permissionCheck.reason };
     }
 
+    const chain = await resolveApprovalChain(
+      companyId,
+      voucher.type,
+      getVoucherTotal(voucher.lines),
+      tx
+    );
+    const approverCheck = checkApprover(chain, voucher.approvals, voucher, userId, role);
+    if (!approverCheck.allowed || !approverCheck.step) {
+      return { success: false, error: approverCheck.reason };
+    }
+    const step = approverCheck.step;
+
+    await tx.voucherApproval.create({
+      data: {
+        companyId,
+        voucherId,
+        sequence: step.sequence,
+        stepName: step.name,
+        approverId: userId,
+        comment: options?.comment || null,
+      },
+    });
+
+    const isFinalStep = step.sequence === chain.steps[chain.steps.length - 1].sequence;
+
     const before = createAuditSnapshot(voucher);
 
-    // Update voucher
+    // Update voucher; it only becomes APPROVED once every step is approved
+    const updated = await tx.voucher.update({
+      where: { id: voucherId },
+      data: isFinalStep
+        ? {
+            status: 'APPROVED',
+            approvedAt: new Date(),
+            approvedById: userId,
+          }
+        : {},
+      include: {
+        project: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true, email: true } },
+        submittedBy: { select: { id: true, name: true, email: true } },
+        approvedBy: { select: { id: true, name: true, email: true } },
+        approvals: {
+          include: { approver: { select: { id: true, name: true, email: true } } },
+          orderBy: { sequence: 'asc' },
+        },
+        lines: {
+          include: { account: { select: { id: true, code: true, name: true } } },
+        },
+      },
+    });
+
+    const after = createAuditSnapshot({
+      ...updated,
+      approval: { sequence: step.sequence, stepName: step.name, comment: options?.comment || null },
+    });
+    const diff = createDiff(before, after);
+
+    // Create audit log
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'VOUCHER',
+      entityId: voucherId,
+      action: 'APPROVE',
+      before,
+      after,
+      diffJson: diff,
+      request,
+    });
+
+    // Sync purchase status if voucher is linked to a purchase
+    if (isFinalStep) {
+      await syncPurchaseStatusWithVoucher(voucherId, companyId, tx);
+    }
+
+    return { success: true, voucher: updated };
+  });
+}
+
+/**
+ * Reject a submitted voucher back to its creator (SUBMITTED → DRAFT)
+ * A reason is required; any approvals already given are cleared.
+ */
+export async function rejectVoucher(
+  voucherId: string,
+  userId: string,
+  companyId: string,
+  role: UserRole,
+  options: {
+    reason: string;
+  },
+  request?: NextRequest
+): Promise<WorkflowResult> {
+  return await prisma.$transaction(async (tx) => {
+    const voucher = await tx.voucher.findUnique({
+      where: { id: voucherId },
+      include: {
+        lines: true,
+        approvals: {
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+
+    if (!voucher || voucher.companyId !== companyId) {
+      return { success: false, error: 'Voucher not found' };
+    }
+
+    if (voucher.status !== 'SUBMITTED') {
+      return {
+        success: false,
+        error: `Cannot reject voucher with status ${voucher.status}. Only SUBMITTED vouchers can be rejected.`,
+      };
+    }
+
+    const reason = options.reason.trim();
+    if (!reason) {
+      return { success: false, error: 'A reason is required to reject a voucher' };
+    }
+
+    // Anyone who could approve the pending step may reject instead
+    if (voucher.createdByUserId === userId) {
+      return { success: false, error: 'You cannot reject a voucher you created' };
+    }
+    const chain = await resolveApprovalChain(
+      companyId,
+      voucher.type,
+      getVoucherTotal(voucher.lines),
+      tx
+    );
+    const step = getNextApprovalStep(chain, voucher.approvals);
+    if (!step || !step.approverRoles.includes(role)) {
+      return {
+        success: false,
+        error: step
+          ? `Only ${step.approverRoles.join(', ')} can reject this voucher at step ${step.sequence}`
+          : 'This voucher has no pending approval step',
+      };
+    }
+
+    const before = createAuditSnapshot(voucher);
+
+    await tx.voucherApproval.deleteMany({ where: { voucherId } });
+
     const updated = await tx.voucher.update({
       where: { id: voucherId },
       data: {
-        status: 'APPROVED',
-        approvedAt: new Date(),
-        approvedById: userId,
+        status: 'DRAFT',
+        rejectedAt: new Date(),
+        rejectedById: userId,
+        rejectionReason: reason,
       },
       include: {
         project: { select: { id: true, name: true } },
         createdBy: { select: { id: true, name: true, email: true } },
         submittedBy: { select: { id: true, name: true, email: true } },
-        approvedBy: { select: { id: true, name: true, email: true } },
+        rejectedBy: { select: { id: true, name: true, email: true } },
         lines: {
           include: { account: { select: { id: true, code: true, name: true } } },
         },
@@ -231,7 +418,7 @@ export async function approveVoucher(
       actorUserId: userId,
       entityType: 'VOUCHER',
       entityId: voucherId,
-      action: 'STATUS_CHANGE',
+      action: 'REJECT',
       before,
       after,
       diffJson: diff,
@@ -239,7 +426,7 @@ export async function approveVoucher(
     });
 
     // Sync purchase status if voucher is linked to a purchase
-    await syncPurchaseStatusWithVoucher(voucherId, companyId);
+    await syncPurchaseStatusWithVoucher(voucherId, companyId, tx);
 
     return { success: true, voucher: updated };
   });
@@ -262,6 +449,7 @@ export async function postVoucher(
         lines: {
           include: { account: true },
         },
+        cheque: { select: { chequeNo: true, chequeDate: true, status: true } },
       },
     });
 
@@ -283,6 +471,20 @@ export async function postVoucher(
       return { success: false, error: permissionCheck.reason };
     }
 
+    // Refuse vouchers dated in a closed period
+    const periodCheck = await checkPeriodOpen(companyId, voucher.date, { role }, tx);
+    if (!periodCheck.success) {
+      return { success: false, error: periodCheck.error };
+    }
+
+    // Post-dated cheques are held until the date written on them
+    if (voucher.cheque && voucher.cheque.status !== 'CANCELLED' && voucher.cheque.chequeDate > new Date()) {
+      return {
+        success: false,
+        error: `Cheque ${voucher.cheque.chequeNo} is post-dated to ${voucher.cheque.chequeDate.toISOString().split('T')[0]}; the voucher can be posted from that date`,
+      };
+    }
+
     // Validate balance
     const balanceCheck = validateVoucherBalance(
       voucher.lines.map((line) => ({
@@ -314,6 +516,12 @@ export async function postVoucher(
       }
     }
 
+    // Bills may have been paid by another voucher since this one was drafted
+    const allocationError = await checkPaymentAllocations(tx, voucherId);
+    if (allocationError) {
+      return { success: false, error: allocationError };
+    }
+
     const before = createAuditSnapshot(voucher);
 
     // Update voucher
@@ -353,7 +561,7 @@ export async function postVoucher(
     });
 
     // Sync purchase status if voucher is linked to a purchase
-    await syncPurchaseStatusWithVoucher(voucherId, companyId);
+    await syncPurchaseStatusWithVoucher(voucherId, companyId, tx);
 
     return { success: true, voucher: updated };
   });
@@ -373,160 +581,259 @@ export async function reverseVoucher(
   },
   request?: NextRequest
 ): Promise<WorkflowResult> {
-  return await prisma.$transaction(async (tx) => {
-    const originalVoucher = await tx.voucher.findUnique({
-      where: { id: voucherId },
-      include: {
-        lines: {
-          include: {
-            account: { select: { id: true, code: true, name: true, isActive: true } },
-            project: { select: { id: true } },
-            vendor: { select: { id: true } },
-            paymentMethod: { select: { id: true } },
-          },
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const voucher = await reverseVoucherInTx(tx, voucherId, userId, companyId, role, options, request);
+      return { success: true, voucher };
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reverse voucher',
+    };
+  }
+}
+
+/**
+ * Reverse a POSTED voucher inside the caller's transaction, so documents that own the voucher
+ * (labor, credits, cheques, stock movements...) can update themselves in the same commit.
+ * Throws if the voucher cannot be reversed.
+ */
+export async function reverseVoucherInTx(
+  tx: Prisma.TransactionClient,
+  voucherId: string,
+  userId: string,
+  companyId: string,
+  role: UserRole,
+  options?: {
+    date?: Date;
+    description?: string;
+  },
+  request?: NextRequest
+) {
+  const originalVoucher = await tx.voucher.findUnique({
+    where: { id: voucherId },
+    include: {
+      lines: {
+        include: {
+          account: { select: { id: true, code: true, name: true, isActive: true } },
+          project: { select: { id: true } },
+          vendor: { select: { id: true } },
+          paymentMethod: { select: { id: true } },
         },
-        project: { select: { id: true } },
       },
-    });
+      project: { select: { id: true } },
+    },
+  });
 
-    if (!originalVoucher || originalVoucher.companyId !== companyId) {
-      return { success: false, error: 'Voucher not found' };
-    }
+  if (!originalVoucher || originalVoucher.companyId !== companyId) {
+    throw new Error('Voucher not found');
+  }
 
-    // Only POSTED vouchers can be reversed
-    if (originalVoucher.status !== 'POSTED') {
-      return {
-        success: false,
-        error: `Cannot reverse voucher with status ${originalVoucher.status}. Only POSTED vouchers can be reversed.`,
-      };
-    }
+  // Only POSTED vouchers can be reversed
+  if (originalVoucher.status !== 'POSTED') {
+    throw new Error(
+      `Cannot reverse voucher with status ${originalVoucher.status}. Only POSTED vouchers can be reversed.`
+    );
+  }
 
-    // Check if already reversed
-    const existingReversal = await tx.voucher.findFirst({
-      where: {
-        reversalOfId: voucherId,
-        companyId,
-      },
-    });
+  // Check if already reversed
+  const existingReversal = await tx.voucher.findFirst({
+    where: {
+      reversalOfId: voucherId,
+      companyId,
+    },
+  });
 
-    if (existingReversal) {
-      return {
-        success: false,
-        error: 'This voucher has already been reversed',
-      };
-    }
+  if (existingReversal) {
+    throw new Error('This voucher has already been reversed');
+  }
 
-    // Check permissions
-    const permissionCheck = canPerformAction(role, 'REVERSE', originalVoucher, userId);
-    if (!permissionCheck.allowed) {
-      return { success: false, error: permissionCheck.reason };
-    }
+  // Check permissions
+  const permissionCheck = canPerformAction(role, 'REVERSE', originalVoucher, userId);
+  if (!permissionCheck.allowed) {
+    throw new Error(permissionCheck.reason);
+  }
 
-    const reversalDate = options?.date || new Date();
-    const reversalDescription =
-      options?.description || `Reversal of ${originalVoucher.voucherNo}`;
+  const reversalDate = options?.date || new Date();
 
-    // Generate reversal voucher number
-    const reversalVoucherNo = await generateVoucherNumber(companyId, reversalDate);
+  // The reversal is posted on its own date, which must be in an open period
+  await assertPeriodOpen(companyId, reversalDate, { role }, tx);
 
-    const before = createAuditSnapshot(originalVoucher);
+  const reversalDescription =
+    options?.description || `Reversal of ${originalVoucher.voucherNo}`;
 
-    // Create reversal voucher with negated lines
-    const reversalVoucher = await tx.voucher.create({
-      data: {
-        companyId,
-        voucherNo: reversalVoucherNo,
-        type: originalVoucher.type,
-        expenseType: originalVoucher.expenseType,
-        date: reversalDate,
-        narration: reversalDescription,
-        status: 'POSTED', // Reversal is posted immediately
-        projectId: originalVoucher.projectId,
-        createdByUserId: userId,
-        postedByUserId: userId,
-        postedAt: new Date(),
-        reversalOfId: voucherId,
-        reversedById: userId,
-        reversedAt: new Date(),
-        lines: {
-          create: originalVoucher.lines.map((line) => ({
-            companyId,
-            accountId: line.accountId,
-            description: line.description,
-            // Swap debit and credit (negate)
-            debit: line.credit,
-            credit: line.debit,
-            projectId: line.projectId,
-            vendorId: line.vendorId,
-            paymentMethodId: line.paymentMethodId,
-          })),
-        },
+  // Generate reversal voucher number
+  const reversalVoucherNo = await generateVoucherNumber(companyId, reversalDate, tx);
+
+  const before = createAuditSnapshot(originalVoucher);
+
+  // Create reversal voucher with negated lines
+  const reversalVoucher = await tx.voucher.create({
+    data: {
+      companyId,
+      voucherNo: reversalVoucherNo,
+      type: originalVoucher.type,
+      expenseType: originalVoucher.expenseType,
+      date: reversalDate,
+      narration: reversalDescription,
+      status: 'POSTED', // Reversal is posted immediately
+      projectId: originalVoucher.projectId,
+      createdByUserId: userId,
+      postedByUserId: userId,
+      postedAt: new Date(),
+      reversalOfId: voucherId,
+      reversedById: userId,
+      reversedAt: new Date(),
+      lines: {
+        create: originalVoucher.lines.map((line) => ({
+          companyId,
+          accountId: line.accountId,
+          description: line.description,
+          // Swap debit and credit (negate)
+          debit: line.credit,
+          credit: line.debit,
+          projectId: line.projectId,
+          vendorId: line.vendorId,
+          paymentMethodId: line.paymentMethodId,
+        })),
       },
-      include: {
-        project: { select: { id: true, name: true } },
-        createdBy: { select: { id: true, name: true, email: true } },
-        postedBy: { select: { id: true, name: true, email: true } },
-        originalVoucher: {
-          select: { id: true, voucherNo: true },
-        },
-        lines: {
-          include: { account: { select: { id: true, code: true, name: true } } },
-        },
+    },
+    include: {
+      project: { select: { id: true, name: true } },
+      createdBy: { select: { id: true, name: true, email: true } },
+      postedBy: { select: { id: true, name: true, email: true } },
+      originalVoucher: {
+        select: { id: true, voucherNo: true },
       },
-    });
-
-    // Update original voucher to REVERSED status
-    const updatedOriginal = await tx.voucher.update({
-      where: { id: voucherId },
-      data: {
-        status: 'REVERSED',
-        reversedAt: new Date(),
-        reversedById: userId,
+      lines: {
+        include: { account: { select: { id: true, code: true, name: true } } },
       },
-      include: {
-        reversalVouchers: {
-          select: { id: true, voucherNo: true, date: true },
-        },
+    },
+  });
+
+  // Update original voucher to REVERSED status
+  const updatedOriginal = await tx.voucher.update({
+    where: { id: voucherId },
+    data: {
+      status: 'REVERSED',
+      reversedAt: new Date(),
+      reversedById: userId,
+    },
+    include: {
+      reversalVouchers: {
+        select: { id: true, voucherNo: true, date: true },
       },
-    });
+    },
+  });
 
-    const after = createAuditSnapshot(updatedOriginal);
-    const diff = createDiff(before, after);
+  const after = createAuditSnapshot(updatedOriginal);
+  const diff = createDiff(before, after);
+
+  // Create audit log for original voucher
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'VOUCHER',
+    entityId: voucherId,
+    action: 'REVERSE',
+    before,
+    after,
+    diffJson: diff,
+    request,
+  });
 
-    // Create audit log for original voucher
-    await createAuditLog({
-      companyId,
-      actorUserId: userId,
-      entityType: 'VOUCHER',
-      entityId: voucherId,
-      action: 'REVERSE',
-      before,
-      after,
-      diffJson: diff,
-      request,
-    });
+  // Create audit log for reversal voucher creation
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'VOUCHER',
+    entityId: reversalVoucher.id,
+    action: 'CREATE',
+    before: null,
+    after: createAuditSnapshot(reversalVoucher),
+    request,
+  });
 
-    // Create audit log for reversal voucher creation
-    await createAuditLog({
-      companyId,
-      actorUserId: userId,
-      entityType: 'VOUCHER',
-      entityId: reversalVoucher.id,
-      action: 'CREATE',
-      before: null,
-      after: createAuditSnapshot(reversalVoucher),
-      request,
-    });
+  // Sync purchase status if original voucher is linked to a purchase
+  await syncPurchaseStatusWithVoucher(voucherId, companyId, tx);
+
+  return {
+    ...reversalVoucher,
+    originalVoucher: updatedOriginal,
+  };
+}
 
-    // Sync purchase status if original voucher is linked to a purchase
-    await syncPurchaseStatusWithVoucher(voucherId, companyId);
+/**
+ * Create a system-generated voucher directly in POSTED status
+ * (same as expenses: the source document is the approval).
+ * Runs inside the caller's transaction; throws if the lines do not balance or the period is closed.
+ */
+export async function createPostedVoucher(
+  tx: Prisma.TransactionClient,
+  input: PostedVoucherInput,
+  request?: NextRequest
+) {
+  const lines = input.lines.filter((line) => Number(line.debit) !== 0 || Number(line.credit) !== 0);
+
+  const balanceCheck = validateVoucherBalance(
+    lines.map((line) => ({
+      debit: Number(line.debit),
+      credit: Number(line.credit),
+    }))
+  );
+  if (!balanceCheck.valid) {
+    throw new Error(balanceCheck.error);
+  }
 
-    return {
-      success: true,
-      voucher: {
-        ...reversalVoucher,
-        originalVoucher: updatedOriginal,
+  if (!input.allowClosedPeriod) {
+    await assertPeriodOpen(input.companyId, input.date, { userId: input.userId }, tx);
+  }
+
+  const voucherNo = await generateVoucherNumber(input.companyId, input.date, tx);
+  const now = new Date();
+
+  const voucher = await tx.voucher.create({
+    data: {
+      companyId: input.companyId,
+      projectId: input.projectId ?? null,
+      voucherNo,
+      type: input.type,
+      expenseType: input.expenseType ?? null,
+      date: input.date,
+      status: 'POSTED',
+      narration: input.narration ?? null,
+      createdByUserId: input.userId,
+      postedByUserId: input.userId,
+      postedAt: now,
+      lines: {
+        create: lines.map((line) => ({
+          companyId: input.companyId,
+          accountId: line.accountId,
+          description: line.description ?? null,
+          debit: line.debit,
+          credit: line.credit,
+          projectId: line.projectId ?? null,
+          vendorId: line.vendorId ?? null,
+          paymentMethodId: line.paymentMethodId ?? null,
+        })),
       },
-    };
+    },
+    include: {
+      lines: true,
+    },
   });
+
+  await createAuditLog({
+    companyId: input.companyId,
+    actorUserId: input.userId,
+    entityType: 'VOUCHER',
+    entityId: voucher.id,
+    action: 'CREATE',
+    before: null,
+    after: createAuditSnapshot(voucher),
+    request,
+  });
+
+  return voucher;
 }
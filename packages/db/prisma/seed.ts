@@ -684,6 +684,13 @@ async function seedCompany(name: string): Promise<SeedContext> {
     });
   }
 
+  // Central store: every stock balance belongs to a location
+  const centralStore = await prisma.warehouse.upsert({
+    where: { companyId_name: { companyId: company.id, name: 'Central Store' } },
+    create: { companyId: company.id, name: 'Central Store', code: 'CENTRAL', isDefault: true },
+    update: {},
+  });
+
   // Seed stock items (only when SEED_STOCK=true; default: do not seed stock)
   const stockItemIds: string[] = [];
   if (process.env.SEED_STOCK === 'true') {
@@ -731,6 +738,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
         data: {
           companyId: company.id,
           stockItemId: stockItem.id,
+          warehouseId: centralStore.id,
           onHandQty: new Prisma.Decimal(0),
           avgCost: new Prisma.Decimal(0),
         },
@@ -781,6 +789,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
               unitCost: new Prisma.Decimal(unitCost),
               referenceType: 'SEED',
               referenceId: `seed-${stockItemId}-${j}`,
+              warehouseId: centralStore.id,
               notes: 'Seed data',
               createdById: userId,
             },
@@ -789,9 +798,10 @@ async function seedCompany(name: string): Promise<SeedContext> {
           // Update balance
           const balance = await tx.stockBalance.findUnique({
             where: {
-              companyId_stockItemId: {
+              companyId_stockItemId_warehouseId: {
                 companyId: company.id,
                 stockItemId,
+                warehouseId: centralStore.id,
               },
             },
           });
@@ -822,9 +832,10 @@ async function seedCompany(name: string): Promise<SeedContext> {
     // Get current balance
     const balance = await prisma.stockBalance.findUnique({
       where: {
-        companyId_stockItemId: {
+        companyId_stockItemId_warehouseId: {
           companyId: company.id,
           stockItemId,
+          warehouseId: centralStore.id,
         },
       },
     });
@@ -857,6 +868,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
               qty: new Prisma.Decimal(qty),
               referenceType: 'SEED',
               referenceId: `seed-out-${stockItemId}`,
+              warehouseId: centralStore.id,
               projectId,
               notes: 'Seed data - stock issue',
               createdById: userId,
@@ -866,9 +878,10 @@ async function seedCompany(name: string): Promise<SeedContext> {
           // Update balance
           const updatedBalance = await tx.stockBalance.findUnique({
             where: {
-              companyId_stockItemId: {
+              companyId_stockItemId_warehouseId: {
                 companyId: company.id,
                 stockItemId,
+                warehouseId: centralStore.id,
               },
             },
           });
@@ -1096,9 +1109,10 @@ async function seedCompany(name: string): Promise<SeedContext> {
                 // Get or create balance
                 let balance = await prisma.stockBalance.findUnique({
                   where: {
-                    companyId_stockItemId: {
+                    companyId_stockItemId_warehouseId: {
                       companyId: company.id,
                       stockItemId: line.stockItemId,
+                      warehouseId: centralStore.id,
                     },
                   },
                 });
@@ -1108,6 +1122,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
                     data: {
                       companyId: company.id,
                       stockItemId: line.stockItemId,
+                      warehouseId: centralStore.id,
                       onHandQty: new Prisma.Decimal(0),
                       avgCost: new Prisma.Decimal(0),
                     },
@@ -1126,6 +1141,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
                     referenceType: 'PURCHASE_VOUCHER',
                     referenceId: purchaseToPost.id,
                     projectId: purchaseToPost.projectId,
+                    warehouseId: centralStore.id,
                     vendorId: purchaseToPost.supplierVendorId,
                     notes: `Purchase: ${purchaseToPost.challanNo || purchaseToPost.id}`,
                     createdById: userId,
@@ -0,0 +1,124 @@
+/**
+ * Migration script for per-location stock balances
+ *
+ * Stock balances are now kept per location (warehouse). This script:
+ * 1. Creates the "Central Store" for every company that has none
+ * 2. Assigns movements without a location to the central store
+ * 3. Rebuilds every company's stock balances at the central store by replaying its movements
+ *
+ * Balances are derived data: clear stock_balances before applying the schema change (the new
+ * warehouse_id column is required), then run this script.
+ *
+ * Run: npm run migrate:warehouses (from packages/db)
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+interface ReplayedBalance {
+  onHandQty: Prisma.Decimal;
+  avgCost: Prisma.Decimal;
+}
+
+/**
+ * Transfers and site returns were booked without touching the balance before locations existed
+ */
+function affectedBalance(movement: { referenceType: string | null; movementKind: string | null; type: string }) {
+  if (movement.movementKind === 'TRANSFER_IN' || movement.movementKind === 'TRANSFER_OUT') {
+    return false;
+  }
+  if (movement.referenceType === 'MATERIAL_RETURN' && movement.type === 'IN') {
+    return false;
+  }
+  return true;
+}
+
+async function main() {
+  console.log('Starting migration: per-location stock balances...');
+
+  const companies = await prisma.company.findMany({ select: { id: true, name: true } });
+
+  for (const company of companies) {
+    const centralStore =
+      (await prisma.warehouse.findFirst({ where: { companyId: company.id, isDefault: true } })) ??
+      (await prisma.warehouse.upsert({
+        where: { companyId_name: { companyId: company.id, name: 'Central Store' } },
+        create: { companyId: company.id, name: 'Central Store', code: 'CENTRAL', isDefault: true },
+        update: { isDefault: true, isActive: true },
+      }));
+
+    const assigned = await prisma.stockMovement.updateMany({
+      where: { companyId: company.id, warehouseId: null },
+      data: { warehouseId: centralStore.id },
+    });
+
+    const movements = await prisma.stockMovement.findMany({
+      where: { companyId: company.id },
+      orderBy: [{ movementDate: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const balances = new Map<string, ReplayedBalance>();
+    for (const movement of movements) {
+      if (!affectedBalance(movement)) continue;
+
+      const balance = balances.get(movement.stockItemId) ?? {
+        onHandQty: new Prisma.Decimal(0),
+        avgCost: new Prisma.Decimal(0),
+      };
+
+      if (movement.type === 'IN') {
+        const newQty = balance.onHandQty.plus(movement.qty);
+        if (movement.unitCost !== null) {
+          balance.avgCost = newQty.gt(0)
+            ? balance.onHandQty.mul(balance.avgCost).plus(movement.qty.mul(movement.unitCost)).div(newQty)
+            : movement.unitCost;
+        }
+        balance.onHandQty = newQty;
+      } else if (movement.type === 'OUT') {
+        balance.onHandQty = balance.onHandQty.minus(movement.qty);
+      } else {
+        // ADJUST sets the quantity directly
+        balance.onHandQty = movement.qty;
+        if (movement.unitCost !== null) {
+          balance.avgCost = movement.unitCost;
+        }
+      }
+      balances.set(movement.stockItemId, balance);
+    }
+
+    // Items without movements still get a zero balance so they list at the central store
+    const items = await prisma.stockItem.findMany({ where: { companyId: company.id }, select: { id: true } });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.stockBalance.deleteMany({ where: { companyId: company.id } });
+      await tx.stockBalance.createMany({
+        data: items.map((item) => {
+          const balance = balances.get(item.id);
+          return {
+            companyId: company.id,
+            stockItemId: item.id,
+            warehouseId: centralStore.id,
+            onHandQty: balance?.onHandQty ?? new Prisma.Decimal(0),
+            avgCost: balance?.avgCost ?? new Prisma.Decimal(0),
+          };
+        }),
+      });
+    });
+
+    console.log(
+      `${company.name}: ${assigned.count} movements assigned to ${centralStore.name}, ${items.length} balances rebuilt`
+    );
+  }
+
+  console.log('Migration completed successfully!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,63 @@
+/**
+ * Migration script for FIFO stock lots
+ *
+ * Lots are opened by receipts from now on. Stock already on hand has none, so issues would cost
+ * it at the weighted average. This script opens one lot per location balance that has stock but
+ * no open lots, at the balance's average cost and dated today, so FIFO issues can consume it.
+ *
+ * Run: npm run migrate:lots (from packages/db), after migrate:warehouses
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('Starting migration: opening lots for stock on hand...');
+
+  const balances = await prisma.stockBalance.findMany({
+    where: { onHandQty: { gt: 0 } },
+  });
+
+  const receivedDate = new Date();
+  let opened = 0;
+  for (const balance of balances) {
+    const lots = await prisma.stockLot.aggregate({
+      where: {
+        companyId: balance.companyId,
+        stockItemId: balance.stockItemId,
+        warehouseId: balance.warehouseId,
+        remainingQty: { gt: 0 },
+      },
+      _sum: { remainingQty: true },
+    });
+    const uncovered = balance.onHandQty.minus(lots._sum.remainingQty ?? new Prisma.Decimal(0));
+    if (uncovered.lte(0)) continue;
+
+    await prisma.stockLot.create({
+      data: {
+        companyId: balance.companyId,
+        stockItemId: balance.stockItemId,
+        warehouseId: balance.warehouseId,
+        lotNo: 'OPENING',
+        receivedDate,
+        qty: uncovered,
+        remainingQty: uncovered,
+        unitCost: balance.avgCost,
+      },
+    });
+    opened++;
+  }
+
+  console.log(`Opened ${opened} lots for ${balances.length} balances with stock`);
+  console.log('Migration completed successfully!');
+}
+
+main()
+  .catch((e) => {
+    console.error('Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,6 +1,6 @@
 /**
  * Reset stock data (DEV-ONLY).
- * Deletes all StockMovement, InventoryTxn, ProjectStockSetting, StockBalance,
+ * Deletes all MaterialRequisition, StockLot, StockMovement, InventoryTxn, ProjectStockSetting, StockBalance,
  * nulls PurchaseLine.stockItemId, then deletes StockItem.
  *
  * Usage: npm run reset:stock (from root) or npm run reset:stock (from packages/db)
@@ -26,6 +26,29 @@ async function main() {
 
   console.log("Resetting stock data...");
 
+  const rq = await prisma.materialRequisition.deleteMany({});
+  console.log(`  MaterialRequisition: deleted ${rq.count}`);
+
+  const st = await prisma.stocktakeSession.deleteMany({});
+  console.log(`  StocktakeSession: deleted ${st.count}`);
+
+  // Bills raised against purchase orders stay, unlinked from the order
+  await prisma.purchaseLine.updateMany({
+    where: { purchaseOrderLineId: { not: null } },
+    data: { purchaseOrderLineId: null },
+  });
+  await prisma.purchase.updateMany({
+    where: { purchaseOrderId: { not: null } },
+    data: { purchaseOrderId: null },
+  });
+  const gr = await prisma.goodsReceipt.deleteMany({});
+  console.log(`  GoodsReceipt: deleted ${gr.count}`);
+  const po = await prisma.purchaseOrder.deleteMany({});
+  console.log(`  PurchaseOrder: deleted ${po.count}`);
+
+  const r0 = await prisma.stockLot.deleteMany({});
+  console.log(`  StockLot: deleted ${r0.count}`);
+
   const r1 = await prisma.stockMovement.deleteMany({});
   console.log(`  StockMovement: deleted ${r1.count}`);
 
@@ -26,8 +26,10 @@ export {
 export {
   VendorCreateSchema,
   VendorUpdateSchema,
+  VendorAdvanceApplySchema,
   type VendorCreate,
   type VendorUpdate,
+  type VendorAdvanceApply,
 } from './schemas/vendor';
 
 // PaymentMethod schemas
@@ -67,10 +69,12 @@ export {
   VoucherListFiltersSchema,
   VoucherLineCreateSchema,
   VoucherLineUpdateSchema,
+  VoucherRejectSchema,
   VoucherStatusEnum,
   type VoucherCreate,
   type VoucherUpdate,
   type VoucherListFilters,
+  type VoucherReject,
   type VoucherLineCreate,
   type VoucherLineUpdate,
   type VoucherStatus,
@@ -104,6 +108,62 @@ export {
   type PurchasePaymentMethod,
 } from './schemas/purchase';
 
+// Purchase order schemas
+export {
+  PurchaseOrderStatusEnum,
+  PurchaseOrderLineCreateSchema,
+  PurchaseOrderCreateSchema,
+  PurchaseOrderStatusUpdateSchema,
+  PurchaseOrderListFiltersSchema,
+  GoodsReceiptCreateSchema,
+  PurchaseOrderBillCreateSchema,
+  type PurchaseOrderStatus,
+  type PurchaseOrderLineCreate,
+  type PurchaseOrderCreate,
+  type PurchaseOrderStatusUpdate,
+  type PurchaseOrderListFilters,
+  type GoodsReceiptCreate,
+  type PurchaseOrderBillCreate,
+} from './schemas/purchaseOrder';
+
+// Payment run schemas
+export {
+  PaymentRunCandidateFiltersSchema,
+  PaymentRunCreateSchema,
+  type PaymentRunCandidateFilters,
+  type PaymentRunCreate,
+} from './schemas/paymentRun';
+
+// Cheque register schemas
+export {
+  ChequeDirectionEnum,
+  ChequeStatusEnum,
+  ChequeBookCreateSchema,
+  ChequeCreateSchema,
+  ChequeStatusUpdateSchema,
+  ChequeListFiltersSchema,
+  type ChequeDirection,
+  type ChequeStatus,
+  type ChequeBookCreate,
+  type ChequeCreate,
+  type ChequeStatusUpdate,
+  type ChequeListFilters,
+} from './schemas/cheque';
+
+// Bank reconciliation schemas
+export {
+  BankStatementMatchSchema,
+  BankStatementUnmatchSchema,
+  BankAutoMatchSchema,
+  BankReconciliationWorkspaceSchema,
+  BankReconciliationSaveSchema,
+  type BankStatementMatch,
+  type BankStatementUnmatch,
+  type BankAutoMatch,
+  type BankReconciliationWorkspace,
+  type BankReconciliationSave,
+} from './schemas/bankReconciliation';
+
 // Expense schemas
 export {
   ExpenseCreateSchema,
@@ -128,6 +188,29 @@ export {
   StockMovementAdjustSchema,
   StockBalanceListFiltersSchema,
   StockMovementListFiltersSchema,
+  WarehouseCreateSchema,
+  WarehouseUpdateSchema,
+  StockCostingMethodEnum,
+  StockCostingSettingsSchema,
+  StockCostingComparisonFiltersSchema,
+  StockValuationFiltersSchema,
+  StockTransferCreateSchema,
+  StockTransferReceiveSchema,
+  StockTransferListFiltersSchema,
+  VendorReturnCreateSchema,
+  SiteReturnCreateSchema,
+  MaterialRequisitionStatusEnum,
+  MaterialRequisitionCreateSchema,
+  MaterialRequisitionApproveSchema,
+  MaterialRequisitionRejectSchema,
+  MaterialRequisitionListFiltersSchema,
+  ReorderSuggestionFiltersSchema,
+  ReorderPurchaseCreateSchema,
+  StocktakeStatusEnum,
+  StocktakeCreateSchema,
+  StocktakeCountsSchema,
+  StocktakeRejectSchema,
+  StocktakeListFiltersSchema,
   type StockItemCreate,
   type StockItemUpdate,
   type StockItemListFilters,
@@ -136,13 +219,38 @@ export {
   type StockMovementAdjust,
   type StockBalanceListFilters,
   type StockMovementListFilters,
+  type WarehouseCreate,
+  type WarehouseUpdate,
+  type StockCostingMethod,
+  type StockCostingSettings,
+  type StockCostingComparisonFilters,
+  type StockValuationFilters,
+  type StockTransferCreate,
+  type StockTransferReceive,
+  type StockTransferListFilters,
+  type VendorReturnCreate,
+  type SiteReturnCreate,
+  type MaterialRequisitionStatus,
+  type MaterialRequisitionCreate,
+  type MaterialRequisitionApprove,
+  type MaterialRequisitionReject,
+  type MaterialRequisitionListFilters,
+  type ReorderSuggestionFilters,
+  type ReorderPurchaseCreate,
+  type StocktakeStatus,
+  type StocktakeCreate,
+  type StocktakeCounts,
+  type StocktakeReject,
+  type StocktakeListFilters,
 } from './schemas/stock';
 
 // Investment schemas
 export {
+  ProjectInvestmentTypeSchema,
   ProjectInvestmentCreateSchema,
   ProjectInvestmentUpdateSchema,
   ProjectInvestmentListFiltersSchema,
+  type ProjectInvestmentType,
   type ProjectInvestmentCreate,
   type ProjectInvestmentUpdate,
   type ProjectInvestmentListFilters,
@@ -154,18 +262,76 @@ export {
   ProjectLaborUpdateSchema,
   ProjectLaborListFiltersSchema,
   ProjectLaborTypeEnum,
+  LaborPaymentCreateSchema,
   type ProjectLaborCreate,
   type ProjectLaborUpdate,
   type ProjectLaborListFilters,
   type ProjectLaborType,
+  type LaborPaymentCreate,
 } from './schemas/labor';
 
 // Credit schemas
 export {
   CreditCreateSchema,
   CreditUpdateSchema,
+  CreditBackfillSchema,
   CreditListFiltersSchema,
   type CreditCreate,
   type CreditUpdate,
+  type CreditBackfill,
   type CreditListFilters,
 } from './schemas/credit';
+
+// Client bill schemas
+export {
+  ClientBillCreateSchema,
+  ClientBillUpdateSchema,
+  ClientBillReceiptCreateSchema,
+  ClientBillListFiltersSchema,
+  ClientBillStatusEnum,
+  ClientReceiptKindEnum,
+  type ClientBillCreate,
+  type ClientBillUpdate,
+  type ClientBillReceiptCreate,
+  type ClientBillListFilters,
+  type ClientBillStatus,
+  type ClientReceiptKind,
+} from './schemas/clientBill';
+
+// Approval policy schemas
+export {
+  ApprovalPolicyCreateSchema,
+  ApprovalPolicyUpdateSchema,
+  ApprovalPolicyStepSchema,
+  ApproverRoleEnum,
+  ApprovalVoucherTypeEnum,
+  VoucherApproveSchema,
+  type ApprovalPolicyCreate,
+  type ApprovalPolicyUpdate,
+  type ApprovalPolicyStep,
+  type ApproverRole,
+  type VoucherApprove,
+} from './schemas/approvalPolicy';
+
+// Fiscal period schemas
+export {
+  FiscalPeriodStatusEnum,
+  FiscalPeriodUpdateSchema,
+  FiscalMonthSchema,
+  FiscalYearCloseSchema,
+  type FiscalPeriodStatus,
+  type FiscalPeriodUpdate,
+  type FiscalYearClose,
+} from './schemas/fiscalPeriod';
+
+// Opening balance schemas
+export {
+  OpeningAccountBalanceSchema,
+  OpeningVendorBalanceSchema,
+  OpeningProjectCostSchema,
+  OpeningBalanceCreateSchema,
+  type OpeningAccountBalance,
+  type OpeningVendorBalance,
+  type OpeningProjectCost,
+  type OpeningBalanceCreate,
+} from './schemas/openingBalance';
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+/**
+ * User roles that can be named as approvers
+ */
+export const ApproverRoleEnum = z.enum(['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER']);
+
+/**
+ * Voucher types a policy can be scoped to (null = any type)
+ */
+export const ApprovalVoucherTypeEnum = z.enum(['JOURNAL', 'PAYMENT', 'RECEIPT', 'CONTRA']);
+
+/**
+ * Schema for one step of an approval policy
+ * A step applies when the voucher total is within [minAmount, maxAmount].
+ */
+export const ApprovalPolicyStepSchema = z
+  .object({
+    name: z.string().trim().optional().nullable(),
+    approverRoles: z.array(ApproverRoleEnum).min(1, 'At least one approver role is required'),
+    minAmount: z.number().nonnegative('Minimum amount must be non-negative').optional().default(0),
+    maxAmount: z.number().positive('Maximum amount must be positive').optional().nullable(),
+  })
+  .refine((step) => step.maxAmount == null || step.maxAmount >= step.minAmount, {
+    message: 'Maximum amount must not be less than minimum amount',
+  });
+
+/**
+ * Schema for creating an approval policy
+ * Steps are approved in the order given.
+ */
+export const ApprovalPolicyCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  voucherType: ApprovalVoucherTypeEnum.optional().nullable(),
+  isActive: z.boolean().optional().default(true),
+  steps: z.array(ApprovalPolicyStepSchema).min(1, 'At least one approval step is required'),
+});
+
+/**
+ * Schema for updating an approval policy (steps are replaced when given)
+ */
+export const ApprovalPolicyUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  voucherType: ApprovalVoucherTypeEnum.optional().nullable(),
+  isActive: z.boolean().optional(),
+  steps: z.array(ApprovalPolicyStepSchema).min(1, 'At least one approval step is required').optional(),
+});
+
+/**
+ * Schema for approving a voucher step
+ */
+export const VoucherApproveSchema = z.object({
+  comment: z.string().trim().max(1000).optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type ApproverRole = z.infer<typeof ApproverRoleEnum>;
+export type ApprovalPolicyStep = z.infer<typeof ApprovalPolicyStepSchema>;
+export type ApprovalPolicyCreate = z.infer<typeof ApprovalPolicyCreateSchema>;
+export type ApprovalPolicyUpdate = z.infer<typeof ApprovalPolicyUpdateSchema>;
+export type VoucherApprove = z.infer<typeof VoucherApproveSchema>;
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Schema for manually matching a bank statement line to a posted voucher line on the same bank account
+ */
+export const BankStatementMatchSchema = z.object({
+  statementLineId: z.string().min(1, 'Statement line is required'),
+  voucherLineId: z.string().min(1, 'Voucher line is required'),
+});
+
+/**
+ * Schema for removing a statement line match
+ */
+export const BankStatementUnmatchSchema = z.object({
+  statementLineId: z.string().min(1, 'Statement line is required'),
+});
+
+/**
+ * Schema for auto-matching unmatched statement lines of a bank account.
+ * Book lines must have the same amount and a date within windowDays of the statement line.
+ */
+export const BankAutoMatchSchema = z.object({
+  bankAccountId: z.string().min(1, 'Bank account is required'),
+  windowDays: z.number().int().min(0).max(31).default(7),
+});
+
+/**
+ * Schema for loading the reconciliation workspace of a bank account for a month (YYYY-MM)
+ */
+export const BankReconciliationWorkspaceSchema = z.object({
+  bankAccountId: z.string().min(1, 'Bank account is required'),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM'),
+});
+
+/**
+ * Schema for saving the reconciliation statement for a month.
+ * statementBalance overrides the balance taken from imported statements.
+ */
+export const BankReconciliationSaveSchema = BankReconciliationWorkspaceSchema.extend({
+  statementBalance: z.number().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type BankStatementMatch = z.infer<typeof BankStatementMatchSchema>;
+export type BankStatementUnmatch = z.infer<typeof BankStatementUnmatchSchema>;
+export type BankAutoMatch = z.infer<typeof BankAutoMatchSchema>;
+export type BankReconciliationWorkspace = z.infer<typeof BankReconciliationWorkspaceSchema>;
+export type BankReconciliationSave = z.infer<typeof BankReconciliationSaveSchema>;
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+/**
+ * Cheque direction and status enum values
+ */
+export const ChequeDirectionEnum = z.enum(['ISSUED', 'RECEIVED']);
+export const ChequeStatusEnum = z.enum(['ISSUED', 'PRESENTED', 'CLEARED', 'BOUNCED', 'CANCELLED']);
+
+/**
+ * Schema for registering a cheque book against a bank account
+ */
+export const ChequeBookCreateSchema = z
+  .object({
+    bankAccountId: z.string().min(1, 'Bank account is required'),
+    name: z.string().min(1, 'Name is required'),
+    startNo: z.number().int().positive('First leaf number must be positive'),
+    endNo: z.number().int().positive('Last leaf number must be positive'),
+  })
+  .refine((data) => data.endNo >= data.startNo, {
+    message: 'Last leaf number must not be before the first',
+    path: ['endNo'],
+  });
+
+/**
+ * Schema for recording a cheque.
+ * Issued cheques come from a cheque book (next unused leaf when chequeNo is omitted);
+ * received cheques name the depositing bank account. A cheque dated after issueDate is post-dated.
+ */
+export const ChequeCreateSchema = z
+  .object({
+    direction: ChequeDirectionEnum,
+    chequeBookId: z.string().optional().nullable(),
+    bankAccountId: z.string().optional().nullable(),
+    chequeNo: z.string().optional().nullable(),
+    issueDate: z.coerce.date().optional(),
+    chequeDate: z.coerce.date(),
+    amount: z.number().positive('Amount must be positive'),
+    partyName: z.string().optional().nullable(),
+    vendorId: z.string().optional().nullable(),
+    drawerBank: z.string().optional().nullable(),
+    voucherId: z.string().optional().nullable(),
+    notes: z.string().optional().nullable(),
+  })
+  .refine((data) => data.direction === 'RECEIVED' || !!data.chequeBookId, {
+    message: 'Cheque book is required for an issued cheque',
+    path: ['chequeBookId'],
+  })
+  .refine((data) => data.direction === 'ISSUED' || (!!data.bankAccountId && !!data.chequeNo), {
+    message: 'Deposit account and cheque number are required for a received cheque',
+    path: ['chequeNo'],
+  });
+
+/**
+ * Schema for moving a cheque along ISSUED → PRESENTED → CLEARED / BOUNCED, or cancelling it.
+ * A voucher can be linked when presenting a cheque recorded without one (e.g. a received post-dated cheque).
+ */
+export const ChequeStatusUpdateSchema = z.object({
+  status: z.enum(['PRESENTED', 'CLEARED', 'BOUNCED', 'CANCELLED']),
+  date: z.coerce.date().optional(),
+  note: z.string().optional().nullable(),
+  voucherId: z.string().optional().nullable(),
+});
+
+/**
+ * Schema for filtering the cheque register
+ */
+export const ChequeListFiltersSchema = z.object({
+  direction: ChequeDirectionEnum.optional(),
+  status: ChequeStatusEnum.optional(),
+  bankAccountId: z.string().optional(),
+  postDated: z.coerce.boolean().optional(),
+});
+
+// Inferred TypeScript types
+export type ChequeDirection = z.infer<typeof ChequeDirectionEnum>;
+export type ChequeStatus = z.infer<typeof ChequeStatusEnum>;
+export type ChequeBookCreate = z.infer<typeof ChequeBookCreateSchema>;
+export type ChequeCreate = z.infer<typeof ChequeCreateSchema>;
+export type ChequeStatusUpdate = z.infer<typeof ChequeStatusUpdateSchema>;
+export type ChequeListFilters = z.infer<typeof ChequeListFiltersSchema>;
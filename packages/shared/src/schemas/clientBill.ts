@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+export const ClientBillStatusEnum = z.enum(['DRAFT', 'POSTED', 'CANCELLED']);
+export type ClientBillStatus = z.infer<typeof ClientBillStatusEnum>;
+
+export const ClientReceiptKindEnum = z.enum(['BILL', 'RETENTION']);
+export type ClientReceiptKind = z.infer<typeof ClientReceiptKindEnum>;
+
+const percentSchema = z.number().min(0, 'Percent cannot be negative').max(100, 'Percent cannot exceed 100');
+
+/**
+ * Schema for creating a running bill (progress bill) for a project client
+ * workDoneToDate is the cumulative certified value of work; the bill amount is
+ * the difference from the previous bill.
+ */
+export const ClientBillCreateSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  date: z.coerce.date(),
+  dueDate: z.coerce.date().optional().nullable(),
+  periodFrom: z.coerce.date().optional().nullable(),
+  periodTo: z.coerce.date().optional().nullable(),
+  workDoneToDate: z.number().positive('Work done to date must be positive'),
+  retentionPercent: percentSchema.optional().default(0),
+  vatPercent: percentSchema.optional().default(0),
+  aitPercent: percentSchema.optional().default(0),
+  notes: z.string().optional().nullable(),
+});
+
+/**
+ * Schema for updating a DRAFT running bill
+ */
+export const ClientBillUpdateSchema = z.object({
+  date: z.coerce.date().optional(),
+  dueDate: z.coerce.date().optional().nullable(),
+  periodFrom: z.coerce.date().optional().nullable(),
+  periodTo: z.coerce.date().optional().nullable(),
+  workDoneToDate: z.number().positive('Work done to date must be positive').optional(),
+  retentionPercent: percentSchema.optional(),
+  vatPercent: percentSchema.optional(),
+  aitPercent: percentSchema.optional(),
+  notes: z.string().optional().nullable(),
+});
+
+/**
+ * Schema for recording money received from the client against a bill
+ */
+export const ClientBillReceiptCreateSchema = z.object({
+  kind: ClientReceiptKindEnum.default('BILL'),
+  date: z.coerce.date(),
+  amount: z.number().positive('Amount must be positive'),
+  paymentAccountId: z.string().min(1, 'Payment account is required'),
+  paymentMethodId: z.string().optional().nullable(),
+  reference: z.string().optional().nullable(),
+});
+
+/**
+ * Schema for filtering client bills list
+ */
+export const ClientBillListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  status: ClientBillStatusEnum.optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+});
+
+// Inferred TypeScript types
+export type ClientBillCreate = z.infer<typeof ClientBillCreateSchema>;
+export type ClientBillUpdate = z.infer<typeof ClientBillUpdateSchema>;
+export type ClientBillReceiptCreate = z.infer<typeof ClientBillReceiptCreateSchema>;
+export type ClientBillListFilters = z.infer<typeof ClientBillListFiltersSchema>;
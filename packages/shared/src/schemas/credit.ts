@@ -15,6 +15,7 @@ export const CreditCreateSchema = z.object({
   }),
   paymentRef: z.string().optional().nullable(),
   paymentAccountId: z.string().optional().nullable(),
+  incomeAccountId: z.string().optional().nullable(),
   amount: z.number().positive('Amount must be positive'),
   note: z.string().optional().nullable(),
 });
@@ -32,10 +33,18 @@ export const CreditUpdateSchema = z.object({
   paymentMethod: z.enum(['Cash', 'Check', 'Bank Transfer', 'Bkash', 'Other']).optional(),
   paymentRef: z.string().optional().nullable(),
   paymentAccountId: z.string().optional().nullable(),
+  incomeAccountId: z.string().optional().nullable(),
   amount: z.number().positive('Amount must be positive').optional(),
   note: z.string().optional().nullable(),
 });
 
+/**
+ * Schema for posting receipt vouchers for credits that have none
+ */
+export const CreditBackfillSchema = z.object({
+  incomeAccountId: z.string().optional().nullable(),
+});
+
 /**
  * Schema for filtering credits list
  */
@@ -51,4 +60,5 @@ export const CreditListFiltersSchema = z.object({
 // Inferred TypeScript types
 export type CreditCreate = z.infer<typeof CreditCreateSchema>;
 export type CreditUpdate = z.infer<typeof CreditUpdateSchema>;
+export type CreditBackfill = z.infer<typeof CreditBackfillSchema>;
 export type CreditListFilters = z.infer<typeof CreditListFiltersSchema>;
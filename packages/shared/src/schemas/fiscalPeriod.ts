@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Fiscal period status enum values
+ */
+export const FiscalPeriodStatusEnum = z.enum(['OPEN', 'SOFT_CLOSED', 'CLOSED']);
+
+/**
+ * Schema for changing the status of a fiscal period (month)
+ */
+export const FiscalPeriodUpdateSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1, 'Month must be 1-12').max(12, 'Month must be 1-12'),
+  status: FiscalPeriodStatusEnum,
+  note: z.string().trim().max(1000).optional().nullable(),
+});
+
+/**
+ * Schema for selecting a month (YYYY-MM)
+ */
+export const FiscalMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
+/**
+ * Schema for closing a fiscal (calendar) year
+ * The retained earnings account defaults to the system account when not given.
+ */
+export const FiscalYearCloseSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  retainedEarningsAccountId: z.string().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type FiscalPeriodStatus = z.infer<typeof FiscalPeriodStatusEnum>;
+export type FiscalPeriodUpdate = z.infer<typeof FiscalPeriodUpdateSchema>;
+export type FiscalYearClose = z.infer<typeof FiscalYearCloseSchema>;
@@ -1,22 +1,31 @@
 import { z } from 'zod';
 
+export const ProjectInvestmentTypeSchema = z.enum(['INVESTMENT', 'WITHDRAWAL']);
+
 /**
- * Schema for creating a project investment
+ * Schema for creating a project investment or withdrawal
  */
 export const ProjectInvestmentCreateSchema = z.object({
   projectId: z.string().min(1, 'Project is required'),
+  type: ProjectInvestmentTypeSchema.optional().default('INVESTMENT'),
+  investorName: z.string().trim().optional().nullable(),
   date: z.coerce.date(),
   amount: z.number().positive('Amount must be positive'),
   note: z.string().optional().nullable(),
+  equityAccountId: z.string().optional().nullable(),
+  paymentAccountId: z.string().optional().nullable(),
 });
 
 /**
  * Schema for updating a project investment
  */
 export const ProjectInvestmentUpdateSchema = z.object({
+  investorName: z.string().trim().optional().nullable(),
   date: z.coerce.date().optional(),
   amount: z.number().positive('Amount must be positive').optional(),
   note: z.string().optional().nullable(),
+  equityAccountId: z.string().optional().nullable(),
+  paymentAccountId: z.string().optional().nullable(),
 });
 
 /**
@@ -31,6 +40,7 @@ export const ProjectInvestmentListFiltersSchema = z.object({
 });
 
 // Inferred TypeScript types
+export type ProjectInvestmentType = z.infer<typeof ProjectInvestmentTypeSchema>;
 export type ProjectInvestmentCreate = z.infer<typeof ProjectInvestmentCreateSchema>;
 export type ProjectInvestmentUpdate = z.infer<typeof ProjectInvestmentUpdateSchema>;
 export type ProjectInvestmentListFilters = z.infer<typeof ProjectInvestmentListFiltersSchema>;
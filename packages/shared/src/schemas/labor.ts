@@ -18,8 +18,11 @@ export const ProjectLaborCreateSchema = z.object({
   year: z.number().int().optional().nullable(),
   // DAY labor optional fields
   teamLeader: z.string().optional().nullable(),
-  paid: z.number().min(0).optional().default(0),
+  paid: z.number().min(0).optional(),
   rating: z.number().int().min(1).max(5).optional().nullable(),
+  // Account the paid portion is paid from (defaults to Cash)
+  paymentAccountId: z.string().optional().nullable(),
+  paymentMethodId: z.string().optional().nullable(),
 });
 
 /**
@@ -38,8 +41,32 @@ export const ProjectLaborUpdateSchema = z.object({
   teamLeader: z.string().optional().nullable(),
   paid: z.number().min(0).optional(),
   rating: z.number().int().min(1).max(5).optional().nullable(),
+  paymentAccountId: z.string().optional().nullable(),
+  paymentMethodId: z.string().optional().nullable(),
+  // Date of the payment when only paid is increased (defaults to today)
+  paymentDate: z.coerce.date().optional(),
 });
 
+/**
+ * Schema for paying labor dues in installments
+ * Pays one entry (laborId) or a team leader's outstanding dues, oldest entry first.
+ */
+export const LaborPaymentCreateSchema = z
+  .object({
+    laborId: z.string().optional().nullable(),
+    teamLeader: z.string().optional().nullable(),
+    date: z.coerce.date(),
+    amount: z.number().positive('Amount must be positive'),
+    paymentAccountId: z.string().optional().nullable(),
+    paymentMethodId: z.string().optional().nullable(),
+    reference: z.string().optional().nullable(),
+    note: z.string().optional().nullable(),
+  })
+  .refine((data) => !!data.laborId || !!data.teamLeader, {
+    message: 'Select a team leader or a labor entry to pay',
+    path: ['teamLeader'],
+  });
+
 /**
  * Schema for filtering labor entries list
  */
@@ -56,3 +83,4 @@ export const ProjectLaborListFiltersSchema = z.object({
 export type ProjectLaborCreate = z.infer<typeof ProjectLaborCreateSchema>;
 export type ProjectLaborUpdate = z.infer<typeof ProjectLaborUpdateSchema>;
 export type ProjectLaborListFilters = z.infer<typeof ProjectLaborListFiltersSchema>;
+export type LaborPaymentCreate = z.infer<typeof LaborPaymentCreateSchema>;
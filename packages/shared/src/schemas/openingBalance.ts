@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+/**
+ * Opening debit or credit balance of one account
+ */
+export const OpeningAccountBalanceSchema = z.object({
+  accountId: z.string().min(1, 'Account is required'),
+  debit: z.coerce.number().nonnegative('Debit must be non-negative').default(0),
+  credit: z.coerce.number().nonnegative('Credit must be non-negative').default(0),
+}).refine(
+  (data) => !(data.debit > 0 && data.credit > 0),
+  { message: 'An opening balance cannot have both debit and credit' }
+);
+
+/**
+ * Amount owed to a vendor at cut-over; each row becomes one open item
+ */
+export const OpeningVendorBalanceSchema = z.object({
+  vendorId: z.string().min(1, 'Vendor is required'),
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  reference: z.string().trim().max(200).optional().nullable(),
+});
+
+/**
+ * Cost already incurred on a project before cut-over
+ */
+export const OpeningProjectCostSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  accountId: z.string().min(1, 'Expense account is required'),
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  description: z.string().trim().max(200).optional().nullable(),
+});
+
+/**
+ * Schema for posting opening balances as of a cut-over date
+ */
+export const OpeningBalanceCreateSchema = z.object({
+  cutoverDate: z.coerce.date(),
+  accounts: z.array(OpeningAccountBalanceSchema).default([]),
+  vendors: z.array(OpeningVendorBalanceSchema).default([]),
+  projects: z.array(OpeningProjectCostSchema).default([]),
+}).refine(
+  (data) => data.accounts.length + data.vendors.length + data.projects.length > 0,
+  { message: 'Enter at least one opening balance' }
+);
+
+// Inferred TypeScript types
+export type OpeningAccountBalance = z.infer<typeof OpeningAccountBalanceSchema>;
+export type OpeningVendorBalance = z.infer<typeof OpeningVendorBalanceSchema>;
+export type OpeningProjectCost = z.infer<typeof OpeningProjectCostSchema>;
+export type OpeningBalanceCreate = z.infer<typeof OpeningBalanceCreateSchema>;
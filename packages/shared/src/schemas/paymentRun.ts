@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Schema for selecting open items for a payment run.
+ * With a budget, amounts are proposed oldest due date first until the budget runs out.
+ */
+export const PaymentRunCandidateFiltersSchema = z.object({
+  dueBy: z.coerce.date().optional(),
+  projectId: z.string().optional(),
+  vendorId: z.string().optional(),
+  minAmount: z.coerce.number().nonnegative('Minimum amount cannot be negative').optional(),
+  budget: z.coerce.number().positive('Budget must be positive').optional(),
+});
+
+/**
+ * Schema for creating a payment run (one PAYMENT voucher per vendor)
+ */
+export const PaymentRunCreateSchema = z.object({
+  date: z.coerce.date(),
+  paymentAccountId: z.string().min(1, 'Payment account is required'),
+  budget: z.number().positive('Budget must be positive').optional().nullable(),
+  notes: z.string().optional().nullable(),
+  allocations: z
+    .array(
+      z.object({
+        sourceLineId: z.string().min(1, 'Open item is required'),
+        amount: z.number().positive('Amount must be positive'),
+      })
+    )
+    .min(1, 'Select at least one open item'),
+});
+
+// Inferred TypeScript types
+export type PaymentRunCandidateFilters = z.infer<typeof PaymentRunCandidateFiltersSchema>;
+export type PaymentRunCreate = z.infer<typeof PaymentRunCreateSchema>;
@@ -28,6 +28,8 @@ export const PurchaseLineCreateSchema = z
     description: z.string().optional().nullable(),
     materialName: z.string().trim().min(1).optional().nullable(),
     lineTotal: z.number().nonnegative('Line total must be non-negative'),
+    // Purchase order line this bill line is matched against
+    purchaseOrderLineId: z.string().optional().nullable(),
   })
   .superRefine((data, ctx) => {
     // MATERIAL lines require either materialName OR stockItemId (for backwards compatibility)
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Purchase order status enum values
+ */
+export const PurchaseOrderStatusEnum = z.enum(['OPEN', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED']);
+
+/**
+ * Schema for creating a purchase order line (agreed quantity and rate)
+ */
+export const PurchaseOrderLineCreateSchema = z.object({
+  stockItemId: z.string().min(1, 'Stock item is required'),
+  description: z.string().optional().nullable(),
+  qty: z.number().positive('Quantity must be positive'),
+  unitRate: z.number().nonnegative('Unit rate must be non-negative'),
+});
+
+/**
+ * Schema for creating a purchase order
+ */
+export const PurchaseOrderCreateSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  vendorId: z.string().min(1, 'Vendor is required'),
+  orderDate: z.coerce.date().optional(),
+  expectedDate: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  lines: z.array(PurchaseOrderLineCreateSchema).min(1, 'At least one line is required'),
+});
+
+/**
+ * Schema for closing (short-closing) or cancelling a purchase order
+ */
+export const PurchaseOrderStatusUpdateSchema = z.object({
+  action: z.enum(['CLOSE', 'CANCEL']),
+});
+
+/**
+ * Schema for filtering purchase orders and open order quantities
+ */
+export const PurchaseOrderListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  vendorId: z.string().optional(),
+  status: PurchaseOrderStatusEnum.optional(),
+});
+
+/**
+ * Schema for a goods receipt note (GRN) against a purchase order
+ */
+export const GoodsReceiptCreateSchema = z.object({
+  receiptDate: z.coerce.date().optional(),
+  challanNo: z.string().trim().optional().nullable(),
+  warehouseId: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        purchaseOrderLineId: z.string().min(1, 'Order line is required'),
+        qty: z.number().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'At least one line is required'),
+});
+
+/**
+ * Schema for drafting the vendor bill for received, unbilled quantities
+ */
+export const PurchaseOrderBillCreateSchema = z.object({
+  date: z.coerce.date().optional(),
+  challanNo: z.string().trim().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type PurchaseOrderStatus = z.infer<typeof PurchaseOrderStatusEnum>;
+export type PurchaseOrderLineCreate = z.infer<typeof PurchaseOrderLineCreateSchema>;
+export type PurchaseOrderCreate = z.infer<typeof PurchaseOrderCreateSchema>;
+export type PurchaseOrderStatusUpdate = z.infer<typeof PurchaseOrderStatusUpdateSchema>;
+export type PurchaseOrderListFilters = z.infer<typeof PurchaseOrderListFiltersSchema>;
+export type GoodsReceiptCreate = z.infer<typeof GoodsReceiptCreateSchema>;
+export type PurchaseOrderBillCreate = z.infer<typeof PurchaseOrderBillCreateSchema>;
@@ -1,5 +1,10 @@
 import { z } from 'zod';
 
+/**
+ * Stock costing methods: weighted average, or first-in first-out by lot
+ */
+export const StockCostingMethodEnum = z.enum(['WEIGHTED_AVERAGE', 'FIFO']);
+
 /**
  * Schema for creating a stock item
  */
@@ -9,6 +14,8 @@ export const StockItemCreateSchema = z.object({
   unit: z.string().min(1, 'Unit is required'),
   category: z.string().optional().nullable(),
   reorderLevel: z.number().nonnegative('Reorder level must be non-negative').optional().nullable(),
+  // Null follows the company's costing method
+  costingMethod: StockCostingMethodEnum.optional().nullable(),
   isActive: z.boolean().default(true),
 });
 
@@ -21,6 +28,7 @@ export const StockItemUpdateSchema = z.object({
   unit: z.string().min(1, 'Unit is required').optional(),
   category: z.string().optional().nullable(),
   reorderLevel: z.number().nonnegative('Reorder level must be non-negative').optional().nullable(),
+  costingMethod: StockCostingMethodEnum.optional().nullable(),
   isActive: z.boolean().optional(),
 });
 
@@ -33,6 +41,8 @@ export const StockItemListFiltersSchema = z.object({
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
   category: z.string().optional(),
   isActive: z.coerce.boolean().optional(),
+  // On-hand quantity at one location instead of across all locations
+  warehouseId: z.string().optional(),
 });
 
 /**
@@ -46,20 +56,31 @@ export const StockMovementInSchema = z.object({
   referenceId: z.string().optional(),
   projectId: z.string().optional().nullable(),
   vendorId: z.string().optional().nullable(),
+  warehouseId: z.string().optional().nullable(),
+  // Supplier batch or lot number
+  lotNo: z.string().trim().optional().nullable(),
   notes: z.string().optional().nullable(),
   movementDate: z.string().datetime().optional(),
 });
 
 /**
  * Schema for creating a stock movement (OUT)
+ * An issue is charged to a project's Direct Materials; wastage may be written off without one.
  */
-export const StockMovementOutSchema = z.object({
-  stockItemId: z.string().min(1, 'Stock item is required'),
-  qty: z.number().positive('Quantity must be positive'),
-  projectId: z.string().optional().nullable(),
-  notes: z.string().optional().nullable(),
-  movementDate: z.string().datetime().optional(),
-});
+export const StockMovementOutSchema = z
+  .object({
+    stockItemId: z.string().min(1, 'Stock item is required'),
+    qty: z.number().positive('Quantity must be positive'),
+    movementKind: z.enum(['ISSUE', 'WASTAGE']).default('ISSUE'),
+    projectId: z.string().optional().nullable(),
+    warehouseId: z.string().optional().nullable(),
+    notes: z.string().optional().nullable(),
+    movementDate: z.string().datetime().optional(),
+  })
+  .refine((data) => data.movementKind !== 'ISSUE' || !!data.projectId, {
+    message: 'Choose the project the stock is issued to',
+    path: ['projectId'],
+  });
 
 /**
  * Schema for creating a stock movement (ADJUST)
@@ -68,6 +89,7 @@ export const StockMovementAdjustSchema = z.object({
   stockItemId: z.string().min(1, 'Stock item is required'),
   qty: z.number().nonnegative('Quantity must be non-negative'),
   unitCost: z.number().nonnegative('Unit cost must be non-negative').optional(),
+  warehouseId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   movementDate: z.string().datetime().optional(),
 });
@@ -81,6 +103,7 @@ export const StockBalanceListFiltersSchema = z.object({
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
   lowStock: z.coerce.boolean().optional(),
   category: z.string().optional(),
+  warehouseId: z.string().optional(),
 });
 
 /**
@@ -90,12 +113,266 @@ export const StockMovementListFiltersSchema = z.object({
   stockItemId: z.string().optional(),
   type: z.enum(['IN', 'OUT', 'ADJUST']).optional(),
   projectId: z.string().optional(),
+  warehouseId: z.string().optional(),
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   page: z.coerce.number().int().positive().optional().default(1),
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
 });
 
+/**
+ * Schema for creating a stock location (central store or project site store)
+ */
+export const WarehouseCreateSchema = z.object({
+  name: z.string().min(1, 'Location name is required').trim(),
+  code: z.string().optional().nullable(),
+  address: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable(),
+  isDefault: z.boolean().default(false),
+});
+
+/**
+ * Schema for updating a stock location
+ */
+export const WarehouseUpdateSchema = z.object({
+  name: z.string().min(1, 'Location name is required').trim().optional(),
+  code: z.string().optional().nullable(),
+  address: z.string().optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for transferring stock between two project sites
+ */
+export const StockTransferCreateSchema = z
+  .object({
+    sourceProjectId: z.string().min(1, 'Source project is required'),
+    destinationProjectId: z.string().min(1, 'Destination project is required'),
+    transferDate: z.coerce.date().optional(),
+    inTransit: z.boolean().default(false),
+    notes: z.string().optional().nullable(),
+    items: z
+      .array(
+        z.object({
+          stockItemId: z.string().min(1, 'Stock item is required'),
+          qty: z.number().positive('Quantity must be positive'),
+        })
+      )
+      .min(1, 'At least one item is required'),
+  })
+  .refine((data) => data.sourceProjectId !== data.destinationProjectId, {
+    message: 'Source and destination projects must be different',
+    path: ['destinationProjectId'],
+  });
+
+/**
+ * Schema for confirming receipt of an in-transit transfer
+ */
+export const StockTransferReceiveSchema = z.object({
+  receivedDate: z.coerce.date().optional(),
+});
+
+/**
+ * Schema for the company's stock costing method
+ */
+export const StockCostingSettingsSchema = z.object({
+  stockCostingMethod: StockCostingMethodEnum,
+});
+
+/**
+ * Schema for the weighted-average vs FIFO valuation comparison
+ */
+export const StockCostingComparisonFiltersSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  warehouseId: z.string().optional(),
+});
+
+/**
+ * Schema for the point-in-time stock valuation and aging reports
+ */
+export const StockValuationFiltersSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  projectId: z.string().optional(),
+  warehouseId: z.string().optional(),
+});
+
+/**
+ * Schema for filtering stock transfers list
+ */
+export const StockTransferListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  status: z.enum(['IN_TRANSIT', 'RECEIVED']).optional(),
+});
+
+/**
+ * Schema for returning purchased material to the vendor (debit note)
+ */
+export const VendorReturnCreateSchema = z.object({
+  returnDate: z.coerce.date().optional(),
+  reason: z.string().min(1, 'Reason is required').trim(),
+  lines: z
+    .array(
+      z.object({
+        purchaseLineId: z.string().min(1, 'Purchase line is required'),
+        qty: z.number().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'At least one line is required'),
+});
+
+/**
+ * Schema for returning unused material from a project site to the central store
+ */
+export const SiteReturnCreateSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  purchaseId: z.string().optional().nullable(),
+  returnDate: z.coerce.date().optional(),
+  reason: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        stockItemId: z.string().min(1, 'Stock item is required'),
+        purchaseLineId: z.string().optional().nullable(),
+        qty: z.number().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'At least one line is required'),
+});
+
+/**
+ * Material requisition status enum
+ */
+export const MaterialRequisitionStatusEnum = z.enum([
+  'PENDING',
+  'APPROVED',
+  'PARTIALLY_APPROVED',
+  'REJECTED',
+  'CANCELLED',
+]);
+
+/**
+ * Schema for a site engineer's material requisition against a project
+ */
+export const MaterialRequisitionCreateSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  requiredDate: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        stockItemId: z.string().min(1, 'Stock item is required'),
+        qty: z.number().positive('Quantity must be positive'),
+        notes: z.string().optional().nullable(),
+      })
+    )
+    .min(1, 'At least one item is required'),
+});
+
+/**
+ * Schema for approving a requisition, fully or partly; approved quantities are issued at once
+ */
+export const MaterialRequisitionApproveSchema = z.object({
+  warehouseId: z.string().optional().nullable(),
+  issueDate: z.coerce.date().optional(),
+  decisionNote: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1, 'Requisition line is required'),
+        approvedQty: z.number().min(0, 'Approved quantity cannot be negative'),
+      })
+    )
+    .min(1, 'At least one line is required'),
+});
+
+/**
+ * Schema for rejecting a requisition
+ */
+export const MaterialRequisitionRejectSchema = z.object({
+  decisionNote: z.string().min(1, 'Reason is required').trim(),
+});
+
+/**
+ * Schema for filtering material requisitions list
+ */
+export const MaterialRequisitionListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  status: MaterialRequisitionStatusEnum.optional(),
+});
+
+/**
+ * Schema for low-stock reorder suggestions
+ * Usage is averaged over the lookback window; suggestions cover the threshold plus coverDays of usage.
+ */
+export const ReorderSuggestionFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  lookbackDays: z.coerce.number().int().min(7, 'Look back at least 7 days').max(365).default(90),
+  coverDays: z.coerce.number().int().min(0).max(365).default(30),
+});
+
+/**
+ * Schema for drafting purchases from reorder suggestions, grouped by each item's last supplier
+ */
+export const ReorderPurchaseCreateSchema = z.object({
+  date: z.coerce.date().optional(),
+  lines: z
+    .array(
+      z.object({
+        stockItemId: z.string().min(1, 'Stock item is required'),
+        projectId: z.string().optional().nullable(),
+        qty: z.number().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'Select at least one item to order'),
+});
+
+/**
+ * Stocktake (physical count) schemas
+ * A session is for a project, a stock location, or both; expected quantities are frozen when it opens.
+ */
+export const StocktakeStatusEnum = z.enum(['COUNTING', 'SUBMITTED', 'POSTED', 'CANCELLED']);
+
+export const StocktakeCreateSchema = z
+  .object({
+    projectId: z.string().optional().nullable(),
+    warehouseId: z.string().optional().nullable(),
+    countDate: z.coerce.date().optional(),
+    notes: z.string().optional().nullable(),
+  })
+  .refine((data) => data.projectId || data.warehouseId, {
+    message: 'Choose a project or a stock location to count',
+  });
+
+/**
+ * Counted quantities; a null count clears the line
+ * A count for an item that is not on the sheet adds it with nothing expected.
+ */
+export const StocktakeCountsSchema = z.object({
+  lines: z
+    .array(
+      z
+        .object({
+          lineId: z.string().optional(),
+          stockItemId: z.string().optional(),
+          countedQty: z.number().min(0, 'Counted quantity cannot be negative').nullable(),
+          notes: z.string().optional().nullable(),
+        })
+        .refine((line) => line.lineId || line.stockItemId, { message: 'Line or stock item is required' })
+    )
+    .min(1, 'Enter at least one count'),
+});
+
+export const StocktakeRejectSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').trim(),
+});
+
+export const StocktakeListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  warehouseId: z.string().optional(),
+  status: StocktakeStatusEnum.optional(),
+});
+
 // Inferred TypeScript types
 export type StockItemCreate = z.infer<typeof StockItemCreateSchema>;
 export type StockItemUpdate = z.infer<typeof StockItemUpdateSchema>;
@@ -105,3 +382,26 @@ export type StockMovementOut = z.infer<typeof StockMovementOutSchema>;
 export type StockMovementAdjust = z.infer<typeof StockMovementAdjustSchema>;
 export type StockBalanceListFilters = z.infer<typeof StockBalanceListFiltersSchema>;
 export type StockMovementListFilters = z.infer<typeof StockMovementListFiltersSchema>;
+export type WarehouseCreate = z.infer<typeof WarehouseCreateSchema>;
+export type WarehouseUpdate = z.infer<typeof WarehouseUpdateSchema>;
+export type StockCostingMethod = z.infer<typeof StockCostingMethodEnum>;
+export type StockCostingSettings = z.infer<typeof StockCostingSettingsSchema>;
+export type StockCostingComparisonFilters = z.infer<typeof StockCostingComparisonFiltersSchema>;
+export type StockValuationFilters = z.infer<typeof StockValuationFiltersSchema>;
+export type StockTransferCreate = z.infer<typeof StockTransferCreateSchema>;
+export type StockTransferReceive = z.infer<typeof StockTransferReceiveSchema>;
+export type StockTransferListFilters = z.infer<typeof StockTransferListFiltersSchema>;
+export type VendorReturnCreate = z.infer<typeof VendorReturnCreateSchema>;
+export type SiteReturnCreate = z.infer<typeof SiteReturnCreateSchema>;
+export type MaterialRequisitionStatus = z.infer<typeof MaterialRequisitionStatusEnum>;
+export type MaterialRequisitionCreate = z.infer<typeof MaterialRequisitionCreateSchema>;
+export type MaterialRequisitionApprove = z.infer<typeof MaterialRequisitionApproveSchema>;
+export type MaterialRequisitionReject = z.infer<typeof MaterialRequisitionRejectSchema>;
+export type MaterialRequisitionListFilters = z.infer<typeof MaterialRequisitionListFiltersSchema>;
+export type ReorderSuggestionFilters = z.infer<typeof ReorderSuggestionFiltersSchema>;
+export type ReorderPurchaseCreate = z.infer<typeof ReorderPurchaseCreateSchema>;
+export type StocktakeStatus = z.infer<typeof StocktakeStatusEnum>;
+export type StocktakeCreate = z.infer<typeof StocktakeCreateSchema>;
+export type StocktakeCounts = z.infer<typeof StocktakeCountsSchema>;
+export type StocktakeReject = z.infer<typeof StocktakeRejectSchema>;
+export type StocktakeListFilters = z.infer<typeof StocktakeListFiltersSchema>;
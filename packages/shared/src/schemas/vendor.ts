@@ -8,6 +8,11 @@ export const VendorCreateSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   notes: z.string().optional(),
+  paymentTermDays: z.number().int().min(0, 'Payment terms cannot be negative').max(365).optional().default(0),
+  bankName: z.string().optional().nullable(),
+  bankAccountName: z.string().optional().nullable(),
+  bankAccountNo: z.string().optional().nullable(),
+  bankRoutingNo: z.string().optional().nullable(),
   isActive: z.boolean().optional().default(true),
 });
 
@@ -19,9 +24,37 @@ export const VendorUpdateSchema = z.object({
   phone: z.string().optional().nullable(),
   address: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
+  paymentTermDays: z.number().int().min(0, 'Payment terms cannot be negative').max(365).optional(),
+  bankName: z.string().optional().nullable(),
+  bankAccountName: z.string().optional().nullable(),
+  bankAccountNo: z.string().optional().nullable(),
+  bankRoutingNo: z.string().optional().nullable(),
   isActive: z.boolean().optional(),
 });
 
+/**
+ * Schema for applying a vendor's unapplied advance to posted bills.
+ * FIFO settles the oldest open items first; MANUAL takes explicit allocations.
+ */
+export const VendorAdvanceApplySchema = z
+  .object({
+    date: z.coerce.date().optional(),
+    mode: z.enum(['FIFO', 'MANUAL']).default('FIFO'),
+    allocations: z
+      .array(
+        z.object({
+          sourceLineId: z.string().min(1, 'Open item is required'),
+          amount: z.number().positive('Amount must be positive'),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => data.mode === 'FIFO' || (data.allocations && data.allocations.length > 0), {
+    message: 'At least one allocation is required',
+    path: ['allocations'],
+  });
+
 // Inferred TypeScript types
 export type VendorCreate = z.infer<typeof VendorCreateSchema>;
 export type VendorUpdate = z.infer<typeof VendorUpdateSchema>;
+export type VendorAdvanceApply = z.infer<typeof VendorAdvanceApplySchema>;
@@ -148,15 +148,24 @@ export const VoucherListFiltersSchema = z.object({
   dateTo: z.coerce.date().optional(),
   projectId: z.string().optional(),
   q: z.string().optional(),
+  returnedToMe: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
   page: z.coerce.number().int().positive().optional().default(1),
   limit: z.coerce.number().int().positive().max(100).optional().default(20),
 });
 
+/**
+ * Schema for rejecting a submitted voucher back to DRAFT
+ */
+export const VoucherRejectSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required to reject a voucher').max(1000),
+});
+
 // Inferred TypeScript types
 export type VoucherLineCreate = z.infer<typeof VoucherLineCreateSchema>;
 export type VoucherLineUpdate = z.infer<typeof VoucherLineUpdateSchema>;
 export type VoucherCreate = z.infer<typeof VoucherCreateSchema>;
 export type VoucherUpdate = z.infer<typeof VoucherUpdateSchema>;
 export type VoucherListFilters = z.infer<typeof VoucherListFiltersSchema>;
+export type VoucherReject = z.infer<typeof VoucherRejectSchema>;
 export type VoucherStatus = z.infer<typeof VoucherStatusEnum>;
 export type ExpenseType = z.infer<typeof ExpenseTypeEnum>;